@@ -1,38 +1,69 @@
 
+import { ReactNode } from "react";
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { ViewProvider } from "@/contexts/ViewContext";
+import { AuthProvider } from "@/contexts/AuthContext";
+import { useAuth } from "@/hooks/useAuth";
+import { WorkspaceProvider } from "@/contexts/WorkspaceContext";
 import { Layout } from "@/components/layout/Layout";
 import { MainContent } from "@/components/MainContent";
 import { InstagramCallback } from "@/pages/InstagramCallback";
 import { YouTubeCallback } from "@/pages/YouTubeCallback";
+import { OAuthCallback } from "@/pages/OAuthCallback";
+import { SignIn } from "@/pages/SignIn";
+import { OAUTH_PROVIDERS, OAuthProvider } from "@/utils/oauthProviders";
 
 const queryClient = new QueryClient();
 
-const App = () => {
-  // Check if this is a callback URL
-  const isInstagramCallback = window.location.pathname === '/instagram-callback';
-  const isYouTubeCallback = window.location.pathname === '/youtube-callback';
+// Pages the connect popups land on; they render without the signed-in app
+const CALLBACK_PAGES: Record<string, ReactNode> = {
+  '/instagram-callback': <InstagramCallback />,
+  '/youtube-callback': <YouTubeCallback />,
+  ...Object.fromEntries(
+    (Object.keys(OAUTH_PROVIDERS) as OAuthProvider[]).map(provider => [
+      OAUTH_PROVIDERS[provider].callbackPath,
+      <OAuthCallback provider={provider} />
+    ])
+  )
+};
 
-  if (isInstagramCallback) {
+const AuthenticatedApp = () => {
+  const { session, isLoading } = useAuth();
+
+  if (isLoading) {
     return (
-      <QueryClientProvider client={queryClient}>
-        <TooltipProvider>
-          <InstagramCallback />
-          <Toaster />
-          <Sonner />
-        </TooltipProvider>
-      </QueryClientProvider>
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
     );
   }
 
-  if (isYouTubeCallback) {
+  if (!session) {
+    return <SignIn />;
+  }
+
+  return (
+    <WorkspaceProvider>
+      <ViewProvider>
+        <Layout>
+          <MainContent />
+        </Layout>
+      </ViewProvider>
+    </WorkspaceProvider>
+  );
+};
+
+const App = () => {
+  const callbackPage = CALLBACK_PAGES[window.location.pathname];
+
+  if (callbackPage) {
     return (
       <QueryClientProvider client={queryClient}>
         <TooltipProvider>
-          <YouTubeCallback />
+          {callbackPage}
           <Toaster />
           <Sonner />
         </TooltipProvider>
@@ -43,13 +74,11 @@ const App = () => {
   return (
   <QueryClientProvider client={queryClient}>
     <TooltipProvider>
-      <ViewProvider>
-        <Layout>
-          <MainContent />
-        </Layout>
-        <Toaster />
-        <Sonner />
-      </ViewProvider>
+      <AuthProvider>
+        <AuthenticatedApp />
+      </AuthProvider>
+      <Toaster />
+      <Sonner />
     </TooltipProvider>
   </QueryClientProvider>
 );
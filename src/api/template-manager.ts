@@ -1,11 +1,15 @@
 
 import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+type FallbackVariableRow = Tables<'template_fallback_variables'>;
 
 interface TemplateVariable {
   name: string;
   type: string;
-  charLimit: number;
+  charLimit?: number;
   required?: boolean;
+  defaultValue?: string;
   description?: string;
 }
 
@@ -157,6 +161,12 @@ class TemplateManager {
         if (data?.success && data?.template) {
           console.log('MOBILE TEMPLATE - API returned variables:', data.template.variables);
           console.log('MOBILE TEMPLATE - Variable count from API:', data.template.variables.length);
+
+          // Variables the admin has described keep their schema over the API's plain text defaults
+          data.template.variableTypes = {
+            ...data.template.variableTypes,
+            ...this.toVariableTypes(await this.getVariableSchema(templateId))
+          };
           
           // Cache the result
           this.templateCache.set(templateId, data.template);
@@ -174,26 +184,13 @@ class TemplateManager {
       console.log(`Fetching template detail from database for ${templateId}`);
       
       // Get template variables from database first
-      const { data: fallbackVars, error: varsError } = await supabase
-        .from('template_fallback_variables')
-        .select('variable_name')
-        .eq('template_id', templateId)
-        .order('variable_order');
+      const fallbackVars = await this.getVariableSchema(templateId);
 
-      if (!varsError && fallbackVars && fallbackVars.length > 0) {
+      if (fallbackVars.length > 0) {
         const variables = fallbackVars.map(v => v.variable_name);
         console.log(`Using database template variables for ${templateId}:`, variables);
         
-        // Generate variable types for database variables
-        const variableTypes = variables.reduce((acc, varName) => {
-          acc[varName] = {
-            name: varName,
-            type: varName.includes('image') ? 'image_url' : varName.includes('url') ? 'url' : 'text',
-            charLimit: varName.includes('image') || varName.includes('url') ? 500 : 100,
-            required: true
-          };
-          return acc;
-        }, {} as Record<string, TemplateVariable>);
+        const variableTypes = this.toVariableTypes(fallbackVars);
 
         const templateDetail: TemplateDetail = {
           id: templateId,
@@ -242,34 +239,19 @@ class TemplateManager {
         
         try {
           // Try to get fallback variables from database first
-          const { data: fallbackVars, error } = await supabase
-            .from('template_fallback_variables')
-            .select('variable_name')
-            .eq('template_id', templateId)
-            .order('variable_order');
+          const fallbackVars = await this.getVariableSchema(templateId);
 
-          if (!error && fallbackVars && fallbackVars.length > 0) {
+          if (fallbackVars.length > 0) {
             variables = fallbackVars.map(v => v.variable_name);
+            variableTypes = this.toVariableTypes(fallbackVars);
             console.log(`Using database fallback variables for ${templateId}:`, variables);
           } else {
             // Fallback to hardcoded variables if database lookup fails
             const config = await this.getClientConfig('default');
             variables = config.fallbackVariables?.[templateId] || [];
+            variableTypes = this.untypedVariables(variables);
             console.log(`Using hardcoded fallback variables for ${templateId}:`, variables);
           }
-          
-          // Generate variable types for fallback variables
-          if (variables.length > 0) {
-            variableTypes = variables.reduce((acc, varName) => {
-              acc[varName] = {
-                name: varName,
-                type: varName.includes('image') ? 'image_url' : varName.includes('url') ? 'url' : 'text',
-                charLimit: varName.includes('image') || varName.includes('url') ? 500 : 100,
-                required: true
-              };
-              return acc;
-            }, {} as Record<string, TemplateVariable>);
-          }
         } catch (fallbackError) {
           console.error(`Error getting fallback variables for ${templateId}:`, fallbackError);
         }
@@ -373,24 +355,58 @@ class TemplateManager {
     return this.templateCache.has(templateId);
   }
 
+  // The variable schema admins define in the template editor, in template order
+  private async getVariableSchema(templateId: string): Promise<FallbackVariableRow[]> {
+    const { data, error } = await supabase
+      .from('template_fallback_variables')
+      .select('*')
+      .eq('template_id', templateId)
+      .order('variable_order');
+
+    if (error) {
+      console.error(`Error fetching variable schema for ${templateId}:`, error);
+      return [];
+    }
+    return data;
+  }
+
+  private toVariableTypes(rows: FallbackVariableRow[]): Record<string, TemplateVariable> {
+    return Object.fromEntries(rows.map(row => [row.variable_name, {
+      name: row.variable_name,
+      type: row.variable_type,
+      charLimit: row.char_limit ?? undefined,
+      required: row.is_required,
+      defaultValue: row.default_value ?? undefined,
+      description: row.description ?? undefined
+    }]));
+  }
+
+  // Hardcoded fallbacks have no schema, so every variable is required text
+  private untypedVariables(variables: string[]): Record<string, TemplateVariable> {
+    return Object.fromEntries(variables.map(name => [name, {
+      name,
+      type: 'text',
+      required: true
+    }]));
+  }
+
   private async getFallbackTemplate(templateId: string): Promise<TemplateDetail | null> {
     try {
       // Try to get fallback variables from database first
-      const { data: fallbackVars, error } = await supabase
-        .from('template_fallback_variables')
-        .select('variable_name')
-        .eq('template_id', templateId)
-        .order('variable_order');
+      const fallbackVars = await this.getVariableSchema(templateId);
 
       let variables: string[] = [];
+      let variableTypes: Record<string, TemplateVariable> = {};
       
-      if (!error && fallbackVars && fallbackVars.length > 0) {
+      if (fallbackVars.length > 0) {
         variables = fallbackVars.map(v => v.variable_name);
+        variableTypes = this.toVariableTypes(fallbackVars);
         console.log(`Using database fallback variables for ${templateId}:`, variables);
       } else {
         // Fallback to hardcoded variables if database lookup fails
         const config = await this.getClientConfig('default');
         variables = config.fallbackVariables?.[templateId] || [];
+        variableTypes = this.untypedVariables(variables);
         console.log(`Using hardcoded fallback variables for ${templateId}:`, variables);
       }
 
@@ -407,15 +423,7 @@ class TemplateManager {
         category: 'Custom',
         duration: '30s',
         variables: variables,
-        variableTypes: variables.reduce((acc, varName) => {
-          acc[varName] = {
-            name: varName,
-            type: varName.includes('image') ? 'image_url' : varName.includes('url') ? 'url' : 'text',
-            charLimit: varName.includes('image') || varName.includes('url') ? 500 : 100,
-            required: true
-          };
-          return acc;
-        }, {} as Record<string, TemplateVariable>)
+        variableTypes: variableTypes
       };
 
       console.log('Created fallback template:', fallbackTemplate);
@@ -1,15 +1,22 @@
 
 import { useState, useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Heart, Download, Copy, Trash2, Search, AlertCircle, RefreshCw, Upload } from 'lucide-react';
+import { Heart, Download, Copy, Trash2, Search, AlertCircle, RefreshCw, Upload, BarChart3, ClipboardCheck } from 'lucide-react';
 import { useAssetLibrary, AssetLibraryItem } from '@/hooks/useAssetLibrary';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { SocialMediaUploadModal } from '@/components/SocialMediaUploadModal';
+import { PublicationPerformance } from '@/components/PublicationPerformance';
+import { GenerationProgress } from '@/components/GenerationProgress';
+import { useGenerationJobs } from '@/hooks/useGenerationJobs';
+import { useWorkspace } from '@/hooks/useWorkspace';
+import { AssetReviewQueue } from '@/components/AssetReviewQueue';
+import { REVIEW_STATUS_LABELS, REVIEW_STATUS_STYLES, type ReviewStatus } from '@/utils/assetReview';
 
 export function AssetLibrary() {
   const [assets, setAssets] = useState<AssetLibraryItem[]>([]);
@@ -17,7 +24,9 @@ export function AssetLibrary() {
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedType, setSelectedType] = useState<string>('all');
   const [showFavoritesOnly, setShowFavoritesOnly] = useState(false);
+  const [showReview, setShowReview] = useState(false);
   
+  const { currentWorkspace } = useWorkspace();
   const { getLibraryAssets, toggleFavorite, deleteFromLibrary, isLoading } = useAssetLibrary();
   const { toast } = useToast();
 
@@ -37,6 +46,25 @@ export function AssetLibrary() {
     await loadAssets();
   };
 
+  // Settled jobs have written the final URL (or failure) to their library entry
+  const { jobForAsset } = useGenerationJobs({ onJobSettled: () => loadAssets() });
+
+  // Review status of the generated asset behind each library entry
+  const originalAssetIds = assets.map(asset => asset.original_asset_id).filter((id): id is string => !!id);
+  const { data: reviewStatuses = {} } = useQuery({
+    queryKey: ['asset-review-statuses', currentWorkspace?.id, originalAssetIds],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('generated_assets')
+        .select('id, review_status')
+        .in('id', originalAssetIds);
+
+      if (error) throw error;
+      return Object.fromEntries(data.map(row => [row.id, row.review_status as ReviewStatus]));
+    },
+    enabled: !!currentWorkspace?.id && originalAssetIds.length > 0,
+  });
+
   useEffect(() => {
     loadAssets();
     // Removed auto-refresh interval to prevent interrupting video playback
@@ -176,13 +204,21 @@ export function AssetLibrary() {
     content: assets.filter(a => a.asset_type === 'content').length,
   };
 
-  return (
-    <div className="space-y-6">
-      <div className="flex justify-between items-center">
-        <div className="space-y-2">
-          <h2 className="text-3xl font-bold">Asset Library</h2>
-          <p className="text-muted-foreground">Manage and organize your saved AI-generated assets</p>
-        </div>
+  const header = (
+    <div className="flex justify-between items-center">
+      <div className="space-y-2">
+        <h2 className="text-3xl font-bold">Asset Library</h2>
+        <p className="text-muted-foreground">Manage and organize your saved AI-generated assets</p>
+      </div>
+      <div className="flex space-x-2">
+        <Button
+          variant={showReview ? 'default' : 'outline'}
+          onClick={() => setShowReview(!showReview)}
+          className="flex items-center space-x-2"
+        >
+          <ClipboardCheck className="h-4 w-4" />
+          <span>{showReview ? 'Back to Library' : 'Review Queue'}</span>
+        </Button>
         <Button
           variant="outline"
           onClick={handleManualRefresh}
@@ -193,6 +229,21 @@ export function AssetLibrary() {
           <span>Refresh</span>
         </Button>
       </div>
+    </div>
+  );
+
+  if (showReview) {
+    return (
+      <div className="space-y-6">
+        {header}
+        <AssetReviewQueue />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {header}
 
       {/* Search and Filter Controls */}
       <div className="flex flex-col sm:flex-row gap-4">
@@ -267,6 +318,11 @@ export function AssetLibrary() {
                       <Badge variant="outline" className="text-xs">
                         {asset.source_system.toUpperCase()}
                       </Badge>
+                      {asset.original_asset_id && reviewStatuses[asset.original_asset_id] && (
+                        <Badge variant="secondary" className={`text-xs ${REVIEW_STATUS_STYLES[reviewStatuses[asset.original_asset_id]]}`}>
+                          {REVIEW_STATUS_LABELS[reviewStatuses[asset.original_asset_id]]}
+                        </Badge>
+                      )}
                       {asset.tags?.map((tag, index) => (
                         <Badge key={index} variant="secondary" className="text-xs">
                           {tag}
@@ -318,15 +374,9 @@ export function AssetLibrary() {
                             <div className="text-center">
                               <div className="w-8 h-8 border-2 border-blue-600 border-t-transparent rounded-full animate-spin mx-auto mb-3"></div>
                               <p className="font-medium mb-2">🎬 FeedGenesis is working on your video</p>
-                              <div className="flex items-center space-x-2 mb-2">
-                                <div className="flex-1 bg-gray-200 rounded-full h-2 max-w-32">
-                                  <div className="bg-blue-600 h-2 rounded-full animate-pulse" style={{ width: "75%" }}></div>
-                                </div>
-                                <span className="text-xs text-gray-600">75%</span>
+                              <div className="w-48 mx-auto text-left">
+                                <GenerationProgress job={jobForAsset(asset)} />
                               </div>
-                              <p className="text-xs text-gray-600">
-                                Estimated time remaining: 1-2 minutes
-                              </p>
                               {asset.asset_url === "pending" && (
                                 <p className="text-xs text-orange-600 mt-1">
                                   ⏳ Request sent - Processing will begin shortly
@@ -341,7 +391,7 @@ export function AssetLibrary() {
                                 <AlertCircle className="h-8 w-8" />
                               </div>
                               <p className="font-medium">❌ Video generation failed</p>
-                              <p className="text-xs mt-1">Please try generating again</p>
+                              <p className="text-xs mt-1">{jobForAsset(asset)?.error || 'Please try generating again'}</p>
                             </div>
                           </div>
                         ) : (
@@ -430,13 +480,16 @@ export function AssetLibrary() {
                           )}
 
                           {/* Social Media Upload Button */}
-                          {asset.asset_url && asset.asset_url !== "processing" && asset.asset_url !== "pending" && asset.asset_url !== "failed" && (
+                          {(asset.asset_type === 'content'
+                            ? !!asset.content
+                            : asset.asset_url && asset.asset_url !== "processing" && asset.asset_url !== "pending" && asset.asset_url !== "failed") && (
                             <SocialMediaUploadModal 
                               asset={{
                                 id: asset.id,
                                 title: asset.title,
                                 asset_type: asset.asset_type === 'formats' || asset.asset_type === 'ad' ? 'image' : asset.asset_type as 'image' | 'video' | 'content',
                                 asset_url: asset.asset_url,
+                                content: asset.content,
                                 description: asset.description,
                                 tags: asset.tags
                               }}
@@ -451,6 +504,16 @@ export function AssetLibrary() {
                               </Button>
                             </SocialMediaUploadModal>
                           )}
+
+                          <PublicationPerformance title={asset.title} assetId={asset.id}>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              title="Post performance"
+                            >
+                              <BarChart3 className="h-4 w-4" />
+                            </Button>
+                          </PublicationPerformance>
                          
                          {asset.asset_type === 'content' && asset.content ? (
                            <Button
@@ -0,0 +1,249 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { CheckCircle, Loader2, MessageSquare, RefreshCw, RotateCcw, Send, Undo2, XCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useWorkspace } from "@/hooks/useWorkspace";
+import { supabase } from "@/integrations/supabase/client";
+import { useAssetReviews, type ReviewableAsset } from "@/hooks/useAssetReviews";
+import {
+  REVIEW_EVENT_LABELS,
+  REVIEW_STATUS_LABELS,
+  REVIEW_STATUS_STYLES,
+  reviewAsset,
+  type ReviewAction,
+  type ReviewStatus,
+} from "@/utils/assetReview";
+
+const ACTION_TOASTS: Record<ReviewAction, string> = {
+  comment: 'Comment added.',
+  submit: 'Submitted for review.',
+  withdraw: 'Moved back to drafts.',
+  approve: 'Approved for publishing.',
+  reject: 'Asset rejected.',
+  request_changes: 'Changes requested; a new version is being generated.',
+};
+
+export function AssetReviewQueue() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { currentWorkspace, canEdit, refreshWorkspaces } = useWorkspace();
+  const [status, setStatus] = useState<ReviewStatus>('in_review');
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState<string | null>(null);
+  const [savingSetting, setSavingSetting] = useState(false);
+  const { assets, isLoading, isFetching, refetch } = useAssetReviews(status);
+
+  const isOwner = currentWorkspace?.role === 'owner';
+
+  const handleRequireApproval = async (requireApproval: boolean) => {
+    if (!currentWorkspace) return;
+
+    setSavingSetting(true);
+    const { error } = await supabase
+      .from('client_configs')
+      .update({ require_approval: requireApproval })
+      .eq('id', currentWorkspace.id);
+
+    if (error) {
+      setSavingSetting(false);
+      toast({
+        title: "Update Failed",
+        description: error.message || "Failed to update the approval setting",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    await refreshWorkspaces();
+    setSavingSetting(false);
+    toast({
+      title: requireApproval ? "Approval Required" : "Approval Optional",
+      description: requireApproval
+        ? "Only approved assets can be published from this workspace."
+        : "Assets can be published without review.",
+    });
+  };
+
+  const handleAction = async (asset: ReviewableAsset, action: ReviewAction) => {
+    const comment = comments[asset.id]?.trim();
+    if ((action === 'comment' || action === 'request_changes') && !comment) {
+      toast({
+        title: "Comment Needed",
+        description: action === 'comment'
+          ? "Write a comment first."
+          : "Describe the changes you want; they are added to the generation instruction.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setBusy(`${asset.id}:${action}`);
+    try {
+      const result = await reviewAsset(action, asset.id, comment);
+      setComments(prev => ({ ...prev, [asset.id]: '' }));
+      toast({
+        title: "Review Updated",
+        description: result.message || ACTION_TOASTS[action],
+      });
+      refetch();
+    } catch (error) {
+      toast({
+        title: "Review Failed",
+        description: error.message || "Failed to update the review",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const actionButton = (
+    asset: ReviewableAsset,
+    action: ReviewAction,
+    label: string,
+    Icon: typeof Send,
+    variant: "default" | "outline" | "destructive" = "outline"
+  ) => (
+    <Button size="sm" variant={variant} onClick={() => handleAction(asset, action)} disabled={busy !== null}>
+      {busy === `${asset.id}:${action}` ? (
+        <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+      ) : (
+        <Icon className="h-4 w-4 mr-1" />
+      )}
+      {label}
+    </Button>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-medium">Review Queue</h3>
+          <p className="text-sm text-muted-foreground">
+            Generated assets move from draft to review, then are approved, rejected or sent back for changes
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Select value={status} onValueChange={(value) => setStatus(value as ReviewStatus)}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(REVIEW_STATUS_LABELS) as ReviewStatus[]).map(value => (
+                <SelectItem key={value} value={value}>{REVIEW_STATUS_LABELS[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <Switch
+          id="require-approval"
+          checked={!!currentWorkspace?.requireApproval}
+          onCheckedChange={handleRequireApproval}
+          disabled={!isOwner || savingSetting}
+        />
+        <Label htmlFor="require-approval" className="text-sm">
+          Require approval before publishing
+          {!isOwner && <span className="text-muted-foreground"> (set by workspace owners)</span>}
+        </Label>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      ) : !assets.length ? (
+        <p className="text-sm text-muted-foreground text-center py-8">
+          No {REVIEW_STATUS_LABELS[status].toLowerCase()} assets
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {assets.map(asset => {
+            const assetStatus = asset.review_status as ReviewStatus;
+            return (
+              <Card key={asset.id} className="overflow-hidden">
+                <CardHeader className="pb-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <CardTitle className="text-base capitalize">{asset.asset_type} for {asset.channel}</CardTitle>
+                      <CardDescription>
+                        Generated {new Date(asset.created_at).toLocaleDateString()} · {asset.source_system}
+                        {asset.regenerated_from && ' · regenerated from feedback'}
+                      </CardDescription>
+                    </div>
+                    <Badge variant="secondary" className={REVIEW_STATUS_STYLES[assetStatus]}>
+                      {REVIEW_STATUS_LABELS[assetStatus] ?? asset.review_status}
+                    </Badge>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="aspect-video bg-gray-100 rounded-lg overflow-hidden">
+                    {asset.asset_type === 'video' ? (
+                      <video src={asset.url} controls className="w-full h-full object-contain" />
+                    ) : (
+                      <img src={asset.url} alt={asset.instruction ?? 'Generated asset'} className="w-full h-full object-contain" />
+                    )}
+                  </div>
+
+                  {asset.instruction && (
+                    <p className="text-sm text-gray-600 line-clamp-3 whitespace-pre-line">{asset.instruction}</p>
+                  )}
+
+                  {asset.asset_review_comments.length > 0 && (
+                    <div className="space-y-2 border-t pt-3">
+                      {asset.asset_review_comments.map(comment => (
+                        <div key={comment.id} className="text-sm">
+                          <span className="font-medium">{comment.author_id === user?.id ? 'You' : 'A teammate'}</span>
+                          {' '}
+                          <span className="text-muted-foreground">
+                            {REVIEW_EVENT_LABELS[comment.kind] ?? comment.kind} · {new Date(comment.created_at).toLocaleString()}
+                          </span>
+                          {comment.body && <p className="text-gray-700 whitespace-pre-line">{comment.body}</p>}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  <Textarea
+                    value={comments[asset.id] ?? ''}
+                    onChange={(e) => setComments(prev => ({ ...prev, [asset.id]: e.target.value }))}
+                    placeholder={isOwner && assetStatus === 'in_review'
+                      ? 'Comment, or describe the changes to regenerate with'
+                      : 'Add a comment'}
+                    rows={2}
+                  />
+
+                  <div className="flex flex-wrap gap-2 justify-end">
+                    {actionButton(asset, 'comment', 'Comment', MessageSquare)}
+                    {canEdit && assetStatus === 'draft' && actionButton(asset, 'submit', 'Submit for Review', Send, 'default')}
+                    {canEdit && assetStatus === 'in_review' && actionButton(asset, 'withdraw', 'Withdraw', Undo2)}
+                    {isOwner && assetStatus === 'in_review' && (
+                      <>
+                        {actionButton(asset, 'request_changes', 'Request Changes', RotateCcw)}
+                        {actionButton(asset, 'reject', 'Reject', XCircle, 'destructive')}
+                        {actionButton(asset, 'approve', 'Approve', CheckCircle, 'default')}
+                      </>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
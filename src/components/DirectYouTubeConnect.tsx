@@ -15,7 +15,7 @@ export function DirectYouTubeConnect() {
       // Generate YouTube OAuth URL
       const clientId = '912066635865-6rucscatfu2otov3s6clfnoh9hhuj9jh.apps.googleusercontent.com';
       const redirectUri = `${window.location.origin}/youtube-callback`;
-      const scope = 'https://www.googleapis.com/auth/youtube.upload https://www.googleapis.com/auth/youtube.readonly';
+      const scope = 'https://www.googleapis.com/auth/youtube.upload https://www.googleapis.com/auth/youtube.readonly https://www.googleapis.com/auth/yt-analytics.readonly';
       
       const authUrl = new URL('https://accounts.google.com/o/oauth2/v2/auth');
       authUrl.searchParams.set('client_id', clientId);
@@ -0,0 +1,49 @@
+import { Progress } from "@/components/ui/progress";
+import { AlertCircle, Clock } from "lucide-react";
+import {
+  describeGenerationStage,
+  formatGenerationEta,
+  type GenerationJob,
+} from "@/utils/generationJobs";
+
+interface GenerationProgressProps {
+  job?: GenerationJob;
+}
+
+// What the provider last reported for a job: stage, progress, ETA or why it failed
+export function GenerationProgress({ job }: GenerationProgressProps) {
+  if (!job) {
+    return (
+      <p className="text-xs text-gray-500 flex items-center space-x-1">
+        <Clock className="h-3 w-3" />
+        <span>Waiting for the provider to report progress</span>
+      </p>
+    );
+  }
+
+  if (job.status === 'failed') {
+    return (
+      <p className="text-xs text-red-600 flex items-start space-x-1">
+        <AlertCircle className="h-3 w-3 mt-0.5 shrink-0" />
+        <span>{job.error || 'Generation failed'}</span>
+      </p>
+    );
+  }
+
+  const percent = Math.round(Number(job.progress) * 100);
+  const eta = formatGenerationEta(job);
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium text-blue-600 flex items-center space-x-1">
+          <Clock className="h-3 w-3" />
+          <span>{describeGenerationStage(job)}</span>
+        </span>
+        <span className="text-xs font-bold text-purple-600">{percent}%</span>
+      </div>
+      <Progress value={percent} className="h-2 bg-blue-100" />
+      {eta && <p className="text-xs text-gray-500">{eta}</p>}
+    </div>
+  );
+}
@@ -4,7 +4,10 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/useWorkspace";
 import { supabase } from "@/integrations/supabase/client";
+import { useGenerationJobs } from "@/hooks/useGenerationJobs";
+import { GenerationProgress } from "@/components/GenerationProgress";
 import { 
   Download, 
   RefreshCw, 
@@ -32,11 +35,19 @@ interface HeyGenVideo {
 
 export function HeyGenVideoManager() {
   const { toast } = useToast();
+  const { currentWorkspace } = useWorkspace();
   const [videos, setVideos] = useState<HeyGenVideo[]>([]);
   const [selectedVideos, setSelectedVideos] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isPulling, setIsPulling] = useState(false);
   const [lastFetch, setLastFetch] = useState<Date | null>(null);
+  const { jobs } = useGenerationJobs();
+
+  // Videos we submitted have a job the status poller keeps current
+  const jobForVideo = (video: HeyGenVideo) => jobs.find(job =>
+    job.provider === 'heygen' &&
+    (job.provider_task_id === video.id || (!!video.callback_id && job.callback_id === video.callback_id))
+  );
 
   const fetchHeyGenVideos = async () => {
     setIsLoading(true);
@@ -47,7 +58,8 @@ export function HeyGenVideoManager() {
         body: {
           action: 'list',
           page: 1,
-          limit: 50
+          limit: 50,
+          workspaceId: currentWorkspace?.id
         }
       });
 
@@ -96,7 +108,8 @@ export function HeyGenVideoManager() {
       const { data, error } = await supabase.functions.invoke('heygen-list-videos', {
         body: {
           action: 'pull',
-          videoIds: selectedVideos
+          videoIds: selectedVideos,
+          workspaceId: currentWorkspace?.id
         }
       });
 
@@ -282,6 +295,7 @@ export function HeyGenVideoManager() {
             {videos.map((video) => {
               const isSelected = selectedVideos.includes(video.id);
               const canBePulled = video.status === 'completed' && video.video_url;
+              const job = jobForVideo(video);
               
               return (
                 <div
@@ -317,6 +331,10 @@ export function HeyGenVideoManager() {
                         )}
                       </div>
                     </div>
+
+                    {job && !canBePulled && job.status !== 'succeeded' && (
+                      <GenerationProgress job={job} />
+                    )}
                     
                     <div className="flex items-center justify-between text-xs text-muted-foreground">
                       <div className="flex items-center space-x-4">
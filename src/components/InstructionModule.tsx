@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { useWorkspace } from "@/hooks/useWorkspace";
 
 interface InstructionModuleProps {
   onInstructionApproved: (instruction: string) => void;
@@ -17,6 +18,7 @@ export function InstructionModule({ onInstructionApproved, selectedImage }: Inst
   const [isProcessing, setIsProcessing] = useState(false);
   const [isApproved, setIsApproved] = useState(false);
   const { toast } = useToast();
+  const { currentWorkspace } = useWorkspace();
 
   const handleCleanInstruction = async () => {
     if (!rawInstruction.trim()) {
@@ -38,7 +40,8 @@ export function InstructionModule({ onInstructionApproved, selectedImage }: Inst
           productInfo: {
             name: "Premium Wireless Headphones",
             description: "High-quality audio experience with noise cancellation"
-          }
+          },
+          workspaceId: currentWorkspace?.id
         }
       });
 
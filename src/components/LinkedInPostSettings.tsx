@@ -0,0 +1,34 @@
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { LINKEDIN_MAX_POST_LENGTH, type LinkedInPostSettings as Settings } from '@/utils/linkedinPublishing';
+
+interface LinkedInPostSettingsProps {
+  pageName: string | null;
+  value: Settings;
+  onChange: (value: Settings) => void;
+}
+
+export function LinkedInPostSettings({ pageName, value, onChange }: LinkedInPostSettingsProps) {
+  return (
+    <div className="space-y-3 border rounded-lg p-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">LinkedIn</span>
+        {pageName && <span className="text-xs text-muted-foreground">Posting to {pageName}</span>}
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="linkedin-text" className="text-xs">Post text</Label>
+        <Textarea
+          id="linkedin-text"
+          rows={5}
+          value={value.text}
+          maxLength={LINKEDIN_MAX_POST_LENGTH}
+          onChange={(e) => onChange({ ...value, text: e.target.value })}
+        />
+        <p className="text-xs text-muted-foreground text-right">
+          {value.text.length}/{LINKEDIN_MAX_POST_LENGTH}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -7,9 +7,11 @@ import { InventoryDisplay } from "./inventory/InventoryDisplay";
 import { VideoTemplatesTab } from "./VideoTemplatesTab";
 import { UserModule } from "./user/UserModule";
 import { SocialProfiles } from "./SocialProfiles";
+import { CampaignsTab } from "./campaigns/CampaignsTab";
+import { ContentCalendar } from "./calendar/ContentCalendar";
 import { useState } from "react";
 import { Button } from "./ui/button";
-import { Library, Package, Video, User, Share2 } from "lucide-react";
+import { Library, Package, Video, User, Share2, Rocket, CalendarDays } from "lucide-react";
 
 export function MainContent() {
   const { isAdmin, activeTab, setActiveTab } = useView();
@@ -30,6 +32,15 @@ export function MainContent() {
           <Package className="h-4 w-4" />
           <span>Enhanced Product Generator</span>
         </Button>
+
+        <Button 
+          variant={activeTab === 'campaigns' ? 'default' : 'ghost'} 
+          onClick={() => setActiveTab('campaigns')}
+          className="rounded-b-none flex items-center space-x-2"
+        >
+          <Rocket className="h-4 w-4" />
+          <span>Campaigns</span>
+        </Button>
         
         <Button 
           variant={activeTab === 'library' ? 'default' : 'ghost'} 
@@ -49,6 +60,15 @@ export function MainContent() {
           <span>Video Templates</span>
         </Button>
 
+        <Button 
+          variant={activeTab === 'calendar' ? 'default' : 'ghost'} 
+          onClick={() => setActiveTab('calendar')}
+          className="rounded-b-none flex items-center space-x-2"
+        >
+          <CalendarDays className="h-4 w-4" />
+          <span>Calendar</span>
+        </Button>
+
         <Button 
           variant={activeTab === 'social' ? 'default' : 'ghost'} 
           onClick={() => setActiveTab('social')}
@@ -70,8 +90,10 @@ export function MainContent() {
 
       {/* Tab Content */}
       {activeTab === 'inventory' && <InventoryDisplay />}
+      {activeTab === 'campaigns' && <CampaignsTab />}
       {activeTab === 'library' && <AssetLibrary />}
       {activeTab === 'templates' && <VideoTemplatesTab />}
+      {activeTab === 'calendar' && <ContentCalendar />}
       {activeTab === 'social' && <SocialProfiles />}
       {activeTab === 'user' && <UserModule />}
     </div>
@@ -6,6 +6,7 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { useWorkspace } from "@/hooks/useWorkspace";
 
 interface ManualVideoEntry {
   videoId: string;
@@ -27,6 +28,7 @@ export function ManualVideoAdder() {
   });
   const [isAdding, setIsAdding] = useState(false);
   const { toast } = useToast();
+  const { currentWorkspace } = useWorkspace();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -51,7 +53,8 @@ export function ManualVideoAdder() {
           asset_url: formData.videoUrl,
           source_system: 'heygen',
           instruction: 'Manually added HeyGen video',
-          description: formData.description || `Generated HeyGen video (ID: ${formData.videoId})`
+          description: formData.description || `Generated HeyGen video (ID: ${formData.videoId})`,
+          workspace_id: currentWorkspace?.id
         })
         .select()
         .single();
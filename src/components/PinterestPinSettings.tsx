@@ -0,0 +1,140 @@
+import { useEffect, useRef } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import {
+  fetchPinterestBoards,
+  PINTEREST_LIMITS,
+  resolveAssetProductLink,
+  type PinterestPinSettings as Settings,
+} from '@/utils/pinterestPublishing';
+
+interface PinterestPinSettingsProps {
+  workspaceId: string;
+  assetId: string;
+  mediaType: 'image' | 'video';
+  value: Settings;
+  onChange: (value: Settings) => void;
+}
+
+export function PinterestPinSettings({ workspaceId, assetId, mediaType, value, onChange }: PinterestPinSettingsProps) {
+  const linkPrefilled = useRef(false);
+
+  const { data: boards, isLoading, error } = useQuery({
+    queryKey: ['pinterest-boards', workspaceId],
+    queryFn: () => fetchPinterestBoards(workspaceId),
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const { data: product } = useQuery({
+    queryKey: ['asset-product-link', assetId],
+    queryFn: () => resolveAssetProductLink(assetId),
+  });
+
+  const update = (changes: Partial<Settings>) => onChange({ ...value, ...changes });
+
+  // Point the pin at the product page once, without overwriting a typed link
+  useEffect(() => {
+    if (linkPrefilled.current || !product?.link) return;
+    linkPrefilled.current = true;
+    if (!value.link) {
+      onChange({ ...value, link: product.link });
+    }
+  }, [product, value, onChange]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground py-2">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading Pinterest boards...
+      </div>
+    );
+  }
+
+  if (error || !boards) {
+    return (
+      <div className="text-xs text-red-600 bg-red-50 p-2 rounded">
+        {error instanceof Error ? error.message : 'Could not load Pinterest boards'}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 border rounded-lg p-3">
+      <span className="text-sm font-medium">Pinterest</span>
+
+      <div className="space-y-1">
+        <Label className="text-xs">Board</Label>
+        {boards.length === 0 ? (
+          <p className="text-xs text-orange-600">Create a board on Pinterest before pinning.</p>
+        ) : (
+          <Select value={value.boardId} onValueChange={(boardId) => update({ boardId })}>
+            <SelectTrigger>
+              <SelectValue placeholder="Choose a board" />
+            </SelectTrigger>
+            <SelectContent>
+              {boards.map(board => (
+                <SelectItem key={board.id} value={board.id}>
+                  {board.name}{board.privacy === 'SECRET' ? ' (secret)' : ''}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="pin-title" className="text-xs">Title</Label>
+        <Input
+          id="pin-title"
+          value={value.title}
+          maxLength={PINTEREST_LIMITS.title}
+          onChange={(e) => update({ title: e.target.value })}
+        />
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="pin-description" className="text-xs">Description</Label>
+        <Textarea
+          id="pin-description"
+          rows={3}
+          value={value.description}
+          maxLength={PINTEREST_LIMITS.description}
+          onChange={(e) => update({ description: e.target.value })}
+        />
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="pin-link" className="text-xs">Destination link</Label>
+        <Input
+          id="pin-link"
+          type="url"
+          placeholder="https://"
+          value={value.link}
+          onChange={(e) => update({ link: e.target.value })}
+        />
+        {product && (
+          <p className="text-xs text-muted-foreground">
+            {product.link ? `Product page for ${product.productName}` : `${product.productName} has no product link in its metadata`}
+          </p>
+        )}
+      </div>
+
+      {mediaType === 'image' && (
+        <div className="space-y-1">
+          <Label htmlFor="pin-alt-text" className="text-xs">Alt text</Label>
+          <Input
+            id="pin-alt-text"
+            value={value.altText}
+            maxLength={PINTEREST_LIMITS.altText}
+            placeholder="Describe the image for people using screen readers"
+            onChange={(e) => update({ altText: e.target.value })}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
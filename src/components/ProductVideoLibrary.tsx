@@ -1,10 +1,12 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Progress } from "@/components/ui/progress";
+import { GenerationProgress } from "@/components/GenerationProgress";
 import { supabase } from "@/integrations/supabase/client";
-import { Download, ExternalLink, Play, Clock, Sparkles } from "lucide-react";
+import { useWorkspace } from "@/hooks/useWorkspace";
+import { useGenerationJobs } from "@/hooks/useGenerationJobs";
+import { Download, ExternalLink, Play, Sparkles } from "lucide-react";
 
 interface GeneratedVideo {
   id: string;
@@ -14,6 +16,7 @@ interface GeneratedVideo {
   created_at: string;
   description?: string;
   source_system: string;
+  original_asset_id?: string | null;
 }
 
 interface ProductVideoLibraryProps {
@@ -22,134 +25,82 @@ interface ProductVideoLibraryProps {
 }
 
 export function ProductVideoLibrary({ productId, productName }: ProductVideoLibraryProps) {
+  const { currentWorkspace } = useWorkspace();
   const [videos, setVideos] = useState<GeneratedVideo[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [progressStates, setProgressStates] = useState<Record<string, number>>({});
 
-  useEffect(() => {
-    const fetchProductVideos = async () => {
-      setIsLoading(true);
-      try {
-        console.log('Fetching videos for product:', productId);
-        
-        // Get videos from asset library for this product
-        const { data: assetVideos, error: assetError } = await supabase
-          .from('asset_library')
-          .select('*')
-          .eq('asset_type', 'video')
-          .order('created_at', { ascending: false });
-
-        if (assetError) {
-          console.error('Error fetching asset library videos:', assetError);
-          return;
-        }
-
-        // Also get videos from generated_assets to cross-reference
-        const { data: generatedAssets, error: generatedError } = await supabase
-          .from('generated_assets')
-          .select('*')
-          .eq('inventory_id', productId)
-          .eq('asset_type', 'video')
-          .order('created_at', { ascending: false });
-
-        if (generatedError) {
-          console.error('Error fetching generated assets:', generatedError);
-        }
-
-        // Filter asset library videos that relate to this product
-        let productVideos: GeneratedVideo[] = [];
-        
-        if (assetVideos) {
-          // Match by original_asset_id or by description containing product info
-          productVideos = assetVideos.filter(video => {
-            // Check if this video is linked to any of our generated assets
-            const relatedAsset = generatedAssets?.find(asset => 
-              asset.id === video.original_asset_id
-            );
-            
-            // Also check if description mentions the product name
-            const mentionsProduct = video.description?.toLowerCase().includes(productName.toLowerCase());
-            
-            return relatedAsset || mentionsProduct;
-          }).map(video => ({
-            id: video.id,
-            title: video.title,
-            asset_url: video.asset_url,
-            gif_url: video.gif_url,
-            created_at: video.created_at,
-            description: video.description,
-            source_system: video.source_system
-          }));
-        }
-
-        console.log('Found product videos:', productVideos);
-        setVideos(productVideos);
-      } catch (error) {
-        console.error('Error fetching product videos:', error);
-      } finally {
-        setIsLoading(false);
+  const fetchProductVideos = useCallback(async (showLoading = true) => {
+    if (showLoading) setIsLoading(true);
+    try {
+      console.log('Fetching videos for product:', productId);
+      
+      // Get videos from asset library for this product
+      const { data: assetVideos, error: assetError } = await supabase
+        .from('asset_library')
+        .select('*')
+        .eq('workspace_id', currentWorkspace?.id)
+        .eq('asset_type', 'video')
+        .order('created_at', { ascending: false });
+
+      if (assetError) {
+        console.error('Error fetching asset library videos:', assetError);
+        return;
       }
-    };
-
-    fetchProductVideos();
-  }, [productId, productName]);
-
-  // Animate progress for processing videos
-  useEffect(() => {
-    const processingVideos = videos.filter(video => 
-      video.asset_url === 'processing' || !video.asset_url
-    );
 
-    if (processingVideos.length === 0) return;
+      // Also get videos from generated_assets to cross-reference
+      const { data: generatedAssets, error: generatedError } = await supabase
+        .from('generated_assets')
+        .select('*')
+        .eq('inventory_id', productId)
+        .eq('asset_type', 'video')
+        .order('created_at', { ascending: false });
 
-    // Initialize progress states for processing videos
-    const initialProgress: Record<string, number> = {};
-    processingVideos.forEach(video => {
-      if (!(video.id in progressStates)) {
-        // Start with random progress between 10-30% to simulate real progress
-        initialProgress[video.id] = Math.floor(Math.random() * 20) + 10;
+      if (generatedError) {
+        console.error('Error fetching generated assets:', generatedError);
       }
-    });
 
-    if (Object.keys(initialProgress).length > 0) {
-      setProgressStates(prev => ({ ...prev, ...initialProgress }));
-    }
-
-    // Animate progress
-    const interval = setInterval(() => {
-      setProgressStates(prev => {
-        const newStates = { ...prev };
-        let hasUpdates = false;
-
-        processingVideos.forEach(video => {
-          const currentProgress = newStates[video.id] || 0;
+      // Filter asset library videos that relate to this product
+      let productVideos: GeneratedVideo[] = [];
+      
+      if (assetVideos) {
+        // Match by original_asset_id or by description containing product info
+        productVideos = assetVideos.filter(video => {
+          // Check if this video is linked to any of our generated assets
+          const relatedAsset = generatedAssets?.find(asset => 
+            asset.id === video.original_asset_id
+          );
           
-          // Simulate realistic progress: faster at start, slower near end
-          let increment;
-          if (currentProgress < 30) {
-            increment = Math.random() * 8 + 2; // 2-10% increments early on
-          } else if (currentProgress < 70) {
-            increment = Math.random() * 4 + 1; // 1-5% increments in middle
-          } else if (currentProgress < 90) {
-            increment = Math.random() * 2 + 0.5; // 0.5-2.5% increments near end
-          } else {
-            increment = Math.random() * 0.5; // Very slow near completion
-          }
-
-          const newProgress = Math.min(95, currentProgress + increment); // Cap at 95% to avoid showing 100% without completion
+          // Also check if description mentions the product name
+          const mentionsProduct = video.description?.toLowerCase().includes(productName.toLowerCase());
           
-          if (newProgress !== currentProgress) {
-            newStates[video.id] = newProgress;
-            hasUpdates = true;
-          }
-        });
+          return relatedAsset || mentionsProduct;
+        }).map(video => ({
+          id: video.id,
+          title: video.title,
+          asset_url: video.asset_url,
+          gif_url: video.gif_url,
+          created_at: video.created_at,
+          description: video.description,
+          source_system: video.source_system,
+          original_asset_id: video.original_asset_id
+        }));
+      }
+
+      console.log('Found product videos:', productVideos);
+      setVideos(productVideos);
+    } catch (error) {
+      console.error('Error fetching product videos:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [productId, productName, currentWorkspace?.id]);
 
-        return hasUpdates ? newStates : prev;
-      });
-    }, 1500 + Math.random() * 1000); // Random interval between 1.5-2.5 seconds
+  useEffect(() => {
+    fetchProductVideos();
+  }, [fetchProductVideos]);
 
-    return () => clearInterval(interval);
-  }, [videos, progressStates]);
+  // Finished jobs have written the video URL (or failure) to the library entry
+  const { jobForAsset } = useGenerationJobs({ onJobSettled: () => fetchProductVideos(false) });
 
   const handleDownload = (url: string, title: string) => {
     const link = document.createElement('a');
@@ -204,7 +155,7 @@ export function ProductVideoLibrary({ productId, productName }: ProductVideoLibr
           <div className="space-y-4">
             {videos.map((video) => {
               const isProcessing = video.asset_url === 'processing' || !video.asset_url;
-              const currentProgress = progressStates[video.id] || 0;
+              const job = jobForAsset(video);
               
               return (
                 <div key={video.id} className={`flex items-center justify-between p-4 border rounded-lg transition-all duration-300 ${
@@ -235,23 +186,8 @@ export function ProductVideoLibrary({ productId, productName }: ProductVideoLibr
                       
                       {/* Progress bar for processing videos */}
                       {isProcessing && (
-                        <div className="mt-2 space-y-1">
-                          <div className="flex items-center justify-between">
-                            <span className="text-xs font-medium text-blue-600 flex items-center space-x-1">
-                              <Clock className="h-3 w-3" />
-                              <span>Generating video...</span>
-                            </span>
-                            <span className="text-xs font-bold text-purple-600">
-                              {Math.round(currentProgress)}%
-                            </span>
-                          </div>
-                          <Progress 
-                            value={currentProgress} 
-                            className="h-2 bg-blue-100"
-                          />
-                          <p className="text-xs text-gray-500">
-                            Estimated time remaining: {Math.max(1, Math.round((100 - currentProgress) / 20))} minutes
-                          </p>
+                        <div className="mt-2">
+                          <GenerationProgress job={job} />
                         </div>
                       )}
                       
@@ -295,12 +231,12 @@ export function ProductVideoLibrary({ productId, productName }: ProductVideoLibr
                           Processing
                         </Badge>
                         <span className="text-xs text-gray-500">
-                          HeyGen is creating your video
+                          {video.source_system === 'heygen' ? 'HeyGen' : 'The provider'} is creating your video
                         </span>
                       </div>
                     )}
                     {video.asset_url === 'failed' && (
-                      <Badge variant="destructive" className="text-xs">
+                      <Badge variant="destructive" className="text-xs" title={job?.error ?? undefined}>
                         Failed
                       </Badge>
                     )}
@@ -0,0 +1,187 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { BarChart3, ExternalLink, Loader2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  engagement,
+  publicationMetrics,
+  sumMetrics,
+  PUBLICATION_METRIC_LABELS,
+  PUBLISH_PLATFORM_NAMES,
+  type PublicationMetrics,
+} from '@/utils/publishing';
+
+// Shown as summary tiles; the rest only appear per post when reported
+const SUMMARY_METRICS: (keyof PublicationMetrics)[] = ['views', 'likes', 'comments', 'shares'];
+
+interface PublicationPerformanceProps {
+  title: string;
+  // Pass an asset for one creative, or a product to compare all of its creatives
+  assetId?: string;
+  inventoryId?: string;
+  children: React.ReactNode;
+}
+
+const formatCount = (value: number | undefined) =>
+  value === undefined ? '—' : value.toLocaleString();
+
+export function PublicationPerformance({ title, assetId, inventoryId, children }: PublicationPerformanceProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const { data: publications, isLoading, error } = useQuery({
+    queryKey: ['publication-performance', assetId ?? inventoryId],
+    queryFn: async () => {
+      let query = supabase
+        .from('publications')
+        .select('*, asset_library(title)')
+        .eq('status', 'published')
+        .order('published_at', { ascending: false });
+
+      query = assetId ? query.eq('asset_id', assetId) : query.eq('inventory_id', inventoryId ?? '');
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data;
+    },
+    enabled: isOpen && !!(assetId || inventoryId),
+  });
+
+  const totals = sumMetrics(publications ?? []);
+  const lastSynced = publications
+    ?.map(publication => publication.metrics_synced_at)
+    .filter((syncedAt): syncedAt is string => !!syncedAt)
+    .sort()
+    .pop();
+
+  // For a product, rank its creatives by how much engagement their posts drew
+  const creatives = inventoryId && publications
+    ? Object.values(publications.reduce<Record<string, { title: string; posts: typeof publications }>>(
+        (groups, publication) => {
+          const key = publication.asset_id ?? 'unknown';
+          groups[key] ??= { title: publication.asset_library?.title ?? 'Deleted asset', posts: [] };
+          groups[key].posts.push(publication);
+          return groups;
+        },
+        {}
+      ))
+        .map(creative => {
+          const metrics = sumMetrics(creative.posts);
+          return { title: creative.title, posts: creative.posts.length, views: metrics.views, engagement: engagement(metrics) };
+        })
+        .sort((a, b) => b.engagement - a.engagement || (b.views ?? 0) - (a.views ?? 0))
+    : [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[640px] max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BarChart3 className="h-5 w-5" />
+            Performance
+          </DialogTitle>
+          <DialogDescription>
+            How "{title}" has done since it was published.
+            {lastSynced && ` Metrics last updated ${new Date(lastSynced).toLocaleString()}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground py-6 justify-center">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading performance...
+          </div>
+        ) : error ? (
+          <div className="text-xs text-red-600 bg-red-50 p-2 rounded">
+            {error instanceof Error ? error.message : 'Could not load performance'}
+          </div>
+        ) : !publications || publications.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">
+            Nothing has been published yet. Metrics appear a few hours after a post goes live.
+          </p>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-5 gap-2">
+              <div className="border rounded-lg p-3 text-center">
+                <div className="text-lg font-semibold">{publications.length}</div>
+                <div className="text-xs text-muted-foreground">Posts</div>
+              </div>
+              {SUMMARY_METRICS.map(key => (
+                <div key={key} className="border rounded-lg p-3 text-center">
+                  <div className="text-lg font-semibold">{formatCount(totals[key])}</div>
+                  <div className="text-xs text-muted-foreground">{PUBLICATION_METRIC_LABELS[key]}</div>
+                </div>
+              ))}
+            </div>
+
+            {creatives.length > 1 && (
+              <div className="space-y-2">
+                <h4 className="font-medium text-sm">By creative</h4>
+                {creatives.map((creative, index) => (
+                  <div key={index} className="flex items-center justify-between gap-2 p-2 border rounded text-sm">
+                    <span className="line-clamp-1">{creative.title}</span>
+                    <span className="text-xs text-muted-foreground whitespace-nowrap">
+                      {creative.posts} post{creative.posts === 1 ? '' : 's'} · {formatCount(creative.views)} views · {creative.engagement.toLocaleString()} engagements
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <h4 className="font-medium text-sm">Posts</h4>
+              {publications.map(publication => {
+                const platformName = PUBLISH_PLATFORM_NAMES[publication.platform] || publication.platform;
+                const metrics = publicationMetrics(publication);
+                const reported = (Object.keys(PUBLICATION_METRIC_LABELS) as (keyof PublicationMetrics)[])
+                  .filter(key => metrics[key] !== undefined);
+
+                return (
+                  <div key={publication.id} className="p-2 border rounded text-sm space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium">
+                        {platformName}
+                        {inventoryId && publication.asset_library?.title && (
+                          <span className="font-normal text-muted-foreground"> · {publication.asset_library.title}</span>
+                        )}
+                      </span>
+                      <span className="text-xs text-muted-foreground">
+                        {new Date(publication.published_at ?? publication.created_at).toLocaleDateString()}
+                      </span>
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {reported.length > 0
+                        ? reported.map(key => `${formatCount(metrics[key])} ${PUBLICATION_METRIC_LABELS[key].toLowerCase()}`).join(' · ')
+                        : 'No metrics yet'}
+                    </div>
+                    {publication.url && (
+                      <a
+                        href={publication.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-blue-600 hover:text-blue-800 text-xs flex items-center gap-1"
+                      >
+                        View on {platformName}
+                        <ExternalLink className="h-3 w-3" />
+                      </a>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
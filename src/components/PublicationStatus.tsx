@@ -0,0 +1,92 @@
+import { useQuery } from '@tanstack/react-query';
+import { Badge } from '@/components/ui/badge';
+import { ExternalLink, Loader2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  refreshPublication,
+  PUBLICATION_STATUS_LABELS,
+  PUBLICATION_STATUS_STYLES,
+  PUBLISH_PLATFORM_NAMES,
+} from '@/utils/publishing';
+
+const PUBLICATION_LIMIT = 5;
+
+interface PublicationStatusProps {
+  workspaceId: string;
+  assetId: string;
+}
+
+export function PublicationStatus({ workspaceId, assetId }: PublicationStatusProps) {
+  const { data: publications, isLoading } = useQuery({
+    queryKey: ['publications', assetId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('publications')
+        .select('*')
+        .eq('asset_id', assetId)
+        .order('created_at', { ascending: false })
+        .limit(PUBLICATION_LIMIT);
+
+      if (error) throw error;
+
+      // Ask the network about anything still processing rather than waiting for cron
+      return Promise.all(data.map(publication =>
+        publication.status === 'processing'
+          ? refreshPublication(workspaceId, publication.id).catch(() => publication)
+          : publication
+      ));
+    },
+    // Keep polling until every network finishes processing
+    refetchInterval: (query) => query.state.data?.some(publication => publication.status === 'processing') ? 5000 : false,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Checking publishing status...
+      </div>
+    );
+  }
+
+  if (!publications || publications.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <h4 className="font-medium text-sm">Publishing status</h4>
+      {publications.map(publication => {
+        const platformName = PUBLISH_PLATFORM_NAMES[publication.platform] || publication.platform;
+
+        return (
+          <div key={publication.id} className="flex items-start justify-between gap-2 p-2 border rounded text-sm">
+            <div className="space-y-1">
+              <div className="text-xs text-muted-foreground">
+                {platformName} · {new Date(publication.created_at).toLocaleString()}
+              </div>
+              {publication.error && (
+                <div className="text-xs text-red-700">{publication.error}</div>
+              )}
+              {publication.url && (
+                <a
+                  href={publication.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-600 hover:text-blue-800 text-xs flex items-center gap-1"
+                >
+                  View on {platformName}
+                  <ExternalLink className="h-3 w-3" />
+                </a>
+              )}
+            </div>
+            <Badge variant="secondary" className={PUBLICATION_STATUS_STYLES[publication.status] || ''}>
+              {publication.status === 'processing' && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+              {PUBLICATION_STATUS_LABELS[publication.status] || publication.status}
+            </Badge>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/useWorkspace";
 import { supabase } from "@/integrations/supabase/client";
 import { Loader2 } from "lucide-react";
 
@@ -30,6 +31,7 @@ export function SimpleTestButtons({ onAssetGenerated, onGeneratingChange }: Simp
   const [isGenerating, setIsGenerating] = useState(false);
   const [generationType, setGenerationType] = useState<string>("");
   const { toast } = useToast();
+  const { currentWorkspace } = useWorkspace();
 
   const testGeneration = async (type: 'image' | 'video') => {
     setIsGenerating(true);
@@ -51,7 +53,8 @@ export function SimpleTestButtons({ onAssetGenerated, onGeneratingChange }: Simp
           productInfo: {
             name: "Premium Wireless Headphones",
             description: "High-quality audio experience with noise cancellation"
-          }
+          },
+          workspaceId: currentWorkspace?.id
         }
       });
 
@@ -1,10 +1,16 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { useWorkspace } from "@/hooks/useWorkspace";
+import { isSchedulable, schedulePost, toDateTimeLocal } from "@/utils/scheduledPosts";
+import { splitThread } from "@/utils/twitterPublishing";
+import { publish } from "@/utils/publishing";
+import { canPublishAsset } from "@/utils/assetReview";
 import { 
   Instagram, 
   Facebook, 
@@ -25,6 +31,8 @@ interface PlatformContent {
 
 interface SocialMediaAutoPostProps {
   imageUrl: string;
+  // The generated_assets row behind imageUrl; placeholders have none
+  generatedAssetId?: string;
   instruction: string;
   isVisible: boolean;
   selectedChannels?: string[];
@@ -32,85 +40,107 @@ interface SocialMediaAutoPostProps {
 }
 
 interface PostingStatus {
-  status: 'idle' | 'posting' | 'success' | 'error';
+  status: 'idle' | 'posting' | 'success' | 'scheduled' | 'error';
   message?: string;
 }
 
-export function SocialMediaAutoPost({ imageUrl, instruction, isVisible, selectedChannels = [], formatSpecs }: SocialMediaAutoPostProps) {
+const PLATFORMS = {
+  instagram: { name: "Instagram", icon: Instagram, color: "bg-pink-600" },
+  facebook: { name: "Facebook", icon: Facebook, color: "bg-blue-600" },
+  twitter: { name: "Twitter/X", icon: Twitter, color: "bg-black" },
+  linkedin: { name: "LinkedIn", icon: Linkedin, color: "bg-blue-700" },
+  youtube: { name: "YouTube", icon: Youtube, color: "bg-red-600" },
+  pinterest: { name: "Pinterest", icon: () => (
+    <div className="h-5 w-5 bg-red-600 rounded-full flex items-center justify-center">
+      <span className="text-xs font-bold text-white">P</span>
+    </div>
+  ), color: "bg-red-600" },
+  tiktok: { name: "TikTok", icon: () => (
+    <div className="h-5 w-5 bg-black rounded-sm flex items-center justify-center">
+      <span className="text-xs font-bold text-white">T</span>
+    </div>
+  ), color: "bg-black" }
+};
+
+export function SocialMediaAutoPost({ imageUrl, generatedAssetId, instruction, isVisible, selectedChannels = [], formatSpecs }: SocialMediaAutoPostProps) {
   const { toast } = useToast();
+  const { currentWorkspace } = useWorkspace();
   const [platformContent, setPlatformContent] = useState<Record<string, PlatformContent>>({});
-  const [connectedPlatforms, setConnectedPlatforms] = useState<string[]>(['facebook']); // Mock data for non-Instagram platforms
+  const [connectedPlatforms, setConnectedPlatforms] = useState<string[]>([]);
   const [postingStatus, setPostingStatus] = useState<Record<string, PostingStatus>>({});
   const [isGeneratingContent, setIsGeneratingContent] = useState(false);
   const [isCheckingConnections, setIsCheckingConnections] = useState(false);
+  const [scheduleAt, setScheduleAt] = useState('');
+  const [awaitingApproval, setAwaitingApproval] = useState(false);
+  const workspaceId = currentWorkspace?.id;
+  // Callers pass a new array every render, so regenerate only when the channels change
+  const channelsKey = selectedChannels.join(',');
 
-  const platforms = {
-    instagram: { name: "Instagram", icon: Instagram, color: "bg-pink-600" },
-    facebook: { name: "Facebook", icon: Facebook, color: "bg-blue-600" },
-    twitter: { name: "Twitter/X", icon: Twitter, color: "bg-black" },
-    linkedin: { name: "LinkedIn", icon: Linkedin, color: "bg-blue-700" },
-    youtube: { name: "YouTube", icon: Youtube, color: "bg-red-600" },
-    pinterest: { name: "Pinterest", icon: () => (
-      <div className="h-5 w-5 bg-red-600 rounded-full flex items-center justify-center">
-        <span className="text-xs font-bold text-white">P</span>
-      </div>
-    ), color: "bg-red-600" },
-    tiktok: { name: "TikTok", icon: () => (
-      <div className="h-5 w-5 bg-black rounded-sm flex items-center justify-center">
-        <span className="text-xs font-bold text-white">T</span>
-      </div>
-    ), color: "bg-black" }
-  };
-
+  // Workspaces that require approval only publish assets that passed review
   useEffect(() => {
-    if (isVisible && imageUrl && instruction) {
-      generatePlatformContent();
+    if (!isVisible || !currentWorkspace?.requireApproval) {
+      setAwaitingApproval(false);
+      return;
     }
-  }, [isVisible, imageUrl, instruction]);
-
-  useEffect(() => {
-    if (isVisible) {
-      checkConnectedPlatforms();
+    if (!generatedAssetId) {
+      setAwaitingApproval(true);
+      return;
     }
-  }, [isVisible]);
 
-  const checkConnectedPlatforms = async () => {
-    setIsCheckingConnections(true);
-    try {
-      // Check Instagram connection
-      const { data, error } = await supabase.functions.invoke('instagram-oauth', {
-        body: {
-          action: 'check_connection',
-          state: 'default_user' // You might want to use actual user ID
-        }
+    canPublishAsset(currentWorkspace.id, { generatedAssetId })
+      .then(cleared => setAwaitingApproval(!cleared))
+      .catch(error => {
+        console.error('Error checking asset approval:', error);
+        setAwaitingApproval(true);
       });
+  }, [isVisible, currentWorkspace?.id, currentWorkspace?.requireApproval, generatedAssetId]);
 
-      if (!error && data.success && data.connected) {
-        setConnectedPlatforms(prev => {
-          if (!prev.includes('instagram')) {
-            return [...prev, 'instagram'];
+  const checkConnectedPlatforms = useCallback(async () => {
+    setIsCheckingConnections(true);
+    try {
+      // Each connector reports its own connection state for the workspace
+      const connectors = [
+        { platform: 'instagram', functionName: 'instagram-oauth' },
+        { platform: 'facebook', functionName: 'facebook-oauth' },
+        { platform: 'twitter', functionName: 'twitter-oauth' },
+        { platform: 'linkedin', functionName: 'linkedin-oauth' }
+      ];
+
+      const results = await Promise.all(connectors.map(async ({ platform, functionName }) => {
+        const { data, error } = await supabase.functions.invoke(functionName, {
+          body: {
+            action: 'check_connection',
+            workspaceId
           }
-          return prev;
         });
-      } else {
-        setConnectedPlatforms(prev => prev.filter(p => p !== 'instagram'));
-      }
+
+        return !error && data.success && data.connected ? platform : null;
+      }));
+
+      setConnectedPlatforms(results.filter((platform): platform is string => !!platform));
     } catch (error) {
       console.error('Error checking connected platforms:', error);
-      setConnectedPlatforms(prev => prev.filter(p => p !== 'instagram'));
+      setConnectedPlatforms([]);
     } finally {
       setIsCheckingConnections(false);
     }
-  };
+  }, [workspaceId]);
+
+  useEffect(() => {
+    if (isVisible) {
+      checkConnectedPlatforms();
+    }
+  }, [isVisible, checkConnectedPlatforms]);
 
-  const generatePlatformContent = async () => {
+  const generatePlatformContent = useCallback(async () => {
     setIsGeneratingContent(true);
     
     try {
       // Determine which platforms to generate content for
-      const platformsToGenerate = selectedChannels.length > 0 
-        ? selectedChannels.filter(channel => platforms[channel]) 
-        : Object.keys(platforms);
+      const channels = channelsKey ? channelsKey.split(',') : [];
+      const platformsToGenerate = channels.length > 0 
+        ? channels.filter(channel => PLATFORMS[channel]) 
+        : Object.keys(PLATFORMS);
 
       const { data, error } = await supabase.functions.invoke('openai-generate', {
         body: {
@@ -122,7 +152,8 @@ export function SocialMediaAutoPost({ imageUrl, instruction, isVisible, selected
           productInfo: {
             name: "Product", // This could be passed as prop if needed
             description: instruction
-          }
+          },
+          workspaceId
         }
       });
 
@@ -136,7 +167,7 @@ export function SocialMediaAutoPost({ imageUrl, instruction, isVisible, selected
           // Try to parse as JSON first (new format)
           const parsedContent = JSON.parse(data.result);
           Object.keys(parsedContent).forEach(platform => {
-            if (platforms[platform] && parsedContent[platform]) {
+            if (PLATFORMS[platform] && parsedContent[platform]) {
               // Clean up the content by removing technical specifications
               const cleanCaption = parsedContent[platform].caption 
                 ? parsedContent[platform].caption.replace(/#\w+:\s*[^\n#]*/g, '').trim()
@@ -188,7 +219,7 @@ export function SocialMediaAutoPost({ imageUrl, instruction, isVisible, selected
       });
 
       // Fallback content
-      const fallbackContent = Object.keys(platforms).reduce((acc, platform) => {
+      const fallbackContent = Object.keys(PLATFORMS).reduce((acc, platform) => {
         acc[platform] = {
           caption: `${instruction}`,
           hashtags: "#AI #Design #Creative",
@@ -201,7 +232,13 @@ export function SocialMediaAutoPost({ imageUrl, instruction, isVisible, selected
     } finally {
       setIsGeneratingContent(false);
     }
-  };
+  }, [instruction, imageUrl, channelsKey, formatSpecs, workspaceId, toast]);
+
+  useEffect(() => {
+    if (isVisible && imageUrl && instruction) {
+      generatePlatformContent();
+    }
+  }, [isVisible, imageUrl, instruction, generatePlatformContent]);
 
   const updatePlatformContent = (platform: string, field: keyof PlatformContent, value: string) => {
     setPlatformContent(prev => ({
@@ -213,47 +250,114 @@ export function SocialMediaAutoPost({ imageUrl, instruction, isVisible, selected
     }));
   };
 
+  const buildFullCaption = (content: PlatformContent) => [
+    content.caption,
+    content.hashtags,
+    content.mentions
+  ].filter(Boolean).join('\n\n');
+
+  // Hand the post to the social-scheduler instead of publishing right away
+  const schedulePlatformPost = async (platform: string) => {
+    const publishAt = new Date(scheduleAt);
+    const content = platformContent[platform];
+
+    if (!isSchedulable(platform, 'image')) {
+      toast({
+        title: "Scheduling Not Supported",
+        description: `Scheduled posting is not available for ${PLATFORMS[platform]?.name} yet.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!currentWorkspace || !content || publishAt <= new Date()) {
+      toast({
+        title: "Cannot Schedule",
+        description: "Pick a future time and make sure content has been generated.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setPostingStatus(prev => ({ ...prev, [platform]: { status: 'posting' } }));
+    try {
+      await schedulePost({
+        workspaceId: currentWorkspace.id,
+        generatedAssetId,
+        assetUrl: imageUrl,
+        assetType: 'image',
+        platform,
+        caption: buildFullCaption(content),
+        publishAt,
+      });
+
+      setPostingStatus(prev => ({
+        ...prev,
+        [platform]: { status: 'scheduled', message: `Scheduled for ${publishAt.toLocaleString()}` }
+      }));
+      toast({
+        title: "Post Scheduled",
+        description: `Your ${PLATFORMS[platform]?.name} post will go out ${publishAt.toLocaleString()}.`,
+      });
+    } catch (error) {
+      setPostingStatus(prev => ({ ...prev, [platform]: { status: 'error', message: 'Failed to schedule' } }));
+      toast({
+        title: "Scheduling Failed",
+        description: error.message || "Failed to schedule post",
+        variant: "destructive",
+      });
+    }
+  };
+
   const postToPlatform = async (platform: string) => {
+    if (awaitingApproval) {
+      toast({
+        title: "Approval Required",
+        description: "This workspace only publishes approved assets. Submit the image from the Review Queue in the Asset Library.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (scheduleAt) {
+      await schedulePlatformPost(platform);
+      return;
+    }
+
     setPostingStatus(prev => ({
       ...prev,
       [platform]: { status: 'posting' }
     }));
 
     try {
-      if (platform === 'instagram') {
-        // Real Instagram posting
+      if (platform === 'instagram' || platform === 'facebook' || platform === 'twitter' || platform === 'linkedin') {
         const content = platformContent[platform];
         if (!content) {
-          throw new Error('No content available for Instagram');
+          throw new Error(`No content available for ${PLATFORMS[platform].name}`);
+        }
+        if (!currentWorkspace) {
+          throw new Error('Select a workspace before posting');
         }
 
-        // Combine caption, hashtags, and mentions
-        const fullCaption = [
-          content.caption,
-          content.hashtags,
-          content.mentions
-        ].filter(Boolean).join('\n\n');
-
-        const { data, error } = await supabase.functions.invoke('instagram-post', {
-          body: {
-            userId: 'default_user', // You might want to use actual user ID
-            imageUrl: imageUrl,
-            caption: fullCaption
-          }
+        const text = buildFullCaption(content);
+        await publish({
+          workspaceId: currentWorkspace.id,
+          platform,
+          generatedAssetId,
+          media: [{ url: imageUrl, type: 'image' }],
+          text,
+          // Long copy is posted to X as a thread with the image on the first post
+          options: platform === 'twitter' ? { thread: splitThread(text) } : {}
         });
 
-        if (error || !data.success) {
-          throw new Error(data?.error || 'Failed to post to Instagram');
-        }
-
         setPostingStatus(prev => ({
           ...prev,
           [platform]: { status: 'success', message: 'Posted successfully!' }
         }));
-        
+
         toast({
           title: "Posted Successfully",
-          description: `Your content has been posted to Instagram!`,
+          description: `Your content has been posted to ${PLATFORMS[platform].name}!`,
         });
 
       } else {
@@ -270,7 +374,7 @@ export function SocialMediaAutoPost({ imageUrl, instruction, isVisible, selected
         
         toast({
           title: "Posted Successfully",
-          description: `Your content has been posted to ${platforms[platform]?.name}!`,
+          description: `Your content has been posted to ${PLATFORMS[platform]?.name}!`,
         });
       } else {
         throw new Error("Failed to post");
@@ -284,7 +388,7 @@ export function SocialMediaAutoPost({ imageUrl, instruction, isVisible, selected
       
       toast({
         title: "Posting Failed",
-        description: `Failed to post to ${platforms[platform]?.name}. ${error.message || 'Please try again.'}`,
+        description: `Failed to post to ${PLATFORMS[platform]?.name}. ${error.message || 'Please try again.'}`,
         variant: "destructive",
       });
     }
@@ -295,6 +399,7 @@ export function SocialMediaAutoPost({ imageUrl, instruction, isVisible, selected
       case 'posting':
         return <Loader2 className="h-4 w-4 animate-spin text-blue-500" />;
       case 'success':
+      case 'scheduled':
         return <CheckCircle className="h-4 w-4 text-green-500" />;
       case 'error':
         return <AlertCircle className="h-4 w-4 text-red-500" />;
@@ -317,9 +422,20 @@ export function SocialMediaAutoPost({ imageUrl, instruction, isVisible, selected
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
+        {awaitingApproval && (
+          <div className="flex items-start gap-2 p-3 rounded border border-orange-200 bg-orange-50 text-sm text-orange-800">
+            <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <span>
+              {generatedAssetId
+                ? 'This workspace only publishes approved assets. Submit the image from the Review Queue in the Asset Library; it can be posted once a workspace owner approves it.'
+                : 'Placeholder images cannot be published in a workspace that requires approval.'}
+            </span>
+          </div>
+        )}
+
         {/* Platform Content Editors - Only show selected platforms that have content */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-          {Object.entries(platforms).map(([key, platform]) => {
+          {Object.entries(PLATFORMS).map(([key, platform]) => {
             const IconComponent = platform.icon;
             const content = platformContent[key];
             
@@ -382,7 +498,22 @@ export function SocialMediaAutoPost({ imageUrl, instruction, isVisible, selected
 
         {/* Connected Platforms Posting Section */}
         <div className="border-t pt-6">
-          <h3 className="text-lg font-medium mb-4">Connected Platforms</h3>
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-medium">Connected Platforms</h3>
+            <div className="flex items-center space-x-2">
+              <label htmlFor="auto-post-schedule" className="text-sm text-muted-foreground whitespace-nowrap">
+                Schedule for
+              </label>
+              <Input
+                id="auto-post-schedule"
+                type="datetime-local"
+                value={scheduleAt}
+                min={toDateTimeLocal(new Date())}
+                onChange={(e) => setScheduleAt(e.target.value)}
+                className="w-56"
+              />
+            </div>
+          </div>
           
           {connectedPlatforms.length === 0 ? (
             <div className="text-center py-8 text-muted-foreground">
@@ -391,7 +522,7 @@ export function SocialMediaAutoPost({ imageUrl, instruction, isVisible, selected
           ) : (
             <div className="flex flex-wrap gap-4">
               {connectedPlatforms.map((platformKey) => {
-                const platform = platforms[platformKey];
+                const platform = PLATFORMS[platformKey];
                 const IconComponent = platform?.icon;
                 const status = postingStatus[platformKey]?.status || 'idle';
                 
@@ -401,7 +532,7 @@ export function SocialMediaAutoPost({ imageUrl, instruction, isVisible, selected
                   <div key={platformKey} className="flex flex-col items-center space-y-2">
                     <Button
                       onClick={() => postToPlatform(platformKey)}
-                      disabled={status === 'posting'}
+                      disabled={status === 'posting' || awaitingApproval}
                       variant="outline"
                       size="lg"
                       className="relative w-20 h-20 rounded-full flex flex-col items-center justify-center"
@@ -417,11 +548,12 @@ export function SocialMediaAutoPost({ imageUrl, instruction, isVisible, selected
                     
                     {status !== 'idle' && (
                       <Badge 
-                        variant={status === 'success' ? 'default' : status === 'error' ? 'destructive' : 'secondary'}
+                        variant={status === 'success' || status === 'scheduled' ? 'default' : status === 'error' ? 'destructive' : 'secondary'}
                         className="text-xs"
                       >
                         {status === 'posting' && 'Posting...'}
                         {status === 'success' && 'Posted'}
+                        {status === 'scheduled' && 'Scheduled'}
                         {status === 'error' && 'Failed'}
                       </Badge>
                     )}
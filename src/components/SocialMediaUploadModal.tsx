@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import {
   Dialog,
   DialogContent,
@@ -11,8 +11,23 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
 import { useSocialMediaUpload } from '@/hooks/useSocialMediaUpload';
+import { useWorkspace } from '@/hooks/useWorkspace';
+import { isSchedulable, schedulePost, toDateTimeLocal, type SchedulablePlatform } from '@/utils/scheduledPosts';
+import type { PublishFields } from '@/utils/publishing';
+import { canPublishAsset } from '@/utils/assetReview';
+import { DEFAULT_TIKTOK_POST_SETTINGS, tiktokPostFields, type TikTokPostSettings as TikTokSettings } from '@/utils/tiktokPublishing';
+import { TikTokPostSettings } from '@/components/TikTokPostSettings';
+import { PublicationStatus } from '@/components/PublicationStatus';
+import { DEFAULT_PINTEREST_PIN_SETTINGS, PINTEREST_LIMITS, pinFields, type PinterestPinSettings as PinSettings } from '@/utils/pinterestPublishing';
+import { PinterestPinSettings } from '@/components/PinterestPinSettings';
+import { DEFAULT_TWITTER_POST_SETTINGS, postLength, splitThread, threadFields, TWITTER_MAX_POST_LENGTH, type TwitterPostSettings as XSettings } from '@/utils/twitterPublishing';
+import { TwitterPostSettings } from '@/components/TwitterPostSettings';
+import { DEFAULT_LINKEDIN_POST_SETTINGS, LINKEDIN_MAX_POST_LENGTH, type LinkedInPostSettings as LinkedInSettings } from '@/utils/linkedinPublishing';
+import { LinkedInPostSettings } from '@/components/LinkedInPostSettings';
 import { 
   Upload, 
   Youtube, 
@@ -25,7 +40,10 @@ import {
   ExternalLink,
   Linkedin,
   Twitter,
-  RefreshCw
+  RefreshCw,
+  CalendarClock,
+  Music2,
+  Pin
 } from 'lucide-react';
 
 interface SocialConnection {
@@ -33,8 +51,8 @@ interface SocialConnection {
   platform: string;
   platform_display_name: string | null;
   platform_username: string | null;
-  access_token: string;
-  refresh_token: string | null;
+  access_token?: string;
+  refresh_token?: string | null;
   token_expires_at: string | null;
   metadata: any;
   is_active: boolean;
@@ -45,6 +63,7 @@ interface AssetToUpload {
   title: string;
   asset_type: 'image' | 'video' | 'content';
   asset_url: string;
+  content?: string | null;
   description?: string;
   tags?: string[];
 }
@@ -60,6 +79,8 @@ const platformIcons = {
   facebook: Facebook,
   linkedin: Linkedin,
   twitter: Twitter,
+  tiktok: Music2,
+  pinterest: Pin,
 };
 
 const platformColors = {
@@ -68,6 +89,8 @@ const platformColors = {
   facebook: 'bg-blue-600',
   linkedin: 'bg-blue-700',
   twitter: 'bg-sky-500',
+  tiktok: 'bg-black',
+  pinterest: 'bg-red-600',
 };
 
 export function SocialMediaUploadModal({ asset, children }: SocialMediaUploadModalProps) {
@@ -78,20 +101,56 @@ export function SocialMediaUploadModal({ asset, children }: SocialMediaUploadMod
   const [uploadResults, setUploadResults] = useState<any[]>([]);
   const [showResults, setShowResults] = useState(false);
   const [debugInfo, setDebugInfo] = useState<any>({});
+  const [scheduleAt, setScheduleAt] = useState('');
+  const [isScheduling, setIsScheduling] = useState(false);
+  const [tiktokSettings, setTikTokSettings] = useState<TikTokSettings>(DEFAULT_TIKTOK_POST_SETTINGS);
+  const [pinSettings, setPinSettings] = useState<PinSettings>(DEFAULT_PINTEREST_PIN_SETTINGS);
+  const [twitterSettings, setTwitterSettings] = useState<XSettings>(DEFAULT_TWITTER_POST_SETTINGS);
+  const [linkedInSettings, setLinkedInSettings] = useState<LinkedInSettings>(DEFAULT_LINKEDIN_POST_SETTINGS);
+  const [awaitingApproval, setAwaitingApproval] = useState(false);
   
   const { uploadToSocialMedia, getConnectedPlatforms, isUploading, uploadingPlatforms } = useSocialMediaUpload();
   const { toast } = useToast();
+  const { currentWorkspace } = useWorkspace();
 
-  // Debug: Log when modal opens
-  useEffect(() => {
-    console.log('🚀 SocialMediaUploadModal - Modal open state changed:', isOpen);
-    if (isOpen) {
-      console.log('🎯 Modal opened for asset:', asset);
-      loadConnectedPlatforms();
+  // Prefill every network's settings from the asset each time the modal opens
+  const resetPostSettings = () => {
+    const caption = [asset.description || asset.title, asset.tags?.map(tag => `#${tag.replace(/\s+/g, '')}`).join(' ')]
+      .filter(Boolean)
+      .join('\n\n');
+    // Generated copy is the post itself; media posts fall back to the caption
+    const text = asset.asset_type === 'content' ? asset.content || '' : caption;
+    setTikTokSettings({
+      ...DEFAULT_TIKTOK_POST_SETTINGS,
+      caption
+    });
+    const posts = splitThread(text);
+    setTwitterSettings({ posts: posts.length > 0 ? posts : [''] });
+    setLinkedInSettings({ text: text.slice(0, LINKEDIN_MAX_POST_LENGTH) });
+    setPinSettings({
+      ...DEFAULT_PINTEREST_PIN_SETTINGS,
+      title: asset.title.slice(0, PINTEREST_LIMITS.title),
+      description: (asset.description || '').slice(0, PINTEREST_LIMITS.description),
+      altText: asset.title.slice(0, PINTEREST_LIMITS.altText)
+    });
+  };
+
+  // Workspaces that require approval only publish assets that passed review
+  const checkApproval = useCallback(async () => {
+    if (!currentWorkspace?.requireApproval) {
+      setAwaitingApproval(false);
+      return;
+    }
+
+    try {
+      setAwaitingApproval(!(await canPublishAsset(currentWorkspace.id, { libraryAssetId: asset.id })));
+    } catch (error) {
+      console.error('Error checking asset approval:', error);
+      setAwaitingApproval(true);
     }
-  }, [isOpen]);
+  }, [asset.id, currentWorkspace]);
 
-  const loadConnectedPlatforms = async () => {
+  const loadConnectedPlatforms = useCallback(async () => {
     console.log('🔍 Loading connected platforms...');
     setLoadingPlatforms(true);
     
@@ -124,7 +183,7 @@ export function SocialMediaUploadModal({ asset, children }: SocialMediaUploadMod
       // Auto-select compatible platforms
       const compatiblePlatforms = platforms.filter(p => {
         if (asset.asset_type === 'video') {
-          return p.platform === 'youtube' || p.platform === 'facebook';
+          return p.platform === 'youtube' || p.platform === 'facebook' || p.platform === 'tiktok';
         } else if (asset.asset_type === 'image') {
           return p.platform === 'instagram' || p.platform === 'facebook';
         }
@@ -144,7 +203,17 @@ export function SocialMediaUploadModal({ asset, children }: SocialMediaUploadMod
     } finally {
       setLoadingPlatforms(false);
     }
-  };
+  }, [asset.asset_type, asset.asset_url, getConnectedPlatforms, isOpen, toast]);
+
+  // Debug: Log when modal opens
+  useEffect(() => {
+    console.log('🚀 SocialMediaUploadModal - Modal open state changed:', isOpen);
+    if (isOpen) {
+      console.log('🎯 Modal opened for asset:', asset.id);
+      loadConnectedPlatforms();
+      checkApproval();
+    }
+  }, [asset.id, checkApproval, isOpen, loadConnectedPlatforms]);
 
   const handlePlatformToggle = (platform: string) => {
     setSelectedPlatforms(prev => 
@@ -164,13 +233,75 @@ export function SocialMediaUploadModal({ asset, children }: SocialMediaUploadMod
       return;
     }
 
+    if (awaitingApproval) {
+      toast({
+        title: "Approval Required",
+        description: "This workspace only publishes approved assets. Submit it from the Review Queue in the Asset Library.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (selectedPlatforms.includes('tiktok') && tiktokSettings.mode === 'direct' && !tiktokSettings.privacyLevel) {
+      toast({
+        title: "Choose TikTok Visibility",
+        description: "Select who can view the video before posting to TikTok.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (selectedPlatforms.includes('pinterest') && !pinSettings.boardId) {
+      toast({
+        title: "Choose a Pinterest Board",
+        description: "Select the board to pin to before uploading.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (selectedPlatforms.includes('twitter')) {
+      const tooLong = twitterSettings.posts.findIndex(post => postLength(post) > TWITTER_MAX_POST_LENGTH);
+      const hasText = twitterSettings.posts.some(post => post.trim());
+      if (tooLong !== -1 || (!hasText && asset.asset_type === 'content')) {
+        toast({
+          title: "Check Your X Post",
+          description: tooLong !== -1
+            ? `Post ${tooLong + 1} is over ${TWITTER_MAX_POST_LENGTH} characters.`
+            : "Write the text to post to X.",
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
+    if (selectedPlatforms.includes('linkedin') && asset.asset_type === 'content' && !linkedInSettings.text.trim()) {
+      toast({
+        title: "Check Your LinkedIn Post",
+        description: "Write the text to post to LinkedIn.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (scheduleAt) {
+      await handleSchedule();
+      return;
+    }
+
     try {
-      const results = await uploadToSocialMedia(asset, selectedPlatforms);
+      const results = await uploadToSocialMedia(asset, selectedPlatforms, {
+        tiktok: tiktokSettings,
+        pinterest: pinSettings,
+        twitter: twitterSettings,
+        linkedin: linkedInSettings
+      });
       setUploadResults(results);
       setShowResults(true);
       
-      // If all uploads were successful, close modal after a delay
-      if (results.every(r => r.success)) {
+      // If all uploads were successful, close modal after a delay.
+      // Some networks keep processing after upload, so stay open to show their status.
+      if (results.every(r => r.success) && !results.some(r => r.status === 'processing')) {
         setTimeout(() => {
           setIsOpen(false);
           setShowResults(false);
@@ -187,11 +318,95 @@ export function SocialMediaUploadModal({ asset, children }: SocialMediaUploadMod
     }
   };
 
+  // The same network settings an upload sends, kept with the scheduled post
+  const publishFieldsFor = (platform: SchedulablePlatform): PublishFields => {
+    switch (platform) {
+      case 'tiktok':
+        return tiktokPostFields(tiktokSettings);
+      case 'pinterest':
+        return pinFields(pinSettings);
+      case 'twitter':
+        return threadFields(twitterSettings.posts.map(post => post.trim()).filter(Boolean));
+      case 'linkedin':
+        return { text: linkedInSettings.text };
+      default:
+        return {};
+    }
+  };
+
+  // Queue the post for the social-scheduler instead of uploading right away
+  const handleSchedule = async () => {
+    const publishAt = new Date(scheduleAt);
+    if (publishAt <= new Date()) {
+      toast({
+        title: "Invalid Time",
+        description: "Pick a time in the future to schedule this post.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!currentWorkspace || asset.asset_type === 'content') {
+      toast({
+        title: "Cannot Schedule",
+        description: "Select a workspace and an image or video asset to schedule posts.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const platforms = selectedPlatforms.filter(platform => isSchedulable(platform, asset.asset_type));
+    const skipped = selectedPlatforms.filter(platform => !isSchedulable(platform, asset.asset_type));
+    if (platforms.length === 0) {
+      toast({
+        title: "Scheduling Not Supported",
+        description: `Scheduled posting is not available for ${skipped.join(', ')} yet.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsScheduling(true);
+    try {
+      for (const platform of platforms) {
+        const fields = publishFieldsFor(platform);
+        await schedulePost({
+          workspaceId: currentWorkspace.id,
+          assetId: asset.id,
+          assetUrl: asset.asset_url,
+          assetType: asset.asset_type,
+          platform,
+          title: fields.title || asset.title,
+          caption: fields.text || asset.description || asset.title,
+          link: fields.link,
+          options: fields.options,
+          publishAt,
+        });
+      }
+
+      toast({
+        title: "Post Scheduled",
+        description: `Scheduled for ${publishAt.toLocaleString()} on ${platforms.join(', ')}${skipped.length ? ` (skipped ${skipped.join(', ')})` : ''}.`,
+      });
+      handleModalClose();
+    } catch (error) {
+      console.error('Schedule error:', error);
+      toast({
+        title: "Scheduling Failed",
+        description: error.message || "Failed to schedule post",
+        variant: "destructive",
+      });
+    } finally {
+      setIsScheduling(false);
+    }
+  };
+
   const handleModalClose = () => {
     setIsOpen(false);
     setShowResults(false);
     setUploadResults([]);
     setSelectedPlatforms([]);
+    setScheduleAt('');
   };
 
   const getPlatformIcon = (platform: string) => {
@@ -205,9 +420,9 @@ export function SocialMediaUploadModal({ asset, children }: SocialMediaUploadMod
 
   const isPlatformCompatible = (platform: string) => {
     if (asset.asset_type === 'video') {
-      return platform === 'youtube' || platform === 'facebook';
+      return ['youtube', 'facebook', 'tiktok', 'pinterest', 'twitter', 'linkedin'].includes(platform);
     } else if (asset.asset_type === 'image') {
-      return platform === 'instagram' || platform === 'facebook';
+      return ['instagram', 'facebook', 'pinterest', 'twitter', 'linkedin'].includes(platform);
     } else if (asset.asset_type === 'content') {
       return platform === 'twitter' || platform === 'linkedin' || platform === 'facebook';
     }
@@ -220,6 +435,8 @@ export function SocialMediaUploadModal({ asset, children }: SocialMediaUploadMod
         return 'Instagram videos require special handling - use manual upload';
       } else if (asset.asset_type === 'image' && platform === 'youtube') {
         return 'YouTube requires video content';
+      } else if (asset.asset_type === 'image' && platform === 'tiktok') {
+        return 'TikTok requires video content';
       } else if (asset.asset_type === 'content') {
         return 'Content posting not yet supported for this platform';
       }
@@ -248,21 +465,12 @@ export function SocialMediaUploadModal({ asset, children }: SocialMediaUploadMod
     localStorage.setItem('instagram_user_info', JSON.stringify(instagramTest));
     localStorage.setItem('instagram_access_token', 'demo_access_token_instagram');
     
-    // Add Facebook test connection
-    const facebookTest = {
-      id: 'test-facebook-id',
-      name: 'Test Facebook User',
-      email: 'test@example.com'
-    };
-    localStorage.setItem('facebook_user_info', JSON.stringify(facebookTest));
-    localStorage.setItem('facebook_access_token', 'demo_access_token_facebook');
-    
     // Reload platforms
     loadConnectedPlatforms();
     
     toast({
       title: "Test Connections Added",
-      description: "Added test connections for YouTube, Instagram, and Facebook",
+      description: "Added test connections for YouTube and Instagram",
     });
   };
 
@@ -270,6 +478,7 @@ export function SocialMediaUploadModal({ asset, children }: SocialMediaUploadMod
     <Dialog open={isOpen} onOpenChange={setIsOpen}>
       <DialogTrigger asChild onClick={() => {
         console.log('🎯 Modal trigger clicked');
+        resetPostSettings();
         setIsOpen(true);
       }}>
         {children}
@@ -385,8 +594,7 @@ export function SocialMediaUploadModal({ asset, children }: SocialMediaUploadMod
               {connectedPlatforms.map(platform => {
                 const isTestConnection = (
                   platform.access_token === 'demo_access_token_youtube' ||
-                  platform.access_token === 'demo_access_token_instagram' ||
-                  platform.access_token === 'demo_access_token_facebook'
+                  platform.access_token === 'demo_access_token_instagram'
                 );
                 
                 return (
@@ -439,6 +647,19 @@ export function SocialMediaUploadModal({ asset, children }: SocialMediaUploadMod
                 </div>
               </div>
             ))}
+            {currentWorkspace && uploadResults.some(r => r.status === 'processing') && (
+              <PublicationStatus workspaceId={currentWorkspace.id} assetId={asset.id} />
+            )}
+          </div>
+        )}
+
+        {awaitingApproval && (
+          <div className="flex items-start gap-2 p-3 rounded border border-orange-200 bg-orange-50 text-sm text-orange-800">
+            <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <span>
+              This workspace only publishes approved assets. Submit it from the Review Queue in the
+              Asset Library; it can be posted once a workspace owner approves it.
+            </span>
           </div>
         )}
 
@@ -528,15 +749,74 @@ export function SocialMediaUploadModal({ asset, children }: SocialMediaUploadMod
                   </div>
                 </div>
 
+                {selectedPlatforms.includes('tiktok') && currentWorkspace && (
+                  <TikTokPostSettings
+                    workspaceId={currentWorkspace.id}
+                    value={tiktokSettings}
+                    onChange={setTikTokSettings}
+                  />
+                )}
+
+                {selectedPlatforms.includes('pinterest') && currentWorkspace && asset.asset_type !== 'content' && (
+                  <PinterestPinSettings
+                    workspaceId={currentWorkspace.id}
+                    assetId={asset.id}
+                    mediaType={asset.asset_type}
+                    value={pinSettings}
+                    onChange={setPinSettings}
+                  />
+                )}
+
+                {selectedPlatforms.includes('twitter') && (
+                  <TwitterPostSettings
+                    accountName={connectedPlatforms.find(p => p.platform === 'twitter')?.platform_username ?? null}
+                    hasMedia={asset.asset_type !== 'content'}
+                    value={twitterSettings}
+                    onChange={setTwitterSettings}
+                  />
+                )}
+
+                {selectedPlatforms.includes('linkedin') && (
+                  <LinkedInPostSettings
+                    pageName={connectedPlatforms.find(p => p.platform === 'linkedin')?.platform_display_name ?? null}
+                    value={linkedInSettings}
+                    onChange={setLinkedInSettings}
+                  />
+                )}
+
+                <div className="space-y-2 border-t pt-4">
+                  <Label htmlFor="schedule-at" className="text-sm">Schedule for later (optional)</Label>
+                  <Input
+                    id="schedule-at"
+                    type="datetime-local"
+                    value={scheduleAt}
+                    min={toDateTimeLocal(new Date())}
+                    onChange={(e) => setScheduleAt(e.target.value)}
+                  />
+                  <p className="text-xs text-gray-500">
+                    Scheduled posts are published automatically and appear in the content calendar.
+                  </p>
+                </div>
+
                 <div className="flex justify-end gap-2 pt-4">
                   <Button variant="outline" onClick={handleModalClose}>
                     Cancel
                   </Button>
                   <Button 
                     onClick={handleUpload}
-                    disabled={selectedPlatforms.length === 0 || isUploading}
+                    disabled={selectedPlatforms.length === 0 || isUploading || isScheduling || awaitingApproval}
                   >
-                    {isUploading ? (
+                    {isScheduling ? (
+                      <>
+                        <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                        Scheduling...
+                      </>
+                    ) : scheduleAt ? (
+                      <>
+                        <CalendarClock className="h-4 w-4 mr-2" />
+                        Schedule for {selectedPlatforms.length} Platform{selectedPlatforms.length !== 1 ? 's' : ''}
+                      </>
+                    ) : isUploading ? (
                       <>
                         <Loader2 className="h-4 w-4 animate-spin mr-2" />
                         Uploading...
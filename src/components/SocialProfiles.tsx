@@ -2,9 +2,17 @@ import { useState, useEffect } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { useInstagramAuth } from "@/hooks/useInstagramAuth";
 import { useYouTubeAuth } from "@/hooks/useYouTubeAuth";
+import { useFacebookAuth } from "@/hooks/useFacebookAuth";
+import { useTikTokAuth } from "@/hooks/useTikTokAuth";
+import { usePinterestAuth } from "@/hooks/usePinterestAuth";
+import { useLinkedInAuth } from "@/hooks/useLinkedInAuth";
+import { useTwitterAuth } from "@/hooks/useTwitterAuth";
+import { useConnectionHealth } from "@/hooks/useConnectionHealth";
 import { 
   Instagram, 
   Facebook, 
@@ -12,6 +20,8 @@ import {
   Twitter, 
   Youtube, 
   CheckCircle,
+  AlertTriangle,
+  RefreshCw,
   Plus,
   Settings,
   Unlink,
@@ -42,6 +52,53 @@ export function SocialProfiles() {
     isConnected: isYouTubeConnected,
     userInfo: youTubeUserInfo
   } = useYouTubeAuth();
+  const {
+    connect: connectFacebook,
+    disconnect: disconnectFacebook,
+    loadPages: loadFacebookPages,
+    selectPage: selectFacebookPage,
+    isConnecting: isFacebookConnecting,
+    isConnected: isFacebookConnected,
+    needsPageSelection: facebookNeedsPageSelection,
+    page: facebookPage,
+    pages: facebookPages
+  } = useFacebookAuth();
+  const {
+    connect: connectTikTok,
+    disconnect: disconnectTikTok,
+    isConnecting: isTikTokConnecting,
+    isConnected: isTikTokConnected,
+    userInfo: tikTokUserInfo
+  } = useTikTokAuth();
+  const {
+    connect: connectPinterest,
+    disconnect: disconnectPinterest,
+    isConnecting: isPinterestConnecting,
+    isConnected: isPinterestConnected,
+    userInfo: pinterestUserInfo
+  } = usePinterestAuth();
+  const {
+    connect: connectLinkedIn,
+    disconnect: disconnectLinkedIn,
+    loadOrganizations: loadLinkedInOrganizations,
+    selectOrganization: selectLinkedInOrganization,
+    isConnecting: isLinkedInConnecting,
+    isConnected: isLinkedInConnected,
+    needsOrganizationSelection: linkedInNeedsOrganizationSelection,
+    organization: linkedInOrganization,
+    organizations: linkedInOrganizations
+  } = useLinkedInAuth();
+  const {
+    connect: connectTwitter,
+    disconnect: disconnectTwitter,
+    isConnecting: isTwitterConnecting,
+    isConnected: isTwitterConnected,
+    userInfo: twitterUserInfo
+  } = useTwitterAuth();
+  const { unhealthy } = useConnectionHealth();
+  // Facebook and LinkedIn publish to a Page chosen after connecting
+  const [pageDialogChannel, setPageDialogChannel] = useState<'facebook' | 'linkedin' | null>(null);
+  const [selectedPageId, setSelectedPageId] = useState<string>("");
   const [loadingChannels, setLoadingChannels] = useState<string[]>([]);
   const [channels, setChannels] = useState<SocialChannel[]>([
     {
@@ -54,8 +111,7 @@ export function SocialProfiles() {
       id: "facebook",
       name: "Facebook",
       icon: Facebook,
-      connected: true,
-      accountName: "@mybrand"
+      connected: false
     },
     {
       id: "linkedin",
@@ -124,15 +180,102 @@ export function SocialProfiles() {
           accountName: youTubeUserInfo ? youTubeUserInfo.channelTitle : undefined
         };
       }
+      if (channel.id === 'facebook') {
+        // An account without a chosen Page still shows as connected so the Page can be picked
+        return {
+          ...channel,
+          connected: isFacebookConnected || facebookNeedsPageSelection,
+          accountName: facebookPage ? facebookPage.name : facebookNeedsPageSelection ? 'No Page selected' : undefined
+        };
+      }
+      if (channel.id === 'tiktok') {
+        return {
+          ...channel,
+          connected: isTikTokConnected,
+          accountName: tikTokUserInfo
+            ? tikTokUserInfo.username ? `@${tikTokUserInfo.username}` : tikTokUserInfo.displayName
+            : undefined
+        };
+      }
+      if (channel.id === 'pinterest') {
+        return {
+          ...channel,
+          connected: isPinterestConnected,
+          accountName: pinterestUserInfo ? `@${pinterestUserInfo.username}` : undefined
+        };
+      }
+      if (channel.id === 'linkedin') {
+        return {
+          ...channel,
+          connected: isLinkedInConnected || linkedInNeedsOrganizationSelection,
+          accountName: linkedInOrganization ? linkedInOrganization.name : linkedInNeedsOrganizationSelection ? 'No Page selected' : undefined
+        };
+      }
+      if (channel.id === 'twitter') {
+        return {
+          ...channel,
+          connected: isTwitterConnected,
+          accountName: twitterUserInfo ? `@${twitterUserInfo.username}` : undefined
+        };
+      }
       return channel;
     }));
-  }, [isInstagramConnected, instagramUserInfo, isYouTubeConnected, youTubeUserInfo]);
+  }, [isInstagramConnected, instagramUserInfo, isYouTubeConnected, youTubeUserInfo, isFacebookConnected, facebookNeedsPageSelection, facebookPage, isTikTokConnected, tikTokUserInfo, isPinterestConnected, pinterestUserInfo, isLinkedInConnected, linkedInNeedsOrganizationSelection, linkedInOrganization, isTwitterConnected, twitterUserInfo]);
+
+  // Prompt for a Page as soon as a multi-Page account is connected
+  useEffect(() => {
+    if (facebookNeedsPageSelection) {
+      setPageDialogChannel('facebook');
+    } else if (linkedInNeedsOrganizationSelection) {
+      setPageDialogChannel('linkedin');
+    }
+  }, [facebookNeedsPageSelection, linkedInNeedsOrganizationSelection]);
+
+  const pageDialog = pageDialogChannel === 'linkedin'
+    ? {
+        network: 'LinkedIn',
+        currentId: linkedInOrganization?.id,
+        options: linkedInOrganizations.map(organization => ({ id: organization.id, label: organization.name })),
+        select: selectLinkedInOrganization
+      }
+    : {
+        network: 'Facebook',
+        currentId: facebookPage?.id,
+        options: facebookPages.map(page => ({ id: page.id, label: `${page.name}${page.category ? ` · ${page.category}` : ''}` })),
+        select: selectFacebookPage
+      };
+
+  useEffect(() => {
+    if (pageDialogChannel) {
+      setSelectedPageId(pageDialog.currentId || "");
+    }
+  }, [pageDialogChannel, pageDialog.currentId]);
+
+  const isChannelBusy = (channelId: string) =>
+    channelId === 'instagram' ? isInstagramConnecting :
+    channelId === 'youtube' ? isYouTubeConnecting :
+    channelId === 'facebook' ? isFacebookConnecting :
+    channelId === 'tiktok' ? isTikTokConnecting :
+    channelId === 'pinterest' ? isPinterestConnecting :
+    channelId === 'linkedin' ? isLinkedInConnecting :
+    channelId === 'twitter' ? isTwitterConnecting :
+    loadingChannels.includes(channelId);
 
     const handleConnect = async (channelId: string) => {
     if (channelId === 'instagram') {
       await connectInstagram();
     } else if (channelId === 'youtube') {
       await connectYouTube();
+    } else if (channelId === 'facebook') {
+      await connectFacebook();
+    } else if (channelId === 'tiktok') {
+      await connectTikTok();
+    } else if (channelId === 'pinterest') {
+      await connectPinterest();
+    } else if (channelId === 'linkedin') {
+      await connectLinkedIn();
+    } else if (channelId === 'twitter') {
+      await connectTwitter();
     } else {
       toast({
         title: "Integration Coming Soon",
@@ -146,6 +289,16 @@ export function SocialProfiles() {
       await disconnectInstagram();
     } else if (channelId === 'youtube') {
       await disconnectYouTube();
+    } else if (channelId === 'facebook') {
+      await disconnectFacebook();
+    } else if (channelId === 'tiktok') {
+      await disconnectTikTok();
+    } else if (channelId === 'pinterest') {
+      await disconnectPinterest();
+    } else if (channelId === 'linkedin') {
+      await disconnectLinkedIn();
+    } else if (channelId === 'twitter') {
+      await disconnectTwitter();
     } else {
       setChannels(prev => 
         prev.map(channel => 
@@ -162,6 +315,17 @@ export function SocialProfiles() {
   };
 
   const handleManage = (channelId: string) => {
+    if (channelId === 'facebook') {
+      setPageDialogChannel('facebook');
+      loadFacebookPages();
+      return;
+    }
+    if (channelId === 'linkedin') {
+      setPageDialogChannel('linkedin');
+      loadLinkedInOrganizations();
+      return;
+    }
+
     toast({
       title: "Manage Account",
       description: `Opening management settings for ${channels.find(c => c.id === channelId)?.name}.`,
@@ -181,6 +345,7 @@ export function SocialProfiles() {
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
             {channels.map((channel) => {
               const IconComponent = channel.icon;
+              const health = channel.connected ? unhealthy[channel.id] : undefined;
               return (
                 <Card key={channel.id} className="relative">
                   <CardContent className="p-4">
@@ -189,7 +354,12 @@ export function SocialProfiles() {
                         <IconComponent className="h-6 w-6" />
                         <span className="font-medium">{channel.name}</span>
                       </div>
-                      {channel.connected && (
+                      {health ? (
+                        <Badge variant="destructive" className="flex items-center space-x-1">
+                          <AlertTriangle className="h-3 w-3" />
+                          <span>Reconnect needed</span>
+                        </Badge>
+                      ) : channel.connected && (
                         <Badge variant="secondary" className="flex items-center space-x-1">
                           <CheckCircle className="h-3 w-3" />
                           <span>Connected</span>
@@ -202,6 +372,12 @@ export function SocialProfiles() {
                         {channel.accountName}
                       </p>
                     )}
+
+                    {health && (
+                      <p className="text-xs text-red-600 bg-red-50 p-2 rounded mb-3">
+                        {health.error || 'This account needs to be reconnected before anything can be published to it.'}
+                      </p>
+                    )}
                     
                     <div className="flex space-x-2">
                       {!channel.connected ? (
@@ -209,29 +385,32 @@ export function SocialProfiles() {
                           onClick={() => handleConnect(channel.id)}
                           size="sm"
                           className="flex-1"
-                                                    disabled={
-                            channel.id === 'instagram' ? isInstagramConnecting : 
-                            channel.id === 'youtube' ? isYouTubeConnecting :
-                            loadingChannels.includes(channel.id)
-                          }
+                                                    disabled={isChannelBusy(channel.id)}
                         >
-                          {(
-                            channel.id === 'instagram' ? isInstagramConnecting : 
-                            channel.id === 'youtube' ? isYouTubeConnecting :
-                            loadingChannels.includes(channel.id)
-                          ) ? (
+                          {isChannelBusy(channel.id) ? (
                             <Loader2 className="h-3 w-3 mr-1 animate-spin" />
                           ) : (
                             <Plus className="h-3 w-3 mr-1" />
                           )}
-                          {(
-                            channel.id === 'instagram' ? isInstagramConnecting : 
-                            channel.id === 'youtube' ? isYouTubeConnecting :
-                            loadingChannels.includes(channel.id)
-                          ) ? 'Connecting...' : 'Connect'}
+                          {isChannelBusy(channel.id) ? 'Connecting...' : 'Connect'}
                         </Button>
                       ) : (
                         <>
+                          {health && (
+                            <Button
+                              onClick={() => handleConnect(channel.id)}
+                              size="sm"
+                              className="flex-1"
+                              disabled={isChannelBusy(channel.id)}
+                            >
+                              {isChannelBusy(channel.id) ? (
+                                <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                              ) : (
+                                <RefreshCw className="h-3 w-3 mr-1" />
+                              )}
+                              Reconnect
+                            </Button>
+                          )}
                           <Button 
                             onClick={() => handleManage(channel.id)}
                             variant="outline"
@@ -246,17 +425,9 @@ export function SocialProfiles() {
                             onClick={() => handleDisconnect(channel.id)}
                             variant="outline"
                             size="sm"
-                                                        disabled={
-                              channel.id === 'instagram' ? isInstagramConnecting : 
-                              channel.id === 'youtube' ? isYouTubeConnecting :
-                              loadingChannels.includes(channel.id)
-                            }
+                                                        disabled={isChannelBusy(channel.id)}
                           >
-                            {(
-                              channel.id === 'instagram' ? isInstagramConnecting : 
-                              channel.id === 'youtube' ? isYouTubeConnecting :
-                              loadingChannels.includes(channel.id)
-                            ) ? (
+                            {isChannelBusy(channel.id) ? (
                               <Loader2 className="h-3 w-3 animate-spin" />
                             ) : (
                               <Unlink className="h-3 w-3" />
@@ -272,6 +443,49 @@ export function SocialProfiles() {
           </div>
         </CardContent>
       </Card>
+
+      <Dialog open={pageDialogChannel !== null} onOpenChange={(open) => !open && setPageDialogChannel(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Choose a {pageDialog.network} Page</DialogTitle>
+            <DialogDescription>
+              Posts from this workspace will be published to the selected Page.
+            </DialogDescription>
+          </DialogHeader>
+          {pageDialog.options.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No Pages found for the connected {pageDialog.network} account.
+            </p>
+          ) : (
+            <Select value={selectedPageId} onValueChange={setSelectedPageId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a Page" />
+              </SelectTrigger>
+              <SelectContent>
+                {pageDialog.options.map(option => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPageDialogChannel(null)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={!selectedPageId || selectedPageId === pageDialog.currentId}
+              onClick={async () => {
+                await pageDialog.select(selectedPageId);
+                setPageDialogChannel(null);
+              }}
+            >
+              Use this Page
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,150 @@
+import { useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import {
+  fetchTikTokCreatorInfo,
+  TIKTOK_MAX_CAPTION_LENGTH,
+  TIKTOK_PRIVACY_LABELS,
+  type TikTokPostMode,
+  type TikTokPostSettings as Settings,
+} from '@/utils/tiktokPublishing';
+
+interface TikTokPostSettingsProps {
+  workspaceId: string;
+  value: Settings;
+  onChange: (value: Settings) => void;
+}
+
+export function TikTokPostSettings({ workspaceId, value, onChange }: TikTokPostSettingsProps) {
+  const { data: creator, isLoading, error } = useQuery({
+    queryKey: ['tiktok-creator-info', workspaceId],
+    queryFn: () => fetchTikTokCreatorInfo(workspaceId),
+    staleTime: 60 * 1000,
+  });
+
+  const update = (changes: Partial<Settings>) => onChange({ ...value, ...changes });
+
+  // Settings the creator has turned off on TikTok can't be enabled per post
+  useEffect(() => {
+    if (!creator) return;
+    if (
+      (creator.commentDisabled && !value.disableComment) ||
+      (creator.duetDisabled && !value.disableDuet) ||
+      (creator.stitchDisabled && !value.disableStitch)
+    ) {
+      onChange({
+        ...value,
+        disableComment: value.disableComment || creator.commentDisabled,
+        disableDuet: value.disableDuet || creator.duetDisabled,
+        disableStitch: value.disableStitch || creator.stitchDisabled,
+      });
+    }
+  }, [creator, value, onChange]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground py-2">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading TikTok account settings...
+      </div>
+    );
+  }
+
+  if (error || !creator) {
+    return (
+      <div className="text-xs text-red-600 bg-red-50 p-2 rounded">
+        {error instanceof Error ? error.message : 'Could not load TikTok account settings'}
+      </div>
+    );
+  }
+
+  const isDraft = value.mode === 'draft';
+
+  return (
+    <div className="space-y-3 border rounded-lg p-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">TikTok</span>
+        <span className="text-xs text-muted-foreground">Posting as @{creator.username}</span>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs">Post as</Label>
+        <Select value={value.mode} onValueChange={(mode) => update({ mode: mode as TikTokPostMode })}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="direct">Publish directly</SelectItem>
+            <SelectItem value="draft">Send to TikTok drafts</SelectItem>
+          </SelectContent>
+        </Select>
+        {isDraft && (
+          <p className="text-xs text-muted-foreground">
+            The video lands in your TikTok inbox, where you add the caption and post it from the app.
+          </p>
+        )}
+      </div>
+
+      {!isDraft && (
+        <>
+          <div className="space-y-1">
+            <Label htmlFor="tiktok-caption" className="text-xs">Caption</Label>
+            <Textarea
+              id="tiktok-caption"
+              rows={3}
+              value={value.caption}
+              maxLength={TIKTOK_MAX_CAPTION_LENGTH}
+              onChange={(e) => update({ caption: e.target.value })}
+            />
+            <p className="text-xs text-muted-foreground text-right">
+              {value.caption.length}/{TIKTOK_MAX_CAPTION_LENGTH}
+            </p>
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs">Who can view this video</Label>
+            <Select value={value.privacyLevel} onValueChange={(privacyLevel) => update({ privacyLevel })}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose visibility" />
+              </SelectTrigger>
+              <SelectContent>
+                {creator.privacyLevelOptions.map(option => (
+                  <SelectItem key={option} value={option}>
+                    {TIKTOK_PRIVACY_LABELS[option] || option}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            {[
+              { key: 'disableComment', label: 'Allow comments', locked: creator.commentDisabled },
+              { key: 'disableDuet', label: 'Allow Duet', locked: creator.duetDisabled },
+              { key: 'disableStitch', label: 'Allow Stitch', locked: creator.stitchDisabled },
+            ].map(({ key, label, locked }) => (
+              <div key={key} className="flex items-center justify-between">
+                <Label className="text-xs">{label}</Label>
+                <Switch
+                  checked={!value[key as keyof Settings]}
+                  disabled={locked}
+                  onCheckedChange={(checked) => update({ [key]: !checked })}
+                />
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      {creator.maxVideoPostDurationSec && (
+        <p className="text-xs text-muted-foreground">
+          Videos can be up to {Math.floor(creator.maxVideoPostDurationSec / 60)} min on this account. Vertical 9:16 works best.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  postLength,
+  TWITTER_MAX_POST_LENGTH,
+  TWITTER_MAX_THREAD_LENGTH,
+  type TwitterPostSettings as Settings,
+} from '@/utils/twitterPublishing';
+
+interface TwitterPostSettingsProps {
+  accountName: string | null;
+  hasMedia: boolean;
+  value: Settings;
+  onChange: (value: Settings) => void;
+}
+
+export function TwitterPostSettings({ accountName, hasMedia, value, onChange }: TwitterPostSettingsProps) {
+  const updatePost = (index: number, post: string) =>
+    onChange({ posts: value.posts.map((current, i) => (i === index ? post : current)) });
+
+  const removePost = (index: number) =>
+    onChange({ posts: value.posts.filter((_, i) => i !== index) });
+
+  const addPost = () => onChange({ posts: [...value.posts, ''] });
+
+  return (
+    <div className="space-y-3 border rounded-lg p-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">X</span>
+        {accountName && <span className="text-xs text-muted-foreground">Posting as @{accountName}</span>}
+      </div>
+
+      {value.posts.map((post, index) => {
+        const length = postLength(post);
+        return (
+          <div key={index} className="space-y-1">
+            <div className="flex items-center justify-between">
+              <Label htmlFor={`x-post-${index}`} className="text-xs">
+                {value.posts.length > 1 ? `Post ${index + 1}` : 'Post'}
+                {index === 0 && hasMedia ? ' (with media)' : ''}
+              </Label>
+              {value.posts.length > 1 && (
+                <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => removePost(index)}>
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+            <Textarea
+              id={`x-post-${index}`}
+              rows={3}
+              value={post}
+              onChange={(e) => updatePost(index, e.target.value)}
+            />
+            <p className={`text-xs text-right ${length > TWITTER_MAX_POST_LENGTH ? 'text-red-600' : 'text-muted-foreground'}`}>
+              {length}/{TWITTER_MAX_POST_LENGTH}
+            </p>
+          </div>
+        );
+      })}
+
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={addPost}
+        disabled={value.posts.length >= TWITTER_MAX_THREAD_LENGTH}
+      >
+        <Plus className="h-3 w-3 mr-1" />
+        Add to thread
+      </Button>
+    </div>
+  );
+}
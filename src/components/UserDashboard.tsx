@@ -24,6 +24,7 @@ interface GeneratedAsset {
   content?: string;
   status?: string;
   runway_task_id?: string;
+  job_id?: string;
   message?: string;
 }
 
@@ -77,6 +78,7 @@ export function UserDashboard({ selectedProduct }: UserDashboardProps) {
         source_system: image.source_system,
         status: image.status,
         runway_task_id: image.runway_task_id,
+        job_id: image.job_id,
         message: image.message
       };
       setGeneratedAssets(prev => [asset, ...prev]);
@@ -113,6 +115,8 @@ export function UserDashboard({ selectedProduct }: UserDashboardProps) {
     }
   });
 
+  const latestImage = generatedAssets.find(asset => asset.type === 'image');
+
   const handleGenerate = async (type: GeneratorType) => {
     if (!approvedInstruction) return;
     
@@ -268,9 +272,10 @@ export function UserDashboard({ selectedProduct }: UserDashboardProps) {
       />
 
       {/* Show social media auto-post when we have an approved instruction and at least one image asset */}
-      {(approvedInstruction && generatedAssets.some(asset => asset.type === 'image')) && (
+      {(approvedInstruction && latestImage) && (
         <SocialMediaAutoPost 
-          imageUrl={generatedAssets.find(asset => asset.type === 'image')?.url || ''}
+          imageUrl={latestImage.url}
+          generatedAssetId={latestImage.job_id ? latestImage.id : undefined}
           instruction={approvedInstruction}
           isVisible={true}
         />
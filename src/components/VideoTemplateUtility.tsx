@@ -1,13 +1,15 @@
 import { useState, useEffect } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/useWorkspace";
 import { Clapperboard } from "lucide-react";
 import { TemplateSelector } from "./video-template/TemplateSelector";
 import { ProductVariableTable } from "./video-template/ProductVariableTable";
 import { VideoCreationControls } from "./video-template/VideoCreationControls";
 import { ProductVideoLibrary } from "./ProductVideoLibrary";
-import { templateManager, type TemplateDetail } from "@/api/template-manager";
+import { templateManager, type TemplateDetail, type TemplateVariable } from "@/api/template-manager";
 import { supabase } from "@/integrations/supabase/client";
+import { validateTemplateValues } from "@/utils/templateVariables";
 import { 
   InventoryItem, 
   ProductVariableState
@@ -27,9 +29,11 @@ interface VideoTemplateUtilityProps {
 
 export function VideoTemplateUtility({ selectedProduct }: VideoTemplateUtilityProps) {
   const { toast } = useToast();
+  const { currentWorkspace } = useWorkspace();
   const [selectedTemplate, setSelectedTemplate] = useState("");
   const [isGenerating, setIsGenerating] = useState(false);
   const [templateVariables, setTemplateVariables] = useState<string[]>([]);
+  const [variableTypes, setVariableTypes] = useState<Record<string, TemplateVariable>>({});
   const [productVariables, setProductVariables] = useState<Record<string, ProductVariableState>>({});
   const [templates, setTemplates] = useState<Template[]>([]);
   const [isLoadingTemplates, setIsLoadingTemplates] = useState(true);
@@ -38,6 +42,7 @@ export function VideoTemplateUtility({ selectedProduct }: VideoTemplateUtilityPr
   const handleTemplateSelect = async (templateId: string) => {
     console.log('Template selected:', templateId);
     setSelectedTemplate(templateId);
+    setVariableTypes({});
     
     try {
       console.log('Fetching template detail with enhanced variable detection for:', templateId);
@@ -52,6 +57,7 @@ export function VideoTemplateUtility({ selectedProduct }: VideoTemplateUtilityPr
       if (templateDetail && templateDetail.variables) {
         console.log('Setting template variables from API response:', templateDetail.variables);
         setTemplateVariables(templateDetail.variables);
+        setVariableTypes(templateDetail.variableTypes || {});
         
         // Log each variable for debugging
         templateDetail.variables.forEach((variable, index) => {
@@ -121,7 +127,7 @@ export function VideoTemplateUtility({ selectedProduct }: VideoTemplateUtilityPr
         console.log('Fetching templates using enhanced template manager');
         
         // Use database-first approach with enhanced variable detection
-        const templateDetails = await templateManager.getClientTemplates('default');
+        const templateDetails = await templateManager.getClientTemplates(currentWorkspace?.clientId);
         
         console.log('Raw template details from manager:', templateDetails);
         
@@ -182,7 +188,7 @@ export function VideoTemplateUtility({ selectedProduct }: VideoTemplateUtilityPr
     };
 
     fetchUserTemplates();
-  }, [toast]);
+  }, [toast, currentWorkspace?.clientId]);
 
   const generateVariableSuggestions = async (variables: string[]) => {
     try {
@@ -199,7 +205,8 @@ export function VideoTemplateUtility({ selectedProduct }: VideoTemplateUtilityPr
       const { data, error } = await supabase.functions.invoke('openai-variable-suggestions', {
         body: {
           product: selectedProduct,
-          templateVariables: variables
+          templateVariables: variables,
+          workspaceId: currentWorkspace?.id
         }
       });
 
@@ -277,6 +284,23 @@ export function VideoTemplateUtility({ selectedProduct }: VideoTemplateUtilityPr
       return;
     }
 
+    const errors = validateTemplateValues(
+      templateVariables,
+      variableTypes,
+      Object.fromEntries(templateVariables.map(variable => [
+        variable,
+        productVariables[variable]?.aiSuggested || productVariables[variable]?.extracted || ""
+      ]))
+    );
+    if (Object.keys(errors).length > 0) {
+      toast({
+        title: "Fix Template Variables",
+        description: Object.entries(errors).map(([variable, error]) => `${variable}: ${error}`).join('; '),
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsGenerating(true);
     
     // Show initial "getting ready" message
@@ -324,7 +348,8 @@ export function VideoTemplateUtility({ selectedProduct }: VideoTemplateUtilityPr
               aiSuggested: {},
               userImproved: finalData
             },
-            instruction: `Create video using template ${selectedTemplate} with product: ${selectedProduct.name}`
+            instruction: `Create video using template ${selectedTemplate} with product: ${selectedProduct.name}`,
+            workspaceId: currentWorkspace?.id
           }
         });
 
@@ -478,6 +503,7 @@ export function VideoTemplateUtility({ selectedProduct }: VideoTemplateUtilityPr
               selectedProduct={selectedProduct}
               templateVariables={templateVariables}
               productVariables={productVariables}
+              variableTypes={variableTypes}
               onUpdateProductVariable={updateProductVariable}
             />
           )}
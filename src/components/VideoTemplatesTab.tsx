@@ -3,6 +3,7 @@ import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/useWorkspace";
 import { useView } from "@/contexts/ViewContext";
 import { TemplateGrid } from "./templates/TemplateGrid";
 import { TemplateRequestDialog } from "./templates/TemplateRequestDialog";
@@ -11,8 +12,10 @@ import { TemplateHeader } from "./templates/TemplateHeader";
 import { TemplateLoadingState } from "./templates/TemplateLoadingState";
 import { EmptyTemplatesState } from "./templates/EmptyTemplatesState";
 import { TemplateVideoCreator } from "./templates/TemplateVideoCreator";
+import { TemplateRequestList } from "./templates/TemplateRequestList";
 import { VideoTemplateUtility } from "./VideoTemplateUtility";
-import { templateManager } from "@/api/template-manager";
+import { templateManager, type TemplateVariable } from "@/api/template-manager";
+import { saveOnboardingToBrandProfile, type OnboardingData } from "@/utils/templateRequests";
 import { Button } from "./ui/button";
 import { ArrowLeft } from "lucide-react";
 
@@ -26,11 +29,13 @@ interface VideoTemplate {
   status: 'active' | 'pending' | 'draft';
   heygenTemplateId?: string;
   variables?: string[];
+  variableTypes?: Record<string, TemplateVariable>;
   aspectRatio?: 'landscape' | 'portrait';
 }
 
 export function VideoTemplatesTab() {
   const { toast } = useToast();
+  const { currentWorkspace } = useWorkspace();
   const { selectedProduct, setSelectedProduct } = useView();
   const [showRequestDialog, setShowRequestDialog] = useState(false);
   const [showOnboardingDialog, setShowOnboardingDialog] = useState(false);
@@ -38,12 +43,12 @@ export function VideoTemplatesTab() {
 
   // Fetch templates using the new template manager
   const { data: templates, isLoading, error } = useQuery({
-    queryKey: ['client-templates', 'default'], // Could be dynamic based on user's client
+    queryKey: ['client-templates', currentWorkspace?.clientId],
     queryFn: async () => {
       try {
         console.log('Fetching client templates using template manager');
         
-        const templateDetails = await templateManager.getClientTemplates('default');
+        const templateDetails = await templateManager.getClientTemplates(currentWorkspace?.clientId);
         
         // Transform to VideoTemplate format
         const videoTemplates: VideoTemplate[] = templateDetails.map(template => ({
@@ -56,6 +61,7 @@ export function VideoTemplatesTab() {
           status: 'active' as const,
           heygenTemplateId: template.id,
           variables: template.variables || [],
+          variableTypes: template.variableTypes,
           aspectRatio: template.aspectRatio || 'landscape'
         }));
 
@@ -83,13 +89,24 @@ export function VideoTemplatesTab() {
     );
   };
 
-  const handleOnboardingComplete = (data: any) => {
-    console.log('Onboarding data:', data);
-    setShowOnboardingDialog(false);
-    toast({
-      title: "Onboarding Complete",
-      description: "Your brand information has been saved. Our team will create custom templates for you.",
-    });
+  const handleOnboardingComplete = async (data: OnboardingData) => {
+    if (!currentWorkspace) return;
+
+    try {
+      await saveOnboardingToBrandProfile(currentWorkspace.id, data);
+      setShowOnboardingDialog(false);
+      toast({
+        title: "Onboarding Complete",
+        description: "Your answers were saved to the workspace brand kit. Request a template whenever you're ready.",
+      });
+    } catch (error) {
+      console.error('Error saving onboarding answers:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save your brand information",
+        variant: "destructive",
+      });
+    }
   };
 
   const handleTemplateSelect = (template: VideoTemplate) => {
@@ -190,6 +207,8 @@ export function VideoTemplatesTab() {
         </CardContent>
       </Card>
 
+      <TemplateRequestList />
+
       <TemplateRequestDialog
         open={showRequestDialog}
         onOpenChange={setShowRequestDialog}
@@ -1,9 +1,11 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { useWorkspace } from '@/hooks/useWorkspace';
+import { SOCIAL_CONNECTION_COLUMNS } from '@/utils/socialConnections';
 import { Youtube, CheckCircle, AlertCircle, Loader2 } from 'lucide-react';
 import { DirectYouTubeConnect } from '@/components/DirectYouTubeConnect';
 import { useYouTubeAuth } from '@/hooks/useYouTubeAuth';
@@ -22,15 +24,17 @@ export function YouTubeConnectionManager() {
   const [loading, setLoading] = useState(true);
   const [disconnecting, setDisconnecting] = useState(false);
   const { toast } = useToast();
+  const { currentWorkspace } = useWorkspace();
   const { connect, isConnecting, isConnected, userInfo } = useYouTubeAuth();
+  const workspaceId = currentWorkspace?.id;
 
-  const checkConnection = async () => {
+  const checkConnection = useCallback(async () => {
     try {
       const { data, error } = await supabase
         .from('user_social_connections')
-        .select('*')
+        .select(SOCIAL_CONNECTION_COLUMNS)
+        .eq('workspace_id', workspaceId)
         .eq('platform', 'youtube')
-        .eq('user_id', 'default_user')
         .eq('is_active', true)
         .single();
 
@@ -39,15 +43,14 @@ export function YouTubeConnectionManager() {
         return;
       }
 
-      if (data) {
-        setConnection(data);
-      }
+      // Switching workspaces clears the previous workspace's connection
+      setConnection(data ?? null);
     } catch (error) {
       console.error('Failed to check connection:', error);
     } finally {
       setLoading(false);
     }
-  };
+  }, [workspaceId]);
 
   const disconnect = async () => {
     if (!connection) return;
@@ -101,7 +104,7 @@ export function YouTubeConnectionManager() {
       // Clean up URL
       window.history.replaceState({}, document.title, window.location.pathname);
     }
-  }, [toast]);
+  }, [toast, checkConnection]);
 
   if (loading) {
     return (
@@ -4,10 +4,13 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { ApiKeyManager } from "./ApiKeyManager";
 import { TestingModule } from "./TestingModule";
+import { WebhookEvents } from "./WebhookEvents";
+import { TemplateVariableEditor } from "./TemplateVariableEditor";
+import { TemplateRequestQueue } from "./TemplateRequestQueue";
 import { HeyGenVideoManager } from "../HeyGenVideoManager";
 
 export function AdminDashboard() {
-  const [activeTab, setActiveTab] = useState<'keys' | 'testing' | 'videos'>('keys');
+  const [activeTab, setActiveTab] = useState<'keys' | 'testing' | 'videos' | 'webhooks' | 'templates' | 'requests'>('keys');
 
   return (
     <div className="space-y-6">
@@ -38,11 +41,35 @@ export function AdminDashboard() {
         >
           Video Manager
         </Button>
+        <Button 
+          variant={activeTab === 'webhooks' ? 'default' : 'ghost'} 
+          onClick={() => setActiveTab('webhooks')}
+          className="rounded-b-none"
+        >
+          Webhooks
+        </Button>
+        <Button 
+          variant={activeTab === 'templates' ? 'default' : 'ghost'} 
+          onClick={() => setActiveTab('templates')}
+          className="rounded-b-none"
+        >
+          Templates
+        </Button>
+        <Button 
+          variant={activeTab === 'requests' ? 'default' : 'ghost'} 
+          onClick={() => setActiveTab('requests')}
+          className="rounded-b-none"
+        >
+          Requests
+        </Button>
       </div>
 
       {activeTab === 'keys' && <ApiKeyManager />}
       {activeTab === 'testing' && <TestingModule />}
       {activeTab === 'videos' && <HeyGenVideoManager />}
+      {activeTab === 'webhooks' && <WebhookEvents />}
+      {activeTab === 'templates' && <TemplateVariableEditor />}
+      {activeTab === 'requests' && <TemplateRequestQueue />}
     </div>
   );
 }
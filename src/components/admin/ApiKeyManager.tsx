@@ -1,19 +1,24 @@
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/useWorkspace";
 import { supabase } from "@/integrations/supabase/client";
-import { Eye, EyeOff, Check, X, ExternalLink } from "lucide-react";
+import { Eye, EyeOff, Check, X, ExternalLink, Loader2, Trash2 } from "lucide-react";
+
+type KeyScope = 'platform' | 'workspace';
 
 interface ApiKeyStatus {
   name: string;
   configured: boolean;
-  testing?: boolean;
-  lastTested?: Date;
+  valid?: boolean;
+  source?: 'workspace' | 'platform' | 'environment' | null;
+  masked?: string | null;
+  lastValidatedAt?: string | null;
   error?: string;
 }
 
@@ -25,44 +30,56 @@ const API_KEYS = [
     docsUrl: 'https://app.runwayml.com/account/keys'
   },
   {
-    name: 'OPENAI_API_KEY', 
+    name: 'OPENAI_API_KEY',
     label: 'OpenAI API Key',
     description: 'For instruction cleaning and content generation',
     docsUrl: 'https://platform.openai.com/api-keys'
   },
   {
     name: 'HEYGEN_API_KEY',
-    label: 'HeyGen API Key', 
+    label: 'HeyGen API Key',
     description: 'For video generation (alternative to RunwayML)',
     docsUrl: 'https://docs.heygen.com/docs/api-key'
   }
 ];
 
+const SOURCE_LABELS: Record<string, string> = {
+  workspace: 'Workspace key',
+  platform: 'Platform default',
+  environment: 'Function secret'
+};
+
 export function ApiKeyManager() {
   const [apiKeys, setApiKeys] = useState<Record<string, string>>({});
   const [showKeys, setShowKeys] = useState<Record<string, boolean>>({});
   const [keyStatuses, setKeyStatuses] = useState<ApiKeyStatus[]>([]);
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+  const [scope, setScope] = useState<KeyScope>('platform');
   const [isLoading, setIsLoading] = useState(false);
+  const { currentWorkspace } = useWorkspace();
   const { toast } = useToast();
 
-  useEffect(() => {
-    checkApiKeyStatuses();
-  }, []);
+  // Platform keys are stored without a workspace
+  const workspaceId = scope === 'workspace' ? currentWorkspace?.id ?? null : null;
 
-  const checkApiKeyStatuses = async () => {
+  const checkApiKeyStatuses = useCallback(async () => {
     setIsLoading(true);
     const statuses: ApiKeyStatus[] = [];
 
     for (const key of API_KEYS) {
       try {
-        // Test each API key by making a simple request
+        // The function validates the resolved key against the provider
         const { data, error } = await supabase.functions.invoke('test-api-key', {
-          body: { keyName: key.name }
+          body: { keyName: key.name, workspaceId }
         });
 
         statuses.push({
           name: key.name,
           configured: !error && data?.configured,
+          valid: data?.valid,
+          source: data?.source,
+          masked: data?.masked,
+          lastValidatedAt: data?.lastValidatedAt,
           error: error?.message || data?.error
         });
       } catch (error) {
@@ -76,7 +93,11 @@ export function ApiKeyManager() {
 
     setKeyStatuses(statuses);
     setIsLoading(false);
-  };
+  }, [workspaceId]);
+
+  useEffect(() => {
+    checkApiKeyStatuses();
+  }, [checkApiKeyStatuses]);
 
   const handleKeyChange = (keyName: string, value: string) => {
     setApiKeys(prev => ({ ...prev, [keyName]: value }));
@@ -97,16 +118,18 @@ export function ApiKeyManager() {
       return;
     }
 
+    setSavingKey(keyName);
     try {
-      const { error } = await supabase.functions.invoke('update-api-key', {
-        body: { keyName, keyValue: value.trim() }
+      const { data, error } = await supabase.functions.invoke('update-api-key', {
+        body: { keyName, keyValue: value.trim(), workspaceId }
       });
 
       if (error) throw error;
+      if (!data.success) throw new Error(data.error);
 
       toast({
         title: "Success",
-        description: `${keyName} has been updated successfully`,
+        description: `${keyName} was validated and saved (${data.masked})`,
       });
 
       // Clear the input and refresh statuses
@@ -114,32 +137,89 @@ export function ApiKeyManager() {
       await checkApiKeyStatuses();
     } catch (error) {
       toast({
-        title: "Error", 
+        title: "Error",
         description: error.message || "Failed to save API key",
         variant: "destructive"
       });
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  const removeApiKey = async (keyName: string) => {
+    setSavingKey(keyName);
+    try {
+      const { data, error } = await supabase.functions.invoke('update-api-key', {
+        body: { keyName, workspaceId, action: 'delete' }
+      });
+
+      if (error) throw error;
+      if (!data.success) throw new Error(data.error);
+
+      toast({
+        title: "Key Removed",
+        description: scope === 'workspace'
+          ? `${keyName} now falls back to the platform default`
+          : `${keyName} now falls back to the function secret, if one is set`,
+      });
+      await checkApiKeyStatuses();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove API key",
+        variant: "destructive"
+      });
+    } finally {
+      setSavingKey(null);
     }
   };
 
   const getStatusBadge = (status: ApiKeyStatus) => {
+    if (status.configured && status.valid === false) {
+      return <Badge className="bg-yellow-100 text-yellow-800">Invalid</Badge>;
+    }
     if (status.configured) {
       return <Badge className="bg-green-100 text-green-800">Configured</Badge>;
     }
     return <Badge className="bg-red-100 text-red-800">Not Configured</Badge>;
   };
 
+  // Only a key stored for the selected scope can be removed from here
+  const isStoredInScope = (status?: ApiKeyStatus) =>
+    status?.source === (scope === 'workspace' ? 'workspace' : 'platform');
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <div>
           <h3 className="text-lg font-medium">API Key Management</h3>
-          <p className="text-sm text-muted-foreground">Configure API keys for external services</p>
+          <p className="text-sm text-muted-foreground">
+            Keys are encrypted at rest and checked with the provider before they are saved
+          </p>
         </div>
         <Button onClick={checkApiKeyStatuses} disabled={isLoading} variant="outline">
           {isLoading ? "Checking..." : "Refresh Status"}
         </Button>
       </div>
 
+      <div className="flex items-center space-x-2">
+        <Button
+          variant={scope === 'platform' ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => setScope('platform')}
+        >
+          Platform Default
+        </Button>
+        <Button
+          variant={scope === 'workspace' ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => setScope('workspace')}
+          disabled={!currentWorkspace}
+        >
+          {currentWorkspace ? `Workspace: ${currentWorkspace.name}` : 'No Workspace Selected'}
+        </Button>
+      </div>
+
       <div className="grid gap-4">
         {API_KEYS.map((key) => {
           const status = keyStatuses.find(s => s.name === key.name);
@@ -153,8 +233,8 @@ export function ApiKeyManager() {
                   </div>
                   <div className="flex items-center space-x-2">
                     {status && getStatusBadge(status)}
-                    <Button 
-                      variant="ghost" 
+                    <Button
+                      variant="ghost"
                       size="sm"
                       onClick={() => window.open(key.docsUrl, '_blank')}
                     >
@@ -164,8 +244,35 @@ export function ApiKeyManager() {
                 </div>
               </CardHeader>
               <CardContent className="space-y-4">
+                {status?.configured && (
+                  <div className="flex items-center justify-between text-sm bg-gray-50 p-2 rounded">
+                    <div className="space-x-3">
+                      <span className="font-mono">{status.masked || '••••'}</span>
+                      {status.source && (
+                        <span className="text-muted-foreground">{SOURCE_LABELS[status.source]}</span>
+                      )}
+                      {status.lastValidatedAt && (
+                        <span className="text-muted-foreground">
+                          Validated {new Date(status.lastValidatedAt).toLocaleString()}
+                        </span>
+                      )}
+                    </div>
+                    {isStoredInScope(status) && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeApiKey(key.name)}
+                        disabled={savingKey === key.name}
+                      >
+                        <Trash2 className="h-4 w-4 mr-1" />
+                        Remove
+                      </Button>
+                    )}
+                  </div>
+                )}
+
                 <div className="space-y-2">
-                  <Label htmlFor={key.name}>API Key</Label>
+                  <Label htmlFor={key.name}>{status?.configured ? 'Replace API Key' : 'API Key'}</Label>
                   <div className="flex space-x-2">
                     <div className="relative flex-1">
                       <Input
@@ -184,10 +291,11 @@ export function ApiKeyManager() {
                         {showKeys[key.name] ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
                       </Button>
                     </div>
-                    <Button 
+                    <Button
                       onClick={() => saveApiKey(key.name)}
-                      disabled={!apiKeys[key.name]?.trim()}
+                      disabled={!apiKeys[key.name]?.trim() || savingKey === key.name}
                     >
+                      {savingKey === key.name && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
                       Save
                     </Button>
                   </div>
@@ -215,7 +323,7 @@ export function ApiKeyManager() {
               <div key={status.name} className="flex items-center justify-between py-2 border-b last:border-b-0">
                 <span className="font-medium">{status.name}</span>
                 <div className="flex items-center space-x-2">
-                  {status.configured ? (
+                  {status.configured && status.valid !== false ? (
                     <Check className="h-4 w-4 text-green-600" />
                   ) : (
                     <X className="h-4 w-4 text-red-600" />
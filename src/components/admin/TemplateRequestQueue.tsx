@@ -0,0 +1,218 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, RefreshCw, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { templateManager } from "@/api/template-manager";
+import {
+  TEMPLATE_REQUEST_STATUS_LABELS,
+  TEMPLATE_REQUEST_STATUS_STYLES,
+  type TemplateRequest,
+  type TemplateRequestStatus,
+} from "@/utils/templateRequests";
+
+const URGENCY_STYLES: Record<string, string> = {
+  low: 'bg-gray-100 text-gray-700',
+  normal: 'bg-blue-100 text-blue-800',
+  high: 'bg-orange-100 text-orange-800',
+  urgent: 'bg-red-100 text-red-800'
+};
+
+interface RequestDraft {
+  status: TemplateRequestStatus;
+  heygenTemplateId: string;
+  adminNotes: string;
+}
+
+export function TemplateRequestQueue() {
+  const { toast } = useToast();
+  const [showClosed, setShowClosed] = useState(false);
+  const [drafts, setDrafts] = useState<Record<string, RequestDraft>>({});
+  const [saving, setSaving] = useState<string | null>(null);
+
+  const { data: requests, isLoading, isFetching, refetch } = useQuery({
+    queryKey: ['admin-template-requests', showClosed],
+    queryFn: async () => {
+      let query = supabase
+        .from('template_requests')
+        .select('*, client_configs(client_name)')
+        .order('created_at', { ascending: true });
+
+      if (!showClosed) {
+        query = query.in('status', ['submitted', 'in_design']);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const draftFor = (request: TemplateRequest): RequestDraft => drafts[request.id] ?? {
+    status: request.status as TemplateRequestStatus,
+    heygenTemplateId: request.heygen_template_id ?? '',
+    adminNotes: request.admin_notes ?? ''
+  };
+
+  const updateDraft = (request: TemplateRequest, update: Partial<RequestDraft>) => {
+    setDrafts(prev => ({ ...prev, [request.id]: { ...draftFor(request), ...update } }));
+  };
+
+  const handleSave = async (request: TemplateRequest) => {
+    const draft = draftFor(request);
+    if (draft.status === 'ready' && !draft.heygenTemplateId.trim()) {
+      toast({
+        title: "HeyGen Template Needed",
+        description: "Enter the HeyGen template ID before marking the request ready.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(request.id);
+    // Moving to ready assigns the template and notifies the requester (database trigger)
+    const { error } = await supabase
+      .from('template_requests')
+      .update({
+        status: draft.status,
+        heygen_template_id: draft.heygenTemplateId.trim() || null,
+        admin_notes: draft.adminNotes.trim() || null,
+        resolved_at: ['ready', 'rejected'].includes(draft.status) ? new Date().toISOString() : null
+      })
+      .eq('id', request.id);
+    setSaving(null);
+
+    if (error) {
+      toast({
+        title: "Update Failed",
+        description: error.message || "Failed to update template request",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (draft.status === 'ready') {
+      templateManager.clearCache();
+    }
+    setDrafts(prev => {
+      const next = { ...prev };
+      delete next[request.id];
+      return next;
+    });
+    toast({
+      title: "Request Updated",
+      description: draft.status === request.status
+        ? "Changes saved."
+        : `Marked ${TEMPLATE_REQUEST_STATUS_LABELS[draft.status].toLowerCase()}; the requester has been notified.`,
+    });
+    refetch();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium">Template Requests</h3>
+          <p className="text-sm text-muted-foreground">Custom templates workspaces have asked for, oldest first</p>
+        </div>
+        <div className="flex space-x-2">
+          <Button variant="outline" onClick={() => setShowClosed(!showClosed)}>
+            {showClosed ? 'Open Only' : 'Show Closed'}
+          </Button>
+          <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      ) : !requests?.length ? (
+        <p className="text-sm text-muted-foreground text-center py-8">No template requests waiting</p>
+      ) : (
+        requests.map(request => {
+          const draft = draftFor(request);
+          const status = request.status as TemplateRequestStatus;
+          return (
+            <Card key={request.id}>
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <CardTitle className="text-base">{request.template_name}</CardTitle>
+                    <CardDescription>
+                      {request.client_configs?.client_name ?? 'Unknown workspace'} · requested {new Date(request.created_at).toLocaleDateString()}
+                      {request.category && ` · ${request.category}`}
+                      {request.duration && ` · ${request.duration}`}
+                    </CardDescription>
+                  </div>
+                  <div className="flex space-x-2">
+                    <Badge variant="secondary" className={`capitalize ${URGENCY_STYLES[request.urgency] || ''}`}>
+                      {request.urgency}
+                    </Badge>
+                    <Badge variant="secondary" className={TEMPLATE_REQUEST_STATUS_STYLES[status]}>
+                      {TEMPLATE_REQUEST_STATUS_LABELS[status] ?? request.status}
+                    </Badge>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="text-sm space-y-1">
+                  <p>{request.description}</p>
+                  {request.requirements && (
+                    <p className="text-gray-600"><strong>Requirements:</strong> {request.requirements}</p>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <Select
+                    value={draft.status}
+                    onValueChange={(value) => updateDraft(request, { status: value as TemplateRequestStatus })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(TEMPLATE_REQUEST_STATUS_LABELS) as TemplateRequestStatus[]).map(value => (
+                        <SelectItem key={value} value={value}>{TEMPLATE_REQUEST_STATUS_LABELS[value]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    value={draft.heygenTemplateId}
+                    onChange={(e) => updateDraft(request, { heygenTemplateId: e.target.value })}
+                    placeholder="HeyGen template ID"
+                  />
+                </div>
+                <Textarea
+                  value={draft.adminNotes}
+                  onChange={(e) => updateDraft(request, { adminNotes: e.target.value })}
+                  placeholder="Note for the requester (sent with the status update)"
+                  rows={2}
+                />
+                <div className="flex justify-end">
+                  <Button onClick={() => handleSave(request)} disabled={saving !== null || !drafts[request.id]}>
+                    {saving === request.id ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Save className="h-4 w-4 mr-2" />
+                    )}
+                    Save
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,302 @@
+import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { ArrowDown, ArrowUp, Loader2, Plus, Save, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { templateManager } from "@/api/template-manager";
+import {
+  TEMPLATE_VARIABLE_TYPES,
+  TEMPLATE_VARIABLE_TYPE_LABELS,
+} from "@/utils/templateVariables";
+
+interface VariableDraft {
+  id?: string;
+  variable_name: string;
+  variable_type: string;
+  char_limit: string;
+  is_required: boolean;
+  default_value: string;
+  description: string;
+}
+
+const emptyVariable = (): VariableDraft => ({
+  variable_name: '',
+  variable_type: 'text',
+  char_limit: '',
+  is_required: true,
+  default_value: '',
+  description: ''
+});
+
+export function TemplateVariableEditor() {
+  const { toast } = useToast();
+  const [templateId, setTemplateId] = useState("");
+  const [drafts, setDrafts] = useState<VariableDraft[]>([]);
+  const [removedIds, setRemovedIds] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  // Every template that is assigned somewhere or already has a schema
+  const { data: templates } = useQuery({
+    queryKey: ['admin-template-ids'],
+    queryFn: async () => {
+      const [{ data: assignments, error: assignmentsError }, { data: described, error: describedError }] = await Promise.all([
+        supabase.from('client_template_assignments').select('template_id, template_name'),
+        supabase.from('template_fallback_variables').select('template_id')
+      ]);
+
+      if (assignmentsError) throw assignmentsError;
+      if (describedError) throw describedError;
+
+      const names: Record<string, string> = {};
+      described.forEach(row => { names[row.template_id] ??= `Template ${row.template_id.slice(-8)}`; });
+      assignments.forEach(row => { names[row.template_id] = row.template_name || names[row.template_id] || `Template ${row.template_id.slice(-8)}`; });
+      return Object.entries(names).map(([id, name]) => ({ id, name }));
+    },
+  });
+
+  const { data: schema, isLoading, refetch } = useQuery({
+    queryKey: ['template-variable-schema', templateId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('template_fallback_variables')
+        .select('*')
+        .eq('template_id', templateId)
+        .order('variable_order');
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!templateId,
+  });
+
+  useEffect(() => {
+    setRemovedIds([]);
+    setDrafts((schema ?? []).map(row => ({
+      id: row.id,
+      variable_name: row.variable_name,
+      variable_type: row.variable_type,
+      char_limit: row.char_limit?.toString() ?? '',
+      is_required: row.is_required,
+      default_value: row.default_value ?? '',
+      description: row.description ?? ''
+    })));
+  }, [schema]);
+
+  const updateDraft = (index: number, update: Partial<VariableDraft>) => {
+    setDrafts(prev => prev.map((draft, i) => i === index ? { ...draft, ...update } : draft));
+  };
+
+  const moveDraft = (index: number, offset: number) => {
+    setDrafts(prev => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const removeDraft = (index: number) => {
+    const draft = drafts[index];
+    if (draft.id) setRemovedIds(prev => [...prev, draft.id as string]);
+    setDrafts(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSave = async () => {
+    const names = drafts.map(draft => draft.variable_name.trim());
+    const invalidName = names.find(name => !/^[a-z0-9_]+$/i.test(name));
+    if (invalidName !== undefined || new Set(names).size !== names.length) {
+      toast({
+        title: "Check Variable Names",
+        description: "Names must be unique and use only letters, numbers and underscores, matching the HeyGen template.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (removedIds.length > 0) {
+        const { error } = await supabase.from('template_fallback_variables').delete().in('id', removedIds);
+        if (error) throw error;
+      }
+
+      const rows = drafts.map((draft, index) => ({
+        template_id: templateId,
+        variable_name: draft.variable_name.trim(),
+        variable_order: index + 1,
+        variable_type: draft.variable_type,
+        char_limit: draft.char_limit ? parseInt(draft.char_limit, 10) : null,
+        is_required: draft.is_required,
+        default_value: draft.default_value.trim() || null,
+        description: draft.description.trim() || null
+      }));
+
+      for (const [index, row] of rows.entries()) {
+        const id = drafts[index].id;
+        const { error } = id
+          ? await supabase.from('template_fallback_variables').update(row).eq('id', id)
+          : await supabase.from('template_fallback_variables').insert(row);
+        if (error) throw error;
+      }
+
+      templateManager.clearCache(templateId);
+      await refetch();
+      toast({
+        title: "Schema Saved",
+        description: `${rows.length} variables saved. New videos use them right away.`,
+      });
+    } catch (error) {
+      console.error('Error saving template variables:', error);
+      toast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "Failed to save template variables",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium">Template Variables</h3>
+          <p className="text-sm text-muted-foreground">Define what each HeyGen template variable accepts</p>
+        </div>
+        <div className="w-72">
+          <Select value={templateId} onValueChange={setTemplateId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Choose a template" />
+            </SelectTrigger>
+            <SelectContent>
+              {templates?.map(template => (
+                <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {templateId && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Variables</CardTitle>
+            <CardDescription>
+              Values are checked against these rules in the editor and again before the video is submitted to HeyGen.
+              Empty values use the default.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin" />
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead className="w-36">Type</TableHead>
+                    <TableHead className="w-28">Char Limit</TableHead>
+                    <TableHead className="w-20">Required</TableHead>
+                    <TableHead>Default</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="w-32"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {drafts.map((draft, index) => (
+                    <TableRow key={draft.id ?? `new-${index}`}>
+                      <TableCell>
+                        <Input
+                          value={draft.variable_name}
+                          onChange={(e) => updateDraft(index, { variable_name: e.target.value })}
+                          placeholder="product_name"
+                          className="h-8"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Select value={draft.variable_type} onValueChange={(value) => updateDraft(index, { variable_type: value })}>
+                          <SelectTrigger className="h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {TEMPLATE_VARIABLE_TYPES.map(type => (
+                              <SelectItem key={type} value={type}>{TEMPLATE_VARIABLE_TYPE_LABELS[type]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={1}
+                          value={draft.char_limit}
+                          onChange={(e) => updateDraft(index, { char_limit: e.target.value })}
+                          placeholder="None"
+                          className="h-8"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={draft.is_required}
+                          onCheckedChange={(checked) => updateDraft(index, { is_required: checked })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          value={draft.default_value}
+                          onChange={(e) => updateDraft(index, { default_value: e.target.value })}
+                          className="h-8"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          value={draft.description}
+                          onChange={(e) => updateDraft(index, { description: e.target.value })}
+                          className="h-8"
+                        />
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button size="sm" variant="ghost" onClick={() => moveDraft(index, -1)} disabled={index === 0}>
+                          <ArrowUp className="h-3 w-3" />
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => moveDraft(index, 1)} disabled={index === drafts.length - 1}>
+                          <ArrowDown className="h-3 w-3" />
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => removeDraft(index)}>
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={() => setDrafts(prev => [...prev, emptyVariable()])}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Variable
+              </Button>
+              <Button onClick={handleSave} disabled={saving}>
+                {saving ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Save className="h-4 w-4 mr-2" />
+                )}
+                Save Schema
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
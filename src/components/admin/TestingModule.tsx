@@ -1,14 +1,17 @@
 
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/useWorkspace";
 import { supabase } from "@/integrations/supabase/client";
 import { Play, Check, X, AlertCircle, RotateCcw } from "lucide-react";
 import { SimpleTestButtons } from "../SimpleTestButtons";
 import { useYouTubeAuth } from '@/hooks/useYouTubeAuth';
+import { GenerationProgress } from "@/components/GenerationProgress";
+import { waitForGenerationJob, type GenerationJob } from "@/utils/generationJobs";
 
 interface TestStep {
   id: string;
@@ -17,8 +20,12 @@ interface TestStep {
   status: 'pending' | 'running' | 'success' | 'error';
   error?: string;
   duration?: number;
+  job?: GenerationJob;
 }
 
+// Used when the workspace has no product images to pick from
+const SAMPLE_IMAGE_URL = 'https://images.unsplash.com/photo-1505740420928-5e560c06d30e?w=400&h=400&fit=crop';
+
 const TEST_STEPS: Omit<TestStep, 'status'>[] = [
   {
     id: 'image-selection',
@@ -58,7 +65,10 @@ export function TestingModule() {
   );
   const [isRunning, setIsRunning] = useState(false);
   const [currentStep, setCurrentStep] = useState(0);
+  // What earlier steps produced, for the steps that build on them
+  const runContext = useRef<{ imageUrl: string; jobIds: string[] }>({ imageUrl: SAMPLE_IMAGE_URL, jobIds: [] });
   const { toast } = useToast();
+  const { currentWorkspace } = useWorkspace();
   const { 
     connect: connectYouTube, 
     disconnect: disconnectYouTube, 
@@ -76,17 +86,40 @@ export function TestingModule() {
     ));
   };
 
-  const simulateStep = async (step: TestStep, index: number): Promise<void> => {
+  const updateStepJob = (stepId: string, job: GenerationJob) => {
+    setTestSteps(prev => prev.map(step => step.id === stepId ? { ...step, job } : step));
+  };
+
+  // Follow a Runway job to the end, showing the progress the worker reports
+  const awaitGeneration = async (stepId: string, data?: { job_id?: string; error?: string }) => {
+    if (!data?.job_id) throw new Error(data?.error || 'No generation job was returned');
+    runContext.current.jobIds.push(data.job_id);
+
+    const job = await waitForGenerationJob(data.job_id, (update) => updateStepJob(stepId, update));
+    if (job.status === 'failed') {
+      throw new Error(job.error || 'Generation failed');
+    }
+    return job;
+  };
+
+  const runStep = async (step: TestStep): Promise<void> => {
     const startTime = Date.now();
     updateStepStatus(step.id, 'running');
     
     try {
-      // Simulate the actual test based on step
       switch (step.id) {
-        case 'image-selection':
-          // Simulate image selection - always pass
-          await new Promise(resolve => setTimeout(resolve, 1000));
+        case 'image-selection': {
+          const { data: products, error: productError } = await supabase
+            .from('inventory')
+            .select('images')
+            .eq('workspace_id', currentWorkspace?.id ?? '')
+            .not('images', 'eq', '{}')
+            .limit(1);
+          if (productError) throw new Error(productError.message);
+
+          runContext.current.imageUrl = products?.[0]?.images[0] || SAMPLE_IMAGE_URL;
           break;
+        }
           
         case 'instruction-cleaning':
           const { data: cleanData, error: cleanError } = await supabase.functions.invoke('openai-generate', {
@@ -96,7 +129,8 @@ export function TestingModule() {
               productInfo: {
                 name: 'Test Product',
                 description: 'Test description'
-              }
+              },
+              workspaceId: currentWorkspace?.id
             }
           });
           if (cleanError) throw new Error(cleanError.message);
@@ -111,10 +145,12 @@ export function TestingModule() {
               productInfo: {
                 name: 'Test Product',
                 description: 'Test description'
-              }
+              },
+              workspaceId: currentWorkspace?.id
             }
           });
           if (imageError) throw new Error(imageError.message);
+          await awaitGeneration(step.id, imageData);
           break;
           
         case 'video-generation':
@@ -122,14 +158,16 @@ export function TestingModule() {
             body: {
               type: 'video', 
               instruction: 'Test video generation',
-              imageUrl: 'https://images.unsplash.com/photo-1505740420928-5e560c06d30e?w=400&h=400&fit=crop',
+              imageUrl: runContext.current.imageUrl,
               productInfo: {
                 name: 'Test Product',
                 description: 'Test description'
-              }
+              },
+              workspaceId: currentWorkspace?.id
             }
           });
           if (videoError) throw new Error(videoError.message);
+          await awaitGeneration(step.id, videoData);
           break;
           
         case 'content-generation':
@@ -140,17 +178,28 @@ export function TestingModule() {
               productInfo: {
                 name: 'Test Product',
                 description: 'Test description'
-              }
+              },
+              workspaceId: currentWorkspace?.id
             }
           });
           if (contentError) throw new Error(contentError.message);
           if (!contentData.success) throw new Error(contentData.error);
           break;
           
-        case 'combo-generation':
-          // Test combo by running all three in sequence
-          await new Promise(resolve => setTimeout(resolve, 2000));
+        case 'combo-generation': {
+          // The image and video jobs above must have stored the assets they produced
+          const { data: jobs, error: jobsError } = await supabase
+            .from('generation_jobs')
+            .select('id, job_type, generated_asset_id')
+            .in('id', runContext.current.jobIds);
+          if (jobsError) throw new Error(jobsError.message);
+
+          const missing = (jobs || []).filter(job => !job.generated_asset_id);
+          if (!jobs?.length || missing.length > 0) {
+            throw new Error(`No stored asset for ${missing.map(job => job.job_type).join(', ') || 'the generation jobs'}`);
+          }
           break;
+        }
       }
       
       const duration = Date.now() - startTime;
@@ -166,6 +215,7 @@ export function TestingModule() {
   const runFullTest = async () => {
     setIsRunning(true);
     setCurrentStep(0);
+    runContext.current = { imageUrl: SAMPLE_IMAGE_URL, jobIds: [] };
     
     // Reset all steps
     setTestSteps(TEST_STEPS.map(step => ({ ...step, status: 'pending' as const })));
@@ -173,7 +223,7 @@ export function TestingModule() {
     try {
       for (let i = 0; i < testSteps.length; i++) {
         setCurrentStep(i);
-        await simulateStep(testSteps[i], i);
+        await runStep(testSteps[i]);
       }
       
       toast({
@@ -333,6 +383,11 @@ export function TestingModule() {
                     {step.error && (
                       <p className="text-sm text-red-600 mt-1">Error: {step.error}</p>
                     )}
+                    {step.status === 'running' && step.job && (
+                      <div className="mt-2 w-64">
+                        <GenerationProgress job={step.job} />
+                      </div>
+                    )}
                   </div>
                 </div>
                 
@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, RefreshCw, RotateCcw, Webhook } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { registerWebhook, replayWebhookEvent } from "@/utils/webhookHelper";
+
+const STATUS_STYLES: Record<string, string> = {
+  received: 'bg-blue-100 text-blue-800',
+  processed: 'bg-green-100 text-green-800',
+  ignored: 'bg-gray-100 text-gray-700',
+  failed: 'bg-red-100 text-red-800'
+};
+
+const EVENT_LIMIT = 100;
+
+export function WebhookEvents() {
+  const { toast } = useToast();
+  const [replaying, setReplaying] = useState<string | null>(null);
+  const [registering, setRegistering] = useState(false);
+
+  const { data: events, isLoading, isFetching, refetch } = useQuery({
+    queryKey: ['webhook-events'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('webhook_events')
+        .select('*')
+        .order('received_at', { ascending: false })
+        .limit(EVENT_LIMIT);
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const handleReplay = async (eventId: string, provider: string) => {
+    setReplaying(eventId);
+    const result = await replayWebhookEvent(eventId, provider);
+    setReplaying(null);
+
+    if (result?.success) {
+      toast({
+        title: "Event Replayed",
+        description: `Finished with status "${result.status}".`,
+      });
+    } else {
+      toast({
+        title: "Replay Failed",
+        description: result?.error || "Failed to replay webhook event",
+        variant: "destructive",
+      });
+    }
+    refetch();
+  };
+
+  const handleRegister = async () => {
+    setRegistering(true);
+    const result = await registerWebhook();
+    setRegistering(false);
+
+    if (result?.success) {
+      toast({
+        title: "Webhook Registered",
+        description: "HeyGen deliveries will now be signed and verified.",
+      });
+    } else {
+      toast({
+        title: "Registration Failed",
+        description: result?.error || "Failed to register webhook endpoint",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium">Webhook Events</h3>
+          <p className="text-sm text-muted-foreground">Signed HeyGen and Stripe deliveries and how they were processed</p>
+        </div>
+        <div className="flex space-x-2">
+          <Button variant="outline" onClick={handleRegister} disabled={registering}>
+            {registering ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Webhook className="h-4 w-4 mr-2" />
+            )}
+            Register Endpoint
+          </Button>
+          <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Events</CardTitle>
+          <CardDescription>
+            The latest {EVENT_LIMIT} events. Retried deliveries are recorded once.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : !events?.length ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No webhook events received yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Received</TableHead>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Attempts</TableHead>
+                  <TableHead>Details</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {events.map(event => (
+                  <TableRow key={event.id}>
+                    <TableCell className="whitespace-nowrap">{new Date(event.received_at).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <div className="font-medium">{event.event_type}</div>
+                      <div className="text-xs text-gray-500 capitalize">{event.provider}</div>
+                      <div className="text-xs text-gray-500 break-all">{event.event_key}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="secondary" className={`capitalize ${STATUS_STYLES[event.status] || ''}`}>
+                        {event.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{event.attempts}</TableCell>
+                    <TableCell className="text-sm text-gray-600 max-w-xs">{event.error}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleReplay(event.id, event.provider)}
+                        disabled={replaying !== null}
+                      >
+                        {replaying === event.id ? (
+                          <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                        ) : (
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                        )}
+                        Replay
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,257 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  startOfMonth,
+  startOfWeek
+} from "date-fns";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { CalendarDays, ChevronLeft, ChevronRight, Instagram, Loader2, Youtube } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/useWorkspace";
+import { supabase } from "@/integrations/supabase/client";
+import { POST_STATUS_STYLES, type ScheduledPost } from "@/utils/scheduledPosts";
+import { ScheduledPostDialog } from "./ScheduledPostDialog";
+
+type CalendarView = 'week' | 'month';
+
+const REFRESH_INTERVAL_MS = 30000;
+
+const platformIcons: Record<string, typeof Instagram> = {
+  instagram: Instagram,
+  youtube: Youtube
+};
+
+// Only posts that haven't gone out yet (or need another go) can be moved
+const isMovable = (post: ScheduledPost) => post.status === 'scheduled' || post.status === 'failed';
+
+function PostChip({ post, compact, draggable, onOpen }: {
+  post: ScheduledPost;
+  compact: boolean;
+  draggable: boolean;
+  onOpen: (post: ScheduledPost) => void;
+}) {
+  const Icon = platformIcons[post.platform];
+
+  return (
+    <button
+      type="button"
+      draggable={draggable}
+      onDragStart={(e) => {
+        e.dataTransfer.setData('text/plain', post.id);
+        e.dataTransfer.effectAllowed = 'move';
+      }}
+      onClick={() => onOpen(post)}
+      className={`w-full text-left rounded px-1.5 py-1 text-xs flex items-center gap-1 ${POST_STATUS_STYLES[post.status] || ''} ${draggable ? 'cursor-grab' : 'cursor-pointer'}`}
+    >
+      {Icon && <Icon className="h-3 w-3 flex-shrink-0" />}
+      <span className="font-medium">{format(new Date(post.publish_at), 'HH:mm')}</span>
+      {!compact && <span className="truncate">{post.title || post.caption}</span>}
+    </button>
+  );
+}
+
+export function ContentCalendar() {
+  const { toast } = useToast();
+  const { currentWorkspace, canEdit } = useWorkspace();
+  const [view, setView] = useState<CalendarView>('week');
+  const [anchor, setAnchor] = useState(new Date());
+  const [dragOverDay, setDragOverDay] = useState<string | null>(null);
+  const [openPost, setOpenPost] = useState<ScheduledPost | null>(null);
+
+  const days = useMemo(() => {
+    const start = view === 'week' ? startOfWeek(anchor) : startOfWeek(startOfMonth(anchor));
+    const end = view === 'week' ? endOfWeek(anchor) : endOfWeek(endOfMonth(anchor));
+    return eachDayOfInterval({ start, end });
+  }, [view, anchor]);
+
+  const rangeStart = days[0];
+  const rangeEnd = addDays(days[days.length - 1], 1);
+
+  const { data: posts, isLoading, refetch } = useQuery({
+    queryKey: ['scheduled-posts', currentWorkspace?.id, rangeStart.toISOString(), rangeEnd.toISOString()],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('scheduled_posts')
+        .select('*')
+        .eq('workspace_id', currentWorkspace!.id)
+        .gte('publish_at', rangeStart.toISOString())
+        .lt('publish_at', rangeEnd.toISOString())
+        .order('publish_at', { ascending: true });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!currentWorkspace,
+    refetchInterval: REFRESH_INTERVAL_MS,
+  });
+
+  const shift = (direction: 1 | -1) => {
+    setAnchor(prev => view === 'week' ? addWeeks(prev, direction) : addMonths(prev, direction));
+  };
+
+  // Dropping keeps the post's time of day and moves it to the target date
+  const handleDrop = async (day: Date, postId: string) => {
+    setDragOverDay(null);
+    const post = posts?.find(p => p.id === postId);
+    if (!post || !isMovable(post)) return;
+
+    const current = new Date(post.publish_at);
+    if (isSameDay(current, day)) return;
+
+    const target = new Date(day);
+    target.setHours(current.getHours(), current.getMinutes(), 0, 0);
+    if (target <= new Date()) {
+      toast({
+        title: "Cannot Move Post",
+        description: "Posts can only be moved to a time in the future.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const { error } = await supabase
+      .from('scheduled_posts')
+      .update({
+        publish_at: target.toISOString(),
+        status: 'scheduled',
+        attempts: 0,
+        next_attempt_at: null,
+        last_error: null
+      })
+      .eq('id', post.id);
+
+    if (error) {
+      toast({
+        title: "Move Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Post Rescheduled",
+      description: `Moved to ${target.toLocaleString()}`,
+    });
+    refetch();
+  };
+
+  if (!currentWorkspace) {
+    return (
+      <div className="text-center py-12 text-muted-foreground">
+        Select a workspace to see its content calendar.
+      </div>
+    );
+  }
+
+  const title = view === 'week'
+    ? `${format(days[0], 'MMM d')} – ${format(days[days.length - 1], 'MMM d, yyyy')}`
+    : format(anchor, 'MMMM yyyy');
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold flex items-center gap-2">
+            <CalendarDays className="h-6 w-6" />
+            Content Calendar
+          </h2>
+          <p className="text-muted-foreground">
+            Scheduled posts for {currentWorkspace.name}. {canEdit && 'Drag a post to another day to reschedule it.'}
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Button variant={view === 'week' ? 'default' : 'outline'} size="sm" onClick={() => setView('week')}>
+            Week
+          </Button>
+          <Button variant={view === 'month' ? 'default' : 'outline'} size="sm" onClick={() => setView('month')}>
+            Month
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Button variant="outline" size="icon" onClick={() => shift(-1)}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setAnchor(new Date())}>
+            Today
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => shift(1)}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <span className="font-medium ml-2">{title}</span>
+        </div>
+        {isLoading && <Loader2 className="h-4 w-4 animate-spin" />}
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <div className="grid grid-cols-7 border-b">
+            {days.slice(0, 7).map(day => (
+              <div key={day.toISOString()} className="p-2 text-xs font-medium text-muted-foreground text-center">
+                {format(day, 'EEE')}
+              </div>
+            ))}
+          </div>
+          <div className="grid grid-cols-7">
+            {days.map(day => {
+              const key = day.toISOString();
+              const dayPosts = (posts || []).filter(post => isSameDay(new Date(post.publish_at), day));
+              const isToday = isSameDay(day, new Date());
+              const isOutside = view === 'month' && !isSameMonth(day, anchor);
+
+              return (
+                <div
+                  key={key}
+                  onDragOver={(e) => {
+                    if (!canEdit) return;
+                    e.preventDefault();
+                    setDragOverDay(key);
+                  }}
+                  onDragLeave={() => setDragOverDay(prev => (prev === key ? null : prev))}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    handleDrop(day, e.dataTransfer.getData('text/plain'));
+                  }}
+                  className={`border-r border-b p-1.5 space-y-1 ${view === 'week' ? 'min-h-[320px]' : 'min-h-[110px]'} ${isOutside ? 'bg-gray-50' : ''} ${dragOverDay === key ? 'bg-blue-50' : ''}`}
+                >
+                  <div className={`text-xs font-medium ${isToday ? 'text-blue-600' : isOutside ? 'text-gray-400' : ''}`}>
+                    {format(day, view === 'week' ? 'MMM d' : 'd')}
+                  </div>
+                  {dayPosts.map(post => (
+                    <PostChip
+                      key={post.id}
+                      post={post}
+                      compact={view === 'month'}
+                      draggable={canEdit && isMovable(post)}
+                      onOpen={setOpenPost}
+                    />
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        </CardContent>
+      </Card>
+
+      <ScheduledPostDialog
+        post={openPost}
+        canEdit={canEdit}
+        onClose={() => setOpenPost(null)}
+        onSaved={() => refetch()}
+      />
+    </div>
+  );
+}
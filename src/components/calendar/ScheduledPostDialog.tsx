@@ -0,0 +1,178 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { ExternalLink, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { POST_STATUS_STYLES, toDateTimeLocal, type ScheduledPost } from "@/utils/scheduledPosts";
+
+interface ScheduledPostDialogProps {
+  post: ScheduledPost | null;
+  canEdit: boolean;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+export function ScheduledPostDialog({ post, canEdit, onClose, onSaved }: ScheduledPostDialogProps) {
+  const { toast } = useToast();
+  const [caption, setCaption] = useState('');
+  const [title, setTitle] = useState('');
+  const [publishAt, setPublishAt] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (post) {
+      setCaption(post.caption);
+      setTitle(post.title || '');
+      setPublishAt(toDateTimeLocal(new Date(post.publish_at)));
+    }
+  }, [post]);
+
+  if (!post) return null;
+
+  const isEditable = canEdit && (post.status === 'scheduled' || post.status === 'failed');
+
+  const updatePost = async (changes: Partial<ScheduledPost>, successMessage: string) => {
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from('scheduled_posts')
+        .update(changes)
+        .eq('id', post.id);
+
+      if (error) throw error;
+
+      toast({ title: "Post Updated", description: successMessage });
+      onSaved();
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Update Failed",
+        description: error.message || "Failed to update scheduled post",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    const date = new Date(publishAt);
+    if (Number.isNaN(date.getTime()) || date <= new Date()) {
+      toast({
+        title: "Invalid Time",
+        description: "Pick a time in the future.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Saving a failed post puts it back in the queue with a fresh set of attempts
+    updatePost({
+      caption,
+      title: title || null,
+      publish_at: date.toISOString(),
+      status: 'scheduled',
+      attempts: 0,
+      next_attempt_at: null,
+      last_error: null
+    }, `Scheduled for ${date.toLocaleString()}`);
+  };
+
+  return (
+    <Dialog open={!!post} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 capitalize">
+            {post.platform} post
+            <Badge variant="secondary" className={`capitalize ${POST_STATUS_STYLES[post.status] || ''}`}>
+              {post.status}
+            </Badge>
+          </DialogTitle>
+          <DialogDescription>
+            {post.published_at
+              ? `Published ${new Date(post.published_at).toLocaleString()}`
+              : `Publishes ${new Date(post.publish_at).toLocaleString()}`}
+            {post.attempts > 0 && ` · ${post.attempts} attempt${post.attempts === 1 ? '' : 's'}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="w-full h-40 bg-gray-100 rounded overflow-hidden">
+            {post.asset_type === 'video' ? (
+              <video src={post.asset_url} className="w-full h-full object-contain" muted controls />
+            ) : (
+              <img src={post.asset_url} alt="" className="w-full h-full object-contain" />
+            )}
+          </div>
+
+          {post.last_error && (
+            <div className="text-sm text-red-700 bg-red-50 p-2 rounded">{post.last_error}</div>
+          )}
+
+          {post.platform === 'youtube' && (
+            <div className="space-y-1">
+              <Label htmlFor="post-title">Title</Label>
+              <Input id="post-title" value={title} onChange={(e) => setTitle(e.target.value)} disabled={!isEditable} />
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <Label htmlFor="post-caption">Caption</Label>
+            <Textarea
+              id="post-caption"
+              value={caption}
+              onChange={(e) => setCaption(e.target.value)}
+              className="min-h-[100px]"
+              disabled={!isEditable}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="post-publish-at">Publish at</Label>
+            <Input
+              id="post-publish-at"
+              type="datetime-local"
+              value={publishAt}
+              min={toDateTimeLocal(new Date())}
+              onChange={(e) => setPublishAt(e.target.value)}
+              disabled={!isEditable}
+            />
+          </div>
+
+          {post.platform_url && (
+            <a
+              href={post.platform_url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-blue-600 hover:text-blue-800 text-sm flex items-center gap-1"
+            >
+              View on {post.platform}
+              <ExternalLink className="h-3 w-3" />
+            </a>
+          )}
+        </div>
+
+        {isEditable && (
+          <DialogFooter className="gap-2">
+            <Button
+              variant="outline"
+              onClick={() => updatePost({ status: 'cancelled', next_attempt_at: null }, 'The post will not be published.')}
+              disabled={isSaving}
+            >
+              Cancel Post
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {post.status === 'failed' ? 'Reschedule' : 'Save'}
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
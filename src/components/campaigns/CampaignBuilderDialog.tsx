@@ -0,0 +1,260 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Plus, Rocket, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/useWorkspace";
+import { supabase } from "@/integrations/supabase/client";
+import { CHANNELS, ASSET_TYPES, TYPE_OPTIONS, SPECIFICATIONS } from "@/components/inventory/assetOptions";
+
+interface CampaignCombination {
+  channel: string;
+  asset_type: 'image' | 'video' | 'content' | 'ad';
+  format: string;
+  specification?: string;
+}
+
+interface CampaignBuilderDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Explicit selection wins; otherwise the campaign covers every product matching the filter
+  productIds: string[];
+  productFilter: {
+    search?: string;
+    category?: string;
+  };
+  productCount: number;
+  onCreated?: (campaignId: string) => void;
+}
+
+const getTypeOptions = (channel: string, assetType: string): string[] => {
+  const key = `${channel}-${assetType}` as keyof typeof TYPE_OPTIONS;
+  return TYPE_OPTIONS[key] || [];
+};
+
+export function CampaignBuilderDialog({
+  isOpen,
+  onClose,
+  productIds,
+  productFilter,
+  productCount,
+  onCreated
+}: CampaignBuilderDialogProps) {
+  const { toast } = useToast();
+  const { currentWorkspace, canEdit } = useWorkspace();
+  const [name, setName] = useState("");
+  const [instruction, setInstruction] = useState("");
+  const [channel, setChannel] = useState("instagram");
+  const [assetType, setAssetType] = useState<CampaignCombination['asset_type']>("image");
+  const [format, setFormat] = useState(getTypeOptions("instagram", "image")[0] || "");
+  const [combinations, setCombinations] = useState<CampaignCombination[]>([]);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const typeOptions = getTypeOptions(channel, assetType);
+  const totalItems = productCount * combinations.length;
+
+  const handleChannelChange = (value: string) => {
+    setChannel(value);
+    setFormat(getTypeOptions(value, assetType)[0] || "");
+  };
+
+  const handleAssetTypeChange = (value: CampaignCombination['asset_type']) => {
+    setAssetType(value);
+    setFormat(getTypeOptions(channel, value)[0] || "");
+  };
+
+  const handleAddCombination = () => {
+    if (!format) return;
+
+    const exists = combinations.some(c => c.channel === channel && c.asset_type === assetType && c.format === format);
+    if (exists) {
+      toast({
+        title: "Already Added",
+        description: `${format} for ${channel} is already part of this campaign.`,
+      });
+      return;
+    }
+
+    setCombinations(prev => [...prev, {
+      channel,
+      asset_type: assetType,
+      format,
+      specification: SPECIFICATIONS[format as keyof typeof SPECIFICATIONS] || undefined
+    }]);
+  };
+
+  const handleRemoveCombination = (index: number) => {
+    setCombinations(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleClose = () => {
+    setName("");
+    setInstruction("");
+    setCombinations([]);
+    onClose();
+  };
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('campaign-manager', {
+        body: {
+          action: 'create',
+          workspaceId: currentWorkspace?.id,
+          name,
+          instruction,
+          productIds: productIds.length > 0 ? productIds : undefined,
+          productFilter: productIds.length > 0 ? undefined : productFilter,
+          combinations
+        }
+      });
+
+      if (error) throw new Error(error.message);
+      if (!data.success) throw new Error(data.error || 'Failed to create campaign');
+
+      toast({
+        title: "Campaign Queued",
+        description: `${data.total_items} assets will be generated in the background.`,
+      });
+
+      onCreated?.(data.campaign_id);
+      handleClose();
+    } catch (error) {
+      console.error('Error creating campaign:', error);
+      toast({
+        title: "Campaign Failed",
+        description: error.message || "Failed to create campaign",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Rocket className="h-5 w-5" />
+            <span>New Campaign</span>
+          </DialogTitle>
+          <DialogDescription>
+            {productIds.length > 0
+              ? `Generate assets for the ${productCount} selected product${productCount === 1 ? '' : 's'}.`
+              : `Generate assets for all ${productCount} product${productCount === 1 ? '' : 's'} matching the current filter.`
+            } Items are generated server-side, so you can close this window.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="campaign-name">Campaign Name</Label>
+            <Input
+              id="campaign-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Weekly drop"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="campaign-instruction">Creative Brief (optional)</Label>
+            <Textarea
+              id="campaign-instruction"
+              value={instruction}
+              onChange={(e) => setInstruction(e.target.value)}
+              placeholder="Shared direction applied to every product and format"
+              rows={3}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Channels & Formats</Label>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Select value={channel} onValueChange={handleChannelChange}>
+                <SelectTrigger className="sm:w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CHANNELS.map(c => (
+                    <SelectItem key={c.value} value={c.value}>{c.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={assetType} onValueChange={(value) => handleAssetTypeChange(value as CampaignCombination['asset_type'])}>
+                <SelectTrigger className="sm:w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ASSET_TYPES.map(t => (
+                    <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={format} onValueChange={setFormat} disabled={typeOptions.length === 0}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder="No formats available" />
+                </SelectTrigger>
+                <SelectContent>
+                  {typeOptions.map(option => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" onClick={handleAddCombination} disabled={!format}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add
+              </Button>
+            </div>
+
+            {combinations.length > 0 ? (
+              <div className="flex flex-wrap gap-2 pt-2">
+                {combinations.map((combination, index) => (
+                  <Badge key={`${combination.channel}-${combination.asset_type}-${combination.format}`} variant="secondary" className="flex items-center space-x-1">
+                    <span>
+                      {CHANNELS.find(c => c.value === combination.channel)?.label || combination.channel} · {combination.format}
+                    </span>
+                    <button onClick={() => handleRemoveCombination(index)} className="ml-1">
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">Add at least one channel and format.</p>
+            )}
+          </div>
+
+          <div className="p-3 bg-blue-50 rounded-lg text-sm">
+            {productCount} product{productCount === 1 ? '' : 's'} × {combinations.length} format{combinations.length === 1 ? '' : 's'} = <strong>{totalItems}</strong> asset{totalItems === 1 ? '' : 's'}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleCreate}
+            disabled={isCreating || !canEdit || !name.trim() || combinations.length === 0 || productCount === 0}
+          >
+            {isCreating ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Queueing...
+              </>
+            ) : (
+              'Start Campaign'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
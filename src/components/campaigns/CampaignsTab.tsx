@@ -0,0 +1,389 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { ArrowLeft, Download, ExternalLink, Loader2, RefreshCw, Rocket } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/useWorkspace";
+import { supabase } from "@/integrations/supabase/client";
+import { CHANNELS } from "@/components/inventory/assetOptions";
+
+interface CampaignReport {
+  total: number;
+  succeeded: number;
+  failed: number;
+  by_channel: Record<string, { succeeded: number; failed: number }>;
+  by_asset_type: Record<string, { succeeded: number; failed: number }>;
+  failures: { item_id: string; product?: string; channel: string; format: string; error: string | null }[];
+  generated_at: string;
+}
+
+interface CampaignSummary {
+  id: string;
+  name: string;
+  status: string;
+  total_items: number;
+  created_at: string;
+  completed_at: string | null;
+  report: CampaignReport | null;
+  campaign_items: { status: string }[];
+}
+
+interface CampaignItem {
+  id: string;
+  channel: string;
+  asset_type: string;
+  format: string;
+  status: string;
+  result_url: string | null;
+  content: string | null;
+  error: string | null;
+  attempts: number;
+  inventory: { name: string; sku: string | null } | null;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  running: 'bg-blue-100 text-blue-800',
+  succeeded: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  completed: 'bg-green-100 text-green-800'
+};
+
+const REFRESH_INTERVAL_MS = 15000;
+
+const channelLabel = (channel: string) => CHANNELS.find(c => c.value === channel)?.label || channel;
+
+const countStatuses = (items: { status: string }[]) => ({
+  succeeded: items.filter(i => i.status === 'succeeded').length,
+  failed: items.filter(i => i.status === 'failed').length,
+  open: items.filter(i => i.status === 'pending' || i.status === 'running').length
+});
+
+function StatusBadge({ status }: { status: string }) {
+  return (
+    <Badge variant="secondary" className={`capitalize ${STATUS_STYLES[status] || ''}`}>
+      {status}
+    </Badge>
+  );
+}
+
+function CampaignReportCard({ report }: { report: CampaignReport }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Campaign Report</CardTitle>
+        <CardDescription>
+          Generated {new Date(report.generated_at).toLocaleString()}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-4 text-center">
+          <div>
+            <div className="text-2xl font-semibold">{report.total}</div>
+            <div className="text-sm text-gray-500">Total</div>
+          </div>
+          <div>
+            <div className="text-2xl font-semibold text-green-600">{report.succeeded}</div>
+            <div className="text-sm text-gray-500">Succeeded</div>
+          </div>
+          <div>
+            <div className="text-2xl font-semibold text-red-600">{report.failed}</div>
+            <div className="text-sm text-gray-500">Failed</div>
+          </div>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Channel</TableHead>
+              <TableHead className="text-right">Succeeded</TableHead>
+              <TableHead className="text-right">Failed</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {Object.entries(report.by_channel).map(([channel, counts]) => (
+              <TableRow key={channel}>
+                <TableCell>{channelLabel(channel)}</TableCell>
+                <TableCell className="text-right">{counts.succeeded}</TableCell>
+                <TableCell className="text-right">{counts.failed}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
+
+function CampaignDetails({ campaign, onBack }: { campaign: CampaignSummary; onBack: () => void }) {
+  const { toast } = useToast();
+  const { currentWorkspace, canEdit } = useWorkspace();
+  const [retrying, setRetrying] = useState<string | null>(null);
+
+  const { data: items, isLoading, refetch } = useQuery({
+    queryKey: ['campaign-items', campaign.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('campaign_items')
+        .select('id, channel, asset_type, format, status, result_url, content, error, attempts, inventory(name, sku)')
+        .eq('campaign_id', campaign.id)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data as CampaignItem[];
+    },
+    refetchInterval: campaign.status === 'running' ? REFRESH_INTERVAL_MS : false,
+  });
+
+  const counts = countStatuses(items || []);
+
+  const handleRetry = async (itemIds?: string[]) => {
+    setRetrying(itemIds?.[0] ?? 'all');
+    try {
+      const { data, error } = await supabase.functions.invoke('campaign-manager', {
+        body: {
+          action: 'retry',
+          workspaceId: currentWorkspace?.id,
+          campaignId: campaign.id,
+          itemIds
+        }
+      });
+
+      if (error) throw new Error(error.message);
+      if (!data.success) throw new Error(data.error || 'Failed to retry items');
+
+      toast({
+        title: "Retry Queued",
+        description: `${data.retried} item${data.retried === 1 ? '' : 's'} will be generated again.`,
+      });
+      refetch();
+    } catch (error) {
+      toast({
+        title: "Retry Failed",
+        description: error.message || "Failed to retry items",
+        variant: "destructive",
+      });
+    } finally {
+      setRetrying(null);
+    }
+  };
+
+  const handleDownloadCsv = () => {
+    const escape = (value: string | number | null | undefined) => `"${String(value ?? '').replace(/"/g, '""')}"`;
+    const rows = [
+      ['Product', 'SKU', 'Channel', 'Asset Type', 'Format', 'Status', 'Result', 'Error'],
+      ...(items || []).map(item => [
+        item.inventory?.name,
+        item.inventory?.sku,
+        channelLabel(item.channel),
+        item.asset_type,
+        item.format,
+        item.status,
+        item.result_url || item.content,
+        item.error
+      ])
+    ];
+
+    const csv = rows.map(row => row.map(escape).join(',')).join('\n');
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${campaign.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}-report.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <Button variant="ghost" onClick={onBack} className="flex items-center space-x-2">
+          <ArrowLeft className="h-4 w-4" />
+          <span>All Campaigns</span>
+        </Button>
+        <div className="flex space-x-2">
+          <Button variant="outline" onClick={handleDownloadCsv} disabled={!items?.length}>
+            <Download className="h-4 w-4 mr-2" />
+            Download CSV
+          </Button>
+          {canEdit && counts.failed > 0 && (
+            <Button onClick={() => handleRetry()} disabled={retrying !== null}>
+              {retrying === 'all' ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <RefreshCw className="h-4 w-4 mr-2" />
+              )}
+              Retry {counts.failed} Failed
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span>{campaign.name}</span>
+            <StatusBadge status={campaign.status} />
+          </CardTitle>
+          <CardDescription>
+            {counts.succeeded} succeeded · {counts.failed} failed · {counts.open} in progress
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Channel</TableHead>
+                  <TableHead>Format</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Result</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {(items || []).map(item => (
+                  <TableRow key={item.id}>
+                    <TableCell className="font-medium">{item.inventory?.name || 'Deleted product'}</TableCell>
+                    <TableCell>{channelLabel(item.channel)}</TableCell>
+                    <TableCell>
+                      <div>{item.format}</div>
+                      <div className="text-xs text-gray-500 capitalize">{item.asset_type}</div>
+                    </TableCell>
+                    <TableCell><StatusBadge status={item.status} /></TableCell>
+                    <TableCell className="max-w-xs">
+                      {item.result_url ? (
+                        <a href={item.result_url} target="_blank" rel="noopener noreferrer" className="flex items-center text-blue-600 hover:underline">
+                          <ExternalLink className="h-3 w-3 mr-1" />
+                          View
+                        </a>
+                      ) : item.content ? (
+                        <p className="text-sm text-gray-600 line-clamp-2">{item.content}</p>
+                      ) : item.error ? (
+                        <p className="text-sm text-red-600 line-clamp-2">{item.error}</p>
+                      ) : null}
+                    </TableCell>
+                    <TableCell>
+                      {canEdit && item.status === 'failed' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRetry([item.id])}
+                          disabled={retrying !== null}
+                        >
+                          {retrying === item.id ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <RefreshCw className="h-4 w-4" />
+                          )}
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {campaign.status === 'completed' && campaign.report && (
+        <CampaignReportCard report={campaign.report} />
+      )}
+    </div>
+  );
+}
+
+export function CampaignsTab() {
+  const { currentWorkspace } = useWorkspace();
+  const [selectedCampaignId, setSelectedCampaignId] = useState<string | null>(null);
+
+  const { data: campaigns, isLoading } = useQuery({
+    queryKey: ['campaigns', currentWorkspace?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('campaigns')
+        .select('id, name, status, total_items, created_at, completed_at, report, campaign_items(status)')
+        .eq('workspace_id', currentWorkspace!.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data as unknown as CampaignSummary[];
+    },
+    enabled: !!currentWorkspace,
+    refetchInterval: (query) =>
+      query.state.data?.some(campaign => campaign.status === 'running') ? REFRESH_INTERVAL_MS : false,
+  });
+
+  const selectedCampaign = campaigns?.find(c => c.id === selectedCampaignId);
+  if (selectedCampaign) {
+    return <CampaignDetails campaign={selectedCampaign} onBack={() => setSelectedCampaignId(null)} />;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Rocket className="h-5 w-5" />
+          <span>Campaigns</span>
+        </CardTitle>
+        <CardDescription>
+          Bulk generations across products and channels. Start one from the product generator.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : campaigns && campaigns.length > 0 ? (
+          <div className="space-y-3">
+            {campaigns.map(campaign => {
+              const counts = countStatuses(campaign.campaign_items);
+              const done = counts.succeeded + counts.failed;
+              const total = campaign.campaign_items.length || campaign.total_items;
+
+              return (
+                <button
+                  key={campaign.id}
+                  onClick={() => setSelectedCampaignId(campaign.id)}
+                  className="w-full text-left p-4 border rounded-lg hover:bg-gray-50 transition-colors space-y-2"
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">{campaign.name}</span>
+                    <StatusBadge status={campaign.status} />
+                  </div>
+                  <Progress value={total > 0 ? (done / total) * 100 : 0} />
+                  <div className="flex justify-between text-sm text-gray-500">
+                    <span>
+                      {done}/{total} done{counts.failed > 0 ? ` · ${counts.failed} failed` : ''}
+                    </span>
+                    <span>{new Date(campaign.created_at).toLocaleDateString()}</span>
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="text-center py-12">
+            <Rocket className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No campaigns yet</h3>
+            <p className="text-gray-500">
+              Select products in the product generator and choose "New Campaign".
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
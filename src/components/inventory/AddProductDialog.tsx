@@ -9,6 +9,7 @@ import { Badge } from "@/components/ui/badge";
 import { X, Plus, Upload } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/useWorkspace";
 
 interface InventoryItem {
   id: string;
@@ -41,6 +42,7 @@ export function AddProductDialog({
   onEditComplete 
 }: AddProductDialogProps) {
   const { toast } = useToast();
+  const { currentWorkspace } = useWorkspace();
   const [loading, setLoading] = useState(false);
   const [formData, setFormData] = useState({
     name: "",
@@ -120,6 +122,7 @@ export function AddProductDialog({
         brand: formData.brand.trim() || null,
         images: formData.images,
         updated_at: new Date().toISOString(),
+        workspace_id: currentWorkspace?.id,
       };
 
       if (editProduct) {
@@ -5,10 +5,15 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
-import { Search, Package, Image, Video, FileText, Megaphone, CheckSquare, X, Clapperboard } from "lucide-react";
+import { Search, Package, Image, Video, FileText, Megaphone, CheckSquare, X, Clapperboard, Rocket, BarChart3 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/useWorkspace";
+import { useView } from "@/contexts/ViewContext";
 import { UnifiedAssetGenerator } from "./UnifiedAssetGenerator";
+import { CampaignBuilderDialog } from "@/components/campaigns/CampaignBuilderDialog";
+import { PublicationPerformance } from "@/components/PublicationPerformance";
+import { BulkTemplateVideoDialog } from "@/components/video-template/BulkTemplateVideoDialog";
 
 interface InventoryItem {
   id: string;
@@ -31,19 +36,24 @@ interface EnhancedInventoryManagerProps {
 
 export function EnhancedInventoryManager({ onVideoTemplateClick }: EnhancedInventoryManagerProps) {
   const { toast } = useToast();
+  const { currentWorkspace, canEdit } = useWorkspace();
+  const { setActiveTab } = useView();
   const [searchTerm, setSearchTerm] = useState("");
   const [categoryFilter, setCategoryFilter] = useState("");
   const [selectedProducts, setSelectedProducts] = useState<string[]>([]);
   const [showGenerator, setShowGenerator] = useState(false);
   const [selectedAssetType, setSelectedAssetType] = useState<'image' | 'video' | 'content' | 'ad'>('image');
+  const [showCampaignBuilder, setShowCampaignBuilder] = useState(false);
+  const [showBulkVideo, setShowBulkVideo] = useState(false);
 
   // Fetch inventory items
   const { data: inventory, isLoading, refetch } = useQuery({
-    queryKey: ['enhanced-inventory', searchTerm, categoryFilter],
+    queryKey: ['enhanced-inventory', searchTerm, categoryFilter, currentWorkspace?.id],
     queryFn: async () => {
       let query = supabase
         .from('inventory')
         .select('*')
+        .eq('workspace_id', currentWorkspace!.id)
         .eq('status', 'active')
         .order('created_at', { ascending: false });
 
@@ -64,15 +74,17 @@ export function EnhancedInventoryManager({ onVideoTemplateClick }: EnhancedInven
       
       return data as InventoryItem[];
     },
+    enabled: !!currentWorkspace,
   });
 
   // Get unique categories for filter
   const { data: categories } = useQuery({
-    queryKey: ['inventory-categories'],
+    queryKey: ['inventory-categories', currentWorkspace?.id],
     queryFn: async () => {
       const { data, error } = await supabase
         .from('inventory')
         .select('category')
+        .eq('workspace_id', currentWorkspace!.id)
         .not('category', 'is', null)
         .eq('status', 'active');
       
@@ -81,6 +93,7 @@ export function EnhancedInventoryManager({ onVideoTemplateClick }: EnhancedInven
       const uniqueCategories = [...new Set(data.map(item => item.category))].filter(Boolean);
       return uniqueCategories;
     },
+    enabled: !!currentWorkspace,
   });
 
   // Clear selections when filters change
@@ -134,6 +147,8 @@ export function EnhancedInventoryManager({ onVideoTemplateClick }: EnhancedInven
       if (product && onVideoTemplateClick) {
         onVideoTemplateClick(product);
       }
+    } else if (selectedProducts.length > 1) {
+      setShowBulkVideo(true);
     } else if (selectedProducts.length > 0) {
       const product = filteredInventory.find(p => p.id === selectedProducts[0]);
       if (product && onVideoTemplateClick) {
@@ -267,6 +282,17 @@ export function EnhancedInventoryManager({ onVideoTemplateClick }: EnhancedInven
               <Megaphone className="h-4 w-4" />
               <span className="hidden sm:inline">Ad</span>
             </Button>
+
+            <PublicationPerformance title={product.name} inventoryId={product.id}>
+              <Button
+                variant="outline"
+                size="sm"
+                className="flex items-center space-x-1"
+              >
+                <BarChart3 className="h-4 w-4" />
+                <span className="hidden sm:inline">Performance</span>
+              </Button>
+            </PublicationPerformance>
           </div>
         </div>
       </div>
@@ -334,6 +360,18 @@ export function EnhancedInventoryManager({ onVideoTemplateClick }: EnhancedInven
                 {selectedProducts.length === filteredInventory.length ? 'Deselect All' : 'Select All'}
               </span>
             </Button>
+
+            {canEdit && (
+              <Button
+                variant="outline"
+                onClick={() => setShowCampaignBuilder(true)}
+                disabled={filteredInventory.length === 0}
+                className="flex items-center space-x-2"
+              >
+                <Rocket className="h-4 w-4" />
+                <span>New Campaign</span>
+              </Button>
+            )}
           </div>
 
           {/* Multi-Product Generation Buttons */}
@@ -435,6 +473,23 @@ export function EnhancedInventoryManager({ onVideoTemplateClick }: EnhancedInven
         selectedProducts={selectedProductsData}
         initialAssetType={selectedAssetType}
       />
+
+      {/* Bulk campaign over the selection, or the whole filter when nothing is selected */}
+      <CampaignBuilderDialog
+        isOpen={showCampaignBuilder}
+        onClose={() => setShowCampaignBuilder(false)}
+        productIds={selectedProducts}
+        productFilter={{ search: searchTerm || undefined, category: categoryFilter || undefined }}
+        productCount={selectedProducts.length || filteredInventory.length}
+        onCreated={() => setActiveTab('campaigns')}
+      />
+
+      {/* One HeyGen template video per selected product */}
+      <BulkTemplateVideoDialog
+        isOpen={showBulkVideo}
+        onClose={() => setShowBulkVideo(false)}
+        products={selectedProductsData}
+      />
     </div>
   );
 }
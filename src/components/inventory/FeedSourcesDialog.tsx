@@ -0,0 +1,421 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { ArrowLeft, Edit, History, Loader2, Plus, RefreshCw, Rss, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/useWorkspace";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  FEED_FIELDS,
+  FEED_MAPPING_PRESETS,
+  FEED_SCHEDULE_LABELS,
+  SYNC_STATUS_STYLES,
+  syncFeedSource,
+  type FeedFormat,
+  type FeedSchedule,
+  type FeedSource
+} from "@/utils/feedSources";
+import { FeedSyncHistory } from "./FeedSyncHistory";
+
+interface FeedSourcesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSynced: () => void;
+}
+
+interface FeedForm {
+  name: string;
+  url: string;
+  format: FeedFormat;
+  schedule: FeedSchedule;
+  isActive: boolean;
+  fieldMapping: Record<string, string>;
+}
+
+const emptyForm: FeedForm = {
+  name: '',
+  url: '',
+  format: 'csv',
+  schedule: 'daily',
+  isActive: true,
+  fieldMapping: {}
+};
+
+type View = { mode: 'list' } | { mode: 'edit'; feed: FeedSource | null } | { mode: 'history'; feed: FeedSource };
+
+export function FeedSourcesDialog({ open, onOpenChange, onSynced }: FeedSourcesDialogProps) {
+  const { toast } = useToast();
+  const { currentWorkspace, canEdit } = useWorkspace();
+  const [view, setView] = useState<View>({ mode: 'list' });
+  const [form, setForm] = useState<FeedForm>(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+  const [syncing, setSyncing] = useState<string | null>(null);
+
+  const { data: feeds, isLoading, refetch } = useQuery({
+    queryKey: ['feed-sources', currentWorkspace?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('feed_sources')
+        .select('*')
+        .eq('workspace_id', currentWorkspace!.id)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: open && !!currentWorkspace,
+  });
+
+  const openEditor = (feed: FeedSource | null) => {
+    setForm(feed ? {
+      name: feed.name,
+      url: feed.url,
+      format: feed.format as FeedFormat,
+      schedule: feed.schedule as FeedSchedule,
+      isActive: feed.is_active,
+      fieldMapping: (feed.field_mapping as Record<string, string>) || {}
+    } : emptyForm);
+    setView({ mode: 'edit', feed });
+  };
+
+  const setMapping = (field: string, column: string) => {
+    setForm(prev => {
+      const fieldMapping = { ...prev.fieldMapping };
+      if (column.trim()) {
+        fieldMapping[field] = column;
+      } else {
+        delete fieldMapping[field];
+      }
+      return { ...prev, fieldMapping };
+    });
+  };
+
+  const handleSave = async () => {
+    if (view.mode !== 'edit' || !currentWorkspace) return;
+
+    if (!form.name.trim() || !/^https?:\/\//.test(form.url.trim())) {
+      toast({
+        title: "Error",
+        description: "Enter a name and an http(s) feed URL.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const values = {
+        name: form.name.trim(),
+        url: form.url.trim(),
+        format: form.format,
+        schedule: form.schedule,
+        is_active: form.isActive,
+        field_mapping: form.fieldMapping
+      };
+
+      const { error } = view.feed
+        ? await supabase.from('feed_sources').update(values).eq('id', view.feed.id)
+        : await supabase.from('feed_sources').insert({ ...values, workspace_id: currentWorkspace.id });
+
+      if (error) throw error;
+
+      toast({
+        title: "Feed Saved",
+        description: form.schedule === 'manual'
+          ? "Use Sync Now to import the feed."
+          : `The feed will sync ${FEED_SCHEDULE_LABELS[form.schedule].toLowerCase()}.`,
+      });
+      setView({ mode: 'list' });
+      refetch();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save feed source",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (feed: FeedSource) => {
+    if (!confirm(`Delete the feed "${feed.name}"? Imported products are kept.`)) return;
+
+    const { error } = await supabase.from('feed_sources').delete().eq('id', feed.id);
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+    refetch();
+  };
+
+  const handleSync = async (feed: FeedSource) => {
+    setSyncing(feed.id);
+    try {
+      const result = await syncFeedSource(feed.id);
+      if (!result.success) throw new Error(result.error || 'Sync failed');
+
+      toast({
+        title: result.status === 'partial' ? "Sync Finished With Errors" : "Sync Complete",
+        description: `${result.rows_created} created, ${result.rows_updated} updated, ${result.rows_deactivated} deactivated` +
+          (result.rows_failed ? `, ${result.rows_failed} rows failed` : ''),
+        variant: result.status === 'partial' ? "destructive" : "default",
+      });
+      onSynced();
+    } catch (error) {
+      toast({
+        title: "Sync Failed",
+        description: error.message || "Failed to sync feed",
+        variant: "destructive",
+      });
+    } finally {
+      setSyncing(null);
+      refetch();
+    }
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) setView({ mode: 'list' });
+    onOpenChange(next);
+  };
+
+  const renderList = () => {
+    if (isLoading) {
+      return (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      );
+    }
+
+    if (!feeds || feeds.length === 0) {
+      return (
+        <div className="text-center py-8 text-muted-foreground">
+          No feeds yet. Add a Google Merchant or Shopify feed URL to keep inventory in sync.
+        </div>
+      );
+    }
+
+    return (
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Feed</TableHead>
+            <TableHead>Schedule</TableHead>
+            <TableHead>Last Sync</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {feeds.map(feed => (
+            <TableRow key={feed.id}>
+              <TableCell>
+                <div className="font-medium">{feed.name}</div>
+                <div className="text-xs text-muted-foreground truncate max-w-[260px]">
+                  {feed.format.toUpperCase()} · {feed.url}
+                </div>
+              </TableCell>
+              <TableCell className="text-sm">
+                {feed.is_active ? FEED_SCHEDULE_LABELS[feed.schedule as FeedSchedule] : 'Paused'}
+              </TableCell>
+              <TableCell>
+                {feed.last_synced_at ? (
+                  <div className="space-y-1">
+                    <Badge variant="secondary" className={`capitalize ${SYNC_STATUS_STYLES[feed.last_status || ''] || ''}`}>
+                      {feed.last_status}
+                    </Badge>
+                    <div className="text-xs text-muted-foreground">
+                      {new Date(feed.last_synced_at).toLocaleString()}
+                    </div>
+                  </div>
+                ) : (
+                  <span className="text-sm text-muted-foreground">Never</span>
+                )}
+              </TableCell>
+              <TableCell className="text-right space-x-1 whitespace-nowrap">
+                {canEdit && (
+                  <Button variant="outline" size="sm" onClick={() => handleSync(feed)} disabled={syncing === feed.id}>
+                    {syncing === feed.id
+                      ? <Loader2 className="h-4 w-4 animate-spin" />
+                      : <RefreshCw className="h-4 w-4" />}
+                    <span className="ml-1">Sync Now</span>
+                  </Button>
+                )}
+                <Button variant="ghost" size="sm" onClick={() => setView({ mode: 'history', feed })}>
+                  <History className="h-4 w-4" />
+                </Button>
+                {canEdit && (
+                  <>
+                    <Button variant="ghost" size="sm" onClick={() => openEditor(feed)}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(feed)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    );
+  };
+
+  const renderEditor = () => (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="feed-name">Name</Label>
+          <Input
+            id="feed-name"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder="Main store feed"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="feed-url">Feed URL</Label>
+          <Input
+            id="feed-url"
+            value={form.url}
+            onChange={(e) => setForm({ ...form, url: e.target.value })}
+            placeholder="https://example.com/products.xml"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label>Format</Label>
+          <Select value={form.format} onValueChange={(value) => setForm({ ...form, format: value as FeedFormat })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="csv">CSV / TSV</SelectItem>
+              <SelectItem value="json">JSON</SelectItem>
+              <SelectItem value="xml">Google Shopping XML (RSS)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>Schedule</Label>
+          <Select value={form.schedule} onValueChange={(value) => setForm({ ...form, schedule: value as FeedSchedule })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(FEED_SCHEDULE_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <Switch
+          id="feed-active"
+          checked={form.isActive}
+          onCheckedChange={(checked) => setForm({ ...form, isActive: checked })}
+        />
+        <Label htmlFor="feed-active">Sync on schedule</Label>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Field Mapping</Label>
+          <div className="flex space-x-2">
+            {Object.entries(FEED_MAPPING_PRESETS).map(([key, preset]) => (
+              <Button
+                key={key}
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setForm({ ...form, fieldMapping: { ...preset.mapping } })}
+              >
+                {preset.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Enter the feed column for each field. Blank fields use the Google Shopping column names
+          (title, id, price, image link, …). Products are matched by SKU; unmapped columns are kept in metadata.
+        </p>
+        <div className="grid grid-cols-2 gap-2">
+          {FEED_FIELDS.map(field => (
+            <div key={field.key} className="flex items-center space-x-2">
+              <Label htmlFor={`mapping-${field.key}`} className="w-32 text-sm">{field.label}</Label>
+              <Input
+                id={`mapping-${field.key}`}
+                value={form.fieldMapping[field.key] || ''}
+                onChange={(e) => setMapping(field.key, e.target.value)}
+                placeholder="Auto"
+                className="h-8"
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+
+  const title = view.mode === 'edit'
+    ? (view.feed ? 'Edit Feed' : 'New Feed')
+    : view.mode === 'history' ? `Sync History: ${view.feed.name}` : 'Product Feeds';
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            {view.mode !== 'list' && (
+              <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => setView({ mode: 'list' })}>
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+            )}
+            <Rss className="h-5 w-5" />
+            <span>{title}</span>
+          </DialogTitle>
+          <DialogDescription>
+            Saved feeds are downloaded on their schedule. Products are updated by SKU, and products a feed stops listing are marked inactive.
+          </DialogDescription>
+        </DialogHeader>
+
+        {view.mode === 'list' && renderList()}
+        {view.mode === 'edit' && renderEditor()}
+        {view.mode === 'history' && <FeedSyncHistory feedSource={view.feed} />}
+
+        <DialogFooter>
+          {view.mode === 'list' && canEdit && (
+            <Button onClick={() => openEditor(null)} className="flex items-center space-x-2">
+              <Plus className="h-4 w-4" />
+              <span>Add Feed</span>
+            </Button>
+          )}
+          {view.mode === 'edit' && (
+            <>
+              <Button variant="outline" onClick={() => setView({ mode: 'list' })}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={isSaving}>
+                {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save Feed
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
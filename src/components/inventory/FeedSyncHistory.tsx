@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ChevronDown, ChevronRight, Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { SYNC_STATUS_STYLES, type FeedRowError, type FeedSource } from "@/utils/feedSources";
+
+const RUN_LIMIT = 20;
+
+interface FeedSyncHistoryProps {
+  feedSource: FeedSource;
+}
+
+export function FeedSyncHistory({ feedSource }: FeedSyncHistoryProps) {
+  const [expandedRun, setExpandedRun] = useState<string | null>(null);
+
+  const { data: runs, isLoading } = useQuery({
+    queryKey: ['feed-sync-runs', feedSource.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('feed_sync_runs')
+        .select('*')
+        .eq('feed_source_id', feedSource.id)
+        .order('started_at', { ascending: false })
+        .limit(RUN_LIMIT);
+
+      if (error) throw error;
+      return data;
+    },
+    // Keep polling while a sync is still in flight
+    refetchInterval: (query) => query.state.data?.some(run => run.status === 'running') ? 3000 : false,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!runs || runs.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        This feed has not been synced yet.
+      </div>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-8" />
+          <TableHead>Started</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead className="text-right">Rows</TableHead>
+          <TableHead className="text-right">Created</TableHead>
+          <TableHead className="text-right">Updated</TableHead>
+          <TableHead className="text-right">Deactivated</TableHead>
+          <TableHead className="text-right">Errors</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {runs.map(run => {
+          const rowErrors = (run.row_errors as unknown as FeedRowError[]) || [];
+          const canExpand = !!run.error || rowErrors.length > 0;
+          const isExpanded = expandedRun === run.id;
+
+          return [
+            <TableRow key={run.id}>
+              <TableCell>
+                {canExpand && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    onClick={() => setExpandedRun(isExpanded ? null : run.id)}
+                  >
+                    {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                  </Button>
+                )}
+              </TableCell>
+              <TableCell className="text-sm">
+                {new Date(run.started_at).toLocaleString()}
+                <span className="text-muted-foreground ml-1 capitalize">({run.triggered_by})</span>
+              </TableCell>
+              <TableCell>
+                <Badge variant="secondary" className={`capitalize ${SYNC_STATUS_STYLES[run.status] || ''}`}>
+                  {run.status}
+                </Badge>
+              </TableCell>
+              <TableCell className="text-right">{run.rows_total}</TableCell>
+              <TableCell className="text-right">{run.rows_created}</TableCell>
+              <TableCell className="text-right">{run.rows_updated}</TableCell>
+              <TableCell className="text-right">{run.rows_deactivated}</TableCell>
+              <TableCell className="text-right">{run.rows_failed}</TableCell>
+            </TableRow>,
+            isExpanded && (
+              <TableRow key={`${run.id}-errors`}>
+                <TableCell colSpan={8} className="bg-gray-50">
+                  {run.error && (
+                    <div className="text-sm text-red-700 mb-2">{run.error}</div>
+                  )}
+                  {rowErrors.length > 0 && (
+                    <div className="max-h-48 overflow-y-auto space-y-1">
+                      {rowErrors.map((rowError, index) => (
+                        <div key={index} className="text-xs font-mono">
+                          Row {rowError.row}{rowError.sku ? ` (${rowError.sku})` : ''}: {rowError.error}
+                        </div>
+                      ))}
+                      {run.rows_failed > rowErrors.length && (
+                        <div className="text-xs text-muted-foreground">
+                          …and {run.rows_failed - rowErrors.length} more
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </TableCell>
+              </TableRow>
+            )
+          ];
+        })}
+      </TableBody>
+    </Table>
+  );
+}
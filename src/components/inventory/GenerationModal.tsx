@@ -5,8 +5,11 @@ import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Package, Sparkles, Loader2, Download, Save, RefreshCw } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/useWorkspace";
 import { supabase } from "@/integrations/supabase/client";
 import { useAssetLibrary } from "@/hooks/useAssetLibrary";
+import { waitForGenerationJob } from "@/utils/generationJobs";
+import { Progress } from "@/components/ui/progress";
 
 interface InventoryItem {
   id: string;
@@ -362,10 +365,12 @@ function ResultsDisplay({
 
 export function GenerationModal({ isOpen, onClose, onConfirm, product, generationType, title }: GenerationModalProps) {
   const { toast } = useToast();
+  const { currentWorkspace } = useWorkspace();
   const { saveToLibrary } = useAssetLibrary();
   const [instruction, setInstruction] = useState('');
   const [isImprovingInstruction, setIsImprovingInstruction] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [jobProgress, setJobProgress] = useState<number | null>(null);
   const [generatedAsset, setGeneratedAsset] = useState<GeneratedAsset | null>(null);
   const [showResults, setShowResults] = useState(false);
   const [isSavingToLibrary, setIsSavingToLibrary] = useState(false);
@@ -463,7 +468,8 @@ export function GenerationModal({ isOpen, onClose, onConfirm, product, generatio
             description: product.description,
             category: product.category,
             brand: product.brand
-          }
+          },
+          workspaceId: currentWorkspace?.id
         }
       });
 
@@ -516,7 +522,8 @@ export function GenerationModal({ isOpen, onClose, onConfirm, product, generatio
               description: product.description,
               category: product.category,
               brand: product.brand
-            }
+            },
+            workspaceId: currentWorkspace?.id
           }
         });
 
@@ -549,6 +556,7 @@ export function GenerationModal({ isOpen, onClose, onConfirm, product, generatio
         let requestBody: any = {
           type: currentGenerationType,
           instruction: instruction,
+          productId: product.id,
           productInfo: {
             name: product.name,
             description: product.description
@@ -563,7 +571,7 @@ export function GenerationModal({ isOpen, onClose, onConfirm, product, generatio
         console.log(`Calling runwayml-generate with:`, requestBody);
 
         const { data, error } = await supabase.functions.invoke('runwayml-generate', {
-          body: requestBody
+          body: { ...requestBody, workspaceId: currentWorkspace?.id }
         });
 
         if (error) {
@@ -574,26 +582,44 @@ export function GenerationModal({ isOpen, onClose, onConfirm, product, generatio
           throw new Error(data.error || `Failed to generate ${currentGenerationType}`);
         }
 
+        let assetId = data.asset_id;
+        let assetUrl = data.asset_url;
+        let status = data.status;
+
+        // Runway tasks are queued; follow the job until the worker finishes it
+        if (data.job_id) {
+          setJobProgress(0);
+          const job = await waitForGenerationJob(data.job_id, (update) => setJobProgress(Number(update.progress)));
+
+          if (job.status === 'failed') {
+            throw new Error(job.error || `Failed to generate ${currentGenerationType}`);
+          }
+
+          assetId = job.generated_asset_id;
+          assetUrl = job.result_url;
+          status = job.status;
+        }
+
         const asset: GeneratedAsset = {
-          id: data.asset_id || `${currentGenerationType}-${Date.now()}`,
+          id: assetId || `${currentGenerationType}-${Date.now()}`,
           type: currentGenerationType,
-          url: data.asset_url,
+          url: assetUrl,
           instruction: instruction,
           timestamp: new Date(),
           source_system: 'runway',
-          status: data.status,
+          status: status,
           message: data.message
         };
 
         setGeneratedAsset(asset);
         setShowResults(true);
 
-        if (data.status === 'processing') {
+        if (status === 'processing') {
           toast({
             title: `${currentGenerationType} Generation Started`,
             description: `Your ${currentGenerationType} is being generated by RunwayML. This may take a few minutes.`,
           });
-        } else if (data.status === 'error') {
+        } else if (status === 'error') {
           toast({
             title: "Using Placeholder",
             description: data.message || `RunwayML API issue detected. Using placeholder ${currentGenerationType} for testing.`,
@@ -616,6 +642,7 @@ export function GenerationModal({ isOpen, onClose, onConfirm, product, generatio
       });
     } finally {
       setIsGenerating(false);
+      setJobProgress(null);
     }
     
     // Call the original onConfirm callback
@@ -941,6 +968,12 @@ export function GenerationModal({ isOpen, onClose, onConfirm, product, generatio
                   : 'This may take a few moments'
                 }
               </p>
+              {jobProgress !== null && (
+                <div className="mt-4 w-64 mx-auto space-y-1">
+                  <Progress value={jobProgress * 100} />
+                  <p className="text-xs text-gray-500">{Math.round(jobProgress * 100)}% complete</p>
+                </div>
+              )}
             </div>
           </div>
         )}
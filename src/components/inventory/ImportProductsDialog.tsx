@@ -7,6 +7,7 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Upload, FileText, AlertCircle, Info } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/useWorkspace";
 
 interface ImportProductsDialogProps {
   open: boolean;
@@ -16,10 +17,12 @@ interface ImportProductsDialogProps {
 
 export function ImportProductsDialog({ open, onOpenChange, onProductsImported }: ImportProductsDialogProps) {
   const { toast } = useToast();
+  const { currentWorkspace } = useWorkspace();
   const [loading, setLoading] = useState(false);
   const [jsonData, setJsonData] = useState("");
   const [csvData, setCsvData] = useState("");
-  const [importMethod, setImportMethod] = useState<'json' | 'csv' | 'file'>('json');
+  const [xmlData, setXmlData] = useState("");
+  const [importMethod, setImportMethod] = useState<'json' | 'csv' | 'xml' | 'file'>('json');
   const [csvFile, setCsvFile] = useState<File | null>(null);
   const [debugInfo, setDebugInfo] = useState<string>("");
 
@@ -165,6 +168,7 @@ export function ImportProductsDialog({ open, onOpenChange, onProductsImported }:
                  product.image_link ? [product.image_link] : [],
           metadata: product.metadata || {},
           status: 'active',
+          workspace_id: currentWorkspace?.id,
         };
       });
 
@@ -244,7 +248,7 @@ export function ImportProductsDialog({ open, onOpenChange, onProductsImported }:
       // Insert products into database
       const { data, error } = await supabase
         .from('inventory')
-        .insert(products)
+        .insert(products.map(product => ({ ...product, workspace_id: currentWorkspace?.id })))
         .select();
 
       if (error) {
@@ -264,9 +268,87 @@ Stack: ${error.stack || 'Not available'}`);
     }
   };
 
+  // RSS 2.0 <item> (or Atom <entry>) elements become header/value rows for the
+  // Google Shopping mapper; g:image_link turns into "image link" and so on
+  const parseXmlItems = (xmlContent: string) => {
+    const doc = new DOMParser().parseFromString(xmlContent, 'application/xml');
+    const parseError = doc.getElementsByTagName('parsererror')[0];
+    if (parseError) {
+      throw new Error(`Invalid XML: ${parseError.textContent?.split('\n')[0]}`);
+    }
+
+    let items = Array.from(doc.getElementsByTagName('item'));
+    if (items.length === 0) {
+      items = Array.from(doc.getElementsByTagName('entry'));
+    }
+
+    return items.map(item => {
+      const fields = new Map<string, string[]>();
+      Array.from(item.children).forEach(element => {
+        const value = element.textContent?.trim();
+        if (!value) return;
+        const header = element.localName.replace(/_/g, ' ');
+        const existing = fields.get(header) || [];
+        // Feeds sometimes carry both <title> and <g:title>
+        if (!existing.includes(value)) {
+          fields.set(header, [...existing, value]);
+        }
+      });
+
+      // The mapper only appends additional images once the main image is set
+      const headers = [...fields.keys()].sort((a, b) => Number(b === 'image link') - Number(a === 'image link'));
+      return { headers, values: headers.map(header => fields.get(header)!.join(';')) };
+    });
+  };
+
+  const handleXmlImport = async (xmlContent: string) => {
+    try {
+      console.log('Starting XML import...');
+      const items = parseXmlItems(xmlContent);
+      console.log(`Found ${items.length} items in XML`);
+
+      if (items.length === 0) {
+        throw new Error("No <item> or <entry> elements found. Expected an RSS 2.0 or Atom product feed.");
+      }
+
+      const products = [];
+      for (let i = 0; i < items.length; i++) {
+        const product = mapGoogleShoppingFields(items[i].headers, items[i].values);
+
+        if (!product.name || product.name === '') {
+          console.warn(`Item ${i + 1} is missing required title`);
+          continue;
+        }
+
+        products.push(product);
+      }
+
+      if (products.length === 0) {
+        throw new Error("No valid products found in XML. Each <item> needs a <title> or <g:title>.");
+      }
+
+      console.log(`Prepared ${products.length} products for database insertion`);
+
+      const { error } = await supabase
+        .from('inventory')
+        .insert(products.map(product => ({ ...product, workspace_id: currentWorkspace?.id })));
+
+      if (error) {
+        console.error('Database insert error:', error);
+        throw error;
+      }
+
+      return products.length;
+    } catch (error) {
+      console.error('XML Import Error:', error);
+      throw new Error(`XML Import Error: ${error.message}`);
+    }
+  };
+
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (file && file.type === 'text/csv') {
+    const isXml = !!file && (file.name.toLowerCase().endsWith('.xml') || file.type.includes('xml'));
+    if (file && (file.type === 'text/csv' || isXml)) {
       setCsvFile(file);
       
       // Read file content
@@ -274,13 +356,19 @@ Stack: ${error.stack || 'Not available'}`);
       reader.onload = (e) => {
         const content = e.target?.result as string;
         console.log('File uploaded, content length:', content.length);
-        setCsvData(content);
+        if (isXml) {
+          setXmlData(content);
+          setCsvData("");
+        } else {
+          setCsvData(content);
+          setXmlData("");
+        }
       };
       reader.onerror = (e) => {
         console.error('File reading error:', e);
         toast({
           title: "File Reading Error",
-          description: "Failed to read the CSV file. Please try again.",
+          description: "Failed to read the file. Please try again.",
           variant: "destructive",
         });
       };
@@ -288,7 +376,7 @@ Stack: ${error.stack || 'Not available'}`);
     } else {
       toast({
         title: "Invalid File",
-        description: "Please select a valid CSV file.",
+        description: "Please select a valid CSV or XML file.",
         variant: "destructive",
       });
     }
@@ -304,7 +392,7 @@ Stack: ${error.stack || 'Not available'}`);
       return;
     }
 
-    if ((importMethod === 'csv' || importMethod === 'file') && !csvData.trim()) {
+    if (importMethod === 'csv' && !csvData.trim()) {
       toast({
         title: "Error",
         description: "Please enter CSV data or upload a CSV file.",
@@ -313,18 +401,41 @@ Stack: ${error.stack || 'Not available'}`);
       return;
     }
 
+    if (importMethod === 'xml' && !xmlData.trim()) {
+      toast({
+        title: "Error",
+        description: "Please paste an XML product feed.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (importMethod === 'file' && !csvData.trim() && !xmlData.trim()) {
+      toast({
+        title: "Error",
+        description: "Please upload a CSV or XML file.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setLoading(true);
     setDebugInfo(""); // Clear previous debug info
 
     try {
       console.log(`Starting ${importMethod} import process...`);
-      const count = importMethod === 'json' ? await handleJsonImport() : await handleCsvImport(csvData);
+      const count = importMethod === 'json'
+        ? await handleJsonImport()
+        : importMethod === 'xml' || (importMethod === 'file' && xmlData)
+          ? await handleXmlImport(xmlData)
+          : await handleCsvImport(csvData);
       
       console.log(`Import completed successfully. Imported ${count} products.`);
       
       onProductsImported(count);
       setJsonData("");
       setCsvData("");
+      setXmlData("");
       setCsvFile(null);
       setDebugInfo("");
       
@@ -364,6 +475,23 @@ Smart Watch,Fitness tracking smartwatch,299.99,SW001,Electronics,TechWear,https:
 Premium Headphones,HP001,199.99,AudioTech,High-quality wireless headphones,https://example.com/image1.jpg,https://example.com/image2.jpg,Electronics > Audio
 Smart Watch,SW001,299.99,TechWear,Fitness tracking smartwatch,https://example.com/watch.jpg,,Electronics > Wearables`;
 
+  const xmlExample = `<?xml version="1.0"?>
+<rss version="2.0" xmlns:g="http://base.google.com/ns/1.0">
+  <channel>
+    <item>
+      <g:id>HP001</g:id>
+      <title>Premium Headphones</title>
+      <description>High-quality wireless headphones</description>
+      <g:price>199.99 USD</g:price>
+      <g:brand>AudioTech</g:brand>
+      <g:image_link>https://example.com/image1.jpg</g:image_link>
+      <g:additional_image_link>https://example.com/image2.jpg</g:additional_image_link>
+      <g:product_type>Electronics &gt; Audio</g:product_type>
+      <g:availability>in stock</g:availability>
+    </item>
+  </channel>
+</rss>`;
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
@@ -373,7 +501,7 @@ Smart Watch,SW001,299.99,TechWear,Fitness tracking smartwatch,https://example.co
             <span>Import Products</span>
           </DialogTitle>
           <DialogDescription>
-            Import multiple products from JSON, CSV data, or upload a CSV file. Supports Google Shopping feeds and custom formats. Automatically detects comma (,) or semicolon (;) delimited files.
+            Import multiple products from JSON, CSV or XML data, or upload a CSV or XML file. Supports Google Shopping feeds (CSV or RSS) and custom formats. Automatically detects comma (,) or semicolon (;) delimited files.
           </DialogDescription>
         </DialogHeader>
 
@@ -398,6 +526,15 @@ Smart Watch,SW001,299.99,TechWear,Fitness tracking smartwatch,https://example.co
               <FileText className="h-4 w-4" />
               <span>CSV Text</span>
             </Button>
+            <Button
+              type="button"
+              variant={importMethod === 'xml' ? 'default' : 'outline'}
+              onClick={() => setImportMethod('xml')}
+              className="flex items-center space-x-2"
+            >
+              <FileText className="h-4 w-4" />
+              <span>XML Feed</span>
+            </Button>
             <Button
               type="button"
               variant={importMethod === 'file' ? 'default' : 'outline'}
@@ -405,7 +542,7 @@ Smart Watch,SW001,299.99,TechWear,Fitness tracking smartwatch,https://example.co
               className="flex items-center space-x-2"
             >
               <Upload className="h-4 w-4" />
-              <span>CSV File</span>
+              <span>CSV / XML File</span>
             </Button>
           </div>
 
@@ -413,7 +550,7 @@ Smart Watch,SW001,299.99,TechWear,Fitness tracking smartwatch,https://example.co
           <Alert>
             <Info className="h-4 w-4" />
             <AlertDescription>
-              <strong>Multiple Formats Supported:</strong> This importer automatically detects comma (,) or semicolon (;) delimited CSV files and maps Google Shopping feed columns like 'title', 'image link', 'additional image link', 'product type', and others to the appropriate inventory fields.
+              <strong>Multiple Formats Supported:</strong> This importer automatically detects comma (,) or semicolon (;) delimited CSV files and maps Google Shopping feed columns like 'title', 'image link', 'additional image link', 'product type', and others to the appropriate inventory fields. RSS 2.0 feeds with g: elements (g:id, g:price, g:image_link, …) are mapped the same way.
             </AlertDescription>
           </Alert>
 
@@ -494,13 +631,42 @@ Smart Watch,SW001,299.99,TechWear,Fitness tracking smartwatch,https://example.co
             </div>
           )}
 
+          {importMethod === 'xml' && (
+            <div className="space-y-2">
+              <Label htmlFor="xml-data">XML Feed</Label>
+              <Textarea
+                id="xml-data"
+                value={xmlData}
+                onChange={(e) => setXmlData(e.target.value)}
+                placeholder="Paste your Google Shopping RSS feed here..."
+                rows={12}
+                className="font-mono text-sm"
+              />
+              <Alert>
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  <strong>Google Shopping RSS Example:</strong>
+                  <pre className="mt-2 text-xs bg-gray-100 p-2 rounded overflow-x-auto">
+                    {xmlExample}
+                  </pre>
+                  <p className="mt-2 text-xs">
+                    • Each &lt;item&gt; becomes one product; Atom &lt;entry&gt; feeds work too<br/>
+                    • Required: &lt;title&gt; or &lt;g:title&gt;<br/>
+                    • Repeated &lt;g:additional_image_link&gt; elements are all imported<br/>
+                    • Elements without an inventory field (e.g. g:availability) are kept in metadata
+                  </p>
+                </AlertDescription>
+              </Alert>
+            </div>
+          )}
+
           {importMethod === 'file' && (
             <div className="space-y-2">
-              <Label htmlFor="csv-file">Upload CSV File</Label>
+              <Label htmlFor="csv-file">Upload CSV or XML File</Label>
               <input
                 id="csv-file"
                 type="file"
-                accept=".csv"
+                accept=".csv,.xml"
                 onChange={handleFileUpload}
                 className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
               />
@@ -509,11 +675,11 @@ Smart Watch,SW001,299.99,TechWear,Fitness tracking smartwatch,https://example.co
                   File selected: {csvFile.name}
                 </p>
               )}
-              {csvData && (
+              {(csvData || xmlData) && (
                 <div className="mt-4">
                   <Label>File Preview:</Label>
                   <Textarea
-                    value={csvData.substring(0, 500) + (csvData.length > 500 ? '...' : '')}
+                    value={(csvData || xmlData).substring(0, 500) + ((csvData || xmlData).length > 500 ? '...' : '')}
                     readOnly
                     rows={8}
                     className="font-mono text-xs bg-gray-50"
@@ -523,14 +689,15 @@ Smart Watch,SW001,299.99,TechWear,Fitness tracking smartwatch,https://example.co
               <Alert>
                 <AlertCircle className="h-4 w-4" />
                 <AlertDescription>
-                  <strong>CSV File Requirements:</strong>
+                  <strong>File Requirements:</strong>
                   <p className="mt-2 text-xs">
                     • First row must contain column headers<br/>
                     • Required: 'name' or 'title' column<br/>
                     • Supports both comma (,) and semicolon (;) delimited files<br/>
                     • Supported columns: name, title, description, price, sku, id, category, product_type, brand, images, image_link, additional_image_link<br/>
                     • Separate multiple image URLs with semicolons (;)<br/>
-                    • Google Shopping feed formats are automatically detected and mapped
+                    • Google Shopping feed formats are automatically detected and mapped<br/>
+                    • .xml files are read as Google Shopping RSS feeds
                   </p>
                 </AlertDescription>
               </Alert>
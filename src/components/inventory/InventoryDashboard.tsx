@@ -4,6 +4,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Package, TrendingUp, DollarSign, ShoppingCart } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import { useWorkspace } from "@/hooks/useWorkspace";
 
 interface InventoryItem {
   id: string;
@@ -25,13 +26,16 @@ interface InventoryDashboardProps {
 }
 
 export function InventoryDashboard({ onProductSelect }: InventoryDashboardProps) {
+  const { currentWorkspace } = useWorkspace();
+
   // Fetch inventory stats
   const { data: stats } = useQuery({
-    queryKey: ['inventory-stats'],
+    queryKey: ['inventory-stats', currentWorkspace?.id],
     queryFn: async () => {
       const { data, error } = await supabase
         .from('inventory')
         .select('id, status, price, category')
+        .eq('workspace_id', currentWorkspace!.id)
         .eq('status', 'active');
       
       if (error) throw error;
@@ -47,6 +51,7 @@ export function InventoryDashboard({ onProductSelect }: InventoryDashboardProps)
         recentlyAdded: 5 // This would be calculated based on recent additions
       };
     },
+    enabled: !!currentWorkspace,
   });
 
   return (
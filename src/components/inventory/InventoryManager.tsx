@@ -5,11 +5,13 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
-import { Search, Plus, Upload, Package, Edit, Trash2 } from "lucide-react";
+import { Search, Plus, Upload, Package, Edit, Trash2, Rss } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/useWorkspace";
 import { AddProductDialog } from "./AddProductDialog";
 import { ImportProductsDialog } from "./ImportProductsDialog";
+import { FeedSourcesDialog } from "./FeedSourcesDialog";
 import { ProductCard } from "./ProductCard";
 
 interface InventoryItem {
@@ -33,19 +35,22 @@ interface InventoryManagerProps {
 
 export function InventoryManager({ onProductSelect }: InventoryManagerProps) {
   const { toast } = useToast();
+  const { currentWorkspace } = useWorkspace();
   const [searchTerm, setSearchTerm] = useState("");
   const [categoryFilter, setCategoryFilter] = useState("");
   const [showAddDialog, setShowAddDialog] = useState(false);
   const [showImportDialog, setShowImportDialog] = useState(false);
+  const [showFeedsDialog, setShowFeedsDialog] = useState(false);
   const [selectedProduct, setSelectedProduct] = useState<InventoryItem | null>(null);
 
   // Fetch inventory items
   const { data: inventory, isLoading, refetch } = useQuery({
-    queryKey: ['inventory', searchTerm, categoryFilter],
+    queryKey: ['inventory', searchTerm, categoryFilter, currentWorkspace?.id],
     queryFn: async () => {
       let query = supabase
         .from('inventory')
         .select('*')
+        .eq('workspace_id', currentWorkspace!.id)
         .eq('status', 'active')
         .order('created_at', { ascending: false });
 
@@ -66,15 +71,17 @@ export function InventoryManager({ onProductSelect }: InventoryManagerProps) {
       
       return data as InventoryItem[];
     },
+    enabled: !!currentWorkspace,
   });
 
   // Get unique categories for filter
   const { data: categories } = useQuery({
-    queryKey: ['inventory-categories'],
+    queryKey: ['inventory-categories', currentWorkspace?.id],
     queryFn: async () => {
       const { data, error } = await supabase
         .from('inventory')
         .select('category')
+        .eq('workspace_id', currentWorkspace!.id)
         .not('category', 'is', null)
         .eq('status', 'active');
       
@@ -83,6 +90,7 @@ export function InventoryManager({ onProductSelect }: InventoryManagerProps) {
       const uniqueCategories = [...new Set(data.map(item => item.category))].filter(Boolean);
       return uniqueCategories;
     },
+    enabled: !!currentWorkspace,
   });
 
   const handleDeleteProduct = async (productId: string) => {
@@ -188,6 +196,11 @@ export function InventoryManager({ onProductSelect }: InventoryManagerProps) {
                 <Upload className="h-4 w-4" />
                 <span>Import</span>
               </Button>
+
+              <Button variant="outline" onClick={() => setShowFeedsDialog(true)} className="flex items-center space-x-2">
+                <Rss className="h-4 w-4" />
+                <span>Feeds</span>
+              </Button>
             </div>
           </div>
 
@@ -251,6 +264,12 @@ export function InventoryManager({ onProductSelect }: InventoryManagerProps) {
         onOpenChange={setShowImportDialog}
         onProductsImported={handleProductsImported}
       />
+
+      <FeedSourcesDialog
+        open={showFeedsDialog}
+        onOpenChange={setShowFeedsDialog}
+        onSynced={() => refetch()}
+      />
     </div>
   );
 }
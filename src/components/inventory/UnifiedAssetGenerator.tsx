@@ -9,10 +9,13 @@ import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
 import { Loader2, Package, Sparkles, Download, Save, Redo, X } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useWorkspace } from '@/hooks/useWorkspace';
 import { supabase } from '@/integrations/supabase/client';
 import { SaveAssetDialog } from '@/components/SaveAssetDialog';
 import { FormatSpecSelector } from '@/components/FormatSpecSelector';
 import { SocialMediaAutoPost } from '@/components/SocialMediaAutoPost';
+import { waitForGenerationJob } from '@/utils/generationJobs';
+import { CHANNELS, ASSET_TYPES, TYPE_OPTIONS, SPECIFICATIONS } from './assetOptions';
 
 interface InventoryItem {
   id: string;
@@ -55,148 +58,13 @@ interface GeneratedAsset {
   adCopy?: string;
 }
 
-const CHANNELS = [
-  { value: 'facebook', label: 'Facebook' },
-  { value: 'instagram', label: 'Instagram' },
-  { value: 'google-ads', label: 'Google Ads' },
-  { value: 'email', label: 'Email' },
-  { value: 'sms', label: 'SMS' },
-  { value: 'linkedin', label: 'LinkedIn' },
-  { value: 'twitter', label: 'Twitter/X' },
-  { value: 'tiktok', label: 'TikTok' },
-  { value: 'youtube', label: 'YouTube' },
-  { value: 'pinterest', label: 'Pinterest' }
-];
-
-const ASSET_TYPES = [
-  { value: 'image', label: 'Image' },
-  { value: 'video', label: 'Video' },
-  { value: 'content', label: 'Content' },
-  { value: 'ad', label: 'Ad (Visual + Copy)' }
-];
-
-const TYPE_OPTIONS = {
-  'facebook-image': ['Feed Post', 'Story', 'Carousel', 'Cover Photo'],
-  'facebook-video': ['Feed Video', 'Story Video', 'Reel'],
-  'facebook-content': ['Post Copy', 'Ad Copy', 'Story Text'],
-  'facebook-ad': ['Feed Ad', 'Story Ad', 'Carousel Ad'],
-  'instagram-image': ['Feed Post', 'Story', 'Reel Thumbnail', 'IGTV Cover'],
-  'instagram-video': ['Reel', 'Story Video', 'IGTV'],
-  'instagram-content': ['Caption', 'Story Text', 'Bio'],
-  'instagram-ad': ['Feed Ad', 'Story Ad', 'Reel Ad'],
-  'google-ads-image': ['Responsive Display Ad', 'Banner Ad', 'Square Ad'],
-  'google-ads-video': ['YouTube Ad', 'Display Video'],
-  'google-ads-content': ['Search Ad Copy', 'Display Ad Text'],
-  'google-ads-ad': ['Search Ad', 'Display Ad', 'Shopping Ad'],
-  'email-image': ['Header Image', 'Product Image', 'Banner'],
-  'email-video': ['Product Demo', 'Promotional Video'],
-  'email-content': ['Subject Line', 'Body Copy', 'CTA'],
-  'email-ad': ['Newsletter Ad', 'Promotional Email'],
-  'sms-content': ['Text Message', 'MMS Caption'],
-  'sms-ad': ['Promotional SMS', 'Alert Message'],
-  'linkedin-image': ['Post Image', 'Article Header'],
-  'linkedin-video': ['Post Video', 'Article Video'],
-  'linkedin-content': ['Post Copy', 'Article Content'],
-  'linkedin-ad': ['Sponsored Content', 'Message Ad'],
-  'twitter-image': ['Tweet Image', 'Header Image'],
-  'twitter-video': ['Tweet Video', 'Promotional Video'],
-  'twitter-content': ['Tweet Copy', 'Thread'],
-  'twitter-ad': ['Promoted Tweet', 'Video Ad'],
-  'tiktok-image': ['Video Thumbnail', 'Profile Image'],
-  'tiktok-video': ['Short Video', 'Ad Video'],
-  'tiktok-content': ['Video Caption', 'Bio'],
-  'tiktok-ad': ['In-Feed Ad', 'Brand Takeover'],
-  'youtube-image': ['Thumbnail', 'Channel Art'],
-  'youtube-video': ['Short', 'Ad Video', 'Content Video'],
-  'youtube-content': ['Video Title', 'Description'],
-  'youtube-ad': ['Video Ad', 'Display Ad'],
-  'pinterest-image': ['Pin Image', 'Board Cover'],
-  'pinterest-video': ['Video Pin', 'Story Pin'],
-  'pinterest-content': ['Pin Description', 'Board Description'],
-  'pinterest-ad': ['Promoted Pin', 'Shopping Ad']
-};
-
-const SPECIFICATIONS = {
-  'Feed Post': '1080x1080',
-  'Story': '1080x1920',
-  'Carousel': '1080x1080',
-  'Cover Photo': '820x312',
-  'Feed Video': '1080x1080, 15-60s',
-  'Story Video': '1080x1920, 15s',
-  'Reel': '1080x1920, 15-30s',
-  'Post Copy': '2200 chars max',
-  'Ad Copy': '125 chars headline, 27 chars description',
-  'Story Text': '2200 chars max',
-  'Feed Ad': '1080x1080',
-  'Story Ad': '1080x1920',
-  'Carousel Ad': '1080x1080',
-  'Caption': '2200 chars max',
-  'Bio': '150 chars max',
-  'IGTV Cover': '420x654',
-  'IGTV': '1080x1920, 15s-10min',
-  'Reel Thumbnail': '1080x1350',
-  'Responsive Display Ad': '300x250, 728x90, 320x50',
-  'Banner Ad': '728x90',
-  'Square Ad': '300x300',
-  'YouTube Ad': '1920x1080, 15-30s',
-  'Display Video': '1920x1080, 30s',
-  'Search Ad Copy': '30 chars headline, 90 chars description',
-  'Display Ad Text': '25 chars headline, 90 chars description',
-  'Search Ad': 'Text only',
-  'Display Ad': '300x250',
-  'Shopping Ad': 'Product feed based',
-  'Header Image': '600x200',
-  'Product Image': '600x400',
-  'Banner': '600x150',
-  'Product Demo': '1920x1080, 30-60s',
-  'Promotional Video': '1920x1080, 15-30s',
-  'Subject Line': '50 chars max',
-  'Body Copy': '200 words max',
-  'CTA': '20 chars max',
-  'Newsletter Ad': '600x400',
-  'Promotional Email': 'HTML template',
-  'Text Message': '160 chars max',
-  'MMS Caption': '1600 chars max',
-  'Promotional SMS': '160 chars max',
-  'Alert Message': '160 chars max',
-  'Post Image': '1200x627',
-  'Article Header': '1200x627',
-  'Post Video': '1920x1080, 30s-10min',
-  'Article Video': '1920x1080, 1-10min',
-  'Article Content': '125000 chars max',
-  'Sponsored Content': '1200x627',
-  'Message Ad': 'Text only',
-  'Tweet Image': '1200x675',
-  'Header Image LinkedIn': '1584x396',
-  'Tweet Video': '1280x720, 2min 20s max',
-  'Tweet Copy': '280 chars max',
-  'Thread': '280 chars per tweet',
-  'Promoted Tweet': '1200x675',
-  'Video Ad Twitter': '1920x1080, 15s-10min',
-  'Video Thumbnail': '1080x1920',
-  'Profile Image': '400x400',
-  'Short Video': '1080x1920, 15-60s',
-  'Ad Video TikTok': '1080x1920, 5-60s',
-  'Video Caption': '2200 chars max',
-  'In-Feed Ad': '1080x1920',
-  'Brand Takeover': '1080x1920',
-  'Thumbnail YouTube': '1280x720',
-  'Channel Art': '2560x1440',
-  'Short': '1080x1920, 60s max',
-  'Content Video': '1920x1080, any length',
-  'Video Title': '100 chars max',
-  'Description': '5000 chars max',
-  'Video Ad YouTube': '1920x1080, 15-30s',
-  'Display Ad YouTube': '300x250',
-  'Pin Image': '1000x1500',
-  'Board Cover': '600x600',
-  'Video Pin': '1080x1920, 4s-15min',
-  'Story Pin': '1080x1920',
-  'Pin Description': '500 chars max',
-  'Board Description': '500 chars max',
-  'Promoted Pin': '1000x1500',
-  'Shopping Ad Pinterest': 'Product feed based'
-};
+interface RunwaySubmission {
+  job_id?: string;
+  asset_id?: string;
+  asset_url?: string;
+  status?: string;
+  message?: string;
+}
 
 function ProductConfig({
   product,
@@ -206,6 +74,7 @@ function ProductConfig({
   loadingInstructions,
   isImproving,
   isGenerating,
+  jobProgress,
   formatSpecs,
   updateConfig,
   handleImproveInstruction,
@@ -220,6 +89,7 @@ function ProductConfig({
   loadingInstructions: boolean;
   isImproving: Record<string, boolean>;
   isGenerating: boolean;
+  jobProgress?: number;
   formatSpecs: Record<string, any>;
   updateConfig: (productId: string, field: keyof AssetGenerationConfig, value: string) => void;
   handleImproveInstruction: (productId: string) => void;
@@ -393,7 +263,7 @@ function ProductConfig({
         {isGenerating ? (
           <>
             <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-            Generating...
+            {jobProgress !== undefined ? `Generating... ${Math.round(jobProgress * 100)}%` : 'Generating...'}
           </>
         ) : (
           `Generate ${config.asset_type || 'Asset'}`
@@ -413,8 +283,10 @@ export function UnifiedAssetGenerator({
   initialAssetType
 }: UnifiedAssetGeneratorProps) {
   const { toast } = useToast();
+  const { currentWorkspace } = useWorkspace();
   const [applyToAll, setApplyToAll] = useState(true);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [jobProgress, setJobProgress] = useState<Record<string, number>>({});
   const [isImproving, setIsImproving] = useState<Record<string, boolean>>({});
   const [configs, setConfigs] = useState<Record<string, AssetGenerationConfig>>({});
   const [generatedAssets, setGeneratedAssets] = useState<Record<string, GeneratedAsset>>({});
@@ -489,7 +361,8 @@ export function UnifiedAssetGenerator({
                  
                  The content should be optimized for this exact channel-format combination, 
                  considering platform-specific audience behavior, content preferences, and technical requirements.`
-          }
+          },
+          workspaceId: currentWorkspace?.id
         }
       });
 
@@ -654,7 +527,8 @@ export function UnifiedAssetGenerator({
             format: config.type,
             specification: config.specification,
             channelFormat: `${config.channel}-${config.type}` // Specific combination for better targeting
-          }
+          },
+          workspaceId: currentWorkspace?.id
         }
       });
 
@@ -686,6 +560,35 @@ export function UnifiedAssetGenerator({
     }));
   };
 
+  // Runway generations are queued as jobs; resolve them to the finished asset
+  const waitForRunwayJob = async <T extends RunwaySubmission>(progressKey: string, data: T): Promise<T> => {
+    if (!data.job_id) return data;
+
+    setJobProgress(prev => ({ ...prev, [progressKey]: 0 }));
+    try {
+      const job = await waitForGenerationJob(data.job_id, (update) => {
+        setJobProgress(prev => ({ ...prev, [progressKey]: Number(update.progress) }));
+      });
+
+      if (job.status === 'failed') {
+        throw new Error(job.error || 'Generation failed');
+      }
+
+      return {
+        ...data,
+        asset_id: job.generated_asset_id,
+        asset_url: job.result_url,
+        status: job.status
+      };
+    } finally {
+      setJobProgress(prev => {
+        const next = { ...prev };
+        delete next[progressKey];
+        return next;
+      });
+    }
+  };
+
   const handleGenerate = async (productId: string) => {
     setIsGenerating(true);
 
@@ -725,7 +628,8 @@ export function UnifiedAssetGenerator({
               dimensions: specification,
               platformOptimized: true, // Flag for platform-specific optimization
               ...currentFormatSpecs
-            }
+            },
+            workspaceId: currentWorkspace?.id
           }
         });
 
@@ -767,6 +671,7 @@ export function UnifiedAssetGenerator({
         const visualRequestBody: any = {
           type: config.type.toLowerCase().includes('video') ? 'video' : 'image',
           instruction: fullInstruction,
+          productId: product.id,
           productInfo: {
             name: product.name,
             description: product.description,
@@ -793,14 +698,16 @@ export function UnifiedAssetGenerator({
 
         console.log('Generating ad visual with format specs:', visualRequestBody.formatSpecs);
 
-        const { data: visualData, error: visualError } = await supabase.functions.invoke('runwayml-generate', {
-          body: visualRequestBody
+        const { data: visualSubmission, error: visualError } = await supabase.functions.invoke('runwayml-generate', {
+          body: { ...visualRequestBody, workspaceId: currentWorkspace?.id }
         });
 
-        if (visualError || !visualData.success) {
-          throw new Error(visualData?.error || 'Failed to generate ad visual');
+        if (visualError || !visualSubmission.success) {
+          throw new Error(visualSubmission?.error || 'Failed to generate ad visual');
         }
 
+        const visualData = await waitForRunwayJob(productId, visualSubmission);
+
         // Generate ad copy
         const { data: copyData, error: copyError } = await supabase.functions.invoke('openai-generate', {
           body: {
@@ -821,7 +728,8 @@ export function UnifiedAssetGenerator({
               requiresCallToAction: true,
               includeEmojis: true,
               useSalesLanguage: true
-            }
+            },
+            workspaceId: currentWorkspace?.id
           }
         });
 
@@ -865,6 +773,7 @@ export function UnifiedAssetGenerator({
         const requestBody: any = {
           type: config.asset_type,
           instruction: fullInstruction,
+          productId: product.id,
           productInfo: {
             name: product.name,
             description: product.description,
@@ -891,14 +800,16 @@ export function UnifiedAssetGenerator({
 
         console.log('Sending request to RunwayML with enhanced format specs:', requestBody.formatSpecs);
 
-        const { data, error } = await supabase.functions.invoke('runwayml-generate', {
-          body: requestBody
+        const { data: submission, error } = await supabase.functions.invoke('runwayml-generate', {
+          body: { ...requestBody, workspaceId: currentWorkspace?.id }
         });
 
-        if (error || !data.success) {
-          throw new Error(data?.error || `Failed to generate ${config.asset_type}`);
+        if (error || !submission.success) {
+          throw new Error(submission?.error || `Failed to generate ${config.asset_type}`);
         }
 
+        const data = await waitForRunwayJob(productId, submission);
+
         result = {
           id: data.asset_id,
           type: config.asset_type,
@@ -1155,6 +1066,7 @@ export function UnifiedAssetGenerator({
           <div className="mt-4">
             <SocialMediaAutoPost 
               imageUrl={asset.url}
+              generatedAssetId={asset.id}
               instruction={asset.instruction}
               isVisible={true}
               selectedChannels={[configs[productId]?.channel].filter(Boolean)}
@@ -1209,6 +1121,7 @@ export function UnifiedAssetGenerator({
                     loadingInstructions={loadingInstructions}
                     isImproving={isImproving}
                     isGenerating={isGenerating}
+                    jobProgress={jobProgress['all']}
                     formatSpecs={formatSpecs}
                     updateConfig={updateConfig}
                     handleImproveInstruction={handleImproveInstruction}
@@ -1237,6 +1150,7 @@ export function UnifiedAssetGenerator({
                     loadingInstructions={loadingInstructions}
                     isImproving={isImproving}
                     isGenerating={isGenerating}
+                    jobProgress={jobProgress[product.id]}
                     formatSpecs={formatSpecs}
                     updateConfig={updateConfig}
                     handleImproveInstruction={handleImproveInstruction}
@@ -0,0 +1,144 @@
+// Channels, asset types and per-channel formats offered by the product generator and campaigns
+
+export const CHANNELS = [
+  { value: 'facebook', label: 'Facebook' },
+  { value: 'instagram', label: 'Instagram' },
+  { value: 'google-ads', label: 'Google Ads' },
+  { value: 'email', label: 'Email' },
+  { value: 'sms', label: 'SMS' },
+  { value: 'linkedin', label: 'LinkedIn' },
+  { value: 'twitter', label: 'Twitter/X' },
+  { value: 'tiktok', label: 'TikTok' },
+  { value: 'youtube', label: 'YouTube' },
+  { value: 'pinterest', label: 'Pinterest' }
+];
+
+export const ASSET_TYPES = [
+  { value: 'image', label: 'Image' },
+  { value: 'video', label: 'Video' },
+  { value: 'content', label: 'Content' },
+  { value: 'ad', label: 'Ad (Visual + Copy)' }
+];
+
+export const TYPE_OPTIONS = {
+  'facebook-image': ['Feed Post', 'Story', 'Carousel', 'Cover Photo'],
+  'facebook-video': ['Feed Video', 'Story Video', 'Reel'],
+  'facebook-content': ['Post Copy', 'Ad Copy', 'Story Text'],
+  'facebook-ad': ['Feed Ad', 'Story Ad', 'Carousel Ad'],
+  'instagram-image': ['Feed Post', 'Story', 'Reel Thumbnail', 'IGTV Cover'],
+  'instagram-video': ['Reel', 'Story Video', 'IGTV'],
+  'instagram-content': ['Caption', 'Story Text', 'Bio'],
+  'instagram-ad': ['Feed Ad', 'Story Ad', 'Reel Ad'],
+  'google-ads-image': ['Responsive Display Ad', 'Banner Ad', 'Square Ad'],
+  'google-ads-video': ['YouTube Ad', 'Display Video'],
+  'google-ads-content': ['Search Ad Copy', 'Display Ad Text'],
+  'google-ads-ad': ['Search Ad', 'Display Ad', 'Shopping Ad'],
+  'email-image': ['Header Image', 'Product Image', 'Banner'],
+  'email-video': ['Product Demo', 'Promotional Video'],
+  'email-content': ['Subject Line', 'Body Copy', 'CTA'],
+  'email-ad': ['Newsletter Ad', 'Promotional Email'],
+  'sms-content': ['Text Message', 'MMS Caption'],
+  'sms-ad': ['Promotional SMS', 'Alert Message'],
+  'linkedin-image': ['Post Image', 'Article Header'],
+  'linkedin-video': ['Post Video', 'Article Video'],
+  'linkedin-content': ['Post Copy', 'Article Content'],
+  'linkedin-ad': ['Sponsored Content', 'Message Ad'],
+  'twitter-image': ['Tweet Image', 'Header Image'],
+  'twitter-video': ['Tweet Video', 'Promotional Video'],
+  'twitter-content': ['Tweet Copy', 'Thread'],
+  'twitter-ad': ['Promoted Tweet', 'Video Ad'],
+  'tiktok-image': ['Video Thumbnail', 'Profile Image'],
+  'tiktok-video': ['Short Video', 'Ad Video'],
+  'tiktok-content': ['Video Caption', 'Bio'],
+  'tiktok-ad': ['In-Feed Ad', 'Brand Takeover'],
+  'youtube-image': ['Thumbnail', 'Channel Art'],
+  'youtube-video': ['Short', 'Ad Video', 'Content Video'],
+  'youtube-content': ['Video Title', 'Description'],
+  'youtube-ad': ['Video Ad', 'Display Ad'],
+  'pinterest-image': ['Pin Image', 'Board Cover'],
+  'pinterest-video': ['Video Pin', 'Story Pin'],
+  'pinterest-content': ['Pin Description', 'Board Description'],
+  'pinterest-ad': ['Promoted Pin', 'Shopping Ad']
+};
+
+export const SPECIFICATIONS = {
+  'Feed Post': '1080x1080',
+  'Story': '1080x1920',
+  'Carousel': '1080x1080',
+  'Cover Photo': '820x312',
+  'Feed Video': '1080x1080, 15-60s',
+  'Story Video': '1080x1920, 15s',
+  'Reel': '1080x1920, 15-30s',
+  'Post Copy': '2200 chars max',
+  'Ad Copy': '125 chars headline, 27 chars description',
+  'Story Text': '2200 chars max',
+  'Feed Ad': '1080x1080',
+  'Story Ad': '1080x1920',
+  'Carousel Ad': '1080x1080',
+  'Caption': '2200 chars max',
+  'Bio': '150 chars max',
+  'IGTV Cover': '420x654',
+  'IGTV': '1080x1920, 15s-10min',
+  'Reel Thumbnail': '1080x1350',
+  'Responsive Display Ad': '300x250, 728x90, 320x50',
+  'Banner Ad': '728x90',
+  'Square Ad': '300x300',
+  'YouTube Ad': '1920x1080, 15-30s',
+  'Display Video': '1920x1080, 30s',
+  'Search Ad Copy': '30 chars headline, 90 chars description',
+  'Display Ad Text': '25 chars headline, 90 chars description',
+  'Search Ad': 'Text only',
+  'Display Ad': '300x250',
+  'Shopping Ad': 'Product feed based',
+  'Header Image': '600x200',
+  'Product Image': '600x400',
+  'Banner': '600x150',
+  'Product Demo': '1920x1080, 30-60s',
+  'Promotional Video': '1920x1080, 15-30s',
+  'Subject Line': '50 chars max',
+  'Body Copy': '200 words max',
+  'CTA': '20 chars max',
+  'Newsletter Ad': '600x400',
+  'Promotional Email': 'HTML template',
+  'Text Message': '160 chars max',
+  'MMS Caption': '1600 chars max',
+  'Promotional SMS': '160 chars max',
+  'Alert Message': '160 chars max',
+  'Post Image': '1200x627',
+  'Article Header': '1200x627',
+  'Post Video': '1920x1080, 30s-10min',
+  'Article Video': '1920x1080, 1-10min',
+  'Article Content': '125000 chars max',
+  'Sponsored Content': '1200x627',
+  'Message Ad': 'Text only',
+  'Tweet Image': '1200x675',
+  'Header Image LinkedIn': '1584x396',
+  'Tweet Video': '1280x720, 2min 20s max',
+  'Tweet Copy': '280 chars max',
+  'Thread': '280 chars per tweet',
+  'Promoted Tweet': '1200x675',
+  'Video Ad Twitter': '1920x1080, 15s-10min',
+  'Video Thumbnail': '1080x1920',
+  'Profile Image': '400x400',
+  'Short Video': '1080x1920, 15-60s',
+  'Ad Video TikTok': '1080x1920, 5-60s',
+  'Video Caption': '2200 chars max',
+  'In-Feed Ad': '1080x1920',
+  'Brand Takeover': '1080x1920',
+  'Thumbnail YouTube': '1280x720',
+  'Channel Art': '2560x1440',
+  'Short': '1080x1920, 60s max',
+  'Content Video': '1920x1080, any length',
+  'Video Title': '100 chars max',
+  'Description': '5000 chars max',
+  'Video Ad YouTube': '1920x1080, 15-30s',
+  'Display Ad YouTube': '300x250',
+  'Pin Image': '1000x1500',
+  'Board Cover': '600x600',
+  'Video Pin': '1080x1920, 4s-15min',
+  'Story Pin': '1080x1920',
+  'Pin Description': '500 chars max',
+  'Board Description': '500 chars max',
+  'Promoted Pin': '1000x1500',
+  'Shopping Ad Pinterest': 'Product feed based'
+};
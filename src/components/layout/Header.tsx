@@ -1,8 +1,29 @@
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { WorkspaceSwitcher } from "./WorkspaceSwitcher";
+import { NotificationBell } from "./NotificationBell";
+import { LogOut } from "lucide-react";
 
 export function Header() {
+  const { user, signOut } = useAuth();
+  const { toast } = useToast();
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+    } catch (error) {
+      toast({
+        title: "Sign Out Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
   return (
     <header className="border-b bg-background sticky top-0 z-50">
-      <div className="container mx-auto px-4 h-16 flex items-center">
+      <div className="container mx-auto px-4 h-16 flex items-center justify-between">
         <div className="flex items-center space-x-3">
           <img 
             src="/lovable-uploads/89de7e4b-f2ba-4d6e-b0dd-47971ec53def.png" 
@@ -11,6 +32,17 @@ export function Header() {
           />
           <h1 className="text-xl font-bold">FeedGenesis</h1>
         </div>
+        {user && (
+          <div className="flex items-center space-x-3">
+            <WorkspaceSwitcher />
+            <NotificationBell />
+            <span className="text-sm text-muted-foreground hidden sm:inline">{user.email}</span>
+            <Button variant="ghost" size="sm" onClick={handleSignOut} className="flex items-center space-x-2">
+              <LogOut className="h-4 w-4" />
+              <span>Sign Out</span>
+            </Button>
+          </div>
+        )}
       </div>
     </header>
   );
@@ -1,17 +1,31 @@
 
 import { ReactNode } from "react";
 import { Header } from "./Header";
+import { useWorkspace } from "@/hooks/useWorkspace";
 
 interface LayoutProps {
   children: ReactNode;
 }
 
 export function Layout({ children }: LayoutProps) {
+  const { currentWorkspace, isLoading } = useWorkspace();
+
   return (
     <div className="min-h-screen bg-background">
       <Header />
-      <main className="container mx-auto px-4 py-8">
-        {children}
+      {/* Remount the page on workspace switch so every view reloads its data */}
+      <main key={currentWorkspace?.id ?? 'none'} className="container mx-auto px-4 py-8">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-16">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : currentWorkspace ? (
+          children
+        ) : (
+          <p className="text-center text-muted-foreground py-16">
+            You are not a member of any workspace yet. Create one from the workspace menu above.
+          </p>
+        )}
       </main>
     </div>
   );
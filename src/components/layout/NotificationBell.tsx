@@ -0,0 +1,77 @@
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { Bell } from "lucide-react";
+import { useNotifications, type Notification } from "@/hooks/useNotifications";
+import { useWorkspace } from "@/hooks/useWorkspace";
+import { useView } from "@/contexts/ViewContext";
+
+type MainTab = ReturnType<typeof useView>['activeTab'];
+
+export function NotificationBell() {
+  const { notifications, unreadCount, markRead } = useNotifications();
+  const { currentWorkspace, switchWorkspace } = useWorkspace();
+  const { setActiveTab } = useView();
+
+  const handleOpen = (notification: Notification) => {
+    markRead([notification.id]);
+    if (notification.workspace_id && notification.workspace_id !== currentWorkspace?.id) {
+      switchWorkspace(notification.workspace_id);
+    }
+    if (notification.link_tab) {
+      setActiveTab(notification.link_tab as MainTab);
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative" title="Notifications">
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 h-4 min-w-4 px-1 rounded-full bg-red-600 text-white text-[10px] leading-4 text-center">
+              {unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-3 py-2 border-b">
+          <span className="text-sm font-medium">Notifications</span>
+          {unreadCount > 0 && (
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto p-0 text-xs"
+              onClick={() => markRead(notifications.filter(n => !n.read_at).map(n => n.id))}
+            >
+              Mark all read
+            </Button>
+          )}
+        </div>
+        {notifications.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">You're all caught up</p>
+        ) : (
+          <div className="max-h-80 overflow-y-auto">
+            {notifications.map(notification => (
+              <button
+                key={notification.id}
+                onClick={() => handleOpen(notification)}
+                className={`w-full text-left px-3 py-2 border-b last:border-b-0 hover:bg-muted ${
+                  notification.read_at ? '' : 'bg-blue-50'
+                }`}
+              >
+                <div className="text-sm font-medium">{notification.title}</div>
+                {notification.body && (
+                  <div className="text-xs text-muted-foreground line-clamp-2">{notification.body}</div>
+                )}
+                <div className="text-[10px] text-muted-foreground mt-1">
+                  {new Date(notification.created_at).toLocaleString()}
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectSeparator, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useWorkspace } from "@/hooks/useWorkspace";
+import { useToast } from "@/hooks/use-toast";
+import { Building2, Plus } from "lucide-react";
+
+const NEW_WORKSPACE_VALUE = "__new_workspace__";
+
+export function WorkspaceSwitcher() {
+  const { workspaces, currentWorkspace, switchWorkspace, createWorkspace } = useWorkspace();
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [workspaceName, setWorkspaceName] = useState("");
+  const [creating, setCreating] = useState(false);
+
+  const handleValueChange = (value: string) => {
+    if (value === NEW_WORKSPACE_VALUE) {
+      setDialogOpen(true);
+      return;
+    }
+    switchWorkspace(value);
+  };
+
+  const handleCreate = async () => {
+    if (!workspaceName.trim()) return;
+
+    setCreating(true);
+    try {
+      await createWorkspace(workspaceName.trim());
+      toast({
+        title: "Workspace Created",
+        description: `Switched to ${workspaceName.trim()}.`,
+      });
+      setWorkspaceName("");
+      setDialogOpen(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create workspace",
+        variant: "destructive",
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <>
+      <Select value={currentWorkspace?.id ?? ""} onValueChange={handleValueChange}>
+        <SelectTrigger className="w-[220px]">
+          <div className="flex items-center space-x-2 truncate">
+            <Building2 className="h-4 w-4 shrink-0" />
+            <SelectValue placeholder="Select workspace" />
+          </div>
+        </SelectTrigger>
+        <SelectContent>
+          {workspaces.map((workspace) => (
+            <SelectItem key={workspace.id} value={workspace.id}>
+              <span className="flex items-center space-x-2">
+                <span>{workspace.name}</span>
+                <Badge variant="outline" className="text-xs capitalize">{workspace.role}</Badge>
+              </span>
+            </SelectItem>
+          ))}
+          <SelectSeparator />
+          <SelectItem value={NEW_WORKSPACE_VALUE}>
+            <span className="flex items-center space-x-2">
+              <Plus className="h-4 w-4" />
+              <span>New Workspace</span>
+            </span>
+          </SelectItem>
+        </SelectContent>
+      </Select>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Create Workspace</DialogTitle>
+            <DialogDescription>
+              Each workspace has its own inventory, asset library, social connections and templates.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="workspace-name">Workspace Name</Label>
+            <Input
+              id="workspace-name"
+              value={workspaceName}
+              onChange={(e) => setWorkspaceName(e.target.value)}
+              placeholder="e.g. Acme Outdoor"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={creating || !workspaceName.trim()}>
+              {creating ? "Creating..." : "Create Workspace"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -8,15 +8,18 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Separator } from "@/components/ui/separator";
+import { Loader2 } from "lucide-react";
+import type { OnboardingData } from "@/utils/templateRequests";
 
 interface OnboardingDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onComplete: (data: any) => void;
+  onComplete: (data: OnboardingData) => Promise<void>;
 }
 
 export function OnboardingDialog({ open, onOpenChange, onComplete }: OnboardingDialogProps) {
-  const [formData, setFormData] = useState({
+  const [isSaving, setIsSaving] = useState(false);
+  const [formData, setFormData] = useState<OnboardingData>({
     // Brand Information
     brandName: '',
     industry: '',
@@ -33,7 +36,7 @@ export function OnboardingDialog({ open, onOpenChange, onComplete }: OnboardingD
     logoUrl: '',
     
     // Content Preferences
-    contentTypes: [] as string[],
+    contentTypes: [],
     toneOfVoice: '',
     keyMessages: '',
     
@@ -42,9 +45,14 @@ export function OnboardingDialog({ open, onOpenChange, onComplete }: OnboardingD
     additionalNotes: ''
   });
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    onComplete(formData);
+    setIsSaving(true);
+    try {
+      await onComplete(formData);
+    } finally {
+      setIsSaving(false);
+    }
   };
 
   const handleInputChange = (field: string, value: string) => {
@@ -244,7 +252,8 @@ export function OnboardingDialog({ open, onOpenChange, onComplete }: OnboardingD
             <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
               Cancel
             </Button>
-            <Button type="submit">
+            <Button type="submit" disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
               Complete Onboarding
             </Button>
           </div>
@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Play, Clock, Tag, Image, Smartphone, Eye } from "lucide-react";
 import { TemplatePreviewModal } from "./TemplatePreviewModal";
+import type { TemplateVariable } from "@/api/template-manager";
 
 interface VideoTemplate {
   id: string;
@@ -16,6 +17,7 @@ interface VideoTemplate {
   status: 'active' | 'pending' | 'draft';
   heygenTemplateId?: string;
   variables?: string[];
+  variableTypes?: Record<string, TemplateVariable>;
   aspectRatio?: 'landscape' | 'portrait';
 }
 
@@ -2,6 +2,8 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Play, Clock, Tag, Image, Smartphone, X } from "lucide-react";
+import type { TemplateVariable } from "@/api/template-manager";
+import { TEMPLATE_VARIABLE_TYPE_LABELS } from "@/utils/templateVariables";
 
 interface VideoTemplate {
   id: string;
@@ -13,6 +15,7 @@ interface VideoTemplate {
   status: 'active' | 'pending' | 'draft';
   heygenTemplateId?: string;
   variables?: string[];
+  variableTypes?: Record<string, TemplateVariable>;
   aspectRatio?: 'landscape' | 'portrait';
 }
 
@@ -162,8 +165,7 @@ export function TemplatePreviewModal({
                               {variable.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())}
                             </div>
                             <div className="text-xs text-gray-500">
-                              {variable.includes('image') ? 'Image URL' : 
-                               variable.includes('url') ? 'Website URL' : 'Text Content'}
+                              {TEMPLATE_VARIABLE_TYPE_LABELS[template.variableTypes?.[variable]?.type] ?? 'Text'}
                             </div>
                           </div>
                         </div>
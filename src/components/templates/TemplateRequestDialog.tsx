@@ -7,6 +7,11 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { useWorkspace } from "@/hooks/useWorkspace";
+import { supabase } from "@/integrations/supabase/client";
+import { Loader2 } from "lucide-react";
 
 interface TemplateRequestDialogProps {
   open: boolean;
@@ -15,6 +20,10 @@ interface TemplateRequestDialogProps {
 
 export function TemplateRequestDialog({ open, onOpenChange }: TemplateRequestDialogProps) {
   const { toast } = useToast();
+  const { user } = useAuth();
+  const { currentWorkspace, canEdit } = useWorkspace();
+  const queryClient = useQueryClient();
+  const [isSubmitting, setIsSubmitting] = useState(false);
   const [formData, setFormData] = useState({
     templateName: '',
     category: '',
@@ -24,14 +33,48 @@ export function TemplateRequestDialog({ open, onOpenChange }: TemplateRequestDia
     urgency: 'normal'
   });
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    console.log('Template request submitted:', formData);
-    
+    if (!currentWorkspace || !user) return;
+
+    if (!formData.category || !formData.duration) {
+      toast({
+        title: "Missing Details",
+        description: "Please choose a category and duration for the template.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    const { error } = await supabase
+      .from('template_requests')
+      .insert({
+        workspace_id: currentWorkspace.id,
+        requested_by: user.id,
+        template_name: formData.templateName.trim(),
+        category: formData.category,
+        duration: formData.duration,
+        description: formData.description.trim(),
+        requirements: formData.specificRequirements.trim() || null,
+        urgency: formData.urgency
+      });
+    setIsSubmitting(false);
+
+    if (error) {
+      console.error('Error submitting template request:', error);
+      toast({
+        title: "Request Failed",
+        description: error.message || "Failed to submit template request",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    queryClient.invalidateQueries({ queryKey: ['template-requests', currentWorkspace.id] });
     toast({
       title: "Template Request Submitted",
-      description: "Our creative team will review your request and get back to you within 2-3 business days.",
+      description: "Our creative team will review your request and get back to you within 2-3 business days. You'll be notified as it progresses.",
     });
     
     onOpenChange(false);
@@ -148,7 +191,8 @@ export function TemplateRequestDialog({ open, onOpenChange }: TemplateRequestDia
             <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
               Cancel
             </Button>
-            <Button type="submit">
+            <Button type="submit" disabled={isSubmitting || !canEdit}>
+              {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
               Submit Request
             </Button>
           </div>
@@ -0,0 +1,68 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ClipboardList } from "lucide-react";
+import { useWorkspace } from "@/hooks/useWorkspace";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  TEMPLATE_REQUEST_STATUS_LABELS,
+  TEMPLATE_REQUEST_STATUS_STYLES,
+  type TemplateRequestStatus,
+} from "@/utils/templateRequests";
+
+// Custom templates this workspace has asked for and where each one stands
+export function TemplateRequestList() {
+  const { currentWorkspace } = useWorkspace();
+
+  const { data: requests } = useQuery({
+    queryKey: ['template-requests', currentWorkspace?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('template_requests')
+        .select('*')
+        .eq('workspace_id', currentWorkspace?.id ?? '')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!currentWorkspace?.id,
+  });
+
+  if (!requests?.length) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <ClipboardList className="h-5 w-5" />
+          <span>Template Requests</span>
+        </CardTitle>
+        <CardDescription>Custom templates requested for this workspace</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {requests.map(request => {
+          const status = request.status as TemplateRequestStatus;
+          return (
+            <div key={request.id} className="flex items-start justify-between gap-4 p-3 border rounded-lg">
+              <div className="space-y-1">
+                <div className="font-medium text-sm">{request.template_name}</div>
+                <div className="text-xs text-muted-foreground">
+                  Requested {new Date(request.created_at).toLocaleDateString()}
+                  {request.duration && ` · ${request.duration}`}
+                  {request.category && ` · ${request.category}`}
+                </div>
+                {request.admin_notes && (
+                  <p className="text-xs text-gray-600">{request.admin_notes}</p>
+                )}
+              </div>
+              <Badge variant="secondary" className={TEMPLATE_REQUEST_STATUS_STYLES[status]}>
+                {TEMPLATE_REQUEST_STATUS_LABELS[status] ?? request.status}
+              </Badge>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
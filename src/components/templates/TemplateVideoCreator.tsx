@@ -46,8 +46,14 @@ export function TemplateVideoCreator({ template, onBack }: TemplateVideoCreatorP
           // Initialize variable values with default suggestions
           const initialValues: Record<string, string> = {};
           templateDetail.variables.forEach(variable => {
-            // Provide smart defaults based on variable names
-            if (variable.toLowerCase().includes('product')) {
+            const spec = templateDetail.variableTypes?.[variable];
+            // The schema's default wins, then a sample for the variable's type,
+            // then smart defaults based on variable names
+            if (spec?.defaultValue) {
+              initialValues[variable] = spec.defaultValue;
+            } else if (spec?.type === 'image') {
+              initialValues[variable] = 'https://images.unsplash.com/photo-1560472354-b33ff0c44a43?w=800&h=600&fit=crop';
+            } else if (variable.toLowerCase().includes('product')) {
               initialValues[variable] = 'Premium Product Name';
             } else if (variable.toLowerCase().includes('brand')) {
               initialValues[variable] = 'Your Brand';
@@ -59,8 +65,6 @@ export function TemplateVideoCreator({ template, onBack }: TemplateVideoCreatorP
               initialValues[variable] = 'Shop Now';
             } else if (variable.toLowerCase().includes('website') || variable.toLowerCase().includes('url')) {
               initialValues[variable] = 'https://yourwebsite.com';
-            } else if (variable.toLowerCase().includes('image')) {
-              initialValues[variable] = 'https://images.unsplash.com/photo-1560472354-b33ff0c44a43?w=800&h=600&fit=crop';
             } else {
               initialValues[variable] = `Enter ${variable.replace(/_/g, ' ')}`;
             }
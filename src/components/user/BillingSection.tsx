@@ -1,62 +1,210 @@
-
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
-import { CreditCard, Download, Eye } from "lucide-react";
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { CreditCard, Download, Eye, FileText, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/useWorkspace";
+import { useWorkspaceUsage } from "@/hooks/useWorkspaceUsage";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  USAGE_TYPES,
+  USAGE_TYPE_LABELS,
+  formatInvoiceAmount,
+  formatPlanPrice,
+  formatQuota,
+  formatUsd,
+} from "@/utils/usage";
+
+const INVOICE_LIMIT = 24;
 
 export function BillingSection() {
+  const { toast } = useToast();
+  const { currentWorkspace } = useWorkspace();
+  const { plan, plans, subscription, usage, estimatedCostUsd, periodStart, isLoading } = useWorkspaceUsage();
+  const [redirecting, setRedirecting] = useState<string | null>(null);
+
+  const isOwner = currentWorkspace?.role === 'owner';
+  const isLapsed = !!subscription && !['active', 'trialing'].includes(subscription.status);
+  const costCap = plan?.cost_cap_usd ?? null;
+  // Workspaces already paying through Stripe change plans in the Customer Portal
+  const hasStripeSubscription = !!subscription?.stripe_subscription_id && subscription.status !== 'canceled';
+  const nextPlan = plans.find(option => option.stripe_price_id && option.sort_order > (plan?.sort_order ?? -1));
+
+  const { data: invoices, isLoading: isLoadingInvoices } = useQuery({
+    queryKey: ['invoices', currentWorkspace?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('invoices')
+        .select('*')
+        .eq('workspace_id', currentWorkspace?.id ?? '')
+        .order('issued_at', { ascending: false })
+        .limit(INVOICE_LIMIT);
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!currentWorkspace?.id && isOwner,
+  });
+
+  // Both actions hand off to a Stripe-hosted page and come back here
+  const openStripe = async (action: 'checkout' | 'portal', planId?: string) => {
+    setRedirecting(planId ?? action);
+    const { data, error } = await supabase.functions.invoke('stripe-billing', {
+      body: {
+        action,
+        planId,
+        workspaceId: currentWorkspace?.id,
+        returnUrl: window.location.href
+      }
+    });
+
+    if (error || !data?.success || !data.url) {
+      setRedirecting(null);
+      toast({
+        title: "Billing Unavailable",
+        description: data?.error || error?.message || "Could not open Stripe",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    window.location.href = data.url;
+  };
+
+  const choosePlan = (planId: string) => hasStripeSubscription ? openStripe('portal') : openStripe('checkout', planId);
+
   return (
     <div className="space-y-6">
       {/* Current Plan */}
       <Card>
         <CardHeader>
           <CardTitle>Current Plan</CardTitle>
-          <CardDescription>Your subscription and usage details</CardDescription>
+          <CardDescription>
+            Your subscription and usage
+            {periodStart && ` since ${new Date(periodStart).toLocaleDateString()}`}
+          </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="flex items-center justify-between">
-            <div>
-              <h3 className="text-lg font-semibold">Professional Plan</h3>
-              <p className="text-sm text-gray-600">$49/month • Billed monthly</p>
+          {isLoading || !plan ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin" />
             </div>
-            <Badge variant="default">Active</Badge>
-          </div>
+          ) : (
+            <>
+              <div className="flex items-center justify-between">
+                <div>
+                  <h3 className="text-lg font-semibold">{plan.name} Plan</h3>
+                  <p className="text-sm text-gray-600">
+                    {formatPlanPrice(plan)}
+                    {subscription?.current_period_end && !isLapsed &&
+                      ` • ${subscription.cancel_at_period_end ? 'Ends' : 'Renews'} ${new Date(subscription.current_period_end).toLocaleDateString()}`}
+                  </p>
+                </div>
+                {isLapsed ? (
+                  <Badge variant="destructive" className="capitalize">{subscription?.status.replace('_', ' ')}</Badge>
+                ) : (
+                  <Badge variant="default">{subscription?.status === 'trialing' ? 'Trial' : 'Active'}</Badge>
+                )}
+              </div>
 
-          <div className="space-y-3">
-            <div className="flex justify-between text-sm">
-              <span>Video generations used</span>
-              <span>45 / 100</span>
-            </div>
-            <Progress value={45} className="w-full" />
-          </div>
+              {USAGE_TYPES.map(usageType => {
+                const row = usage.find(entry => entry.usage_type === usageType);
+                const used = Number(row?.used ?? 0);
+                const quota = row?.quota ?? null;
+                return (
+                  <div key={usageType} className="space-y-2">
+                    <div className="flex justify-between text-sm">
+                      <span>{USAGE_TYPE_LABELS[usageType]} used</span>
+                      <span className={quota !== null && used >= quota ? 'text-red-600 font-medium' : ''}>
+                        {used.toLocaleString()} / {formatQuota(quota)}
+                      </span>
+                    </div>
+                    {quota !== null && (
+                      <Progress value={quota > 0 ? Math.min(100, (used / quota) * 100) : 100} className="w-full" />
+                    )}
+                  </div>
+                );
+              })}
 
-          <div className="flex space-x-2">
-            <Button className="flex items-center space-x-2">
-              <CreditCard className="h-4 w-4" />
-              <span>Upgrade Plan</span>
-            </Button>
-            <Button variant="outline">
-              Manage Subscription
-            </Button>
-          </div>
+              <div className="flex justify-between text-sm pt-2 border-t">
+                <span>Estimated provider cost</span>
+                <span>
+                  {formatUsd(estimatedCostUsd)}
+                  {costCap !== null && ` of ${formatUsd(Number(costCap))} cap`}
+                </span>
+              </div>
+            </>
+          )}
+
+          {isOwner ? (
+            <div className="flex space-x-2">
+              <Button
+                className="flex items-center space-x-2"
+                onClick={() => nextPlan && choosePlan(nextPlan.id)}
+                disabled={!nextPlan || redirecting !== null}
+              >
+                {redirecting === nextPlan?.id ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <CreditCard className="h-4 w-4" />
+                )}
+                <span>{nextPlan ? `Upgrade to ${nextPlan.name}` : 'Upgrade Plan'}</span>
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => openStripe('portal')}
+                disabled={!subscription?.stripe_subscription_id || redirecting !== null}
+              >
+                {redirecting === 'portal' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Manage Subscription
+              </Button>
+            </div>
+          ) : (
+            <p className="text-xs text-gray-500">Only workspace owners can change the plan.</p>
+          )}
         </CardContent>
       </Card>
 
-      {/* Payment Method */}
+      {/* Available Plans */}
       <Card>
         <CardHeader>
-          <CardTitle>Payment Method</CardTitle>
-          <CardDescription>Manage your payment information</CardDescription>
+          <CardTitle>Plans</CardTitle>
+          <CardDescription>Monthly generation limits for each plan</CardDescription>
         </CardHeader>
-        <CardContent className="space-y-4">
-          <div className="flex items-center space-x-4 p-4 border rounded-lg">
-            <CreditCard className="h-8 w-8 text-gray-400" />
-            <div className="flex-1">
-              <p className="font-medium">•••• •••• •••• 4242</p>
-              <p className="text-sm text-gray-600">Expires 12/25</p>
-            </div>
-            <Button variant="outline" size="sm">Update</Button>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            {plans.map(option => (
+              <div
+                key={option.id}
+                className={`p-4 border rounded-lg space-y-2 ${option.id === plan?.id ? 'border-primary bg-primary/5' : ''}`}
+              >
+                <div className="flex items-center justify-between">
+                  <h4 className="font-medium">{option.name}</h4>
+                  {option.id === plan?.id && <Badge variant="secondary">Current</Badge>}
+                </div>
+                <p className="text-sm font-semibold">{formatPlanPrice(option)}</p>
+                <ul className="text-xs text-gray-600 space-y-1">
+                  <li>{formatQuota(option.video_quota)} videos</li>
+                  <li>{formatQuota(option.image_quota)} images</li>
+                  <li>{formatQuota(option.text_quota)} text generations</li>
+                </ul>
+                {isOwner && option.stripe_price_id && option.id !== plan?.id && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="w-full"
+                    onClick={() => choosePlan(option.id)}
+                    disabled={redirecting !== null}
+                  >
+                    {redirecting === option.id && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                    Choose {option.name}
+                  </Button>
+                )}
+              </div>
+            ))}
           </div>
         </CardContent>
       </Card>
@@ -68,31 +216,55 @@ export function BillingSection() {
           <CardDescription>Download your past invoices</CardDescription>
         </CardHeader>
         <CardContent>
-          <div className="space-y-3">
-            {[
-              { date: "Dec 1, 2024", amount: "$49.00", status: "Paid" },
-              { date: "Nov 1, 2024", amount: "$49.00", status: "Paid" },
-              { date: "Oct 1, 2024", amount: "$49.00", status: "Paid" }
-            ].map((invoice, index) => (
-              <div key={index} className="flex items-center justify-between p-3 border rounded-lg">
-                <div>
-                  <p className="font-medium">{invoice.date}</p>
-                  <p className="text-sm text-gray-600">{invoice.amount}</p>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <Badge variant="outline">{invoice.status}</Badge>
-                  <Button variant="ghost" size="sm">
-                    <Eye className="h-4 w-4 mr-1" />
-                    View
-                  </Button>
-                  <Button variant="ghost" size="sm">
-                    <Download className="h-4 w-4 mr-1" />
-                    Download
-                  </Button>
+          {!isOwner ? (
+            <p className="text-sm text-gray-500 text-center py-6">Only workspace owners can see invoices</p>
+          ) : isLoadingInvoices ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : !invoices?.length ? (
+            <div className="text-center py-6 text-gray-500">
+              <FileText className="mx-auto h-8 w-8 mb-2 opacity-50" />
+              <p className="text-sm">No invoices yet</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {invoices.map(invoice => (
+                <div key={invoice.id} className="flex items-center justify-between p-3 border rounded-lg">
+                  <div>
+                    <p className="font-medium">{new Date(invoice.issued_at).toLocaleDateString()}</p>
+                    <p className="text-sm text-gray-600">
+                      {formatInvoiceAmount(invoice.status === 'paid' ? invoice.amount_paid : invoice.amount_due, invoice.currency)}
+                      {invoice.number && ` • ${invoice.number}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Badge variant={invoice.status === 'paid' ? 'outline' : 'destructive'} className="capitalize">
+                      {invoice.status}
+                    </Badge>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={!invoice.hosted_invoice_url}
+                      onClick={() => window.open(invoice.hosted_invoice_url!, '_blank')}
+                    >
+                      <Eye className="h-4 w-4 mr-1" />
+                      View
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={!invoice.invoice_pdf}
+                      onClick={() => window.open(invoice.invoice_pdf!, '_blank')}
+                    >
+                      <Download className="h-4 w-4 mr-1" />
+                      Download
+                    </Button>
+                  </div>
                 </div>
-              </div>
-            ))}
-          </div>
+              ))}
+            </div>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -1,5 +1,5 @@
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -7,32 +7,136 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { Save, Palette } from "lucide-react";
+import { useWorkspace } from "@/hooks/useWorkspace";
+import { supabase } from "@/integrations/supabase/client";
+import { Save, Palette, Plus, X } from "lucide-react";
+
+const DEFAULT_BRAND_DATA = {
+  brandName: "",
+  industry: "",
+  targetAudience: "",
+  keyMessages: "",
+  brandVoice: "professional",
+  benefit1: "",
+  benefit2: "",
+  benefit3: "",
+  benefit4: "",
+  benefit5: "",
+  disclaimer: "",
+  legalInstructions: "",
+  visualTone: "modern",
+  logoUrl: "",
+  colorPalette: [] as string[],
+  headingFont: "",
+  bodyFont: "",
+  bannedWords: ""
+};
 
 export function BrandSettings() {
   const { toast } = useToast();
+  const { currentWorkspace, canEdit } = useWorkspace();
   const [isLoading, setIsLoading] = useState(false);
-  const [brandData, setBrandData] = useState({
-    brandVoice: "professional",
-    benefit1: "Industry-leading performance and reliability",
-    benefit2: "24/7 customer support and service",
-    benefit3: "Cost-effective solutions for your business",
-    benefit4: "Easy integration with existing systems",
-    benefit5: "Scalable to grow with your needs",
-    disclaimer: "Results may vary. Please consult with our specialists.",
-    legalInstructions: "All content must comply with FTC guidelines and local regulations.",
-    visualTone: "modern"
-  });
+  const [brandData, setBrandData] = useState(DEFAULT_BRAND_DATA);
+  const [newColor, setNewColor] = useState("#000000");
+
+  // The brand kit is shared by everyone in the workspace and used by every generation prompt
+  useEffect(() => {
+    const loadBrandProfile = async () => {
+      if (!currentWorkspace) return;
+
+      const { data, error } = await supabase
+        .from('brand_profiles')
+        .select('*')
+        .eq('workspace_id', currentWorkspace.id)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error loading brand profile:', error);
+        return;
+      }
+
+      if (data) {
+        setBrandData({
+          brandName: data.brand_name || "",
+          industry: data.industry || "",
+          targetAudience: data.target_audience || "",
+          keyMessages: data.key_messages || "",
+          brandVoice: data.brand_voice || DEFAULT_BRAND_DATA.brandVoice,
+          benefit1: data.benefits[0] || "",
+          benefit2: data.benefits[1] || "",
+          benefit3: data.benefits[2] || "",
+          benefit4: data.benefits[3] || "",
+          benefit5: data.benefits[4] || "",
+          disclaimer: data.disclaimer || "",
+          legalInstructions: data.legal_instructions || "",
+          visualTone: data.visual_tone || DEFAULT_BRAND_DATA.visualTone,
+          logoUrl: data.logo_url || "",
+          colorPalette: data.color_palette,
+          headingFont: data.heading_font || "",
+          bodyFont: data.body_font || "",
+          bannedWords: data.banned_words.join(", ")
+        });
+      }
+    };
+
+    loadBrandProfile();
+  }, [currentWorkspace]);
+
+  const handleAddColor = () => {
+    if (brandData.colorPalette.includes(newColor)) return;
+    setBrandData({ ...brandData, colorPalette: [...brandData.colorPalette, newColor] });
+  };
+
+  const handleRemoveColor = (color: string) => {
+    setBrandData({ ...brandData, colorPalette: brandData.colorPalette.filter(c => c !== color) });
+  };
 
   const handleSave = async () => {
+    if (!currentWorkspace) return;
+
     setIsLoading(true);
-    // Simulate API call
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    setIsLoading(false);
-    toast({
-      title: "Brand Settings Saved",
-      description: "Your brand settings have been updated successfully.",
-    });
+    try {
+      const { error } = await supabase
+        .from('brand_profiles')
+        .upsert({
+          workspace_id: currentWorkspace.id,
+          brand_name: brandData.brandName.trim() || null,
+          industry: brandData.industry.trim() || null,
+          target_audience: brandData.targetAudience.trim() || null,
+          key_messages: brandData.keyMessages.trim() || null,
+          brand_voice: brandData.brandVoice,
+          benefits: [brandData.benefit1, brandData.benefit2, brandData.benefit3, brandData.benefit4, brandData.benefit5]
+            .map(benefit => benefit.trim())
+            .filter(Boolean),
+          disclaimer: brandData.disclaimer.trim() || null,
+          legal_instructions: brandData.legalInstructions.trim() || null,
+          visual_tone: brandData.visualTone,
+          logo_url: brandData.logoUrl.trim() || null,
+          color_palette: brandData.colorPalette,
+          heading_font: brandData.headingFont.trim() || null,
+          body_font: brandData.bodyFont.trim() || null,
+          banned_words: brandData.bannedWords
+            .split(",")
+            .map(word => word.trim())
+            .filter(Boolean)
+        }, { onConflict: 'workspace_id' });
+
+      if (error) throw error;
+
+      toast({
+        title: "Brand Settings Saved",
+        description: "New generations in this workspace will follow your brand kit.",
+      });
+    } catch (error) {
+      console.error('Error saving brand profile:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save brand settings",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
   };
 
   return (
@@ -43,10 +147,42 @@ export function BrandSettings() {
           <span>Brand Settings</span>
         </CardTitle>
         <CardDescription>
-          Configure your brand voice and messaging for AI-generated content
+          Your brand kit is applied to every AI prompt in {currentWorkspace?.name || 'this workspace'}
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
+        {/* Brand Basics, usually filled in by template onboarding */}
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="brand-name">Brand Name</Label>
+            <Input
+              id="brand-name"
+              value={brandData.brandName}
+              onChange={(e) => setBrandData({ ...brandData, brandName: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="industry">Industry</Label>
+            <Input
+              id="industry"
+              value={brandData.industry}
+              onChange={(e) => setBrandData({ ...brandData, industry: e.target.value })}
+              placeholder="e.g., ecommerce"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="target-audience">Target Audience</Label>
+          <Textarea
+            id="target-audience"
+            value={brandData.targetAudience}
+            onChange={(e) => setBrandData({ ...brandData, targetAudience: e.target.value })}
+            placeholder="Who your content is for"
+            rows={2}
+          />
+        </div>
+
         {/* Brand Voice */}
         <div className="space-y-2">
           <Label htmlFor="brand-voice">Brand Voice</Label>
@@ -61,6 +197,8 @@ export function BrandSettings() {
               <SelectItem value="casual">Casual & Conversational</SelectItem>
               <SelectItem value="innovative">Innovative & Forward-thinking</SelectItem>
               <SelectItem value="trustworthy">Trustworthy & Reliable</SelectItem>
+              <SelectItem value="playful">Playful</SelectItem>
+              <SelectItem value="inspirational">Inspirational</SelectItem>
             </SelectContent>
           </Select>
         </div>
@@ -83,6 +221,17 @@ export function BrandSettings() {
           ))}
         </div>
 
+        <div className="space-y-2">
+          <Label htmlFor="key-messages">Key Messages</Label>
+          <Textarea
+            id="key-messages"
+            value={brandData.keyMessages}
+            onChange={(e) => setBrandData({ ...brandData, keyMessages: e.target.value })}
+            placeholder="Messages that should consistently appear in your content"
+            rows={3}
+          />
+        </div>
+
         {/* Disclaimers */}
         <div className="space-y-2">
           <Label htmlFor="disclaimer">Standard Disclaimer</Label>
@@ -125,8 +274,84 @@ export function BrandSettings() {
           </Select>
         </div>
 
+        {/* Logo */}
+        <div className="space-y-2">
+          <Label htmlFor="logo-url">Logo URL</Label>
+          <div className="flex items-center space-x-3">
+            <Input
+              id="logo-url"
+              value={brandData.logoUrl}
+              onChange={(e) => setBrandData({ ...brandData, logoUrl: e.target.value })}
+              placeholder="https://..."
+            />
+            {brandData.logoUrl && (
+              <img src={brandData.logoUrl} alt="Brand logo" className="h-10 w-10 object-contain border rounded" />
+            )}
+          </div>
+        </div>
+
+        {/* Color Palette */}
+        <div className="space-y-2">
+          <Label>Color Palette</Label>
+          <div className="flex flex-wrap items-center gap-2">
+            {brandData.colorPalette.map((color) => (
+              <div key={color} className="flex items-center space-x-1 border rounded-md pl-1 pr-2 py-1">
+                <span className="h-5 w-5 rounded" style={{ backgroundColor: color }} />
+                <span className="text-xs font-mono">{color}</span>
+                <button onClick={() => handleRemoveColor(color)} aria-label={`Remove ${color}`}>
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+            ))}
+            <input
+              type="color"
+              value={newColor}
+              onChange={(e) => setNewColor(e.target.value)}
+              className="h-8 w-10 cursor-pointer border rounded"
+            />
+            <Button variant="outline" size="sm" onClick={handleAddColor}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Color
+            </Button>
+          </div>
+        </div>
+
+        {/* Fonts */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="heading-font">Heading Font</Label>
+            <Input
+              id="heading-font"
+              value={brandData.headingFont}
+              onChange={(e) => setBrandData({ ...brandData, headingFont: e.target.value })}
+              placeholder="e.g. Montserrat"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="body-font">Body Font</Label>
+            <Input
+              id="body-font"
+              value={brandData.bodyFont}
+              onChange={(e) => setBrandData({ ...brandData, bodyFont: e.target.value })}
+              placeholder="e.g. Open Sans"
+            />
+          </div>
+        </div>
+
+        {/* Banned Words */}
+        <div className="space-y-2">
+          <Label htmlFor="banned-words">Banned Words</Label>
+          <Textarea
+            id="banned-words"
+            value={brandData.bannedWords}
+            onChange={(e) => setBrandData({ ...brandData, bannedWords: e.target.value })}
+            placeholder="Comma-separated words or phrases the AI must never use"
+            rows={2}
+          />
+        </div>
+
         <div className="flex justify-end pt-4">
-          <Button onClick={handleSave} disabled={isLoading} className="flex items-center space-x-2">
+          <Button onClick={handleSave} disabled={isLoading || !canEdit} className="flex items-center space-x-2">
             <Save className="h-4 w-4" />
             <span>{isLoading ? "Saving..." : "Save Brand Settings"}</span>
           </Button>
@@ -5,10 +5,16 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
-import { Save, Share2, Facebook, Instagram, Linkedin, Youtube } from "lucide-react";
+import { Save, Share2, Facebook, Instagram, Linkedin, Youtube, AlertTriangle } from "lucide-react";
+import { useConnectionHealth } from "@/hooks/useConnectionHealth";
+import { useView } from "@/contexts/ViewContext";
+import { PUBLISH_PLATFORM_NAMES } from "@/utils/publishing";
 
 export function SocialMediaSettings() {
   const { toast } = useToast();
+  const { unhealthy } = useConnectionHealth();
+  const { setActiveTab } = useView();
+  const unhealthyConnections = Object.values(unhealthy);
   const [isLoading, setIsLoading] = useState(false);
   const [socialData, setSocialData] = useState({
     facebook: "https://facebook.com/yourpage",
@@ -40,6 +46,25 @@ export function SocialMediaSettings() {
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
+        {unhealthyConnections.length > 0 && (
+          <div className="bg-red-50 p-4 rounded-lg space-y-2">
+            <p className="text-sm text-red-800 flex items-center space-x-2">
+              <AlertTriangle className="h-4 w-4" />
+              <strong>Reconnect needed</strong>
+            </p>
+            <ul className="text-sm text-red-800 list-disc pl-5">
+              {unhealthyConnections.map(connection => (
+                <li key={connection.platform}>
+                  {PUBLISH_PLATFORM_NAMES[connection.platform] || connection.platform}: {connection.error || 'access could not be renewed'}
+                </li>
+              ))}
+            </ul>
+            <Button variant="outline" size="sm" onClick={() => setActiveTab('social')}>
+              Go to Social Profiles
+            </Button>
+          </div>
+        )}
+
         <div className="bg-blue-50 p-4 rounded-lg">
           <p className="text-sm text-blue-800">
             <strong>Coming Soon:</strong> Auto-posting feature will use these links to automatically share your generated videos to your social media accounts.
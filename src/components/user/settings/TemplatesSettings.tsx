@@ -4,6 +4,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/useWorkspace";
 import { Lock, FileText } from "lucide-react";
 import { templateManager, type TemplateDetail, type TemplateVariable } from "@/api/template-manager";
 
@@ -16,6 +17,7 @@ interface AssignedTemplate {
 
 export function TemplatesSettings() {
   const { toast } = useToast();
+  const { currentWorkspace } = useWorkspace();
   const [assignedTemplates, setAssignedTemplates] = useState<AssignedTemplate[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
@@ -25,7 +27,7 @@ export function TemplatesSettings() {
       try {
         console.log('Fetching assigned templates using template manager');
         
-        const templateDetails = await templateManager.getClientTemplates('default');
+        const templateDetails = await templateManager.getClientTemplates(currentWorkspace?.clientId);
         
         // Transform to AssignedTemplate format
         const assignedTemplates: AssignedTemplate[] = templateDetails.map(template => {
@@ -35,6 +37,7 @@ export function TemplatesSettings() {
             type: config.type,
             charLimit: config.charLimit,
             required: config.required,
+            defaultValue: config.defaultValue,
             description: config.description
           }));
 
@@ -63,7 +66,7 @@ export function TemplatesSettings() {
     };
 
     fetchAssignedTemplates();
-  }, [toast]);
+  }, [toast, currentWorkspace?.clientId]);
 
   if (isLoading) {
     return (
@@ -135,7 +138,7 @@ export function TemplatesSettings() {
                           <TableCell>
                             <Badge variant="secondary">{variable.type}</Badge>
                           </TableCell>
-                          <TableCell>{variable.charLimit}</TableCell>
+                          <TableCell>{variable.charLimit ?? "No limit"}</TableCell>
                           <TableCell>
                             <Badge variant={variable.required ? "destructive" : "outline"}>
                               {variable.required ? "Yes" : "No"}
@@ -0,0 +1,335 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Clapperboard, Loader2, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/useWorkspace";
+import { supabase } from "@/integrations/supabase/client";
+import { templateManager, type TemplateVariable } from "@/api/template-manager";
+import { waitForGenerationJob } from "@/utils/generationJobs";
+import { validateTemplateValues, validateTemplateVariable } from "@/utils/templateVariables";
+import { TemplateSelector } from "./TemplateSelector";
+import { InventoryItem } from "./types";
+import { formatVariableName, initializeProductVariables } from "./utils";
+
+type RowStatus = 'suggesting' | 'ready' | 'submitting' | 'queued' | 'running' | 'succeeded' | 'failed';
+
+interface BulkRow {
+  product: InventoryItem;
+  values: Record<string, string>;
+  status: RowStatus;
+  error?: string;
+}
+
+const STATUS_LABELS: Record<RowStatus, string> = {
+  suggesting: 'Suggesting...',
+  ready: 'Ready',
+  submitting: 'Submitting...',
+  queued: 'Queued',
+  running: 'Rendering',
+  succeeded: 'Done',
+  failed: 'Failed',
+};
+
+const STATUS_STYLES: Record<RowStatus, string> = {
+  suggesting: 'bg-gray-100 text-gray-700',
+  ready: 'bg-blue-100 text-blue-800',
+  submitting: 'bg-yellow-100 text-yellow-800',
+  queued: 'bg-yellow-100 text-yellow-800',
+  running: 'bg-yellow-100 text-yellow-800',
+  succeeded: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+interface BulkTemplateVideoDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  products: InventoryItem[];
+}
+
+export function BulkTemplateVideoDialog({ isOpen, onClose, products }: BulkTemplateVideoDialogProps) {
+  const { toast } = useToast();
+  const { currentWorkspace } = useWorkspace();
+  const [selectedTemplate, setSelectedTemplate] = useState("");
+  const [variables, setVariables] = useState<string[]>([]);
+  const [variableTypes, setVariableTypes] = useState<Record<string, TemplateVariable>>({});
+  const [rows, setRows] = useState<BulkRow[]>([]);
+  const [isLoadingTemplate, setIsLoadingTemplate] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { data: templates = [] } = useQuery({
+    queryKey: ['template-details', currentWorkspace?.clientId],
+    queryFn: () => templateManager.getClientTemplates(currentWorkspace?.clientId),
+    enabled: isOpen,
+  });
+
+  const updateRow = (productId: string, update: Partial<BulkRow>) => {
+    setRows(prev => prev.map(row => row.product.id === productId ? { ...row, ...update } : row));
+  };
+
+  const updateValue = (productId: string, variable: string, value: string) => {
+    setRows(prev => prev.map(row => row.product.id === productId
+      ? { ...row, values: { ...row.values, [variable]: value } }
+      : row
+    ));
+  };
+
+  // Feed values first, then AI suggestions as they arrive product by product
+  const prefillRows = async (templateVariables: string[]) => {
+    const valuesFor = (product: InventoryItem, suggestions?: Record<string, string>) =>
+      Object.fromEntries(Object.entries(initializeProductVariables(templateVariables, product, suggestions))
+        .map(([variable, state]) => [variable, state.aiSuggested || state.extracted]));
+
+    setRows(products.map(product => ({
+      product,
+      values: valuesFor(product),
+      status: templateVariables.length > 0 ? 'suggesting' : 'ready'
+    })));
+
+    if (templateVariables.length === 0) return;
+
+    for (const product of products) {
+      try {
+        const { data, error } = await supabase.functions.invoke('openai-variable-suggestions', {
+          body: {
+            product,
+            templateVariables,
+            workspaceId: currentWorkspace?.id
+          }
+        });
+
+        if (error) throw error;
+        updateRow(product.id, { values: valuesFor(product, data?.suggestions), status: 'ready' });
+      } catch (error) {
+        console.error(`AI suggestions failed for ${product.name}:`, error);
+        updateRow(product.id, { status: 'ready' });
+      }
+    }
+  };
+
+  const handleTemplateSelect = async (templateId: string) => {
+    setSelectedTemplate(templateId);
+    setIsLoadingTemplate(true);
+    try {
+      const detail = await templateManager.getTemplateDetail(templateId, true);
+      const templateVariables = detail?.variables ?? templates.find(t => t.id === templateId)?.variables ?? [];
+      setVariables(templateVariables);
+      setVariableTypes(detail?.variableTypes ?? {});
+      setIsLoadingTemplate(false);
+      await prefillRows(templateVariables);
+    } catch (error) {
+      console.error('Error loading template detail:', error);
+      toast({
+        title: "Error",
+        description: "Could not load template variables. Please try another template.",
+        variant: "destructive"
+      });
+      setIsLoadingTemplate(false);
+    }
+  };
+
+  // Follow the HeyGen job until the webhook settles it
+  const trackJob = async (productId: string, jobId: string) => {
+    try {
+      const job = await waitForGenerationJob(jobId, update => {
+        updateRow(productId, { status: update.status as RowStatus });
+      });
+      updateRow(productId, { status: job.status as RowStatus, error: job.error ?? undefined });
+    } catch (error) {
+      console.error(`Lost track of job ${jobId}:`, error);
+    }
+  };
+
+  const handleSubmit = async () => {
+    const pending = rows.filter(row => row.status === 'ready' || row.status === 'failed');
+    const invalid = pending.filter(row =>
+      Object.keys(validateTemplateValues(variables, variableTypes, row.values)).length > 0
+    );
+    if (invalid.length > 0) {
+      toast({
+        title: "Fix Template Variables",
+        description: `Check the highlighted cells for ${invalid.map(row => row.product.name).join(', ')}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    let submitted = 0;
+
+    for (const row of pending) {
+      updateRow(row.product.id, { status: 'submitting', error: undefined });
+      try {
+        const { data, error } = await supabase.functions.invoke('heygen-direct', {
+          body: {
+            templateId: selectedTemplate,
+            productId: row.product.id,
+            templateData: {
+              extracted: {},
+              aiSuggested: {},
+              userImproved: row.values
+            },
+            instruction: `Create video using template ${selectedTemplate} with product: ${row.product.name}`,
+            workspaceId: currentWorkspace?.id
+          }
+        });
+
+        if (error) throw error;
+        if (!data?.success) throw new Error(data?.error || 'Failed to create video');
+
+        submitted++;
+        updateRow(row.product.id, { status: 'running' });
+        if (data.job_id) {
+          trackJob(row.product.id, data.job_id);
+        }
+      } catch (error) {
+        console.error(`Video submission failed for ${row.product.name}:`, error);
+        updateRow(row.product.id, {
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Failed to create video'
+        });
+      }
+    }
+
+    setIsSubmitting(false);
+    toast({
+      title: "🎬 HeyGen Videos Started",
+      description: `${submitted} of ${pending.length} videos submitted. They appear in the Asset Library as HeyGen finishes them.`,
+      variant: submitted < pending.length ? "destructive" : "default",
+    });
+  };
+
+  const handleClose = () => {
+    setSelectedTemplate("");
+    setVariables([]);
+    setVariableTypes({});
+    setRows([]);
+    onClose();
+  };
+
+  const finished = rows.filter(row => row.status === 'succeeded' || row.status === 'failed').length;
+  const started = rows.filter(row => !['suggesting', 'ready'].includes(row.status)).length;
+  const canSubmit = !!selectedTemplate && !isSubmitting
+    && rows.some(row => row.status === 'ready' || row.status === 'failed')
+    && !rows.some(row => row.status === 'suggesting');
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Clapperboard className="h-5 w-5" />
+            <span>Bulk Template Videos</span>
+          </DialogTitle>
+          <DialogDescription>
+            Create one HeyGen video per product. Values are pre-filled from the feed and AI suggestions; edit any cell before creating.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <TemplateSelector
+            templates={templates}
+            selectedTemplate={selectedTemplate}
+            onTemplateSelect={handleTemplateSelect}
+          />
+
+          {isLoadingTemplate ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground py-6 justify-center">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading template variables...
+            </div>
+          ) : rows.length > 0 && (
+            <>
+              {started > 0 && (
+                <div className="space-y-1">
+                  <div className="flex justify-between text-xs text-muted-foreground">
+                    <span>{finished} of {rows.length} finished</span>
+                    <span>{started} submitted</span>
+                  </div>
+                  <Progress value={(finished / rows.length) * 100} />
+                </div>
+              )}
+
+              <div className="border rounded-lg overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-slate-700">
+                      <TableHead className="text-white min-w-[160px]">Product</TableHead>
+                      {variables.map(variable => (
+                        <TableHead key={variable} className="text-white min-w-[180px]" title={variableTypes[variable]?.description}>
+                          {formatVariableName(variable)}
+                        </TableHead>
+                      ))}
+                      <TableHead className="text-white w-28">Status</TableHead>
+                      <TableHead className="w-10" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.map(row => {
+                      const locked = !['ready', 'failed'].includes(row.status);
+                      return (
+                        <TableRow key={row.product.id}>
+                          <TableCell className="font-medium text-sm">{row.product.name}</TableCell>
+                          {variables.map(variable => {
+                            const error = locked ? null : validateTemplateVariable(variableTypes[variable], row.values[variable]);
+                            return (
+                              <TableCell key={variable}>
+                                <Input
+                                  value={row.values[variable] ?? ""}
+                                  onChange={(e) => updateValue(row.product.id, variable, e.target.value)}
+                                  placeholder={variableTypes[variable]?.defaultValue}
+                                  disabled={locked}
+                                  title={error ?? undefined}
+                                  className={`h-8 text-sm ${error ? 'border-red-400' : ''}`}
+                                />
+                              </TableCell>
+                            );
+                          })}
+                          <TableCell>
+                            <Badge className={STATUS_STYLES[row.status]} title={row.error}>
+                              {STATUS_LABELS[row.status]}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setRows(prev => prev.filter(other => other.product.id !== row.product.id))}
+                              disabled={locked}
+                              title="Leave this product out"
+                            >
+                              <X className="h-3 w-3" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose}>
+            {started > 0 ? 'Close' : 'Cancel'}
+          </Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit}>
+            {isSubmitting ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Clapperboard className="h-4 w-4 mr-2" />
+            )}
+            Create {rows.filter(row => row.status === 'ready' || row.status === 'failed').length} Videos
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,6 +3,8 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { CheckCircle, Check } from "lucide-react";
+import type { TemplateVariable } from "@/api/template-manager";
+import { validateTemplateVariable } from "@/utils/templateVariables";
 import { ProductVariableState, InventoryItem } from './types';
 import { formatVariableName } from './utils';
 
@@ -10,6 +12,7 @@ interface ProductVariableTableProps {
   selectedProduct: InventoryItem;
   templateVariables: string[];
   productVariables: Record<string, ProductVariableState>;
+  variableTypes?: Record<string, TemplateVariable>;
   onUpdateProductVariable: (variable: string, field: keyof ProductVariableState, value: string | boolean) => void;
 }
 
@@ -17,6 +20,7 @@ export function ProductVariableTable({
   selectedProduct,
   templateVariables,
   productVariables,
+  variableTypes,
   onUpdateProductVariable
 }: ProductVariableTableProps) {
   const getCheckedCount = () => {
@@ -50,6 +54,9 @@ export function ProductVariableTable({
           <TableBody>
             {templateVariables.map((variable) => {
               const varData = productVariables[variable];
+              const spec = variableTypes?.[variable];
+              const value = varData?.aiSuggested || varData?.extracted;
+              const error = validateTemplateVariable(spec, value);
               return (
                 <TableRow key={variable} className={varData?.checked ? "bg-green-50" : ""}>
                   <TableCell className="w-24">
@@ -77,6 +84,11 @@ export function ProductVariableTable({
                     <div className="break-words text-sm leading-tight">
                       {formatVariableName(variable)}
                     </div>
+                    {spec && (
+                      <div className="text-xs text-gray-500 font-normal mt-1" title={spec.description}>
+                        {spec.type}{spec.charLimit ? ` · max ${spec.charLimit}` : ''}{spec.required === false ? ' · optional' : ''}
+                      </div>
+                    )}
                   </TableCell>
                   <TableCell className="text-sm text-gray-600 w-1/4">
                     <div className="break-words whitespace-normal text-xs leading-relaxed p-2 bg-gray-50 rounded min-h-[2rem] max-h-20 overflow-y-auto">
@@ -87,14 +99,17 @@ export function ProductVariableTable({
                     <textarea
                       value={varData?.aiSuggested || ""}
                       onChange={(e) => onUpdateProductVariable(variable, 'aiSuggested', e.target.value)}
-                      placeholder="Enter value..."
-                      className="w-full min-h-[3rem] max-h-24 p-2 text-xs border border-gray-300 rounded resize-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      placeholder={spec?.defaultValue || "Enter value..."}
+                      className={`w-full min-h-[3rem] max-h-24 p-2 text-xs border rounded resize-none focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                        error ? 'border-red-400' : 'border-gray-300'
+                      }`}
                       style={{ 
                         wordWrap: 'break-word',
                         overflowWrap: 'break-word',
                         whiteSpace: 'pre-wrap'
                       }}
                     />
+                    {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
                   </TableCell>
                 </TableRow>
               );
@@ -1,5 +1,6 @@
 
 import { ProductVariableState, InventoryItem } from './types';
+import { getProductLink } from '@/utils/productLink';
 
 export const extractProductData = (variable: string, selectedProduct: InventoryItem): string => {
   switch (variable) {
@@ -15,6 +16,8 @@ export const extractProductData = (variable: string, selectedProduct: InventoryI
       return selectedProduct.description || "";
     case "product_image":
       return selectedProduct.images?.[0] || "";
+    case "website_url":
+      return getProductLink(selectedProduct.metadata) || "";
     // Additional mappings for better extraction
     case "product_discount":
       return ""; // Will be filled by AI suggestion
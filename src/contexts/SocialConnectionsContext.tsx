@@ -1,5 +1,6 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { SOCIAL_CONNECTION_COLUMNS } from '@/utils/socialConnections';
 
 // Types
 interface SocialConnection {
@@ -9,8 +10,6 @@ interface SocialConnection {
   platform_user_id: string | null;
   platform_username: string | null;
   platform_display_name: string | null;
-  access_token: string;
-  refresh_token: string | null;
   token_expires_at: string | null;
   scope: string | null;
   metadata: any;
@@ -110,35 +109,13 @@ export function SocialConnectionsProvider({ children }: SocialConnectionsProvide
     try {
       const { data, error } = await supabase
         .from('user_social_connections')
-        .select('*')
-        .eq('user_id', 'default_user')
+        .select(SOCIAL_CONNECTION_COLUMNS)
         .eq('is_active', true)
         .order('connected_at', { ascending: false });
 
       if (error) {
         console.log('Database not ready or table does not exist:', error.message);
-        // Add mock Facebook connection for demo purposes when database is not available
-        const mockConnections: SocialConnection[] = [{
-          id: 'mock-facebook',
-          user_id: 'default_user',
-          platform: 'facebook',
-          platform_user_id: 'demo_facebook_id',
-          platform_username: 'mybrand',
-          platform_display_name: 'My Brand',
-          access_token: 'demo_access_token_facebook',
-          refresh_token: null,
-          token_expires_at: null,
-          scope: 'pages_manage_posts,pages_read_engagement',
-          metadata: { page_id: 'demo_page_id', page_name: 'My Brand Page' },
-          connected_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          is_active: true
-        }];
-        const connectionsMap = mockConnections.reduce((acc, conn) => {
-          acc[conn.platform] = conn;
-          return acc;
-        }, {} as Record<string, SocialConnection>);
-        setConnections(connectionsMap);
+        setConnections({});
         setLastUpdated(new Date());
         return;
       }
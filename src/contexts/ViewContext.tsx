@@ -1,10 +1,11 @@
 
 import { createContext, useContext, ReactNode, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
 
 interface ViewContextType {
   isAdmin: boolean;
-  activeTab: 'inventory' | 'library' | 'templates' | 'user' | 'social';
-  setActiveTab: (tab: 'inventory' | 'library' | 'templates' | 'user' | 'social') => void;
+  activeTab: 'inventory' | 'campaigns' | 'library' | 'templates' | 'calendar' | 'user' | 'social';
+  setActiveTab: (tab: 'inventory' | 'campaigns' | 'library' | 'templates' | 'calendar' | 'user' | 'social') => void;
   selectedProduct: any | null;
   setSelectedProduct: (product: any | null) => void;
 }
@@ -12,9 +13,10 @@ interface ViewContextType {
 const ViewContext = createContext<ViewContextType | undefined>(undefined);
 
 export function ViewProvider({ children }: { children: ReactNode }) {
-  // Set to false to default to user mode, or true for admin mode
-  const isAdmin = false;
-  const [activeTab, setActiveTab] = useState<'inventory' | 'library' | 'templates' | 'user' | 'social'>('inventory');
+  const { user } = useAuth();
+  // Admin role is assigned server-side through the user's app_metadata
+  const isAdmin = user?.app_metadata?.role === 'admin';
+  const [activeTab, setActiveTab] = useState<'inventory' | 'campaigns' | 'library' | 'templates' | 'calendar' | 'user' | 'social'>('inventory');
   const [selectedProduct, setSelectedProduct] = useState<any | null>(null);
 
   return (
@@ -0,0 +1,93 @@
+import { ReactNode, useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { CURRENT_WORKSPACE_STORAGE_KEY, WorkspaceContext, type Workspace, type WorkspaceRole } from './workspace';
+
+export function WorkspaceProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [currentWorkspaceId, setCurrentWorkspaceId] = useState<string | null>(
+    () => localStorage.getItem(CURRENT_WORKSPACE_STORAGE_KEY)
+  );
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refreshWorkspaces = useCallback(async () => {
+    if (!user) {
+      setWorkspaces([]);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('workspace_members')
+        .select('role, client_configs(id, client_id, client_name, require_approval)')
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+
+      const memberships: Workspace[] = (data || [])
+        .filter(membership => membership.client_configs)
+        .map(membership => ({
+          id: membership.client_configs!.id,
+          clientId: membership.client_configs!.client_id,
+          name: membership.client_configs!.client_name,
+          role: membership.role as WorkspaceRole,
+          requireApproval: membership.client_configs!.require_approval
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+
+      setWorkspaces(memberships);
+    } catch (error) {
+      console.error('Error loading workspaces:', error);
+      setWorkspaces([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    refreshWorkspaces();
+  }, [refreshWorkspaces]);
+
+  // Fall back to the first workspace when the remembered one is no longer available
+  const currentWorkspace = workspaces.find(w => w.id === currentWorkspaceId) || workspaces[0] || null;
+
+  useEffect(() => {
+    if (currentWorkspace) {
+      localStorage.setItem(CURRENT_WORKSPACE_STORAGE_KEY, currentWorkspace.id);
+    }
+  }, [currentWorkspace]);
+
+  const switchWorkspace = (workspaceId: string) => {
+    localStorage.setItem(CURRENT_WORKSPACE_STORAGE_KEY, workspaceId);
+    setCurrentWorkspaceId(workspaceId);
+  };
+
+  const createWorkspace = async (name: string) => {
+    const { data: workspaceId, error } = await supabase.rpc('create_workspace', {
+      workspace_name: name
+    });
+
+    if (error) throw error;
+
+    await refreshWorkspaces();
+    switchWorkspace(workspaceId);
+
+    return workspaceId;
+  };
+
+  return (
+    <WorkspaceContext.Provider value={{
+      workspaces,
+      currentWorkspace,
+      isLoading,
+      canEdit: currentWorkspace?.role === 'owner' || currentWorkspace?.role === 'editor',
+      switchWorkspace,
+      createWorkspace,
+      refreshWorkspaces
+    }}>
+      {children}
+    </WorkspaceContext.Provider>
+  );
+}
@@ -0,0 +1,27 @@
+import { createContext } from 'react';
+
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer';
+
+export interface Workspace {
+  id: string;
+  clientId: string;
+  name: string;
+  role: WorkspaceRole;
+  // Only approved assets may be published
+  requireApproval: boolean;
+}
+
+interface WorkspaceContextType {
+  workspaces: Workspace[];
+  currentWorkspace: Workspace | null;
+  isLoading: boolean;
+  canEdit: boolean;
+  switchWorkspace: (workspaceId: string) => void;
+  createWorkspace: (name: string) => Promise<string>;
+  refreshWorkspaces: () => Promise<void>;
+}
+
+// Shared with the OAuth callback pages, which render outside the provider
+export const CURRENT_WORKSPACE_STORAGE_KEY = 'feedgenesis.currentWorkspaceId';
+
+export const WorkspaceContext = createContext<WorkspaceContextType | undefined>(undefined);
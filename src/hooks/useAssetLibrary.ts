@@ -2,6 +2,7 @@
 import { useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { useWorkspace } from '@/hooks/useWorkspace';
 import { downloadAndStoreAsset } from '@/utils/assetStorage';
 
 export interface AssetLibraryItem {
@@ -24,6 +25,7 @@ export interface AssetLibraryItem {
 export function useAssetLibrary() {
   const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
+  const { currentWorkspace } = useWorkspace();
 
   const saveToLibrary = async (asset: {
     title: string;
@@ -66,7 +68,8 @@ export function useAssetLibrary() {
         .from('asset_library')
         .insert([{
           ...asset,
-          asset_url: finalAssetUrl
+          asset_url: finalAssetUrl,
+          workspace_id: currentWorkspace?.id
         }])
         .select()
         .single();
@@ -99,11 +102,14 @@ export function useAssetLibrary() {
     favorited?: boolean;
     tags?: string[];
   }) => {
+    if (!currentWorkspace) return [];
+
     setIsLoading(true);
     try {
       let query = supabase
         .from('asset_library')
         .select('*')
+        .eq('workspace_id', currentWorkspace.id)
         .order('created_at', { ascending: false });
 
       if (filters?.asset_type) {
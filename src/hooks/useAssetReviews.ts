@@ -0,0 +1,77 @@
+import { useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useWorkspace } from '@/hooks/useWorkspace';
+import type { ReviewComment, ReviewStatus } from '@/utils/assetReview';
+
+export type ReviewableAsset = Tables<'generated_assets'> & {
+  asset_review_comments: ReviewComment[];
+};
+
+const REVIEW_LIMIT = 50;
+
+// The workspace's generated assets in one review status, each with its
+// comment thread, kept live over Realtime
+export function useAssetReviews(status: ReviewStatus) {
+  const { currentWorkspace } = useWorkspace();
+  const queryClient = useQueryClient();
+  const workspaceId = currentWorkspace?.id;
+
+  const { data: assets = [], isLoading, isFetching, refetch } = useQuery({
+    queryKey: ['asset-reviews', workspaceId, status],
+    queryFn: async () => {
+      let query = supabase
+        .from('generated_assets')
+        .select('*, asset_review_comments(*)')
+        .eq('workspace_id', workspaceId ?? '')
+        .eq('review_status', status)
+        .order('created_at', { ascending: false })
+        .limit(REVIEW_LIMIT);
+
+      // Drafts still rendering (or that failed) have no URL to review yet
+      if (status === 'draft') {
+        query = query.like('url', 'http%');
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      return data.map(asset => ({
+        ...asset,
+        asset_review_comments: [...asset.asset_review_comments]
+          .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      }));
+    },
+    enabled: !!workspaceId,
+  });
+
+  useEffect(() => {
+    if (!workspaceId) return;
+
+    const invalidate = () => {
+      queryClient.invalidateQueries({ queryKey: ['asset-reviews', workspaceId] });
+      queryClient.invalidateQueries({ queryKey: ['asset-review-statuses', workspaceId] });
+    };
+
+    const channel = supabase
+      .channel(`asset-reviews-${workspaceId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'generated_assets', filter: `workspace_id=eq.${workspaceId}` },
+        invalidate
+      )
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'asset_review_comments', filter: `workspace_id=eq.${workspaceId}` },
+        invalidate
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [workspaceId, queryClient]);
+
+  return { assets, isLoading, isFetching, refetch };
+}
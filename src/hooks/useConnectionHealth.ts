@@ -0,0 +1,36 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useWorkspace } from '@/hooks/useWorkspace';
+
+export interface UnhealthyConnection {
+  platform: string;
+  error: string | null;
+  checkedAt: string | null;
+}
+
+// Connections the token refresh cron could not renew, keyed by platform
+export function useConnectionHealth() {
+  const { currentWorkspace } = useWorkspace();
+
+  const { data: unhealthy = {} } = useQuery({
+    queryKey: ['connection-health', currentWorkspace?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('user_social_connections')
+        .select('platform, health_error, health_checked_at')
+        .eq('workspace_id', currentWorkspace?.id ?? '')
+        .eq('is_active', true)
+        .eq('health_status', 'needs_reconnect');
+
+      if (error) throw error;
+      return Object.fromEntries(data.map(connection => [connection.platform, {
+        platform: connection.platform,
+        error: connection.health_error,
+        checkedAt: connection.health_checked_at
+      }])) as Record<string, UnhealthyConnection>;
+    },
+    enabled: !!currentWorkspace?.id,
+  });
+
+  return { unhealthy };
+}
@@ -2,6 +2,7 @@
 import { useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/useWorkspace";
 
 interface GeneratedContent {
   content: string;
@@ -34,6 +35,7 @@ interface UseContentGenerationProps {
 export function useContentGeneration({ onSuccess, productInfo }: UseContentGenerationProps = {}) {
   const [isGenerating, setIsGenerating] = useState(false);
   const { toast } = useToast();
+  const { currentWorkspace } = useWorkspace();
 
   const generateContent = async (
     instruction: string, 
@@ -75,7 +77,8 @@ export function useContentGeneration({ onSuccess, productInfo }: UseContentGener
             useSalesLanguage: formatSpecs.useSalesLanguage,
             channel: formatSpecs.channel,
             format: formatSpecs.format
-          } : null
+          } : null,
+          workspaceId: currentWorkspace?.id
         }
       });
 
@@ -0,0 +1,125 @@
+import { useState, useCallback, useEffect } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { useWorkspace } from '@/hooks/useWorkspace';
+import { useOAuthPopup } from '@/hooks/useOAuthPopup';
+import { invokeOAuth } from '@/utils/oauthProviders';
+
+interface FacebookPageInfo {
+  id: string;
+  name: string;
+  category?: string | null;
+}
+
+export function useFacebookAuth() {
+  const [isConnected, setIsConnected] = useState(false);
+  const [needsPageSelection, setNeedsPageSelection] = useState(false);
+  const [page, setPage] = useState<FacebookPageInfo | null>(null);
+  const [pages, setPages] = useState<FacebookPageInfo[]>([]);
+  const { toast } = useToast();
+  const { currentWorkspace } = useWorkspace();
+
+  const workspaceId = currentWorkspace?.id;
+
+  const invoke = useCallback(
+    (action: string, extra: Record<string, unknown> = {}) => invokeOAuth('facebook', action, { workspaceId, ...extra }),
+    [workspaceId]
+  );
+
+  // Connection state lives server-side so page tokens never reach the browser
+  const refresh = useCallback(async () => {
+    if (!workspaceId) {
+      setIsConnected(false);
+      setNeedsPageSelection(false);
+      setPage(null);
+      setPages([]);
+      return;
+    }
+
+    try {
+      const data = await invoke('check_connection');
+      setIsConnected(data.connected);
+      setNeedsPageSelection(data.needsPageSelection);
+      setPage(data.page);
+      setPages(data.pages || []);
+    } catch (error) {
+      console.log('No existing Facebook connection:', error);
+      setIsConnected(false);
+      setNeedsPageSelection(false);
+      setPage(null);
+      setPages([]);
+    }
+  }, [invoke, workspaceId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const { connect, isConnecting } = useOAuthPopup('facebook', refresh);
+
+  const loadPages = useCallback(async () => {
+    try {
+      const data = await invoke('list_pages');
+      setPages(data.pages);
+    } catch (error) {
+      toast({
+        title: "Could not load Pages",
+        description: error.message || "Failed to load Facebook Pages",
+        variant: "destructive",
+      });
+    }
+  }, [invoke, toast]);
+
+  const selectPage = useCallback(async (pageId: string) => {
+    try {
+      const data = await invoke('select_page', { pageId });
+      setPage(data.page);
+      setIsConnected(true);
+      setNeedsPageSelection(false);
+
+      toast({
+        title: "Facebook Page Selected",
+        description: `Posts will be published to ${data.page.name}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Page Selection Failed",
+        description: error.message || "Failed to select Facebook Page",
+        variant: "destructive",
+      });
+    }
+  }, [invoke, toast]);
+
+  const disconnect = useCallback(async () => {
+    try {
+      await invoke('disconnect');
+
+      setIsConnected(false);
+      setNeedsPageSelection(false);
+      setPage(null);
+      setPages([]);
+
+      toast({
+        title: "Facebook Disconnected",
+        description: "Successfully disconnected from Facebook",
+      });
+    } catch (error) {
+      toast({
+        title: "Disconnect Failed",
+        description: "Failed to disconnect Facebook account",
+        variant: "destructive",
+      });
+    }
+  }, [invoke, toast]);
+
+  return {
+    connect,
+    disconnect,
+    loadPages,
+    selectPage,
+    isConnecting,
+    isConnected,
+    needsPageSelection,
+    page,
+    pages
+  };
+}
@@ -0,0 +1,82 @@
+import { useEffect, useRef } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useWorkspace } from '@/hooks/useWorkspace';
+import type { GenerationJob } from '@/utils/generationJobs';
+
+const JOB_LIMIT = 100;
+
+interface UseGenerationJobsOptions {
+  // Called once when a job moves to succeeded or failed
+  onJobSettled?: (job: GenerationJob) => void;
+}
+
+/**
+ * The current workspace's recent generation jobs, kept live over Realtime so
+ * lists can show the progress, stage and ETA the workers last stored.
+ */
+export function useGenerationJobs({ onJobSettled }: UseGenerationJobsOptions = {}) {
+  const { currentWorkspace } = useWorkspace();
+  const queryClient = useQueryClient();
+  const workspaceId = currentWorkspace?.id;
+  const onJobSettledRef = useRef(onJobSettled);
+  onJobSettledRef.current = onJobSettled;
+
+  const { data: jobs = [] } = useQuery({
+    queryKey: ['generation-jobs', workspaceId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('generation_jobs')
+        .select('*')
+        .eq('workspace_id', workspaceId ?? '')
+        .order('created_at', { ascending: false })
+        .limit(JOB_LIMIT);
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!workspaceId,
+  });
+
+  useEffect(() => {
+    if (!workspaceId) return;
+
+    const channel = supabase
+      .channel(`generation-jobs-${workspaceId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'generation_jobs', filter: `workspace_id=eq.${workspaceId}` },
+        (payload) => {
+          if (payload.eventType === 'DELETE') return;
+          const job = payload.new as GenerationJob;
+
+          let previous: GenerationJob | undefined;
+          queryClient.setQueryData<GenerationJob[]>(['generation-jobs', workspaceId], (current = []) => {
+            previous = current.find(existing => existing.id === job.id);
+            return previous
+              ? current.map(existing => existing.id === job.id ? job : existing)
+              : [job, ...current];
+          });
+
+          const settled = job.status === 'succeeded' || job.status === 'failed';
+          if (settled && previous?.status !== job.status) {
+            onJobSettledRef.current?.(job);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [workspaceId, queryClient]);
+
+  // HeyGen jobs point at their library entry; Runway jobs at the generated asset it was saved from
+  const jobForAsset = (asset: { id: string; original_asset_id?: string | null }) =>
+    jobs.find(job =>
+      job.asset_library_id === asset.id ||
+      (!!asset.original_asset_id && job.generated_asset_id === asset.original_asset_id)
+    );
+
+  return { jobs, jobForAsset };
+}
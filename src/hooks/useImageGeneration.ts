@@ -2,6 +2,8 @@
 import { useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/useWorkspace";
+import { waitForGenerationJob } from "@/utils/generationJobs";
 
 interface GeneratedImage {
   id: string;
@@ -11,6 +13,7 @@ interface GeneratedImage {
   timestamp: Date;
   status?: string;
   runway_task_id?: string;
+  job_id?: string;
   message?: string;
 }
 
@@ -32,13 +35,16 @@ interface UseImageGenerationProps {
 
 export function useImageGeneration({ onSuccess }: UseImageGenerationProps = {}) {
   const [isGenerating, setIsGenerating] = useState(false);
+  const [progress, setProgress] = useState(0);
   const { toast } = useToast();
+  const { currentWorkspace } = useWorkspace();
 
   const generateImage = async (
     instruction: string, 
     formatSpecs?: FormatSpecs
   ): Promise<GeneratedImage | null> => {
     setIsGenerating(true);
+    setProgress(0);
     
     try {
       console.log('Starting image generation with instruction:', instruction);
@@ -62,7 +68,7 @@ export function useImageGeneration({ onSuccess }: UseImageGenerationProps = {})
       console.log('Sending request to RunwayML with format specs:', requestBody);
       
       const { data, error } = await supabase.functions.invoke('runwayml-generate', {
-        body: requestBody
+        body: { ...requestBody, workspaceId: currentWorkspace?.id }
       });
 
       console.log('Image generation response:', data);
@@ -76,6 +82,39 @@ export function useImageGeneration({ onSuccess }: UseImageGenerationProps = {})
         throw new Error(data.error || 'Failed to generate image');
       }
 
+      // Runway tasks are queued; wait for the worker to finish the job
+      if (data.job_id) {
+        toast({
+          title: "Image Generation Started",
+          description: `Creating ${formatSpecs?.aspectRatio || '1:1'} image with dimensions ${formatSpecs?.dimensions || '1024x1024'}. This may take a few minutes.`,
+        });
+
+        const job = await waitForGenerationJob(data.job_id, (update) => setProgress(Number(update.progress)));
+
+        if (job.status === 'failed') {
+          throw new Error(job.error || 'Failed to generate image');
+        }
+
+        const image: GeneratedImage = {
+          id: job.generated_asset_id || job.id,
+          url: job.result_url!,
+          instruction: instruction,
+          source_system: 'runway',
+          timestamp: new Date(),
+          status: job.status,
+          runway_task_id: job.provider_task_id || undefined,
+          job_id: job.id
+        };
+
+        toast({
+          title: "Image Generated",
+          description: `Your ${formatSpecs?.aspectRatio || '1:1'} image (${formatSpecs?.dimensions || '1024x1024'}) has been created successfully with format: ${formatSpecs?.specification || 'default'}!`,
+        });
+
+        onSuccess?.(image);
+        return image;
+      }
+
       const image: GeneratedImage = {
         id: data.asset_id || `image-${Date.now()}`,
         url: data.asset_url,
@@ -124,6 +163,7 @@ export function useImageGeneration({ onSuccess }: UseImageGenerationProps = {})
 
   return {
     generateImage,
-    isGenerating
+    isGenerating,
+    progress
   };
 }
@@ -1,6 +1,7 @@
 import { useState, useCallback } from 'react';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { useWorkspace } from '@/hooks/useWorkspace';
 
 interface InstagramAuthConfig {
   clientId: string;
@@ -12,6 +13,7 @@ export function useInstagramAuth() {
   const [isConnected, setIsConnected] = useState(false);
   const [userInfo, setUserInfo] = useState<{ username: string; id: string } | null>(null);
   const { toast } = useToast();
+  const { currentWorkspace } = useWorkspace();
 
   // Your Instagram app configuration
   const config: InstagramAuthConfig = {
@@ -99,6 +101,7 @@ export function useInstagramAuth() {
       await supabase
         .from('user_social_connections')
         .delete()
+        .eq('workspace_id', currentWorkspace?.id)
         .eq('platform', 'instagram');
 
       toast({
@@ -112,7 +115,7 @@ export function useInstagramAuth() {
         variant: "destructive",
       });
     }
-  }, [toast]);
+  }, [toast, currentWorkspace?.id]);
 
   const postToInstagram = useCallback(async (imageUrl: string, caption: string) => {
     if (!isConnected || !userInfo) {
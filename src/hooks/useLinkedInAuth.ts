@@ -0,0 +1,125 @@
+import { useState, useCallback, useEffect } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { useWorkspace } from '@/hooks/useWorkspace';
+import { useOAuthPopup } from '@/hooks/useOAuthPopup';
+import { invokeOAuth } from '@/utils/oauthProviders';
+
+interface LinkedInOrganizationInfo {
+  id: string;
+  name: string;
+  vanityName?: string | null;
+}
+
+export function useLinkedInAuth() {
+  const [isConnected, setIsConnected] = useState(false);
+  const [needsOrganizationSelection, setNeedsOrganizationSelection] = useState(false);
+  const [organization, setOrganization] = useState<LinkedInOrganizationInfo | null>(null);
+  const [organizations, setOrganizations] = useState<LinkedInOrganizationInfo[]>([]);
+  const { toast } = useToast();
+  const { currentWorkspace } = useWorkspace();
+
+  const workspaceId = currentWorkspace?.id;
+
+  const invoke = useCallback(
+    (action: string, extra: Record<string, unknown> = {}) => invokeOAuth('linkedin', action, { workspaceId, ...extra }),
+    [workspaceId]
+  );
+
+  // Connection state lives server-side so the access token never reaches the browser
+  const refresh = useCallback(async () => {
+    if (!workspaceId) {
+      setIsConnected(false);
+      setNeedsOrganizationSelection(false);
+      setOrganization(null);
+      setOrganizations([]);
+      return;
+    }
+
+    try {
+      const data = await invoke('check_connection');
+      setIsConnected(data.connected);
+      setNeedsOrganizationSelection(data.needsOrganizationSelection);
+      setOrganization(data.organization);
+      setOrganizations(data.organizations || []);
+    } catch (error) {
+      console.log('No existing LinkedIn connection:', error);
+      setIsConnected(false);
+      setNeedsOrganizationSelection(false);
+      setOrganization(null);
+      setOrganizations([]);
+    }
+  }, [invoke, workspaceId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const { connect, isConnecting } = useOAuthPopup('linkedin', refresh);
+
+  const loadOrganizations = useCallback(async () => {
+    try {
+      const data = await invoke('list_organizations');
+      setOrganizations(data.organizations);
+    } catch (error) {
+      toast({
+        title: "Could not load Pages",
+        description: error.message || "Failed to load LinkedIn Pages",
+        variant: "destructive",
+      });
+    }
+  }, [invoke, toast]);
+
+  const selectOrganization = useCallback(async (organizationId: string) => {
+    try {
+      const data = await invoke('select_organization', { organizationId });
+      setOrganization(data.organization);
+      setIsConnected(true);
+      setNeedsOrganizationSelection(false);
+
+      toast({
+        title: "LinkedIn Page Selected",
+        description: `Posts will be published to ${data.organization.name}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Page Selection Failed",
+        description: error.message || "Failed to select LinkedIn Page",
+        variant: "destructive",
+      });
+    }
+  }, [invoke, toast]);
+
+  const disconnect = useCallback(async () => {
+    try {
+      await invoke('disconnect');
+
+      setIsConnected(false);
+      setNeedsOrganizationSelection(false);
+      setOrganization(null);
+      setOrganizations([]);
+
+      toast({
+        title: "LinkedIn Disconnected",
+        description: "Successfully disconnected from LinkedIn",
+      });
+    } catch (error) {
+      toast({
+        title: "Disconnect Failed",
+        description: "Failed to disconnect LinkedIn account",
+        variant: "destructive",
+      });
+    }
+  }, [invoke, toast]);
+
+  return {
+    connect,
+    disconnect,
+    loadOrganizations,
+    selectOrganization,
+    isConnecting,
+    isConnected,
+    needsOrganizationSelection,
+    organization,
+    organizations
+  };
+}
@@ -0,0 +1,90 @@
+import { useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { templateManager } from '@/api/template-manager';
+
+export type Notification = Tables<'notifications'>;
+
+const NOTIFICATION_LIMIT = 20;
+
+// The signed-in user's latest notifications, kept live over Realtime
+export function useNotifications() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: notifications = [] } = useQuery({
+    queryKey: ['notifications', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('*')
+        .eq('user_id', user?.id ?? '')
+        .order('created_at', { ascending: false })
+        .limit(NOTIFICATION_LIMIT);
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user?.id,
+  });
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    const channel = supabase
+      .channel(`notifications-${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'notifications', filter: `user_id=eq.${user.id}` },
+        (payload) => {
+          const notification = payload.new as Notification;
+          queryClient.invalidateQueries({ queryKey: ['notifications', user.id] });
+
+          // A finished template request changes which templates the workspace has
+          if (notification.kind === 'template_request') {
+            templateManager.clearCache();
+            queryClient.invalidateQueries({ queryKey: ['client-templates'] });
+            queryClient.invalidateQueries({ queryKey: ['template-requests'] });
+          }
+
+          if (notification.kind === 'asset_review') {
+            queryClient.invalidateQueries({ queryKey: ['asset-reviews'] });
+            queryClient.invalidateQueries({ queryKey: ['asset-review-statuses'] });
+          }
+
+          toast({
+            title: notification.title,
+            description: notification.body ?? undefined,
+          });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user?.id, queryClient, toast]);
+
+  const markRead = async (ids: string[]) => {
+    if (ids.length === 0) return;
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .in('id', ids);
+
+    if (error) {
+      console.error('Failed to mark notifications read:', error);
+      return;
+    }
+    queryClient.invalidateQueries({ queryKey: ['notifications', user?.id] });
+  };
+
+  const unreadCount = notifications.filter(notification => !notification.read_at).length;
+
+  return { notifications, unreadCount, markRead };
+}
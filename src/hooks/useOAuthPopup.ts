@@ -0,0 +1,107 @@
+import { useState, useCallback } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { useWorkspace } from '@/hooks/useWorkspace';
+import {
+  OAUTH_PROVIDERS,
+  OAuthProvider,
+  OAuthResult,
+  invokeOAuth,
+  oauthCodeVerifierKey,
+  oauthMessageType,
+  oauthRedirectUri,
+  oauthStateKey
+} from '@/utils/oauthProviders';
+
+const base64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+async function createPkcePair() {
+  const verifier = base64Url(crypto.getRandomValues(new Uint8Array(32)));
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return { verifier, challenge: base64Url(new Uint8Array(digest)) };
+}
+
+// Opens the network's consent page in a popup and reports back once the
+// callback page has saved the connection
+export function useOAuthPopup(provider: OAuthProvider, onConnected: (result: OAuthResult) => void) {
+  const [isConnecting, setIsConnecting] = useState(false);
+  const { toast } = useToast();
+  const { currentWorkspace } = useWorkspace();
+  const workspaceId = currentWorkspace?.id;
+  const { name, describeConnection, pkce } = OAUTH_PROVIDERS[provider];
+
+  const connect = useCallback(async () => {
+    setIsConnecting(true);
+    try {
+      // The callback page checks this before exchanging the code
+      const state = crypto.randomUUID();
+      localStorage.setItem(oauthStateKey(provider), state);
+
+      let codeChallenge: string | undefined;
+      if (pkce) {
+        const { verifier, challenge } = await createPkcePair();
+        localStorage.setItem(oauthCodeVerifierKey(provider), verifier);
+        codeChallenge = challenge;
+      }
+
+      const { auth_url } = await invokeOAuth(provider, 'get_auth_url', {
+        workspaceId,
+        redirectUri: oauthRedirectUri(provider),
+        state,
+        codeChallenge
+      });
+
+      const popup = window.open(
+        auth_url,
+        `${provider}-auth`,
+        'width=600,height=700,scrollbars=yes,resizable=yes'
+      );
+
+      const handleMessage = (event: MessageEvent) => {
+        if (event.origin !== window.location.origin) return;
+
+        if (event.data.type === oauthMessageType(provider, 'SUCCESS')) {
+          popup?.close();
+          onConnected(event.data);
+
+          toast({
+            title: `${name} Connected!`,
+            description: describeConnection(event.data),
+          });
+
+          window.removeEventListener('message', handleMessage);
+        } else if (event.data.type === oauthMessageType(provider, 'ERROR')) {
+          popup?.close();
+          toast({
+            title: "Connection Failed",
+            description: event.data.error || `Failed to connect ${name} account`,
+            variant: "destructive",
+          });
+          window.removeEventListener('message', handleMessage);
+        }
+      };
+
+      window.addEventListener('message', handleMessage);
+
+      // Stop listening if the popup was closed manually
+      const checkClosed = setInterval(() => {
+        if (popup?.closed) {
+          clearInterval(checkClosed);
+          setIsConnecting(false);
+          window.removeEventListener('message', handleMessage);
+        }
+      }, 1000);
+
+    } catch (error) {
+      toast({
+        title: "Connection Failed",
+        description: error.message || `Failed to open ${name} authentication`,
+        variant: "destructive",
+      });
+    } finally {
+      setIsConnecting(false);
+    }
+  }, [describeConnection, name, onConnected, pkce, provider, toast, workspaceId]);
+
+  return { connect, isConnecting };
+}
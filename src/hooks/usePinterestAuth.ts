@@ -0,0 +1,77 @@
+import { useState, useCallback, useEffect } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { useWorkspace } from '@/hooks/useWorkspace';
+import { useOAuthPopup } from '@/hooks/useOAuthPopup';
+import { invokeOAuth } from '@/utils/oauthProviders';
+
+interface PinterestUserInfo {
+  id: string;
+  username: string;
+}
+
+export function usePinterestAuth() {
+  const [isConnected, setIsConnected] = useState(false);
+  const [userInfo, setUserInfo] = useState<PinterestUserInfo | null>(null);
+  const { toast } = useToast();
+  const { currentWorkspace } = useWorkspace();
+
+  const workspaceId = currentWorkspace?.id;
+
+  const invoke = useCallback(
+    (action: string, extra: Record<string, unknown> = {}) => invokeOAuth('pinterest', action, { workspaceId, ...extra }),
+    [workspaceId]
+  );
+
+  const refresh = useCallback(async () => {
+    if (!workspaceId) {
+      setIsConnected(false);
+      setUserInfo(null);
+      return;
+    }
+
+    try {
+      const data = await invoke('check_connection');
+      setIsConnected(data.connected);
+      setUserInfo(data.user);
+    } catch (error) {
+      console.log('No existing Pinterest connection:', error);
+      setIsConnected(false);
+      setUserInfo(null);
+    }
+  }, [invoke, workspaceId]);
+
+  // Check for existing connection on initialization
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const { connect, isConnecting } = useOAuthPopup('pinterest', refresh);
+
+  const disconnect = useCallback(async () => {
+    try {
+      await invoke('disconnect');
+
+      setIsConnected(false);
+      setUserInfo(null);
+
+      toast({
+        title: "Pinterest Disconnected",
+        description: "Successfully disconnected from Pinterest",
+      });
+    } catch (error) {
+      toast({
+        title: "Disconnect Failed",
+        description: "Failed to disconnect Pinterest account",
+        variant: "destructive",
+      });
+    }
+  }, [invoke, toast]);
+
+  return {
+    connect,
+    disconnect,
+    isConnecting,
+    isConnected,
+    userInfo
+  };
+}
@@ -1,14 +1,23 @@
 import { useState, useCallback } from 'react';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { useWorkspace } from '@/hooks/useWorkspace';
+import { publishToTikTok, type TikTokPostSettings } from '@/utils/tiktokPublishing';
+import { createPin, type PinterestPinSettings } from '@/utils/pinterestPublishing';
+import { publishToTwitter, type TwitterPostSettings } from '@/utils/twitterPublishing';
+import { publishToLinkedIn, type LinkedInPostSettings } from '@/utils/linkedinPublishing';
+import { publish } from '@/utils/publishing';
+import { SOCIAL_CONNECTION_COLUMNS } from '@/utils/socialConnections';
 
 interface SocialConnection {
   id: string;
   platform: string;
   platform_display_name: string | null;
   platform_username: string | null;
-  access_token: string;
-  refresh_token: string | null;
+  // Only demo connections kept in localStorage carry a token; stored
+  // connections never expose theirs to the browser
+  access_token?: string;
+  refresh_token?: string | null;
   token_expires_at: string | null;
   metadata: any;
   is_active: boolean;
@@ -20,6 +29,8 @@ interface UploadResult {
   message: string;
   url?: string;
   error?: string;
+  // Publication status; 'processing' while the network is still working on it
+  status?: string;
 }
 
 interface AssetToUpload {
@@ -27,30 +38,45 @@ interface AssetToUpload {
   title: string;
   asset_type: 'image' | 'video' | 'content';
   asset_url: string;
+  content?: string | null;
   description?: string;
   tags?: string[];
 }
 
+interface UploadOptions {
+  tiktok?: TikTokPostSettings;
+  pinterest?: PinterestPinSettings;
+  twitter?: TwitterPostSettings;
+  linkedin?: LinkedInPostSettings;
+}
+
+// Description followed by the asset's tags as hashtags
+const socialCaption = (asset: AssetToUpload) =>
+  [asset.description || asset.title, asset.tags?.map(tag => `#${tag.replace(/\s+/g, '')}`).join(' ')]
+    .filter(Boolean)
+    .join('\n\n');
+
 export function useSocialMediaUpload() {
   const [isUploading, setIsUploading] = useState(false);
   const [uploadingPlatforms, setUploadingPlatforms] = useState<string[]>([]);
   const { toast } = useToast();
+  const { currentWorkspace } = useWorkspace();
 
   // Get all connected platforms for the user
   const getConnectedPlatforms = useCallback(async (): Promise<SocialConnection[]> => {
     console.log('🔍 Loading connected platforms...');
     
     try {
-      // Get current user ID or use default
-      const { data: { user } } = await supabase.auth.getUser();
-      const currentUserId = user?.id || 'default_user';
+      if (!currentWorkspace) {
+        throw new Error('Select a workspace to load connected platforms');
+      }
       
-      console.log('🔍 Querying platforms for user ID:', currentUserId);
+      console.log('🔍 Querying platforms for workspace ID:', currentWorkspace.id);
       
       const { data, error } = await supabase
         .from('user_social_connections')
-        .select('*')
-        .eq('user_id', currentUserId)
+        .select(SOCIAL_CONNECTION_COLUMNS)
+        .eq('workspace_id', currentWorkspace.id)
         .eq('is_active', true)
         .order('connected_at', { ascending: false });
 
@@ -115,25 +141,6 @@ export function useSocialMediaUpload() {
           });
         }
 
-        // Check Facebook connection
-        const facebookUserInfo = localStorage.getItem('facebook_user_info');
-        const facebookToken = localStorage.getItem('facebook_access_token');
-        
-        if (facebookUserInfo && facebookToken) {
-          const userInfo = JSON.parse(facebookUserInfo);
-          platforms.push({
-            id: 'facebook-local',
-            platform: 'facebook',
-            platform_display_name: userInfo.name || 'Facebook Account',
-            platform_username: userInfo.name,
-            access_token: facebookToken,
-            refresh_token: null,
-            token_expires_at: null,
-            metadata: { user_id: userInfo.id },
-            is_active: true
-          });
-        }
-
         console.log('📱 Found platforms in localStorage:', platforms.map(p => p.platform));
         return platforms;
       }
@@ -142,15 +149,16 @@ export function useSocialMediaUpload() {
       
       // Map database data to SocialConnection interface
       // Using type assertion since the generated types are outdated
-      const mappedData: SocialConnection[] = (data || []).map(item => {
+      // Facebook and LinkedIn accounts are only publishable once a Page has been chosen
+      const mappedData: SocialConnection[] = (data || [])
+        .filter(item => (item.platform !== 'facebook' && item.platform !== 'linkedin') || !!item.platform_user_id)
+        .map(item => {
         const dbItem = item as any; // Type assertion to access all fields
         return {
           id: dbItem.id,
           platform: dbItem.platform,
           platform_display_name: dbItem.platform_display_name || null,
           platform_username: dbItem.platform_username || null,
-          access_token: dbItem.access_token || '',
-          refresh_token: dbItem.refresh_token || null,
           token_expires_at: dbItem.token_expires_at || null,
           metadata: dbItem.metadata || {},
           is_active: dbItem.is_active ?? true
@@ -162,201 +170,73 @@ export function useSocialMediaUpload() {
       console.error('Error in getConnectedPlatforms:', error);
       return [];
     }
-  }, []);
+  }, [currentWorkspace]);
 
-  // Upload to YouTube using official YouTube Data API v3
+  // Upload a video to the connected YouTube channel
   const uploadToYouTube = useCallback(async (asset: AssetToUpload, connection: SocialConnection): Promise<UploadResult> => {
-    console.log('🎬 Starting YouTube upload for:', asset.title);
-    
-    try {
-      // Only use test mode for explicitly created demo/mock connections
-      const isTestConnection = connection.access_token === 'demo_access_token_youtube' || 
-                               connection.access_token.startsWith('test-youtube-token-') ||
-                               connection.id === 'mock-youtube';
-      
-      console.log('🔍 YouTube Upload Mode:', {
-        connectionId: connection.id,
-        tokenPreview: connection.access_token.substring(0, 20) + '...',
-        isTestMode: isTestConnection,
-        mode: isTestConnection ? 'TEST' : 'REAL UPLOAD',
-        platformDisplayName: connection.platform_display_name
-      });
-      
-      if (isTestConnection) {
-        console.log('🧪 Running in test/mock mode');
-        
-        // Simulate upload delay
-        await new Promise(resolve => setTimeout(resolve, 2000));
-        
-        // Simulate successful upload
-        const mockVideoId = 'test-video-' + Date.now();
-        const videoUrl = `https://www.youtube.com/watch?v=${mockVideoId}`;
-        
-        return {
-          success: true,
-          platform: 'youtube',
-          message: `Successfully uploaded "${asset.title}" to YouTube (Test Mode)`,
-          url: videoUrl
-        };
-      }
+    // Only use test mode for explicitly created demo/mock connections
+    const isTestConnection = connection.access_token === 'demo_access_token_youtube' ||
+                             !!connection.access_token?.startsWith('test-youtube-token-') ||
+                             connection.id === 'mock-youtube';
 
-      console.log('🔴 Using REAL YouTube API upload mode');
-      console.log('📋 Connection details:', {
-        platform: connection.platform,
-        displayName: connection.platform_display_name,
-        hasToken: !!connection.access_token,
-        tokenLength: connection.access_token?.length || 0,
-        expiresAt: connection.token_expires_at
-      });
-
-      // Check if token is still valid, and refresh if necessary
-      if (connection.token_expires_at) {
-        const expiryDate = new Date(connection.token_expires_at);
-        const now = new Date();
-        const timeToExpire = expiryDate.getTime() - now.getTime();
-        
-        // If token expires within 5 minutes, try to refresh it
-        if (timeToExpire <= 300000) { // 5 minutes in milliseconds
-          console.log('🔄 YouTube token expires soon, attempting refresh...');
-          
-          if (connection.refresh_token) {
-            try {
-              const refreshResponse = await fetch('https://oauth2.googleapis.com/token', {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/x-www-form-urlencoded',
-                },
-                body: new URLSearchParams({
-                  client_id: '912066635865-6rucscatfu2otov3s6clfnoh9hhuj9jh.apps.googleusercontent.com',
-                  client_secret: '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',
-                  grant_type: 'refresh_token',
-                  refresh_token: connection.refresh_token
-                })
-              });
-
-              if (refreshResponse.ok) {
-                const refreshData = await refreshResponse.json();
-                const newExpiresAt = new Date(Date.now() + refreshData.expires_in * 1000).toISOString();
-                
-                // Update the connection with new token
-                connection.access_token = refreshData.access_token;
-                connection.token_expires_at = newExpiresAt;
-                
-                // Try to update in database
-                try {
-                  // Get current user ID for database update
-                  const { data: { user } } = await supabase.auth.getUser();
-                  const updateUserId = user?.id || 'default_user';
-                  
-                  await supabase
-                    .from('user_social_connections')
-                    .update({
-                      access_token: refreshData.access_token,
-                      token_expires_at: newExpiresAt,
-                      updated_at: new Date().toISOString()
-                    })
-                    .eq('user_id', updateUserId)
-                    .eq('platform', 'youtube');
-                } catch (dbError) {
-                  console.warn('Failed to update refreshed token in database:', dbError);
-                  // Update in localStorage as fallback
-                  localStorage.setItem('youtube_access_token', refreshData.access_token);
-                  localStorage.setItem('youtube_expires_at', newExpiresAt);
-                }
-                
-                console.log('✅ YouTube token refreshed successfully');
-              } else {
-                console.warn('Failed to refresh YouTube token');
-              }
-            } catch (refreshError) {
-              console.warn('Error refreshing YouTube token:', refreshError);
-            }
-          }
-        }
-        
-        // Final check if token is still expired
-        if (new Date(connection.token_expires_at) <= new Date()) {
-          return {
-            success: false,
-            platform: 'youtube',
-            message: 'YouTube token has expired. Please reconnect your account.',
-            error: 'Token expired'
-          };
-        }
-      }
+    if (isTestConnection) {
+      console.log('🧪 Running YouTube upload in test/mock mode');
 
-      // Only allow video uploads to YouTube
-      if (asset.asset_type !== 'video') {
-        return {
-          success: false,
-          platform: 'youtube',
-          message: 'YouTube only supports video uploads.',
-          error: 'Unsupported asset type'
-        };
-      }
+      // Simulate upload delay
+      await new Promise(resolve => setTimeout(resolve, 2000));
 
-      // Check if asset URL is accessible
-      if (!asset.asset_url || asset.asset_url === 'processing' || asset.asset_url === 'pending') {
-        return {
-          success: false,
-          platform: 'youtube',
-          message: 'Video is not ready for upload. Please wait for processing to complete.',
-          error: 'Asset not ready'
-        };
-      }
+      return {
+        success: true,
+        platform: 'youtube',
+        message: `Successfully uploaded "${asset.title}" to YouTube (Test Mode)`,
+        url: `https://www.youtube.com/watch?v=test-video-${Date.now()}`
+      };
+    }
 
-      console.log('📥 Uploading video via YouTube OAuth function...');
-      
-      // Try to use the existing YouTube OAuth function to handle the upload
-      try {
-        // Get current user ID or use default
-        const { data: { user } } = await supabase.auth.getUser();
-        const currentUserId = user?.id || 'default_user';
-        
-        console.log('🔍 Making YouTube upload request with user ID:', currentUserId);
-        
-        const { data: uploadResponse, error: uploadError } = await supabase.functions.invoke('youtube-oauth', {
-          body: {
-            action: 'upload_video',
-            userId: currentUserId,
-            videoUrl: asset.asset_url,
-            title: asset.title,
-            description: asset.description || `Generated with FeedGenesis\n\nTags: ${asset.tags?.join(', ') || 'video, content'}\n\nCreated using AI-powered video generation.`,
-            tags: asset.tags || ['video', 'content', 'AI', 'generated'],
-            privacyStatus: 'public'
-          }
-        });
+    // Only allow video uploads to YouTube
+    if (asset.asset_type !== 'video') {
+      return {
+        success: false,
+        platform: 'youtube',
+        message: 'YouTube only supports video uploads.',
+        error: 'Unsupported asset type'
+      };
+    }
 
-        if (uploadError) {
-          console.error('❌ OAuth function error:', uploadError);
-          throw new Error(uploadError.message || 'OAuth function failed');
-        }
+    // Check if asset URL is accessible
+    if (!asset.asset_url || asset.asset_url === 'processing' || asset.asset_url === 'pending') {
+      return {
+        success: false,
+        platform: 'youtube',
+        message: 'Video is not ready for upload. Please wait for processing to complete.',
+        error: 'Asset not ready'
+      };
+    }
 
-        if (uploadResponse && uploadResponse.success) {
-          console.log('🎉 Video uploaded successfully:', uploadResponse.url);
-          return {
-            success: true,
-            platform: 'youtube',
-            message: `Successfully uploaded "${asset.title}" to YouTube`,
-            url: uploadResponse.url
-          };
-        } else {
-          throw new Error(uploadResponse?.error || 'Upload failed');
-        }
-      } catch (oauthError) {
-        console.warn('OAuth function method failed, trying direct upload:', oauthError);
-        
-        // Fallback: Try direct upload with a simple approach
-        console.log('📥 Attempting simplified direct upload...');
-        
-        // For now, return a message that the upload needs to be done manually
-        return {
-          success: false,
-          platform: 'youtube',
-          message: `Unable to upload "${asset.title}" to YouTube. Please upload manually: ${asset.asset_url}`,
-          error: 'Direct upload blocked by CORS policy. Please upload the video manually to your YouTube channel.'
-        };
+    try {
+      if (!currentWorkspace) {
+        throw new Error('Select a workspace before uploading');
       }
+
+      // The publish function refreshes the Google token when it is about to expire
+      const { publication } = await publish({
+        workspaceId: currentWorkspace.id,
+        platform: 'youtube',
+        assetId: asset.id,
+        media: [{ url: asset.asset_url, type: 'video' }],
+        title: asset.title,
+        text: asset.description || `Generated with FeedGenesis\n\nTags: ${asset.tags?.join(', ') || 'video, content'}\n\nCreated using AI-powered video generation.`,
+        tags: asset.tags || ['video', 'content', 'AI', 'generated'],
+        options: { privacyStatus: 'public' }
+      });
+
+      return {
+        success: true,
+        platform: 'youtube',
+        message: `Successfully uploaded "${asset.title}" to YouTube`,
+        url: publication.url ?? undefined,
+        status: publication.status
+      };
     } catch (error) {
       console.error('❌ YouTube upload error:', error);
       return {
@@ -366,90 +246,287 @@ export function useSocialMediaUpload() {
         error: error.message
       };
     }
-  }, []);
+  }, [currentWorkspace]);
 
-  // Upload to Instagram (placeholder for now)
+  // Post an image, or several as a carousel, to the connected Instagram account
   const uploadToInstagram = useCallback(async (asset: AssetToUpload, connection: SocialConnection): Promise<UploadResult> => {
     // Check if this is a test connection (mock mode)
     const isTestConnection = connection.access_token === 'demo_access_token_instagram';
-    
-    console.log('🔍 Instagram Upload Mode:', {
-      tokenPreview: connection.access_token.substring(0, 20) + '...',
-      isTestMode: isTestConnection,
-      mode: isTestConnection ? 'TEST' : 'REAL UPLOAD'
-    });
-    
+
     if (isTestConnection) {
       console.log('🧪 Running Instagram upload in test/mock mode');
-      
+
       // Simulate upload delay
       await new Promise(resolve => setTimeout(resolve, 1500));
-      
-      // Simulate successful upload
-      const mockPostId = 'test-post-' + Date.now();
-      const postUrl = `https://www.instagram.com/p/${mockPostId}/`;
-      
+
       return {
         success: true,
         platform: 'instagram',
         message: `Successfully uploaded "${asset.title}" to Instagram (Test Mode)`,
-        url: postUrl
+        url: `https://www.instagram.com/p/test-post-${Date.now()}/`
       };
     }
 
-    // Instagram API requires app review and specific permissions
-    // For now, return a message about manual posting
-    return {
-      success: false,
-      platform: 'instagram',
-      message: 'Instagram posting requires manual upload. The Instagram API has restrictions that require app review.',
-      error: 'Manual posting required'
-    };
-  }, []);
-
-  // Upload to Facebook (placeholder for now)
-  const uploadToFacebook = useCallback(async (asset: AssetToUpload, connection: SocialConnection): Promise<UploadResult> => {
-    // Check if this is a test connection (mock mode)
-    const isTestConnection = connection.access_token === 'demo_access_token_facebook';
-    
-    console.log('🔍 Facebook Upload Mode:', {
-      tokenPreview: connection.access_token.substring(0, 20) + '...',
-      isTestMode: isTestConnection,
-      mode: isTestConnection ? 'TEST' : 'REAL UPLOAD'
-    });
-    
-    if (isTestConnection) {
-      console.log('🧪 Running Facebook upload in test/mock mode');
-      
-      // Simulate upload delay
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // Simulate successful upload
-      const mockPostId = 'test-facebook-post-' + Date.now();
-      const postUrl = `https://www.facebook.com/posts/${mockPostId}`;
-      
+    if (asset.asset_type !== 'image') {
+      return {
+        success: false,
+        platform: 'instagram',
+        message: 'Instagram videos require manual upload',
+        error: 'Unsupported asset type'
+      };
+    }
+
+    try {
+      if (!currentWorkspace) {
+        throw new Error('Select a workspace before uploading');
+      }
+
+      const { publication } = await publish({
+        workspaceId: currentWorkspace.id,
+        platform: 'instagram',
+        assetId: asset.id,
+        media: [{ url: asset.asset_url, type: 'image' }],
+        text: socialCaption(asset)
+      });
+
       return {
         success: true,
+        platform: 'instagram',
+        message: `Successfully posted "${asset.title}" to Instagram`,
+        url: publication.url ?? undefined,
+        status: publication.status
+      };
+    } catch (error) {
+      console.error('❌ Instagram upload error:', error);
+      return {
+        success: false,
+        platform: 'instagram',
+        message: error.message || 'Failed to post to Instagram',
+        error: error.message
+      };
+    }
+  }, [currentWorkspace]);
+
+  // Publish to the workspace's selected Facebook Page
+  const uploadToFacebook = useCallback(async (asset: AssetToUpload): Promise<UploadResult> => {
+    if (asset.asset_type === 'content') {
+      return {
+        success: false,
+        platform: 'facebook',
+        message: 'Only images and videos can be posted to Facebook',
+        error: 'Unsupported asset type'
+      };
+    }
+
+    try {
+      if (!currentWorkspace) {
+        throw new Error('Select a workspace before uploading');
+      }
+
+      const { publication } = await publish({
+        workspaceId: currentWorkspace.id,
+        platform: 'facebook',
+        assetId: asset.id,
+        media: [{ url: asset.asset_url, type: asset.asset_type }],
+        title: asset.title,
+        text: socialCaption(asset)
+      });
+
+      return {
+        success: true,
+        platform: 'facebook',
+        message: `Successfully posted "${asset.title}" to Facebook`,
+        url: publication.url ?? undefined,
+        status: publication.status
+      };
+    } catch (error) {
+      console.error('❌ Facebook upload error:', error);
+      return {
+        success: false,
         platform: 'facebook',
-        message: `Successfully uploaded "${asset.title}" to Facebook (Test Mode)`,
-        url: postUrl
+        message: error.message || 'Failed to post to Facebook',
+        error: error.message
+      };
+    }
+  }, [currentWorkspace]);
+
+  // Upload a video through the TikTok Content Posting API; the publication stays processing until TikTok finishes
+  const uploadToTikTok = useCallback(async (asset: AssetToUpload, settings?: TikTokPostSettings): Promise<UploadResult> => {
+    if (asset.asset_type !== 'video') {
+      return {
+        success: false,
+        platform: 'tiktok',
+        message: 'TikTok only accepts videos',
+        error: 'Unsupported asset type'
+      };
+    }
+
+    if (!currentWorkspace || !settings) {
+      return {
+        success: false,
+        platform: 'tiktok',
+        message: 'Choose TikTok post settings before uploading',
+        error: 'Missing TikTok settings'
+      };
+    }
+
+    try {
+      const { message, publication } = await publishToTikTok({
+        workspaceId: currentWorkspace.id,
+        assetId: asset.id,
+        videoUrl: asset.asset_url,
+        settings
+      });
+
+      return {
+        success: true,
+        platform: 'tiktok',
+        message,
+        status: publication.status
+      };
+    } catch (error) {
+      console.error('❌ TikTok upload error:', error);
+      return {
+        success: false,
+        platform: 'tiktok',
+        message: error.message || 'Failed to upload to TikTok',
+        error: error.message
+      };
+    }
+  }, [currentWorkspace]);
+
+  // Create a pin on the chosen board from an image or video asset
+  const uploadToPinterest = useCallback(async (asset: AssetToUpload, settings?: PinterestPinSettings): Promise<UploadResult> => {
+    if (asset.asset_type === 'content') {
+      return {
+        success: false,
+        platform: 'pinterest',
+        message: 'Only images and videos can be pinned',
+        error: 'Unsupported asset type'
+      };
+    }
+
+    if (!currentWorkspace || !settings?.boardId) {
+      return {
+        success: false,
+        platform: 'pinterest',
+        message: 'Choose a Pinterest board before pinning',
+        error: 'Missing Pinterest board'
+      };
+    }
+
+    try {
+      const { publication } = await createPin({
+        workspaceId: currentWorkspace.id,
+        assetId: asset.id,
+        mediaUrl: asset.asset_url,
+        mediaType: asset.asset_type,
+        settings
+      });
+
+      return {
+        success: true,
+        platform: 'pinterest',
+        message: `Successfully pinned "${asset.title}" to Pinterest`,
+        url: publication.url ?? undefined,
+        status: publication.status
+      };
+    } catch (error) {
+      console.error('❌ Pinterest upload error:', error);
+      return {
+        success: false,
+        platform: 'pinterest',
+        message: error.message || 'Failed to pin to Pinterest',
+        error: error.message
       };
     }
+  }, [currentWorkspace]);
 
-    // Facebook API would require similar implementation to YouTube
-    // For now, return a message about manual posting
-    return {
-      success: false,
-      platform: 'facebook',
-      message: 'Facebook posting will be available in a future update. For now, please post manually.',
-      error: 'Manual posting required'
-    };
-  }, []);
+  // Post to X; content assets become a thread, images and videos ride on the first post
+  const uploadToTwitter = useCallback(async (asset: AssetToUpload, settings?: TwitterPostSettings): Promise<UploadResult> => {
+    const posts = settings?.posts.map(post => post.trim()).filter(Boolean) || [];
+    const hasMedia = asset.asset_type !== 'content';
+
+    if (!currentWorkspace || (posts.length === 0 && !hasMedia)) {
+      return {
+        success: false,
+        platform: 'twitter',
+        message: 'Write the text to post to X',
+        error: 'Missing post text'
+      };
+    }
+
+    try {
+      const { message, publication } = await publishToTwitter({
+        workspaceId: currentWorkspace.id,
+        assetId: asset.id,
+        posts,
+        ...(hasMedia ? { mediaUrl: asset.asset_url, mediaType: asset.asset_type as 'image' | 'video' } : {})
+      });
+
+      return {
+        success: true,
+        platform: 'twitter',
+        message,
+        url: publication.url ?? undefined,
+        status: publication.status
+      };
+    } catch (error) {
+      console.error('❌ X upload error:', error);
+      return {
+        success: false,
+        platform: 'twitter',
+        message: error.message || 'Failed to post to X',
+        error: error.message
+      };
+    }
+  }, [currentWorkspace]);
+
+  // Post to the workspace's LinkedIn organization Page
+  const uploadToLinkedIn = useCallback(async (asset: AssetToUpload, settings?: LinkedInPostSettings): Promise<UploadResult> => {
+    const hasMedia = asset.asset_type !== 'content';
+
+    if (!currentWorkspace || !settings || (!settings.text.trim() && !hasMedia)) {
+      return {
+        success: false,
+        platform: 'linkedin',
+        message: 'Write the text to post to LinkedIn',
+        error: 'Missing post text'
+      };
+    }
+
+    try {
+      const { publication } = await publishToLinkedIn({
+        workspaceId: currentWorkspace.id,
+        assetId: asset.id,
+        title: asset.title,
+        settings,
+        ...(hasMedia ? { mediaUrl: asset.asset_url, mediaType: asset.asset_type as 'image' | 'video' } : {})
+      });
+
+      return {
+        success: true,
+        platform: 'linkedin',
+        message: `Successfully posted "${asset.title}" to LinkedIn`,
+        url: publication.url ?? undefined,
+        status: publication.status
+      };
+    } catch (error) {
+      console.error('❌ LinkedIn upload error:', error);
+      return {
+        success: false,
+        platform: 'linkedin',
+        message: error.message || 'Failed to post to LinkedIn',
+        error: error.message
+      };
+    }
+  }, [currentWorkspace]);
 
   // Main upload function
   const uploadToSocialMedia = useCallback(async (
     asset: AssetToUpload,
-    selectedPlatforms: string[]
+    selectedPlatforms: string[],
+    options: UploadOptions = {}
   ): Promise<UploadResult[]> => {
     setIsUploading(true);
     setUploadingPlatforms(selectedPlatforms);
@@ -496,7 +573,19 @@ export function useSocialMediaUpload() {
               result = await uploadToInstagram(asset, connection);
               break;
             case 'facebook':
-              result = await uploadToFacebook(asset, connection);
+              result = await uploadToFacebook(asset);
+              break;
+            case 'tiktok':
+              result = await uploadToTikTok(asset, options.tiktok);
+              break;
+            case 'pinterest':
+              result = await uploadToPinterest(asset, options.pinterest);
+              break;
+            case 'twitter':
+              result = await uploadToTwitter(asset, options.twitter);
+              break;
+            case 'linkedin':
+              result = await uploadToLinkedIn(asset, options.linkedin);
               break;
             default:
               result = {
@@ -548,7 +637,7 @@ export function useSocialMediaUpload() {
       setIsUploading(false);
       setUploadingPlatforms([]);
     }
-  }, [getConnectedPlatforms, uploadToYouTube, uploadToInstagram, uploadToFacebook, toast]);
+  }, [getConnectedPlatforms, uploadToYouTube, uploadToInstagram, uploadToFacebook, uploadToTikTok, uploadToPinterest, uploadToTwitter, uploadToLinkedIn, toast]);
 
   return {
     uploadToSocialMedia,
@@ -0,0 +1,78 @@
+import { useState, useCallback, useEffect } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { useWorkspace } from '@/hooks/useWorkspace';
+import { useOAuthPopup } from '@/hooks/useOAuthPopup';
+import { invokeOAuth } from '@/utils/oauthProviders';
+
+interface TikTokUserInfo {
+  id: string;
+  username: string | null;
+  displayName: string;
+}
+
+export function useTikTokAuth() {
+  const [isConnected, setIsConnected] = useState(false);
+  const [userInfo, setUserInfo] = useState<TikTokUserInfo | null>(null);
+  const { toast } = useToast();
+  const { currentWorkspace } = useWorkspace();
+
+  const workspaceId = currentWorkspace?.id;
+
+  const invoke = useCallback(
+    (action: string, extra: Record<string, unknown> = {}) => invokeOAuth('tiktok', action, { workspaceId, ...extra }),
+    [workspaceId]
+  );
+
+  const refresh = useCallback(async () => {
+    if (!workspaceId) {
+      setIsConnected(false);
+      setUserInfo(null);
+      return;
+    }
+
+    try {
+      const data = await invoke('check_connection');
+      setIsConnected(data.connected);
+      setUserInfo(data.user);
+    } catch (error) {
+      console.log('No existing TikTok connection:', error);
+      setIsConnected(false);
+      setUserInfo(null);
+    }
+  }, [invoke, workspaceId]);
+
+  // Check for existing connection on initialization
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const { connect, isConnecting } = useOAuthPopup('tiktok', refresh);
+
+  const disconnect = useCallback(async () => {
+    try {
+      await invoke('disconnect');
+
+      setIsConnected(false);
+      setUserInfo(null);
+
+      toast({
+        title: "TikTok Disconnected",
+        description: "Successfully disconnected from TikTok",
+      });
+    } catch (error) {
+      toast({
+        title: "Disconnect Failed",
+        description: "Failed to disconnect TikTok account",
+        variant: "destructive",
+      });
+    }
+  }, [invoke, toast]);
+
+  return {
+    connect,
+    disconnect,
+    isConnecting,
+    isConnected,
+    userInfo
+  };
+}
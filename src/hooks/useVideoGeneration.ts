@@ -1,6 +1,8 @@
 import { useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/useWorkspace";
+import { waitForGenerationJob } from "@/utils/generationJobs";
 
 interface GeneratedVideo {
   id: string;
@@ -9,6 +11,7 @@ interface GeneratedVideo {
   source_system: string;
   timestamp: Date;
   message?: string;
+  job_id?: string;
   gif_url?: string; // New field for HeyGen GIF URLs
 }
 
@@ -33,7 +36,9 @@ interface UseVideoGenerationProps {
 
 export function useVideoGeneration({ onSuccess }: UseVideoGenerationProps = {}) {
   const [isGenerating, setIsGenerating] = useState(false);
+  const [progress, setProgress] = useState(0);
   const { toast } = useToast();
+  const { currentWorkspace } = useWorkspace();
 
   const generateVideo = async (
     instruction: string, 
@@ -42,6 +47,7 @@ export function useVideoGeneration({ onSuccess }: UseVideoGenerationProps = {})
     formatSpecs?: FormatSpecs
   ): Promise<GeneratedVideo | null> => {
     setIsGenerating(true);
+    setProgress(0);
     
     try {
       console.log('Starting video generation with format specs:', formatSpecs);
@@ -100,7 +106,7 @@ export function useVideoGeneration({ onSuccess }: UseVideoGenerationProps = {})
       console.log('Sending video generation request with enhanced format specs:', requestBody);
 
       const { data, error } = await supabase.functions.invoke(functionName, {
-        body: requestBody
+        body: { ...requestBody, workspaceId: currentWorkspace?.id }
       });
 
       if (error) {
@@ -118,9 +124,27 @@ export function useVideoGeneration({ onSuccess }: UseVideoGenerationProps = {})
         source_system: provider === 'runway' ? 'runway' : 'heygen_zapier',
         timestamp: new Date(),
         message: data.message,
+        job_id: data.job_id,
         gif_url: data.gif_url // Store GIF URL if provided by HeyGen
       };
 
+      // Runway tasks are queued; wait for the worker to finish the job
+      if (data.job_id) {
+        toast({
+          title: "Video Generation Started",
+          description: "RunwayML is rendering your video. This may take a few minutes.",
+        });
+
+        const job = await waitForGenerationJob(data.job_id, (update) => setProgress(Number(update.progress)));
+
+        if (job.status === 'failed') {
+          throw new Error(job.error || 'Failed to generate video');
+        }
+
+        video.id = job.generated_asset_id || job.id;
+        video.url = job.result_url!;
+      }
+
       // Show enhanced success messages with format details
       const aspectRatio = formatSpecs?.aspectRatio || '9:16';
       const durationText = `${duration}s`;
@@ -133,7 +157,7 @@ export function useVideoGeneration({ onSuccess }: UseVideoGenerationProps = {})
         : `${isAd ? 'Ad video' : 'Video'} generation request sent to HeyGen via Google Sheets + Zapier automation with ${aspectRatio} aspect ratio for ${durationText} with format: ${specification}${data.gif_url ? ' (GIF preview will be available)' : ''}`;
 
       toast({
-        title: "Video Generation Started",
+        title: data.job_id ? "Video Generated" : "Video Generation Started",
         description: successMessage,
       });
 
@@ -155,6 +179,7 @@ export function useVideoGeneration({ onSuccess }: UseVideoGenerationProps = {})
 
   return {
     generateVideo,
-    isGenerating
+    isGenerating,
+    progress
   };
 }
@@ -0,0 +1,99 @@
+import { useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useWorkspace } from '@/hooks/useWorkspace';
+import type { Plan } from '@/utils/usage';
+
+/**
+ * The current workspace's plan and its usage this billing period. Usage is
+ * refetched whenever an edge function records a new generation, and the
+ * subscription whenever stripe-webhook syncs a change from Stripe.
+ */
+export function useWorkspaceUsage() {
+  const { currentWorkspace } = useWorkspace();
+  const queryClient = useQueryClient();
+  const workspaceId = currentWorkspace?.id;
+
+  const { data: plans = [] } = useQuery({
+    queryKey: ['plans'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('plans')
+        .select('*')
+        .order('sort_order');
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: subscription, isLoading: isLoadingSubscription } = useQuery({
+    queryKey: ['workspace-subscription', workspaceId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('workspace_subscriptions')
+        .select('*')
+        .eq('workspace_id', workspaceId ?? '')
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!workspaceId,
+  });
+
+  const { data: usage = [], isLoading: isLoadingUsage } = useQuery({
+    queryKey: ['workspace-usage', workspaceId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_workspace_usage', {
+        p_workspace_id: workspaceId ?? ''
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!workspaceId,
+  });
+
+  useEffect(() => {
+    if (!workspaceId) return;
+
+    const channel = supabase
+      .channel(`usage-${workspaceId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'usage_events', filter: `workspace_id=eq.${workspaceId}` },
+        () => queryClient.invalidateQueries({ queryKey: ['workspace-usage', workspaceId] })
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'workspace_subscriptions', filter: `workspace_id=eq.${workspaceId}` },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ['workspace-subscription', workspaceId] });
+          queryClient.invalidateQueries({ queryKey: ['workspace-usage', workspaceId] });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [workspaceId, queryClient]);
+
+  // Lapsed subscriptions drop back to the free plan, as they do server-side
+  const isActive = subscription?.status === 'active' || subscription?.status === 'trialing';
+  const plan: Plan | undefined = plans.find(candidate =>
+    candidate.id === (isActive ? subscription?.plan_id : 'free')
+  );
+  const estimatedCostUsd = usage.reduce((total, row) => total + Number(row.estimated_cost_usd), 0);
+
+  return {
+    plan,
+    plans,
+    subscription,
+    usage,
+    estimatedCostUsd,
+    periodStart: usage[0]?.period_start,
+    isLoading: isLoadingSubscription || isLoadingUsage,
+  };
+}
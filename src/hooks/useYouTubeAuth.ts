@@ -1,6 +1,9 @@
 import { useState, useCallback, useEffect } from 'react';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { useWorkspace } from '@/hooks/useWorkspace';
+import { publish } from '@/utils/publishing';
+import { SOCIAL_CONNECTION_COLUMNS } from '@/utils/socialConnections';
 
 interface YouTubeAuthConfig {
   clientId: string;
@@ -19,6 +22,7 @@ export function useYouTubeAuth() {
   const [isConnected, setIsConnected] = useState(false);
   const [userInfo, setUserInfo] = useState<YouTubeUserInfo | null>(null);
   const { toast } = useToast();
+  const { currentWorkspace } = useWorkspace();
 
   // YouTube OAuth configuration
   const config: YouTubeAuthConfig = {
@@ -35,9 +39,9 @@ export function useYouTubeAuth() {
         // Only check Supabase database for connections
         const { data: connection, error } = await supabase
           .from('user_social_connections')
-          .select('*')
+          .select(SOCIAL_CONNECTION_COLUMNS)
+          .eq('workspace_id', currentWorkspace?.id)
           .eq('platform', 'youtube')
-          .eq('user_id', 'default_user')
           .eq('is_active', true)
           .single();
 
@@ -76,7 +80,7 @@ export function useYouTubeAuth() {
     };
 
     checkExistingConnection();
-  }, []);
+  }, [currentWorkspace?.id]);
 
   const connect = useCallback(async () => {
     setIsConnecting(true);
@@ -86,7 +90,7 @@ export function useYouTubeAuth() {
       authUrl.searchParams.set('client_id', config.clientId);
       authUrl.searchParams.set('redirect_uri', config.redirectUri);
       authUrl.searchParams.set('response_type', 'code');
-      authUrl.searchParams.set('scope', 'https://www.googleapis.com/auth/youtube.upload https://www.googleapis.com/auth/youtube.readonly');
+      authUrl.searchParams.set('scope', 'https://www.googleapis.com/auth/youtube.upload https://www.googleapis.com/auth/youtube.readonly https://www.googleapis.com/auth/yt-analytics.readonly');
       authUrl.searchParams.set('access_type', 'offline');
       authUrl.searchParams.set('prompt', 'consent');
       authUrl.searchParams.set('state', Math.random().toString(36).substring(7));
@@ -166,8 +170,8 @@ export function useYouTubeAuth() {
         await supabase
           .from('user_social_connections')
           .delete()
-          .eq('platform', 'youtube')
-          .eq('user_id', 'default_user');
+          .eq('workspace_id', currentWorkspace?.id)
+          .eq('platform', 'youtube');
       } catch (dbError) {
         console.warn('Failed to remove from database:', dbError);
       }
@@ -183,7 +187,7 @@ export function useYouTubeAuth() {
         variant: "destructive",
       });
     }
-  }, [toast]);
+  }, [toast, currentWorkspace?.id]);
 
   const uploadVideo = useCallback(async (videoFile: File, title: string, description: string, tags: string[] = []) => {
     if (!isConnected || !userInfo) {
@@ -191,124 +195,52 @@ export function useYouTubeAuth() {
     }
 
     try {
-      // Try to get access token from database first, then local storage
-      let accessToken: string | null = null;
-      
-      try {
-        const { data: connection } = await supabase
-          .from('user_social_connections')
-          .select('access_token, token_expires_at')
-          .eq('platform', 'youtube')
-          .eq('user_id', 'default_user')
-          .eq('is_active', true)
-          .single();
-
-        if (connection?.access_token) {
-          // Check if token is still valid
-          const tokenExpiry = new Date(connection.token_expires_at);
-          const now = new Date();
-          
-          if (tokenExpiry > now) {
-            accessToken = connection.access_token;
-          } else {
-            throw new Error('Database token has expired');
-          }
-        }
-      } catch (dbError) {
-        console.error('Failed to get token from database:', dbError);
-        throw new Error('No valid YouTube access token found. Please reconnect your account.');
-      }
-
-      if (!accessToken) {
-        throw new Error('No valid YouTube access token found. Please reconnect your account.');
+      if (!currentWorkspace) {
+        throw new Error('Select a workspace before uploading');
       }
 
-      // Create video metadata according to YouTube API v3 specification
-      const metadata = {
-        snippet: {
-          title: title,
-          description: description,
-          tags: tags,
-          categoryId: '22', // People & Blogs category
-          defaultLanguage: 'en'
-        },
-        status: {
-          privacyStatus: 'public', // Can be 'private', 'public', or 'unlisted'
-          selfDeclaredMadeForKids: false
-        }
-      };
-
-      // Initialize resumable upload
-      const initResponse = await fetch('https://www.googleapis.com/upload/youtube/v3/videos?uploadType=resumable&part=snippet,status', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-          'X-Upload-Content-Length': videoFile.size.toString(),
-          'X-Upload-Content-Type': videoFile.type
-        },
-        body: JSON.stringify(metadata)
-      });
-
-      if (!initResponse.ok) {
-        const errorData = await initResponse.json();
-        throw new Error(`Upload initiation failed: ${errorData.error?.message || initResponse.statusText}`);
+      // The browser never holds the channel's token, so the file goes to
+      // storage and the publish function uploads it from there
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        throw new Error('You must be signed in to upload videos');
       }
 
-      const uploadUrl = initResponse.headers.get('Location');
-      if (!uploadUrl) {
-        throw new Error('No upload URL received from YouTube');
-      }
-
-      // Upload the video file in chunks for better reliability
-      const chunkSize = 1024 * 1024 * 5; // 5MB chunks
-      let start = 0;
-      let uploadComplete = false;
-      let result: any = null;
-
-      while (!uploadComplete) {
-        const end = Math.min(start + chunkSize, videoFile.size);
-        const chunk = videoFile.slice(start, end);
-
-        const uploadResponse = await fetch(uploadUrl, {
-          method: 'PUT',
-          headers: {
-            'Content-Length': chunk.size.toString(),
-            'Content-Range': `bytes ${start}-${end - 1}/${videoFile.size}`,
-            'Content-Type': videoFile.type
-          },
-          body: chunk
+      const { data: stored, error: storageError } = await supabase.storage
+        .from('generated-assets')
+        .upload(`${user.id}/youtube-upload-${Date.now()}-${videoFile.name}`, videoFile, {
+          contentType: videoFile.type,
+          upsert: true
         });
 
-        if (uploadResponse.status === 200 || uploadResponse.status === 201) {
-          // Upload complete
-          result = await uploadResponse.json();
-          uploadComplete = true;
-        } else if (uploadResponse.status === 308) {
-          // Continue upload
-          const range = uploadResponse.headers.get('Range');
-          if (range) {
-            const rangeEnd = parseInt(range.split('-')[1]);
-            start = rangeEnd + 1;
-          } else {
-            start = end;
-          }
-        } else {
-          const errorData = await uploadResponse.text();
-          throw new Error(`Video upload failed: ${uploadResponse.status} - ${errorData}`);
-        }
+      if (storageError) {
+        throw new Error(`Failed to upload to storage: ${storageError.message}`);
       }
 
+      const { data: { publicUrl } } = supabase.storage
+        .from('generated-assets')
+        .getPublicUrl(stored.path);
+
+      const { publication } = await publish({
+        workspaceId: currentWorkspace.id,
+        platform: 'youtube',
+        media: [{ url: publicUrl, type: 'video' }],
+        title,
+        text: description,
+        tags,
+        options: { privacyStatus: 'public' }
+      });
+
       toast({
         title: "Video Uploaded!",
         description: `Successfully uploaded "${title}" to YouTube`,
       });
 
-      return { 
-        success: true, 
-        videoId: result.id, 
+      return {
+        success: true,
+        videoId: publication.external_id,
         message: 'Video uploaded successfully',
-        videoUrl: `https://www.youtube.com/watch?v=${result.id}`
+        videoUrl: publication.url ?? undefined
       };
 
     } catch (error) {
@@ -320,7 +252,7 @@ export function useYouTubeAuth() {
       });
       throw error;
     }
-  }, [isConnected, userInfo, toast]);
+  }, [isConnected, userInfo, toast, currentWorkspace]);
 
   return {
     connect,
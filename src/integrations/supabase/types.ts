@@ -18,25 +18,48 @@ export type Database = {
         Row: {
           created_at: string
           id: string
-          key_value: string
+          key_hint: string | null
+          last_validated_at: string | null
           provider: string
+          secret_id: string
           updated_at: string
+          updated_by: string | null
+          validation_error: string | null
+          workspace_id: string | null
         }
         Insert: {
           created_at?: string
           id?: string
-          key_value: string
+          key_hint?: string | null
+          last_validated_at?: string | null
           provider: string
+          secret_id: string
           updated_at?: string
+          updated_by?: string | null
+          validation_error?: string | null
+          workspace_id?: string | null
         }
         Update: {
           created_at?: string
           id?: string
-          key_value?: string
+          key_hint?: string | null
+          last_validated_at?: string | null
           provider?: string
+          secret_id?: string
           updated_at?: string
+          updated_by?: string | null
+          validation_error?: string | null
+          workspace_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "api_keys_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "client_configs"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       asset_library: {
         Row: {
@@ -50,10 +73,12 @@ export type Database = {
           id: string
           instruction: string
           original_asset_id: string | null
+          owner_id: string | null
           source_system: string
           tags: string[] | null
           title: string
           updated_at: string
+          workspace_id: string | null
         }
         Insert: {
           asset_type: string
@@ -66,10 +91,12 @@ export type Database = {
           id?: string
           instruction: string
           original_asset_id?: string | null
+          owner_id?: string | null
           source_system: string
           tags?: string[] | null
           title: string
           updated_at?: string
+          workspace_id?: string | null
         }
         Update: {
           asset_type?: string
@@ -82,10 +109,12 @@ export type Database = {
           id?: string
           instruction?: string
           original_asset_id?: string | null
+          owner_id?: string | null
           source_system?: string
           tags?: string[] | null
           title?: string
           updated_at?: string
+          workspace_id?: string | null
         }
         Relationships: [
           {
@@ -95,6 +124,319 @@ export type Database = {
             referencedRelation: "generated_assets"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "asset_library_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "client_configs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      asset_review_comments: {
+        Row: {
+          author_id: string | null
+          body: string | null
+          created_at: string
+          generated_asset_id: string
+          id: string
+          kind: string
+          workspace_id: string
+        }
+        Insert: {
+          author_id?: string | null
+          body?: string | null
+          created_at?: string
+          generated_asset_id: string
+          id?: string
+          kind?: string
+          workspace_id: string
+        }
+        Update: {
+          author_id?: string | null
+          body?: string | null
+          created_at?: string
+          generated_asset_id?: string
+          id?: string
+          kind?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "asset_review_comments_generated_asset_id_fkey"
+            columns: ["generated_asset_id"]
+            isOneToOne: false
+            referencedRelation: "generated_assets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "asset_review_comments_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "client_configs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      billing_customers: {
+        Row: {
+          created_at: string
+          stripe_customer_id: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          stripe_customer_id: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          stripe_customer_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "billing_customers_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: true
+            referencedRelation: "client_configs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      brand_profiles: {
+        Row: {
+          banned_words: string[]
+          benefits: string[]
+          body_font: string | null
+          brand_name: string | null
+          brand_voice: string | null
+          color_palette: string[]
+          content_types: string[]
+          created_at: string
+          disclaimer: string | null
+          heading_font: string | null
+          id: string
+          industry: string | null
+          key_messages: string | null
+          legal_instructions: string | null
+          logo_url: string | null
+          onboarded_at: string | null
+          target_audience: string | null
+          updated_at: string
+          updated_by: string | null
+          visual_tone: string | null
+          workspace_id: string
+        }
+        Insert: {
+          banned_words?: string[]
+          benefits?: string[]
+          body_font?: string | null
+          brand_name?: string | null
+          brand_voice?: string | null
+          color_palette?: string[]
+          content_types?: string[]
+          created_at?: string
+          disclaimer?: string | null
+          heading_font?: string | null
+          id?: string
+          industry?: string | null
+          key_messages?: string | null
+          legal_instructions?: string | null
+          logo_url?: string | null
+          onboarded_at?: string | null
+          target_audience?: string | null
+          updated_at?: string
+          updated_by?: string | null
+          visual_tone?: string | null
+          workspace_id: string
+        }
+        Update: {
+          banned_words?: string[]
+          benefits?: string[]
+          body_font?: string | null
+          brand_name?: string | null
+          brand_voice?: string | null
+          color_palette?: string[]
+          content_types?: string[]
+          created_at?: string
+          disclaimer?: string | null
+          heading_font?: string | null
+          id?: string
+          industry?: string | null
+          key_messages?: string | null
+          legal_instructions?: string | null
+          logo_url?: string | null
+          onboarded_at?: string | null
+          target_audience?: string | null
+          updated_at?: string
+          updated_by?: string | null
+          visual_tone?: string | null
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "brand_profiles_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: true
+            referencedRelation: "client_configs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      campaign_items: {
+        Row: {
+          asset_type: string
+          attempts: number
+          campaign_id: string
+          channel: string
+          completed_at: string | null
+          content: string | null
+          created_at: string
+          error: string | null
+          format: string
+          generated_asset_id: string | null
+          generation_job_id: string | null
+          id: string
+          inventory_id: string
+          result_url: string | null
+          specification: string | null
+          status: string
+          updated_at: string
+          workspace_id: string
+        }
+        Insert: {
+          asset_type: string
+          attempts?: number
+          campaign_id: string
+          channel: string
+          completed_at?: string | null
+          content?: string | null
+          created_at?: string
+          error?: string | null
+          format: string
+          generated_asset_id?: string | null
+          generation_job_id?: string | null
+          id?: string
+          inventory_id: string
+          result_url?: string | null
+          specification?: string | null
+          status?: string
+          updated_at?: string
+          workspace_id: string
+        }
+        Update: {
+          asset_type?: string
+          attempts?: number
+          campaign_id?: string
+          channel?: string
+          completed_at?: string | null
+          content?: string | null
+          created_at?: string
+          error?: string | null
+          format?: string
+          generated_asset_id?: string | null
+          generation_job_id?: string | null
+          id?: string
+          inventory_id?: string
+          result_url?: string | null
+          specification?: string | null
+          status?: string
+          updated_at?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "campaign_items_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "campaign_items_generated_asset_id_fkey"
+            columns: ["generated_asset_id"]
+            isOneToOne: false
+            referencedRelation: "generated_assets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "campaign_items_generation_job_id_fkey"
+            columns: ["generation_job_id"]
+            isOneToOne: false
+            referencedRelation: "generation_jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "campaign_items_inventory_id_fkey"
+            columns: ["inventory_id"]
+            isOneToOne: false
+            referencedRelation: "inventory"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "campaign_items_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "client_configs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      campaigns: {
+        Row: {
+          combinations: Json
+          completed_at: string | null
+          created_at: string
+          id: string
+          instruction: string | null
+          name: string
+          owner_id: string | null
+          product_filter: Json | null
+          report: Json | null
+          status: string
+          total_items: number
+          updated_at: string
+          workspace_id: string
+        }
+        Insert: {
+          combinations?: Json
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          instruction?: string | null
+          name: string
+          owner_id?: string | null
+          product_filter?: Json | null
+          report?: Json | null
+          status?: string
+          total_items?: number
+          updated_at?: string
+          workspace_id: string
+        }
+        Update: {
+          combinations?: Json
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          instruction?: string | null
+          name?: string
+          owner_id?: string | null
+          product_filter?: Json | null
+          report?: Json | null
+          status?: string
+          total_items?: number
+          updated_at?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "campaigns_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "client_configs"
+            referencedColumns: ["id"]
+          },
         ]
       }
       client_configs: {
@@ -102,21 +444,27 @@ export type Database = {
           client_id: string
           client_name: string
           created_at: string | null
+          created_by: string | null
           id: string
+          require_approval: boolean
           updated_at: string | null
         }
         Insert: {
-          client_id: string
+          client_id?: string
           client_name: string
           created_at?: string | null
+          created_by?: string | null
           id?: string
+          require_approval?: boolean
           updated_at?: string | null
         }
         Update: {
           client_id?: string
           client_name?: string
           created_at?: string | null
+          created_by?: string | null
           id?: string
+          require_approval?: boolean
           updated_at?: string | null
         }
         Relationships: []
@@ -156,6 +504,131 @@ export type Database = {
           },
         ]
       }
+      feed_sources: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          field_mapping: Json
+          format: string
+          id: string
+          is_active: boolean
+          last_status: string | null
+          last_synced_at: string | null
+          name: string
+          next_sync_at: string | null
+          schedule: string
+          updated_at: string
+          url: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          field_mapping?: Json
+          format?: string
+          id?: string
+          is_active?: boolean
+          last_status?: string | null
+          last_synced_at?: string | null
+          name: string
+          next_sync_at?: string | null
+          schedule?: string
+          updated_at?: string
+          url: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          field_mapping?: Json
+          format?: string
+          id?: string
+          is_active?: boolean
+          last_status?: string | null
+          last_synced_at?: string | null
+          name?: string
+          next_sync_at?: string | null
+          schedule?: string
+          updated_at?: string
+          url?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "feed_sources_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "client_configs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      feed_sync_runs: {
+        Row: {
+          error: string | null
+          feed_source_id: string
+          finished_at: string | null
+          id: string
+          row_errors: Json
+          rows_created: number
+          rows_deactivated: number
+          rows_failed: number
+          rows_total: number
+          rows_updated: number
+          started_at: string
+          status: string
+          triggered_by: string
+          workspace_id: string
+        }
+        Insert: {
+          error?: string | null
+          feed_source_id: string
+          finished_at?: string | null
+          id?: string
+          row_errors?: Json
+          rows_created?: number
+          rows_deactivated?: number
+          rows_failed?: number
+          rows_total?: number
+          rows_updated?: number
+          started_at?: string
+          status?: string
+          triggered_by?: string
+          workspace_id: string
+        }
+        Update: {
+          error?: string | null
+          feed_source_id?: string
+          finished_at?: string | null
+          id?: string
+          row_errors?: Json
+          rows_created?: number
+          rows_deactivated?: number
+          rows_failed?: number
+          rows_total?: number
+          rows_updated?: number
+          started_at?: string
+          status?: string
+          triggered_by?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "feed_sync_runs_feed_source_id_fkey"
+            columns: ["feed_source_id"]
+            isOneToOne: false
+            referencedRelation: "feed_sources"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "feed_sync_runs_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "client_configs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       generated_assets: {
         Row: {
           approved: boolean | null
@@ -166,9 +639,16 @@ export type Database = {
           id: string
           instruction: string | null
           inventory_id: string | null
+          owner_id: string | null
+          regenerated_from: string | null
+          review_status: string
+          reviewed_at: string | null
+          reviewed_by: string | null
           source_system: string
+          submitted_at: string | null
           updated_at: string
           url: string
+          workspace_id: string | null
         }
         Insert: {
           approved?: boolean | null
@@ -179,9 +659,16 @@ export type Database = {
           id?: string
           instruction?: string | null
           inventory_id?: string | null
+          owner_id?: string | null
+          regenerated_from?: string | null
+          review_status?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
           source_system: string
+          submitted_at?: string | null
           updated_at?: string
           url: string
+          workspace_id?: string | null
         }
         Update: {
           approved?: boolean | null
@@ -192,54 +679,358 @@ export type Database = {
           id?: string
           instruction?: string | null
           inventory_id?: string | null
+          owner_id?: string | null
+          regenerated_from?: string | null
+          review_status?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
           source_system?: string
+          submitted_at?: string | null
           updated_at?: string
           url?: string
+          workspace_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "generated_assets_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "client_configs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "generated_assets_regenerated_from_fkey"
+            columns: ["regenerated_from"]
+            isOneToOne: false
+            referencedRelation: "generated_assets"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      inventory: {
+      generation_jobs: {
         Row: {
-          brand: string | null
-          category: string | null
+          asset_library_id: string | null
+          attempts: number
+          callback_id: string | null
+          completed_at: string | null
           created_at: string
-          description: string | null
+          error: string | null
+          eta_at: string | null
+          generated_asset_id: string | null
           id: string
-          images: string[]
-          metadata: Json | null
-          name: string
-          price: number | null
-          sku: string | null
+          inventory_id: string | null
+          job_type: string
+          owner_id: string | null
+          progress: number
+          provider: string
+          provider_task_id: string | null
+          request: Json
+          result_url: string | null
+          stage: string | null
+          started_at: string | null
           status: string
+          store_attempts: number
+          template_id: string | null
           updated_at: string
+          workspace_id: string
         }
         Insert: {
-          brand?: string | null
-          category?: string | null
+          asset_library_id?: string | null
+          attempts?: number
+          callback_id?: string | null
+          completed_at?: string | null
           created_at?: string
-          description?: string | null
+          error?: string | null
+          eta_at?: string | null
+          generated_asset_id?: string | null
           id?: string
-          images?: string[]
-          metadata?: Json | null
-          name: string
-          price?: number | null
-          sku?: string | null
+          inventory_id?: string | null
+          job_type: string
+          owner_id?: string | null
+          progress?: number
+          provider?: string
+          provider_task_id?: string | null
+          request?: Json
+          result_url?: string | null
+          stage?: string | null
+          started_at?: string | null
           status?: string
+          store_attempts?: number
+          template_id?: string | null
           updated_at?: string
+          workspace_id: string
         }
         Update: {
-          brand?: string | null
+          asset_library_id?: string | null
+          attempts?: number
+          callback_id?: string | null
+          completed_at?: string | null
+          created_at?: string
+          error?: string | null
+          eta_at?: string | null
+          generated_asset_id?: string | null
+          id?: string
+          inventory_id?: string | null
+          job_type?: string
+          owner_id?: string | null
+          progress?: number
+          provider?: string
+          provider_task_id?: string | null
+          request?: Json
+          result_url?: string | null
+          stage?: string | null
+          started_at?: string | null
+          status?: string
+          store_attempts?: number
+          template_id?: string | null
+          updated_at?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "generation_jobs_generated_asset_id_fkey"
+            columns: ["generated_asset_id"]
+            isOneToOne: false
+            referencedRelation: "generated_assets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "generation_jobs_inventory_id_fkey"
+            columns: ["inventory_id"]
+            isOneToOne: false
+            referencedRelation: "inventory"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "generation_jobs_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "client_configs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "generation_jobs_asset_library_id_fkey"
+            columns: ["asset_library_id"]
+            isOneToOne: false
+            referencedRelation: "asset_library"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inventory: {
+        Row: {
+          brand: string | null
+          category: string | null
+          created_at: string
+          description: string | null
+          feed_source_id: string | null
+          id: string
+          images: string[]
+          metadata: Json | null
+          name: string
+          owner_id: string | null
+          price: number | null
+          sku: string | null
+          status: string
+          updated_at: string
+          workspace_id: string | null
+        }
+        Insert: {
+          brand?: string | null
+          category?: string | null
+          created_at?: string
+          description?: string | null
+          feed_source_id?: string | null
+          id?: string
+          images?: string[]
+          metadata?: Json | null
+          name: string
+          owner_id?: string | null
+          price?: number | null
+          sku?: string | null
+          status?: string
+          updated_at?: string
+          workspace_id?: string | null
+        }
+        Update: {
+          brand?: string | null
           category?: string | null
           created_at?: string
           description?: string | null
+          feed_source_id?: string | null
           id?: string
           images?: string[]
           metadata?: Json | null
           name?: string
+          owner_id?: string | null
           price?: number | null
           sku?: string | null
           status?: string
           updated_at?: string
+          workspace_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inventory_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "client_configs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_feed_source_id_fkey"
+            columns: ["feed_source_id"]
+            isOneToOne: false
+            referencedRelation: "feed_sources"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoices: {
+        Row: {
+          amount_due: number
+          amount_paid: number
+          created_at: string
+          currency: string
+          hosted_invoice_url: string | null
+          id: string
+          invoice_pdf: string | null
+          issued_at: string
+          number: string | null
+          period_end: string | null
+          period_start: string | null
+          status: string
+          stripe_invoice_id: string
+          updated_at: string
+          workspace_id: string
+        }
+        Insert: {
+          amount_due?: number
+          amount_paid?: number
+          created_at?: string
+          currency?: string
+          hosted_invoice_url?: string | null
+          id?: string
+          invoice_pdf?: string | null
+          issued_at?: string
+          number?: string | null
+          period_end?: string | null
+          period_start?: string | null
+          status: string
+          stripe_invoice_id: string
+          updated_at?: string
+          workspace_id: string
+        }
+        Update: {
+          amount_due?: number
+          amount_paid?: number
+          created_at?: string
+          currency?: string
+          hosted_invoice_url?: string | null
+          id?: string
+          invoice_pdf?: string | null
+          issued_at?: string
+          number?: string | null
+          period_end?: string | null
+          period_start?: string | null
+          status?: string
+          stripe_invoice_id?: string
+          updated_at?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoices_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "client_configs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          body: string | null
+          created_at: string
+          id: string
+          kind: string
+          link_tab: string | null
+          read_at: string | null
+          title: string
+          user_id: string
+          workspace_id: string | null
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          kind: string
+          link_tab?: string | null
+          read_at?: string | null
+          title: string
+          user_id: string
+          workspace_id?: string | null
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          kind?: string
+          link_tab?: string | null
+          read_at?: string | null
+          title?: string
+          user_id?: string
+          workspace_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "client_configs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      plans: {
+        Row: {
+          cost_cap_usd: number | null
+          created_at: string
+          id: string
+          image_quota: number | null
+          name: string
+          price_cents: number
+          sort_order: number
+          stripe_price_id: string | null
+          text_quota: number | null
+          updated_at: string
+          video_quota: number | null
+        }
+        Insert: {
+          cost_cap_usd?: number | null
+          created_at?: string
+          id: string
+          image_quota?: number | null
+          name: string
+          price_cents?: number
+          sort_order?: number
+          stripe_price_id?: string | null
+          text_quota?: number | null
+          updated_at?: string
+          video_quota?: number | null
+        }
+        Update: {
+          cost_cap_usd?: number | null
+          created_at?: string
+          id?: string
+          image_quota?: number | null
+          name?: string
+          price_cents?: number
+          sort_order?: number
+          stripe_price_id?: string | null
+          text_quota?: number | null
+          updated_at?: string
+          video_quota?: number | null
         }
         Relationships: []
       }
@@ -267,34 +1058,432 @@ export type Database = {
         }
         Relationships: []
       }
+      publication_metrics: {
+        Row: {
+          captured_at: string
+          comments: number | null
+          id: string
+          impressions: number | null
+          likes: number | null
+          publication_id: string
+          raw: Json
+          reach: number | null
+          saves: number | null
+          shares: number | null
+          views: number | null
+          workspace_id: string
+        }
+        Insert: {
+          captured_at?: string
+          comments?: number | null
+          id?: string
+          impressions?: number | null
+          likes?: number | null
+          publication_id: string
+          raw?: Json
+          reach?: number | null
+          saves?: number | null
+          shares?: number | null
+          views?: number | null
+          workspace_id: string
+        }
+        Update: {
+          captured_at?: string
+          comments?: number | null
+          id?: string
+          impressions?: number | null
+          likes?: number | null
+          publication_id?: string
+          raw?: Json
+          reach?: number | null
+          saves?: number | null
+          shares?: number | null
+          views?: number | null
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "publication_metrics_publication_id_fkey"
+            columns: ["publication_id"]
+            isOneToOne: false
+            referencedRelation: "publications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "publication_metrics_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "client_configs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      publications: {
+        Row: {
+          asset_id: string | null
+          created_at: string
+          created_by: string | null
+          error: string | null
+          external_id: string | null
+          id: string
+          inventory_id: string | null
+          media: Json
+          metrics: Json
+          metrics_synced_at: string | null
+          options: Json
+          platform: string
+          published_at: string | null
+          scheduled_post_id: string | null
+          status: string
+          text: string
+          title: string | null
+          tracking_id: string | null
+          updated_at: string
+          url: string | null
+          workspace_id: string
+        }
+        Insert: {
+          asset_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          error?: string | null
+          external_id?: string | null
+          id?: string
+          inventory_id?: string | null
+          media?: Json
+          metrics?: Json
+          metrics_synced_at?: string | null
+          options?: Json
+          platform: string
+          published_at?: string | null
+          scheduled_post_id?: string | null
+          status: string
+          text?: string
+          title?: string | null
+          tracking_id?: string | null
+          updated_at?: string
+          url?: string | null
+          workspace_id: string
+        }
+        Update: {
+          asset_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          error?: string | null
+          external_id?: string | null
+          id?: string
+          inventory_id?: string | null
+          media?: Json
+          metrics?: Json
+          metrics_synced_at?: string | null
+          options?: Json
+          platform?: string
+          published_at?: string | null
+          scheduled_post_id?: string | null
+          status?: string
+          text?: string
+          title?: string | null
+          tracking_id?: string | null
+          updated_at?: string
+          url?: string | null
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "publications_asset_id_fkey"
+            columns: ["asset_id"]
+            isOneToOne: false
+            referencedRelation: "asset_library"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "publications_scheduled_post_id_fkey"
+            columns: ["scheduled_post_id"]
+            isOneToOne: false
+            referencedRelation: "scheduled_posts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "publications_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "client_configs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "publications_inventory_id_fkey"
+            columns: ["inventory_id"]
+            isOneToOne: false
+            referencedRelation: "inventory"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scheduled_posts: {
+        Row: {
+          asset_id: string | null
+          asset_type: string
+          asset_url: string
+          attempts: number
+          caption: string
+          created_at: string
+          created_by: string | null
+          generated_asset_id: string | null
+          id: string
+          last_error: string | null
+          link: string | null
+          next_attempt_at: string | null
+          options: Json
+          platform: string
+          platform_post_id: string | null
+          platform_url: string | null
+          publish_at: string
+          published_at: string | null
+          status: string
+          title: string | null
+          updated_at: string
+          workspace_id: string
+        }
+        Insert: {
+          asset_id?: string | null
+          asset_type: string
+          asset_url: string
+          attempts?: number
+          caption?: string
+          created_at?: string
+          created_by?: string | null
+          generated_asset_id?: string | null
+          id?: string
+          last_error?: string | null
+          link?: string | null
+          next_attempt_at?: string | null
+          options?: Json
+          platform: string
+          platform_post_id?: string | null
+          platform_url?: string | null
+          publish_at: string
+          published_at?: string | null
+          status?: string
+          title?: string | null
+          updated_at?: string
+          workspace_id: string
+        }
+        Update: {
+          asset_id?: string | null
+          asset_type?: string
+          asset_url?: string
+          attempts?: number
+          caption?: string
+          created_at?: string
+          created_by?: string | null
+          generated_asset_id?: string | null
+          id?: string
+          last_error?: string | null
+          link?: string | null
+          next_attempt_at?: string | null
+          options?: Json
+          platform?: string
+          platform_post_id?: string | null
+          platform_url?: string | null
+          publish_at?: string
+          published_at?: string | null
+          status?: string
+          title?: string | null
+          updated_at?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scheduled_posts_asset_id_fkey"
+            columns: ["asset_id"]
+            isOneToOne: false
+            referencedRelation: "asset_library"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scheduled_posts_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "client_configs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scheduled_posts_generated_asset_id_fkey"
+            columns: ["generated_asset_id"]
+            isOneToOne: false
+            referencedRelation: "generated_assets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       template_fallback_variables: {
         Row: {
+          char_limit: number | null
           created_at: string | null
+          default_value: string | null
+          description: string | null
           id: string
+          is_required: boolean
           template_id: string
+          updated_at: string | null
           variable_name: string
           variable_order: number | null
+          variable_type: string
         }
         Insert: {
+          char_limit?: number | null
           created_at?: string | null
+          default_value?: string | null
+          description?: string | null
           id?: string
+          is_required?: boolean
           template_id: string
+          updated_at?: string | null
           variable_name: string
           variable_order?: number | null
+          variable_type?: string
         }
         Update: {
+          char_limit?: number | null
           created_at?: string | null
+          default_value?: string | null
+          description?: string | null
           id?: string
+          is_required?: boolean
           template_id?: string
+          updated_at?: string | null
           variable_name?: string
           variable_order?: number | null
+          variable_type?: string
         }
         Relationships: []
       }
+      template_requests: {
+        Row: {
+          admin_notes: string | null
+          category: string | null
+          created_at: string
+          description: string
+          duration: string | null
+          heygen_template_id: string | null
+          id: string
+          requested_by: string | null
+          requirements: string | null
+          resolved_at: string | null
+          status: string
+          template_name: string
+          updated_at: string
+          urgency: string
+          workspace_id: string
+        }
+        Insert: {
+          admin_notes?: string | null
+          category?: string | null
+          created_at?: string
+          description: string
+          duration?: string | null
+          heygen_template_id?: string | null
+          id?: string
+          requested_by?: string | null
+          requirements?: string | null
+          resolved_at?: string | null
+          status?: string
+          template_name: string
+          updated_at?: string
+          urgency?: string
+          workspace_id: string
+        }
+        Update: {
+          admin_notes?: string | null
+          category?: string | null
+          created_at?: string
+          description?: string
+          duration?: string | null
+          heygen_template_id?: string | null
+          id?: string
+          requested_by?: string | null
+          requirements?: string | null
+          resolved_at?: string | null
+          status?: string
+          template_name?: string
+          updated_at?: string
+          urgency?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "template_requests_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "client_configs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      usage_events: {
+        Row: {
+          created_at: string
+          estimated_cost_usd: number
+          generation_job_id: string | null
+          id: string
+          metadata: Json | null
+          provider: string
+          unit: string
+          units: number
+          usage_type: string
+          user_id: string | null
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          estimated_cost_usd?: number
+          generation_job_id?: string | null
+          id?: string
+          metadata?: Json | null
+          provider: string
+          unit: string
+          units?: number
+          usage_type: string
+          user_id?: string | null
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          estimated_cost_usd?: number
+          generation_job_id?: string | null
+          id?: string
+          metadata?: Json | null
+          provider?: string
+          unit?: string
+          units?: number
+          usage_type?: string
+          user_id?: string | null
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "usage_events_generation_job_id_fkey"
+            columns: ["generation_job_id"]
+            isOneToOne: false
+            referencedRelation: "generation_jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "usage_events_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "client_configs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_social_connections: {
         Row: {
           access_token: string | null
           connected_at: string
+          health_checked_at: string | null
+          health_error: string | null
+          health_status: string
           id: string
           is_active: boolean | null
           metadata: Json | null
@@ -307,10 +1496,14 @@ export type Database = {
           token_expires_at: string | null
           updated_at: string
           user_id: string
+          workspace_id: string | null
         }
         Insert: {
           access_token?: string | null
           connected_at?: string
+          health_checked_at?: string | null
+          health_error?: string | null
+          health_status?: string
           id?: string
           is_active?: boolean | null
           metadata?: Json | null
@@ -323,10 +1516,14 @@ export type Database = {
           token_expires_at?: string | null
           updated_at?: string
           user_id: string
+          workspace_id?: string | null
         }
         Update: {
           access_token?: string | null
           connected_at?: string
+          health_checked_at?: string | null
+          health_error?: string | null
+          health_status?: string
           id?: string
           is_active?: boolean | null
           metadata?: Json | null
@@ -339,15 +1536,258 @@ export type Database = {
           token_expires_at?: string | null
           updated_at?: string
           user_id?: string
+          workspace_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_social_connections_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "client_configs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      webhook_endpoints: {
+        Row: {
+          created_at: string
+          endpoint_id: string
+          events: string[]
+          id: string
+          provider: string
+          secret: string
+          updated_at: string
+          url: string
+        }
+        Insert: {
+          created_at?: string
+          endpoint_id: string
+          events?: string[]
+          id?: string
+          provider: string
+          secret: string
+          updated_at?: string
+          url: string
+        }
+        Update: {
+          created_at?: string
+          endpoint_id?: string
+          events?: string[]
+          id?: string
+          provider?: string
+          secret?: string
+          updated_at?: string
+          url?: string
+        }
+        Relationships: []
+      }
+      webhook_events: {
+        Row: {
+          attempts: number
+          error: string | null
+          event_key: string
+          event_type: string
+          id: string
+          payload: Json
+          processed_at: string | null
+          provider: string
+          received_at: string
+          signature: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          error?: string | null
+          event_key: string
+          event_type: string
+          id?: string
+          payload: Json
+          processed_at?: string | null
+          provider: string
+          received_at?: string
+          signature?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          error?: string | null
+          event_key?: string
+          event_type?: string
+          id?: string
+          payload?: Json
+          processed_at?: string | null
+          provider?: string
+          received_at?: string
+          signature?: string | null
+          status?: string
+          updated_at?: string
         }
         Relationships: []
       }
+      workspace_members: {
+        Row: {
+          client_config_id: string
+          created_at: string
+          id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          client_config_id: string
+          created_at?: string
+          id?: string
+          role?: string
+          user_id: string
+        }
+        Update: {
+          client_config_id?: string
+          created_at?: string
+          id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_members_client_config_id_fkey"
+            columns: ["client_config_id"]
+            isOneToOne: false
+            referencedRelation: "client_configs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspace_subscriptions: {
+        Row: {
+          cancel_at_period_end: boolean
+          created_at: string
+          current_period_end: string | null
+          current_period_start: string | null
+          plan_id: string
+          status: string
+          stripe_subscription_id: string | null
+          stripe_synced_at: string | null
+          updated_at: string
+          workspace_id: string
+        }
+        Insert: {
+          cancel_at_period_end?: boolean
+          created_at?: string
+          current_period_end?: string | null
+          current_period_start?: string | null
+          plan_id: string
+          status?: string
+          stripe_subscription_id?: string | null
+          stripe_synced_at?: string | null
+          updated_at?: string
+          workspace_id: string
+        }
+        Update: {
+          cancel_at_period_end?: boolean
+          created_at?: string
+          current_period_end?: string | null
+          current_period_start?: string | null
+          plan_id?: string
+          status?: string
+          stripe_subscription_id?: string | null
+          stripe_synced_at?: string | null
+          updated_at?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_subscriptions_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "plans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workspace_subscriptions_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: true
+            referencedRelation: "client_configs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      can_publish_asset: {
+        Args: {
+          p_workspace_id: string
+          p_library_asset_id?: string
+          p_generated_asset_id?: string
+        }
+        Returns: boolean
+      }
+      create_workspace: {
+        Args: { workspace_name: string }
+        Returns: string
+      }
+      delete_api_key: {
+        Args: { p_provider: string; p_workspace_id: string }
+        Returns: undefined
+      }
+      get_api_key: {
+        Args: { p_provider: string; p_workspace_id: string }
+        Returns: string
+      }
+      get_workspace_usage: {
+        Args: { p_workspace_id: string }
+        Returns: {
+          estimated_cost_usd: number
+          period_start: string
+          quota: number
+          usage_type: string
+          used: number
+        }[]
+      }
+      has_workspace_role: {
+        Args: { roles?: string[]; workspace_id: string }
+        Returns: boolean
+      }
+      is_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      record_usage: {
+        Args: {
+          p_estimated_cost_usd: number
+          p_metadata?: Json
+          p_provider: string
+          p_unit: string
+          p_units: number
+          p_usage_type: string
+          p_user_id: string
+          p_workspace_id: string
+        }
+        Returns: string
+      }
+      set_api_key: {
+        Args: {
+          p_key: string
+          p_provider: string
+          p_updated_by: string
+          p_workspace_id: string
+        }
+        Returns: {
+          created_at: string
+          id: string
+          key_hint: string | null
+          last_validated_at: string | null
+          provider: string
+          secret_id: string
+          updated_at: string
+          updated_by: string | null
+          validation_error: string | null
+          workspace_id: string | null
+        }
+      }
     }
     Enums: {
       [_ in never]: never
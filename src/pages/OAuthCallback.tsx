@@ -0,0 +1,97 @@
+import { useEffect } from 'react';
+import { CURRENT_WORKSPACE_STORAGE_KEY } from '@/contexts/workspace';
+import {
+  OAUTH_PROVIDERS,
+  OAuthProvider,
+  invokeOAuth,
+  oauthCodeVerifierKey,
+  oauthMessageType,
+  oauthRedirectUri,
+  oauthStateKey
+} from '@/utils/oauthProviders';
+
+interface OAuthCallbackProps {
+  provider: OAuthProvider;
+}
+
+export function OAuthCallback({ provider }: OAuthCallbackProps) {
+  const { name, spinnerClassName, retrievingLabel, pkce } = OAUTH_PROVIDERS[provider];
+
+  useEffect(() => {
+    const handleCallback = async () => {
+      try {
+        const urlParams = new URLSearchParams(window.location.search);
+        const code = urlParams.get('code');
+        const error = urlParams.get('error');
+        const errorDescription = urlParams.get('error_description');
+        const state = urlParams.get('state');
+
+        if (error) {
+          throw new Error(errorDescription || error);
+        }
+
+        if (!code) {
+          throw new Error('No authorization code received');
+        }
+
+        // The state was stored by the window that opened this popup
+        const expectedState = localStorage.getItem(oauthStateKey(provider));
+        const codeVerifier = localStorage.getItem(oauthCodeVerifierKey(provider));
+        localStorage.removeItem(oauthStateKey(provider));
+        localStorage.removeItem(oauthCodeVerifierKey(provider));
+        if (!expectedState || state !== expectedState || (pkce && !codeVerifier)) {
+          throw new Error('Authorization state mismatch. Please try connecting again.');
+        }
+
+        const workspaceId = localStorage.getItem(CURRENT_WORKSPACE_STORAGE_KEY);
+        if (!workspaceId) {
+          throw new Error(`Select a workspace before connecting ${name}`);
+        }
+
+        console.log(`Processing ${name} authorization code...`);
+
+        // Token exchange happens server-side so the app secret stays private
+        const data = await invokeOAuth(provider, 'exchange_code', {
+          code,
+          redirectUri: oauthRedirectUri(provider),
+          codeVerifier: pkce ? codeVerifier : undefined,
+          workspaceId
+        });
+
+        window.opener?.postMessage({
+          ...data,
+          type: oauthMessageType(provider, 'SUCCESS')
+        }, window.location.origin);
+
+        window.close();
+
+      } catch (error) {
+        console.error(`${name} callback error:`, error);
+
+        window.opener?.postMessage({
+          type: oauthMessageType(provider, 'ERROR'),
+          error: error.message || 'Authentication failed'
+        }, window.location.origin);
+
+        window.close();
+      }
+    };
+
+    handleCallback();
+  }, [name, pkce, provider]);
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-gray-50">
+      <div className="text-center p-8 bg-white rounded-lg shadow-md max-w-md">
+        <div className={`animate-spin rounded-full h-12 w-12 border-b-2 ${spinnerClassName} mx-auto mb-4`}></div>
+        <h2 className="text-lg font-medium text-gray-900 mb-2">Connecting to {name}</h2>
+        <p className="text-gray-600 mb-4">Please wait while we complete your authentication...</p>
+        <div className="text-xs text-gray-500">
+          <p>✓ Exchanging authorization code</p>
+          <p>✓ {retrievingLabel}</p>
+          <p>✓ Saving connection data</p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { Loader2, Mail } from 'lucide-react';
+
+export function SignIn() {
+  const { toast } = useToast();
+  const { signInWithPassword, signUp, sendMagicLink } = useAuth();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [magicLinkSent, setMagicLinkSent] = useState(false);
+
+  const run = async (action: () => Promise<void>, successTitle?: string, successDescription?: string) => {
+    setIsSubmitting(true);
+    try {
+      await action();
+      if (successTitle) {
+        toast({ title: successTitle, description: successDescription });
+      }
+    } catch (error) {
+      toast({
+        title: "Authentication Failed",
+        description: error.message || "Please check your details and try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handlePasswordSignIn = () => run(() => signInWithPassword(email, password));
+
+  const handleSignUp = () => run(
+    () => signUp(email, password),
+    "Check Your Email",
+    "We sent you a confirmation link to finish creating your account."
+  );
+
+  const handleMagicLink = () => run(async () => {
+    await sendMagicLink(email);
+    setMagicLinkSent(true);
+  }, "Magic Link Sent", `Check ${email} for a sign-in link.`);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="flex items-center justify-center space-x-3 mb-2">
+            <img
+              src="/lovable-uploads/89de7e4b-f2ba-4d6e-b0dd-47971ec53def.png"
+              alt="FeedGenesis Logo"
+              className="h-8 w-auto"
+            />
+            <CardTitle className="text-xl">FeedGenesis</CardTitle>
+          </div>
+          <CardDescription>Sign in to manage your products and generated assets</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-2 mb-4">
+            <Label htmlFor="email">Email Address</Label>
+            <Input
+              id="email"
+              type="email"
+              autoComplete="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="you@company.com"
+            />
+          </div>
+
+          <Tabs defaultValue="magic-link">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="magic-link">Magic Link</TabsTrigger>
+              <TabsTrigger value="password">Password</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="magic-link" className="space-y-4 pt-2">
+              {magicLinkSent ? (
+                <p className="text-sm text-muted-foreground text-center">
+                  A sign-in link is on its way to <span className="font-medium">{email}</span>.
+                  Open it on this device to continue.
+                </p>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  We'll email you a one-time link, no password needed.
+                </p>
+              )}
+              <Button
+                className="w-full flex items-center space-x-2"
+                onClick={handleMagicLink}
+                disabled={isSubmitting || !email}
+              >
+                {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Mail className="h-4 w-4" />}
+                <span>{magicLinkSent ? 'Resend Magic Link' : 'Send Magic Link'}</span>
+              </Button>
+            </TabsContent>
+
+            <TabsContent value="password" className="space-y-4 pt-2">
+              <div className="space-y-2">
+                <Label htmlFor="password">Password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  autoComplete="current-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+              </div>
+              <div className="flex space-x-2">
+                <Button
+                  className="flex-1"
+                  onClick={handlePasswordSignIn}
+                  disabled={isSubmitting || !email || !password}
+                >
+                  {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Sign In
+                </Button>
+                <Button
+                  variant="outline"
+                  className="flex-1"
+                  onClick={handleSignUp}
+                  disabled={isSubmitting || !email || password.length < 6}
+                >
+                  Create Account
+                </Button>
+              </div>
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
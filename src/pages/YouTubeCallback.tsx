@@ -1,7 +1,7 @@
 import { useEffect } from 'react';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
-import { log } from 'console';
+import { CURRENT_WORKSPACE_STORAGE_KEY } from '@/contexts/workspace';
 
 export function YouTubeCallback() {
   const { toast } = useToast();
@@ -30,117 +30,34 @@ export function YouTubeCallback() {
           throw new Error('No authorization code received');
         }
 
-        console.log('Processing YouTube authorization code...');
-
-        // Exchange code for access token
-        const tokenResponse = await fetch('https://oauth2.googleapis.com/token', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/x-www-form-urlencoded',
-          },
-          body: new URLSearchParams({
-            client_id: '912066635865-6rucscatfu2otov3s6clfnoh9hhuj9jh.apps.googleusercontent.com',
-            client_secret: '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',
-            code: code,
-            grant_type: 'authorization_code',
-            redirect_uri: window.location.origin + '/youtube-callback',
-          })
-        });
-
-        if (!tokenResponse.ok) {
-          const errorData = await tokenResponse.json();
-          console.error('Token exchange failed:', errorData);
-          throw new Error(errorData.error_description || 'Failed to exchange code for token');
-        }
-
-        const tokenData = await tokenResponse.json();
-        console.log('Token exchange successful, getting channel info...');
-
-        // Get YouTube channel information using the new token
-        const channelResponse = await fetch(
-          'https://www.googleapis.com/youtube/v3/channels?part=snippet,statistics&mine=true',
-          {
-            headers: {
-              'Authorization': `Bearer ${tokenData.access_token}`,
-              'Content-Type': 'application/json'
-            }
-          }
-        );
-        console.log(channelResponse);
-        if (!channelResponse.ok) {
-          const channelError = await channelResponse.json();
-          console.error('Channel info request failed:', channelError);
-          throw new Error(channelError.error?.message || 'Failed to get channel information');
+        // The popup shares localStorage with the app window that started the connection
+        const workspaceId = localStorage.getItem(CURRENT_WORKSPACE_STORAGE_KEY);
+        if (!workspaceId) {
+          throw new Error('Select a workspace before connecting YouTube');
         }
 
-        const channelData = await channelResponse.json();
-        const channel = channelData.items?.[0];
-
-        if (!channel) {
-          throw new Error('No YouTube channel found for this account');
-        }
-
-        console.log('Channel info retrieved:', channel.snippet.title);
-
-        // Calculate token expiry time
-        const expiresAt = tokenData.expires_in 
-          ? new Date(Date.now() + tokenData.expires_in * 1000).toISOString()
-          : new Date(Date.now() + 3600 * 1000).toISOString(); // 1 hour default
-
-        const userInfo = {
-          channelId: channel.id,
-          channelTitle: channel.snippet.title,
-          subscriberCount: channel.statistics?.subscriberCount || '0',
-          videoCount: channel.statistics?.videoCount || '0'
-        };
-
-        // Prepare connection data
-        const connectionData = {
-          user_id: 'default_user',
-          platform: 'youtube',
-          platform_user_id: channel.id,
-          platform_username: channel.snippet.title, // For backwards compatibility
-          platform_display_name: channel.snippet.title, // Correct field name
-          access_token: tokenData.access_token,
-          refresh_token: tokenData.refresh_token || null,
-          token_expires_at: expiresAt,
-          scope: 'https://www.googleapis.com/auth/youtube.upload https://www.googleapis.com/auth/youtube.readonly',
-          connected_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          is_active: true,
-          metadata: {
-            subscriberCount: channel.statistics?.subscriberCount || '0',
-            videoCount: channel.statistics?.videoCount || '0',
-            channelDescription: channel.snippet.description,
-            thumbnailUrl: channel.snippet.thumbnails?.default?.url
-          }
-        };
-
-        // Store connection in database (no localStorage fallback)
-        try {
-          const { error: dbError } = await supabase
-            .from('user_social_connections')
-            .upsert(connectionData, {
-              onConflict: 'user_id,platform'
-            });
+        console.log('Processing YouTube authorization code...');
 
-          if (dbError) {
-            console.error('Database error:', dbError);
-            throw new Error(`Database save failed: ${dbError.message}`);
+        // Token exchange happens server-side; the tokens are stored there and
+        // never come back to the browser
+        const { data, error: invokeError } = await supabase.functions.invoke('youtube-oauth', {
+          body: {
+            action: 'exchange_code',
+            code,
+            redirectUri: window.location.origin + '/youtube-callback',
+            workspaceId
           }
+        });
 
-          console.log('YouTube connection saved to database successfully');
+        if (invokeError) throw invokeError;
+        if (!data.success) throw new Error(data.error);
 
-        } catch (dbError) {
-          console.error('Failed to save YouTube connection to database:', dbError);
-          throw new Error('Failed to save connection. Please try connecting again.');
-        }
+        console.log('YouTube connection saved for channel:', data.user.channelTitle);
 
         // Send success to parent window
         window.opener?.postMessage({
           type: 'YOUTUBE_AUTH_SUCCESS',
-          user: userInfo,
-          token: tokenData.access_token
+          user: data.user
         }, window.location.origin);
 
         // Check if this was a direct navigation or popup
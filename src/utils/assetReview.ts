@@ -0,0 +1,73 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type ReviewComment = Tables<'asset_review_comments'>;
+
+export type ReviewStatus = 'draft' | 'in_review' | 'approved' | 'rejected' | 'changes_requested';
+
+export type ReviewAction = 'comment' | 'submit' | 'withdraw' | 'approve' | 'reject' | 'request_changes';
+
+export const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  draft: 'Draft',
+  in_review: 'In review',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  changes_requested: 'Changes requested',
+};
+
+export const REVIEW_STATUS_STYLES: Record<ReviewStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  in_review: 'bg-blue-100 text-blue-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  changes_requested: 'bg-orange-100 text-orange-800',
+};
+
+// How each thread entry reads, keyed by asset_review_comments.kind
+export const REVIEW_EVENT_LABELS: Record<string, string> = {
+  comment: 'commented',
+  submitted: 'submitted for review',
+  withdrawn: 'withdrew from review',
+  approved: 'approved',
+  rejected: 'rejected',
+  changes_requested: 'requested changes',
+};
+
+export interface ReviewResult {
+  message?: string;
+  regeneration_job_id?: string | null;
+}
+
+/**
+ * Moves a generated asset through review, or adds a comment to its thread,
+ * through the asset-review edge function. Requesting changes also queues a
+ * regeneration with the comment appended to the instruction.
+ */
+export async function reviewAsset(action: ReviewAction, assetId: string, comment?: string): Promise<ReviewResult> {
+  const { data, error } = await supabase.functions.invoke('asset-review', {
+    body: { action, assetId, comment }
+  });
+
+  if (error) throw error;
+  if (!data.success) throw new Error(data.error);
+  return data;
+}
+
+/**
+ * Whether the workspace lets this asset be published: always, unless the
+ * workspace requires approval, in which case the generated asset behind it
+ * must have been approved. Pass the library entry, the generated asset, or both.
+ */
+export async function canPublishAsset(
+  workspaceId: string,
+  asset: { libraryAssetId?: string | null; generatedAssetId?: string | null }
+): Promise<boolean> {
+  const { data, error } = await supabase.rpc('can_publish_asset', {
+    p_workspace_id: workspaceId,
+    p_library_asset_id: asset.libraryAssetId ?? undefined,
+    p_generated_asset_id: asset.generatedAssetId ?? undefined,
+  });
+
+  if (error) throw error;
+  return !!data;
+}
@@ -27,6 +27,13 @@ export async function downloadAndStoreAsset(
 
     console.log('Generated filename:', generatedFileName);
 
+    // Storage policies only allow writes inside the signed-in user's folder
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('You must be signed in to store assets');
+    }
+    const storagePath = `${user.id}/${generatedFileName}`;
+
     // Download the file from the external URL
     console.log('Fetching external URL...');
     const response = await fetch(externalUrl);
@@ -41,7 +48,7 @@ export async function downloadAndStoreAsset(
     console.log('Uploading to Supabase storage...');
     const { data, error } = await supabase.storage
       .from('generated-assets')
-      .upload(generatedFileName, blob, {
+      .upload(storagePath, blob, {
         contentType: blob.type,
         upsert: true
       });
@@ -62,7 +69,7 @@ export async function downloadAndStoreAsset(
 
     return {
       url: publicUrl,
-      fileName: generatedFileName
+      fileName: storagePath
     };
   } catch (error) {
     console.error('Error downloading and storing asset:', error);
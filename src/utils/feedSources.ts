@@ -0,0 +1,80 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type FeedSource = Tables<'feed_sources'>;
+export type FeedSyncRun = Tables<'feed_sync_runs'>;
+
+export type FeedFormat = 'csv' | 'json' | 'xml';
+export type FeedSchedule = 'manual' | 'hourly' | 'daily' | 'weekly';
+
+export interface FeedRowError {
+  row: number;
+  sku: string | null;
+  error: string;
+}
+
+// Inventory fields a feed column can be mapped onto
+export const FEED_FIELDS: { key: string; label: string }[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'sku', label: 'SKU' },
+  { key: 'description', label: 'Description' },
+  { key: 'price', label: 'Price' },
+  { key: 'category', label: 'Category' },
+  { key: 'brand', label: 'Brand' },
+  { key: 'image', label: 'Image' },
+  { key: 'additional_images', label: 'Additional images' },
+];
+
+// Google Merchant column names are recognised without a mapping
+export const FEED_MAPPING_PRESETS: Record<string, { label: string; mapping: Record<string, string> }> = {
+  google: { label: 'Google Merchant', mapping: {} },
+  shopify: {
+    label: 'Shopify CSV',
+    mapping: {
+      name: 'Title',
+      sku: 'Variant SKU',
+      description: 'Body (HTML)',
+      price: 'Variant Price',
+      category: 'Type',
+      brand: 'Vendor',
+      image: 'Image Src',
+    },
+  },
+};
+
+export const FEED_SCHEDULE_LABELS: Record<FeedSchedule, string> = {
+  manual: 'Manual only',
+  hourly: 'Every hour',
+  daily: 'Every day',
+  weekly: 'Every week',
+};
+
+export const SYNC_STATUS_STYLES: Record<string, string> = {
+  running: 'bg-blue-100 text-blue-800',
+  succeeded: 'bg-green-100 text-green-800',
+  partial: 'bg-yellow-100 text-yellow-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+export interface FeedSyncResult {
+  success: boolean;
+  status?: 'succeeded' | 'partial' | 'failed';
+  rows_created?: number;
+  rows_updated?: number;
+  rows_deactivated?: number;
+  rows_failed?: number;
+  error?: string | null;
+}
+
+/**
+ * Runs the feed-sync function for one source right away instead of waiting
+ * for its schedule.
+ */
+export async function syncFeedSource(feedSourceId: string): Promise<FeedSyncResult> {
+  const { data, error } = await supabase.functions.invoke('feed-sync', {
+    body: { feedSourceId },
+  });
+
+  if (error) throw error;
+  return data;
+}
@@ -0,0 +1,96 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type GenerationJob = Tables<'generation_jobs'>;
+
+const isFinished = (job: GenerationJob) => job.status === 'succeeded' || job.status === 'failed';
+
+/**
+ * Follows a generation job over Realtime until the worker marks it as
+ * succeeded or failed. Resolves with the final row either way; callers
+ * decide how to surface a failure.
+ */
+export function waitForGenerationJob(
+  jobId: string,
+  onUpdate?: (job: GenerationJob) => void
+): Promise<GenerationJob> {
+  return new Promise((resolve, reject) => {
+    let settled = false;
+
+    const channel = supabase.channel(`generation-job-${jobId}`);
+
+    const handleJob = (job: GenerationJob) => {
+      if (settled) return;
+      onUpdate?.(job);
+      if (isFinished(job)) {
+        settled = true;
+        supabase.removeChannel(channel);
+        resolve(job);
+      }
+    };
+
+    channel
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'generation_jobs', filter: `id=eq.${jobId}` },
+        (payload) => handleJob(payload.new as GenerationJob)
+      )
+      .subscribe(async (status) => {
+        if (status === 'SUBSCRIBED') {
+          // The job may have moved on before the subscription was live
+          const { data, error } = await supabase
+            .from('generation_jobs')
+            .select('*')
+            .eq('id', jobId)
+            .single();
+
+          if (error) {
+            settled = true;
+            supabase.removeChannel(channel);
+            reject(new Error(`Failed to load generation job: ${error.message}`));
+            return;
+          }
+
+          handleJob(data);
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          if (settled) return;
+          settled = true;
+          supabase.removeChannel(channel);
+          reject(new Error('Lost connection while waiting for the generation job'));
+        }
+      });
+  });
+}
+
+// Provider statuses as stored in generation_jobs.stage, in words a user understands
+export const GENERATION_STAGE_LABELS: Record<string, string> = {
+  queued: 'Waiting to start',
+  submitted: 'Sent to provider',
+  pending: 'Queued at provider',
+  throttled: 'Queued at provider',
+  waiting: 'Queued at provider',
+  running: 'Generating',
+  processing: 'Rendering',
+  webhook_received: 'Saving video',
+  storing: 'Saving result',
+  succeeded: 'Done',
+  completed: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+export function describeGenerationStage(job: GenerationJob): string {
+  const stage = job.stage || job.status;
+  return GENERATION_STAGE_LABELS[stage] ?? stage;
+}
+
+// "About 3 min left" from the ETA the worker stored, if it had enough to go on
+export function formatGenerationEta(job: GenerationJob): string | null {
+  if (isFinished(job) || !job.eta_at) return null;
+
+  const remaining = new Date(job.eta_at).getTime() - Date.now();
+  if (remaining <= 30 * 1000) return 'Almost done';
+
+  const minutes = Math.round(remaining / 60000);
+  return minutes < 1 ? 'Under a minute left' : `About ${minutes} min left`;
+}
@@ -0,0 +1,33 @@
+import { publish, type PublishResult } from '@/utils/publishing';
+
+export interface LinkedInPostSettings {
+  text: string;
+}
+
+export const DEFAULT_LINKEDIN_POST_SETTINGS: LinkedInPostSettings = {
+  text: '',
+};
+
+// LinkedIn's limit on post commentary
+export const LINKEDIN_MAX_POST_LENGTH = 3000;
+
+export interface PublishToLinkedInInput {
+  workspaceId: string;
+  assetId?: string | null;
+  title?: string;
+  settings: LinkedInPostSettings;
+  mediaUrl?: string;
+  mediaType?: 'image' | 'video';
+}
+
+// Posts to the organization Page chosen in Social Profiles
+export async function publishToLinkedIn(input: PublishToLinkedInInput): Promise<PublishResult> {
+  return publish({
+    workspaceId: input.workspaceId,
+    platform: 'linkedin',
+    assetId: input.assetId ?? null,
+    media: input.mediaUrl ? [{ url: input.mediaUrl, type: input.mediaType ?? 'image' }] : [],
+    text: input.settings.text,
+    title: input.title,
+  });
+}
@@ -0,0 +1,96 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Networks connected through a popup: the popup goes through the network's
+// consent page, lands on the callback path, and posts the outcome back to
+// the window that opened it
+export type OAuthProvider = 'facebook' | 'tiktok' | 'pinterest' | 'linkedin' | 'twitter';
+
+// What exchange_code and check_connection report about the connection
+export interface OAuthResult {
+  user?: { id: string; username?: string | null; displayName?: string } | null;
+  page?: { id: string; name: string } | null;
+  organization?: { id: string; name: string } | null;
+}
+
+interface OAuthProviderConfig {
+  name: string;
+  // Edge function that builds the consent URL and exchanges the code
+  functionName: string;
+  callbackPath: string;
+  spinnerClassName: string;
+  // Shown on the callback page while the connection is saved
+  retrievingLabel: string;
+  describeConnection: (result: OAuthResult) => string;
+  // X requires PKCE: the verifier stays in the browser, only its SHA-256
+  // challenge is sent with the consent request
+  pkce?: boolean;
+}
+
+export const OAUTH_PROVIDERS: Record<OAuthProvider, OAuthProviderConfig> = {
+  facebook: {
+    name: 'Facebook',
+    functionName: 'facebook-oauth',
+    callbackPath: '/facebook-callback',
+    spinnerClassName: 'border-blue-600',
+    retrievingLabel: 'Retrieving your Pages',
+    describeConnection: result => result.page
+      ? `Publishing to ${result.page.name}`
+      : 'Choose which Page to publish to'
+  },
+  tiktok: {
+    name: 'TikTok',
+    functionName: 'tiktok-oauth',
+    callbackPath: '/tiktok-callback',
+    spinnerClassName: 'border-gray-900',
+    retrievingLabel: 'Retrieving account information',
+    describeConnection: result => `Successfully connected to ${result.user?.displayName}`
+  },
+  pinterest: {
+    name: 'Pinterest',
+    functionName: 'pinterest-oauth',
+    callbackPath: '/pinterest-callback',
+    spinnerClassName: 'border-red-600',
+    retrievingLabel: 'Retrieving account information',
+    describeConnection: result => `Successfully connected to ${result.user?.username}`
+  },
+  linkedin: {
+    name: 'LinkedIn',
+    functionName: 'linkedin-oauth',
+    callbackPath: '/linkedin-callback',
+    spinnerClassName: 'border-blue-600',
+    retrievingLabel: 'Retrieving your organization Pages',
+    describeConnection: result => result.organization
+      ? `Publishing to ${result.organization.name}`
+      : 'Choose which Page to publish to'
+  },
+  twitter: {
+    name: 'X',
+    functionName: 'twitter-oauth',
+    callbackPath: '/twitter-callback',
+    spinnerClassName: 'border-sky-500',
+    retrievingLabel: 'Retrieving account information',
+    describeConnection: result => `Successfully connected to @${result.user?.username}`,
+    pkce: true
+  }
+};
+
+export const oauthStateKey = (provider: OAuthProvider) => `${provider}_auth_state`;
+
+export const oauthCodeVerifierKey = (provider: OAuthProvider) => `${provider}_code_verifier`;
+
+export const oauthMessageType = (provider: OAuthProvider, outcome: 'SUCCESS' | 'ERROR') =>
+  `${provider.toUpperCase()}_AUTH_${outcome}`;
+
+export const oauthRedirectUri = (provider: OAuthProvider) =>
+  window.location.origin + OAUTH_PROVIDERS[provider].callbackPath;
+
+// Tokens stay server-side; the browser only ever sees the action's result
+export async function invokeOAuth(provider: OAuthProvider, action: string, body: Record<string, unknown> = {}) {
+  const { data, error } = await supabase.functions.invoke(OAUTH_PROVIDERS[provider].functionName, {
+    body: { action, ...body }
+  });
+
+  if (error) throw error;
+  if (!data.success) throw new Error(data.error);
+  return data;
+}
@@ -0,0 +1,95 @@
+import { supabase } from '@/integrations/supabase/client';
+import { getProductLink } from '@/utils/productLink';
+import { fetchPublishOptions, publish, type PublishFields, type PublishResult } from '@/utils/publishing';
+
+export interface PinterestBoard {
+  id: string;
+  name: string;
+  privacy: string;
+}
+
+export interface PinterestPinSettings {
+  boardId: string;
+  title: string;
+  description: string;
+  link: string;
+  altText: string;
+}
+
+export const DEFAULT_PINTEREST_PIN_SETTINGS: PinterestPinSettings = {
+  boardId: '',
+  title: '',
+  description: '',
+  link: '',
+  altText: '',
+};
+
+// Pinterest's field limits for pins
+export const PINTEREST_LIMITS = {
+  title: 100,
+  description: 500,
+  altText: 500,
+};
+
+export async function fetchPinterestBoards(workspaceId: string): Promise<PinterestBoard[]> {
+  const data = await fetchPublishOptions<{ boards: PinterestBoard[] }>(workspaceId, 'pinterest');
+  return data.boards;
+}
+
+export const pinFields = (settings: PinterestPinSettings): PublishFields => ({
+  title: settings.title,
+  text: settings.description,
+  link: settings.link,
+  options: { boardId: settings.boardId, altText: settings.altText },
+});
+
+export interface CreatePinInput {
+  workspaceId: string;
+  assetId?: string | null;
+  mediaUrl: string;
+  mediaType: 'image' | 'video';
+  settings: PinterestPinSettings;
+}
+
+export async function createPin(input: CreatePinInput): Promise<PublishResult> {
+  return publish({
+    workspaceId: input.workspaceId,
+    platform: 'pinterest',
+    assetId: input.assetId ?? null,
+    media: [{ url: input.mediaUrl, type: input.mediaType }],
+    ...pinFields(input.settings),
+  });
+}
+
+/**
+ * Looks up the product a library asset was generated for, following
+ * asset_library.original_asset_id to generated_assets.inventory_id, and
+ * returns its product page link.
+ */
+export async function resolveAssetProductLink(assetId: string): Promise<{ productName: string; link: string | null } | null> {
+  const { data: asset } = await supabase
+    .from('asset_library')
+    .select('original_asset_id')
+    .eq('id', assetId)
+    .maybeSingle();
+
+  if (!asset?.original_asset_id) return null;
+
+  const { data: generated } = await supabase
+    .from('generated_assets')
+    .select('inventory_id')
+    .eq('id', asset.original_asset_id)
+    .maybeSingle();
+
+  if (!generated?.inventory_id) return null;
+
+  const { data: product } = await supabase
+    .from('inventory')
+    .select('name, metadata')
+    .eq('id', generated.inventory_id)
+    .maybeSingle();
+
+  if (!product) return null;
+
+  return { productName: product.name, link: getProductLink(product.metadata) };
+}
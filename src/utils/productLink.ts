@@ -0,0 +1,19 @@
+// Metadata keys product feeds and imports use for the product page URL
+const PRODUCT_LINK_KEYS = ['link', 'website_url', 'url', 'product_url', 'product link', 'canonical_link'];
+
+/**
+ * The product page URL stored in inventory metadata by feed syncs and
+ * imports, if there is one.
+ */
+export function getProductLink(metadata: unknown): string | null {
+  if (!metadata || typeof metadata !== 'object') return null;
+
+  const values = metadata as Record<string, unknown>;
+  for (const key of PRODUCT_LINK_KEYS) {
+    const value = values[key];
+    if (typeof value === 'string' && /^https?:\/\//i.test(value.trim())) {
+      return value.trim();
+    }
+  }
+  return null;
+}
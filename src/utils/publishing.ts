@@ -0,0 +1,141 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Publication = Tables<'publications'>;
+
+export type PublishPlatform = 'youtube' | 'instagram' | 'facebook' | 'tiktok' | 'pinterest' | 'twitter' | 'linkedin';
+
+export interface PublishMedia {
+  url: string;
+  type: 'image' | 'video';
+}
+
+export interface PublishInput {
+  workspaceId: string;
+  platform: PublishPlatform;
+  assetId?: string | null;
+  // For posts made straight from a generation, which have no library entry
+  generatedAssetId?: string | null;
+  media?: PublishMedia[];
+  text?: string;
+  title?: string;
+  tags?: string[];
+  link?: string;
+  // Settings only this network understands, such as a Pinterest board
+  options?: Record<string, unknown>;
+}
+
+// The parts of a post each network fills in from its own settings
+export type PublishFields = Pick<PublishInput, 'text' | 'title' | 'link' | 'options'>;
+
+export interface PublishResult {
+  message: string;
+  publication: Publication;
+}
+
+export const PUBLISH_PLATFORM_NAMES: Record<string, string> = {
+  youtube: 'YouTube',
+  instagram: 'Instagram',
+  facebook: 'Facebook',
+  tiktok: 'TikTok',
+  pinterest: 'Pinterest',
+  twitter: 'X',
+  linkedin: 'LinkedIn',
+};
+
+// Media each provider's validateMedia accepts in the publish function
+export const PUBLISH_MEDIA_TYPES: Record<PublishPlatform, PublishMedia['type'][]> = {
+  youtube: ['video'],
+  instagram: ['image'],
+  facebook: ['image', 'video'],
+  tiktok: ['video'],
+  pinterest: ['image', 'video'],
+  twitter: ['image', 'video'],
+  linkedin: ['image', 'video'],
+};
+
+export const PUBLICATION_STATUS_LABELS: Record<string, string> = {
+  processing: 'Processing',
+  sent_to_inbox: 'In drafts',
+  published: 'Published',
+  failed: 'Failed',
+};
+
+export const PUBLICATION_STATUS_STYLES: Record<string, string> = {
+  processing: 'bg-blue-100 text-blue-800',
+  sent_to_inbox: 'bg-purple-100 text-purple-800',
+  published: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+async function invokePublish<T>(body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('publish', { body });
+
+  if (error) throw error;
+  if (!data.success) throw new Error(data.error);
+  return data;
+}
+
+/**
+ * Publishes to any connected network through the publish edge function.
+ * Every attempt is recorded in publications; failed ones throw with the
+ * network's error. Networks that process uploads asynchronously return a
+ * publication that is still 'processing'.
+ */
+export async function publish(input: PublishInput): Promise<PublishResult> {
+  return invokePublish({ action: 'publish', ...input });
+}
+
+// Account-specific choices the network offers before publishing
+export async function fetchPublishOptions<T>(workspaceId: string, platform: PublishPlatform): Promise<T> {
+  return invokePublish<T>({ action: 'options', workspaceId, platform });
+}
+
+// Re-checks a publication the network is still processing
+export async function refreshPublication(workspaceId: string, publicationId: string): Promise<Publication> {
+  const data = await invokePublish<{ publication: Publication }>({ action: 'status', workspaceId, publicationId });
+  return data.publication;
+}
+
+// Engagement counts the publish function pulls from each network; ones a
+// network doesn't report are left out
+export interface PublicationMetrics {
+  views?: number;
+  impressions?: number;
+  reach?: number;
+  likes?: number;
+  comments?: number;
+  shares?: number;
+  saves?: number;
+}
+
+export const PUBLICATION_METRIC_LABELS: Record<keyof PublicationMetrics, string> = {
+  views: 'Views',
+  impressions: 'Impressions',
+  reach: 'Reach',
+  likes: 'Likes',
+  comments: 'Comments',
+  shares: 'Shares',
+  saves: 'Saves',
+};
+
+export const publicationMetrics = (publication: Pick<Publication, 'metrics'>) =>
+  (publication.metrics ?? {}) as PublicationMetrics;
+
+// Likes, comments, shares and saves together
+export const engagement = (metrics: PublicationMetrics) =>
+  (metrics.likes ?? 0) + (metrics.comments ?? 0) + (metrics.shares ?? 0) + (metrics.saves ?? 0);
+
+export function sumMetrics(publications: Pick<Publication, 'metrics'>[]): PublicationMetrics {
+  const totals: PublicationMetrics = {};
+  for (const publication of publications) {
+    const metrics = publicationMetrics(publication);
+    for (const key of Object.keys(PUBLICATION_METRIC_LABELS) as (keyof PublicationMetrics)[]) {
+      const value = metrics[key];
+      if (value !== undefined) {
+        totals[key] = (totals[key] ?? 0) + value;
+      }
+    }
+  }
+  return totals;
+}
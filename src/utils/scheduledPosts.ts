@@ -0,0 +1,78 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { PUBLISH_MEDIA_TYPES, type PublishFields, type PublishPlatform } from '@/utils/publishing';
+
+export type ScheduledPost = Tables<'scheduled_posts'>;
+
+// social-scheduler publishes through the publish function, so every network it supports can be scheduled
+export type SchedulablePlatform = PublishPlatform;
+
+const platformsFor = (assetType: 'image' | 'video') =>
+  (Object.keys(PUBLISH_MEDIA_TYPES) as SchedulablePlatform[])
+    .filter(platform => PUBLISH_MEDIA_TYPES[platform].includes(assetType));
+
+// Platforms the social-scheduler function can publish to, by asset type
+export const SCHEDULABLE_PLATFORMS: Record<'image' | 'video', SchedulablePlatform[]> = {
+  image: platformsFor('image'),
+  video: platformsFor('video'),
+};
+
+export const POST_STATUS_STYLES: Record<string, string> = {
+  scheduled: 'bg-blue-100 text-blue-800',
+  publishing: 'bg-yellow-100 text-yellow-800',
+  published: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-500',
+};
+
+export const isSchedulable = (platform: string, assetType: string): platform is SchedulablePlatform =>
+  (SCHEDULABLE_PLATFORMS[assetType as 'image' | 'video'] || []).includes(platform as SchedulablePlatform);
+
+export interface SchedulePostInput {
+  workspaceId: string;
+  assetId?: string | null;
+  // For posts made straight from a generation, which have no library entry
+  generatedAssetId?: string | null;
+  assetUrl: string;
+  assetType: 'image' | 'video';
+  platform: SchedulablePlatform;
+  title?: string;
+  caption: string;
+  // Network-specific settings, as the publish function takes them
+  link?: string;
+  options?: PublishFields['options'];
+  publishAt: Date;
+}
+
+/**
+ * Queues a post for the social-scheduler function, which publishes it once
+ * publish_at has passed.
+ */
+export async function schedulePost(input: SchedulePostInput): Promise<ScheduledPost> {
+  const { data, error } = await supabase
+    .from('scheduled_posts')
+    .insert({
+      workspace_id: input.workspaceId,
+      asset_id: input.assetId ?? null,
+      generated_asset_id: input.generatedAssetId ?? null,
+      asset_url: input.assetUrl,
+      asset_type: input.assetType,
+      platform: input.platform,
+      title: input.title ?? null,
+      caption: input.caption,
+      link: input.link || null,
+      options: (input.options ?? {}) as Json,
+      publish_at: input.publishAt.toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+// Value for <input type="datetime-local"> in the browser's timezone
+export function toDateTimeLocal(date: Date): string {
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+}
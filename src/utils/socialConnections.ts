@@ -0,0 +1,5 @@
+// Columns members can read from user_social_connections. The access and
+// refresh tokens are not among them: only edge functions read those, with
+// the service role key.
+export const SOCIAL_CONNECTION_COLUMNS =
+  'id, user_id, workspace_id, platform, platform_user_id, platform_username, platform_display_name, token_expires_at, scope, metadata, is_active, connected_at, updated_at, health_status, health_error, health_checked_at';
@@ -0,0 +1,75 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type TemplateRequest = Tables<'template_requests'>;
+
+export type TemplateRequestStatus = 'submitted' | 'in_design' | 'ready' | 'rejected';
+
+export const TEMPLATE_REQUEST_STATUS_LABELS: Record<TemplateRequestStatus, string> = {
+  submitted: 'Submitted',
+  in_design: 'In design',
+  ready: 'Ready',
+  rejected: 'Rejected',
+};
+
+export const TEMPLATE_REQUEST_STATUS_STYLES: Record<TemplateRequestStatus, string> = {
+  submitted: 'bg-blue-100 text-blue-800',
+  in_design: 'bg-yellow-100 text-yellow-800',
+  ready: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+};
+
+export interface OnboardingData {
+  brandName: string;
+  industry: string;
+  targetAudience: string;
+  brandVoice: string;
+  primaryBenefit: string;
+  secondaryBenefit: string;
+  thirdBenefit: string;
+  colorScheme: string;
+  logoUrl: string;
+  contentTypes: string[];
+  toneOfVoice: string;
+  keyMessages: string;
+  competitorAnalysis: string;
+  additionalNotes: string;
+}
+
+/**
+ * Folds the onboarding questionnaire into the workspace brand kit. Answers
+ * fill in the profile without discarding what the brand settings already
+ * hold: benefits and colors are merged, blanks leave existing values alone.
+ */
+export async function saveOnboardingToBrandProfile(workspaceId: string, data: OnboardingData): Promise<void> {
+  const { data: existing, error: loadError } = await supabase
+    .from('brand_profiles')
+    .select('*')
+    .eq('workspace_id', workspaceId)
+    .maybeSingle();
+
+  if (loadError) throw loadError;
+
+  const answer = (value: string) => value.trim() || null;
+  const merge = (first: string[], second: string[] = []) =>
+    [...new Set([...first, ...second].map(value => value.trim()).filter(Boolean))];
+
+  const { error } = await supabase
+    .from('brand_profiles')
+    .upsert({
+      workspace_id: workspaceId,
+      brand_name: answer(data.brandName) ?? existing?.brand_name ?? null,
+      industry: answer(data.industry) ?? existing?.industry ?? null,
+      target_audience: answer(data.targetAudience) ?? existing?.target_audience ?? null,
+      brand_voice: answer(data.brandVoice) ?? existing?.brand_voice ?? null,
+      key_messages: answer(data.keyMessages) ?? existing?.key_messages ?? null,
+      benefits: merge([data.primaryBenefit, data.secondaryBenefit, data.thirdBenefit], existing?.benefits).slice(0, 5),
+      // Only hex codes can go in the palette
+      color_palette: merge(existing?.color_palette ?? [], data.colorScheme.match(/#[0-9a-f]{6}\b|#[0-9a-f]{3}\b/gi) ?? []),
+      logo_url: answer(data.logoUrl) ?? existing?.logo_url ?? null,
+      content_types: merge(data.contentTypes, existing?.content_types),
+      onboarded_at: new Date().toISOString()
+    }, { onConflict: 'workspace_id' });
+
+  if (error) throw error;
+}
@@ -0,0 +1,59 @@
+import type { TemplateVariable } from '@/api/template-manager';
+
+export const TEMPLATE_VARIABLE_TYPES = ['text', 'image', 'video', 'audio', 'color', 'number'] as const;
+
+export type TemplateVariableType = typeof TEMPLATE_VARIABLE_TYPES[number];
+
+export const TEMPLATE_VARIABLE_TYPE_LABELS: Record<TemplateVariableType, string> = {
+  text: 'Text',
+  image: 'Image URL',
+  video: 'Video URL',
+  audio: 'Audio URL',
+  color: 'Color',
+  number: 'Number',
+};
+
+const MEDIA_TYPES = ['image', 'video', 'audio'];
+
+/**
+ * Checks one value against its variable's schema. Empty values fall back to
+ * the variable's default, as heygen-direct does. Variables without a schema
+ * are simply required. Returns the problem to show, or null when valid.
+ */
+export function validateTemplateVariable(spec: TemplateVariable | undefined, value: string | undefined): string | null {
+  const content = value?.trim() || spec?.defaultValue?.trim() || '';
+
+  if (!content) {
+    return spec?.required === false ? null : 'Required';
+  }
+  if (!spec) return null;
+
+  if (spec.charLimit && content.length > spec.charLimit) {
+    return `${content.length}/${spec.charLimit} characters`;
+  }
+  if (MEDIA_TYPES.includes(spec.type) && !/^https?:\/\/\S+$/i.test(content)) {
+    return `Must be a link to the ${spec.type} file`;
+  }
+  if (spec.type === 'color' && !/^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(content)) {
+    return 'Must be a hex color such as #1a2b3c';
+  }
+  if (spec.type === 'number' && !Number.isFinite(Number(content))) {
+    return 'Must be a number';
+  }
+
+  return null;
+}
+
+// Problems keyed by variable; empty when every value is valid
+export function validateTemplateValues(
+  variables: string[],
+  variableTypes: Record<string, TemplateVariable> | undefined,
+  values: Record<string, string>
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+  variables.forEach(variable => {
+    const error = validateTemplateVariable(variableTypes?.[variable], values[variable]);
+    if (error) errors[variable] = error;
+  });
+  return errors;
+}
@@ -0,0 +1,83 @@
+import { fetchPublishOptions, publish, type PublishFields, type PublishResult } from '@/utils/publishing';
+
+export type TikTokPostMode = 'direct' | 'draft';
+
+export interface TikTokCreatorInfo {
+  username: string;
+  nickname: string;
+  avatarUrl: string | null;
+  privacyLevelOptions: string[];
+  commentDisabled: boolean;
+  duetDisabled: boolean;
+  stitchDisabled: boolean;
+  maxVideoPostDurationSec: number | null;
+}
+
+export interface TikTokPostSettings {
+  mode: TikTokPostMode;
+  caption: string;
+  privacyLevel: string;
+  disableDuet: boolean;
+  disableStitch: boolean;
+  disableComment: boolean;
+}
+
+export const DEFAULT_TIKTOK_POST_SETTINGS: TikTokPostSettings = {
+  mode: 'direct',
+  caption: '',
+  privacyLevel: '',
+  disableDuet: false,
+  disableStitch: false,
+  disableComment: false,
+};
+
+// TikTok's limit on direct post captions
+export const TIKTOK_MAX_CAPTION_LENGTH = 2200;
+
+export const TIKTOK_PRIVACY_LABELS: Record<string, string> = {
+  PUBLIC_TO_EVERYONE: 'Everyone',
+  MUTUAL_FOLLOW_FRIENDS: 'Friends',
+  FOLLOWER_OF_CREATOR: 'Followers',
+  SELF_ONLY: 'Only me',
+};
+
+/**
+ * Privacy levels and interaction settings the connected creator is allowed to
+ * use. TikTok requires these to be offered before every direct post.
+ */
+export async function fetchTikTokCreatorInfo(workspaceId: string): Promise<TikTokCreatorInfo> {
+  const data = await fetchPublishOptions<{ creator: TikTokCreatorInfo }>(workspaceId, 'tiktok');
+  return data.creator;
+}
+
+export const tiktokPostFields = (settings: TikTokPostSettings): PublishFields => ({
+  text: settings.caption,
+  options: {
+    mode: settings.mode,
+    privacyLevel: settings.privacyLevel,
+    disableDuet: settings.disableDuet,
+    disableStitch: settings.disableStitch,
+    disableComment: settings.disableComment,
+  },
+});
+
+export interface PublishToTikTokInput {
+  workspaceId: string;
+  assetId?: string | null;
+  videoUrl: string;
+  settings: TikTokPostSettings;
+}
+
+/**
+ * Uploads a video to TikTok. The returned publication starts out 'processing';
+ * the publish function and its cron job move it on once TikTok finishes.
+ */
+export async function publishToTikTok(input: PublishToTikTokInput): Promise<PublishResult> {
+  return publish({
+    workspaceId: input.workspaceId,
+    platform: 'tiktok',
+    assetId: input.assetId ?? null,
+    media: [{ url: input.videoUrl, type: 'video' }],
+    ...tiktokPostFields(input.settings),
+  });
+}
@@ -0,0 +1,80 @@
+import { publish, type PublishFields, type PublishResult } from '@/utils/publishing';
+
+export interface TwitterPostSettings {
+  // One entry per post; more than one is published as a thread
+  posts: string[];
+}
+
+export const DEFAULT_TWITTER_POST_SETTINGS: TwitterPostSettings = {
+  posts: [''],
+};
+
+// X's limits for posts and threads, matching the publish function
+export const TWITTER_MAX_POST_LENGTH = 280;
+export const TWITTER_MAX_THREAD_LENGTH = 25;
+
+// X counts characters by code point, so emoji count once
+export const postLength = (post: string) => [...post].length;
+
+// Breaks an overlong post between words so each part fits
+function fitToPostLength(post: string): string[] {
+  if (postLength(post) <= TWITTER_MAX_POST_LENGTH) return [post];
+
+  const parts: string[] = [];
+  let current = '';
+  for (const word of post.split(/\s+/)) {
+    const next = current ? `${current} ${word}` : word;
+    if (current && postLength(next) > TWITTER_MAX_POST_LENGTH) {
+      parts.push(current);
+      current = word;
+    } else {
+      current = next;
+    }
+  }
+  if (current) parts.push(current);
+  return parts;
+}
+
+/**
+ * Splits generated copy into X posts. openai-generate writes Thread content
+ * with a line of --- between posts; numbered posts ("2/5") and any other text
+ * are split where they would otherwise go over the length limit.
+ */
+export function splitThread(content: string): string[] {
+  const text = content.replace(/\r\n/g, '\n').trim();
+  if (!text) return [];
+
+  let parts = text.split(/\n\s*-{3,}\s*\n/);
+  if (parts.length === 1) {
+    parts = text.split(/\n+(?=\d+\/\d*\s)/);
+  }
+
+  return parts
+    .map(part => part.trim())
+    .filter(Boolean)
+    .flatMap(fitToPostLength);
+}
+
+export const threadFields = (posts: string[]): PublishFields => ({
+  text: posts[0] ?? '',
+  options: { thread: posts },
+});
+
+export interface PublishToTwitterInput {
+  workspaceId: string;
+  assetId?: string | null;
+  posts: string[];
+  mediaUrl?: string;
+  mediaType?: 'image' | 'video';
+}
+
+// Media, when given, is attached to the first post of the thread
+export async function publishToTwitter(input: PublishToTwitterInput): Promise<PublishResult> {
+  return publish({
+    workspaceId: input.workspaceId,
+    platform: 'twitter',
+    assetId: input.assetId ?? null,
+    media: input.mediaUrl ? [{ url: input.mediaUrl, type: input.mediaType ?? 'image' }] : [],
+    ...threadFields(input.posts),
+  });
+}
@@ -0,0 +1,31 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Plan = Tables<'plans'>;
+
+export type UsageType = 'video' | 'image' | 'text';
+
+export const USAGE_TYPE_LABELS: Record<UsageType, string> = {
+  video: 'Video generations',
+  image: 'Image generations',
+  text: 'Text generations',
+};
+
+// Shown in this order on the billing page
+export const USAGE_TYPES: UsageType[] = ['video', 'image', 'text'];
+
+export function formatPlanPrice(plan: Plan): string {
+  return plan.price_cents === 0 ? 'Free' : `$${(plan.price_cents / 100).toFixed(0)}/month`;
+}
+
+export function formatQuota(quota: number | null): string {
+  return quota === null ? 'Unlimited' : quota.toLocaleString();
+}
+
+export function formatUsd(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+// Stripe amounts are in the currency's smallest unit
+export function formatInvoiceAmount(amount: number, currency: string): string {
+  return new Intl.NumberFormat(undefined, { style: 'currency', currency: currency.toUpperCase() }).format(amount / 100);
+}
@@ -1,19 +1,17 @@
-// Test webhook registration
+import { supabase } from "@/integrations/supabase/client";
+
+// Register the HeyGen webhook endpoint; the function stores its signing secret
 const registerWebhook = async () => {
   try {
-    const response = await fetch('/api/heygen-webhook-register', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
+    const { data, error } = await supabase.functions.invoke('heygen-webhook-register', {
+      body: {
         action: 'register'
-      })
+      }
     });
-    
-    const result = await response.json();
-    console.log('Webhook registration result:', result);
-    return result;
+
+    if (error) throw error;
+    console.log('Webhook registration result:', data);
+    return data;
   } catch (error) {
     console.error('Failed to register webhook:', error);
     return { success: false, error: error.message };
@@ -23,23 +21,37 @@ const registerWebhook = async () => {
 // List existing webhooks
 const listWebhooks = async () => {
   try {
-    const response = await fetch('/api/heygen-webhook-register', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
+    const { data, error } = await supabase.functions.invoke('heygen-webhook-register', {
+      body: {
         action: 'list'
-      })
+      }
     });
-    
-    const result = await response.json();
-    console.log('Existing webhooks:', result);
-    return result;
+
+    if (error) throw error;
+    console.log('Existing webhooks:', data);
+    return data;
   } catch (error) {
     console.error('Failed to list webhooks:', error);
     return { success: false, error: error.message };
   }
 };
 
-export { registerWebhook, listWebhooks };
\ No newline at end of file
+// Run a stored webhook event through its provider's handler again (admins only)
+const replayWebhookEvent = async (eventId: string, provider = 'heygen') => {
+  try {
+    const { data, error } = await supabase.functions.invoke(`${provider}-webhook`, {
+      body: {
+        replayEventId: eventId
+      }
+    });
+
+    if (error) throw error;
+    console.log('Webhook replay result:', data);
+    return data;
+  } catch (error) {
+    console.error('Failed to replay webhook event:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+export { registerWebhook, listWebhooks, replayWebhookEvent };
@@ -0,0 +1,15 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// Workspace key first, then the platform default, then the function secret
+export async function resolveApiKey(supabase: SupabaseClient, workspaceId: string | null | undefined, provider: string, envName: string): Promise<string | undefined> {
+  const { data, error } = await supabase.rpc('get_api_key', {
+    p_workspace_id: workspaceId ?? null,
+    p_provider: provider
+  });
+
+  if (error) {
+    console.error(`Failed to load ${provider} API key:`, error);
+  }
+
+  return data || Deno.env.get(envName);
+}
@@ -0,0 +1,44 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// Resolve the signed-in user from the JWT that supabase.functions.invoke forwards
+export async function getAuthenticatedUser(req: Request, supabase: SupabaseClient) {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!token) {
+    throw new Error('Missing authorization header');
+  }
+
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+  if (error || !user) {
+    throw new Error('Not authenticated. Please sign in and try again.');
+  }
+
+  return user;
+}
+
+// Confirm the caller is a member of the workspace with one of the allowed roles
+export async function requireWorkspaceRole(supabase: SupabaseClient, workspaceId: string | null | undefined, userId: string, roles: string[]) {
+  if (!workspaceId) {
+    throw new Error('workspaceId is required');
+  }
+
+  const { data: membership, error } = await supabase
+    .from('workspace_members')
+    .select('role')
+    .eq('client_config_id', workspaceId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error || !membership || !roles.includes(membership.role)) {
+    throw new Error('You do not have access to this workspace');
+  }
+
+  return membership.role;
+}
+
+// Only cron (or an operator) may run workers and dispatchers
+export function requireServiceRole(req: Request) {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!token || token !== Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+    throw new Error('Unauthorized');
+  }
+}
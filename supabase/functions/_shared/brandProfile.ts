@@ -0,0 +1,34 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export interface BrandProfile {
+  brand_name: string | null;
+  industry: string | null;
+  target_audience: string | null;
+  key_messages: string | null;
+  brand_voice: string | null;
+  benefits: string[];
+  disclaimer: string | null;
+  legal_instructions: string | null;
+  visual_tone: string | null;
+  logo_url: string | null;
+  color_palette: string[];
+  heading_font: string | null;
+  body_font: string | null;
+  banned_words: string[];
+}
+
+// Load the workspace brand kit; generation still works when there isn't one
+export async function loadBrandProfile(supabase: SupabaseClient, workspaceId: string): Promise<BrandProfile | null> {
+  const { data, error } = await supabase
+    .from('brand_profiles')
+    .select('*')
+    .eq('workspace_id', workspaceId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Failed to load brand profile:', error);
+    return null;
+  }
+
+  return data;
+}
@@ -0,0 +1,18 @@
+// Edge functions call each other over HTTP with the service role key
+export async function invokeFunction(name: string, body: Record<string, unknown>) {
+  const response = await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/${name}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(body)
+  });
+
+  const data = await response.json().catch(() => null);
+  if (!data) {
+    throw new Error(`${name} returned HTTP ${response.status}`);
+  }
+
+  return data;
+}
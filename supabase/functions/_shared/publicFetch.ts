@@ -0,0 +1,179 @@
+// Fetching URLs that users typed in. Only http(s) URLs on public addresses
+// are requested, redirects are checked hop by hop, and bodies are read up to
+// a byte limit so a huge or endless response can't exhaust the function.
+
+const MAX_REDIRECTS = 5;
+
+function parseIPv4(host: string): number[] | null {
+  const parts = host.split('.');
+  if (parts.length !== 4 || parts.some(part => !/^\d{1,3}$/.test(part))) return null;
+
+  const octets = parts.map(Number);
+  return octets.every(octet => octet <= 255) ? octets : null;
+}
+
+// Eight 16-bit groups, with any dotted IPv4 tail folded into the last two
+function parseIPv6(host: string): number[] | null {
+  if (!host.includes(':')) return null;
+
+  let address = host.toLowerCase().split('%')[0];
+  const ipv4Tail = address.match(/:(\d+\.\d+\.\d+\.\d+)$/);
+  if (ipv4Tail) {
+    const octets = parseIPv4(ipv4Tail[1]);
+    if (!octets) return null;
+    address = address.slice(0, -ipv4Tail[1].length)
+      + `${((octets[0] << 8) | octets[1]).toString(16)}:${((octets[2] << 8) | octets[3]).toString(16)}`;
+  }
+
+  const halves = address.split('::');
+  if (halves.length > 2) return null;
+
+  const toGroups = (half: string) => half ? half.split(':') : [];
+  const head = toGroups(halves[0]);
+  const tail = halves.length === 2 ? toGroups(halves[1]) : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  if (groups.some(group => !/^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map(group => parseInt(group, 16));
+}
+
+// Loopback, private, CGNAT, link-local (cloud metadata lives at
+// 169.254.169.254), benchmarking, multicast and reserved ranges
+function isPublicIPv4([a, b, c]: number[]): boolean {
+  return !(
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 0 && c === 0) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    a >= 224
+  );
+}
+
+function isPublicIPv6(groups: number[]): boolean {
+  const embeddedIPv4 = () => [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff];
+
+  // Unspecified, loopback and IPv4-compatible addresses
+  if (groups.slice(0, 6).every(group => group === 0)) {
+    return groups[6] !== 0 && isPublicIPv4(embeddedIPv4());
+  }
+  // IPv4-mapped, and the NAT64 prefix that reaches IPv4 hosts
+  if (groups.slice(0, 5).every(group => group === 0) && groups[5] === 0xffff) {
+    return isPublicIPv4(embeddedIPv4());
+  }
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(group => group === 0)) {
+    return isPublicIPv4(embeddedIPv4());
+  }
+
+  return !(
+    (groups[0] & 0xfe00) === 0xfc00 || // unique local
+    (groups[0] & 0xffc0) === 0xfe80 || // link-local
+    (groups[0] & 0xff00) === 0xff00 // multicast
+  );
+}
+
+function isPublicAddress(address: string): boolean {
+  const ipv4 = parseIPv4(address);
+  if (ipv4) return isPublicIPv4(ipv4);
+
+  const ipv6 = parseIPv6(address);
+  return ipv6 ? isPublicIPv6(ipv6) : false;
+}
+
+async function resolveHost(hostname: string): Promise<string[]> {
+  const lookups = await Promise.allSettled([
+    Deno.resolveDns(hostname, 'A'),
+    Deno.resolveDns(hostname, 'AAAA')
+  ]);
+  return lookups.flatMap(lookup => lookup.status === 'fulfilled' ? lookup.value : []);
+}
+
+/**
+ * Throws unless the URL is http(s) and its host, or every address it resolves
+ * to, is public.
+ */
+export async function assertPublicUrl(url: URL) {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error('Only http and https URLs can be fetched');
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  const literal = parseIPv4(hostname) || parseIPv6(hostname);
+  const addresses = literal ? [hostname] : await resolveHost(hostname);
+
+  if (addresses.length === 0) {
+    throw new Error(`Could not resolve ${hostname}`);
+  }
+  if (!addresses.every(isPublicAddress)) {
+    throw new Error(`${hostname} is not a public address`);
+  }
+}
+
+/**
+ * Fetches a user-supplied URL, following redirects only to other public
+ * URLs. Pass AbortSignal.timeout() to bound the whole request.
+ */
+export async function fetchPublicUrl(url: string, init: RequestInit & { signal: AbortSignal }): Promise<Response> {
+  let target = new URL(url);
+
+  for (let redirects = 0; ; redirects++) {
+    await assertPublicUrl(target);
+
+    const response = await fetch(target, { ...init, redirect: 'manual' });
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+
+    await response.body?.cancel();
+    if (redirects >= MAX_REDIRECTS) {
+      throw new Error('Too many redirects');
+    }
+    target = new URL(location, target);
+  }
+}
+
+// The response body, refusing anything over maxBytes
+export async function readBytesWithLimit(response: Response, maxBytes: number): Promise<Uint8Array> {
+  const tooLarge = () => new Error(`Response is larger than ${Math.round(maxBytes / (1024 * 1024))} MB`);
+
+  if (Number(response.headers.get('content-length')) > maxBytes) {
+    await response.body?.cancel();
+    throw tooLarge();
+  }
+  if (!response.body) return new Uint8Array();
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    size += value.length;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+// The response body as text, refusing anything over maxBytes
+export async function readTextWithLimit(response: Response, maxBytes: number): Promise<string> {
+  return new TextDecoder().decode(await readBytesWithLimit(response, maxBytes));
+}
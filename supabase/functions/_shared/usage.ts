@@ -0,0 +1,46 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export interface UsageRecord {
+  workspaceId: string;
+  userId: string | null;
+  provider: string;
+  usageType: 'text' | 'image' | 'video';
+  units: number;
+  unit: string;
+  estimatedCostUsd: number;
+  metadata?: Record<string, unknown>;
+}
+
+// Enforce the plan quota and log the usage before anything reaches the provider
+export async function recordUsage(supabase: SupabaseClient, usage: UsageRecord): Promise<string> {
+  const { data, error } = await supabase.rpc('record_usage', {
+    p_workspace_id: usage.workspaceId,
+    p_user_id: usage.userId,
+    p_provider: usage.provider,
+    p_usage_type: usage.usageType,
+    p_units: usage.units,
+    p_unit: usage.unit,
+    p_estimated_cost_usd: usage.estimatedCostUsd,
+    p_metadata: usage.metadata ?? null
+  });
+
+  if (error) {
+    const failure = new Error(error.message);
+    // record_usage raises P0001 when the plan quota or spending cap is used up
+    if (error.code === 'P0001') failure.name = 'QuotaExceeded';
+    throw failure;
+  }
+  return data;
+}
+
+// The provider never accepted the request, so it will not bill for it
+export async function releaseUsage(supabase: SupabaseClient, usageId: string) {
+  const { error } = await supabase
+    .from('usage_events')
+    .delete()
+    .eq('id', usageId);
+
+  if (error) {
+    console.error('Failed to release usage:', error);
+  }
+}
@@ -0,0 +1,215 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getAuthenticatedUser, requireWorkspaceRole } from '../_shared/auth.ts';
+import { invokeFunction } from '../_shared/functions.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+type ReviewAction = 'comment' | 'submit' | 'withdraw' | 'approve' | 'reject' | 'request_changes';
+type ReviewStatus = 'draft' | 'in_review' | 'approved' | 'rejected' | 'changes_requested';
+
+interface ReviewRequest {
+  action: ReviewAction;
+  assetId: string;
+  comment?: string;
+}
+
+interface GeneratedAsset {
+  id: string;
+  workspace_id: string | null;
+  owner_id: string | null;
+  asset_type: string;
+  url: string;
+  instruction: string | null;
+  review_status: ReviewStatus;
+}
+
+// Who may take each action, which status it moves the asset from and to,
+// and what it is recorded as in the comment thread
+const TRANSITIONS: Record<Exclude<ReviewAction, 'comment'>, {
+  roles: string[];
+  from: ReviewStatus;
+  to: ReviewStatus;
+  kind: string;
+}> = {
+  submit: { roles: ['owner', 'editor'], from: 'draft', to: 'in_review', kind: 'submitted' },
+  withdraw: { roles: ['owner', 'editor'], from: 'in_review', to: 'draft', kind: 'withdrawn' },
+  approve: { roles: ['owner'], from: 'in_review', to: 'approved', kind: 'approved' },
+  reject: { roles: ['owner'], from: 'in_review', to: 'rejected', kind: 'rejected' },
+  request_changes: { roles: ['owner'], from: 'in_review', to: 'changes_requested', kind: 'changes_requested' }
+};
+
+async function addComment(supabase: SupabaseClient, asset: GeneratedAsset, authorId: string, kind: string, body: string | null) {
+  const { data, error } = await supabase
+    .from('asset_review_comments')
+    .insert({
+      generated_asset_id: asset.id,
+      workspace_id: asset.workspace_id,
+      author_id: authorId,
+      kind,
+      body
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save comment: ${error.message}`);
+  }
+
+  return data;
+}
+
+// Queue the generation again with the reviewer's feedback ahead of the
+// instruction, since runwayml-generate truncates long prompts from the end.
+// Only Runway jobs can be replayed this way; HeyGen videos are rendered from
+// template variables, so those are changed in the template editor.
+async function regenerate(supabase: SupabaseClient, asset: GeneratedAsset, feedback: string, reviewerId: string) {
+  const { data: job } = await supabase
+    .from('generation_jobs')
+    .select('provider, job_type, inventory_id, request')
+    .eq('generated_asset_id', asset.id)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (!job || job.provider !== 'runway') {
+    return null;
+  }
+
+  const instruction = job.request?.instruction ?? asset.instruction ?? '';
+  const data = await invokeFunction('runwayml-generate', {
+    type: job.job_type,
+    instruction: `Reviewer feedback: ${feedback}\n\n${instruction}`,
+    imageUrl: job.request?.imageUrl,
+    productInfo: job.request?.productInfo,
+    formatSpecs: job.request?.formatSpecs,
+    productId: job.inventory_id,
+    workspaceId: asset.workspace_id,
+    onBehalfOf: asset.owner_id ?? reviewerId,
+    regeneratedFrom: asset.id
+  });
+
+  if (!data.success || !data.job_id) {
+    throw new Error(data.error || 'Failed to queue regeneration');
+  }
+
+  return data.job_id as string;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { action, assetId, comment }: ReviewRequest = await req.json();
+    const body = comment?.trim() || null;
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const user = await getAuthenticatedUser(req, supabase);
+
+    const { data: asset, error: assetError } = await supabase
+      .from('generated_assets')
+      .select('id, workspace_id, owner_id, asset_type, url, instruction, review_status')
+      .eq('id', assetId)
+      .maybeSingle();
+
+    if (assetError || !asset) {
+      throw new Error('Asset not found');
+    }
+
+    if (action === 'comment') {
+      await requireWorkspaceRole(supabase, asset.workspace_id, user.id, ['owner', 'editor', 'viewer']);
+      if (!body) {
+        throw new Error('Comment is empty');
+      }
+
+      const saved = await addComment(supabase, asset, user.id, 'comment', body);
+      return new Response(JSON.stringify({ success: true, comment: saved }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const transition = TRANSITIONS[action];
+    if (!transition) {
+      throw new Error(`Unknown action: ${action}`);
+    }
+
+    await requireWorkspaceRole(supabase, asset.workspace_id, user.id, transition.roles);
+
+    if (asset.review_status !== transition.from) {
+      throw new Error(`This asset is ${asset.review_status.replace('_', ' ')}. Refresh and try again.`);
+    }
+    if (action === 'submit' && !/^https?:\/\//.test(asset.url)) {
+      throw new Error('Only finished assets can be submitted for review');
+    }
+    if (action === 'request_changes' && !body) {
+      throw new Error('Describe the changes you want so the asset can be regenerated');
+    }
+
+    // The thread entry goes first so the status notification can quote it
+    const saved = await addComment(supabase, asset, user.id, transition.kind, body);
+
+    const now = new Date().toISOString();
+    const { data: updated, error: updateError } = await supabase
+      .from('generated_assets')
+      .update({
+        review_status: transition.to,
+        ...(action === 'submit' ? { submitted_at: now } : {}),
+        ...(['approve', 'reject', 'request_changes'].includes(action) ? { reviewed_by: user.id, reviewed_at: now } : {})
+      })
+      .eq('id', asset.id)
+      .eq('review_status', transition.from)
+      .select()
+      .maybeSingle();
+
+    if (updateError || !updated) {
+      await supabase.from('asset_review_comments').delete().eq('id', saved.id);
+      throw new Error(updateError?.message || 'Someone else reviewed this asset first. Refresh and try again.');
+    }
+
+    let regenerationJobId: string | null = null;
+    let message: string | undefined;
+    if (action === 'request_changes') {
+      try {
+        regenerationJobId = await regenerate(supabase, asset, body!, user.id);
+        if (!regenerationJobId) {
+          message = 'Feedback saved. This asset cannot be regenerated automatically; create a new version and submit it.';
+        }
+      } catch (error) {
+        console.error(`Failed to regenerate asset ${asset.id}:`, error);
+        message = `Feedback saved, but regeneration failed: ${error.message}`;
+      }
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      asset: updated,
+      regeneration_job_id: regenerationJobId,
+      message
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in asset-review function:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: error.message
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,231 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getAuthenticatedUser, requireWorkspaceRole } from '../_shared/auth.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// 200 SKUs x 4 channels is the usual weekly drop; leave plenty of headroom
+const MAX_CAMPAIGN_ITEMS = 2000;
+const ASSET_TYPES = ['image', 'video', 'content', 'ad'];
+
+interface CampaignCombination {
+  channel: string;
+  asset_type: 'image' | 'video' | 'content' | 'ad';
+  format: string;
+  specification?: string;
+}
+
+interface CampaignRequest {
+  action: 'create' | 'retry';
+  workspaceId: string;
+  name?: string;
+  instruction?: string;
+  productIds?: string[];
+  productFilter?: {
+    search?: string;
+    category?: string;
+  };
+  combinations?: CampaignCombination[];
+  campaignId?: string;
+  itemIds?: string[];
+}
+
+// Products come either from an explicit selection or from the inventory filter
+// used on the product generator (same search/category semantics)
+async function resolveProductIds(supabase: SupabaseClient, workspaceId: string, request: CampaignRequest) {
+  let query = supabase
+    .from('inventory')
+    .select('id')
+    .eq('workspace_id', workspaceId)
+    .eq('status', 'active');
+
+  if (request.productIds && request.productIds.length > 0) {
+    query = query.in('id', request.productIds);
+  } else if (request.productFilter) {
+    if (request.productFilter.search) {
+      query = query.ilike('name', `%${request.productFilter.search}%`);
+    }
+    if (request.productFilter.category) {
+      query = query.eq('category', request.productFilter.category);
+    }
+  } else {
+    throw new Error('Select products or provide a product filter');
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load products: ${error.message}`);
+  }
+
+  return (data || []).map(product => product.id);
+}
+
+async function createCampaign(supabase: SupabaseClient, userId: string, request: CampaignRequest) {
+  const { workspaceId, name, instruction, productFilter } = request;
+  const combinations = request.combinations || [];
+
+  if (!name?.trim()) {
+    throw new Error('Campaign name is required');
+  }
+
+  if (combinations.length === 0) {
+    throw new Error('Add at least one channel and format');
+  }
+
+  const invalid = combinations.find(c => !c.channel || !c.format || !ASSET_TYPES.includes(c.asset_type));
+  if (invalid) {
+    throw new Error(`Invalid combination: ${JSON.stringify(invalid)}`);
+  }
+
+  const productIds = await resolveProductIds(supabase, workspaceId, request);
+  if (productIds.length === 0) {
+    throw new Error('No active products match this selection');
+  }
+
+  const totalItems = productIds.length * combinations.length;
+  if (totalItems > MAX_CAMPAIGN_ITEMS) {
+    throw new Error(`Campaigns are limited to ${MAX_CAMPAIGN_ITEMS} items (this one would have ${totalItems})`);
+  }
+
+  const { data: campaign, error: campaignError } = await supabase
+    .from('campaigns')
+    .insert({
+      workspace_id: workspaceId,
+      owner_id: userId,
+      name: name.trim(),
+      instruction: instruction?.trim() || null,
+      product_filter: request.productIds?.length ? null : productFilter,
+      combinations,
+      total_items: totalItems
+    })
+    .select()
+    .single();
+
+  if (campaignError || !campaign) {
+    throw new Error(`Failed to create campaign: ${campaignError?.message}`);
+  }
+
+  const items = productIds.flatMap(inventoryId =>
+    combinations.map(combination => ({
+      campaign_id: campaign.id,
+      workspace_id: workspaceId,
+      inventory_id: inventoryId,
+      channel: combination.channel,
+      asset_type: combination.asset_type,
+      format: combination.format,
+      specification: combination.specification || null
+    }))
+  );
+
+  const { error: itemsError } = await supabase
+    .from('campaign_items')
+    .upsert(items, { onConflict: 'campaign_id,inventory_id,channel,asset_type,format', ignoreDuplicates: true });
+
+  if (itemsError) {
+    await supabase.from('campaigns').delete().eq('id', campaign.id);
+    throw new Error(`Failed to queue campaign items: ${itemsError.message}`);
+  }
+
+  console.log(`Campaign ${campaign.id} queued with ${items.length} items`);
+
+  return { campaign_id: campaign.id, total_items: items.length };
+}
+
+// Put failed items (all, or the given ones) back in the queue
+async function retryCampaign(supabase: SupabaseClient, request: CampaignRequest) {
+  const { workspaceId, campaignId, itemIds } = request;
+
+  if (!campaignId) {
+    throw new Error('campaignId is required');
+  }
+
+  const { data: campaign, error: campaignError } = await supabase
+    .from('campaigns')
+    .select('id')
+    .eq('id', campaignId)
+    .eq('workspace_id', workspaceId)
+    .maybeSingle();
+
+  if (campaignError || !campaign) {
+    throw new Error('Campaign not found');
+  }
+
+  let query = supabase
+    .from('campaign_items')
+    .update({
+      status: 'pending',
+      error: null,
+      generation_job_id: null,
+      completed_at: null
+    })
+    .eq('campaign_id', campaignId)
+    .eq('status', 'failed');
+
+  if (itemIds && itemIds.length > 0) {
+    query = query.in('id', itemIds);
+  }
+
+  const { data: retried, error: retryError } = await query.select('id');
+  if (retryError) {
+    throw new Error(`Failed to retry items: ${retryError.message}`);
+  }
+
+  if (retried && retried.length > 0) {
+    await supabase
+      .from('campaigns')
+      .update({ status: 'running', report: null, completed_at: null })
+      .eq('id', campaignId);
+  }
+
+  console.log(`Retrying ${retried?.length || 0} items in campaign ${campaignId}`);
+
+  return { campaign_id: campaignId, retried: retried?.length || 0 };
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const request: CampaignRequest = await req.json();
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const user = await getAuthenticatedUser(req, supabase);
+    await requireWorkspaceRole(supabase, request.workspaceId, user.id, ['owner', 'editor']);
+
+    let result;
+    if (request.action === 'create') {
+      result = await createCampaign(supabase, user.id, request);
+    } else if (request.action === 'retry') {
+      result = await retryCampaign(supabase, request);
+    } else {
+      throw new Error(`Unknown action: ${request.action}`);
+    }
+
+    return new Response(JSON.stringify({ success: true, ...result }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in campaign-manager function:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: error.message
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,388 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { requireServiceRole } from '../_shared/auth.ts';
+import { invokeFunction } from '../_shared/functions.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Keep Runway from throttling us: only this many visual items in flight at once
+const MAX_IN_FLIGHT = 20;
+const DISPATCH_BATCH = 10;
+const STALE_ITEM_MS = 10 * 60 * 1000;
+// Runway jobs time out after 30 minutes of running; an item still waiting
+// long after that would hold an in-flight slot forever
+const ITEM_DEADLINE_MS = 60 * 60 * 1000;
+const MAX_REPORT_FAILURES = 100;
+
+interface CampaignItem {
+  id: string;
+  campaign_id: string;
+  workspace_id: string;
+  inventory_id: string;
+  channel: string;
+  asset_type: 'image' | 'video' | 'content' | 'ad';
+  format: string;
+  specification: string | null;
+  attempts: number;
+  inventory: {
+    name: string;
+    description: string | null;
+    category: string | null;
+    brand: string | null;
+    price: number | null;
+    images: string[] | null;
+  } | null;
+  campaigns: {
+    instruction: string | null;
+    owner_id: string | null;
+  } | null;
+}
+
+function greatestCommonDivisor(a: number, b: number): number {
+  return b === 0 ? a : greatestCommonDivisor(b, a % b);
+}
+
+// Same parsing the product generator applies to a specification like "1080x1920, 15s"
+function buildFormatSpecs(item: CampaignItem) {
+  const specification = item.specification || '';
+  const dimensionMatch = specification.match(/(\d+)x(\d+)/);
+  const width = dimensionMatch ? parseInt(dimensionMatch[1]) : 1024;
+  const height = dimensionMatch ? parseInt(dimensionMatch[2]) : 1024;
+  const divisor = greatestCommonDivisor(width, height);
+
+  const durationMatch = specification.match(/(\d+)(?:s|sec|seconds?)/i);
+
+  return {
+    channel: item.channel,
+    assetType: item.asset_type,
+    format: item.format,
+    specification,
+    width,
+    height,
+    dimensions: `${width}x${height}`,
+    aspectRatio: `${width / divisor}:${height / divisor}`,
+    duration: durationMatch ? `${durationMatch[1]} seconds` : '5 seconds'
+  };
+}
+
+// Mirrors the tagged instruction the product generator builds in the browser
+function buildInstruction(item: CampaignItem) {
+  const product = item.inventory!;
+  const specification = item.specification || '';
+  const isAdvertising = item.asset_type === 'ad' ||
+    item.format.toLowerCase().includes('ad') ||
+    item.channel === 'google-ads' ||
+    item.format.includes('Story') ||
+    item.format.includes('Reel');
+
+  const tags = [
+    `#channel: ${item.channel}`,
+    `#type: ${item.format}`,
+    `#spec: ${specification}`,
+    `#product: ${product.name}${product.brand ? ` by ${product.brand}` : ''}`,
+    product.price ? `#price: $${product.price}` : '',
+    `#format_requirements: Optimize for ${item.channel} ${item.format} with specifications: ${specification}`,
+    isAdvertising ? `#advertising_context: Include CTA, emojis, urgency, sales language` : ''
+  ].filter(Boolean).join('\n');
+
+  const description = item.campaigns?.instruction ||
+    `Create a compelling ${item.format} for ${item.channel} that showcases ${product.name}.`;
+
+  return `${tags}\n\n${description}`;
+}
+
+async function generateCopy(item: CampaignItem, instruction: string) {
+  const product = item.inventory!;
+  const data = await invokeFunction('openai-generate', {
+    type: 'marketing-content',
+    instruction: item.asset_type === 'ad'
+      ? `${instruction}\n\nGenerate compelling ad copy with strong call-to-action, emojis, and urgency for this visual asset. Include price if relevant.`
+      : `${instruction} - Specifically tailored for ${item.channel} ${item.format} format`,
+    productInfo: {
+      name: product.name,
+      description: product.description,
+      category: product.category,
+      brand: product.brand
+    },
+    workspaceId: item.workspace_id
+  });
+
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to generate copy');
+  }
+
+  return data.result as string;
+}
+
+async function submitVisual(item: CampaignItem, instruction: string) {
+  const product = item.inventory!;
+  const isVideo = item.asset_type === 'video' ||
+    (item.asset_type === 'ad' && item.format.toLowerCase().includes('video'));
+
+  const data = await invokeFunction('runwayml-generate', {
+    type: isVideo ? 'video' : 'image',
+    instruction,
+    imageUrl: isVideo && product.images?.length ? product.images[0] : undefined,
+    productInfo: {
+      name: product.name,
+      description: product.description
+    },
+    formatSpecs: buildFormatSpecs(item),
+    productId: item.inventory_id,
+    workspaceId: item.workspace_id,
+    onBehalfOf: item.campaigns?.owner_id
+  });
+
+  if (!data.success || !data.job_id) {
+    throw new Error(data.error || 'Failed to queue visual generation');
+  }
+
+  return data.job_id as string;
+}
+
+async function failItem(supabase: SupabaseClient, itemId: string, error: string) {
+  await supabase
+    .from('campaign_items')
+    .update({
+      status: 'failed',
+      error,
+      completed_at: new Date().toISOString()
+    })
+    .eq('id', itemId);
+}
+
+async function dispatchItem(supabase: SupabaseClient, item: CampaignItem) {
+  await supabase
+    .from('campaign_items')
+    .update({ status: 'running', attempts: item.attempts + 1 })
+    .eq('id', item.id);
+
+  if (!item.inventory) {
+    await failItem(supabase, item.id, 'Product no longer exists');
+    return 'failed';
+  }
+
+  try {
+    const instruction = buildInstruction(item);
+    const content = item.asset_type === 'content' || item.asset_type === 'ad'
+      ? await generateCopy(item, instruction)
+      : null;
+
+    if (item.asset_type === 'content') {
+      await supabase
+        .from('campaign_items')
+        .update({
+          status: 'succeeded',
+          content,
+          completed_at: new Date().toISOString()
+        })
+        .eq('id', item.id);
+      return 'succeeded';
+    }
+
+    // The generation job finishes asynchronously; syncJobItems picks up the result
+    const jobId = await submitVisual(item, instruction);
+    await supabase
+      .from('campaign_items')
+      .update({ generation_job_id: jobId, content })
+      .eq('id', item.id);
+    return 'running';
+
+  } catch (error) {
+    console.error(`Failed to dispatch campaign item ${item.id}:`, error);
+    await failItem(supabase, item.id, error.message);
+    return 'failed';
+  }
+}
+
+// Copy finished generation jobs onto their campaign items
+async function syncJobItems(supabase: SupabaseClient) {
+  const { data: items, error } = await supabase
+    .from('campaign_items')
+    .select('id, updated_at, generation_job_id, generation_jobs(status, error, generated_asset_id, result_url, completed_at)')
+    .eq('status', 'running')
+    .limit(500);
+
+  if (error) {
+    throw new Error(`Failed to load running campaign items: ${error.message}`);
+  }
+
+  let finished = 0;
+  for (const item of items || []) {
+    const job = item.generation_jobs;
+
+    if (!item.generation_job_id) {
+      // Copy-only dispatch that never reported back (the worker was interrupted)
+      if (Date.now() - new Date(item.updated_at).getTime() > STALE_ITEM_MS) {
+        await failItem(supabase, item.id, 'Dispatch was interrupted');
+        finished++;
+      }
+      continue;
+    }
+
+    if (!job || (job.status !== 'succeeded' && job.status !== 'failed')) {
+      if (Date.now() - new Date(item.updated_at).getTime() > ITEM_DEADLINE_MS) {
+        await failItem(supabase, item.id, 'Generation did not finish within an hour');
+        finished++;
+      }
+      continue;
+    }
+
+    await supabase
+      .from('campaign_items')
+      .update({
+        status: job.status,
+        error: job.error,
+        generated_asset_id: job.generated_asset_id,
+        result_url: job.result_url,
+        completed_at: job.completed_at || new Date().toISOString()
+      })
+      .eq('id', item.id);
+    finished++;
+  }
+
+  return finished;
+}
+
+async function dispatchPendingItems(supabase: SupabaseClient) {
+  const { count: inFlight, error: countError } = await supabase
+    .from('campaign_items')
+    .select('id', { count: 'exact', head: true })
+    .eq('status', 'running');
+
+  if (countError) {
+    throw new Error(`Failed to count running campaign items: ${countError.message}`);
+  }
+
+  const capacity = Math.min(MAX_IN_FLIGHT - (inFlight || 0), DISPATCH_BATCH);
+  if (capacity <= 0) {
+    console.log(`${inFlight} campaign items in flight, not dispatching more`);
+    return 0;
+  }
+
+  const { data: items, error } = await supabase
+    .from('campaign_items')
+    .select('*, inventory(name, description, category, brand, price, images), campaigns(instruction, owner_id)')
+    .eq('status', 'pending')
+    .order('created_at', { ascending: true })
+    .limit(capacity);
+
+  if (error) {
+    throw new Error(`Failed to load pending campaign items: ${error.message}`);
+  }
+
+  for (const item of (items || []) as CampaignItem[]) {
+    await dispatchItem(supabase, item);
+  }
+
+  return items?.length || 0;
+}
+
+// Close campaigns with nothing left to do and store their report
+async function finalizeCampaigns(supabase: SupabaseClient) {
+  const { data: campaigns, error } = await supabase
+    .from('campaigns')
+    .select('id')
+    .eq('status', 'running')
+    .limit(50);
+
+  if (error) {
+    throw new Error(`Failed to load running campaigns: ${error.message}`);
+  }
+
+  let completed = 0;
+  for (const campaign of campaigns || []) {
+    const { data: items, error: itemsError } = await supabase
+      .from('campaign_items')
+      .select('id, channel, asset_type, format, status, error, inventory(name)')
+      .eq('campaign_id', campaign.id);
+
+    if (itemsError || !items) continue;
+    if (items.some(item => item.status === 'pending' || item.status === 'running')) continue;
+
+    const byChannel: Record<string, { succeeded: number; failed: number }> = {};
+    const byAssetType: Record<string, { succeeded: number; failed: number }> = {};
+    for (const item of items) {
+      const outcome = item.status === 'succeeded' ? 'succeeded' : 'failed';
+      byChannel[item.channel] = byChannel[item.channel] || { succeeded: 0, failed: 0 };
+      byChannel[item.channel][outcome]++;
+      byAssetType[item.asset_type] = byAssetType[item.asset_type] || { succeeded: 0, failed: 0 };
+      byAssetType[item.asset_type][outcome]++;
+    }
+
+    const failures = items.filter(item => item.status === 'failed');
+    const report = {
+      total: items.length,
+      succeeded: items.length - failures.length,
+      failed: failures.length,
+      by_channel: byChannel,
+      by_asset_type: byAssetType,
+      failures: failures.slice(0, MAX_REPORT_FAILURES).map(item => ({
+        item_id: item.id,
+        product: item.inventory?.name,
+        channel: item.channel,
+        format: item.format,
+        error: item.error
+      })),
+      generated_at: new Date().toISOString()
+    };
+
+    await supabase
+      .from('campaigns')
+      .update({
+        status: 'completed',
+        report,
+        completed_at: new Date().toISOString()
+      })
+      .eq('id', campaign.id);
+
+    console.log(`Campaign ${campaign.id} completed: ${report.succeeded}/${report.total} succeeded`);
+    completed++;
+  }
+
+  return completed;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    requireServiceRole(req);
+
+    const supabase = createClient(supabaseUrl!, supabaseServiceKey!);
+
+    const synced = await syncJobItems(supabase);
+    const dispatched = await dispatchPendingItems(supabase);
+    const completed = await finalizeCampaigns(supabase);
+
+    console.log(`Campaign worker: ${synced} synced, ${dispatched} dispatched, ${completed} campaigns completed`);
+
+    return new Response(JSON.stringify({
+      success: true,
+      synced,
+      dispatched,
+      completed
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in campaign-worker function:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: error.message
+    }), {
+      status: error.message === 'Unauthorized' ? 401 : 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,287 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getAuthenticatedUser, requireWorkspaceRole } from '../_shared/auth.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const GRAPH_URL = 'https://graph.facebook.com/v18.0';
+const SCOPES = ['pages_show_list', 'pages_manage_posts', 'pages_read_engagement'];
+
+interface FacebookPage {
+  id: string;
+  name: string;
+  category?: string;
+  access_token: string;
+}
+
+async function graphGet(path: string, params: Record<string, string>) {
+  const url = new URL(`${GRAPH_URL}${path}`);
+  Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+
+  const response = await fetch(url.toString());
+  const data = await response.json();
+  if (!response.ok || data.error) {
+    throw new Error(data.error?.message || `Facebook request failed: ${response.status}`);
+  }
+  return data;
+}
+
+// Pages the user can publish to, with a page access token for each
+async function fetchPages(userToken: string): Promise<FacebookPage[]> {
+  const data = await graphGet('/me/accounts', {
+    fields: 'id,name,category,access_token',
+    limit: '100',
+    access_token: userToken
+  });
+  return data.data || [];
+}
+
+// Page tokens stay out of metadata; clients only need to pick a page
+const listPages = (pages: FacebookPage[]) =>
+  pages.map(page => ({ id: page.id, name: page.name, category: page.category || null }));
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { action, code, state, redirectUri, pageId, workspaceId } = await req.json();
+
+    // Get environment variables
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const facebookAppId = Deno.env.get('FACEBOOK_APP_ID');
+    const facebookAppSecret = Deno.env.get('FACEBOOK_APP_SECRET');
+
+    if (!facebookAppId || !facebookAppSecret) {
+      throw new Error('Facebook OAuth credentials not configured');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseKey);
+    const user = await getAuthenticatedUser(req, supabase);
+    // Anyone in the workspace can check the connection, only editors can change it
+    await requireWorkspaceRole(
+      supabase,
+      workspaceId,
+      user.id,
+      action === 'check_connection' ? ['owner', 'editor', 'viewer'] : ['owner', 'editor']
+    );
+
+    const loadConnection = async () => {
+      const { data } = await supabase
+        .from('user_social_connections')
+        .select('*')
+        .eq('workspace_id', workspaceId)
+        .eq('platform', 'facebook')
+        .maybeSingle();
+      return data;
+    };
+
+    if (action === 'get_auth_url') {
+      if (!redirectUri) {
+        throw new Error('redirectUri is required');
+      }
+
+      const authUrl = new URL('https://www.facebook.com/v18.0/dialog/oauth');
+      authUrl.searchParams.set('client_id', facebookAppId);
+      authUrl.searchParams.set('redirect_uri', redirectUri);
+      authUrl.searchParams.set('scope', SCOPES.join(','));
+      authUrl.searchParams.set('response_type', 'code');
+      authUrl.searchParams.set('state', state || 'default_state');
+
+      return new Response(JSON.stringify({
+        success: true,
+        auth_url: authUrl.toString()
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (action === 'exchange_code') {
+      if (!code || !redirectUri) {
+        throw new Error('code and redirectUri are required');
+      }
+
+      console.log('Exchanging Facebook code for access token');
+
+      // Short-lived user token, then a long-lived (about 60 day) one
+      const shortLived = await graphGet('/oauth/access_token', {
+        client_id: facebookAppId,
+        client_secret: facebookAppSecret,
+        redirect_uri: redirectUri,
+        code
+      });
+
+      const longLived = await graphGet('/oauth/access_token', {
+        grant_type: 'fb_exchange_token',
+        client_id: facebookAppId,
+        client_secret: facebookAppSecret,
+        fb_exchange_token: shortLived.access_token
+      });
+
+      const userToken = longLived.access_token;
+      const profile = await graphGet('/me', { fields: 'id,name', access_token: userToken });
+      const pages = await fetchPages(userToken);
+
+      if (pages.length === 0) {
+        throw new Error('No Facebook Pages found. You need to manage at least one Page to publish.');
+      }
+
+      // With a single Page there is nothing to choose
+      const page = pages.length === 1 ? pages[0] : null;
+      const userTokenExpiresAt = longLived.expires_in
+        ? new Date(Date.now() + longLived.expires_in * 1000).toISOString()
+        : null;
+
+      const { error } = await supabase
+        .from('user_social_connections')
+        .upsert({
+          user_id: user.id,
+          workspace_id: workspaceId,
+          platform: 'facebook',
+          platform_user_id: page?.id ?? null,
+          platform_username: page?.name ?? null,
+          platform_display_name: page?.name ?? null,
+          // Page tokens issued from a long-lived user token do not expire
+          access_token: page?.access_token ?? null,
+          // Facebook has no refresh tokens; the long-lived user token is kept
+          // so Pages can be listed and switched without reconnecting
+          refresh_token: userToken,
+          token_expires_at: null,
+          scope: SCOPES.join(','),
+          is_active: true,
+          metadata: {
+            facebook_user_id: profile.id,
+            facebook_user_name: profile.name,
+            user_token_expires_at: userTokenExpiresAt,
+            pages: listPages(pages)
+          },
+          connected_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        }, {
+          onConflict: 'workspace_id,platform'
+        });
+
+      if (error) {
+        console.error('Database error:', error);
+        throw new Error('Failed to save connection');
+      }
+
+      return new Response(JSON.stringify({
+        success: true,
+        message: 'Facebook connected successfully',
+        user: { id: profile.id, name: profile.name },
+        pages: listPages(pages),
+        page: page ? { id: page.id, name: page.name } : null
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (action === 'list_pages' || action === 'select_page') {
+      const connection = await loadConnection();
+      if (!connection?.refresh_token) {
+        throw new Error('Facebook account not connected');
+      }
+
+      const pages = await fetchPages(connection.refresh_token);
+
+      if (action === 'list_pages') {
+        await supabase
+          .from('user_social_connections')
+          .update({ metadata: { ...(connection.metadata || {}), pages: listPages(pages) } })
+          .eq('id', connection.id);
+
+        return new Response(JSON.stringify({
+          success: true,
+          pages: listPages(pages)
+        }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+
+      const page = pages.find(p => p.id === pageId);
+      if (!page) {
+        throw new Error('That Page is not available to the connected Facebook account');
+      }
+
+      const { error } = await supabase
+        .from('user_social_connections')
+        .update({
+          platform_user_id: page.id,
+          platform_username: page.name,
+          platform_display_name: page.name,
+          access_token: page.access_token,
+          metadata: { ...(connection.metadata || {}), pages: listPages(pages) },
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', connection.id);
+
+      if (error) {
+        throw new Error('Failed to save the selected Page');
+      }
+
+      return new Response(JSON.stringify({
+        success: true,
+        page: { id: page.id, name: page.name }
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (action === 'disconnect') {
+      const { error } = await supabase
+        .from('user_social_connections')
+        .delete()
+        .eq('workspace_id', workspaceId)
+        .eq('platform', 'facebook');
+
+      if (error) {
+        throw new Error('Failed to disconnect');
+      }
+
+      return new Response(JSON.stringify({
+        success: true,
+        message: 'Facebook disconnected successfully'
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (action === 'check_connection') {
+      const connection = await loadConnection();
+      const metadata = connection?.metadata || {};
+
+      // Connected means a Page has been chosen and can be published to
+      return new Response(JSON.stringify({
+        success: true,
+        connected: !!connection?.platform_user_id && !!connection?.access_token,
+        needsPageSelection: !!connection && !connection.platform_user_id,
+        page: connection?.platform_user_id
+          ? { id: connection.platform_user_id, name: connection.platform_display_name }
+          : null,
+        pages: metadata.pages || [],
+        user: connection ? { id: metadata.facebook_user_id, name: metadata.facebook_user_name } : null
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    throw new Error('Invalid action');
+
+  } catch (error) {
+    console.error('Facebook OAuth error:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: error.message
+    }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+});
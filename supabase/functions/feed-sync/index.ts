@@ -0,0 +1,522 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getAuthenticatedUser, requireWorkspaceRole } from '../_shared/auth.ts';
+import { fetchPublicUrl, readTextWithLimit } from '../_shared/publicFetch.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Feeds are downloaded and written inside this invocation, so keep each run small
+const SYNC_BATCH = 3;
+const WRITE_CHUNK = 500;
+// Enough to diagnose a broken feed without bloating the run row
+const MAX_ROW_ERRORS = 200;
+// Feed URLs come from users, so downloads are bounded in time and size
+const DOWNLOAD_TIMEOUT_MS = 60 * 1000;
+const MAX_FEED_BYTES = 20 * 1024 * 1024;
+
+const SCHEDULE_INTERVAL_MS: Record<string, number> = {
+  hourly: 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000
+};
+
+// Google Shopping and Shopify column names for each inventory field, in order of preference
+const FIELD_ALIASES: Record<string, string[]> = {
+  name: ['title', 'name'],
+  description: ['description', 'body (html)'],
+  price: ['price', 'sale price', 'sale_price', 'variant price'],
+  sku: ['id', 'sku', 'variant sku', 'mpn'],
+  category: ['product type', 'product_type', 'google product category', 'google_product_category', 'type', 'category'],
+  brand: ['brand', 'vendor'],
+  image: ['image link', 'image_link', 'image src', 'images'],
+  additional_images: ['additional image link', 'additional_image_link']
+};
+
+interface FeedSource {
+  id: string;
+  workspace_id: string;
+  name: string;
+  url: string;
+  format: 'csv' | 'json' | 'xml';
+  field_mapping: Record<string, string>;
+  schedule: string;
+}
+
+interface FeedProduct {
+  name: string;
+  description: string | null;
+  price: number | null;
+  sku: string;
+  category: string | null;
+  brand: string | null;
+  images: string[];
+  metadata: Record<string, string>;
+}
+
+interface RowError {
+  row: number;
+  sku: string | null;
+  error: string;
+}
+
+// Comma, semicolon or tab, whichever the header row uses most
+function detectDelimiter(content: string): string {
+  const header = content.split('\n')[0];
+  const counts = [',', ';', '\t'].map(d => ({ d, n: header.split(d).length - 1 }));
+  return counts.sort((a, b) => b.n - a.n)[0].d;
+}
+
+// Quote-aware CSV parsing; quoted values may span lines (Shopify descriptions do)
+function parseCsv(content: string): Record<string, string>[] {
+  const text = content.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(text);
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field.trim());
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || record.length > 0) {
+    record.push(field.trim());
+    records.push(record);
+  }
+
+  const rows = records.filter(r => r.some(value => value !== ''));
+  if (rows.length < 2) {
+    throw new Error('Feed must have a header row and at least one product');
+  }
+
+  const headers = rows[0];
+  return rows.slice(1).map(values =>
+    Object.fromEntries(headers.map((header, index) => [header, values[index] ?? '']))
+  );
+}
+
+function parseJson(content: string): Record<string, string>[] {
+  const parsed = JSON.parse(content);
+  const items = Array.isArray(parsed) ? parsed : parsed?.products ?? parsed?.items;
+  if (!Array.isArray(items)) {
+    throw new Error('JSON feed must be an array of products or have a "products" array');
+  }
+
+  return items.map(item => Object.fromEntries(
+    Object.entries(item ?? {}).map(([key, value]) => [
+      key,
+      value === null || value === undefined ? '' : Array.isArray(value) ? value.join(';') : String(value)
+    ])
+  ));
+}
+
+const decodeXml = (value: string) => value
+  .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+  .replace(/<[^>]+>/g, ' ')
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&apos;|&#39;/g, "'")
+  .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+  .replace(/&amp;/g, '&')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+// Google Shopping RSS 2.0 (<item>) or Atom (<entry>); g: prefixes are dropped so
+// g:image_link reads as image_link. Repeated elements are joined with ';'
+function parseXml(content: string): Record<string, string>[] {
+  let items = [...content.matchAll(/<item\b[^>]*>([\s\S]*?)<\/item>/g)];
+  if (items.length === 0) {
+    items = [...content.matchAll(/<entry\b[^>]*>([\s\S]*?)<\/entry>/g)];
+  }
+  if (items.length === 0) {
+    throw new Error('XML feed has no <item> or <entry> elements');
+  }
+
+  return items.map(([, body]) => {
+    const fields = new Map<string, string[]>();
+    for (const [, , name, inner] of body.matchAll(/<([\w.-]+:)?([\w.-]+)\b[^>]*?(?:\/>|>([\s\S]*?)<\/\1\2>)/g)) {
+      const value = decodeXml(inner || '');
+      const values = fields.get(name) || [];
+      // Feeds sometimes carry both <title> and <g:title>
+      if (value && !values.includes(value)) {
+        fields.set(name, [...values, value]);
+      }
+    }
+    return Object.fromEntries([...fields].map(([name, values]) => [name, values.join(';')]));
+  });
+}
+
+// Explicit mapping first, then the known column names
+function mapRecord(record: Record<string, string>, mapping: Record<string, string>): FeedProduct {
+  const columns = new Map(Object.keys(record).map(key => [key.toLowerCase().trim(), key]));
+  const used = new Set<string>();
+
+  const read = (field: string) => {
+    const candidates = mapping[field] ? [mapping[field]] : FIELD_ALIASES[field];
+    for (const candidate of candidates) {
+      const column = columns.get(candidate.toLowerCase().trim());
+      if (column !== undefined) {
+        used.add(column);
+        const value = record[column]?.trim();
+        if (value) return value;
+      }
+    }
+    return '';
+  };
+
+  const name = read('name');
+  const sku = read('sku');
+  if (!name) throw new Error("Missing 'name' or 'title'");
+  if (!sku) throw new Error("Missing 'sku' or 'id'; products are matched by SKU");
+
+  const rawPrice = read('price');
+  const price = rawPrice ? parseFloat(rawPrice.replace(/[^\d.-]/g, '')) : null;
+  if (rawPrice && Number.isNaN(price)) {
+    throw new Error(`Invalid price "${rawPrice}"`);
+  }
+
+  const splitUrls = (value: string) => value.split(/[;|,]/).map(url => url.trim()).filter(url => url !== '');
+  const images = [...splitUrls(read('image')), ...splitUrls(read('additional_images'))];
+  const description = read('description').replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+  const category = read('category');
+  const brand = read('brand');
+
+  // Everything no field claimed is kept for reference, as the importer does
+  const metadata: Record<string, string> = {};
+  for (const [key, value] of Object.entries(record)) {
+    if (!used.has(key) && value) {
+      metadata[key] = value;
+    }
+  }
+
+  return {
+    name,
+    description: description || null,
+    price,
+    sku,
+    category: category || null,
+    brand: brand || null,
+    images,
+    metadata
+  };
+}
+
+// Page through the workspace's products that carry a SKU
+async function loadExistingProducts(supabase: SupabaseClient, workspaceId: string) {
+  const bySku = new Map<string, { id: string; feed_source_id: string | null; status: string }>();
+  for (let from = 0; ; from += 1000) {
+    const { data, error } = await supabase
+      .from('inventory')
+      .select('id, sku, feed_source_id, status')
+      .eq('workspace_id', workspaceId)
+      .not('sku', 'is', null)
+      .order('created_at', { ascending: true })
+      .range(from, from + 999);
+
+    if (error) {
+      throw new Error(`Failed to load inventory: ${error.message}`);
+    }
+
+    for (const product of data || []) {
+      if (!bySku.has(product.sku)) bySku.set(product.sku, product);
+    }
+    if (!data || data.length < 1000) break;
+  }
+  return bySku;
+}
+
+// Write in chunks; when a chunk fails, retry its rows one by one to find the bad ones
+async function writeProducts(
+  supabase: SupabaseClient,
+  rows: { row: number; values: Record<string, unknown> }[],
+  mode: 'insert' | 'upsert',
+  rowErrors: RowError[]
+) {
+  let written = 0;
+  for (let i = 0; i < rows.length; i += WRITE_CHUNK) {
+    const chunk = rows.slice(i, i + WRITE_CHUNK);
+    const { error } = await supabase.from('inventory')[mode](chunk.map(r => r.values));
+    if (!error) {
+      written += chunk.length;
+      continue;
+    }
+
+    for (const item of chunk) {
+      const { error: rowError } = await supabase.from('inventory')[mode](item.values);
+      if (rowError) {
+        rowErrors.push({ row: item.row, sku: item.values.sku as string, error: rowError.message });
+      } else {
+        written++;
+      }
+    }
+  }
+  return written;
+}
+
+async function syncFeed(supabase: SupabaseClient, feed: FeedSource, triggeredBy: 'schedule' | 'manual') {
+  const { data: run, error: runError } = await supabase
+    .from('feed_sync_runs')
+    .insert({
+      feed_source_id: feed.id,
+      workspace_id: feed.workspace_id,
+      triggered_by: triggeredBy
+    })
+    .select('id')
+    .single();
+
+  if (runError || !run) {
+    throw new Error(`Failed to start sync run: ${runError?.message}`);
+  }
+
+  const rowErrors: RowError[] = [];
+  const counts = { rows_total: 0, rows_created: 0, rows_updated: 0, rows_deactivated: 0 };
+  let status: 'succeeded' | 'partial' | 'failed' = 'succeeded';
+  let fatalError: string | null = null;
+
+  try {
+    console.log(`Syncing feed ${feed.id} from ${feed.url}`);
+    const signal = AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS);
+    const response = await fetchPublicUrl(feed.url, { signal });
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new Error(`Feed download failed: HTTP ${response.status}`);
+    }
+
+    const content = await readTextWithLimit(response, MAX_FEED_BYTES);
+    const records = feed.format === 'json'
+      ? parseJson(content)
+      : feed.format === 'xml' ? parseXml(content) : parseCsv(content);
+    counts.rows_total = records.length;
+
+    // Map every row, keeping the first occurrence of each SKU
+    const products = new Map<string, { row: number; product: FeedProduct }>();
+    records.forEach((record, index) => {
+      const row = index + 1;
+      let product: FeedProduct;
+      try {
+        product = mapRecord(record, feed.field_mapping || {});
+      } catch (error) {
+        rowErrors.push({ row, sku: null, error: error.message });
+        return;
+      }
+
+      const first = products.get(product.sku);
+      if (first) {
+        rowErrors.push({ row, sku: product.sku, error: `Duplicate SKU, already listed on row ${first.row}` });
+        return;
+      }
+      products.set(product.sku, { row, product });
+    });
+
+    // An empty or unreadable feed must not retire the whole catalogue
+    if (products.size === 0) {
+      throw new Error('Feed contained no importable products');
+    }
+
+    const existing = await loadExistingProducts(supabase, feed.workspace_id);
+    const inserts: { row: number; values: Record<string, unknown> }[] = [];
+    const updates: { row: number; values: Record<string, unknown> }[] = [];
+
+    for (const { row, product } of products.values()) {
+      const values = {
+        ...product,
+        status: 'active',
+        workspace_id: feed.workspace_id,
+        feed_source_id: feed.id
+      };
+      const match = existing.get(product.sku);
+      if (match) {
+        updates.push({ row, values: { id: match.id, ...values } });
+      } else {
+        inserts.push({ row, values });
+      }
+    }
+
+    counts.rows_updated = await writeProducts(supabase, updates, 'upsert', rowErrors);
+    counts.rows_created = await writeProducts(supabase, inserts, 'insert', rowErrors);
+
+    // Products this feed wrote before but no longer lists
+    const retired = [...existing.entries()]
+      .filter(([sku, product]) => product.feed_source_id === feed.id && product.status === 'active' && !products.has(sku))
+      .map(([, product]) => product.id);
+
+    for (let i = 0; i < retired.length; i += WRITE_CHUNK) {
+      const ids = retired.slice(i, i + WRITE_CHUNK);
+      const { error } = await supabase
+        .from('inventory')
+        .update({ status: 'inactive' })
+        .in('id', ids);
+
+      if (error) {
+        throw new Error(`Failed to deactivate removed products: ${error.message}`);
+      }
+      counts.rows_deactivated += ids.length;
+    }
+
+    if (rowErrors.length > 0) status = 'partial';
+
+  } catch (error) {
+    console.error(`Feed ${feed.id} sync failed:`, error);
+    status = 'failed';
+    fatalError = error.message;
+  }
+
+  await supabase
+    .from('feed_sync_runs')
+    .update({
+      ...counts,
+      status,
+      rows_failed: rowErrors.length,
+      row_errors: rowErrors.slice(0, MAX_ROW_ERRORS),
+      error: fatalError,
+      finished_at: new Date().toISOString()
+    })
+    .eq('id', run.id);
+
+  await supabase
+    .from('feed_sources')
+    .update({
+      last_synced_at: new Date().toISOString(),
+      last_status: status
+    })
+    .eq('id', feed.id);
+
+  console.log(`Feed ${feed.id} sync ${status}:`, { ...counts, rows_failed: rowErrors.length });
+  return { runId: run.id, status, ...counts, rows_failed: rowErrors.length, error: fatalError };
+}
+
+const nextSyncAt = (schedule: string) =>
+  SCHEDULE_INTERVAL_MS[schedule] ? new Date(Date.now() + SCHEDULE_INTERVAL_MS[schedule]).toISOString() : null;
+
+async function syncDueFeeds(supabase: SupabaseClient) {
+  const now = new Date().toISOString();
+  const { data: due, error } = await supabase
+    .from('feed_sources')
+    .select('id, workspace_id, name, url, format, field_mapping, schedule, next_sync_at')
+    .eq('is_active', true)
+    .neq('schedule', 'manual')
+    .lte('next_sync_at', now)
+    .order('next_sync_at', { ascending: true })
+    .limit(SYNC_BATCH);
+
+  if (error) {
+    throw new Error(`Failed to load due feeds: ${error.message}`);
+  }
+
+  const results = [];
+  for (const feed of due || []) {
+    // Claim the feed by moving next_sync_at so an overlapping run skips it
+    const { data: claimed } = await supabase
+      .from('feed_sources')
+      .update({ next_sync_at: nextSyncAt(feed.schedule) })
+      .eq('id', feed.id)
+      .eq('next_sync_at', feed.next_sync_at)
+      .select('id')
+      .maybeSingle();
+
+    if (!claimed) continue;
+    results.push(await syncFeed(supabase, feed as FeedSource, 'schedule'));
+  }
+
+  return results;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { feedSourceId } = await req.json().catch(() => ({}));
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const isScheduler = req.headers.get('Authorization') === `Bearer ${supabaseServiceKey}`;
+
+    // "Sync now" from the inventory screen
+    if (feedSourceId) {
+      const { data: feed, error: feedError } = await supabase
+        .from('feed_sources')
+        .select('id, workspace_id, name, url, format, field_mapping, schedule')
+        .eq('id', feedSourceId)
+        .single();
+
+      if (feedError || !feed) {
+        throw new Error('Feed source not found');
+      }
+
+      if (!isScheduler) {
+        const user = await getAuthenticatedUser(req, supabase);
+        await requireWorkspaceRole(supabase, feed.workspace_id, user.id, ['owner', 'editor']);
+      }
+
+      const result = await syncFeed(supabase, feed as FeedSource, 'manual');
+
+      return new Response(JSON.stringify({
+        success: result.status !== 'failed',
+        ...result
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Only the scheduler (or an operator) may sweep every due feed
+    if (!isScheduler) {
+      throw new Error('Unauthorized');
+    }
+
+    const results = await syncDueFeeds(supabase);
+    console.log('Feed sync run:', { synced: results.length });
+
+    return new Response(JSON.stringify({
+      success: true,
+      synced: results.length,
+      results
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in feed-sync function:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: error.message
+    }), {
+      status: error.message === 'Unauthorized' ? 401 : 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
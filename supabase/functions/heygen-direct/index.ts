@@ -2,10 +2,12 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js';
+import { getAuthenticatedUser, requireWorkspaceRole } from '../_shared/auth.ts';
+import { resolveApiKey } from '../_shared/apiKeys.ts';
+import { recordUsage, releaseUsage } from '../_shared/usage.ts';
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL');
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
-const heygenApiKey = Deno.env.get('HEYGEN_API_KEY');
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -21,8 +23,44 @@ interface HeyGenDirectRequest {
   };
   instruction?: string;
   productId?: string;
+  workspaceId: string;
 }
 
+interface VariableSpec {
+  variable_name: string;
+  variable_type: string;
+  char_limit: number | null;
+  is_required: boolean;
+  default_value: string | null;
+}
+
+const MEDIA_TYPES = ['image', 'video', 'audio'];
+
+// Same checks as validateTemplateVariable in the app; returns the problem or null
+function validateVariable(spec: VariableSpec | undefined, content: string): string | null {
+  if (!content) {
+    return spec && !spec.is_required ? null : 'is required';
+  }
+  if (!spec) return null;
+
+  if (spec.char_limit && content.length > spec.char_limit) {
+    return `is ${content.length} characters, the limit is ${spec.char_limit}`;
+  }
+  if (MEDIA_TYPES.includes(spec.variable_type) && !/^https?:\/\/\S+$/i.test(content)) {
+    return `must be a link to the ${spec.variable_type} file`;
+  }
+  if (spec.variable_type === 'color' && !/^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(content)) {
+    return 'must be a hex color';
+  }
+  if (spec.variable_type === 'number' && !Number.isFinite(Number(content))) {
+    return 'must be a number';
+  }
+  return null;
+}
+
+// HeyGen bills one API credit (about $1) per minute; template videos are estimated as a full minute
+const VIDEO_MINUTE_COST_USD = 1;
+
 serve(async (req) => {
   console.log('HeyGen Direct function called with method:', req.method);
   
@@ -34,11 +72,6 @@ serve(async (req) => {
   try {
     console.log('Starting HeyGen Direct function execution');
     
-    if (!heygenApiKey) {
-      console.error('HeyGen API key missing');
-      throw new Error('HeyGen API key not configured. Please add HEYGEN_API_KEY to Supabase secrets.');
-    }
-
     if (!supabaseUrl || !supabaseServiceKey) {
       console.error('Supabase configuration missing');
       throw new Error('Supabase configuration missing');
@@ -48,7 +81,7 @@ serve(async (req) => {
     const requestBody = await req.json();
     console.log('Request body received:', JSON.stringify(requestBody, null, 2));
     
-    const { templateId, templateData, instruction, productId }: HeyGenDirectRequest = requestBody;
+    const { templateId, templateData, instruction, productId, workspaceId }: HeyGenDirectRequest = requestBody;
 
     console.log('Parsed request data:', {
       templateId,
@@ -58,24 +91,63 @@ serve(async (req) => {
     });
 
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const user = await getAuthenticatedUser(req, supabase);
+    await requireWorkspaceRole(supabase, workspaceId, user.id, ['owner', 'editor']);
+
+    const heygenApiKey = await resolveApiKey(supabase, workspaceId, 'heygen', 'HEYGEN_API_KEY');
+    if (!heygenApiKey) {
+      console.error('HeyGen API key missing');
+      throw new Error('HeyGen API key not configured. Add one under API Keys in the admin dashboard.');
+    }
+
+    // The schema admins defined for this template; templates without one
+    // fall back to treating every variable as required text or image
+    const { data: schemaRows, error: schemaError } = await supabase
+      .from('template_fallback_variables')
+      .select('variable_name, variable_type, char_limit, is_required, default_value')
+      .eq('template_id', templateId);
+
+    if (schemaError) {
+      console.error('Failed to load template variable schema (non-fatal):', schemaError);
+    }
+
+    const schema = new Map<string, VariableSpec>(
+      (schemaRows || []).map((row: VariableSpec) => [row.variable_name, row])
+    );
 
     // Prepare variables for HeyGen template according to API documentation
     const variables: Record<string, any> = {};
+    const problems: string[] = [];
     
-    // Use user improved data first, then AI suggested, then extracted as fallback
+    // Use user improved data first, then AI suggested, then extracted, then the schema default
     const allKeys = Object.keys(templateData.userImproved || {});
-    console.log('Template variable keys found:', allKeys);
+    console.log('Template variable keys found:', allKeys, 'with schema for', schema.size);
     
     allKeys.forEach(key => {
-      const content = templateData.userImproved[key] || 
-                     templateData.aiSuggested[key] || 
-                     templateData.extracted[key] || '';
+      const spec = schema.get(key);
+      const content = String(
+        templateData.userImproved[key] || 
+        templateData.aiSuggested?.[key] || 
+        templateData.extracted?.[key] || 
+        spec?.default_value || ''
+      ).trim();
+
+      const problem = validateVariable(spec, content);
+      if (problem) {
+        problems.push(`${key} ${problem}`);
+        return;
+      }
+      if (!content) return;
+
+      // The schema is the only source of types; unknown variables are text
+      const type = spec && MEDIA_TYPES.includes(spec.variable_type) ? spec.variable_type : 'text';
       
-      // Format variables according to HeyGen API documentation
+      // Format variables according to HeyGen API documentation; colors and
+      // numbers are plain text to HeyGen
       variables[key] = {
         name: key,
-        type: key.toLowerCase().includes('image') ? 'image' : 'text',
-        properties: key.toLowerCase().includes('image') ? {
+        type,
+        properties: MEDIA_TYPES.includes(type) ? {
           url: content
         } : {
           content: content
@@ -83,28 +155,27 @@ serve(async (req) => {
       };
     });
 
-    console.log('Template variables prepared in HeyGen API format:', JSON.stringify(variables, null, 2));
+    // Required variables the request left out entirely
+    schema.forEach((spec, key) => {
+      if (!allKeys.includes(key) && spec.is_required && !spec.default_value) {
+        problems.push(`${key} is required`);
+      }
+    });
+
+    if (problems.length > 0) {
+      console.error('Template variables failed validation:', problems);
+      throw new Error(`Invalid template variables: ${problems.join('; ')}`);
+    }
 
-    // If no variables provided, this might be a template that doesn't need variables
     if (allKeys.length === 0) {
       console.log('No template variables provided - template may not require variables');
-    } else {
-      // Validate required variables only if we have variables to check
-      const missingVariables = allKeys.filter(key => {
-        const content = templateData.userImproved[key] || 
-                       templateData.aiSuggested[key] || 
-                       templateData.extracted[key] || '';
-        return !content || content.toString().trim() === '';
-      });
-
-      if (missingVariables.length > 0) {
-        console.error('Missing required variables:', missingVariables);
-        throw new Error(`Missing required variables: ${missingVariables.join(', ')}`);
-      }
     }
 
-    // Generate a unique callback ID for tracking
-    const callbackId = `feedgen_${templateId}_${productId || 'noproduct'}_${Date.now()}`;
+    console.log('Template variables prepared in HeyGen API format:', JSON.stringify(variables, null, 2));
+
+    // HeyGen echoes the callback ID in its webhook; the job row carries the
+    // template and product, so the ID itself stays opaque
+    const callbackId = `feedgen_${crypto.randomUUID()}`;
     console.log('Generated callback ID:', callbackId);
 
     // Get product name for title if productId provided
@@ -115,6 +186,7 @@ serve(async (req) => {
         .from('inventory')
         .select('name')
         .eq('id', productId)
+        .eq('workspace_id', workspaceId)
         .single();
         
       if (productError) {
@@ -133,6 +205,47 @@ serve(async (req) => {
       productName
     });
 
+    const usageId = await recordUsage(supabase, {
+      workspaceId,
+      userId: user.id,
+      provider: 'heygen',
+      usageType: 'video',
+      units: 1,
+      unit: 'minutes',
+      estimatedCostUsd: VIDEO_MINUTE_COST_USD,
+      metadata: { templateId }
+    });
+
+    // Record the job before submitting so the webhook can always find it
+    const { data: job, error: jobError } = await supabase
+      .from('generation_jobs')
+      .insert({
+        workspace_id: workspaceId,
+        owner_id: user.id,
+        provider: 'heygen',
+        job_type: 'video',
+        status: 'queued',
+        callback_id: callbackId,
+        template_id: templateId,
+        inventory_id: productId || null,
+        request: { templateId, title: productName, variables, instruction }
+      })
+      .select()
+      .single();
+
+    if (jobError || !job) {
+      console.error('Failed to create generation job:', jobError);
+      await releaseUsage(supabase, usageId);
+      throw new Error(`Failed to create generation job: ${jobError?.message}`);
+    }
+
+    console.log('Created generation job:', job.id);
+
+    await supabase
+      .from('usage_events')
+      .update({ generation_job_id: job.id })
+      .eq('id', usageId);
+
     // Call HeyGen API to generate video using template with correct format
     console.log('Making request to HeyGen API...');
     const heygenResponse = await fetch(`https://api.heygen.com/v2/template/${templateId}/generate`, {
@@ -161,12 +274,37 @@ serve(async (req) => {
         error: errorText,
         url: heygenResponse.url
       });
+
+      await releaseUsage(supabase, usageId);
+
+      await supabase
+        .from('generation_jobs')
+        .update({
+          status: 'failed',
+          stage: 'failed',
+          error: `HeyGen API error: ${heygenResponse.status} - ${errorText}`,
+          completed_at: new Date().toISOString()
+        })
+        .eq('id', job.id);
+
       throw new Error(`HeyGen API error: ${heygenResponse.status} - ${errorText}`);
     }
 
     const heygenData = await heygenResponse.json();
     console.log('HeyGen API response data:', heygenData);
 
+    await supabase
+      .from('generation_jobs')
+      .update({
+        status: 'running',
+        stage: 'submitted',
+        progress: 0.05,
+        started_at: new Date().toISOString(),
+        provider_task_id: heygenData.data?.video_id || null,
+        attempts: 1
+      })
+      .eq('id', job.id);
+
     // Store the generation request in database and asset library
     console.log('Storing asset in database and library...');
     let assetId = null;
@@ -183,8 +321,9 @@ serve(async (req) => {
           asset_type: 'video',
           url: heygenData.data?.video_url || 'pending',
           instruction: instruction || 'Direct HeyGen API video generation',
-          approved: false,
-          inventory_id: productId
+          inventory_id: productId,
+          owner_id: user.id,
+          workspace_id: workspaceId
         })
         .select()
         .single();
@@ -206,6 +345,7 @@ serve(async (req) => {
               .from('inventory')
               .select('name, price')
               .eq('id', productId)
+              .eq('workspace_id', workspaceId)
               .single();
               
             if (productError) {
@@ -250,7 +390,9 @@ serve(async (req) => {
               source_system: 'heygen',
               instruction: instruction || 'Direct HeyGen API video generation',
               original_asset_id: assetId,
-              description: `Video: ${productData?.name || 'Product'} | Template: ${templateId} | Callback: ${callbackId}`
+              owner_id: user.id,
+              workspace_id: workspaceId,
+              description: `Video: ${productData?.name || 'Product'} | Template: ${templateId}`
             })
             .select()
             .single();
@@ -272,8 +414,21 @@ serve(async (req) => {
       throw dbStoreError;
     }
 
+    const { error: linkError } = await supabase
+      .from('generation_jobs')
+      .update({
+        generated_asset_id: assetId,
+        asset_library_id: libraryId
+      })
+      .eq('id', job.id);
+
+    if (linkError) {
+      console.error('Failed to link generation job to its assets:', linkError);
+    }
+
     const responseData = { 
       success: true, 
+      job_id: job.id,
       video_id: heygenData.data?.video_id || callbackId,
       video_url: heygenData.data?.video_url || 'processing',
       asset_id: assetId,
@@ -298,6 +453,17 @@ serve(async (req) => {
       name: error.name,
       cause: error.cause
     });
+
+    // Hitting the plan limit is an expected outcome, so the message goes back as data
+    if (error.name === 'QuotaExceeded') {
+      return new Response(JSON.stringify({
+        success: false,
+        quota_exceeded: true,
+        error: error.message
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
     
     const errorResponse = { 
       success: false, 
@@ -2,6 +2,7 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getAuthenticatedUser, requireWorkspaceRole } from '../_shared/auth.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -20,7 +21,8 @@ serve(async (req) => {
       templateId, 
       productId, 
       templateData,
-      formatSpecs 
+      formatSpecs,
+      workspaceId
     } = await req.json();
 
     console.log('Received HeyGen generation request:', { 
@@ -34,6 +36,8 @@ serve(async (req) => {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
+    const user = await getAuthenticatedUser(req, supabase);
+    await requireWorkspaceRole(supabase, workspaceId, user.id, ['owner', 'editor']);
 
     // For now, simulate the HeyGen API call by storing the request in Google Sheets
     // This will be processed by Zapier automation
@@ -47,6 +51,7 @@ serve(async (req) => {
         .from('inventory')
         .select('name')
         .eq('id', productId)
+        .eq('workspace_id', workspaceId)
         .single();
         
       if (productError) {
@@ -68,7 +73,8 @@ serve(async (req) => {
         inventory_id: productId,
         source_system: 'heygen_zapier',
         url: 'pending', // Will be updated when webhook receives the actual URL
-        approved: false
+        owner_id: user.id,
+        workspace_id: workspaceId
       })
       .select()
       .single();
@@ -88,7 +94,9 @@ serve(async (req) => {
         instruction: instruction,
         source_system: 'heygen_zapier',
         description: `Generated using HeyGen template ${templateId} for product: ${productName}`,
-        original_asset_id: assetData.id
+        original_asset_id: assetData.id,
+        owner_id: user.id,
+        workspace_id: workspaceId
       });
 
     if (libraryError) {
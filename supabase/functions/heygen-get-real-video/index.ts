@@ -1,12 +1,31 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getAuthenticatedUser, requireWorkspaceRole } from '../_shared/auth.ts';
+import { resolveApiKey } from '../_shared/apiKeys.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// The HeyGen job that produced a library asset
+async function findJob(supabase: SupabaseClient, assetId: string) {
+  const { data: job, error } = await supabase
+    .from('generation_jobs')
+    .select('id, provider_task_id')
+    .eq('provider', 'heygen')
+    .eq('asset_library_id', assetId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load generation job: ${error.message}`);
+  }
+  return job;
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -24,8 +43,8 @@ serve(async (req) => {
     // Get Supabase client
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const heygenApiKey = Deno.env.get('HEYGEN_API_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
+    const user = await getAuthenticatedUser(req, supabase);
 
     // Get the asset details
     const { data: asset, error: assetError } = await supabase
@@ -38,27 +57,19 @@ serve(async (req) => {
       throw new Error('Asset not found');
     }
 
-    console.log('Asset found:', asset.title);
-    console.log('Asset description:', asset.description);
-
-    // Parse the video ID from the description
-    let videoId = null;
-    if (asset.description) {
-      // Try to find video ID in different formats
-      const videoIdMatch = asset.description.match(/video_id[:\s]+([a-f0-9-]+)/i) || 
-                          asset.description.match(/Video ID[:\s]+([a-f0-9-]+)/i) ||
-                          asset.description.match(/ID[:\s]+([a-f0-9-]+)/i);
-      if (videoIdMatch) {
-        videoId = videoIdMatch[1];
-        console.log('Found video ID from description:', videoId);
-      }
+    await requireWorkspaceRole(supabase, asset.workspace_id, user.id, ['owner', 'editor', 'viewer']);
+
+    const heygenApiKey = await resolveApiKey(supabase, asset.workspace_id, 'heygen', 'HEYGEN_API_KEY');
+    if (!heygenApiKey) {
+      throw new Error('HeyGen API key not configured');
     }
 
-    // If no video ID found in description, try to extract from callback ID or use placeholder
+    console.log('Asset found:', asset.title);
+
+    const job = await findJob(supabase, assetId);
+    const videoId = job?.provider_task_id;
     if (!videoId) {
-      // For testing, let's use a known video ID
-      videoId = "c96041171feb416fa4b08803c2b1833b"; // Use your working video ID for testing
-      console.log('Using test video ID:', videoId);
+      throw new Error('No HeyGen video is tracked for this asset');
     }
 
     // Directly get shareable URL using HeyGen share API
@@ -96,8 +107,7 @@ serve(async (req) => {
         const { error: updateError } = await supabase
           .from('asset_library')
           .update({
-            asset_url: shareableUrl,
-            description: `${asset.description} | Shareable video URL retrieved: ${new Date().toISOString()}`
+            asset_url: shareableUrl
           })
           .eq('id', assetId);
 
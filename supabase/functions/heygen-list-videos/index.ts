@@ -1,6 +1,8 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getAuthenticatedUser, requireWorkspaceRole } from '../_shared/auth.ts';
+import { resolveApiKey } from '../_shared/apiKeys.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -25,7 +27,15 @@ serve(async (req) => {
   }
 
   try {
-    const heygenApiKey = Deno.env.get('HEYGEN_API_KEY');
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const user = await getAuthenticatedUser(req, supabase);
+
+    const { action, videoIds, page = 1, limit = 20, workspaceId } = await req.json();
+    await requireWorkspaceRole(supabase, workspaceId, user.id, ['owner', 'editor']);
+
+    const heygenApiKey = await resolveApiKey(supabase, workspaceId, 'heygen', 'HEYGEN_API_KEY');
     if (!heygenApiKey) {
       return new Response(JSON.stringify({ 
         success: false, 
@@ -36,12 +46,6 @@ serve(async (req) => {
       });
     }
 
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
-
-    const { action, videoIds, page = 1, limit = 20 } = await req.json();
-
     if (action === 'list') {
       console.log('Fetching HeyGen videos list...');
       
@@ -107,14 +111,16 @@ serve(async (req) => {
           console.log(`Video ${videoId} details:`, JSON.stringify(videoData, null, 2));
 
           if (videoData.data && videoData.data.status === 'completed' && videoData.data.video_url) {
-            // Store video in our asset library
-            const { data: existingAsset } = await supabase
-              .from('asset_library')
-              .select('id')
-              .eq('original_asset_id', videoId)
-              .single();
-
-            if (!existingAsset) {
+            // Videos generated or pulled before are already tracked by a job
+            const { data: existingJob } = await supabase
+              .from('generation_jobs')
+              .select('id, asset_library_id')
+              .eq('provider', 'heygen')
+              .eq('provider_task_id', videoId)
+              .eq('workspace_id', workspaceId)
+              .maybeSingle();
+
+            if (!existingJob?.asset_library_id) {
               // Download and store the video
               let storedVideoUrl = videoData.data.video_url;
               let storedGifUrl = videoData.data.gif_download_url;
@@ -129,7 +135,7 @@ serve(async (req) => {
 
                 if (videoResponse.ok) {
                   const videoBlob = await videoResponse.blob();
-                  const videoFileName = `heygen-pulled-${videoId}-${Date.now()}.mp4`;
+                  const videoFileName = `${user.id}/heygen-pulled-${videoId}-${Date.now()}.mp4`;
                   
                   const { data: videoUpload, error: videoUploadError } = await supabase.storage
                     .from('generated-assets')
@@ -157,7 +163,7 @@ serve(async (req) => {
 
                   if (gifResponse.ok) {
                     const gifBlob = await gifResponse.blob();
-                    const gifFileName = `heygen-pulled-gif-${videoId}-${Date.now()}.gif`;
+                    const gifFileName = `${user.id}/heygen-pulled-gif-${videoId}-${Date.now()}.gif`;
                     
                     const { data: gifUpload, error: gifUploadError } = await supabase.storage
                       .from('generated-assets')
@@ -189,7 +195,8 @@ serve(async (req) => {
                   gif_url: storedGifUrl,
                   source_system: 'heygen',
                   instruction: 'Video pulled from HeyGen dashboard',
-                  original_asset_id: videoId,
+                  owner_id: user.id,
+                  workspace_id: workspaceId,
                   description: `Pulled from HeyGen | Duration: ${videoData.data.duration || 'unknown'}s | Created: ${videoData.data.created_at || 'unknown'}`
                 })
                 .select()
@@ -197,12 +204,33 @@ serve(async (req) => {
 
               if (insertError) {
                 errors.push({ videoId, error: `Database error: ${insertError.message}` });
-              } else {
-                pulledVideos.push(newAsset);
+                continue;
+              }
+
+              // Track the pulled video like one generated here
+              const job = {
+                workspace_id: workspaceId,
+                owner_id: user.id,
+                provider: 'heygen',
+                job_type: 'video',
+                status: 'succeeded',
+                progress: 1,
+                provider_task_id: videoId,
+                asset_library_id: newAsset.id,
+                result_url: storedVideoUrl,
+                completed_at: new Date().toISOString()
+              };
+              const { error: jobError } = existingJob
+                ? await supabase.from('generation_jobs').update(job).eq('id', existingJob.id)
+                : await supabase.from('generation_jobs').insert(job);
+
+              if (jobError) {
+                console.error(`Failed to record generation job for video ${videoId}:`, jobError);
               }
+              pulledVideos.push(newAsset);
             } else {
               console.log(`Video ${videoId} already exists in library`);
-              pulledVideos.push({ id: existingAsset.id, status: 'already_exists' });
+              pulledVideos.push({ id: existingJob.asset_library_id, status: 'already_exists' });
             }
           } else {
             errors.push({ videoId, error: `Video not completed or no URL available (status: ${videoData.data?.status})` });
@@ -1,12 +1,31 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getAuthenticatedUser, requireWorkspaceRole } from '../_shared/auth.ts';
+import { resolveApiKey } from '../_shared/apiKeys.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// The HeyGen job that produced a library asset
+async function findJob(supabase: SupabaseClient, assetId: string) {
+  const { data: job, error } = await supabase
+    .from('generation_jobs')
+    .select('id, provider_task_id')
+    .eq('provider', 'heygen')
+    .eq('asset_library_id', assetId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load generation job: ${error.message}`);
+  }
+  return job;
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -24,11 +43,31 @@ serve(async (req) => {
     // Get Supabase client
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const heygenApiKey = Deno.env.get('HEYGEN_API_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
+    const user = await getAuthenticatedUser(req, supabase);
+
+    const { data: asset } = await supabase
+      .from('asset_library')
+      .select('workspace_id')
+      .eq('id', assetId)
+      .single();
+
+    if (!asset) {
+      throw new Error('Asset not found');
+    }
+
+    await requireWorkspaceRole(supabase, asset.workspace_id, user.id, ['owner', 'editor']);
 
-    // Use provided video ID or default test ID
-    const targetVideoId = videoId || "c96041171feb416fa4b08803c2b1833b";
+    const heygenApiKey = await resolveApiKey(supabase, asset.workspace_id, 'heygen', 'HEYGEN_API_KEY');
+    if (!heygenApiKey) {
+      throw new Error('HeyGen API key not configured');
+    }
+
+    // Use the provided video ID, or the one the asset's generation job recorded
+    const targetVideoId = videoId || (await findJob(supabase, assetId))?.provider_task_id;
+    if (!targetVideoId) {
+      throw new Error('No HeyGen video is tracked for this asset');
+    }
     
     console.log('Getting shareable URL for video ID:', targetVideoId);
     
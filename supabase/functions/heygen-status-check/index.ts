@@ -1,19 +1,299 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getAuthenticatedUser, requireWorkspaceRole } from '../_shared/auth.ts';
+import { resolveApiKey } from '../_shared/apiKeys.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+interface HeygenJob {
+  id: string;
+  workspace_id: string;
+  asset_library_id: string | null;
+  provider_task_id: string | null;
+  callback_id: string | null;
+  progress: number;
+  stage: string | null;
+  started_at: string | null;
+  created_at: string;
+}
+
+interface HeygenVideo {
+  status: string;
+  video_url?: string;
+  gif_url?: string;
+  error?: { message?: string } | string;
+}
+
+const JOB_COLUMNS = 'id, workspace_id, asset_library_id, provider_task_id, callback_id, progress, stage, started_at, created_at';
+const BATCH_SIZE = 25;
+const TYPICAL_DURATION_SAMPLE = 10;
+
+// HeyGen only reports a status, so each one stands for a rough share of the render
+const STAGE_PROGRESS: Record<string, number> = {
+  pending: 0.1,
+  waiting: 0.2,
+  processing: 0.4
+};
+
+// The HeyGen job that produced a library asset
+async function findJob(supabase: SupabaseClient, assetId: string): Promise<HeygenJob | null> {
+  const { data: job, error } = await supabase
+    .from('generation_jobs')
+    .select(JOB_COLUMNS)
+    .eq('provider', 'heygen')
+    .eq('asset_library_id', assetId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load generation job: ${error.message}`);
+  }
+  return job;
+}
+
+// Jobs carried over from description tracking only know their callback ID
+async function findVideoIdByCallback(heygenApiKey: string, callbackId: string): Promise<string | null> {
+  const response = await fetch('https://api.heygen.com/v1/video.list', {
+    method: 'GET',
+    headers: {
+      'X-Api-Key': heygenApiKey,
+      'accept': 'application/json'
+    }
+  });
+
+  if (!response.ok) {
+    console.error('HeyGen API error:', response.status, response.statusText);
+    throw new Error('Failed to check HeyGen status');
+  }
+
+  const data = await response.json();
+  const video = data.data?.videos?.find((video: { callback_id?: string }) => video.callback_id === callbackId);
+  return video?.video_id ?? null;
+}
+
+// How long this workspace's recent HeyGen renders took, in milliseconds
+async function typicalDuration(supabase: SupabaseClient, workspaceId: string): Promise<number | null> {
+  const { data, error } = await supabase
+    .from('generation_jobs')
+    .select('started_at, created_at, completed_at')
+    .eq('provider', 'heygen')
+    .eq('workspace_id', workspaceId)
+    .eq('status', 'succeeded')
+    .not('completed_at', 'is', null)
+    .order('completed_at', { ascending: false })
+    .limit(TYPICAL_DURATION_SAMPLE);
+
+  if (error || !data?.length) return null;
+
+  const durations = data.map(job =>
+    new Date(job.completed_at!).getTime() - new Date(job.started_at || job.created_at).getTime()
+  );
+  return durations.reduce((total, duration) => total + duration, 0) / durations.length;
+}
+
+// Look up the HeyGen video ID, filling it in for jobs that only know their callback ID
+async function resolveVideoId(supabase: SupabaseClient, job: HeygenJob, heygenApiKey: string): Promise<string | null> {
+  if (!job.provider_task_id && job.callback_id) {
+    job.provider_task_id = await findVideoIdByCallback(heygenApiKey, job.callback_id);
+    if (job.provider_task_id) {
+      await supabase
+        .from('generation_jobs')
+        .update({ provider_task_id: job.provider_task_id })
+        .eq('id', job.id);
+    }
+  }
+  return job.provider_task_id;
+}
+
+async function fetchVideoStatus(heygenApiKey: string, videoId: string): Promise<HeygenVideo | null> {
+  console.log('Checking HeyGen API for video status:', videoId);
+  const heygenResponse = await fetch(`https://api.heygen.com/v1/video_status.get?video_id=${videoId}`, {
+    method: 'GET',
+    headers: {
+      'X-Api-Key': heygenApiKey,
+      'accept': 'application/json'
+    }
+  });
+
+  if (!heygenResponse.ok) {
+    console.error('HeyGen API error:', heygenResponse.status, heygenResponse.statusText);
+    throw new Error('Failed to check HeyGen status');
+  }
+
+  const heygenData = await heygenResponse.json();
+  console.log('HeyGen response:', JSON.stringify(heygenData, null, 2));
+  return heygenData.data ?? null;
+}
+
+/**
+ * Stores what HeyGen reported on the job and its library asset. Finished
+ * videos settle both; anything still rendering only moves the job's stage,
+ * estimated progress and ETA so the lists following it over Realtime update.
+ */
+async function applyVideoStatus(
+  supabase: SupabaseClient,
+  job: HeygenJob,
+  video: HeygenVideo,
+  expectedDuration: number | null
+): Promise<'completed' | 'failed' | 'processing'> {
+  if (video.status === 'completed' && video.video_url) {
+    if (job.asset_library_id) {
+      const { error: updateError } = await supabase
+        .from('asset_library')
+        .update({
+          asset_url: video.video_url,
+          gif_url: video.gif_url || null
+        })
+        .eq('id', job.asset_library_id);
+
+      if (updateError) {
+        console.error('Failed to update asset:', updateError);
+        throw updateError;
+      }
+    }
+
+    await supabase
+      .from('generation_jobs')
+      .update({
+        status: 'succeeded',
+        stage: 'completed',
+        progress: 1,
+        result_url: video.video_url,
+        error: null,
+        eta_at: null,
+        completed_at: new Date().toISOString()
+      })
+      .eq('id', job.id);
+
+    return 'completed';
+  }
+
+  if (video.status === 'failed') {
+    if (job.asset_library_id) {
+      const { error: updateError } = await supabase
+        .from('asset_library')
+        .update({ asset_url: 'failed' })
+        .eq('id', job.asset_library_id);
+
+      if (updateError) {
+        console.error('Failed to update failed asset:', updateError);
+      }
+    }
+
+    await supabase
+      .from('generation_jobs')
+      .update({
+        status: 'failed',
+        stage: 'failed',
+        error: (typeof video.error === 'string' ? video.error : video.error?.message) || 'Video failed in HeyGen',
+        eta_at: null,
+        completed_at: new Date().toISOString()
+      })
+      .eq('id', job.id);
+
+    return 'failed';
+  }
+
+  // Past renders tell us how far along this one probably is; the stage sets the floor
+  const startedAt = new Date(job.started_at || job.created_at).getTime();
+  const floor = STAGE_PROGRESS[video.status] ?? Number(job.progress);
+  const progress = expectedDuration
+    ? Math.min(Math.max((Date.now() - startedAt) / expectedDuration, floor), 0.95)
+    : floor;
+  const etaAt = expectedDuration ? new Date(Math.max(startedAt + expectedDuration, Date.now())).toISOString() : null;
+
+  await supabase
+    .from('generation_jobs')
+    .update({
+      status: 'running',
+      stage: video.status,
+      progress,
+      eta_at: etaAt
+    })
+    .eq('id', job.id);
+
+  return 'processing';
+}
+
+// Scheduled every minute: advance every HeyGen job that has not settled yet
+async function pollRunningJobs(supabase: SupabaseClient) {
+  const { data: jobs, error } = await supabase
+    .from('generation_jobs')
+    .select(JOB_COLUMNS)
+    .eq('provider', 'heygen')
+    .in('status', ['queued', 'running'])
+    .order('updated_at', { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (error) {
+    throw new Error(`Failed to load generation jobs: ${error.message}`);
+  }
+
+  console.log(`Polling ${jobs?.length || 0} HeyGen jobs`);
+
+  // Keys and typical durations are per workspace
+  const apiKeys = new Map<string, string | undefined>();
+  const durations = new Map<string, number | null>();
+  const results: Record<string, string> = {};
+  for (const job of (jobs || []) as HeygenJob[]) {
+    try {
+      if (!apiKeys.has(job.workspace_id)) {
+        apiKeys.set(job.workspace_id, await resolveApiKey(supabase, job.workspace_id, 'heygen', 'HEYGEN_API_KEY'));
+        durations.set(job.workspace_id, await typicalDuration(supabase, job.workspace_id));
+      }
+      const heygenApiKey = apiKeys.get(job.workspace_id);
+      const videoId = heygenApiKey ? await resolveVideoId(supabase, job, heygenApiKey) : null;
+      if (!heygenApiKey || !videoId) {
+        results[job.id] = 'skipped';
+        continue;
+      }
+
+      const video = await fetchVideoStatus(heygenApiKey, videoId);
+      results[job.id] = video
+        ? await applyVideoStatus(supabase, job, video, durations.get(job.workspace_id) ?? null)
+        : 'not_found';
+    } catch (jobError) {
+      console.error(`Error polling job ${job.id}:`, jobError);
+      results[job.id] = 'error';
+    }
+  }
+
+  return results;
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { assetId } = await req.json();
+    const { assetId, action } = await req.json();
+
+    // Get Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // The scheduler calls with the service role key to poll every running job
+    if (action === 'poll') {
+      if (req.headers.get('Authorization') !== `Bearer ${supabaseKey}`) {
+        throw new Error('Unauthorized');
+      }
+
+      const results = await pollRunningJobs(supabase);
+      return new Response(JSON.stringify({
+        success: true,
+        processed: Object.keys(results).length,
+        results
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
     
     if (!assetId) {
       throw new Error('Asset ID is required');
@@ -21,11 +301,7 @@ serve(async (req) => {
 
     console.log('Checking status for asset ID:', assetId);
 
-    // Get Supabase client
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const heygenApiKey = Deno.env.get('HEYGEN_API_KEY')!;
-    const supabase = createClient(supabaseUrl, supabaseKey);
+    const user = await getAuthenticatedUser(req, supabase);
 
     // Get the asset details
     const { data: asset, error: assetError } = await supabase
@@ -38,52 +314,30 @@ serve(async (req) => {
       throw new Error('Asset not found');
     }
 
-    // Parse the callback ID from the description to get the HeyGen video ID
-    let heygenVideoId = null;
-    if (asset.description) {
-      const callbackMatch = asset.description.match(/Callback: (feedgen_[^_]+_[^_]+_(\d+))/);
-      if (callbackMatch) {
-        heygenVideoId = callbackMatch[1];
-        console.log('Found HeyGen video ID from callback:', heygenVideoId);
-      }
+    await requireWorkspaceRole(supabase, asset.workspace_id, user.id, ['owner', 'editor', 'viewer']);
+
+    const heygenApiKey = await resolveApiKey(supabase, asset.workspace_id, 'heygen', 'HEYGEN_API_KEY');
+    if (!heygenApiKey) {
+      throw new Error('HeyGen API key not configured');
     }
 
-    if (!heygenVideoId) {
-      console.log('No HeyGen video ID found, keeping current status');
+    const job = await findJob(supabase, assetId);
+    const heygenVideoId = job ? await resolveVideoId(supabase, job, heygenApiKey) : null;
+
+    if (!job || !heygenVideoId) {
+      console.log('No HeyGen job tracked for asset, keeping current status');
       return new Response(JSON.stringify({ 
         success: true,
-        message: 'No HeyGen video ID found to check',
+        message: 'No HeyGen video tracked for this asset',
         status: asset.asset_url
       }), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
 
-    // Check HeyGen status using the List Videos API
-    console.log('Checking HeyGen API for video status...');
-    const heygenResponse = await fetch('https://api.heygen.com/v1/video.list', {
-      method: 'GET',
-      headers: {
-        'X-Api-Key': heygenApiKey,
-        'accept': 'application/json'
-      }
-    });
-
-    if (!heygenResponse.ok) {
-      console.error('HeyGen API error:', heygenResponse.status, heygenResponse.statusText);
-      throw new Error('Failed to check HeyGen status');
-    }
-
-    const heygenData = await heygenResponse.json();
-    console.log('HeyGen response:', JSON.stringify(heygenData, null, 2));
-
-    // Find our video in the list
-    const ourVideo = heygenData.data?.videos?.find((video: any) => 
-      video.callback_id === heygenVideoId || video.video_id === heygenVideoId
-    );
-
+    const ourVideo = await fetchVideoStatus(heygenApiKey, heygenVideoId);
     if (!ourVideo) {
-      console.log('Video not found in HeyGen list');
+      console.log('Video not found in HeyGen');
       return new Response(JSON.stringify({ 
         success: true,
         message: 'Video not found in HeyGen',
@@ -95,27 +349,10 @@ serve(async (req) => {
 
     console.log('Found video in HeyGen:', ourVideo);
 
-    // Check if the video is completed
-    if (ourVideo.status === 'completed' && ourVideo.video_url) {
-      console.log('Video is completed! Updating asset...');
-      
-      // Update the asset with the completed video URL
-      const { error: updateError } = await supabase
-        .from('asset_library')
-        .update({
-          asset_url: ourVideo.video_url,
-          gif_url: ourVideo.gif_url || null,
-          description: `${asset.description} | Manually updated: ${new Date().toISOString()}`
-        })
-        .eq('id', assetId);
-
-      if (updateError) {
-        console.error('Failed to update asset:', updateError);
-        throw updateError;
-      }
+    const status = await applyVideoStatus(supabase, job, ourVideo, await typicalDuration(supabase, job.workspace_id));
 
+    if (status === 'completed') {
       console.log('Asset updated successfully');
-      
       return new Response(JSON.stringify({ 
         success: true,
         message: 'Video completed and updated',
@@ -125,22 +362,8 @@ serve(async (req) => {
       }), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
-    } else if (ourVideo.status === 'failed') {
+    } else if (status === 'failed') {
       console.log('Video failed in HeyGen');
-      
-      // Update the asset to failed status
-      const { error: updateError } = await supabase
-        .from('asset_library')
-        .update({
-          asset_url: 'failed',
-          description: `${asset.description} | Failed in HeyGen: ${new Date().toISOString()}`
-        })
-        .eq('id', assetId);
-
-      if (updateError) {
-        console.error('Failed to update failed asset:', updateError);
-      }
-      
       return new Response(JSON.stringify({ 
         success: true,
         message: 'Video failed in HeyGen',
@@ -150,7 +373,6 @@ serve(async (req) => {
       });
     } else {
       console.log('Video still processing in HeyGen, status:', ourVideo.status);
-      
       return new Response(JSON.stringify({ 
         success: true,
         message: `Video still processing in HeyGen: ${ourVideo.status}`,
@@ -167,7 +389,7 @@ serve(async (req) => {
       error: error.message,
       timestamp: new Date().toISOString()
     }), {
-      status: 500,
+      status: error.message === 'Unauthorized' ? 401 : 500,
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   }
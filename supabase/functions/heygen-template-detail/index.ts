@@ -1,6 +1,11 @@
 
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { resolveApiKey } from '../_shared/apiKeys.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -19,7 +24,9 @@ serve(async (req) => {
       throw new Error('Template ID is required');
     }
 
-    const heygenApiKey = Deno.env.get('HEYGEN_API_KEY');
+    // Templates are listed from the platform HeyGen account
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const heygenApiKey = await resolveApiKey(supabase, null, 'heygen', 'HEYGEN_API_KEY');
     
     if (!heygenApiKey) {
       throw new Error('HeyGen API key not configured');
@@ -315,30 +322,12 @@ serve(async (req) => {
       duration: templateDuration,
       variables: extractedVariables,
       variableNames: extractedVariables,
+      // HeyGen doesn't say what a variable holds, so everything is text
+      // unless the stored variable schema says otherwise
       variableTypes: extractedVariables.reduce((acc: any, varName: string) => {
-        // Determine variable type based on name patterns
-        let varType = 'text';
-        let charLimit = 500;
-        
-        if (varName.toLowerCase().includes('image') || varName.toLowerCase().includes('photo') || varName.toLowerCase().includes('logo')) {
-          varType = 'image';
-          charLimit = 2000; // URL length
-        } else if (varName.toLowerCase().includes('price') || varName.toLowerCase().includes('discount') || varName.toLowerCase().includes('amount')) {
-          charLimit = 20; // Short text for prices
-        } else if (varName.toLowerCase().includes('name') || varName.toLowerCase().includes('title') || varName.toLowerCase().includes('brand')) {
-          charLimit = 100; // Medium length for names
-        } else if (varName.toLowerCase().includes('description') || varName.toLowerCase().includes('feature') || varName.toLowerCase().includes('benefit')) {
-          charLimit = 300; // Longer for descriptions
-        } else if (varName.toLowerCase().includes('url') || varName.toLowerCase().includes('website') || varName.toLowerCase().includes('link')) {
-          charLimit = 500; // URLs
-        } else if (varName.toLowerCase().includes('phone') || varName.toLowerCase().includes('contact')) {
-          charLimit = 50; // Contact info
-        }
-        
         acc[varName] = {
-          type: varType,
+          type: 'text',
           required: true,
-          charLimit: charLimit,
           description: `Variable for ${varName.replace(/_/g, ' ')}`
         };
         return acc;
@@ -1,6 +1,11 @@
 
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { resolveApiKey } from '../_shared/apiKeys.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -13,7 +18,9 @@ serve(async (req) => {
   }
 
   try {
-    const heygenApiKey = Deno.env.get('HEYGEN_API_KEY');
+    // Templates are listed from the platform HeyGen account
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const heygenApiKey = await resolveApiKey(supabase, null, 'heygen', 'HEYGEN_API_KEY');
     
     if (!heygenApiKey) {
       throw new Error('HeyGen API key not configured');
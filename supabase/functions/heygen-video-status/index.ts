@@ -1,12 +1,52 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getAuthenticatedUser, requireWorkspaceRole } from '../_shared/auth.ts';
+import { resolveApiKey } from '../_shared/apiKeys.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// The HeyGen job that produced a library asset
+async function findJob(supabase: SupabaseClient, assetId: string) {
+  const { data: job, error } = await supabase
+    .from('generation_jobs')
+    .select('id, provider_task_id, callback_id')
+    .eq('provider', 'heygen')
+    .eq('asset_library_id', assetId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load generation job: ${error.message}`);
+  }
+  return job;
+}
+
+// Jobs carried over from description tracking only know their callback ID
+async function findVideoIdByCallback(heygenApiKey: string, callbackId: string): Promise<string | null> {
+  const response = await fetch('https://api.heygen.com/v1/video.list', {
+    method: 'GET',
+    headers: {
+      'accept': 'application/json',
+      'x-api-key': heygenApiKey
+    }
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error('List API error:', response.status, errorText);
+    throw new Error(`List API error: ${response.status} - ${errorText}`);
+  }
+
+  const data = await response.json();
+  const video = data.data?.videos?.find((video: { callback_id?: string }) => video.callback_id === callbackId);
+  return video?.video_id ?? null;
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -24,8 +64,8 @@ serve(async (req) => {
     // Get Supabase client
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const heygenApiKey = Deno.env.get('HEYGEN_API_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
+    const user = await getAuthenticatedUser(req, supabase);
 
     // Get the asset details
     const { data: asset, error: assetError } = await supabase
@@ -38,58 +78,31 @@ serve(async (req) => {
       throw new Error('Asset not found');
     }
 
+    await requireWorkspaceRole(supabase, asset.workspace_id, user.id, ['owner', 'editor', 'viewer']);
+
+    const heygenApiKey = await resolveApiKey(supabase, asset.workspace_id, 'heygen', 'HEYGEN_API_KEY');
+    if (!heygenApiKey) {
+      throw new Error('HeyGen API key not configured');
+    }
+
     console.log('Asset found:', asset.title);
     console.log('Asset description:', asset.description);
 
-    // Since all videos are using the same fallback ID, we need to show the user what videos are available
-    // and let them manually select or we need to fix the data structure
-    
-    console.log('Asset info:', {
-      id: asset.id,
-      title: asset.title,
-      instruction: asset.instruction,
-      created_at: asset.created_at
-    });
-    
-    // For now, let's just use the most recent video from HeyGen for each asset
-    // This is a temporary solution until we can properly track video IDs
-    
-    const listResponse = await fetch('https://api.heygen.com/v1/video.list', {
-      method: 'GET',
-      headers: {
-        'accept': 'application/json',
-        'x-api-key': heygenApiKey
+    const job = await findJob(supabase, assetId);
+    if (job && !job.provider_task_id && job.callback_id) {
+      job.provider_task_id = await findVideoIdByCallback(heygenApiKey, job.callback_id);
+      if (job.provider_task_id) {
+        await supabase
+          .from('generation_jobs')
+          .update({ provider_task_id: job.provider_task_id })
+          .eq('id', job.id);
       }
-    });
-    
-    if (!listResponse.ok) {
-      const errorText = await listResponse.text();
-      console.error('List API error:', listResponse.status, errorText);
-      throw new Error(`List API error: ${listResponse.status} - ${errorText}`);
     }
-    
-    const listData = await listResponse.json();
-    console.log('Available videos:', listData.data?.videos?.length || 0);
-    
-    if (!listData.data?.videos || listData.data.videos.length === 0) {
-      throw new Error('No videos found in HeyGen account');
+
+    if (!job?.provider_task_id) {
+      throw new Error('No HeyGen video is tracked for this asset');
     }
-    
-    // Sort videos by creation time (newest first)
-    const sortedVideos = listData.data.videos.sort((a: any, b: any) => b.created_at - a.created_at);
-    
-    // For demo purposes, let's use different videos for different assets
-    // This is a workaround until we have proper video ID tracking
-    const assetIndex = parseInt(asset.id.slice(-1), 16) % sortedVideos.length;
-    const selectedVideo = sortedVideos[assetIndex];
-    
-    console.log(`Selected video ${assetIndex} for asset ${asset.title}:`, {
-      video_id: selectedVideo.video_id,
-      status: selectedVideo.status,
-      created_at: selectedVideo.created_at
-    });
-    
-    const videoId = selectedVideo.video_id;
+    const videoId = job.provider_task_id;
 
     // Use HeyGen video_status.get API
     console.log('Getting video status for video ID:', videoId);
@@ -135,7 +148,7 @@ serve(async (req) => {
           }
           
           const videoBlob = await videoResponse.arrayBuffer();
-          const fileName = `heygen-video-${videoId}-${Date.now()}.mp4`;
+          const fileName = `${user.id}/heygen-video-${videoId}-${Date.now()}.mp4`;
           
           // Store in Supabase storage
           const { data: uploadData, error: uploadError } = await supabase.storage
@@ -167,7 +180,7 @@ serve(async (req) => {
               const gifResponse = await fetch(videoData.gif_url);
               if (gifResponse.ok) {
                 const gifBlob = await gifResponse.arrayBuffer();
-                const gifFileName = `heygen-gif-${videoId}-${Date.now()}.gif`;
+                const gifFileName = `${user.id}/heygen-gif-${videoId}-${Date.now()}.gif`;
                 
                 const { data: gifUploadData, error: gifUploadError } = await supabase.storage
                   .from('generated-assets')
@@ -220,6 +233,38 @@ serve(async (req) => {
         throw updateError;
       }
 
+      // Settle the generation job once HeyGen is done with the video
+      if (videoData.status === 'completed' && updateData.asset_url) {
+        await supabase
+          .from('generation_jobs')
+          .update({
+            status: 'succeeded',
+            stage: 'completed',
+            progress: 1,
+            eta_at: null,
+            result_url: updateData.asset_url,
+            error: null,
+            completed_at: new Date().toISOString()
+          })
+          .eq('id', job.id);
+      } else if (videoData.status === 'failed') {
+        await supabase
+          .from('generation_jobs')
+          .update({
+            status: 'failed',
+            stage: 'failed',
+            eta_at: null,
+            error: videoData.error?.message || 'Video failed in HeyGen',
+            completed_at: new Date().toISOString()
+          })
+          .eq('id', job.id);
+      } else {
+        await supabase
+          .from('generation_jobs')
+          .update({ status: 'running', stage: videoData.status })
+          .eq('id', job.id);
+      }
+
       console.log('Asset updated successfully');
       
       return new Response(JSON.stringify({ 
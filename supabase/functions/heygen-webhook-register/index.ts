@@ -1,5 +1,11 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getAuthenticatedUser } from '../_shared/auth.ts';
+import { resolveApiKey } from '../_shared/apiKeys.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -12,17 +18,25 @@ serve(async (req) => {
   }
 
   try {
-    const heygenApiKey = Deno.env.get('HEYGEN_API_KEY');
-    
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // The webhook endpoint is registered on the platform HeyGen account
+    const heygenApiKey = await resolveApiKey(supabase, null, 'heygen', 'HEYGEN_API_KEY');
     if (!heygenApiKey) {
       throw new Error('HeyGen API key not configured');
     }
 
+    // Endpoint secrets are only handed to admins
+    const user = await getAuthenticatedUser(req, supabase);
+    if (user.app_metadata?.role !== 'admin') {
+      throw new Error('Only admins can manage webhook endpoints');
+    }
+
     const { action, endpointId } = await req.json();
     
     if (action === 'register') {
       // Register the webhook endpoint
-      const webhookUrl = `https://speqcclarritenwiyrzl.supabase.co/functions/v1/heygen-webhook`;
+      const webhookUrl = `${supabaseUrl}/functions/v1/heygen-webhook`;
       
       console.log('Registering webhook endpoint:', webhookUrl);
       
@@ -44,12 +58,36 @@ serve(async (req) => {
       }
 
       const data = await response.json();
-      console.log('Webhook registered successfully:', data);
+      const endpoint = data.data;
+      console.log('Webhook registered successfully:', endpoint?.endpoint_id);
+
+      if (!endpoint?.endpoint_id || !endpoint?.secret) {
+        throw new Error('HeyGen did not return an endpoint secret');
+      }
+
+      // heygen-webhook verifies signatures against this secret
+      const { error: storeError } = await supabase
+        .from('webhook_endpoints')
+        .upsert({
+          provider: 'heygen',
+          endpoint_id: endpoint.endpoint_id,
+          url: webhookUrl,
+          secret: endpoint.secret,
+          events: endpoint.events || ['avatar_video.success', 'avatar_video.fail']
+        }, { onConflict: 'provider,endpoint_id' });
+
+      if (storeError) {
+        throw new Error(`Failed to store webhook secret: ${storeError.message}`);
+      }
 
       return new Response(JSON.stringify({ 
         success: true, 
         message: 'Webhook endpoint registered successfully',
-        data
+        data: {
+          endpoint_id: endpoint.endpoint_id,
+          url: webhookUrl,
+          events: endpoint.events
+        }
       }), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
@@ -93,6 +131,12 @@ serve(async (req) => {
         throw new Error(`Failed to delete webhook: ${response.status} - ${errorText}`);
       }
 
+      await supabase
+        .from('webhook_endpoints')
+        .delete()
+        .eq('provider', 'heygen')
+        .eq('endpoint_id', endpointId);
+
       return new Response(JSON.stringify({ 
         success: true, 
         message: 'Webhook endpoint deleted successfully'
@@ -1,301 +1,613 @@
-
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getAuthenticatedUser } from '../_shared/auth.ts';
+import { toHex, timingSafeEqual, hmacSha256Hex } from '../_shared/crypto.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, signature',
 };
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
+interface HeyGenEventData {
+  video_id?: string;
+  url?: string;
+  gif_download_url?: string;
+  thumbnail_url?: string;
+  callback_id?: string;
+  msg?: string;
+  error?: string;
+}
+
+interface HeyGenEvent {
+  event_type: string;
+  event_data: HeyGenEventData;
+}
+
+interface TrackedJob {
+  id: string;
+  owner_id: string | null;
+  workspace_id: string;
+  inventory_id: string | null;
+  generated_asset_id: string | null;
+  asset_library_id: string | null;
+}
+
+interface WebhookEvent {
+  id: string;
+  status: string;
+  attempts: number;
+  payload: HeyGenEvent;
+}
+
+// HeyGen signs the raw body with the secret of the endpoint it delivers to.
+// Old endpoints may still be registered, so any stored secret is accepted.
+async function verifySignature(supabase: SupabaseClient, rawBody: string, signature: string | null): Promise<boolean> {
+  if (!signature) return false;
+
+  const { data: endpoints, error } = await supabase
+    .from('webhook_endpoints')
+    .select('secret')
+    .eq('provider', 'heygen');
+
+  if (error) {
+    throw new Error(`Failed to load webhook secrets: ${error.message}`);
+  }
+
+  const secrets = (endpoints || []).map(endpoint => endpoint.secret);
+  const envSecret = Deno.env.get('HEYGEN_WEBHOOK_SECRET');
+  if (envSecret) secrets.push(envSecret);
+
+  if (secrets.length === 0) {
+    console.error('No HeyGen webhook secret stored; register the endpoint first');
+    return false;
+  }
+
+  const expected = signature.trim().toLowerCase();
+  for (const secret of secrets) {
+    if (timingSafeEqual(await hmacSha256Hex(secret, rawBody), expected)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// HeyGen retries deliveries with the same body; one video only ever
+// succeeds or fails once, so that pair identifies the event
+async function buildEventKey(event: HeyGenEvent, rawBody: string): Promise<string> {
+  const videoId = event.event_data?.video_id;
+  if (videoId) {
+    return `${event.event_type}:${videoId}`;
+  }
+  return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(rawBody)));
+}
+
+// Record the delivery. Returns null when it was already handled.
+async function recordEvent(
+  supabase: SupabaseClient,
+  event: HeyGenEvent,
+  rawBody: string,
+  signature: string
+): Promise<WebhookEvent | null> {
+  const eventKey = await buildEventKey(event, rawBody);
+
+  const { data: inserted, error: insertError } = await supabase
+    .from('webhook_events')
+    .upsert({
+      provider: 'heygen',
+      event_key: eventKey,
+      event_type: event.event_type,
+      payload: event,
+      signature
+    }, { onConflict: 'provider,event_key', ignoreDuplicates: true })
+    .select('id, status, attempts, payload')
+    .maybeSingle();
+
+  if (insertError) {
+    throw new Error(`Failed to record webhook event: ${insertError.message}`);
+  }
+  if (inserted) return inserted;
+
+  const { data: existing, error: existingError } = await supabase
+    .from('webhook_events')
+    .select('id, status, attempts, payload')
+    .eq('provider', 'heygen')
+    .eq('event_key', eventKey)
+    .single();
+
+  if (existingError) {
+    throw new Error(`Failed to load webhook event: ${existingError.message}`);
+  }
+
+  // A retry after a failed attempt is processed again
+  if (existing.status === 'processed' || existing.status === 'ignored') {
+    console.log('Duplicate webhook delivery, already handled:', eventKey);
+    return null;
+  }
+  return existing;
+}
+
+const TRACKED_JOB_COLUMNS = 'id, owner_id, workspace_id, inventory_id, generated_asset_id, asset_library_id';
+
+// The generation job an event belongs to: by the callback ID we sent, or by
+// HeyGen's video ID for videos started before callback IDs were recorded
+async function findJob(supabase: SupabaseClient, eventData: HeyGenEventData): Promise<TrackedJob | null> {
+  const lookups: [string, string | undefined][] = [
+    ['callback_id', eventData.callback_id],
+    ['provider_task_id', eventData.video_id]
+  ];
+
+  for (const [column, value] of lookups) {
+    if (!value) continue;
+
+    const { data: job, error } = await supabase
+      .from('generation_jobs')
+      .select(TRACKED_JOB_COLUMNS)
+      .eq('provider', 'heygen')
+      .eq(column, value)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to look up generation job: ${error.message}`);
+    }
+    if (job) return job;
   }
+  return null;
+}
+
+// The library entry heygen-direct created alongside the job, if any
+async function findLibraryEntry(supabase: SupabaseClient, trackedJob: TrackedJob) {
+  const [column, value] = trackedJob.asset_library_id
+    ? ['id', trackedJob.asset_library_id]
+    : ['original_asset_id', trackedJob.generated_asset_id];
+  if (!value) return null;
+
+  const { data, error } = await supabase
+    .from('asset_library')
+    .select('*')
+    .eq(column, value)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to look up asset library entry: ${error.message}`);
+  }
+  return data;
+}
+
+async function handleVideoSuccess(supabase: SupabaseClient, eventData: HeyGenEventData, trackedJob: TrackedJob) {
+  const {
+    video_id,
+    url: video_url,
+    gif_download_url,
+    thumbnail_url,
+    callback_id
+  } = eventData;
+
+  console.log('Processing successful video generation:', {
+    video_id,
+    video_url,
+    gif_download_url,
+    thumbnail_url,
+    callback_id
+  });
+
+  // The webhook has no user session; ownership comes from the tracked generation
+  const ownerId = trackedJob.owner_id;
+  const storagePrefix = ownerId ? `${ownerId}/` : '';
+
+  if (trackedJob.generated_asset_id) {
+    console.log('Updating generated_assets table...');
+    const { error: updateAssetError } = await supabase
+      .from('generated_assets')
+      .update({
+        url: video_url
+      })
+      .eq('id', trackedJob.generated_asset_id);
+
+    if (updateAssetError) {
+      throw new Error(`Failed to update generated asset: ${updateAssetError.message}`);
+    }
+    console.log('Successfully updated generated_assets table');
+  }
+
+  // HeyGen is done; copying the video into storage is the last step
+  await supabase
+    .from('generation_jobs')
+    .update({ stage: 'webhook_received', progress: 0.95, eta_at: null })
+    .eq('id', trackedJob.id);
+
+  // Download and store the video to our storage before updating library
+  console.log('Downloading video for storage...');
+  let storedVideoUrl = video_url;
+  let storedGifUrl = gif_download_url;
 
   try {
-    const webhookData = await req.json();
-    console.log('Received HeyGen webhook:', JSON.stringify(webhookData, null, 2));
-
-    const { event_type, event_data } = webhookData;
-
-    // Get Supabase client
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const supabase = createClient(supabaseUrl, supabaseKey);
-
-    if (event_type === 'avatar_video.success') {
-      const {
-        video_id,
-        url: video_url,
-        gif_download_url,
-        video_share_page_url,
-        thumbnail_url,
-        callback_id,
-        folder_id
-      } = event_data;
-
-      console.log('Processing successful video generation:', {
-        video_id,
-        video_url,
-        gif_download_url,
-        thumbnail_url,
-        callback_id
-      });
+    // Download video
+    console.log('Fetching video from URL:', video_url);
+    const videoResponse = await fetch(video_url, {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
+      }
+    });
+    
+    console.log('Video response status:', videoResponse.status);
+    
+    if (videoResponse.ok) {
+      const videoBlob = await videoResponse.blob();
+      console.log('Video blob size:', videoBlob.size);
+      
+      const videoFileName = `${storagePrefix}heygen-video-${video_id}-${Date.now()}.mp4`;
+      
+      const { data: videoUpload, error: videoUploadError } = await supabase.storage
+        .from('generated-assets')
+        .upload(videoFileName, videoBlob, {
+          contentType: 'video/mp4',
+          upsert: true
+        });
 
-      const trackingId = callback_id || video_id;
-      console.log('Using tracking ID:', trackingId);
-
-      // Update generated_assets table
-      console.log('Updating generated_assets table...');
-      const { error: updateAssetError } = await supabase
-        .from('generated_assets')
-        .update({
-          url: video_url,
-          approved: true
-        })
-        .eq('id', trackingId);
-
-      if (updateAssetError) {
-        console.error('Failed to update generated asset:', updateAssetError);
+      if (videoUploadError) {
+        console.error('Video upload error:', videoUploadError);
       } else {
-        console.log('Successfully updated generated_assets table');
+        const { data: { publicUrl: videoPublicUrl } } = supabase.storage
+          .from('generated-assets')
+          .getPublicUrl(videoUpload.path);
+        storedVideoUrl = videoPublicUrl;
+        console.log('Video stored successfully:', videoPublicUrl);
       }
+    } else {
+      console.error('Failed to fetch video:', videoResponse.status, videoResponse.statusText);
+    }
 
-      // Download and store the video to our storage before updating library
-      console.log('Downloading video for storage...');
-      let storedVideoUrl = video_url;
-      let storedGifUrl = gif_download_url;
-
-      try {
-        // Download video
-        console.log('Fetching video from URL:', video_url);
-        const videoResponse = await fetch(video_url, {
-          headers: {
-            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-          }
-        });
+    // Download GIF if available
+    if (gif_download_url) {
+      console.log('Fetching GIF from URL:', gif_download_url);
+      const gifResponse = await fetch(gif_download_url, {
+        headers: {
+          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
+        }
+      });
+      
+      console.log('GIF response status:', gifResponse.status);
+      
+      if (gifResponse.ok) {
+        const gifBlob = await gifResponse.blob();
+        console.log('GIF blob size:', gifBlob.size);
         
-        console.log('Video response status:', videoResponse.status);
+        const gifFileName = `${storagePrefix}heygen-gif-${video_id}-${Date.now()}.gif`;
         
-        if (videoResponse.ok) {
-          const videoBlob = await videoResponse.blob();
-          console.log('Video blob size:', videoBlob.size);
-          
-          const videoFileName = `heygen-video-${video_id}-${Date.now()}.mp4`;
-          
-          const { data: videoUpload, error: videoUploadError } = await supabase.storage
-            .from('generated-assets')
-            .upload(videoFileName, videoBlob, {
-              contentType: 'video/mp4',
-              upsert: true
-            });
-
-          if (videoUploadError) {
-            console.error('Video upload error:', videoUploadError);
-          } else {
-            const { data: { publicUrl: videoPublicUrl } } = supabase.storage
-              .from('generated-assets')
-              .getPublicUrl(videoUpload.path);
-            storedVideoUrl = videoPublicUrl;
-            console.log('Video stored successfully:', videoPublicUrl);
-          }
-        } else {
-          console.error('Failed to fetch video:', videoResponse.status, videoResponse.statusText);
-        }
-
-        // Download GIF if available
-        if (gif_download_url) {
-          console.log('Fetching GIF from URL:', gif_download_url);
-          const gifResponse = await fetch(gif_download_url, {
-            headers: {
-              'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-            }
+        const { data: gifUpload, error: gifUploadError } = await supabase.storage
+          .from('generated-assets')
+          .upload(gifFileName, gifBlob, {
+            contentType: 'image/gif',
+            upsert: true
           });
-          
-          console.log('GIF response status:', gifResponse.status);
-          
-          if (gifResponse.ok) {
-            const gifBlob = await gifResponse.blob();
-            console.log('GIF blob size:', gifBlob.size);
-            
-            const gifFileName = `heygen-gif-${video_id}-${Date.now()}.gif`;
-            
-            const { data: gifUpload, error: gifUploadError } = await supabase.storage
-              .from('generated-assets')
-              .upload(gifFileName, gifBlob, {
-                contentType: 'image/gif',
-                upsert: true
-              });
-
-            if (gifUploadError) {
-              console.error('GIF upload error:', gifUploadError);
-            } else {
-              const { data: { publicUrl: gifPublicUrl } } = supabase.storage
-                .from('generated-assets')
-                .getPublicUrl(gifUpload.path);
-              storedGifUrl = gifPublicUrl;
-              console.log('GIF stored successfully:', gifPublicUrl);
-            }
-          } else {
-            console.error('Failed to fetch GIF:', gifResponse.status, gifResponse.statusText);
-          }
+
+        if (gifUploadError) {
+          console.error('GIF upload error:', gifUploadError);
+        } else {
+          const { data: { publicUrl: gifPublicUrl } } = supabase.storage
+            .from('generated-assets')
+            .getPublicUrl(gifUpload.path);
+          storedGifUrl = gifPublicUrl;
+          console.log('GIF stored successfully:', gifPublicUrl);
         }
-      } catch (downloadError) {
-        console.error('Failed to download and store assets:', downloadError);
-        console.log('Using original URLs as fallback');
+      } else {
+        console.error('Failed to fetch GIF:', gifResponse.status, gifResponse.statusText);
       }
+    }
+  } catch (downloadError) {
+    console.error('Failed to download and store assets:', downloadError);
+    console.log('Using original URLs as fallback');
+  }
 
-      // Update asset_library table with stored URLs
-      console.log('Updating asset_library table...');
-      const { data: existingLibraryEntry, error: findLibraryError } = await supabase
-        .from('asset_library')
-        .select('*')
-        .eq('original_asset_id', trackingId)
-        .single();
+  // Update asset_library table with stored URLs
+  console.log('Updating asset_library table...');
+  const existingLibraryEntry = await findLibraryEntry(supabase, trackedJob);
+  let libraryId = existingLibraryEntry?.id ?? null;
 
-      if (findLibraryError) {
-        console.log('No existing library entry found, creating new one:', findLibraryError);
-        
-        // Try to get product info for title formatting
-        let productData = null;
-        try {
-          const { data: generatedAsset } = await supabase
-            .from('generated_assets')
-            .select('inventory_id')
-            .eq('id', trackingId)
-            .single();
-            
-          if (generatedAsset?.inventory_id) {
-            const { data: product } = await supabase
-              .from('inventory')
-              .select('name, price')
-              .eq('id', generatedAsset.inventory_id)
-              .single();
-            if (product) {
-              productData = product;
-              console.log('Found product data for new library entry:', productData);
-            }
-          }
-        } catch (productError) {
-          console.log('Could not fetch product data for title formatting:', productError);
-        }
-        
-        // Format title with character limit for HeyGen compatibility
-        const maxTitleLength = 50;
-        let shortTitle = '';
-        
-        if (productData?.name) {
-          let productName = productData.name;
-          if (productName.length > 30) {
-            productName = productName.substring(0, 30) + '...';
-          }
-          
-          const priceText = productData?.price ? `$${productData.price}` : '';
-          const orientation = 'landscape';
-          
-          const parts = [productName, priceText, orientation].filter(Boolean);
-          shortTitle = parts.join(' + ');
-          
-          if (shortTitle.length > maxTitleLength) {
-            shortTitle = shortTitle.substring(0, maxTitleLength - 3) + '...';
-          }
-        } else {
-          shortTitle = `HeyGen Video - ${video_id}`;
-        }
-        
-        console.log('Creating new library entry with title:', shortTitle);
-        
-        const { data: newLibraryEntry, error: insertLibraryError } = await supabase
-          .from('asset_library')
-          .insert({
-            title: shortTitle,
-            asset_type: 'video',
-            asset_url: storedVideoUrl,
-            gif_url: storedGifUrl,
-            source_system: 'heygen',
-            instruction: 'Video generated via HeyGen webhook',
-            original_asset_id: trackingId,
-            description: `Generated HeyGen video completed (ID: ${video_id})${productData?.name ? ` (Product: ${productData.name})` : ''} | Callback: ${callback_id || 'none'}`
-          })
-          .select()
+  if (!existingLibraryEntry) {
+    console.log('No existing library entry found, creating new one');
+    
+    // Try to get product info for title formatting
+    let productData = null;
+    try {
+      if (trackedJob.inventory_id) {
+        const { data: product } = await supabase
+          .from('inventory')
+          .select('name, price')
+          .eq('id', trackedJob.inventory_id)
           .single();
-          
-        if (insertLibraryError) {
-          console.error('Failed to insert new asset library entry:', insertLibraryError);
-        } else {
-          console.log('Created new asset library entry from webhook:', newLibraryEntry);
-        }
-      } else {
-        console.log('Found existing library entry, updating with video URLs:', existingLibraryEntry);
-        
-        const { error: updateLibraryError } = await supabase
-          .from('asset_library')
-          .update({
-            asset_url: storedVideoUrl,
-            gif_url: storedGifUrl,
-            description: `${existingLibraryEntry.description || ''} | Completed: ${new Date().toISOString()}`
-          })
-          .eq('id', existingLibraryEntry.id);
-
-        if (updateLibraryError) {
-          console.error('Failed to update existing library entry:', updateLibraryError);
-        } else {
-          console.log('Successfully updated existing asset library entry');
+        if (product) {
+          productData = product;
+          console.log('Found product data for new library entry:', productData);
         }
       }
-
-    } else if (event_type === 'avatar_video.fail') {
-      const { video_id, error: generation_error, callback_id } = event_data;
+    } catch (productError) {
+      console.log('Could not fetch product data for title formatting:', productError);
+    }
+    
+    // Format title with character limit for HeyGen compatibility
+    const maxTitleLength = 50;
+    let shortTitle = '';
+    
+    if (productData?.name) {
+      let productName = productData.name;
+      if (productName.length > 30) {
+        productName = productName.substring(0, 30) + '...';
+      }
       
-      console.log('Processing failed video generation:', {
-        video_id,
-        error: generation_error,
-        callback_id
-      });
+      const priceText = productData?.price ? `$${productData.price}` : '';
+      const orientation = 'landscape';
+      
+      const parts = [productName, priceText, orientation].filter(Boolean);
+      shortTitle = parts.join(' + ');
+      
+      if (shortTitle.length > maxTitleLength) {
+        shortTitle = shortTitle.substring(0, maxTitleLength - 3) + '...';
+      }
+    } else {
+      shortTitle = `HeyGen Video - ${video_id}`;
+    }
+    
+    console.log('Creating new library entry with title:', shortTitle);
+    
+    const { data: newLibraryEntry, error: insertLibraryError } = await supabase
+      .from('asset_library')
+      .insert({
+        title: shortTitle,
+        asset_type: 'video',
+        asset_url: storedVideoUrl,
+        gif_url: storedGifUrl,
+        source_system: 'heygen',
+        instruction: 'Video generated via HeyGen webhook',
+        original_asset_id: trackedJob.generated_asset_id,
+        owner_id: ownerId,
+        workspace_id: trackedJob.workspace_id,
+        description: `Generated HeyGen video completed (ID: ${video_id})${productData?.name ? ` (Product: ${productData.name})` : ''}`
+      })
+      .select()
+      .single();
+      
+    if (insertLibraryError) {
+      throw new Error(`Failed to insert asset library entry: ${insertLibraryError.message}`);
+    }
+    console.log('Created new asset library entry from webhook:', newLibraryEntry);
+    libraryId = newLibraryEntry.id;
+  } else {
+    console.log('Found existing library entry, updating with video URLs:', existingLibraryEntry);
+    
+    const { error: updateLibraryError } = await supabase
+      .from('asset_library')
+      .update({
+        asset_url: storedVideoUrl,
+        gif_url: storedGifUrl,
+        description: `${existingLibraryEntry.description || ''} | Completed: ${new Date().toISOString()}`
+      })
+      .eq('id', existingLibraryEntry.id);
 
-      const trackingId = callback_id || video_id;
+    if (updateLibraryError) {
+      throw new Error(`Failed to update asset library entry: ${updateLibraryError.message}`);
+    }
+    console.log('Successfully updated existing asset library entry');
+  }
 
-      // Update the status to indicate failure
-      const { error: updateError } = await supabase
-        .from('generated_assets')
-        .update({
-          url: 'failed',
-          approved: false
-        })
-        .eq('id', trackingId);
+  const { error: jobUpdateError } = await supabase
+    .from('generation_jobs')
+    .update({
+      status: 'succeeded',
+      stage: 'completed',
+      progress: 1,
+      provider_task_id: video_id,
+      result_url: storedVideoUrl,
+      asset_library_id: libraryId,
+      error: null,
+      completed_at: new Date().toISOString()
+    })
+    .eq('id', trackedJob.id);
 
-      if (updateError) {
-        console.error('Failed to update failed generation:', updateError);
-      } else {
-        console.log('Updated generated_assets for failed generation');
+  if (jobUpdateError) {
+    throw new Error(`Failed to update generation job: ${jobUpdateError.message}`);
+  }
+}
+
+async function handleVideoFail(supabase: SupabaseClient, eventData: HeyGenEventData, trackedJob: TrackedJob) {
+  const { video_id, callback_id } = eventData;
+  const generationError = eventData.msg || eventData.error || 'Unknown error';
+
+  console.log('Processing failed video generation:', {
+    video_id,
+    error: generationError,
+    callback_id
+  });
+
+  const { error: jobUpdateError } = await supabase
+    .from('generation_jobs')
+    .update({
+      status: 'failed',
+      stage: 'failed',
+      provider_task_id: video_id,
+      error: generationError,
+      eta_at: null,
+      completed_at: new Date().toISOString()
+    })
+    .eq('id', trackedJob.id);
+
+  if (jobUpdateError) {
+    throw new Error(`Failed to update generation job: ${jobUpdateError.message}`);
+  }
+
+  // Update the status to indicate failure
+  if (trackedJob.generated_asset_id) {
+    const { error: updateError } = await supabase
+      .from('generated_assets')
+      .update({
+        url: 'failed'
+      })
+      .eq('id', trackedJob.generated_asset_id);
+
+    if (updateError) {
+      throw new Error(`Failed to update failed generation: ${updateError.message}`);
+    }
+    console.log('Updated generated_assets for failed generation');
+  }
+
+  // Update asset library as well
+  const libraryEntry = await findLibraryEntry(supabase, trackedJob);
+  if (libraryEntry) {
+    const { error: libraryUpdateError } = await supabase
+      .from('asset_library')
+      .update({
+        asset_url: 'failed',
+        description: `Failed HeyGen video generation: ${generationError}`
+      })
+      .eq('id', libraryEntry.id);
+
+    if (libraryUpdateError) {
+      throw new Error(`Failed to update library for failed generation: ${libraryUpdateError.message}`);
+    }
+    console.log('Updated asset library for failed generation');
+  }
+}
+
+// Apply an event to the tracked generation. Returns the final event status;
+// events that don't point at a generation we started are ignored.
+async function processEvent(supabase: SupabaseClient, event: HeyGenEvent): Promise<{ status: 'processed' | 'ignored'; note?: string }> {
+  const { event_type, event_data } = event;
+
+  if (event_type !== 'avatar_video.success' && event_type !== 'avatar_video.fail') {
+    console.log('Received unknown event type:', event_type);
+    return { status: 'ignored', note: `Unhandled event type: ${event_type}` };
+  }
+
+  const trackingId = event_data?.callback_id || event_data?.video_id;
+  console.log('Using tracking ID:', trackingId);
+  if (!trackingId) {
+    return { status: 'ignored', note: 'Event has no callback_id or video_id' };
+  }
+
+  const trackedJob = await findJob(supabase, event_data);
+  if (!trackedJob) {
+    console.log('No generation job tracked for:', trackingId);
+    return { status: 'ignored', note: `No generation job tracked for ${trackingId}` };
+  }
+
+  if (event_type === 'avatar_video.success') {
+    await handleVideoSuccess(supabase, event_data, trackedJob);
+  } else {
+    await handleVideoFail(supabase, event_data, trackedJob);
+  }
+  return { status: 'processed' };
+}
+
+// Run the event and store the outcome on its webhook_events row
+async function runStoredEvent(supabase: SupabaseClient, stored: WebhookEvent) {
+  let status: string;
+  let error: string | null = null;
+  try {
+    const result = await processEvent(supabase, stored.payload);
+    status = result.status;
+    error = result.note ?? null;
+  } catch (processError) {
+    status = 'failed';
+    error = processError.message;
+  }
+
+  const { error: updateError } = await supabase
+    .from('webhook_events')
+    .update({
+      status,
+      error,
+      attempts: stored.attempts + 1,
+      processed_at: new Date().toISOString()
+    })
+    .eq('id', stored.id);
+
+  if (updateError) {
+    console.error('Failed to update webhook event status:', updateError);
+  }
+
+  return { status, error };
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // The signature covers the exact bytes HeyGen sent, so read the raw body
+    const rawBody = await req.text();
+    const body = JSON.parse(rawBody);
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Admins replay a stored event from the dashboard with their own session
+    if (body.replayEventId) {
+      const user = await getAuthenticatedUser(req, supabase);
+      if (user.app_metadata?.role !== 'admin') {
+        return jsonResponse({ success: false, error: 'Only admins can replay webhook events' }, 403);
       }
 
-      // Update asset library as well
-      const { error: libraryUpdateError } = await supabase
-        .from('asset_library')
-        .update({
-          asset_url: 'failed',
-          description: `Failed HeyGen video generation: ${generation_error} | Callback: ${callback_id || 'none'}`
-        })
-        .eq('original_asset_id', trackingId);
-
-      if (libraryUpdateError) {
-        console.error('Failed to update library for failed generation:', libraryUpdateError);
-      } else {
-        console.log('Updated asset library for failed generation');
+      const { data: stored, error: storedError } = await supabase
+        .from('webhook_events')
+        .select('id, status, attempts, payload')
+        .eq('provider', 'heygen')
+        .eq('id', body.replayEventId)
+        .single();
+
+      if (storedError || !stored) {
+        throw new Error('Webhook event not found');
       }
-    } else {
-      console.log('Received unknown event type:', event_type);
+
+      console.log('Replaying webhook event:', stored.id);
+      const result = await runStoredEvent(supabase, stored);
+
+      return jsonResponse({
+        success: result.status !== 'failed',
+        event_id: stored.id,
+        ...result
+      });
     }
 
-    return new Response(JSON.stringify({ 
+    const signature = req.headers.get('signature');
+    if (!(await verifySignature(supabase, rawBody, signature))) {
+      console.error('Rejected HeyGen webhook with invalid signature');
+      return jsonResponse({ success: false, error: 'Invalid signature' }, 401);
+    }
+
+    const event = body as HeyGenEvent;
+    console.log('Received HeyGen webhook:', JSON.stringify(event, null, 2));
+
+    const stored = await recordEvent(supabase, event, rawBody, signature!);
+    if (!stored) {
+      return jsonResponse({
+        success: true,
+        message: 'Duplicate webhook ignored',
+        event_type: event.event_type
+      });
+    }
+
+    const result = await runStoredEvent(supabase, stored);
+    if (result.status === 'failed') {
+      // Non-2xx makes HeyGen retry; the event row keeps the error for replay
+      throw new Error(result.error ?? 'Webhook processing failed');
+    }
+
+    return jsonResponse({
       success: true,
       message: 'Webhook processed successfully',
-      event_type,
+      event_type: event.event_type,
+      status: result.status,
       processed_at: new Date().toISOString()
-    }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
 
   } catch (error) {
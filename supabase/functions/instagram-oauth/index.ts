@@ -1,6 +1,7 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getAuthenticatedUser, requireWorkspaceRole } from '../_shared/auth.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -35,7 +36,7 @@ serve(async (req) => {
   }
 
   try {
-    const { action, code, state } = await req.json();
+    const { action, code, state, workspaceId } = await req.json();
     
     // Get environment variables
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
@@ -49,6 +50,14 @@ serve(async (req) => {
     }
 
     const supabase = createClient(supabaseUrl, supabaseKey);
+    const user = await getAuthenticatedUser(req, supabase);
+    // Anyone in the workspace can check the connection, only editors can change it
+    await requireWorkspaceRole(
+      supabase,
+      workspaceId,
+      user.id,
+      action === 'check_connection' ? ['owner', 'editor', 'viewer'] : ['owner', 'editor']
+    );
 
     if (action === 'get_auth_url') {
       // Generate authorization URL
@@ -129,7 +138,8 @@ serve(async (req) => {
       const { data, error } = await supabase
         .from('user_social_connections')
         .upsert({
-          user_id: state || 'default_user', // You might want to pass actual user ID
+          user_id: user.id,
+          workspace_id: workspaceId,
           platform: 'instagram',
           platform_user_id: profileData.id,
           platform_username: profileData.username,
@@ -138,7 +148,7 @@ serve(async (req) => {
           connected_at: new Date().toISOString(),
           updated_at: new Date().toISOString()
         }, {
-          onConflict: 'user_id,platform'
+          onConflict: 'workspace_id,platform'
         });
 
       if (error) {
@@ -162,7 +172,7 @@ serve(async (req) => {
       const { data, error } = await supabase
         .from('user_social_connections')
         .delete()
-        .eq('user_id', state || 'default_user')
+        .eq('workspace_id', workspaceId)
         .eq('platform', 'instagram');
 
       if (error) {
@@ -180,8 +190,8 @@ serve(async (req) => {
     if (action === 'check_connection') {
       const { data, error } = await supabase
         .from('user_social_connections')
-        .select('*')
-        .eq('user_id', state || 'default_user')
+        .select('id, platform, platform_user_id, platform_username, platform_display_name, token_expires_at, metadata, is_active, connected_at')
+        .eq('workspace_id', workspaceId)
         .eq('platform', 'instagram')
         .single();
 
@@ -0,0 +1,322 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getAuthenticatedUser, requireWorkspaceRole } from '../_shared/auth.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const LINKEDIN_OAUTH_URL = 'https://www.linkedin.com/oauth/v2';
+const LINKEDIN_API_URL = 'https://api.linkedin.com';
+// Versioned REST API; LinkedIn supports each version for a year
+const LINKEDIN_VERSION = '202501';
+const SCOPES = ['openid', 'profile', 'r_organization_admin', 'w_organization_social'];
+// Roles that can publish as the organization
+const POSTING_ROLES = ['ADMINISTRATOR', 'CONTENT_ADMINISTRATOR'];
+
+interface LinkedInOrganization {
+  id: string;
+  name: string;
+  vanityName: string | null;
+}
+
+async function linkedInGet(path: string, accessToken: string) {
+  const response = await fetch(`${LINKEDIN_API_URL}${path}`, {
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'LinkedIn-Version': LINKEDIN_VERSION,
+      'X-Restli-Protocol-Version': '2.0.0'
+    }
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    console.error('LinkedIn API error:', data);
+    throw new Error(data.message || `LinkedIn request failed: ${response.status}`);
+  }
+  return data;
+}
+
+// Organization pages the member can post to
+async function fetchOrganizations(accessToken: string): Promise<LinkedInOrganization[]> {
+  const acls = await linkedInGet('/rest/organizationAcls?q=roleAssignee&state=APPROVED&count=100', accessToken);
+  const ids = [...new Set<string>(
+    (acls.elements || [])
+      .filter((acl: { role: string }) => POSTING_ROLES.includes(acl.role))
+      .map((acl: { organization: string }) => acl.organization.replace('urn:li:organization:', ''))
+  )];
+
+  return Promise.all(ids.map(async id => {
+    const organization = await linkedInGet(`/rest/organizations/${id}`, accessToken);
+    return {
+      id,
+      name: organization.localizedName || id,
+      vanityName: organization.vanityName || null
+    };
+  }));
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { action, code, state, redirectUri, organizationId, workspaceId } = await req.json();
+
+    // Get environment variables
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const linkedInClientId = Deno.env.get('LINKEDIN_CLIENT_ID');
+    const linkedInClientSecret = Deno.env.get('LINKEDIN_CLIENT_SECRET');
+
+    if (!linkedInClientId || !linkedInClientSecret) {
+      throw new Error('LinkedIn OAuth credentials not configured');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseKey);
+    const user = await getAuthenticatedUser(req, supabase);
+    // Anyone in the workspace can check the connection, only editors can change it
+    await requireWorkspaceRole(
+      supabase,
+      workspaceId,
+      user.id,
+      action === 'check_connection' ? ['owner', 'editor', 'viewer'] : ['owner', 'editor']
+    );
+
+    const loadConnection = async () => {
+      const { data } = await supabase
+        .from('user_social_connections')
+        .select('*')
+        .eq('workspace_id', workspaceId)
+        .eq('platform', 'linkedin')
+        .maybeSingle();
+      return data;
+    };
+
+    if (action === 'get_auth_url') {
+      if (!redirectUri) {
+        throw new Error('redirectUri is required');
+      }
+
+      const authUrl = new URL(`${LINKEDIN_OAUTH_URL}/authorization`);
+      authUrl.searchParams.set('client_id', linkedInClientId);
+      authUrl.searchParams.set('redirect_uri', redirectUri);
+      authUrl.searchParams.set('scope', SCOPES.join(' '));
+      authUrl.searchParams.set('response_type', 'code');
+      authUrl.searchParams.set('state', state || 'default_state');
+
+      return new Response(JSON.stringify({
+        success: true,
+        auth_url: authUrl.toString()
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (action === 'exchange_code') {
+      if (!code || !redirectUri) {
+        throw new Error('code and redirectUri are required');
+      }
+
+      console.log('Exchanging LinkedIn code for access token');
+
+      const tokenResponse = await fetch(`${LINKEDIN_OAUTH_URL}/accessToken`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams({
+          grant_type: 'authorization_code',
+          code,
+          redirect_uri: redirectUri,
+          client_id: linkedInClientId,
+          client_secret: linkedInClientSecret
+        })
+      });
+
+      const tokenData = await tokenResponse.json();
+      if (!tokenResponse.ok) {
+        console.error('Token exchange failed:', tokenData);
+        throw new Error(tokenData.error_description || 'Failed to exchange code for token');
+      }
+
+      const profile = await linkedInGet('/v2/userinfo', tokenData.access_token);
+      const organizations = await fetchOrganizations(tokenData.access_token);
+
+      if (organizations.length === 0) {
+        throw new Error('No LinkedIn Pages found. You need to be an admin of at least one organization Page to publish.');
+      }
+
+      // With a single organization there is nothing to choose
+      const organization = organizations.length === 1 ? organizations[0] : null;
+
+      const { error } = await supabase
+        .from('user_social_connections')
+        .upsert({
+          user_id: user.id,
+          workspace_id: workspaceId,
+          platform: 'linkedin',
+          platform_user_id: organization?.id ?? null,
+          platform_username: organization?.vanityName ?? null,
+          platform_display_name: organization?.name ?? null,
+          // Member tokens last 60 days and post on behalf of any of their organizations
+          access_token: tokenData.access_token,
+          // Refresh tokens are only issued to apps LinkedIn has approved for them
+          refresh_token: tokenData.refresh_token || null,
+          token_expires_at: new Date(Date.now() + tokenData.expires_in * 1000).toISOString(),
+          scope: tokenData.scope || SCOPES.join(' '),
+          is_active: true,
+          metadata: {
+            linkedin_member_id: profile.sub,
+            linkedin_member_name: profile.name,
+            refresh_expires_at: tokenData.refresh_token_expires_in
+              ? new Date(Date.now() + tokenData.refresh_token_expires_in * 1000).toISOString()
+              : null,
+            organizations
+          },
+          connected_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        }, {
+          onConflict: 'workspace_id,platform'
+        });
+
+      if (error) {
+        console.error('Database error:', error);
+        throw new Error('Failed to save connection');
+      }
+
+      return new Response(JSON.stringify({
+        success: true,
+        message: 'LinkedIn connected successfully',
+        user: { id: profile.sub, name: profile.name },
+        organizations,
+        organization
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (action === 'list_organizations' || action === 'select_organization') {
+      const connection = await loadConnection();
+      if (!connection?.access_token) {
+        throw new Error('LinkedIn account not connected');
+      }
+
+      const organizations = await fetchOrganizations(connection.access_token);
+
+      if (action === 'list_organizations') {
+        await supabase
+          .from('user_social_connections')
+          .update({ metadata: { ...(connection.metadata || {}), organizations } })
+          .eq('id', connection.id);
+
+        return new Response(JSON.stringify({
+          success: true,
+          organizations
+        }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+
+      const organization = organizations.find(o => o.id === organizationId);
+      if (!organization) {
+        throw new Error('That Page is not available to the connected LinkedIn account');
+      }
+
+      const { error } = await supabase
+        .from('user_social_connections')
+        .update({
+          platform_user_id: organization.id,
+          platform_username: organization.vanityName,
+          platform_display_name: organization.name,
+          metadata: { ...(connection.metadata || {}), organizations },
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', connection.id);
+
+      if (error) {
+        throw new Error('Failed to save the selected Page');
+      }
+
+      return new Response(JSON.stringify({
+        success: true,
+        organization
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (action === 'disconnect') {
+      const connection = await loadConnection();
+
+      if (connection?.access_token) {
+        await fetch(`${LINKEDIN_OAUTH_URL}/revoke`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/x-www-form-urlencoded',
+          },
+          body: new URLSearchParams({
+            client_id: linkedInClientId,
+            client_secret: linkedInClientSecret,
+            token: connection.access_token
+          })
+        }).catch(revokeError => console.error('Failed to revoke LinkedIn token:', revokeError));
+      }
+
+      const { error } = await supabase
+        .from('user_social_connections')
+        .delete()
+        .eq('workspace_id', workspaceId)
+        .eq('platform', 'linkedin');
+
+      if (error) {
+        throw new Error('Failed to disconnect');
+      }
+
+      return new Response(JSON.stringify({
+        success: true,
+        message: 'LinkedIn disconnected successfully'
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (action === 'check_connection') {
+      const connection = await loadConnection();
+      const metadata = connection?.metadata || {};
+
+      // The publish function can refresh when LinkedIn issued a refresh token
+      const tokenExpiry = connection?.refresh_token ? metadata.refresh_expires_at : connection?.token_expires_at;
+      const tokenValid = !!connection && (!tokenExpiry || new Date(tokenExpiry) > new Date());
+
+      // Connected means an organization Page has been chosen and can be published to
+      return new Response(JSON.stringify({
+        success: true,
+        connected: tokenValid && !!connection?.platform_user_id,
+        needsOrganizationSelection: tokenValid && !connection?.platform_user_id,
+        organization: connection?.platform_user_id
+          ? { id: connection.platform_user_id, name: connection.platform_display_name, vanityName: connection.platform_username }
+          : null,
+        organizations: metadata.organizations || [],
+        user: connection ? { id: metadata.linkedin_member_id, name: metadata.linkedin_member_name } : null
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    throw new Error('Invalid action');
+
+  } catch (error) {
+    console.error('LinkedIn OAuth error:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: error.message
+    }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+});
\ No newline at end of file
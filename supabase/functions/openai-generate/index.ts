@@ -1,8 +1,14 @@
 
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getAuthenticatedUser, requireWorkspaceRole } from '../_shared/auth.ts';
+import { resolveApiKey } from '../_shared/apiKeys.ts';
+import { BrandProfile, loadBrandProfile } from '../_shared/brandProfile.ts';
+import { recordUsage, releaseUsage } from '../_shared/usage.ts';
 
-const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -27,8 +33,54 @@ interface OpenAIRequest {
   channel?: string;
   assetType?: string;
   format?: string;
+  workspaceId?: string;
 }
 
+// Brand kit rendered as a prompt section
+function buildBrandGuidelines(brand: BrandProfile | null): string {
+  if (!brand) return '';
+
+  const fonts = [brand.heading_font, brand.body_font].filter(Boolean).join(' / ');
+  const lines = [
+    brand.brand_name ? `- Company: ${brand.brand_name}${brand.industry ? ` (${brand.industry})` : ''}` : '',
+    brand.target_audience ? `- Target audience: ${brand.target_audience}` : '',
+    brand.brand_voice ? `- Brand voice: ${brand.brand_voice}` : '',
+    brand.benefits.length > 0 ? `- Key brand benefits to draw on: ${brand.benefits.join('; ')}` : '',
+    brand.key_messages ? `- Messages to reinforce: ${brand.key_messages}` : '',
+    brand.visual_tone ? `- Visual tone: ${brand.visual_tone}` : '',
+    brand.color_palette.length > 0 ? `- Brand colors: ${brand.color_palette.join(', ')}` : '',
+    fonts ? `- Brand fonts: ${fonts}` : '',
+    brand.banned_words.length > 0 ? `- Never use these words or phrases: ${brand.banned_words.join(', ')}` : '',
+    brand.legal_instructions ? `- Legal requirements: ${brand.legal_instructions}` : '',
+    brand.disclaimer ? `- Where a disclaimer is appropriate, use exactly: "${brand.disclaimer}"` : ''
+  ].filter(Boolean);
+
+  if (lines.length === 0) return '';
+
+  return `\n\nBrand Guidelines (apply to everything you write):\n${lines.join('\n')}`;
+}
+
+// Generations are billed to a workspace and count against its quota, so
+// callers must be owners or editors, except the campaign worker, which calls
+// with the service role key. Returns the caller's user ID, or null for the worker.
+async function authorizeWorkspace(req: Request, supabase: SupabaseClient, workspaceId: string | undefined): Promise<string | null> {
+  if (req.headers.get('Authorization') === `Bearer ${supabaseServiceKey}`) {
+    if (!workspaceId) {
+      throw new Error('workspaceId is required');
+    }
+    return null;
+  }
+
+  const user = await getAuthenticatedUser(req, supabase);
+  await requireWorkspaceRole(supabase, workspaceId, user.id, ['owner', 'editor']);
+  return user.id;
+}
+
+// gpt-4o-mini list prices per token
+const MODEL = 'gpt-4o-mini';
+const INPUT_COST_PER_TOKEN_USD = 0.15 / 1_000_000;
+const OUTPUT_COST_PER_TOKEN_USD = 0.6 / 1_000_000;
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -36,8 +88,18 @@ serve(async (req) => {
   }
 
   try {
-    const { type, instruction, productInfo, context, channel, assetType, format }: OpenAIRequest = await req.json();
+    const { type, instruction, productInfo, context, channel, assetType, format, workspaceId }: OpenAIRequest = await req.json();
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const userId = await authorizeWorkspace(req, supabase, workspaceId);
+    const brand = await loadBrandProfile(supabase, workspaceId!);
 
+    // authorizeWorkspace has confirmed membership, so the workspace key may be used
+    const openAIApiKey = await resolveApiKey(supabase, workspaceId, 'openai', 'OPENAI_API_KEY');
     if (!openAIApiKey) {
       throw new Error('OpenAI API key not configured');
     }
@@ -89,6 +151,28 @@ Format: ${format || 'post'}
 
 Return 4-6 specific, creative instruction suggestions (one per line). Each should be actionable and tailored to the channel and product. Focus on different angles like benefits, lifestyle, social proof, urgency, education, etc.`;
 
+    } else if (type === 'marketing-content' && context?.format === 'Thread') {
+      // The publish function posts each one as a reply to the last, so they must be easy to split
+      systemPrompt = `You are a professional social media copywriter who writes high-performing X (Twitter) threads. Each post in a thread must stand on its own, stay under 280 characters, and lead the reader on to the next one.
+
+Return plain text only. Do NOT return JSON format.`;
+
+      userPrompt = `Write an X thread based on this instruction: "${instruction}"
+
+Product Details:
+- Name: ${productInfo?.name || 'Product'}
+${productInfo?.brand ? `- Brand: ${productInfo.brand}` : ''}
+${productInfo?.category ? `- Category: ${productInfo.category}` : ''}
+${productInfo?.description ? `- Description: ${productInfo.description}` : ''}
+
+Rules:
+- Write 3 to 7 posts, each at most 280 characters including numbering and hashtags
+- Start each post with its position, like "1/5"
+- Open with a hook and end with a clear call to action
+- Use at most 2 hashtags, in the last post only
+- Put a line containing only --- between posts
+- No headings, labels or commentary outside the posts`;
+
     } else if (type === 'marketing-content') {
       // Detect the channel/platform from the instruction
       let platformContext = '';
@@ -176,8 +260,25 @@ Return as JSON with this structure:
 }`;
     }
 
+    systemPrompt += buildBrandGuidelines(brand);
+
     console.log(`Sending to OpenAI - Type: ${type}, System: ${systemPrompt.substring(0, 100)}...`);
 
+    // Reserve against the quota with a worst-case estimate (about 4 characters a token),
+    // then settle on the token counts OpenAI reports
+    const maxTokens = type === 'marketing-suggestions' ? 600 : 500;
+    const estimatedInputTokens = Math.ceil((systemPrompt.length + userPrompt.length) / 4);
+    const usageId = await recordUsage(supabase, {
+      workspaceId: workspaceId!,
+      userId,
+      provider: 'openai',
+      usageType: 'text',
+      units: estimatedInputTokens + maxTokens,
+      unit: 'tokens',
+      estimatedCostUsd: estimatedInputTokens * INPUT_COST_PER_TOKEN_USD + maxTokens * OUTPUT_COST_PER_TOKEN_USD,
+      metadata: { model: MODEL, type }
+    });
+
     const response = await fetch('https://api.openai.com/v1/chat/completions', {
       method: 'POST',
       headers: {
@@ -185,17 +286,18 @@ Return as JSON with this structure:
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
-        model: 'gpt-4o-mini',
+        model: MODEL,
         messages: [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: userPrompt }
         ],
         temperature: type === 'marketing-suggestions' ? 0.8 : 0.7,
-        max_tokens: type === 'marketing-suggestions' ? 600 : 500,
+        max_tokens: maxTokens,
       }),
     });
 
     if (!response.ok) {
+      await releaseUsage(supabase, usageId);
       const errorData = await response.json();
       throw new Error(`OpenAI API error: ${errorData.error?.message || 'Unknown error'}`);
     }
@@ -203,6 +305,18 @@ Return as JSON with this structure:
     const data = await response.json();
     const result = data.choices[0].message.content;
 
+    if (data.usage) {
+      await supabase
+        .from('usage_events')
+        .update({
+          units: data.usage.total_tokens,
+          estimated_cost_usd: data.usage.prompt_tokens * INPUT_COST_PER_TOKEN_USD +
+            data.usage.completion_tokens * OUTPUT_COST_PER_TOKEN_USD,
+          metadata: { model: MODEL, type, prompt_tokens: data.usage.prompt_tokens, completion_tokens: data.usage.completion_tokens }
+        })
+        .eq('id', usageId);
+    }
+
     console.log(`OpenAI ${type} request completed successfully. Result length: ${result.length} characters`);
 
     return new Response(JSON.stringify({ 
@@ -215,6 +329,17 @@ Return as JSON with this structure:
 
   } catch (error) {
     console.error('Error in openai-generate function:', error);
+
+    // Hitting the plan limit is an expected outcome, so the message goes back as data
+    if (error.name === 'QuotaExceeded') {
+      return new Response(JSON.stringify({
+        success: false,
+        quota_exceeded: true,
+        error: error.message
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
     return new Response(JSON.stringify({ 
       success: false, 
       error: error.message 
@@ -1,13 +1,56 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getAuthenticatedUser, requireWorkspaceRole } from '../_shared/auth.ts';
+import { resolveApiKey } from '../_shared/apiKeys.ts';
+import { BrandProfile, loadBrandProfile } from '../_shared/brandProfile.ts';
 
-const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Brand kit rendered as a prompt section
+function buildBrandGuidelines(brand: BrandProfile | null): string {
+  if (!brand) return '';
+
+  const fonts = [brand.heading_font, brand.body_font].filter(Boolean).join(' / ');
+  const lines = [
+    brand.brand_name ? `- Company: ${brand.brand_name}${brand.industry ? ` (${brand.industry})` : ''}` : '',
+    brand.target_audience ? `- Target audience: ${brand.target_audience}` : '',
+    brand.brand_voice ? `- Brand voice: ${brand.brand_voice}` : '',
+    brand.benefits.length > 0 ? `- Key brand benefits to draw on: ${brand.benefits.join('; ')}` : '',
+    brand.key_messages ? `- Messages to reinforce: ${brand.key_messages}` : '',
+    brand.visual_tone ? `- Visual tone: ${brand.visual_tone}` : '',
+    brand.color_palette.length > 0 ? `- Brand colors: ${brand.color_palette.join(', ')}` : '',
+    fonts ? `- Brand fonts: ${fonts}` : '',
+    brand.banned_words.length > 0 ? `- Never use these words or phrases: ${brand.banned_words.join(', ')}` : '',
+    brand.legal_instructions ? `- Legal requirements: ${brand.legal_instructions}` : '',
+    brand.disclaimer ? `- Where a disclaimer is appropriate, use exactly: "${brand.disclaimer}"` : ''
+  ].filter(Boolean);
+
+  if (lines.length === 0) return '';
+
+  return `\n\nBrand Guidelines (apply to everything you write):\n${lines.join('\n')}`;
+}
+
+// Brand kits are workspace data: callers must be members, except the campaign
+// worker, which calls with the service role key
+async function resolveBrandProfile(req: Request, workspaceId: string | undefined): Promise<BrandProfile | null> {
+  if (!workspaceId || !supabaseUrl || !supabaseServiceKey) return null;
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+  if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+    const user = await getAuthenticatedUser(req, supabase);
+    await requireWorkspaceRole(supabase, workspaceId, user.id, ['owner', 'editor', 'viewer']);
+  }
+
+  return loadBrandProfile(supabase, workspaceId);
+}
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -15,8 +58,12 @@ serve(async (req) => {
   }
 
   try {
-    const { product, templateVariables } = await req.json();
+    const { product, templateVariables, workspaceId } = await req.json();
+
+    const brand = await resolveBrandProfile(req, workspaceId);
 
+    // resolveBrandProfile has confirmed membership, so the workspace key may be used
+    const openAIApiKey = await resolveApiKey(createClient(supabaseUrl!, supabaseServiceKey!), workspaceId, 'openai', 'OPENAI_API_KEY');
     if (!openAIApiKey) {
       throw new Error('OpenAI API key not configured');
     }
@@ -70,7 +117,7 @@ Example:
       body: JSON.stringify({
         model: 'gpt-4o-mini',
         messages: [
-          { role: 'system', content: 'You are a marketing copywriter that creates concise, compelling video content. Always respond with valid JSON.' },
+          { role: 'system', content: `You are a marketing copywriter that creates concise, compelling video content. Always respond with valid JSON.${buildBrandGuidelines(brand)}` },
           { role: 'user', content: prompt }
         ],
         temperature: 0.7,
@@ -0,0 +1,201 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getAuthenticatedUser, requireWorkspaceRole } from '../_shared/auth.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const PINTEREST_API_URL = 'https://api.pinterest.com/v5';
+const SCOPES = ['user_accounts:read', 'boards:read', 'pins:read', 'pins:write'];
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { action, code, state, redirectUri, workspaceId } = await req.json();
+
+    // Get environment variables
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const pinterestAppId = Deno.env.get('PINTEREST_APP_ID');
+    const pinterestAppSecret = Deno.env.get('PINTEREST_APP_SECRET');
+
+    if (!pinterestAppId || !pinterestAppSecret) {
+      throw new Error('Pinterest OAuth credentials not configured');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseKey);
+    const user = await getAuthenticatedUser(req, supabase);
+    // Anyone in the workspace can check the connection, only editors can change it
+    await requireWorkspaceRole(
+      supabase,
+      workspaceId,
+      user.id,
+      action === 'check_connection' ? ['owner', 'editor', 'viewer'] : ['owner', 'editor']
+    );
+
+    if (action === 'get_auth_url') {
+      if (!redirectUri) {
+        throw new Error('redirectUri is required');
+      }
+
+      const authUrl = new URL('https://www.pinterest.com/oauth/');
+      authUrl.searchParams.set('client_id', pinterestAppId);
+      authUrl.searchParams.set('redirect_uri', redirectUri);
+      authUrl.searchParams.set('scope', SCOPES.join(','));
+      authUrl.searchParams.set('response_type', 'code');
+      authUrl.searchParams.set('state', state || 'default_state');
+
+      return new Response(JSON.stringify({
+        success: true,
+        auth_url: authUrl.toString()
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (action === 'exchange_code') {
+      if (!code || !redirectUri) {
+        throw new Error('code and redirectUri are required');
+      }
+
+      console.log('Exchanging Pinterest code for access token');
+
+      const tokenResponse = await fetch(`${PINTEREST_API_URL}/oauth/token`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Basic ${btoa(`${pinterestAppId}:${pinterestAppSecret}`)}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams({
+          grant_type: 'authorization_code',
+          code,
+          redirect_uri: redirectUri
+        })
+      });
+
+      const tokenData = await tokenResponse.json();
+      if (!tokenResponse.ok) {
+        console.error('Token exchange failed:', tokenData);
+        throw new Error(tokenData.message || 'Failed to exchange code for token');
+      }
+
+      const accountResponse = await fetch(`${PINTEREST_API_URL}/user_account`, {
+        headers: {
+          'Authorization': `Bearer ${tokenData.access_token}`
+        }
+      });
+
+      const account = await accountResponse.json();
+      if (!accountResponse.ok) {
+        console.error('User account request failed:', account);
+        throw new Error(account.message || 'Failed to get Pinterest account information');
+      }
+
+      const { error } = await supabase
+        .from('user_social_connections')
+        .upsert({
+          user_id: user.id,
+          workspace_id: workspaceId,
+          platform: 'pinterest',
+          platform_user_id: account.id || account.username,
+          platform_username: account.username,
+          platform_display_name: account.business_name || account.username,
+          access_token: tokenData.access_token,
+          refresh_token: tokenData.refresh_token || null,
+          // Access tokens last 30 days; the publish function refreshes them
+          token_expires_at: new Date(Date.now() + tokenData.expires_in * 1000).toISOString(),
+          scope: tokenData.scope || SCOPES.join(','),
+          is_active: true,
+          metadata: {
+            account_type: account.account_type || null,
+            profile_image: account.profile_image || null,
+            refresh_expires_at: tokenData.refresh_token_expires_in
+              ? new Date(Date.now() + tokenData.refresh_token_expires_in * 1000).toISOString()
+              : null
+          },
+          connected_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        }, {
+          onConflict: 'workspace_id,platform'
+        });
+
+      if (error) {
+        console.error('Database error:', error);
+        throw new Error('Failed to save connection');
+      }
+
+      return new Response(JSON.stringify({
+        success: true,
+        message: 'Pinterest connected successfully',
+        user: {
+          id: account.id || account.username,
+          username: account.username
+        }
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (action === 'disconnect') {
+      const { error } = await supabase
+        .from('user_social_connections')
+        .delete()
+        .eq('workspace_id', workspaceId)
+        .eq('platform', 'pinterest');
+
+      if (error) {
+        throw new Error('Failed to disconnect');
+      }
+
+      return new Response(JSON.stringify({
+        success: true,
+        message: 'Pinterest disconnected successfully'
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (action === 'check_connection') {
+      const { data: connection } = await supabase
+        .from('user_social_connections')
+        .select('platform_user_id, platform_username, metadata')
+        .eq('workspace_id', workspaceId)
+        .eq('platform', 'pinterest')
+        .eq('is_active', true)
+        .maybeSingle();
+
+      // The publish function refreshes the access token, so only an expired refresh token disconnects
+      const refreshExpiresAt = connection?.metadata?.refresh_expires_at;
+      const connected = !!connection && (!refreshExpiresAt || new Date(refreshExpiresAt) > new Date());
+
+      return new Response(JSON.stringify({
+        success: true,
+        connected,
+        user: connected ? {
+          id: connection.platform_user_id,
+          username: connection.platform_username
+        } : null
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    throw new Error('Invalid action');
+
+  } catch (error) {
+    console.error('Pinterest OAuth error:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: error.message
+    }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+});
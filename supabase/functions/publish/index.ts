@@ -0,0 +1,466 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getProvider, providers } from './providers/index.ts';
+import { expiresWithin } from './providers/shared.ts';
+import { Publication, PublishMedia, PublishOutcome, PublishRequest, SocialConnection } from './providers/types.ts';
+import { getAuthenticatedUser, requireWorkspaceRole } from '../_shared/auth.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const SYNC_BATCH = 20;
+const METRICS_BATCH = 25;
+// Posts stop being tracked once engagement has settled
+const METRICS_WINDOW_DAYS = 90;
+// Cron runs every 30 minutes, so renew anything that would expire before the run after next
+const REFRESH_AHEAD = 60 * 60 * 1000;
+
+// Columns a provider outcome sets on its publication; fields the provider
+// left out keep their current value
+function outcomeColumns(outcome: PublishOutcome) {
+  const columns: Record<string, unknown> = {
+    status: outcome.status,
+    error: outcome.error ?? null
+  };
+  if (outcome.externalId !== undefined) columns.external_id = outcome.externalId;
+  if (outcome.trackingId !== undefined) columns.tracking_id = outcome.trackingId;
+  if (outcome.url !== undefined) columns.url = outcome.url;
+  if (outcome.status === 'published') columns.published_at = new Date().toISOString();
+  return columns;
+}
+
+// Ask the network how a processing publication is going and record any change
+async function refreshPublication(supabase: SupabaseClient, publication: Publication) {
+  const provider = getProvider(publication.platform);
+  if (!provider.getStatus) {
+    return publication;
+  }
+
+  const connection = await provider.refresh(supabase, await provider.connect(supabase, publication.workspace_id));
+  const outcome = await provider.getStatus(connection, publication);
+  if (!outcome) {
+    return publication;
+  }
+
+  const { data: updated } = await supabase
+    .from('publications')
+    .update(outcomeColumns(outcome))
+    .eq('id', publication.id)
+    .select()
+    .single();
+
+  return updated ?? publication;
+}
+
+// The product an asset was generated for, via asset_library.original_asset_id
+async function resolveInventoryId(supabase: SupabaseClient, assetId: string | null | undefined) {
+  if (!assetId) return null;
+
+  const { data: asset } = await supabase
+    .from('asset_library')
+    .select('original_asset_id')
+    .eq('id', assetId)
+    .maybeSingle();
+
+  if (!asset?.original_asset_id) return null;
+
+  const { data: generated } = await supabase
+    .from('generated_assets')
+    .select('inventory_id')
+    .eq('id', asset.original_asset_id)
+    .maybeSingle();
+
+  return generated?.inventory_id ?? null;
+}
+
+// What gets posted for a library entry or generated asset comes from its row,
+// never from the request, so an approved asset id can't carry other media
+async function resolveAssetMedia(
+  supabase: SupabaseClient,
+  workspaceId: string,
+  assetId: string | null | undefined,
+  generatedAssetId: string | null | undefined
+): Promise<PublishMedia[] | null> {
+  if (assetId) {
+    const { data: asset } = await supabase
+      .from('asset_library')
+      .select('asset_url, asset_type')
+      .eq('id', assetId)
+      .eq('workspace_id', workspaceId)
+      .maybeSingle();
+
+    if (!asset) {
+      throw new Error('Asset not found');
+    }
+    return [{ url: asset.asset_url, type: asset.asset_type === 'video' ? 'video' : 'image' }];
+  }
+
+  if (generatedAssetId) {
+    const { data: generated } = await supabase
+      .from('generated_assets')
+      .select('url, asset_type')
+      .eq('id', generatedAssetId)
+      .eq('workspace_id', workspaceId)
+      .maybeSingle();
+
+    if (!generated) {
+      throw new Error('Asset not found');
+    }
+    return [{ url: generated.url, type: generated.asset_type === 'video' ? 'video' : 'image' }];
+  }
+
+  return null;
+}
+
+// Pull the latest engagement numbers for published posts, oldest sync first
+async function syncMetrics(supabase: SupabaseClient) {
+  const platforms = Object.values(providers).filter(provider => provider.getMetrics).map(provider => provider.platform);
+  const since = new Date(Date.now() - METRICS_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  const { data: publications } = await supabase
+    .from('publications')
+    .select('*')
+    .eq('status', 'published')
+    .in('platform', platforms)
+    .not('external_id', 'is', null)
+    .gte('published_at', since)
+    .order('metrics_synced_at', { ascending: true, nullsFirst: true })
+    .limit(METRICS_BATCH);
+
+  // Several posts usually share a connection, so load and refresh each once
+  const connections = new Map<string, Promise<SocialConnection>>();
+  let synced = 0;
+
+  for (const publication of publications || []) {
+    const provider = getProvider(publication.platform);
+    const key = `${publication.workspace_id}:${publication.platform}`;
+
+    try {
+      if (!connections.has(key)) {
+        connections.set(key, provider.connect(supabase, publication.workspace_id)
+          .then(connection => provider.refresh(supabase, connection)));
+      }
+      const snapshot = await provider.getMetrics!(await connections.get(key)!, publication);
+
+      await supabase.from('publication_metrics').insert({
+        publication_id: publication.id,
+        workspace_id: publication.workspace_id,
+        ...snapshot.metrics,
+        raw: snapshot.raw
+      });
+
+      await supabase
+        .from('publications')
+        .update({
+          metrics: snapshot.metrics,
+          metrics_synced_at: new Date().toISOString(),
+          ...(snapshot.url && !publication.url ? { url: snapshot.url } : {})
+        })
+        .eq('id', publication.id);
+      synced++;
+    } catch (error) {
+      console.error(`Failed to sync metrics for publication ${publication.id}:`, error);
+      // Move it to the back of the queue so one bad post doesn't block the rest
+      await supabase
+        .from('publications')
+        .update({ metrics_synced_at: new Date().toISOString() })
+        .eq('id', publication.id);
+    }
+  }
+
+  return { checked: publications?.length || 0, synced };
+}
+
+// Renew tokens before they expire and flag connections that can no longer be
+// renewed, so the workspace is asked to reconnect before scheduled posts fail
+async function refreshConnections(supabase: SupabaseClient) {
+  const { data: connections } = await supabase
+    .from('user_social_connections')
+    .select('id, platform, platform_user_id, platform_username, access_token, refresh_token, token_expires_at, metadata, health_status')
+    .eq('is_active', true)
+    .in('platform', Object.keys(providers))
+    .not('access_token', 'is', null)
+    .not('token_expires_at', 'is', null);
+
+  let refreshed = 0;
+  let unhealthy = 0;
+
+  for (const connection of connections || []) {
+    const provider = getProvider(connection.platform);
+    let healthError: string | null = null;
+
+    try {
+      const renewed = await provider.refresh(supabase, connection, REFRESH_AHEAD);
+      if (renewed.access_token !== connection.access_token) {
+        refreshed++;
+      } else if (expiresWithin(renewed, REFRESH_AHEAD)) {
+        // Some networks hand back the old token when renewal fails
+        healthError = `${provider.name} access token could not be renewed. Please reconnect your account.`;
+      }
+    } catch (error) {
+      console.error(`Failed to refresh ${connection.platform} connection ${connection.id}:`, error);
+      healthError = error.message;
+    }
+
+    if (healthError) unhealthy++;
+
+    // A renewed token resets health in the database, so only record failures and recoveries here
+    await supabase
+      .from('user_social_connections')
+      .update({
+        health_checked_at: new Date().toISOString(),
+        ...(healthError
+          ? { health_status: 'needs_reconnect', health_error: healthError }
+          : connection.health_status !== 'healthy' ? { health_status: 'healthy', health_error: null } : {})
+      })
+      .eq('id', connection.id);
+  }
+
+  return { checked: connections?.length || 0, refreshed, unhealthy };
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const {
+      action = 'publish',
+      workspaceId,
+      platform,
+      assetId,
+      generatedAssetId,
+      scheduledPostId,
+      createdBy,
+      media = [],
+      text = '',
+      title = '',
+      tags = [],
+      link = '',
+      options = {},
+      publicationId
+    } = await req.json();
+
+    // Get Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const isServiceCall = req.headers.get('Authorization') === `Bearer ${supabaseKey}`;
+
+    // Cron polls every publication a network is still processing
+    if (action === 'sync_pending') {
+      if (!isServiceCall) {
+        throw new Error('Unauthorized');
+      }
+
+      const { data: pending } = await supabase
+        .from('publications')
+        .select('*')
+        .eq('status', 'processing')
+        .order('created_at', { ascending: true })
+        .limit(SYNC_BATCH);
+
+      let settled = 0;
+      for (const publication of pending || []) {
+        try {
+          const updated = await refreshPublication(supabase, publication);
+          if (updated.status !== 'processing') settled++;
+        } catch (error) {
+          console.error(`Failed to check publication ${publication.id}:`, error);
+        }
+      }
+
+      return new Response(JSON.stringify({
+        success: true,
+        checked: pending?.length || 0,
+        settled
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Cron keeps access tokens fresh and records which connections need reconnecting
+    if (action === 'refresh_connections') {
+      if (!isServiceCall) {
+        throw new Error('Unauthorized');
+      }
+
+      const result = await refreshConnections(supabase);
+
+      return new Response(JSON.stringify({
+        success: true,
+        ...result
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Cron pulls engagement numbers for recent posts
+    if (action === 'sync_metrics') {
+      if (!isServiceCall) {
+        throw new Error('Unauthorized');
+      }
+
+      const result = await syncMetrics(supabase);
+
+      return new Response(JSON.stringify({
+        success: true,
+        ...result
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    // The social scheduler publishes due posts with the service role key
+    let userId: string | null = isServiceCall ? createdBy ?? null : null;
+    if (!isServiceCall) {
+      const user = await getAuthenticatedUser(req, supabase);
+      await requireWorkspaceRole(
+        supabase,
+        workspaceId,
+        user.id,
+        action === 'status' ? ['owner', 'editor', 'viewer'] : ['owner', 'editor']
+      );
+      userId = user.id;
+    }
+
+    if (action === 'status') {
+      const { data: publication } = await supabase
+        .from('publications')
+        .select('*')
+        .eq('id', publicationId)
+        .eq('workspace_id', workspaceId)
+        .maybeSingle();
+
+      if (!publication) {
+        throw new Error('Publication not found');
+      }
+
+      const current = publication.status === 'processing'
+        ? await refreshPublication(supabase, publication)
+        : publication;
+
+      return new Response(JSON.stringify({
+        success: true,
+        publication: current
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    const provider = getProvider(platform);
+
+    // Account-specific choices, such as Pinterest boards or TikTok privacy levels
+    if (action === 'options') {
+      if (!provider.getOptions) {
+        throw new Error(`${provider.name} has no publishing options`);
+      }
+
+      const connection = await provider.refresh(supabase, await provider.connect(supabase, workspaceId));
+      const providerOptions = await provider.getOptions(connection);
+
+      return new Response(JSON.stringify({
+        success: true,
+        ...providerOptions
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (action !== 'publish') {
+      throw new Error('Invalid action');
+    }
+
+    // Media from the request is only used for uploads that aren't assets,
+    // which can_publish_asset refuses in workspaces that require approval
+    const assetMedia = await resolveAssetMedia(supabase, workspaceId, assetId, generatedAssetId);
+    const request: PublishRequest = {
+      media: assetMedia ?? (media as { url?: string; type?: string }[])
+        .filter(item => item?.url)
+        .map(item => ({ url: item.url!, type: item.type === 'video' ? 'video' : 'image' })),
+      text,
+      title,
+      tags,
+      link,
+      options
+    };
+    provider.validateMedia(request);
+
+    // Workspaces that require approval only publish assets that passed review
+    const { data: cleared, error: approvalError } = await supabase.rpc('can_publish_asset', {
+      p_workspace_id: workspaceId,
+      p_library_asset_id: assetId ?? null,
+      p_generated_asset_id: generatedAssetId ?? null
+    });
+    if (approvalError) {
+      throw new Error(`Failed to check asset approval: ${approvalError.message}`);
+    }
+    if (!cleared) {
+      return new Response(JSON.stringify({
+        success: false,
+        approval_required: true,
+        error: 'This workspace only publishes approved assets. Submit the asset for review first.'
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    let outcome: PublishOutcome;
+    try {
+      const connection = await provider.refresh(supabase, await provider.connect(supabase, workspaceId));
+
+      console.log(`Publishing to ${provider.name} for workspace:`, workspaceId);
+      outcome = await provider.publish(connection, request);
+    } catch (error) {
+      console.error(`${provider.name} publishing error:`, error);
+      outcome = { status: 'failed', message: error.message, error: error.message };
+    }
+
+    // Failures are recorded too, so every attempt shows up in the history
+    const { data: publication, error: insertError } = await supabase
+      .from('publications')
+      .insert({
+        workspace_id: workspaceId,
+        created_by: userId,
+        platform: provider.platform,
+        asset_id: assetId ?? null,
+        inventory_id: await resolveInventoryId(supabase, assetId),
+        scheduled_post_id: scheduledPostId ?? null,
+        media: request.media,
+        text,
+        title: title || null,
+        options,
+        ...outcomeColumns(outcome)
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      console.error('Failed to record publication:', insertError);
+    }
+
+    return new Response(JSON.stringify({
+      success: outcome.status !== 'failed',
+      message: outcome.message,
+      error: outcome.error ?? undefined,
+      publication
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Publish error:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: error.message
+    }), {
+      status: error.message === 'Unauthorized' ? 401 : 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+});
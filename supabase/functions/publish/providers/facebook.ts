@@ -0,0 +1,110 @@
+import { PublishProvider } from './types.ts';
+import { loadConnection } from './shared.ts';
+
+const GRAPH_URL = 'https://graph.facebook.com/v18.0';
+// Videos are uploaded through the dedicated video host
+const GRAPH_VIDEO_URL = 'https://graph-video.facebook.com/v18.0';
+
+async function graphPost(url: string, body: Record<string, unknown>) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body)
+  });
+
+  const data = await response.json();
+  if (!response.ok || data.error) {
+    console.error('Facebook Graph API error:', data);
+    throw new Error(data.error?.message || `Facebook request failed: ${response.status}`);
+  }
+  return data;
+}
+
+export const facebook: PublishProvider = {
+  platform: 'facebook',
+  name: 'Facebook',
+
+  async connect(supabase, workspaceId) {
+    const connection = await loadConnection(supabase, workspaceId, 'facebook', 'Facebook');
+    if (!connection.platform_user_id) {
+      throw new Error('Select a Facebook Page to publish to before posting');
+    }
+    return connection;
+  },
+
+  // Page tokens obtained from a long-lived user token do not expire
+  refresh: async (_supabase, connection) => connection,
+
+  validateMedia(request) {
+    const videos = request.media.filter(media => media.type === 'video');
+    if (videos.length > 0 && request.media.length > 1) {
+      throw new Error('Facebook posts can have one video or several photos, not both');
+    }
+    if (request.media.length === 0 && !request.text && !request.link) {
+      throw new Error('Missing required fields: text, link or media');
+    }
+  },
+
+  async publish(connection, request) {
+    const pageId = connection.platform_user_id;
+    const pageToken = connection.access_token;
+    const { media, text: message } = request;
+
+    let postId: string;
+
+    if (media.length === 1 && media[0].type === 'video') {
+      const data = await graphPost(`${GRAPH_VIDEO_URL}/${pageId}/videos`, {
+        file_url: media[0].url,
+        description: message,
+        title: request.title || undefined,
+        access_token: pageToken
+      });
+      postId = data.id;
+
+    } else if (media.length === 1) {
+      const data = await graphPost(`${GRAPH_URL}/${pageId}/photos`, {
+        url: media[0].url,
+        caption: message,
+        access_token: pageToken
+      });
+      // Photos return both the photo id and the feed story id
+      postId = data.post_id || data.id;
+
+    } else if (media.length > 1) {
+      // Upload each photo unpublished, then attach them all to one feed post
+      const mediaIds: string[] = [];
+      for (const photo of media) {
+        const data = await graphPost(`${GRAPH_URL}/${pageId}/photos`, {
+          url: photo.url,
+          published: false,
+          access_token: pageToken
+        });
+        mediaIds.push(data.id);
+      }
+
+      const data = await graphPost(`${GRAPH_URL}/${pageId}/feed`, {
+        message,
+        attached_media: mediaIds.map(id => ({ media_fbid: id })),
+        access_token: pageToken
+      });
+      postId = data.id;
+
+    } else {
+      const data = await graphPost(`${GRAPH_URL}/${pageId}/feed`, {
+        message,
+        link: request.link || undefined,
+        access_token: pageToken
+      });
+      postId = data.id;
+    }
+
+    return {
+      status: 'published',
+      message: 'Post published successfully to Facebook',
+      externalId: postId,
+      url: `https://www.facebook.com/${postId}`
+    };
+  }
+};
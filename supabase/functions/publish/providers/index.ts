@@ -0,0 +1,23 @@
+import { PublishProvider } from './types.ts';
+import { facebook } from './facebook.ts';
+import { instagram } from './instagram.ts';
+import { linkedin } from './linkedin.ts';
+import { pinterest } from './pinterest.ts';
+import { tiktok } from './tiktok.ts';
+import { twitter } from './twitter.ts';
+import { youtube } from './youtube.ts';
+
+// Keyed by user_social_connections.platform
+export const providers: Record<string, PublishProvider> = Object.fromEntries(
+  [facebook, instagram, linkedin, pinterest, tiktok, twitter, youtube].map(provider => [provider.platform, provider])
+);
+
+export function getProvider(platform: string | undefined): PublishProvider {
+  const provider = platform ? providers[platform] : undefined;
+  if (!provider) {
+    throw new Error(`Publishing to ${platform || 'this network'} is not supported`);
+  }
+  return provider;
+}
+
+export type { PublishProvider };
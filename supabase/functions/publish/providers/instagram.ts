@@ -0,0 +1,164 @@
+import { PublishProvider } from './types.ts';
+import { expiresWithin, isExpired, loadConnection, saveTokens, wait } from './shared.ts';
+
+const GRAPH_URL = 'https://graph.facebook.com/v18.0';
+const MAX_CAROUSEL_ITEMS = 10;
+// Insights a feed post reports; reels and carousels reject some of these
+const INSIGHT_METRICS = ['impressions', 'reach', 'saved', 'shares'];
+
+async function graphPost(path: string, body: Record<string, unknown>) {
+  const response = await fetch(`${GRAPH_URL}${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body)
+  });
+
+  const data = await response.json();
+  if (!response.ok || data.error) {
+    console.error('Instagram Graph API error:', data);
+    throw new Error(data.error?.message || `Instagram request failed: ${response.status}`);
+  }
+  return data;
+}
+
+async function graphGet(path: string, params: Record<string, string>) {
+  const response = await fetch(`${GRAPH_URL}${path}?${new URLSearchParams(params)}`);
+
+  const data = await response.json();
+  if (!response.ok || data.error) {
+    throw new Error(data.error?.message || `Instagram request failed: ${response.status}`);
+  }
+  return data;
+}
+
+export const instagram: PublishProvider = {
+  platform: 'instagram',
+  name: 'Instagram',
+
+  connect: (supabase, workspaceId) => loadConnection(supabase, workspaceId, 'instagram', 'Instagram'),
+
+  async refresh(supabase, connection, within = 0) {
+    if (isExpired(connection)) {
+      throw new Error('Instagram access token has expired. Please reconnect your account.');
+    }
+
+    // Long-lived tokens last 60 days and can be extended any time before they expire
+    if (!connection.token_expires_at || !expiresWithin(connection, Math.max(within, 7 * 24 * 60 * 60 * 1000))) {
+      return connection;
+    }
+
+    console.log('Instagram token expires soon, refreshing...');
+
+    const refreshResponse = await fetch(
+      `https://graph.instagram.com/refresh_access_token?grant_type=ig_refresh_token&access_token=${connection.access_token}`
+    );
+
+    const refreshData = await refreshResponse.json();
+    if (!refreshResponse.ok || refreshData.error) {
+      // The current token still works, so publish with it and try again next time
+      console.error('Instagram token refresh failed:', refreshData);
+      return connection;
+    }
+
+    return saveTokens(supabase, connection, refreshData);
+  },
+
+  validateMedia(request) {
+    if (request.media.length === 0 || request.media.some(media => media.type !== 'image')) {
+      throw new Error('Instagram posts need at least one image; videos require manual upload');
+    }
+    if (request.media.length > MAX_CAROUSEL_ITEMS) {
+      throw new Error(`Instagram carousels can have at most ${MAX_CAROUSEL_ITEMS} images`);
+    }
+  },
+
+  async publish(connection, request) {
+    const instagramUserId = connection.platform_user_id;
+    const accessToken = connection.access_token;
+
+    console.log('Posting to Instagram for user:', instagramUserId);
+
+    let creationId: string;
+
+    if (request.media.length > 1) {
+      // Each carousel image gets its own container before the carousel itself
+      const children: string[] = [];
+      for (const media of request.media) {
+        const item = await graphPost(`/${instagramUserId}/media`, {
+          image_url: media.url,
+          is_carousel_item: true,
+          access_token: accessToken
+        });
+        children.push(item.id);
+      }
+
+      const carousel = await graphPost(`/${instagramUserId}/media`, {
+        media_type: 'CAROUSEL',
+        children,
+        caption: request.text,
+        access_token: accessToken
+      });
+      creationId = carousel.id;
+    } else {
+      const container = await graphPost(`/${instagramUserId}/media`, {
+        image_url: request.media[0].url,
+        caption: request.text,
+        access_token: accessToken
+      });
+      creationId = container.id;
+
+      // Give Instagram a moment to fetch the image
+      await wait(2000);
+    }
+
+    const published = await graphPost(`/${instagramUserId}/media_publish`, {
+      creation_id: creationId,
+      access_token: accessToken
+    });
+
+    return {
+      status: 'published',
+      message: request.media.length > 1
+        ? 'Carousel post published successfully'
+        : 'Post published successfully to Instagram',
+      externalId: published.id
+    };
+  },
+
+  async getMetrics(connection, publication) {
+    const accessToken = connection.access_token;
+    const media = await graphGet(`/${publication.external_id}`, {
+      fields: 'like_count,comments_count,permalink',
+      access_token: accessToken
+    });
+
+    // Insights need the insights permission; likes and comments still come through without it
+    let insights: { name: string; values?: { value: number }[] }[] = [];
+    try {
+      const data = await graphGet(`/${publication.external_id}/insights`, {
+        metric: INSIGHT_METRICS.join(','),
+        access_token: accessToken
+      });
+      insights = data.data || [];
+    } catch (error) {
+      console.warn(`Instagram insights unavailable for ${publication.external_id}:`, error.message);
+    }
+
+    const insight = (name: string) => insights.find(item => item.name === name)?.values?.[0]?.value;
+
+    return {
+      metrics: {
+        likes: media.like_count,
+        comments: media.comments_count,
+        impressions: insight('impressions'),
+        reach: insight('reach'),
+        saves: insight('saved'),
+        shares: insight('shares')
+      },
+      raw: { media, insights },
+      url: media.permalink ?? null
+    };
+  }
+};
@@ -0,0 +1,216 @@
+import { PublishProvider } from './types.ts';
+import { downloadMedia, expiresWithin, isExpired, loadConnection, saveTokens, wait } from './shared.ts';
+
+const LINKEDIN_API_URL = 'https://api.linkedin.com/rest';
+// Versioned REST API; LinkedIn supports each version for a year
+const LINKEDIN_VERSION = '202501';
+const MAX_COMMENTARY_LENGTH = 3000;
+// LinkedIn processes uploaded videos before a post can use them
+const MEDIA_POLL_INTERVAL_MS = 3000;
+const MEDIA_POLL_ATTEMPTS = 40;
+
+async function linkedInRequest(path: string, accessToken: string, init: RequestInit = {}) {
+  const response = await fetch(`${LINKEDIN_API_URL}${path}`, {
+    ...init,
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+      'LinkedIn-Version': LINKEDIN_VERSION,
+      'X-Restli-Protocol-Version': '2.0.0',
+      ...(init.headers || {})
+    }
+  });
+
+  // Creating a post answers 201 with the id in a header and no body
+  const text = await response.text();
+  const data = text ? JSON.parse(text) : {};
+  if (!response.ok) {
+    console.error('LinkedIn API error:', data);
+    throw new Error(data.message || `LinkedIn request failed: ${response.status}`);
+  }
+  return { data, headers: response.headers };
+}
+
+async function uploadImage(accessToken: string, owner: string, imageUrl: string): Promise<string> {
+  const { bytes: image } = await downloadMedia(imageUrl);
+
+  const { data } = await linkedInRequest('/images?action=initializeUpload', accessToken, {
+    method: 'POST',
+    body: JSON.stringify({ initializeUploadRequest: { owner } })
+  });
+
+  const uploadResponse = await fetch(data.value.uploadUrl, {
+    method: 'PUT',
+    headers: { 'Authorization': `Bearer ${accessToken}` },
+    body: image
+  });
+  if (!uploadResponse.ok) {
+    throw new Error(`Failed to upload image to LinkedIn: ${uploadResponse.status}`);
+  }
+
+  return data.value.image;
+}
+
+// Upload a video in the parts LinkedIn asks for, then wait until it can be posted
+async function uploadVideo(accessToken: string, owner: string, videoUrl: string): Promise<string> {
+  const { bytes: video } = await downloadMedia(videoUrl);
+
+  const { data } = await linkedInRequest('/videos?action=initializeUpload', accessToken, {
+    method: 'POST',
+    body: JSON.stringify({
+      initializeUploadRequest: {
+        owner,
+        fileSizeBytes: video.byteLength,
+        uploadCaptions: false,
+        uploadThumbnail: false
+      }
+    })
+  });
+
+  const { video: videoUrn, uploadToken, uploadInstructions } = data.value;
+
+  // Each part's ETag confirms it when finalizing
+  const uploadedPartIds: string[] = [];
+  for (const instruction of uploadInstructions) {
+    const partResponse = await fetch(instruction.uploadUrl, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: video.slice(instruction.firstByte, instruction.lastByte + 1)
+    });
+    if (!partResponse.ok) {
+      throw new Error(`Failed to upload video to LinkedIn: ${partResponse.status}`);
+    }
+    uploadedPartIds.push(partResponse.headers.get('etag') || '');
+  }
+
+  await linkedInRequest('/videos?action=finalizeUpload', accessToken, {
+    method: 'POST',
+    body: JSON.stringify({
+      finalizeUploadRequest: { video: videoUrn, uploadToken: uploadToken || '', uploadedPartIds }
+    })
+  });
+
+  for (let attempt = 0; attempt < MEDIA_POLL_ATTEMPTS; attempt++) {
+    await wait(MEDIA_POLL_INTERVAL_MS);
+
+    const { data: status } = await linkedInRequest(`/videos/${encodeURIComponent(videoUrn)}`, accessToken);
+    if (status.status === 'AVAILABLE') {
+      return videoUrn;
+    }
+    if (status.status === 'PROCESSING_FAILED') {
+      throw new Error(status.processingFailureReason || 'LinkedIn could not process the video');
+    }
+  }
+
+  throw new Error('LinkedIn is still processing the video. Try again in a few minutes.');
+}
+
+// Post commentary uses LinkedIn's "little text" format, where these characters are markup
+const escapeCommentary = (text: string) =>
+  text
+    .replace(/[\\|{}@[\]()<>*_~]/g, match => `\\${match}`)
+    // Keep hashtags working, and escape any other #
+    .replace(/#(\w+)|#/g, (match, tag) => tag ? `{hashtag|\\#|${tag}}` : '\\#');
+
+export const linkedin: PublishProvider = {
+  platform: 'linkedin',
+  name: 'LinkedIn',
+
+  async connect(supabase, workspaceId) {
+    const connection = await loadConnection(supabase, workspaceId, 'linkedin', 'LinkedIn');
+    if (!connection.platform_user_id) {
+      throw new Error('Choose which LinkedIn Page to publish to in Social Profiles');
+    }
+    return connection;
+  },
+
+  async refresh(supabase, connection, within = 0) {
+    // Refresh if the token expires within a day
+    if (!expiresWithin(connection, Math.max(within, 24 * 60 * 60 * 1000))) {
+      return connection;
+    }
+
+    if (!connection.refresh_token) {
+      if (!isExpired(connection)) return connection;
+      throw new Error('LinkedIn access token has expired. Please reconnect your account.');
+    }
+
+    console.log('LinkedIn token expires soon, refreshing...');
+
+    const refreshResponse = await fetch('https://www.linkedin.com/oauth/v2/accessToken', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        grant_type: 'refresh_token',
+        refresh_token: connection.refresh_token,
+        client_id: Deno.env.get('LINKEDIN_CLIENT_ID')!,
+        client_secret: Deno.env.get('LINKEDIN_CLIENT_SECRET')!
+      })
+    });
+
+    const refreshData = await refreshResponse.json();
+    if (!refreshResponse.ok) {
+      console.error('LinkedIn token refresh failed:', refreshData);
+      throw new Error('LinkedIn access token has expired. Please reconnect your account.');
+    }
+
+    return saveTokens(supabase, connection, refreshData);
+  },
+
+  validateMedia(request) {
+    if (request.media.length > 1) {
+      throw new Error('LinkedIn posts can have one image or video');
+    }
+    if (!request.text.trim() && request.media.length === 0) {
+      throw new Error('Missing required fields: text or media');
+    }
+    if (request.text.length > MAX_COMMENTARY_LENGTH) {
+      throw new Error(`LinkedIn posts can be at most ${MAX_COMMENTARY_LENGTH} characters`);
+    }
+  },
+
+  async publish(connection, request) {
+    const author = `urn:li:organization:${connection.platform_user_id}`;
+    const [media] = request.media;
+
+    console.log('Creating LinkedIn post for organization:', connection.platform_user_id);
+
+    let mediaId: string | null = null;
+    if (media) {
+      mediaId = media.type === 'video'
+        ? await uploadVideo(connection.access_token, author, media.url)
+        : await uploadImage(connection.access_token, author, media.url);
+    }
+
+    const { headers } = await linkedInRequest('/posts', connection.access_token, {
+      method: 'POST',
+      body: JSON.stringify({
+        author,
+        commentary: escapeCommentary(request.text.trim()),
+        visibility: 'PUBLIC',
+        distribution: {
+          feedDistribution: 'MAIN_FEED',
+          targetEntities: [],
+          thirdPartyDistributionChannels: []
+        },
+        ...(mediaId ? { content: { media: { id: mediaId, ...(request.title ? { title: request.title } : {}) } } } : {}),
+        lifecycleState: 'PUBLISHED',
+        isReshareDisabledByAuthor: false
+      })
+    });
+
+    const postUrn = headers.get('x-restli-id');
+    if (!postUrn) {
+      throw new Error('LinkedIn did not return the new post');
+    }
+
+    return {
+      status: 'published',
+      message: 'Posted to LinkedIn successfully',
+      externalId: postUrn,
+      url: `https://www.linkedin.com/feed/update/${postUrn}/`
+    };
+  }
+};
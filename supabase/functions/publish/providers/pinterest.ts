@@ -0,0 +1,169 @@
+import { PublishProvider } from './types.ts';
+import { downloadMedia, expiresWithin, loadConnection, saveTokens, wait } from './shared.ts';
+
+const PINTEREST_API_URL = 'https://api.pinterest.com/v5';
+const MAX_BOARD_PAGES = 5;
+// Pinterest processes uploaded videos before a pin can use them
+const MEDIA_POLL_INTERVAL_MS = 3000;
+const MEDIA_POLL_ATTEMPTS = 30;
+
+async function pinterestRequest(path: string, accessToken: string, init: RequestInit = {}) {
+  const response = await fetch(`${PINTEREST_API_URL}${path}`, {
+    ...init,
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+      ...(init.headers || {})
+    }
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    console.error('Pinterest API error:', data);
+    throw new Error(data.message || `Pinterest request failed: ${response.status}`);
+  }
+  return data;
+}
+
+// Register a video with Pinterest, upload it, and wait until it can be pinned
+async function uploadVideo(accessToken: string, videoUrl: string): Promise<string> {
+  const { bytes, contentType } = await downloadMedia(videoUrl);
+  const video = new Blob([bytes], { type: contentType || 'video/mp4' });
+
+  const media = await pinterestRequest('/media', accessToken, {
+    method: 'POST',
+    body: JSON.stringify({ media_type: 'video' })
+  });
+
+  // The upload target is a pre-signed form; its fields must precede the file
+  const form = new FormData();
+  Object.entries(media.upload_parameters || {}).forEach(([key, value]) => form.append(key, String(value)));
+  form.append('file', video);
+
+  const uploadResponse = await fetch(media.upload_url, { method: 'POST', body: form });
+  if (!uploadResponse.ok) {
+    const errorText = await uploadResponse.text();
+    console.error('Video upload failed:', errorText);
+    throw new Error(`Failed to upload video to Pinterest: ${uploadResponse.status}`);
+  }
+
+  for (let attempt = 0; attempt < MEDIA_POLL_ATTEMPTS; attempt++) {
+    await wait(MEDIA_POLL_INTERVAL_MS);
+
+    const status = await pinterestRequest(`/media/${media.media_id}`, accessToken);
+    if (status.status === 'succeeded') {
+      return media.media_id;
+    }
+    if (status.status === 'failed') {
+      throw new Error('Pinterest could not process the video');
+    }
+  }
+
+  throw new Error('Pinterest is still processing the video. Try again in a few minutes.');
+}
+
+export const pinterest: PublishProvider = {
+  platform: 'pinterest',
+  name: 'Pinterest',
+
+  connect: (supabase, workspaceId) => loadConnection(supabase, workspaceId, 'pinterest', 'Pinterest'),
+
+  async refresh(supabase, connection, within = 0) {
+    // Refresh if the token expires within a day
+    if (!expiresWithin(connection, Math.max(within, 24 * 60 * 60 * 1000))) {
+      return connection;
+    }
+
+    if (!connection.refresh_token) {
+      throw new Error('Pinterest access token has expired. Please reconnect your account.');
+    }
+
+    console.log('Pinterest token expires soon, refreshing...');
+
+    const appId = Deno.env.get('PINTEREST_APP_ID')!;
+    const appSecret = Deno.env.get('PINTEREST_APP_SECRET')!;
+    const refreshResponse = await fetch(`${PINTEREST_API_URL}/oauth/token`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${btoa(`${appId}:${appSecret}`)}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        grant_type: 'refresh_token',
+        refresh_token: connection.refresh_token
+      })
+    });
+
+    const refreshData = await refreshResponse.json();
+    if (!refreshResponse.ok) {
+      console.error('Pinterest token refresh failed:', refreshData);
+      throw new Error('Pinterest access token has expired. Please reconnect your account.');
+    }
+
+    return saveTokens(supabase, connection, refreshData);
+  },
+
+  validateMedia(request) {
+    if (request.media.length !== 1) {
+      throw new Error('Pins need a single image or video');
+    }
+    if (!request.options.boardId) {
+      throw new Error('Missing required field: boardId');
+    }
+  },
+
+  async publish(connection, request) {
+    const [media] = request.media;
+
+    console.log('Creating Pinterest pin on board:', request.options.boardId);
+
+    const mediaSource = media.type === 'video'
+      ? {
+          source_type: 'video_id',
+          media_id: await uploadVideo(connection.access_token, media.url),
+          // Use the first frame as the cover
+          cover_image_key_frame_time: 0
+        }
+      : { source_type: 'image_url', url: media.url };
+
+    const pin = await pinterestRequest('/pins', connection.access_token, {
+      method: 'POST',
+      body: JSON.stringify({
+        board_id: request.options.boardId,
+        title: request.title || undefined,
+        description: request.text || undefined,
+        link: request.link || undefined,
+        // Alt text only applies to image pins
+        alt_text: media.type === 'image' ? request.options.altText || undefined : undefined,
+        media_source: mediaSource
+      })
+    });
+
+    return {
+      status: 'published',
+      message: 'Pin created successfully',
+      externalId: pin.id,
+      url: `https://www.pinterest.com/pin/${pin.id}/`
+    };
+  },
+
+  async getOptions(connection) {
+    const boards: { id: string; name: string; privacy: string }[] = [];
+    let bookmark: string | null = null;
+
+    for (let page = 0; page < MAX_BOARD_PAGES; page++) {
+      const query = new URLSearchParams({ page_size: '100' });
+      if (bookmark) query.set('bookmark', bookmark);
+
+      const data = await pinterestRequest(`/boards?${query}`, connection.access_token);
+      for (const board of data.items || []) {
+        boards.push({ id: board.id, name: board.name, privacy: board.privacy });
+      }
+
+      bookmark = data.bookmark || null;
+      if (!bookmark) break;
+    }
+
+    return { boards };
+  }
+};
@@ -0,0 +1,76 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { SocialConnection } from './types.ts';
+import { fetchPublicUrl, readBytesWithLimit } from '../../_shared/publicFetch.ts';
+
+// Media URLs come from the request body, so downloads are bounded like any
+// other user-supplied fetch
+const DOWNLOAD_TIMEOUT_MS = 5 * 60 * 1000;
+const MAX_MEDIA_BYTES = 512 * 1024 * 1024;
+
+export async function loadConnection(supabase: SupabaseClient, workspaceId: string, platform: string, name: string): Promise<SocialConnection> {
+  const { data: connection, error } = await supabase
+    .from('user_social_connections')
+    .select('id, platform, platform_user_id, platform_username, access_token, refresh_token, token_expires_at, metadata')
+    .eq('workspace_id', workspaceId)
+    .eq('platform', platform)
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (error || !connection || !connection.access_token) {
+    throw new Error(`${name} account not connected`);
+  }
+
+  return connection;
+}
+
+// Connections without an expiry are treated as already expired
+export function expiresWithin(connection: SocialConnection, ms: number) {
+  const expiresAt = connection.token_expires_at ? new Date(connection.token_expires_at).getTime() : 0;
+  return expiresAt - Date.now() <= ms;
+}
+
+export function isExpired(connection: SocialConnection) {
+  return !!connection.token_expires_at && new Date(connection.token_expires_at).getTime() <= Date.now();
+}
+
+// Store a refreshed token, keeping the old refresh token unless the network rotated it
+export async function saveTokens(
+  supabase: SupabaseClient,
+  connection: SocialConnection,
+  tokens: { access_token: string; refresh_token?: string; expires_in?: number }
+): Promise<SocialConnection> {
+  const refreshed = {
+    ...connection,
+    access_token: tokens.access_token,
+    refresh_token: tokens.refresh_token || connection.refresh_token,
+    token_expires_at: tokens.expires_in
+      ? new Date(Date.now() + tokens.expires_in * 1000).toISOString()
+      : connection.token_expires_at
+  };
+
+  await supabase
+    .from('user_social_connections')
+    .update({
+      access_token: refreshed.access_token,
+      refresh_token: refreshed.refresh_token,
+      token_expires_at: refreshed.token_expires_at,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', connection.id);
+
+  return refreshed;
+}
+
+export async function downloadMedia(mediaUrl: string) {
+  const response = await fetchPublicUrl(mediaUrl, { signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS) });
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw new Error(`Failed to download media: ${response.status}`);
+  }
+  return {
+    bytes: await readBytesWithLimit(response, MAX_MEDIA_BYTES),
+    contentType: response.headers.get('content-type')
+  };
+}
+
+export const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
@@ -0,0 +1,211 @@
+import { PublishProvider } from './types.ts';
+import { downloadMedia, expiresWithin, loadConnection, saveTokens } from './shared.ts';
+
+const TIKTOK_API_URL = 'https://open.tiktokapis.com/v2';
+// TikTok takes 5-64 MB chunks with the remainder folded into the last one;
+// anything smaller than a chunk goes up whole
+const CHUNK_SIZE = 10 * 1024 * 1024;
+const MAX_CAPTION_LENGTH = 2200;
+// A publish TikTok hasn't finished after this long is given up on
+const STALE_PUBLISH_MS = 24 * 60 * 60 * 1000;
+
+// Content Posting API calls are JSON POSTs that report failures in error.code
+async function tiktokRequest(path: string, accessToken: string, body: Record<string, unknown>) {
+  const response = await fetch(`${TIKTOK_API_URL}${path}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json; charset=UTF-8'
+    },
+    body: JSON.stringify(body)
+  });
+
+  const data = await response.json();
+  if (!response.ok || (data.error && data.error.code !== 'ok')) {
+    console.error('TikTok API error:', data);
+    throw new Error(data.error?.message || `TikTok request failed: ${response.status}`);
+  }
+  return data.data;
+}
+
+async function uploadVideoChunks(uploadUrl: string, video: Uint8Array, chunkSize: number, totalChunks: number) {
+  for (let index = 0; index < totalChunks; index++) {
+    const start = index * chunkSize;
+    const end = index === totalChunks - 1 ? video.length : start + chunkSize;
+
+    const response = await fetch(uploadUrl, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'video/mp4',
+        'Content-Length': String(end - start),
+        'Content-Range': `bytes ${start}-${end - 1}/${video.length}`
+      },
+      body: video.slice(start, end)
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Chunk upload failed:', errorText);
+      throw new Error(`Failed to upload video to TikTok: ${response.status}`);
+    }
+  }
+}
+
+export const tiktok: PublishProvider = {
+  platform: 'tiktok',
+  name: 'TikTok',
+
+  connect: (supabase, workspaceId) => loadConnection(supabase, workspaceId, 'tiktok', 'TikTok'),
+
+  async refresh(supabase, connection, within = 0) {
+    // Access tokens last a day; refresh if less than five minutes remain
+    if (!expiresWithin(connection, Math.max(within, 5 * 60 * 1000))) {
+      return connection;
+    }
+
+    if (!connection.refresh_token) {
+      throw new Error('TikTok access token has expired. Please reconnect your account.');
+    }
+
+    console.log('TikTok token expires soon, refreshing...');
+
+    const refreshResponse = await fetch(`${TIKTOK_API_URL}/oauth/token/`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        client_key: Deno.env.get('TIKTOK_CLIENT_KEY')!,
+        client_secret: Deno.env.get('TIKTOK_CLIENT_SECRET')!,
+        grant_type: 'refresh_token',
+        refresh_token: connection.refresh_token
+      })
+    });
+
+    const refreshData = await refreshResponse.json();
+    if (!refreshResponse.ok || refreshData.error) {
+      console.error('TikTok token refresh failed:', refreshData);
+      throw new Error('TikTok access token has expired. Please reconnect your account.');
+    }
+
+    return saveTokens(supabase, connection, refreshData);
+  },
+
+  validateMedia(request) {
+    const { mode = 'direct', privacyLevel } = request.options;
+
+    if (request.media.length !== 1 || request.media[0].type !== 'video') {
+      throw new Error('TikTok only accepts a single video');
+    }
+    if (mode !== 'direct' && mode !== 'draft') {
+      throw new Error('mode must be direct or draft');
+    }
+    if (mode === 'direct' && !privacyLevel) {
+      throw new Error('privacyLevel is required for direct posts');
+    }
+    if (request.text.length > MAX_CAPTION_LENGTH) {
+      throw new Error(`Caption must be ${MAX_CAPTION_LENGTH} characters or fewer`);
+    }
+  },
+
+  async publish(connection, request) {
+    const {
+      mode = 'direct',
+      privacyLevel,
+      disableDuet = false,
+      disableStitch = false,
+      disableComment = false
+    } = request.options;
+
+    const { bytes: video } = await downloadMedia(request.media[0].url);
+
+    const chunkSize = Math.min(video.length, CHUNK_SIZE);
+    const totalChunks = Math.max(1, Math.floor(video.length / chunkSize));
+    const sourceInfo = {
+      source: 'FILE_UPLOAD',
+      video_size: video.length,
+      chunk_size: chunkSize,
+      total_chunk_count: totalChunks
+    };
+
+    // Drafts land in the creator's TikTok inbox, where they add the caption and post
+    const init = mode === 'direct'
+      ? await tiktokRequest('/post/publish/video/init/', connection.access_token, {
+          post_info: {
+            title: request.text,
+            privacy_level: privacyLevel,
+            disable_duet: disableDuet,
+            disable_stitch: disableStitch,
+            disable_comment: disableComment
+          },
+          source_info: sourceInfo
+        })
+      : await tiktokRequest('/post/publish/inbox/video/init/', connection.access_token, {
+          source_info: sourceInfo
+        });
+
+    await uploadVideoChunks(init.upload_url, video, chunkSize, totalChunks);
+
+    console.log('TikTok upload complete, publish id:', init.publish_id);
+
+    // TikTok processes the upload before it appears; getStatus follows it from here
+    return {
+      status: 'processing',
+      message: mode === 'direct'
+        ? 'Video uploaded to TikTok and is being processed'
+        : 'Video sent to your TikTok drafts',
+      trackingId: init.publish_id
+    };
+  },
+
+  async getStatus(connection, publication) {
+    const data = await tiktokRequest('/post/publish/status/fetch/', connection.access_token, {
+      publish_id: publication.tracking_id
+    });
+
+    if (data.status === 'PUBLISH_COMPLETE') {
+      const postId = data.publicaly_available_post_id?.[0]?.toString() ?? null;
+      return {
+        status: 'published',
+        message: 'Published to TikTok',
+        externalId: postId,
+        // Private posts have no public id to link to
+        url: postId && connection.platform_username
+          ? `https://www.tiktok.com/@${connection.platform_username}/video/${postId}`
+          : null
+      };
+    }
+    if (data.status === 'SEND_TO_USER_INBOX') {
+      return { status: 'sent_to_inbox', message: 'Video is in your TikTok drafts' };
+    }
+    if (data.status === 'FAILED') {
+      const error = data.fail_reason || 'TikTok could not process the video';
+      return { status: 'failed', message: error, error };
+    }
+    if (Date.now() - new Date(publication.created_at).getTime() > STALE_PUBLISH_MS) {
+      const error = 'TikTok did not finish processing the video';
+      return { status: 'failed', message: error, error };
+    }
+
+    return null;
+  },
+
+  // Privacy options and interaction settings depend on the creator's account,
+  // and TikTok requires them to be offered before every direct post
+  async getOptions(connection) {
+    const creator = await tiktokRequest('/post/publish/creator_info/query/', connection.access_token, {});
+
+    return {
+      creator: {
+        username: creator.creator_username,
+        nickname: creator.creator_nickname,
+        avatarUrl: creator.creator_avatar_url,
+        privacyLevelOptions: creator.privacy_level_options || [],
+        commentDisabled: !!creator.comment_disabled,
+        duetDisabled: !!creator.duet_disabled,
+        stitchDisabled: !!creator.stitch_disabled,
+        maxVideoPostDurationSec: creator.max_video_post_duration_sec ?? null
+      }
+    };
+  }
+};
@@ -0,0 +1,189 @@
+import { PublishProvider } from './types.ts';
+import { downloadMedia, expiresWithin, loadConnection, saveTokens, wait } from './shared.ts';
+
+const X_API_URL = 'https://api.x.com/2';
+// X accepts media in segments of up to 5MB
+const CHUNK_SIZE = 4 * 1024 * 1024;
+const MAX_TWEET_LENGTH = 280;
+const MAX_THREAD_LENGTH = 25;
+const MEDIA_POLL_ATTEMPTS = 30;
+
+async function xRequest(path: string, accessToken: string, init: RequestInit = {}) {
+  const response = await fetch(`${X_API_URL}${path}`, {
+    ...init,
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      ...(init.body instanceof FormData ? {} : { 'Content-Type': 'application/json' }),
+      ...(init.headers || {})
+    }
+  });
+
+  // Appending a media segment answers with an empty body
+  const text = await response.text();
+  const data = text ? JSON.parse(text) : {};
+  if (!response.ok || (data.errors && !data.data)) {
+    console.error('X API error:', data);
+    throw new Error(data.detail || data.errors?.[0]?.message || `X request failed: ${response.status}`);
+  }
+  return data;
+}
+
+// Upload an image or video in segments and wait until X can attach it to a post
+async function uploadMedia(accessToken: string, mediaUrl: string, mediaType: 'image' | 'video'): Promise<string> {
+  const { bytes: media, contentType } = await downloadMedia(mediaUrl);
+
+  const init = await xRequest('/media/upload/initialize', accessToken, {
+    method: 'POST',
+    body: JSON.stringify({
+      media_type: contentType || (mediaType === 'video' ? 'video/mp4' : 'image/jpeg'),
+      total_bytes: media.byteLength,
+      media_category: mediaType === 'video' ? 'tweet_video' : 'tweet_image'
+    })
+  });
+  const mediaId = init.data.id;
+
+  for (let index = 0; index * CHUNK_SIZE < media.byteLength; index++) {
+    const form = new FormData();
+    form.append('segment_index', String(index));
+    form.append('media', new Blob([media.slice(index * CHUNK_SIZE, (index + 1) * CHUNK_SIZE)]));
+
+    await xRequest(`/media/upload/${mediaId}/append`, accessToken, { method: 'POST', body: form });
+  }
+
+  const finalized = await xRequest(`/media/upload/${mediaId}/finalize`, accessToken, { method: 'POST' });
+  let processing = finalized.data?.processing_info;
+
+  // Videos are transcoded before they can be posted
+  for (let attempt = 0; processing && attempt < MEDIA_POLL_ATTEMPTS; attempt++) {
+    if (processing.state === 'succeeded') {
+      return mediaId;
+    }
+    if (processing.state === 'failed') {
+      throw new Error(processing.error?.message || 'X could not process the media');
+    }
+
+    await wait((processing.check_after_secs || 2) * 1000);
+
+    const status = await xRequest(`/media/upload?command=STATUS&media_id=${mediaId}`, accessToken);
+    processing = status.data?.processing_info;
+  }
+
+  if (processing && processing.state !== 'succeeded') {
+    throw new Error('X is still processing the media. Try again in a few minutes.');
+  }
+
+  return mediaId;
+}
+
+// A thread arrives as options.thread; a single post can be sent as text
+const threadPosts = (text: string, thread: unknown): string[] =>
+  (Array.isArray(thread) ? thread : [text])
+    .map((post: unknown) => typeof post === 'string' ? post.trim() : '')
+    .filter(Boolean);
+
+export const twitter: PublishProvider = {
+  platform: 'twitter',
+  name: 'X',
+
+  connect: (supabase, workspaceId) => loadConnection(supabase, workspaceId, 'twitter', 'X'),
+
+  async refresh(supabase, connection, within = 0) {
+    // Access tokens last two hours; refresh if less than five minutes remain
+    if (!expiresWithin(connection, Math.max(within, 5 * 60 * 1000))) {
+      return connection;
+    }
+
+    if (!connection.refresh_token) {
+      throw new Error('X access token has expired. Please reconnect your account.');
+    }
+
+    console.log('X token expires soon, refreshing...');
+
+    const clientId = Deno.env.get('TWITTER_CLIENT_ID')!;
+    const clientSecret = Deno.env.get('TWITTER_CLIENT_SECRET')!;
+    const refreshResponse = await fetch(`${X_API_URL}/oauth2/token`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${btoa(`${clientId}:${clientSecret}`)}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        grant_type: 'refresh_token',
+        refresh_token: connection.refresh_token
+      })
+    });
+
+    const refreshData = await refreshResponse.json();
+    if (!refreshResponse.ok) {
+      console.error('X token refresh failed:', refreshData);
+      throw new Error('X access token has expired. Please reconnect your account.');
+    }
+
+    // X rotates refresh tokens, so the new one must be saved
+    return saveTokens(supabase, connection, refreshData);
+  },
+
+  validateMedia(request) {
+    const posts = threadPosts(request.text, request.options.thread);
+
+    if (request.media.length > 1) {
+      throw new Error('X posts can have one image or video');
+    }
+    if (posts.length === 0 && request.media.length === 0) {
+      throw new Error('Missing required fields: text, thread or media');
+    }
+    if (posts.length > MAX_THREAD_LENGTH) {
+      throw new Error(`Threads can have at most ${MAX_THREAD_LENGTH} posts`);
+    }
+    const tooLong = posts.findIndex(post => [...post].length > MAX_TWEET_LENGTH);
+    if (tooLong !== -1) {
+      throw new Error(`Post ${tooLong + 1} is longer than ${MAX_TWEET_LENGTH} characters`);
+    }
+  },
+
+  async publish(connection, request) {
+    const posts = threadPosts(request.text, request.options.thread);
+    const [media] = request.media;
+
+    // Media goes on the first post of a thread
+    const mediaId = media ? await uploadMedia(connection.access_token, media.url, media.type) : null;
+
+    console.log(`Posting ${Math.max(posts.length, 1)} post(s) to X`);
+
+    const username = connection.platform_username || 'i';
+    const tweetIds: string[] = [];
+    for (const [index, post] of (posts.length > 0 ? posts : ['']).entries()) {
+      try {
+        const tweet = await xRequest('/tweets', connection.access_token, {
+          method: 'POST',
+          body: JSON.stringify({
+            ...(post ? { text: post } : {}),
+            ...(index === 0 && mediaId ? { media: { media_ids: [mediaId] } } : {}),
+            ...(index > 0 ? { reply: { in_reply_to_tweet_id: tweetIds[index - 1] } } : {})
+          })
+        });
+        tweetIds.push(tweet.data.id);
+      } catch (error) {
+        if (tweetIds.length === 0) {
+          throw error;
+        }
+        // Posts already published stay up, so say how far the thread got
+        const message = `Posted ${tweetIds.length} of ${posts.length} posts before X rejected the rest: ${error.message}`;
+        return {
+          status: 'failed',
+          message,
+          error: message,
+          externalId: tweetIds[0],
+          url: `https://x.com/${username}/status/${tweetIds[0]}`
+        };
+      }
+    }
+
+    return {
+      status: 'published',
+      message: tweetIds.length > 1 ? `Thread of ${tweetIds.length} posts published` : 'Post published successfully',
+      externalId: tweetIds[0],
+      url: `https://x.com/${username}/status/${tweetIds[0]}`
+    };
+  }
+};
@@ -0,0 +1,97 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export interface SocialConnection {
+  id: string;
+  platform: string;
+  platform_user_id: string | null;
+  platform_username: string | null;
+  access_token: string;
+  refresh_token: string | null;
+  token_expires_at: string | null;
+  metadata: Record<string, unknown> | null;
+}
+
+export interface PublishMedia {
+  url: string;
+  type: 'image' | 'video';
+}
+
+// What the caller wants published, in the same shape for every network
+export interface PublishRequest {
+  media: PublishMedia[];
+  text: string;
+  title: string;
+  tags: string[];
+  link: string;
+  // Settings only one network understands, such as a Pinterest board or TikTok privacy level
+  options: Record<string, unknown>;
+}
+
+export type PublicationStatus = 'processing' | 'sent_to_inbox' | 'published' | 'failed';
+
+// What the network did with it; this is what ends up in the publications table
+export interface PublishOutcome {
+  status: PublicationStatus;
+  message: string;
+  externalId?: string | null;
+  // Handle for checking on a publication the network is still processing
+  trackingId?: string | null;
+  url?: string | null;
+  error?: string | null;
+}
+
+export interface Publication {
+  id: string;
+  workspace_id: string;
+  platform: string;
+  status: PublicationStatus;
+  external_id: string | null;
+  tracking_id: string | null;
+  url: string | null;
+  options: Record<string, unknown>;
+  published_at: string | null;
+  created_at: string;
+}
+
+// Counts a network reports for a post; anything it doesn't track is left out
+export interface PublicationMetrics {
+  views?: number;
+  impressions?: number;
+  reach?: number;
+  likes?: number;
+  comments?: number;
+  shares?: number;
+  saves?: number;
+}
+
+export interface MetricsSnapshot {
+  metrics: PublicationMetrics;
+  raw: Record<string, unknown>;
+  // Some networks only reveal the post's link once it is live
+  url?: string | null;
+}
+
+/**
+ * One adapter per network. The publish function loads the connection,
+ * refreshes it, validates the request and publishes through these methods,
+ * then records the outcome, so adding a network only means adding a provider.
+ */
+export interface PublishProvider {
+  platform: string;
+  // Name used in messages, e.g. "X" for twitter
+  name: string;
+  // Load the workspace's connection and make sure it can publish
+  connect(supabase: SupabaseClient, workspaceId: string): Promise<SocialConnection>;
+  // Renew the access token if it is expired or about to be, saving the new one.
+  // `within` widens the provider's own margin, for renewing well ahead of time
+  refresh(supabase: SupabaseClient, connection: SocialConnection, within?: number): Promise<SocialConnection>;
+  // Reject requests the network would refuse, before anything is uploaded
+  validateMedia(request: PublishRequest): void;
+  publish(connection: SocialConnection, request: PublishRequest): Promise<PublishOutcome>;
+  // Networks that process uploads asynchronously report back through this
+  getStatus?(connection: SocialConnection, publication: Publication): Promise<PublishOutcome | null>;
+  // Engagement numbers for a published post, pulled periodically by cron
+  getMetrics?(connection: SocialConnection, publication: Publication): Promise<MetricsSnapshot>;
+  // Account-specific choices to offer before publishing, such as boards
+  getOptions?(connection: SocialConnection): Promise<Record<string, unknown>>;
+}
@@ -0,0 +1,210 @@
+import { PublishProvider } from './types.ts';
+import { downloadMedia, expiresWithin, isExpired, loadConnection, saveTokens } from './shared.ts';
+
+// YouTube accepts resumable uploads in multiples of 256KB
+const CHUNK_SIZE = 5 * 1024 * 1024;
+const MAX_TITLE_LENGTH = 100;
+const MAX_TAGS = 500;
+// Totals over the video's whole life, from the YouTube Analytics API
+const ANALYTICS_METRICS = ['views', 'likes', 'comments', 'shares', 'estimatedMinutesWatched', 'averageViewDuration'];
+
+async function googleGet(url: string, accessToken: string) {
+  const response = await fetch(url, {
+    headers: { 'Authorization': `Bearer ${accessToken}` }
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error?.message || `YouTube request failed: ${response.status}`);
+  }
+  return data;
+}
+
+export const youtube: PublishProvider = {
+  platform: 'youtube',
+  name: 'YouTube',
+
+  connect: (supabase, workspaceId) => loadConnection(supabase, workspaceId, 'youtube', 'YouTube'),
+
+  async refresh(supabase, connection, within = 0) {
+    // Google access tokens last an hour; refresh if less than five minutes remain
+    if (!expiresWithin(connection, Math.max(within, 5 * 60 * 1000))) {
+      return connection;
+    }
+
+    if (!connection.refresh_token) {
+      if (!isExpired(connection)) return connection;
+      throw new Error('YouTube access token has expired. Please reconnect your account.');
+    }
+
+    console.log('YouTube token expires soon, refreshing...');
+
+    const refreshResponse = await fetch('https://oauth2.googleapis.com/token', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        client_id: Deno.env.get('GOOGLE_CLIENT_ID')!,
+        client_secret: Deno.env.get('GOOGLE_CLIENT_SECRET')!,
+        grant_type: 'refresh_token',
+        refresh_token: connection.refresh_token
+      })
+    });
+
+    const refreshData = await refreshResponse.json();
+    if (!refreshResponse.ok) {
+      console.error('YouTube token refresh failed:', refreshData);
+      throw new Error('YouTube access token has expired. Please reconnect your account.');
+    }
+
+    return saveTokens(supabase, connection, refreshData);
+  },
+
+  validateMedia(request) {
+    if (request.media.length !== 1 || request.media[0].type !== 'video') {
+      throw new Error('YouTube only accepts a single video');
+    }
+    if (!request.title.trim()) {
+      throw new Error('Missing required field: title');
+    }
+  },
+
+  async publish(connection, request) {
+    const { title, text, tags } = request;
+    const { bytes: video } = await downloadMedia(request.media[0].url);
+
+    console.log('Video file size:', video.length, 'bytes');
+
+    const metadata = {
+      snippet: {
+        title: title.substring(0, MAX_TITLE_LENGTH),
+        description: text || `Generated with FeedGenesis\n\nTags: ${tags.join(', ')}\n\nCreated using AI-powered video generation.`,
+        tags: tags.slice(0, MAX_TAGS),
+        categoryId: '22', // People & Blogs
+        defaultLanguage: 'en',
+        defaultAudioLanguage: 'en'
+      },
+      status: {
+        privacyStatus: request.options.privacyStatus || 'public',
+        selfDeclaredMadeForKids: false,
+        embeddable: true,
+        license: 'youtube',
+        publicStatsViewable: true
+      }
+    };
+
+    const initResponse = await fetch('https://www.googleapis.com/upload/youtube/v3/videos?uploadType=resumable&part=snippet,status', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${connection.access_token}`,
+        'Content-Type': 'application/json',
+        'X-Upload-Content-Length': video.length.toString(),
+        'X-Upload-Content-Type': 'video/mp4'
+      },
+      body: JSON.stringify(metadata)
+    });
+
+    if (!initResponse.ok) {
+      const errorText = await initResponse.text();
+      console.error('Upload initialization failed:', errorText);
+      throw new Error(`Upload initialization failed: ${initResponse.status} ${initResponse.statusText}`);
+    }
+
+    const uploadUrl = initResponse.headers.get('Location');
+    if (!uploadUrl) {
+      throw new Error('No upload URL received from YouTube');
+    }
+
+    let start = 0;
+    let result: { id?: string } | null = null;
+
+    while (!result) {
+      const end = Math.min(start + CHUNK_SIZE, video.length);
+
+      console.log(`Uploading chunk: ${start}-${end - 1}/${video.length} (${Math.round((end / video.length) * 100)}%)`);
+
+      const uploadResponse = await fetch(uploadUrl, {
+        method: 'PUT',
+        headers: {
+          'Content-Length': (end - start).toString(),
+          'Content-Range': `bytes ${start}-${end - 1}/${video.length}`
+        },
+        body: video.slice(start, end)
+      });
+
+      if (uploadResponse.status === 200 || uploadResponse.status === 201) {
+        result = await uploadResponse.json();
+      } else if (uploadResponse.status === 308) {
+        // Resume from whatever YouTube says it has received
+        const range = uploadResponse.headers.get('Range');
+        start = range ? parseInt(range.split('-')[1]) + 1 : end;
+      } else {
+        const errorText = await uploadResponse.text();
+        console.error('Upload failed:', errorText);
+        throw new Error(`Upload failed: ${uploadResponse.status} ${uploadResponse.statusText}`);
+      }
+    }
+
+    if (!result.id) {
+      throw new Error('Upload completed but no video ID received');
+    }
+
+    return {
+      status: 'published',
+      message: 'Video uploaded successfully to YouTube',
+      externalId: result.id,
+      url: `https://www.youtube.com/watch?v=${result.id}`
+    };
+  },
+
+  async getMetrics(connection, publication) {
+    const videoId = publication.external_id;
+    const data = await googleGet(
+      `https://www.googleapis.com/youtube/v3/videos?part=statistics&id=${videoId}`,
+      connection.access_token
+    );
+    const statistics = data.items?.[0]?.statistics;
+    if (!statistics) {
+      throw new Error(`YouTube video ${videoId} not found`);
+    }
+
+    const metrics = {
+      views: Number(statistics.viewCount ?? 0),
+      likes: Number(statistics.likeCount ?? 0),
+      comments: Number(statistics.commentCount ?? 0)
+    };
+
+    // Analytics adds shares and watch time, but needs the yt-analytics scope
+    // that older connections were not granted
+    let analytics: Record<string, number> | null = null;
+    try {
+      const query = new URLSearchParams({
+        ids: 'channel==MINE',
+        startDate: (publication.published_at || publication.created_at).slice(0, 10),
+        endDate: new Date().toISOString().slice(0, 10),
+        metrics: ANALYTICS_METRICS.join(','),
+        filters: `video==${videoId}`
+      });
+      const report = await googleGet(`https://youtubeanalytics.googleapis.com/v2/reports?${query}`, connection.access_token);
+      const row = report.rows?.[0];
+      if (row) {
+        analytics = Object.fromEntries(
+          report.columnHeaders.map((header: { name: string }, index: number) => [header.name, Number(row[index])])
+        );
+      }
+    } catch (error) {
+      console.warn(`YouTube Analytics unavailable for ${videoId}:`, error.message);
+    }
+
+    return {
+      metrics: {
+        ...metrics,
+        // Analytics lags a couple of days behind the public counters
+        views: Math.max(metrics.views, analytics?.views ?? 0),
+        shares: analytics?.shares
+      },
+      raw: { statistics, analytics }
+    };
+  }
+};
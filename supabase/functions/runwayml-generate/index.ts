@@ -1,8 +1,11 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getAuthenticatedUser, requireWorkspaceRole } from '../_shared/auth.ts';
+import { resolveApiKey } from '../_shared/apiKeys.ts';
+import { BrandProfile, loadBrandProfile } from '../_shared/brandProfile.ts';
+import { recordUsage, releaseUsage } from '../_shared/usage.ts';
 
-const runwayApiKey = Deno.env.get('RUNWAYML_API_KEY');
 const supabaseUrl = Deno.env.get('SUPABASE_URL');
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
 
@@ -30,6 +33,10 @@ interface RunwayRequest {
     aspectRatio?: string;
     duration?: string;
   };
+  productId?: string;
+  workspaceId: string;
+  onBehalfOf?: string;
+  regeneratedFrom?: string;
 }
 
 // Function to create a concise prompt from the instruction and product info
@@ -46,21 +53,55 @@ function createConcisePrompt(instruction: string, productInfo?: { name: string;
   return truncatedInstruction;
 }
 
+// Runway prompts are short, so only the visual parts of the brand kit go in
+function buildVisualBrandHints(brand: BrandProfile | null): string {
+  if (!brand) return '';
+
+  const hints = [
+    brand.visual_tone ? `Visual style: ${brand.visual_tone}.` : '',
+    brand.color_palette.length > 0 ? `Brand colors: ${brand.color_palette.slice(0, 5).join(', ')}.` : ''
+  ].filter(Boolean);
+
+  return hints.length > 0 ? ` ${hints.join(' ')}` : '';
+}
+
+// Runway list prices: gen4_image is 8 credits an image, gen4_turbo 5 credits a second, at $0.01 a credit
+const IMAGE_COST_USD = 0.08;
+const VIDEO_COST_PER_SECOND_USD = 0.05;
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { type, instruction, imageUrl, productInfo, formatSpecs }: RunwayRequest = await req.json();
+    const { type, instruction, imageUrl, productInfo, formatSpecs, productId, workspaceId, onBehalfOf, regeneratedFrom }: RunwayRequest = await req.json();
 
     console.log('Received format specifications:', formatSpecs);
 
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // The campaign worker and asset review submit on behalf of a member with the service role key
+    const isServiceCall = req.headers.get('Authorization') === `Bearer ${supabaseServiceKey}`;
+    let ownerId: string;
+    if (onBehalfOf && isServiceCall) {
+      ownerId = onBehalfOf;
+    } else {
+      const user = await getAuthenticatedUser(req, supabase);
+      await requireWorkspaceRole(supabase, workspaceId, user.id, ['owner', 'editor']);
+      ownerId = user.id;
+    }
+
+    const runwayApiKey = await resolveApiKey(supabase, workspaceId, 'runwayml', 'RUNWAYML_API_KEY');
     if (!runwayApiKey) {
       console.log('RunwayML API key not configured');
       return new Response(JSON.stringify({ 
         success: false, 
-        error: 'RunwayML API key not configured. Please add it in Supabase secrets.',
+        error: 'RunwayML API key not configured. Add one under API Keys in the admin dashboard.',
         asset_url: type === 'image' 
           ? 'https://images.unsplash.com/photo-1505740420928-5e560c06d30e?w=400&h=400&fit=crop'
           : 'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/BigBuckBunny.mp4',
@@ -70,16 +111,12 @@ serve(async (req) => {
       });
     }
 
-    if (!supabaseUrl || !supabaseServiceKey) {
-      throw new Error('Supabase configuration missing');
-    }
-
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
-
     console.log(`Starting RunwayML ${type} generation with format specs`);
 
+    const brand = await loadBrandProfile(supabase, workspaceId);
+
     // Create a concise prompt to avoid API issues
-    const concisePrompt = createConcisePrompt(instruction, productInfo);
+    const concisePrompt = createConcisePrompt(instruction, productInfo) + buildVisualBrandHints(brand);
     console.log('Concise prompt:', concisePrompt);
     console.log('Prompt length:', concisePrompt.length);
 
@@ -190,10 +227,58 @@ serve(async (req) => {
       }
     }
 
+    const videoSeconds = Math.min(Math.max(duration, 5), 10);
+    const usageId = await recordUsage(supabase, {
+      workspaceId,
+      userId: ownerId,
+      provider: 'runway',
+      usageType: type === 'image' ? 'image' : 'video',
+      units: type === 'image' ? 1 : videoSeconds,
+      unit: type === 'image' ? 'images' : 'seconds',
+      estimatedCostUsd: type === 'image' ? IMAGE_COST_USD : videoSeconds * VIDEO_COST_PER_SECOND_USD,
+      metadata: { model: requestBody.model }
+    });
+
+    // Record the job before submitting so nothing is lost if the request drops
+    const { data: job, error: jobError } = await supabase
+      .from('generation_jobs')
+      .insert({
+        workspace_id: workspaceId,
+        owner_id: ownerId,
+        provider: 'runway',
+        job_type: type === 'image' ? 'image' : 'video',
+        status: 'queued',
+        inventory_id: productId || null,
+        request: {
+          instruction,
+          imageUrl,
+          productInfo,
+          formatSpecs,
+          apiEndpoint,
+          requestBody,
+          regeneratedFrom: isServiceCall ? regeneratedFrom : undefined
+        }
+      })
+      .select()
+      .single();
+
+    if (jobError || !job) {
+      console.error('Failed to create generation job:', jobError);
+      await releaseUsage(supabase, usageId);
+      throw new Error(`Failed to create generation job: ${jobError?.message}`);
+    }
+
+    console.log('Created generation job:', job.id);
+
+    await supabase
+      .from('usage_events')
+      .update({ generation_job_id: job.id })
+      .eq('id', usageId);
+
     console.log('Making API call to RunwayML:', apiEndpoint);
     console.log('Request body with format specs:', JSON.stringify(requestBody, null, 2));
 
-    // Make the API call to RunwayML with correct headers
+    // Submit the task; runwayml-worker polls it from here on
     const response = await fetch(apiEndpoint, {
       method: 'POST',
       headers: {
@@ -213,252 +298,70 @@ serve(async (req) => {
     try {
       data = JSON.parse(responseText);
     } catch (parseError) {
+      data = null;
       console.error('Failed to parse RunwayML response as JSON:', parseError);
-      
-      // Return placeholder on parsing error
-      const assetUrl = type === 'image' 
-        ? 'https://images.unsplash.com/photo-1505740420928-5e560c06d30e?w=400&h=400&fit=crop'
-        : 'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/BigBuckBunny.mp4';
-
-      const { data: asset, error: dbError } = await supabase
-        .from('generated_assets')
-        .insert({
-          channel: formatSpecs?.channel || 'instagram',
-          format: type === 'image' ? 'jpg' : 'mp4',
-          source_system: 'runway',
-          asset_type: type,
-          url: assetUrl,
-          instruction: instruction,
-          approved: false
-        })
-        .select()
-        .single();
-
-      return new Response(JSON.stringify({ 
-        success: true, 
-        asset_url: assetUrl,
-        asset_id: asset?.id || `${type}-${Date.now()}`,
-        type: type,
-        runway_task_id: null,
-        status: 'error',
-        message: `Parse error: ${parseError.message}. Using placeholder for testing.`
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
     }
 
-    console.log('RunwayML API parsed response:', JSON.stringify(data, null, 2));
+    const taskId = response.ok ? data?.id : null;
 
-    if (!response.ok) {
-      console.error('RunwayML API error:', response.status, data);
-      
+    if (!taskId) {
       const errorMessage = data?.error || data?.message || data?.detail || `HTTP ${response.status}`;
-      const message = `RunwayML API Error: ${errorMessage}. Using placeholder for testing.`;
-      
-      // Use placeholder on API error for testing purposes
-      const assetUrl = type === 'image' 
-        ? 'https://images.unsplash.com/photo-1505740420928-5e560c06d30e?w=400&h=400&fit=crop'
-        : 'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/BigBuckBunny.mp4';
-
-      // Store the placeholder asset in database
-      const { data: asset, error: dbError } = await supabase
-        .from('generated_assets')
-        .insert({
-          channel: formatSpecs?.channel || 'instagram',
-          format: type === 'image' ? 'jpg' : 'mp4',
-          source_system: 'runway',
-          asset_type: type,
-          url: assetUrl,
-          instruction: instruction,
-          approved: false
+      console.error('RunwayML task submission failed:', errorMessage);
+      await releaseUsage(supabase, usageId);
+
+      await supabase
+        .from('generation_jobs')
+        .update({
+          status: 'failed',
+          error: `RunwayML API Error: ${errorMessage}`,
+          completed_at: new Date().toISOString()
         })
-        .select()
-        .single();
-
-      if (dbError) {
-        console.error('Database error:', dbError);
-        throw new Error(`Database error: ${dbError.message}`);
-      }
+        .eq('id', job.id);
 
       return new Response(JSON.stringify({ 
-        success: true, 
-        asset_url: assetUrl,
-        asset_id: asset.id,
+        success: false, 
+        job_id: job.id,
         type: type,
-        runway_task_id: null,
-        status: 'error',
-        message: message
+        status: 'failed',
+        error: `RunwayML API Error: ${errorMessage}`
       }), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
 
-    // Handle successful response - extract task ID
-    const taskId = data.id;
     console.log('RunwayML task created with ID:', taskId);
 
-    if (!taskId) {
-      console.error('No task ID returned from RunwayML');
-      const assetUrl = type === 'image' 
-        ? 'https://images.unsplash.com/photo-1505740420928-5e560c06d30e?w=400&h=400&fit=crop'
-        : 'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/BigBuckBunny.mp4';
-
-      const { data: asset, error: dbError } = await supabase
-        .from('generated_assets')
-        .insert({
-          channel: formatSpecs?.channel || 'instagram',
-          format: type === 'image' ? 'jpg' : 'mp4',
-          source_system: 'runway',
-          asset_type: type,
-          url: assetUrl,
-          instruction: instruction,
-          approved: false
-        })
-        .select()
-        .single();
-
-      return new Response(JSON.stringify({ 
-        success: true, 
-        asset_url: assetUrl,
-        asset_id: asset?.id || `${type}-${Date.now()}`,
-        type: type,
-        runway_task_id: null,
-        status: 'error',
-        message: 'No task ID returned. Using placeholder for testing.'
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
-    }
-
-    // Poll the task status using correct endpoint
-    let taskStatus = 'PENDING';
-    let assetUrl = '';
-    let attempts = 0;
-    const maxAttempts = 60; // 5 minutes with 5-second intervals
-    
-    while (taskStatus === 'PENDING' || taskStatus === 'RUNNING') {
-      if (attempts >= maxAttempts) {
-        console.log('Task polling timeout after 5 minutes');
-        break;
-      }
-
-      // Wait 5 seconds before checking
-      await new Promise(resolve => setTimeout(resolve, 5000));
-      attempts++;
-
-      console.log(`Checking task status (attempt ${attempts}/${maxAttempts})`);
-
-      // Check task status using the correct endpoint structure
-      const statusEndpoint = `https://api.dev.runwayml.com/v1/tasks/${taskId}`;
-
-      const statusResponse = await fetch(statusEndpoint, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${runwayApiKey}`,
-          'Content-Type': 'application/json',
-          'X-Runway-Version': '2024-11-06'
-        }
-      });
-
-      if (!statusResponse.ok) {
-        console.error('Failed to check task status:', statusResponse.status);
-        break;
-      }
-
-      const statusData = await statusResponse.json();
-      console.log('Task status check response:', JSON.stringify(statusData, null, 2));
-
-      taskStatus = statusData.status;
-
-      if (taskStatus === 'SUCCEEDED' || taskStatus === 'COMPLETED') {
-        // Extract asset URL from the response - handle both possible response formats
-        if (statusData.output && Array.isArray(statusData.output) && statusData.output.length > 0) {
-          // If output is an array, take the first URL
-          assetUrl = statusData.output[0];
-        } else if (statusData.output && typeof statusData.output === 'string') {
-          // If output is a string URL
-          assetUrl = statusData.output;
-        } else if (statusData.artifacts && statusData.artifacts.length > 0) {
-          // Alternative: check artifacts array
-          assetUrl = statusData.artifacts[0].url;
-        } else {
-          // Fallback: look for url property directly
-          assetUrl = statusData.url || '';
-        }
-        
-        console.log('Task completed successfully, extracted asset URL:', assetUrl);
-        
-        // If we still don't have a URL, try to download and re-host the content
-        if (!assetUrl) {
-          console.log('No direct URL found, will use placeholder');
-          assetUrl = type === 'image' 
-            ? 'https://images.unsplash.com/photo-1505740420928-5e560c06d30e?w=400&h=400&fit=crop'
-            : 'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/BigBuckBunny.mp4';
-        }
-        break;
-      } else if (taskStatus === 'FAILED') {
-        console.error('Task failed:', statusData.failure || statusData.failureReason || 'Unknown error');
-        break;
-      }
-    }
-
-    // Determine final status and asset URL
-    let finalStatus = 'completed';
-    let message = '';
-
-    if ((taskStatus === 'SUCCEEDED' || taskStatus === 'COMPLETED') && assetUrl) {
-      message = `${type} generation completed successfully! Note: RunwayML URLs may expire after some time.`;
-      finalStatus = 'completed';
-    } else if (taskStatus === 'FAILED') {
-      message = `${type} generation failed. Using placeholder for testing.`;
-      finalStatus = 'error';
-      assetUrl = type === 'image' 
-        ? 'https://images.unsplash.com/photo-1505740420928-5e560c06d30e?w=400&h=400&fit=crop'
-        : 'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/BigBuckBunny.mp4';
-    } else {
-      message = `${type} generation is still processing (Task ID: ${taskId}). Note: RunwayML URLs may expire after some time.`;
-      finalStatus = 'processing';
-      assetUrl = type === 'image' 
-        ? 'https://images.unsplash.com/photo-1505740420928-5e560c06d30e?w=400&h=400&fit=crop'
-        : 'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/BigBuckBunny.mp4';
-    }
-
-    // Store the generated asset in database with format specs
-    const { data: asset, error: dbError } = await supabase
-      .from('generated_assets')
-      .insert({
-        channel: formatSpecs?.channel || 'instagram',
-        format: type === 'image' ? 'jpg' : 'mp4',
-        source_system: 'runway',
-        asset_type: type,
-        url: assetUrl,
-        instruction: instruction,
-        approved: false
+    await supabase
+      .from('generation_jobs')
+      .update({
+        status: 'running',
+        provider_task_id: taskId
       })
-      .select()
-      .single();
-
-    if (dbError) {
-      console.error('Database error:', dbError);
-      throw new Error(`Database error: ${dbError.message}`);
-    }
-
-    console.log(`RunwayML ${type} generation completed with format specs: ${formatSpecs?.specification}`);
+      .eq('id', job.id);
 
     return new Response(JSON.stringify({ 
       success: true, 
-      asset_url: assetUrl,
-      asset_id: asset.id,
+      job_id: job.id,
       type: type,
       runway_task_id: taskId,
-      status: finalStatus,
-      message: message + ` Generated with specs: ${formatSpecs?.specification || 'default'}`
+      status: 'running',
+      message: `${type} generation queued (Task ID: ${taskId}). Generated with specs: ${formatSpecs?.specification || 'default'}`
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
-
   } catch (error) {
     console.error('Error in runwayml-generate function:', error);
+
+    // Hitting the plan limit is an expected outcome, so the message goes back as data
+    if (error.name === 'QuotaExceeded') {
+      return new Response(JSON.stringify({
+        success: false,
+        quota_exceeded: true,
+        error: error.message
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
     
     // Determine type for placeholder
     let type = 'image';
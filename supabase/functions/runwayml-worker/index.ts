@@ -0,0 +1,336 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { requireServiceRole } from '../_shared/auth.ts';
+import { resolveApiKey } from '../_shared/apiKeys.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface GenerationJob {
+  id: string;
+  workspace_id: string;
+  owner_id: string | null;
+  job_type: 'image' | 'video';
+  progress: number;
+  stage: string | null;
+  started_at: string | null;
+  request: {
+    instruction?: string;
+    formatSpecs?: { channel?: string };
+    apiEndpoint?: string;
+    requestBody?: Record<string, unknown>;
+    // Set when a reviewer asked for changes to an earlier asset
+    regeneratedFrom?: string;
+  } | null;
+  provider_task_id: string | null;
+  inventory_id: string | null;
+  attempts: number;
+  store_attempts: number;
+  created_at: string;
+  updated_at: string;
+}
+
+interface RunwayTask {
+  id: string;
+  status: string;
+  progress?: number;
+  output?: string[] | string;
+  artifacts?: { url: string }[];
+  url?: string;
+  failure?: string;
+  failureReason?: string;
+}
+
+const BATCH_SIZE = 25;
+const JOB_TIMEOUT_MS = 30 * 60 * 1000; // Give up on tasks that are still running after 30 minutes
+const CLAIM_TIMEOUT_MS = 5 * 60 * 1000; // A run that claimed a finished task but never stored it has died
+const MAX_SUBMIT_ATTEMPTS = 3;
+const MAX_STORE_ATTEMPTS = 3;
+
+// Runway returns the output either as an array of URLs, a single URL or artifacts
+function extractOutputUrl(taskData: RunwayTask): string | null {
+  if (Array.isArray(taskData.output) && taskData.output.length > 0) {
+    return taskData.output[0];
+  }
+  if (typeof taskData.output === 'string') {
+    return taskData.output;
+  }
+  if (Array.isArray(taskData.artifacts) && taskData.artifacts.length > 0) {
+    return taskData.artifacts[0].url;
+  }
+  return taskData.url || null;
+}
+
+// Extrapolate from how long the task took to reach its current progress
+function estimateFinish(job: GenerationJob, progress: number): string | null {
+  if (progress <= 0) return null;
+  const elapsed = Date.now() - new Date(job.started_at || job.created_at).getTime();
+  return new Date(Date.now() + elapsed * (1 - progress) / progress).toISOString();
+}
+
+async function failJob(supabase: SupabaseClient, jobId: string, error: string) {
+  await supabase
+    .from('generation_jobs')
+    .update({
+      status: 'failed',
+      stage: 'failed',
+      error,
+      eta_at: null,
+      completed_at: new Date().toISOString()
+    })
+    .eq('id', jobId);
+}
+
+// Jobs left in 'queued' were never submitted (e.g. the request died mid-way)
+async function submitJob(supabase: SupabaseClient, job: GenerationJob, runwayApiKey: string) {
+  const { apiEndpoint, requestBody } = job.request || {};
+  if (!apiEndpoint || !requestBody) {
+    await failJob(supabase, job.id, 'Job is missing its Runway request');
+    return 'failed';
+  }
+
+  if (job.attempts >= MAX_SUBMIT_ATTEMPTS) {
+    await failJob(supabase, job.id, `Task submission failed after ${job.attempts} attempts`);
+    return 'failed';
+  }
+
+  const response = await fetch(apiEndpoint, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${runwayApiKey}`,
+      'Content-Type': 'application/json',
+      'X-Runway-Version': '2024-11-06'
+    },
+    body: JSON.stringify(requestBody),
+  });
+
+  const data = await response.json().catch(() => null);
+
+  if (!response.ok || !data?.id) {
+    console.error(`Submission failed for job ${job.id}:`, response.status, data);
+    await supabase
+      .from('generation_jobs')
+      .update({ attempts: job.attempts + 1 })
+      .eq('id', job.id);
+    return 'queued';
+  }
+
+  await supabase
+    .from('generation_jobs')
+    .update({
+      status: 'running',
+      stage: 'submitted',
+      started_at: new Date().toISOString(),
+      provider_task_id: data.id,
+      attempts: job.attempts + 1
+    })
+    .eq('id', job.id);
+
+  return 'running';
+}
+
+// Take a finished task for this run. The worker runs every minute and a run can
+// outlast that, so the job is only stored by whichever run moves it from the
+// state both of them loaded.
+async function claimJob(supabase: SupabaseClient, job: GenerationJob) {
+  const { data: claimed } = await supabase
+    .from('generation_jobs')
+    .update({ stage: 'storing' })
+    .eq('id', job.id)
+    .eq('status', 'running')
+    .eq('updated_at', job.updated_at)
+    .select('id')
+    .maybeSingle();
+
+  return !!claimed;
+}
+
+async function pollJob(supabase: SupabaseClient, job: GenerationJob, runwayApiKey: string) {
+  if (job.stage === 'storing' && Date.now() - new Date(job.updated_at).getTime() < CLAIM_TIMEOUT_MS) {
+    return 'running';
+  }
+
+  const statusResponse = await fetch(`https://api.dev.runwayml.com/v1/tasks/${job.provider_task_id}`, {
+    method: 'GET',
+    headers: {
+      'Authorization': `Bearer ${runwayApiKey}`,
+      'Content-Type': 'application/json',
+      'X-Runway-Version': '2024-11-06'
+    }
+  });
+
+  if (!statusResponse.ok) {
+    console.error(`Failed to check task ${job.provider_task_id}:`, statusResponse.status);
+    // Move it to the back of the queue so the rest of the backlog gets polled
+    await supabase
+      .from('generation_jobs')
+      .update({ updated_at: new Date().toISOString() })
+      .eq('id', job.id);
+    return 'running';
+  }
+
+  const taskData: RunwayTask = await statusResponse.json();
+  console.log(`Task ${job.provider_task_id} status:`, taskData.status, taskData.progress);
+
+  if (taskData.status === 'SUCCEEDED' || taskData.status === 'COMPLETED') {
+    const assetUrl = extractOutputUrl(taskData);
+    if (!assetUrl) {
+      await failJob(supabase, job.id, 'Task completed without an output URL');
+      return 'failed';
+    }
+
+    if (!await claimJob(supabase, job)) {
+      console.log(`Job ${job.id} is being stored by another run`);
+      return 'running';
+    }
+
+    const { data: asset, error: assetError } = await supabase
+      .from('generated_assets')
+      .insert({
+        channel: job.request?.formatSpecs?.channel || 'instagram',
+        format: job.job_type === 'image' ? 'jpg' : 'mp4',
+        source_system: 'runway',
+        asset_type: job.job_type,
+        url: assetUrl,
+        instruction: job.request?.instruction,
+        inventory_id: job.inventory_id,
+        // A regeneration goes straight back to the reviewer who asked for it
+        review_status: job.request?.regeneratedFrom ? 'in_review' : 'draft',
+        submitted_at: job.request?.regeneratedFrom ? new Date().toISOString() : null,
+        regenerated_from: job.request?.regeneratedFrom ?? null,
+        owner_id: job.owner_id,
+        workspace_id: job.workspace_id
+      })
+      .select()
+      .single();
+
+    if (assetError) {
+      console.error(`Failed to store asset for job ${job.id}:`, assetError);
+      const storeAttempts = job.store_attempts + 1;
+      if (storeAttempts >= MAX_STORE_ATTEMPTS) {
+        await failJob(supabase, job.id, `Failed to save the result after ${storeAttempts} attempts: ${assetError.message}`);
+        return 'failed';
+      }
+
+      // Release the claim so the next run tries again
+      await supabase
+        .from('generation_jobs')
+        .update({ stage: taskData.status.toLowerCase(), store_attempts: storeAttempts })
+        .eq('id', job.id);
+      return 'running';
+    }
+
+    await supabase
+      .from('generation_jobs')
+      .update({
+        status: 'succeeded',
+        stage: 'succeeded',
+        progress: 1,
+        eta_at: null,
+        result_url: assetUrl,
+        generated_asset_id: asset.id,
+        completed_at: new Date().toISOString()
+      })
+      .eq('id', job.id);
+
+    return 'succeeded';
+  }
+
+  if (taskData.status === 'FAILED' || taskData.status === 'CANCELLED') {
+    await failJob(supabase, job.id, taskData.failure || taskData.failureReason || `Task ${taskData.status.toLowerCase()}`);
+    return 'failed';
+  }
+
+  // Time spent waiting to be submitted doesn't count against the task
+  if (Date.now() - new Date(job.started_at || job.created_at).getTime() > JOB_TIMEOUT_MS) {
+    await failJob(supabase, job.id, 'Task timed out after 30 minutes');
+    return 'failed';
+  }
+
+  // Still PENDING / THROTTLED / RUNNING. Every poll writes, even when nothing
+  // moved, so updated_at sends the job to the back of the batch order.
+  const progress = typeof taskData.progress === 'number' ? Math.min(Math.max(taskData.progress, 0), 0.99) : Number(job.progress);
+  const stage = taskData.status.toLowerCase();
+  await supabase
+    .from('generation_jobs')
+    .update(progress !== Number(job.progress) || stage !== job.stage
+      ? { progress, stage, eta_at: estimateFinish(job, progress) }
+      : { updated_at: new Date().toISOString() })
+    .eq('id', job.id);
+
+  return 'running';
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    requireServiceRole(req);
+
+    const supabase = createClient(supabaseUrl!, supabaseServiceKey!);
+
+    const { data: jobs, error } = await supabase
+      .from('generation_jobs')
+      .select('*')
+      .eq('provider', 'runway')
+      .in('status', ['queued', 'running'])
+      .order('updated_at', { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (error) {
+      throw new Error(`Failed to load generation jobs: ${error.message}`);
+    }
+
+    console.log(`Advancing ${jobs?.length || 0} Runway jobs`);
+
+    // Tasks must be polled with the key of the workspace that submitted them
+    const apiKeys = new Map<string, string | undefined>();
+    const results: Record<string, string> = {};
+    for (const job of (jobs || []) as GenerationJob[]) {
+      try {
+        if (!apiKeys.has(job.workspace_id)) {
+          apiKeys.set(job.workspace_id, await resolveApiKey(supabase, job.workspace_id, 'runwayml', 'RUNWAYML_API_KEY'));
+        }
+        const runwayApiKey = apiKeys.get(job.workspace_id);
+        if (!runwayApiKey) {
+          await failJob(supabase, job.id, 'RunwayML API key not configured');
+          results[job.id] = 'failed';
+          continue;
+        }
+
+        results[job.id] = job.provider_task_id
+          ? await pollJob(supabase, job, runwayApiKey)
+          : await submitJob(supabase, job, runwayApiKey);
+      } catch (jobError) {
+        console.error(`Error advancing job ${job.id}:`, jobError);
+        results[job.id] = 'error';
+      }
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      processed: Object.keys(results).length,
+      results
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in runwayml-worker function:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: error.message
+    }), {
+      status: error.message === 'Unauthorized' ? 401 : 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,201 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { requireServiceRole } from '../_shared/auth.ts';
+import { invokeFunction } from '../_shared/functions.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Uploads run inside this invocation, so keep each run small
+const DISPATCH_BATCH = 5;
+const MAX_ATTEMPTS = 5;
+// Delay before attempt n + 1, indexed by attempts made so far
+const RETRY_BACKOFF_MINUTES = [1, 5, 15, 60];
+// A post left in 'publishing' this long belongs to a run that died
+const STALE_PUBLISHING_MS = 15 * 60 * 1000;
+
+const POST_COLUMNS = 'id, workspace_id, asset_id, generated_asset_id, created_by, asset_url, asset_type, platform, title, caption, link, options, attempts';
+
+interface ScheduledPost {
+  id: string;
+  workspace_id: string;
+  asset_id: string | null;
+  generated_asset_id: string | null;
+  created_by: string | null;
+  asset_url: string;
+  asset_type: 'image' | 'video';
+  // Any network the publish function has a provider for
+  platform: string;
+  title: string | null;
+  caption: string;
+  link: string | null;
+  options: Record<string, unknown>;
+  attempts: number;
+}
+
+interface PublishResult {
+  postId: string | null;
+  url: string | null;
+}
+
+async function publishPost(post: ScheduledPost): Promise<PublishResult> {
+  const data = await invokeFunction('publish', {
+    platform: post.platform,
+    workspaceId: post.workspace_id,
+    assetId: post.asset_id,
+    generatedAssetId: post.generated_asset_id,
+    scheduledPostId: post.id,
+    createdBy: post.created_by,
+    media: [{ url: post.asset_url, type: post.asset_type }],
+    text: post.caption,
+    // YouTube requires a title, so fall back to the caption's first line
+    title: post.title || (post.platform === 'youtube' ? post.caption.split('\n')[0] || 'New video' : ''),
+    link: post.link ?? '',
+    options: post.options
+  });
+
+  if (!data.success) {
+    throw new Error(data.error || `Failed to publish to ${post.platform}`);
+  }
+  return { postId: data.publication?.external_id ?? null, url: data.publication?.url ?? null };
+}
+
+// Record a failed attempt: back off and try again, or give up
+async function recordFailure(supabase: SupabaseClient, post: ScheduledPost, attempts: number, error: string) {
+  const giveUp = attempts >= MAX_ATTEMPTS;
+  const backoffMinutes = RETRY_BACKOFF_MINUTES[Math.min(attempts - 1, RETRY_BACKOFF_MINUTES.length - 1)];
+
+  await supabase
+    .from('scheduled_posts')
+    .update({
+      status: giveUp ? 'failed' : 'scheduled',
+      attempts,
+      last_error: error,
+      next_attempt_at: giveUp ? null : new Date(Date.now() + backoffMinutes * 60 * 1000).toISOString()
+    })
+    .eq('id', post.id);
+
+  return giveUp ? 'failed' : 'retrying';
+}
+
+async function dispatchPost(supabase: SupabaseClient, post: ScheduledPost) {
+  // Claim the post so an overlapping run doesn't publish it twice
+  const { data: claimed } = await supabase
+    .from('scheduled_posts')
+    .update({ status: 'publishing' })
+    .eq('id', post.id)
+    .eq('status', 'scheduled')
+    .select('id')
+    .maybeSingle();
+
+  if (!claimed) return 'skipped';
+
+  const attempts = post.attempts + 1;
+  try {
+    console.log(`Publishing scheduled post ${post.id} to ${post.platform} (attempt ${attempts})`);
+    const result = await publishPost(post);
+
+    await supabase
+      .from('scheduled_posts')
+      .update({
+        status: 'published',
+        attempts,
+        last_error: null,
+        next_attempt_at: null,
+        platform_post_id: result.postId,
+        platform_url: result.url,
+        published_at: new Date().toISOString()
+      })
+      .eq('id', post.id);
+    return 'published';
+
+  } catch (error) {
+    console.error(`Failed to publish scheduled post ${post.id}:`, error);
+    return recordFailure(supabase, post, attempts, error.message);
+  }
+}
+
+// Posts stuck in 'publishing' count as a failed attempt
+async function releaseStalePosts(supabase: SupabaseClient) {
+  const staleBefore = new Date(Date.now() - STALE_PUBLISHING_MS).toISOString();
+  const { data: stale, error } = await supabase
+    .from('scheduled_posts')
+    .select(POST_COLUMNS)
+    .eq('status', 'publishing')
+    .lt('updated_at', staleBefore);
+
+  if (error) {
+    throw new Error(`Failed to load stale posts: ${error.message}`);
+  }
+
+  for (const post of (stale || []) as ScheduledPost[]) {
+    await recordFailure(supabase, post, post.attempts + 1, 'Publishing timed out');
+  }
+
+  return stale?.length || 0;
+}
+
+async function dispatchDuePosts(supabase: SupabaseClient) {
+  const now = new Date().toISOString();
+  const { data: due, error } = await supabase
+    .from('scheduled_posts')
+    .select(POST_COLUMNS)
+    .eq('status', 'scheduled')
+    .lte('publish_at', now)
+    .or(`next_attempt_at.is.null,next_attempt_at.lte.${now}`)
+    .order('publish_at', { ascending: true })
+    .limit(DISPATCH_BATCH);
+
+  if (error) {
+    throw new Error(`Failed to load due posts: ${error.message}`);
+  }
+
+  const outcomes: Record<string, number> = {};
+  for (const post of (due || []) as ScheduledPost[]) {
+    const outcome = await dispatchPost(supabase, post);
+    outcomes[outcome] = (outcomes[outcome] || 0) + 1;
+  }
+
+  return outcomes;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    requireServiceRole(req);
+
+    const supabase = createClient(supabaseUrl!, supabaseServiceKey!);
+
+    const released = await releaseStalePosts(supabase);
+    const outcomes = await dispatchDuePosts(supabase);
+
+    console.log('Social scheduler run:', { released, ...outcomes });
+
+    return new Response(JSON.stringify({
+      success: true,
+      released,
+      ...outcomes
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in social-scheduler function:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: error.message
+    }), {
+      status: error.message === 'Unauthorized' ? 401 : 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
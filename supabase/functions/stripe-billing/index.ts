@@ -0,0 +1,192 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getAuthenticatedUser, requireWorkspaceRole } from '../_shared/auth.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+const stripeSecretKey = Deno.env.get('STRIPE_SECRET_KEY');
+// Point at stripe-mock (http://localhost:12111) to exercise the function without a Stripe account
+const stripeApiBase = Deno.env.get('STRIPE_API_BASE') || 'https://api.stripe.com';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface BillingRequest {
+  action: 'checkout' | 'portal';
+  workspaceId: string;
+  planId?: string;
+  returnUrl: string;
+}
+
+// Stripe's API takes form-encoded bodies with bracketed keys for nested fields
+async function stripeRequest(path: string, params: Record<string, string>) {
+  if (!stripeSecretKey) {
+    throw new Error('Stripe is not configured. Set STRIPE_SECRET_KEY for the billing functions.');
+  }
+
+  const response = await fetch(`${stripeApiBase}/v1/${path}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${stripeSecretKey}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams(params),
+  });
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data) {
+    console.error(`Stripe ${path} failed:`, response.status, data);
+    throw new Error(`Stripe error: ${data?.error?.message || `HTTP ${response.status}`}`);
+  }
+
+  return data;
+}
+
+// The workspace's Stripe customer, created the first time it checks out
+async function ensureCustomer(supabase: SupabaseClient, workspaceId: string, email: string | undefined): Promise<string> {
+  const { data: existing, error } = await supabase
+    .from('billing_customers')
+    .select('stripe_customer_id')
+    .eq('workspace_id', workspaceId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load billing customer: ${error.message}`);
+  }
+  if (existing) return existing.stripe_customer_id;
+
+  const { data: workspace } = await supabase
+    .from('client_configs')
+    .select('client_name')
+    .eq('id', workspaceId)
+    .single();
+
+  const customer = await stripeRequest('customers', {
+    name: workspace?.client_name || workspaceId,
+    ...(email ? { email } : {}),
+    'metadata[workspace_id]': workspaceId
+  });
+
+  const { error: insertError } = await supabase
+    .from('billing_customers')
+    .insert({ workspace_id: workspaceId, stripe_customer_id: customer.id });
+
+  if (insertError) {
+    throw new Error(`Failed to store billing customer: ${insertError.message}`);
+  }
+
+  return customer.id;
+}
+
+async function createCheckout(supabase: SupabaseClient, request: BillingRequest, email: string | undefined) {
+  const { data: plan, error: planError } = await supabase
+    .from('plans')
+    .select('id, name, stripe_price_id')
+    .eq('id', request.planId ?? '')
+    .maybeSingle();
+
+  if (planError || !plan) {
+    throw new Error('Plan not found');
+  }
+  if (!plan.stripe_price_id) {
+    throw new Error(`The ${plan.name} plan cannot be bought online`);
+  }
+
+  // Plan changes on an existing subscription go through the portal, or the workspace would pay twice
+  const { data: subscription } = await supabase
+    .from('workspace_subscriptions')
+    .select('stripe_subscription_id, status')
+    .eq('workspace_id', request.workspaceId)
+    .maybeSingle();
+
+  if (subscription?.stripe_subscription_id && subscription.status !== 'canceled') {
+    throw new Error('This workspace already has a subscription. Use Manage Subscription to change plans.');
+  }
+
+  const customerId = await ensureCustomer(supabase, request.workspaceId, email);
+
+  // The workspace rides along in metadata so stripe-webhook can attribute every event
+  const session = await stripeRequest('checkout/sessions', {
+    mode: 'subscription',
+    customer: customerId,
+    client_reference_id: request.workspaceId,
+    'line_items[0][price]': plan.stripe_price_id,
+    'line_items[0][quantity]': '1',
+    'metadata[workspace_id]': request.workspaceId,
+    'subscription_data[metadata][workspace_id]': request.workspaceId,
+    success_url: request.returnUrl,
+    cancel_url: request.returnUrl
+  });
+
+  return { url: session.url };
+}
+
+async function createPortal(supabase: SupabaseClient, request: BillingRequest) {
+  const { data: customer, error } = await supabase
+    .from('billing_customers')
+    .select('stripe_customer_id')
+    .eq('workspace_id', request.workspaceId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load billing customer: ${error.message}`);
+  }
+  if (!customer) {
+    throw new Error('This workspace has no billing account yet. Choose a plan to set one up.');
+  }
+
+  const session = await stripeRequest('billing_portal/sessions', {
+    customer: customer.stripe_customer_id,
+    return_url: request.returnUrl
+  });
+
+  return { url: session.url };
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const request: BillingRequest = await req.json();
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Supabase configuration missing');
+    }
+    if (!request.returnUrl) {
+      throw new Error('returnUrl is required');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const user = await getAuthenticatedUser(req, supabase);
+    // Only owners pay for a workspace
+    await requireWorkspaceRole(supabase, request.workspaceId, user.id, ['owner']);
+
+    let result;
+    if (request.action === 'checkout') {
+      result = await createCheckout(supabase, request, user.email);
+    } else if (request.action === 'portal') {
+      result = await createPortal(supabase, request);
+    } else {
+      throw new Error(`Unknown action: ${request.action}`);
+    }
+
+    return new Response(JSON.stringify({ success: true, ...result }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in stripe-billing function:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: error.message
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,443 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getAuthenticatedUser } from '../_shared/auth.ts';
+import { timingSafeEqual, hmacSha256Hex } from '../_shared/crypto.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, stripe-signature',
+};
+
+// Stripe's own libraries reject signatures older than five minutes
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+const SUBSCRIPTION_EVENTS = ['customer.subscription.created', 'customer.subscription.updated', 'customer.subscription.deleted'];
+const INVOICE_EVENTS = ['invoice.finalized', 'invoice.paid', 'invoice.payment_failed', 'invoice.voided', 'invoice.marked_uncollectible'];
+
+// Invoices in these states never change again, so late deliveries must not reopen them
+const FINAL_INVOICE_STATUSES = ['paid', 'void', 'uncollectible'];
+
+type Metadata = Record<string, string> | null | undefined;
+
+interface StripeEvent {
+  id: string;
+  type: string;
+  created: number;
+  data: { object: Record<string, unknown> };
+}
+
+interface StripeCheckoutSession {
+  client_reference_id?: string | null;
+  customer?: string | null;
+  metadata?: Metadata;
+}
+
+interface StripeSubscription {
+  id: string;
+  customer: string;
+  status: string;
+  cancel_at_period_end?: boolean;
+  current_period_start?: number;
+  current_period_end?: number;
+  metadata?: Metadata;
+  items?: {
+    data: {
+      price?: { id: string };
+      current_period_start?: number;
+      current_period_end?: number;
+    }[];
+  };
+}
+
+interface StripeInvoice {
+  id: string;
+  customer: string;
+  number?: string | null;
+  status?: string | null;
+  currency?: string;
+  amount_due?: number;
+  amount_paid?: number;
+  hosted_invoice_url?: string | null;
+  invoice_pdf?: string | null;
+  period_start?: number;
+  period_end?: number;
+  created?: number;
+  metadata?: Metadata;
+  subscription_details?: { metadata?: Metadata };
+  parent?: { subscription_details?: { metadata?: Metadata } };
+}
+
+interface WebhookEvent {
+  id: string;
+  status: string;
+  attempts: number;
+  payload: StripeEvent;
+}
+
+interface ProcessResult {
+  status: 'processed' | 'ignored';
+  note?: string;
+}
+
+// Stripe-Signature is "t=<unix time>,v1=<hex HMAC of `${t}.${body}`>"; during
+// secret rotation there can be more than one v1 entry
+async function verifySignature(rawBody: string, header: string | null): Promise<boolean> {
+  const secret = Deno.env.get('STRIPE_WEBHOOK_SECRET');
+  if (!secret) {
+    console.error('STRIPE_WEBHOOK_SECRET is not set; rejecting Stripe deliveries');
+    return false;
+  }
+  if (!header) return false;
+
+  let timestamp: number | null = null;
+  const signatures: string[] = [];
+  for (const part of header.split(',')) {
+    const [key, value] = part.trim().split('=');
+    if (key === 't') timestamp = Number(value);
+    if (key === 'v1' && value) signatures.push(value.toLowerCase());
+  }
+
+  if (!timestamp || Math.abs(Date.now() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const expected = await hmacSha256Hex(secret, `${timestamp}.${rawBody}`);
+  return signatures.some(signature => timingSafeEqual(signature, expected));
+}
+
+// Record the delivery. Returns null when it was already handled.
+async function recordEvent(supabase: SupabaseClient, event: StripeEvent, signature: string): Promise<WebhookEvent | null> {
+  const { data: inserted, error: insertError } = await supabase
+    .from('webhook_events')
+    .upsert({
+      provider: 'stripe',
+      event_key: event.id,
+      event_type: event.type,
+      payload: event,
+      signature
+    }, { onConflict: 'provider,event_key', ignoreDuplicates: true })
+    .select('id, status, attempts, payload')
+    .maybeSingle();
+
+  if (insertError) {
+    throw new Error(`Failed to record webhook event: ${insertError.message}`);
+  }
+  if (inserted) return inserted;
+
+  const { data: existing, error: existingError } = await supabase
+    .from('webhook_events')
+    .select('id, status, attempts, payload')
+    .eq('provider', 'stripe')
+    .eq('event_key', event.id)
+    .single();
+
+  if (existingError) {
+    throw new Error(`Failed to load webhook event: ${existingError.message}`);
+  }
+
+  // A retry after a failed attempt is processed again
+  if (existing.status === 'processed' || existing.status === 'ignored') {
+    console.log('Duplicate webhook delivery, already handled:', event.id);
+    return null;
+  }
+  return existing;
+}
+
+const toTimestamp = (seconds?: number | null) => seconds ? new Date(seconds * 1000).toISOString() : null;
+
+// Objects we created carry the workspace in metadata; anything else is matched by customer
+async function resolveWorkspace(supabase: SupabaseClient, metadata: Metadata, customerId: string | null | undefined): Promise<string | null> {
+  if (metadata?.workspace_id) return metadata.workspace_id;
+  if (!customerId) return null;
+
+  const { data, error } = await supabase
+    .from('billing_customers')
+    .select('workspace_id')
+    .eq('stripe_customer_id', customerId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to look up billing customer: ${error.message}`);
+  }
+  return data?.workspace_id ?? null;
+}
+
+async function linkCustomer(supabase: SupabaseClient, workspaceId: string, customerId: string) {
+  const { error } = await supabase
+    .from('billing_customers')
+    .upsert({ workspace_id: workspaceId, stripe_customer_id: customerId }, { onConflict: 'workspace_id' });
+
+  if (error) {
+    throw new Error(`Failed to link billing customer: ${error.message}`);
+  }
+}
+
+async function handleCheckoutCompleted(supabase: SupabaseClient, session: StripeCheckoutSession): Promise<ProcessResult> {
+  const workspaceId = session.client_reference_id || session.metadata?.workspace_id;
+  if (!workspaceId || !session.customer) {
+    return { status: 'ignored', note: 'Checkout session has no workspace or customer' };
+  }
+
+  // The subscription itself arrives in its own customer.subscription.* event
+  await linkCustomer(supabase, workspaceId, session.customer);
+  return { status: 'processed' };
+}
+
+// Stripe has more states than quotas care about: anything not in good standing is past_due
+function mapSubscriptionStatus(status: string): string {
+  switch (status) {
+    case 'active':
+    case 'trialing':
+      return status;
+    case 'canceled':
+    case 'incomplete_expired':
+      return 'canceled';
+    default:
+      return 'past_due';
+  }
+}
+
+async function handleSubscription(supabase: SupabaseClient, event: StripeEvent, subscription: StripeSubscription): Promise<ProcessResult> {
+  const workspaceId = await resolveWorkspace(supabase, subscription.metadata, subscription.customer);
+  if (!workspaceId) {
+    return { status: 'ignored', note: `No workspace for customer ${subscription.customer}` };
+  }
+
+  const item = subscription.items?.data?.[0];
+  const priceId = item?.price?.id;
+  const { data: plan, error: planError } = await supabase
+    .from('plans')
+    .select('id')
+    .eq('stripe_price_id', priceId ?? '')
+    .maybeSingle();
+
+  if (planError) {
+    throw new Error(`Failed to look up plan: ${planError.message}`);
+  }
+  if (!plan) {
+    // Failing keeps the event for replay once the price is assigned to a plan
+    throw new Error(`No plan is sold with Stripe price ${priceId}`);
+  }
+
+  const { data: existing, error: existingError } = await supabase
+    .from('workspace_subscriptions')
+    .select('stripe_subscription_id, status, stripe_synced_at')
+    .eq('workspace_id', workspaceId)
+    .maybeSingle();
+
+  if (existingError) {
+    throw new Error(`Failed to load subscription: ${existingError.message}`);
+  }
+
+  const eventTime = toTimestamp(event.created)!;
+  if (existing?.stripe_synced_at && new Date(existing.stripe_synced_at) > new Date(eventTime)) {
+    return { status: 'ignored', note: 'Older than the subscription state already stored' };
+  }
+
+  const status = event.type === 'customer.subscription.deleted' ? 'canceled' : mapSubscriptionStatus(subscription.status);
+  const isOtherSubscription = !!existing?.stripe_subscription_id && existing.stripe_subscription_id !== subscription.id;
+  if (isOtherSubscription && status === 'canceled' && existing?.status !== 'canceled') {
+    return { status: 'ignored', note: 'Cancelled subscription was already replaced' };
+  }
+
+  await linkCustomer(supabase, workspaceId, subscription.customer);
+
+  // Newer API versions report the billing period per item
+  const { error } = await supabase
+    .from('workspace_subscriptions')
+    .upsert({
+      workspace_id: workspaceId,
+      plan_id: plan.id,
+      status,
+      stripe_subscription_id: subscription.id,
+      cancel_at_period_end: subscription.cancel_at_period_end ?? false,
+      current_period_start: toTimestamp(subscription.current_period_start ?? item?.current_period_start),
+      current_period_end: toTimestamp(subscription.current_period_end ?? item?.current_period_end),
+      stripe_synced_at: eventTime
+    }, { onConflict: 'workspace_id' });
+
+  if (error) {
+    throw new Error(`Failed to store subscription: ${error.message}`);
+  }
+
+  console.log(`Workspace ${workspaceId} is now on ${plan.id} (${status})`);
+  return { status: 'processed' };
+}
+
+async function handleInvoice(supabase: SupabaseClient, invoice: StripeInvoice): Promise<ProcessResult> {
+  const metadata = invoice.parent?.subscription_details?.metadata
+    ?? invoice.subscription_details?.metadata
+    ?? invoice.metadata;
+  const workspaceId = await resolveWorkspace(supabase, metadata, invoice.customer);
+  if (!workspaceId) {
+    return { status: 'ignored', note: `No workspace for customer ${invoice.customer}` };
+  }
+
+  const { data: existing } = await supabase
+    .from('invoices')
+    .select('status')
+    .eq('stripe_invoice_id', invoice.id)
+    .maybeSingle();
+
+  if (existing && FINAL_INVOICE_STATUSES.includes(existing.status) && existing.status !== invoice.status) {
+    return { status: 'ignored', note: `Invoice is already ${existing.status}` };
+  }
+
+  const { error } = await supabase
+    .from('invoices')
+    .upsert({
+      workspace_id: workspaceId,
+      stripe_invoice_id: invoice.id,
+      number: invoice.number ?? null,
+      status: invoice.status || 'open',
+      currency: invoice.currency || 'usd',
+      amount_due: invoice.amount_due ?? 0,
+      amount_paid: invoice.amount_paid ?? 0,
+      hosted_invoice_url: invoice.hosted_invoice_url ?? null,
+      invoice_pdf: invoice.invoice_pdf ?? null,
+      period_start: toTimestamp(invoice.period_start),
+      period_end: toTimestamp(invoice.period_end),
+      issued_at: toTimestamp(invoice.created) ?? new Date().toISOString()
+    }, { onConflict: 'stripe_invoice_id' });
+
+  if (error) {
+    throw new Error(`Failed to store invoice: ${error.message}`);
+  }
+  return { status: 'processed' };
+}
+
+async function processEvent(supabase: SupabaseClient, event: StripeEvent): Promise<ProcessResult> {
+  const object = event.data?.object;
+
+  if (event.type === 'checkout.session.completed') {
+    return handleCheckoutCompleted(supabase, object as StripeCheckoutSession);
+  }
+  if (SUBSCRIPTION_EVENTS.includes(event.type)) {
+    return handleSubscription(supabase, event, object as unknown as StripeSubscription);
+  }
+  if (INVOICE_EVENTS.includes(event.type)) {
+    return handleInvoice(supabase, object as unknown as StripeInvoice);
+  }
+  return { status: 'ignored', note: `Unhandled event type: ${event.type}` };
+}
+
+// Run the event and store the outcome on its webhook_events row
+async function runStoredEvent(supabase: SupabaseClient, stored: WebhookEvent) {
+  let status: string;
+  let error: string | null = null;
+  try {
+    const result = await processEvent(supabase, stored.payload);
+    status = result.status;
+    error = result.note ?? null;
+  } catch (processError) {
+    status = 'failed';
+    error = processError.message;
+  }
+
+  const { error: updateError } = await supabase
+    .from('webhook_events')
+    .update({
+      status,
+      error,
+      attempts: stored.attempts + 1,
+      processed_at: new Date().toISOString()
+    })
+    .eq('id', stored.id);
+
+  if (updateError) {
+    console.error('Failed to update webhook event status:', updateError);
+  }
+
+  return { status, error };
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // The signature covers the exact bytes Stripe sent, so read the raw body
+    const rawBody = await req.text();
+    const body = JSON.parse(rawBody);
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Admins replay a stored event from the dashboard with their own session
+    if (body.replayEventId) {
+      const user = await getAuthenticatedUser(req, supabase);
+      if (user.app_metadata?.role !== 'admin') {
+        return jsonResponse({ success: false, error: 'Only admins can replay webhook events' }, 403);
+      }
+
+      const { data: stored, error: storedError } = await supabase
+        .from('webhook_events')
+        .select('id, status, attempts, payload')
+        .eq('id', body.replayEventId)
+        .eq('provider', 'stripe')
+        .single();
+
+      if (storedError || !stored) {
+        throw new Error('Webhook event not found');
+      }
+
+      console.log('Replaying webhook event:', stored.id);
+      const result = await runStoredEvent(supabase, stored);
+
+      return jsonResponse({
+        success: result.status !== 'failed',
+        event_id: stored.id,
+        ...result
+      });
+    }
+
+    const signature = req.headers.get('stripe-signature');
+    if (!(await verifySignature(rawBody, signature))) {
+      console.error('Rejected Stripe webhook with invalid signature');
+      return jsonResponse({ success: false, error: 'Invalid signature' }, 400);
+    }
+
+    const event = body as StripeEvent;
+    console.log('Received Stripe webhook:', event.type, event.id);
+
+    const stored = await recordEvent(supabase, event, signature!);
+    if (!stored) {
+      return jsonResponse({
+        success: true,
+        message: 'Duplicate webhook ignored',
+        event_type: event.type
+      });
+    }
+
+    const result = await runStoredEvent(supabase, stored);
+    if (result.status === 'failed') {
+      // Non-2xx makes Stripe retry; the event row keeps the error for replay
+      throw new Error(result.error ?? 'Webhook processing failed');
+    }
+
+    return jsonResponse({
+      success: true,
+      event_type: event.type,
+      status: result.status,
+      processed_at: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Error processing Stripe webhook:', error);
+    return jsonResponse({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString()
+    }, 500);
+  }
+});
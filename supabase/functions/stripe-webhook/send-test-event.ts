@@ -0,0 +1,58 @@
+// Signs a fixture from ./fixtures the way Stripe does and posts it to
+// stripe-webhook, so the handler can be exercised without a Stripe account:
+//
+//   STRIPE_WEBHOOK_SECRET=whsec_test WORKSPACE_ID=<workspace uuid> STRIPE_PRICE_ID=<plans.stripe_price_id> \
+//     deno run --allow-env --allow-net --allow-read \
+//     supabase/functions/stripe-webhook/send-test-event.ts customer.subscription.updated [url]
+//
+// The function must be served with the same STRIPE_WEBHOOK_SECRET. Each run
+// gets a fresh event ID, so deliveries are not ignored as duplicates.
+//
+// With a Stripe test-mode account, `stripe listen --forward-to <url>` and
+// `stripe fixtures supabase/functions/stripe-webhook/fixtures/stripe-cli-fixture.json`
+// send the real events instead.
+
+const DEFAULT_URL = 'http://localhost:54321/functions/v1/stripe-webhook';
+const DAY_SECONDS = 24 * 60 * 60;
+
+async function sign(secret: string, payload: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(payload));
+  return Array.from(new Uint8Array(signature))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+const [fixtureName, url = DEFAULT_URL] = Deno.args;
+const secret = Deno.env.get('STRIPE_WEBHOOK_SECRET');
+if (!fixtureName || !secret) {
+  console.error('Usage: STRIPE_WEBHOOK_SECRET=... send-test-event.ts <fixture name> [url]');
+  Deno.exit(1);
+}
+
+const now = Math.floor(Date.now() / 1000);
+const template = await Deno.readTextFile(new URL(`./fixtures/${fixtureName.replace(/\.json$/, '')}.json`, import.meta.url));
+const body = template
+  .replaceAll('{{EVENT_ID}}', `evt_test_${crypto.randomUUID().replaceAll('-', '')}`)
+  .replaceAll('{{NOW_PLUS_30_DAYS}}', String(now + 30 * DAY_SECONDS))
+  .replaceAll('{{NOW}}', String(now))
+  .replaceAll('{{WORKSPACE_ID}}', Deno.env.get('WORKSPACE_ID') ?? '')
+  .replaceAll('{{PRICE_ID}}', Deno.env.get('STRIPE_PRICE_ID') ?? '');
+
+const response = await fetch(url, {
+  method: 'POST',
+  headers: {
+    'Content-Type': 'application/json',
+    'Stripe-Signature': `t=${now},v1=${await sign(secret, `${now}.${body}`)}`
+  },
+  body
+});
+
+console.log(response.status, await response.text());
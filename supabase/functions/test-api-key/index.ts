@@ -0,0 +1,155 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient, User } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getAuthenticatedUser, requireWorkspaceRole } from '../_shared/auth.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const PROVIDERS: Record<string, { provider: string; label: string }> = {
+  OPENAI_API_KEY: { provider: 'openai', label: 'OpenAI' },
+  RUNWAYML_API_KEY: { provider: 'runwayml', label: 'RunwayML' },
+  HEYGEN_API_KEY: { provider: 'heygen', label: 'HeyGen' }
+};
+
+// Cheapest authenticated request each provider offers
+async function validateKey(provider: string, key: string): Promise<string | null> {
+  let response: Response;
+  if (provider === 'openai') {
+    response = await fetch('https://api.openai.com/v1/models', {
+      headers: { 'Authorization': `Bearer ${key}` }
+    });
+  } else if (provider === 'runwayml') {
+    response = await fetch('https://api.dev.runwayml.com/v1/organization', {
+      headers: {
+        'Authorization': `Bearer ${key}`,
+        'X-Runway-Version': '2024-11-06'
+      }
+    });
+  } else {
+    response = await fetch('https://api.heygen.com/v2/user/remaining_quota', {
+      headers: {
+        'Accept': 'application/json',
+        'X-Api-Key': key
+      }
+    });
+  }
+
+  if (response.ok) return null;
+
+  const errorText = await response.text();
+  return response.status === 401 || response.status === 403
+    ? 'The provider rejected this key'
+    : `Validation request failed: ${response.status} - ${errorText.slice(0, 200)}`;
+}
+
+const maskKey = (hint: string | null) => `••••••••${hint || ''}`;
+
+// Platform defaults belong to admins; a workspace's own keys to its owners
+async function requireKeyManager(supabase: SupabaseClient, user: User, workspaceId: string | null) {
+  if (user.app_metadata?.role === 'admin') return;
+  if (!workspaceId) {
+    throw new Error('Only admins can manage platform API keys');
+  }
+  await requireWorkspaceRole(supabase, workspaceId, user.id, ['owner']);
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { keyName, workspaceId = null } = await req.json();
+
+    const providerConfig = PROVIDERS[keyName];
+    if (!providerConfig) {
+      throw new Error(`Unknown API key: ${keyName}`);
+    }
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const user = await getAuthenticatedUser(req, supabase);
+    await requireKeyManager(supabase, user, workspaceId);
+
+    // Same precedence the generation functions use
+    const { data: rows, error: rowsError } = await supabase
+      .from('api_keys')
+      .select('id, workspace_id, key_hint, last_validated_at')
+      .eq('provider', providerConfig.provider)
+      .or(workspaceId ? `workspace_id.eq.${workspaceId},workspace_id.is.null` : 'workspace_id.is.null');
+
+    if (rowsError) {
+      throw new Error(`Failed to load API keys: ${rowsError.message}`);
+    }
+
+    const row = rows?.find(r => r.workspace_id === workspaceId) || rows?.find(r => r.workspace_id === null) || null;
+    const source = row ? (row.workspace_id ? 'workspace' : 'platform') : 'environment';
+
+    let key: string | undefined;
+    if (row) {
+      const { data, error } = await supabase.rpc('get_api_key', {
+        p_workspace_id: workspaceId,
+        p_provider: providerConfig.provider
+      });
+      if (error) {
+        throw new Error(`Failed to read API key: ${error.message}`);
+      }
+      key = data ?? undefined;
+    } else {
+      key = Deno.env.get(keyName);
+    }
+
+    if (!key) {
+      return new Response(JSON.stringify({
+        configured: false,
+        valid: false,
+        source: null
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const validationError = await validateKey(providerConfig.provider, key);
+    const validatedAt = new Date().toISOString();
+
+    if (row) {
+      await supabase
+        .from('api_keys')
+        .update({
+          last_validated_at: validatedAt,
+          validation_error: validationError
+        })
+        .eq('id', row.id);
+    }
+
+    return new Response(JSON.stringify({
+      configured: true,
+      valid: !validationError,
+      source,
+      masked: maskKey(row ? row.key_hint : key.slice(-4)),
+      lastValidatedAt: validatedAt,
+      error: validationError
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in test-api-key function:', error);
+    return new Response(JSON.stringify({
+      configured: false,
+      error: error.message
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
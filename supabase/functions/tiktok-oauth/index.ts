@@ -0,0 +1,228 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getAuthenticatedUser, requireWorkspaceRole } from '../_shared/auth.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const TIKTOK_API_URL = 'https://open.tiktokapis.com/v2';
+const SCOPES = ['user.info.basic', 'user.info.profile', 'video.upload', 'video.publish'];
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { action, code, state, redirectUri, workspaceId } = await req.json();
+
+    // Get environment variables
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const tiktokClientKey = Deno.env.get('TIKTOK_CLIENT_KEY');
+    const tiktokClientSecret = Deno.env.get('TIKTOK_CLIENT_SECRET');
+
+    if (!tiktokClientKey || !tiktokClientSecret) {
+      throw new Error('TikTok OAuth credentials not configured');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseKey);
+    const user = await getAuthenticatedUser(req, supabase);
+    // Anyone in the workspace can check the connection, only editors can change it
+    await requireWorkspaceRole(
+      supabase,
+      workspaceId,
+      user.id,
+      action === 'check_connection' ? ['owner', 'editor', 'viewer'] : ['owner', 'editor']
+    );
+
+    if (action === 'get_auth_url') {
+      if (!redirectUri) {
+        throw new Error('redirectUri is required');
+      }
+
+      const authUrl = new URL('https://www.tiktok.com/v2/auth/authorize/');
+      authUrl.searchParams.set('client_key', tiktokClientKey);
+      authUrl.searchParams.set('redirect_uri', redirectUri);
+      authUrl.searchParams.set('scope', SCOPES.join(','));
+      authUrl.searchParams.set('response_type', 'code');
+      authUrl.searchParams.set('state', state || 'default_state');
+
+      return new Response(JSON.stringify({
+        success: true,
+        auth_url: authUrl.toString()
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (action === 'exchange_code') {
+      if (!code || !redirectUri) {
+        throw new Error('code and redirectUri are required');
+      }
+
+      console.log('Exchanging TikTok code for access token');
+
+      const tokenResponse = await fetch(`${TIKTOK_API_URL}/oauth/token/`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams({
+          client_key: tiktokClientKey,
+          client_secret: tiktokClientSecret,
+          code,
+          grant_type: 'authorization_code',
+          redirect_uri: redirectUri
+        })
+      });
+
+      const tokenData = await tokenResponse.json();
+      if (!tokenResponse.ok || tokenData.error) {
+        console.error('Token exchange failed:', tokenData);
+        throw new Error(tokenData.error_description || 'Failed to exchange code for token');
+      }
+
+      const profileResponse = await fetch(
+        `${TIKTOK_API_URL}/user/info/?fields=open_id,display_name,username,avatar_url`,
+        {
+          headers: {
+            'Authorization': `Bearer ${tokenData.access_token}`
+          }
+        }
+      );
+
+      const profileData = await profileResponse.json();
+      if (!profileResponse.ok || (profileData.error && profileData.error.code !== 'ok')) {
+        console.error('User info request failed:', profileData);
+        throw new Error(profileData.error?.message || 'Failed to get TikTok account information');
+      }
+
+      const profile = profileData.data.user;
+
+      const { error } = await supabase
+        .from('user_social_connections')
+        .upsert({
+          user_id: user.id,
+          workspace_id: workspaceId,
+          platform: 'tiktok',
+          platform_user_id: tokenData.open_id,
+          platform_username: profile.username || null,
+          platform_display_name: profile.display_name || profile.username || 'TikTok Account',
+          access_token: tokenData.access_token,
+          refresh_token: tokenData.refresh_token,
+          // Access tokens last a day; the refresh token lasts a year
+          token_expires_at: new Date(Date.now() + tokenData.expires_in * 1000).toISOString(),
+          scope: tokenData.scope || SCOPES.join(','),
+          is_active: true,
+          metadata: {
+            avatar_url: profile.avatar_url || null,
+            refresh_expires_at: new Date(Date.now() + tokenData.refresh_expires_in * 1000).toISOString()
+          },
+          connected_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        }, {
+          onConflict: 'workspace_id,platform'
+        });
+
+      if (error) {
+        console.error('Database error:', error);
+        throw new Error('Failed to save connection');
+      }
+
+      return new Response(JSON.stringify({
+        success: true,
+        message: 'TikTok connected successfully',
+        user: {
+          id: tokenData.open_id,
+          username: profile.username || null,
+          displayName: profile.display_name || profile.username
+        }
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (action === 'disconnect') {
+      const { data: connection } = await supabase
+        .from('user_social_connections')
+        .select('access_token')
+        .eq('workspace_id', workspaceId)
+        .eq('platform', 'tiktok')
+        .maybeSingle();
+
+      // Revoke the grant so the app no longer appears on the TikTok account
+      if (connection?.access_token) {
+        await fetch(`${TIKTOK_API_URL}/oauth/revoke/`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/x-www-form-urlencoded',
+          },
+          body: new URLSearchParams({
+            client_key: tiktokClientKey,
+            client_secret: tiktokClientSecret,
+            token: connection.access_token
+          })
+        }).catch(error => console.warn('Failed to revoke TikTok token:', error));
+      }
+
+      const { error } = await supabase
+        .from('user_social_connections')
+        .delete()
+        .eq('workspace_id', workspaceId)
+        .eq('platform', 'tiktok');
+
+      if (error) {
+        throw new Error('Failed to disconnect');
+      }
+
+      return new Response(JSON.stringify({
+        success: true,
+        message: 'TikTok disconnected successfully'
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (action === 'check_connection') {
+      const { data: connection } = await supabase
+        .from('user_social_connections')
+        .select('platform_user_id, platform_username, platform_display_name, metadata')
+        .eq('workspace_id', workspaceId)
+        .eq('platform', 'tiktok')
+        .eq('is_active', true)
+        .maybeSingle();
+
+      // The publish function refreshes the access token, so only an expired refresh token disconnects
+      const refreshExpiresAt = connection?.metadata?.refresh_expires_at;
+      const connected = !!connection && (!refreshExpiresAt || new Date(refreshExpiresAt) > new Date());
+
+      return new Response(JSON.stringify({
+        success: true,
+        connected,
+        user: connected ? {
+          id: connection.platform_user_id,
+          username: connection.platform_username,
+          displayName: connection.platform_display_name
+        } : null
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    throw new Error('Invalid action');
+
+  } catch (error) {
+    console.error('TikTok OAuth error:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: error.message
+    }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+});
@@ -0,0 +1,230 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getAuthenticatedUser, requireWorkspaceRole } from '../_shared/auth.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const X_API_URL = 'https://api.x.com/2';
+// offline.access issues a refresh token; access tokens only last two hours
+const SCOPES = ['tweet.read', 'tweet.write', 'users.read', 'media.write', 'offline.access'];
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { action, code, state, redirectUri, codeChallenge, codeVerifier, workspaceId } = await req.json();
+
+    // Get environment variables
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const twitterClientId = Deno.env.get('TWITTER_CLIENT_ID');
+    const twitterClientSecret = Deno.env.get('TWITTER_CLIENT_SECRET');
+
+    if (!twitterClientId || !twitterClientSecret) {
+      throw new Error('X OAuth credentials not configured');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseKey);
+    const user = await getAuthenticatedUser(req, supabase);
+    // Anyone in the workspace can check the connection, only editors can change it
+    await requireWorkspaceRole(
+      supabase,
+      workspaceId,
+      user.id,
+      action === 'check_connection' ? ['owner', 'editor', 'viewer'] : ['owner', 'editor']
+    );
+
+    const basicAuth = `Basic ${btoa(`${twitterClientId}:${twitterClientSecret}`)}`;
+
+    if (action === 'get_auth_url') {
+      if (!redirectUri || !codeChallenge) {
+        throw new Error('redirectUri and codeChallenge are required');
+      }
+
+      // X requires PKCE; the browser keeps the verifier until the callback
+      const authUrl = new URL('https://x.com/i/oauth2/authorize');
+      authUrl.searchParams.set('client_id', twitterClientId);
+      authUrl.searchParams.set('redirect_uri', redirectUri);
+      authUrl.searchParams.set('scope', SCOPES.join(' '));
+      authUrl.searchParams.set('response_type', 'code');
+      authUrl.searchParams.set('state', state || 'default_state');
+      authUrl.searchParams.set('code_challenge', codeChallenge);
+      authUrl.searchParams.set('code_challenge_method', 'S256');
+
+      return new Response(JSON.stringify({
+        success: true,
+        auth_url: authUrl.toString()
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (action === 'exchange_code') {
+      if (!code || !redirectUri || !codeVerifier) {
+        throw new Error('code, redirectUri and codeVerifier are required');
+      }
+
+      console.log('Exchanging X code for access token');
+
+      const tokenResponse = await fetch(`${X_API_URL}/oauth2/token`, {
+        method: 'POST',
+        headers: {
+          'Authorization': basicAuth,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams({
+          grant_type: 'authorization_code',
+          code,
+          redirect_uri: redirectUri,
+          code_verifier: codeVerifier
+        })
+      });
+
+      const tokenData = await tokenResponse.json();
+      if (!tokenResponse.ok) {
+        console.error('Token exchange failed:', tokenData);
+        throw new Error(tokenData.error_description || 'Failed to exchange code for token');
+      }
+
+      const profileResponse = await fetch(`${X_API_URL}/users/me?user.fields=profile_image_url`, {
+        headers: {
+          'Authorization': `Bearer ${tokenData.access_token}`
+        }
+      });
+
+      const profile = await profileResponse.json();
+      if (!profileResponse.ok || !profile.data) {
+        console.error('Profile request failed:', profile);
+        throw new Error(profile.detail || 'Failed to get X account information');
+      }
+
+      const account = profile.data;
+
+      const { error } = await supabase
+        .from('user_social_connections')
+        .upsert({
+          user_id: user.id,
+          workspace_id: workspaceId,
+          platform: 'twitter',
+          platform_user_id: account.id,
+          platform_username: account.username,
+          platform_display_name: account.name,
+          access_token: tokenData.access_token,
+          refresh_token: tokenData.refresh_token || null,
+          // The publish function refreshes the token before it runs out
+          token_expires_at: new Date(Date.now() + tokenData.expires_in * 1000).toISOString(),
+          scope: tokenData.scope || SCOPES.join(' '),
+          is_active: true,
+          metadata: {
+            profile_image: account.profile_image_url || null
+          },
+          connected_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        }, {
+          onConflict: 'workspace_id,platform'
+        });
+
+      if (error) {
+        console.error('Database error:', error);
+        throw new Error('Failed to save connection');
+      }
+
+      return new Response(JSON.stringify({
+        success: true,
+        message: 'X connected successfully',
+        user: {
+          id: account.id,
+          username: account.username
+        }
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (action === 'disconnect') {
+      const { data: connection } = await supabase
+        .from('user_social_connections')
+        .select('refresh_token')
+        .eq('workspace_id', workspaceId)
+        .eq('platform', 'twitter')
+        .maybeSingle();
+
+      // Revoking the refresh token also revokes its access tokens
+      if (connection?.refresh_token) {
+        await fetch(`${X_API_URL}/oauth2/revoke`, {
+          method: 'POST',
+          headers: {
+            'Authorization': basicAuth,
+            'Content-Type': 'application/x-www-form-urlencoded',
+          },
+          body: new URLSearchParams({
+            token: connection.refresh_token,
+            token_type_hint: 'refresh_token'
+          })
+        }).catch(revokeError => console.error('Failed to revoke X token:', revokeError));
+      }
+
+      const { error } = await supabase
+        .from('user_social_connections')
+        .delete()
+        .eq('workspace_id', workspaceId)
+        .eq('platform', 'twitter');
+
+      if (error) {
+        throw new Error('Failed to disconnect');
+      }
+
+      return new Response(JSON.stringify({
+        success: true,
+        message: 'X disconnected successfully'
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (action === 'check_connection') {
+      const { data: connection } = await supabase
+        .from('user_social_connections')
+        .select('platform_user_id, platform_username, refresh_token, token_expires_at')
+        .eq('workspace_id', workspaceId)
+        .eq('platform', 'twitter')
+        .eq('is_active', true)
+        .maybeSingle();
+
+      // Without a refresh token the connection ends when the access token does
+      const connected = !!connection && (
+        !!connection.refresh_token ||
+        (!!connection.token_expires_at && new Date(connection.token_expires_at) > new Date())
+      );
+
+      return new Response(JSON.stringify({
+        success: true,
+        connected,
+        user: connected ? {
+          id: connection.platform_user_id,
+          username: connection.platform_username
+        } : null
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    throw new Error('Invalid action');
+
+  } catch (error) {
+    console.error('X OAuth error:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: error.message
+    }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+});
\ No newline at end of file
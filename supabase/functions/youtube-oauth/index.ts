@@ -1,6 +1,7 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getAuthenticatedUser, requireWorkspaceRole } from '../_shared/auth.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -20,14 +21,16 @@ serve(async (req) => {
   }
 
   try {
-    const { action, code, state, userId } = await req.json();
+    const body = await req.json();
+    const { action, code, state, workspaceId } = body;
     
     // Get environment variables
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const googleClientId = Deno.env.get('GOOGLE_CLIENT_ID');
     const googleClientSecret = Deno.env.get('GOOGLE_CLIENT_SECRET');
-    const redirectUri = Deno.env.get('YOUTUBE_REDIRECT_URI') || `${supabaseUrl}/functions/v1/youtube-oauth`;
+    // The app's callback page sends its own redirect URI, which must match the one it authorized with
+    const redirectUri = body.redirectUri || Deno.env.get('YOUTUBE_REDIRECT_URI') || `${supabaseUrl}/functions/v1/youtube-oauth`;
 
     if (!googleClientId || !googleClientSecret) {
       console.error('❌ Google OAuth credentials not configured');
@@ -36,9 +39,18 @@ serve(async (req) => {
 
     const supabase = createClient(supabaseUrl, supabaseKey);
     
-    // Determine user ID - use provided userId, or fallback to 'default_user' for backward compatibility
-    const actualUserId = userId || state || 'default_user';
-    console.log('🔍 Using user ID:', { provided: userId, state, actual: actualUserId });
+    // Connections always belong to the signed-in user, never to an id sent in the body
+    const user = await getAuthenticatedUser(req, supabase);
+    const actualUserId = user.id;
+    console.log('🔍 Using user ID:', actualUserId);
+
+    // Anyone in the workspace can check the connection, only editors can change or use it
+    await requireWorkspaceRole(
+      supabase,
+      workspaceId,
+      actualUserId,
+      action === 'check_connection' ? ['owner', 'editor', 'viewer'] : ['owner', 'editor']
+    );
 
     if (action === 'get_auth_url') {
       // Generate authorization URL
@@ -46,7 +58,7 @@ serve(async (req) => {
       authUrl.searchParams.set('client_id', googleClientId);
       authUrl.searchParams.set('redirect_uri', redirectUri);
       authUrl.searchParams.set('response_type', 'code');
-      authUrl.searchParams.set('scope', 'https://www.googleapis.com/auth/youtube.upload https://www.googleapis.com/auth/youtube.readonly');
+      authUrl.searchParams.set('scope', 'https://www.googleapis.com/auth/youtube.upload https://www.googleapis.com/auth/youtube.readonly https://www.googleapis.com/auth/yt-analytics.readonly');
       authUrl.searchParams.set('access_type', 'offline');
       authUrl.searchParams.set('prompt', 'consent');
       authUrl.searchParams.set('state', state || 'default_state');
@@ -119,6 +131,7 @@ serve(async (req) => {
         .from('user_social_connections')
         .upsert({
           user_id: actualUserId,
+          workspace_id: workspaceId,
           platform: 'youtube',
           platform_user_id: channel.id,
           platform_username: channel.snippet.customUrl || channel.snippet.title,
@@ -126,7 +139,7 @@ serve(async (req) => {
           access_token: tokenData.access_token,
           refresh_token: tokenData.refresh_token,
           token_expires_at: expiresAt,
-          scope: 'https://www.googleapis.com/auth/youtube.upload https://www.googleapis.com/auth/youtube.readonly',
+          scope: 'https://www.googleapis.com/auth/youtube.upload https://www.googleapis.com/auth/youtube.readonly https://www.googleapis.com/auth/yt-analytics.readonly',
           metadata: JSON.stringify({
             channel_id: channel.id,
             channel_title: channel.snippet.title,
@@ -136,7 +149,7 @@ serve(async (req) => {
           connected_at: new Date().toISOString(),
           updated_at: new Date().toISOString()
         }, {
-          onConflict: 'user_id,platform'
+          onConflict: 'workspace_id,platform'
         });
 
       if (error) {
@@ -157,7 +170,14 @@ serve(async (req) => {
     }
 
     if (action === 'refresh_token') {
-      const { refresh_token } = await req.json();
+      // The refresh token is read here, never sent by the browser
+      const { data: stored } = await supabase
+        .from('user_social_connections')
+        .select('refresh_token')
+        .eq('workspace_id', workspaceId)
+        .eq('platform', 'youtube')
+        .maybeSingle();
+      const refresh_token = stored?.refresh_token;
 
       if (!refresh_token) {
         throw new Error('Refresh token required');
@@ -198,7 +218,7 @@ serve(async (req) => {
           token_expires_at: expiresAt,
           updated_at: new Date().toISOString()
         })
-        .eq('user_id', actualUserId)
+        .eq('workspace_id', workspaceId)
         .eq('platform', 'youtube');
 
       if (error) {
@@ -208,7 +228,6 @@ serve(async (req) => {
 
       return new Response(JSON.stringify({
         success: true,
-        access_token: refreshData.access_token,
         expires_at: expiresAt
       }), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
@@ -219,7 +238,7 @@ serve(async (req) => {
       const { data, error } = await supabase
         .from('user_social_connections')
         .delete()
-        .eq('user_id', actualUserId)
+        .eq('workspace_id', workspaceId)
         .eq('platform', 'youtube');
 
       if (error) {
@@ -237,8 +256,8 @@ serve(async (req) => {
     if (action === 'check_connection') {
       const { data, error } = await supabase
         .from('user_social_connections')
-        .select('*')
-        .eq('user_id', actualUserId)
+        .select('id, platform, platform_user_id, platform_username, platform_display_name, token_expires_at, metadata, is_active, connected_at')
+        .eq('workspace_id', workspaceId)
         .eq('platform', 'youtube')
         .single();
 
@@ -251,355 +270,6 @@ serve(async (req) => {
       });
     }
 
-    if (action === 'upload_video') {
-      const { userId, videoUrl, title, description, tags = [], privacyStatus = 'public' } = await req.json();
-
-      console.log('🎬 YouTube upload_video action started:', { 
-        userId, 
-        videoUrl: videoUrl.substring(0, 50) + '...', 
-        title,
-        description: description?.substring(0, 100) + '...',
-        tags: tags.length,
-        privacyStatus 
-      });
-
-      if (!userId || !videoUrl || !title) {
-        throw new Error('Missing required fields: userId, videoUrl, title');
-      }
-
-      // Get YouTube connection
-      const { data: connection, error: connectionError } = await supabase
-        .from('user_social_connections')
-        .select('*')
-        .eq('user_id', userId)
-        .eq('platform', 'youtube')
-        .eq('is_active', true)
-        .single();
-
-      if (connectionError || !connection) {
-        console.error('❌ YouTube connection error:', connectionError);
-        throw new Error('YouTube account not connected');
-      }
-
-      console.log('✅ YouTube connection found:', {
-        displayName: connection.platform_display_name,
-        hasToken: !!connection.access_token,
-        tokenPreview: connection.access_token?.substring(0, 20) + '...',
-        tokenLength: connection.access_token?.length || 0,
-        expiresAt: connection.token_expires_at,
-        hasRefreshToken: !!connection.refresh_token,
-        scope: connection.scope,
-        isActive: connection.is_active
-      });
-
-      // Validate token format (Google OAuth tokens typically start with 'ya29.' for access tokens)
-      if (connection.access_token && !connection.access_token.startsWith('ya29.') && !connection.access_token.startsWith('1//')) {
-        console.warn('⚠️ Unusual token format detected:', {
-          tokenStart: connection.access_token.substring(0, 10),
-          expectedFormat: 'ya29.* or 1//*'
-        });
-      }
-
-      // Check if token is expired and refresh if needed
-      let accessToken = connection.access_token;
-      if (connection.token_expires_at) {
-        const expiryDate = new Date(connection.token_expires_at);
-        const timeToExpire = expiryDate.getTime() - Date.now();
-        
-        console.log('🕐 Token expiry check:', {
-          expiresAt: expiryDate.toISOString(),
-          timeToExpire: Math.round(timeToExpire / 60000) + ' minutes',
-          needsRefresh: timeToExpire <= 300000
-        });
-        
-        if (timeToExpire <= 300000) { // 5 minutes
-          console.log('🔄 Token expires soon, refreshing...');
-          
-          if (connection.refresh_token) {
-            try {
-              const refreshResponse = await fetch('https://oauth2.googleapis.com/token', {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/x-www-form-urlencoded',
-                },
-                body: new URLSearchParams({
-                  client_id: googleClientId,
-                  client_secret: googleClientSecret,
-                  grant_type: 'refresh_token',
-                  refresh_token: connection.refresh_token
-                })
-              });
-
-              if (refreshResponse.ok) {
-                const refreshData = await refreshResponse.json();
-                accessToken = refreshData.access_token;
-                
-                console.log('✅ Token refreshed successfully:', {
-                  newTokenPreview: accessToken.substring(0, 20) + '...',
-                  newTokenLength: accessToken.length,
-                  expiresIn: refreshData.expires_in,
-                  newExpiryTime: new Date(Date.now() + refreshData.expires_in * 1000).toISOString()
-                });
-                
-                // Update token in database
-                const { error: updateError } = await supabase
-                  .from('user_social_connections')
-                  .update({
-                    access_token: accessToken,
-                    token_expires_at: new Date(Date.now() + refreshData.expires_in * 1000).toISOString(),
-                    updated_at: new Date().toISOString()
-                  })
-                  .eq('id', connection.id);
-                  
-                if (updateError) {
-                  console.warn('⚠️ Failed to update refreshed token in database:', updateError);
-                } else {
-                  console.log('✅ Database updated with new token');
-                }
-              } else {
-                const errorText = await refreshResponse.text();
-                console.error('❌ Token refresh failed:', {
-                  status: refreshResponse.status,
-                  statusText: refreshResponse.statusText,
-                  error: errorText,
-                  refreshTokenPreview: connection.refresh_token?.substring(0, 20) + '...'
-                });
-                throw new Error(`Failed to refresh access token: ${refreshResponse.status} - ${errorText}`);
-              }
-            } catch (refreshError) {
-              console.error('❌ Token refresh error:', refreshError);
-              throw new Error('Failed to refresh access token: ' + refreshError.message);
-            }
-          } else {
-            throw new Error('No refresh token available - please reconnect your YouTube account');
-          }
-        }
-      }
-
-      console.log('📥 Fetching video file from:', videoUrl);
-      
-      // Download the video file
-      try {
-        const videoResponse = await fetch(videoUrl);
-        console.log('📡 Video fetch response:', {
-          status: videoResponse.status,
-          statusText: videoResponse.statusText,
-          contentType: videoResponse.headers.get('content-type'),
-          contentLength: videoResponse.headers.get('content-length')
-        });
-        
-        if (!videoResponse.ok) {
-          console.error('❌ Video fetch failed:', {
-            status: videoResponse.status,
-            statusText: videoResponse.statusText,
-            headers: Object.fromEntries(videoResponse.headers.entries())
-          });
-          throw new Error(`Failed to fetch video: ${videoResponse.status} ${videoResponse.statusText}`);
-        }
-
-        const videoBlob = await videoResponse.blob();
-        const videoSize = videoBlob.size;
-        
-        console.log('✅ Video downloaded successfully:', {
-          size: `${Math.round(videoSize / 1024 / 1024 * 100) / 100} MB`,
-          type: videoBlob.type,
-          sizeBytes: videoSize
-        });
-
-        // Validate video file
-        if (videoSize === 0) {
-          throw new Error('Downloaded video file is empty (0 bytes)');
-        }
-        
-        if (videoSize > 128 * 1024 * 1024) { // 128MB limit for YouTube
-          throw new Error(`Video file too large: ${Math.round(videoSize / 1024 / 1024)} MB (max 128MB)`);
-        }
-        
-        const validMimeTypes = ['video/mp4', 'video/quicktime', 'video/x-msvideo', 'video/webm'];
-        if (!validMimeTypes.some(type => videoBlob.type.includes(type.split('/')[1]))) {
-          console.warn('⚠️ Unusual video MIME type:', videoBlob.type, 'proceeding anyway...');
-        }
-
-        // Log file details for debugging
-        console.log('📹 Video file ready for upload:', {
-          size: videoSize,
-          type: videoBlob.type,
-          isBlob: videoBlob instanceof Blob,
-          canReadAsArrayBuffer: true
-        });
-
-        // Create metadata for YouTube upload
-        const metadata = {
-          snippet: {
-            title: title.substring(0, 100),
-            description: description || `Generated with FeedGenesis\n\nCreated using AI-powered video generation.`,
-            tags: tags.slice(0, 500),
-            categoryId: '22',
-            defaultLanguage: 'en'
-          },
-          status: {
-            privacyStatus: privacyStatus,
-            selfDeclaredMadeForKids: false
-          }
-        };
-
-        console.log('📋 Upload metadata:', metadata);
-
-        // Initialize resumable upload
-        console.log('🚀 Initializing YouTube resumable upload...');
-        
-        // Determine correct MIME type for upload
-        const uploadMimeType = videoBlob.type || 'video/mp4';
-        
-        const uploadHeaders = {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-          'X-Upload-Content-Length': videoSize.toString(),
-          'X-Upload-Content-Type': uploadMimeType
-        };
-        
-        console.log('📋 Upload headers (token masked):', {
-          ...uploadHeaders,
-          'Authorization': `Bearer ${accessToken.substring(0, 20)}...${accessToken.substring(accessToken.length - 10)}`
-        });
-        
-        const initResponse = await fetch('https://www.googleapis.com/upload/youtube/v3/videos?uploadType=resumable&part=snippet,status', {
-          method: 'POST',
-          headers: uploadHeaders,
-          body: JSON.stringify(metadata)
-        });
-
-        console.log('📡 Upload init response:', {
-          status: initResponse.status,
-          statusText: initResponse.statusText,
-          hasLocation: !!initResponse.headers.get('Location'),
-          location: initResponse.headers.get('Location')?.substring(0, 100) + '...'
-        });
-
-        if (!initResponse.ok) {
-          const errorText = await initResponse.text();
-          let errorDetails;
-          try {
-            errorDetails = JSON.parse(errorText);
-          } catch {
-            errorDetails = { message: errorText };
-          }
-          
-          console.error('❌ Upload initialization failed:', {
-            status: initResponse.status,
-            statusText: initResponse.statusText,
-            error: errorText,
-            parsedError: errorDetails,
-            requestHeaders: Object.keys(uploadHeaders),
-            videoSize: videoSize,
-            videoType: uploadMimeType
-          });
-          
-          // Provide specific error messages for common issues
-          let errorMessage = `Upload initialization failed: ${initResponse.status} ${initResponse.statusText}`;
-          if (initResponse.status === 400) {
-            errorMessage += ' - This is usually due to invalid OAuth token, incorrect video metadata, or missing YouTube upload permissions.';
-          } else if (initResponse.status === 401) {
-            errorMessage += ' - OAuth token is invalid or expired. Please reconnect your YouTube account.';
-          } else if (initResponse.status === 403) {
-            errorMessage += ' - Insufficient permissions. Make sure your YouTube account has upload permissions.';
-          }
-          
-          throw new Error(errorMessage);
-        }
-
-        const uploadUrl = initResponse.headers.get('Location');
-        if (!uploadUrl) {
-          throw new Error('No upload URL received from YouTube');
-        }
-
-        console.log('✅ Upload URL received, starting chunked upload...');
-
-        // Upload video file in chunks
-        const chunkSize = 1024 * 1024 * 5; // 5MB chunks
-        const videoArray = new Uint8Array(await videoBlob.arrayBuffer());
-        let start = 0;
-        let result: any = null;
-
-        while (start < videoArray.length) {
-          const end = Math.min(start + chunkSize, videoArray.length);
-          const chunk = videoArray.slice(start, end);
-          const progress = Math.round((end / videoArray.length) * 100);
-          
-          console.log(`📤 Uploading chunk: ${start}-${end-1}/${videoArray.length} (${progress}%)`);
-
-          const uploadResponse = await fetch(uploadUrl, {
-            method: 'PUT',
-            headers: {
-              'Content-Length': chunk.length.toString(),
-              'Content-Range': `bytes ${start}-${end - 1}/${videoArray.length}`
-            },
-            body: chunk
-          });
-
-          console.log(`📡 Chunk response: ${uploadResponse.status} ${uploadResponse.statusText}`);
-
-          if (uploadResponse.status === 200 || uploadResponse.status === 201) {
-            result = await uploadResponse.json();
-            console.log('✅ Upload completed successfully!');
-            break;
-          } else if (uploadResponse.status === 308) {
-            // Continue uploading
-            const range = uploadResponse.headers.get('Range');
-            if (range) {
-              const rangeEnd = parseInt(range.split('-')[1]);
-              start = rangeEnd + 1;
-            } else {
-              start = end;
-            }
-            console.log(`⏭️ Continuing from byte ${start}`);
-          } else {
-            const errorText = await uploadResponse.text();
-            console.error('❌ Chunk upload failed:', {
-              status: uploadResponse.status,
-              statusText: uploadResponse.statusText,
-              error: errorText
-            });
-            throw new Error(`Upload failed: ${uploadResponse.status} - ${errorText}`);
-          }
-        }
-
-        if (!result || !result.id) {
-          console.error('❌ Upload completion issue:', {
-            hasResult: !!result,
-            resultKeys: result ? Object.keys(result) : [],
-            resultPreview: result ? JSON.stringify(result).substring(0, 500) : 'null'
-          });
-          throw new Error('Upload completed but no video ID received');
-        }
-
-        const youtubeUrl = `https://www.youtube.com/watch?v=${result.id}`;
-        console.log('🎉 YouTube upload successful:', {
-          videoId: result.id,
-          url: youtubeUrl,
-          title: result.snippet?.title,
-          uploadedBy: connection.platform_display_name,
-          channelId: connection.metadata?.channel_id || 'unknown',
-          publishedAt: result.snippet?.publishedAt || 'pending',
-          privacyStatus: result.status?.privacyStatus || privacyStatus
-        });
-
-        return new Response(JSON.stringify({
-          success: true,
-          videoId: result.id,
-          url: youtubeUrl,
-          title: result.snippet?.title || title,
-          message: 'Video uploaded successfully to YouTube'
-        }), {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        });
-        
-      } catch (fetchError) {
-        console.error('❌ Video fetch/upload error:', fetchError);
-        throw new Error(`Video processing failed: ${fetchError.message}`);
-      }
-    }
-
     throw new Error('Invalid action');
 
   } catch (error) {
@@ -0,0 +1,164 @@
+-- Move every business table onto Supabase Auth ownership.
+-- Rows are scoped to auth.uid() through an owner_id column and RLS policies
+-- replace the previous "Anyone can ..." / "Allow all" policies.
+
+-- 1. Profiles for signed-in users (created automatically on sign up)
+CREATE TABLE IF NOT EXISTS public.profiles (
+  id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  display_name TEXT,
+  avatar_url TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own profile" ON public.profiles;
+DROP POLICY IF EXISTS "Users can update their own profile" ON public.profiles;
+
+CREATE POLICY "Users can view their own profile"
+  ON public.profiles
+  FOR SELECT
+  USING (id = auth.uid());
+
+CREATE POLICY "Users can update their own profile"
+  ON public.profiles
+  FOR UPDATE
+  USING (id = auth.uid());
+
+DROP TRIGGER IF EXISTS update_profiles_updated_at ON public.profiles;
+CREATE TRIGGER update_profiles_updated_at
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (id, display_name)
+  VALUES (NEW.id, COALESCE(NEW.raw_user_meta_data ->> 'display_name', split_part(NEW.email, '@', 1)))
+  ON CONFLICT (id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION public.handle_new_user();
+
+-- 2. Admin role comes from app_metadata, which only the service role can write
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(auth.jwt() -> 'app_metadata' ->> 'role', '') = 'admin';
+$$;
+
+-- 3. Owner columns. Existing rows keep a NULL owner and are only reachable
+-- through the service role until they are reassigned.
+ALTER TABLE public.inventory
+  ADD COLUMN IF NOT EXISTS owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid();
+
+ALTER TABLE public.generated_assets
+  ADD COLUMN IF NOT EXISTS owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid();
+
+ALTER TABLE public.asset_library
+  ADD COLUMN IF NOT EXISTS owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid();
+
+CREATE INDEX IF NOT EXISTS idx_inventory_owner_id ON public.inventory(owner_id);
+CREATE INDEX IF NOT EXISTS idx_generated_assets_owner_id ON public.generated_assets(owner_id);
+CREATE INDEX IF NOT EXISTS idx_asset_library_owner_id ON public.asset_library(owner_id);
+
+-- SKUs only need to be unique within one owner's inventory
+ALTER TABLE public.inventory DROP CONSTRAINT IF EXISTS inventory_sku_key;
+ALTER TABLE public.inventory ADD CONSTRAINT inventory_owner_sku_key UNIQUE (owner_id, sku);
+
+-- 4. Social connections: user_id becomes a real auth user reference.
+-- Connections stored under the shared 'default_user' cannot be attributed to
+-- anyone, so they are removed and have to be reconnected after signing in.
+DROP POLICY IF EXISTS "Users can manage their own social connections" ON public.user_social_connections;
+DROP POLICY IF EXISTS "Allow all operations on user_social_connections" ON public.user_social_connections;
+
+DELETE FROM public.user_social_connections
+WHERE user_id !~ '^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$';
+
+ALTER TABLE public.user_social_connections ALTER COLUMN user_id DROP DEFAULT;
+ALTER TABLE public.user_social_connections ALTER COLUMN user_id TYPE UUID USING user_id::uuid;
+ALTER TABLE public.user_social_connections ALTER COLUMN user_id SET DEFAULT auth.uid();
+ALTER TABLE public.user_social_connections
+  ADD CONSTRAINT user_social_connections_user_id_fkey
+  FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+
+CREATE POLICY "Users can manage their own social connections"
+  ON public.user_social_connections
+  FOR ALL
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- 5. Replace open policies with owner-scoped ones
+DROP POLICY IF EXISTS "Allow all operations on inventory" ON public.inventory;
+
+CREATE POLICY "Owners can manage their inventory"
+  ON public.inventory
+  FOR ALL
+  USING (owner_id = auth.uid())
+  WITH CHECK (owner_id = auth.uid());
+
+DROP POLICY IF EXISTS "Anyone can view generated assets" ON public.generated_assets;
+DROP POLICY IF EXISTS "Anyone can create generated assets" ON public.generated_assets;
+DROP POLICY IF EXISTS "Anyone can update generated assets" ON public.generated_assets;
+DROP POLICY IF EXISTS "Allow all operations on generated_assets" ON public.generated_assets;
+
+CREATE POLICY "Owners can manage their generated assets"
+  ON public.generated_assets
+  FOR ALL
+  USING (owner_id = auth.uid())
+  WITH CHECK (owner_id = auth.uid());
+
+DROP POLICY IF EXISTS "Anyone can view library assets" ON public.asset_library;
+DROP POLICY IF EXISTS "Anyone can create library assets" ON public.asset_library;
+DROP POLICY IF EXISTS "Anyone can update library assets" ON public.asset_library;
+DROP POLICY IF EXISTS "Anyone can delete library assets" ON public.asset_library;
+DROP POLICY IF EXISTS "Allow all operations on asset_library" ON public.asset_library;
+
+CREATE POLICY "Owners can manage their library assets"
+  ON public.asset_library
+  FOR ALL
+  USING (owner_id = auth.uid())
+  WITH CHECK (owner_id = auth.uid());
+
+-- API keys are only visible to admins
+DROP POLICY IF EXISTS "Allow all operations on api_keys" ON public.api_keys;
+
+CREATE POLICY "Admins can manage api keys"
+  ON public.api_keys
+  FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+-- 6. Storage: files live under <owner id>/... in the generated-assets bucket.
+-- The bucket stays public so that social platforms can fetch media by URL,
+-- but only the owner can write to their folder.
+DROP POLICY IF EXISTS "Anyone can upload generated assets" ON storage.objects;
+DROP POLICY IF EXISTS "Anyone can update generated assets" ON storage.objects;
+DROP POLICY IF EXISTS "Anyone can delete generated assets" ON storage.objects;
+
+CREATE POLICY "Owners can upload generated assets"
+  ON storage.objects
+  FOR INSERT
+  WITH CHECK (bucket_id = 'generated-assets' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Owners can update generated assets"
+  ON storage.objects
+  FOR UPDATE
+  USING (bucket_id = 'generated-assets' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Owners can delete generated assets"
+  ON storage.objects
+  FOR DELETE
+  USING (bucket_id = 'generated-assets' AND (storage.foldername(name))[1] = auth.uid()::text);
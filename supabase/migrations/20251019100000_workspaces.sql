@@ -0,0 +1,285 @@
+-- Turn client_configs into workspaces.
+-- Users join a workspace through workspace_members with a role, and
+-- inventory, assets, social connections and template assignments are all
+-- scoped to the workspace instead of to a single owner.
+
+-- 1. Workspace columns on client_configs
+ALTER TABLE public.client_configs
+  ALTER COLUMN client_id SET DEFAULT gen_random_uuid()::text;
+
+ALTER TABLE public.client_configs
+  ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid();
+
+-- 2. Membership
+CREATE TABLE IF NOT EXISTS public.workspace_members (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  client_config_id UUID NOT NULL REFERENCES public.client_configs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'viewer' CHECK (role IN ('owner', 'editor', 'viewer')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (client_config_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_members_user_id ON public.workspace_members(user_id);
+
+ALTER TABLE public.workspace_members ENABLE ROW LEVEL SECURITY;
+
+-- Role checks run as SECURITY DEFINER so policies on workspace_members
+-- can use them without recursing into their own RLS.
+CREATE OR REPLACE FUNCTION public.has_workspace_role(workspace_id UUID, roles TEXT[] DEFAULT ARRAY['owner', 'editor', 'viewer'])
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.workspace_members
+    WHERE client_config_id = workspace_id
+      AND user_id = auth.uid()
+      AND role = ANY(roles)
+  );
+$$;
+
+-- Creates a workspace owned by the caller, seeded with the default template set
+CREATE OR REPLACE FUNCTION public.create_workspace(workspace_name TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_workspace_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.client_configs (client_name, created_by)
+  VALUES (workspace_name, auth.uid())
+  RETURNING id INTO new_workspace_id;
+
+  INSERT INTO public.workspace_members (client_config_id, user_id, role)
+  VALUES (new_workspace_id, auth.uid(), 'owner');
+
+  INSERT INTO public.client_template_assignments (client_config_id, template_id, template_name)
+  SELECT new_workspace_id, cta.template_id, cta.template_name
+  FROM public.client_template_assignments cta
+  JOIN public.client_configs cc ON cc.id = cta.client_config_id
+  WHERE cc.client_id = 'default' AND cta.is_active = true;
+
+  RETURN new_workspace_id;
+END;
+$$;
+
+-- 3. Workspace columns on business tables
+ALTER TABLE public.inventory
+  ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES public.client_configs(id) ON DELETE CASCADE;
+
+ALTER TABLE public.generated_assets
+  ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES public.client_configs(id) ON DELETE CASCADE;
+
+ALTER TABLE public.asset_library
+  ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES public.client_configs(id) ON DELETE CASCADE;
+
+ALTER TABLE public.user_social_connections
+  ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES public.client_configs(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_inventory_workspace_id ON public.inventory(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_generated_assets_workspace_id ON public.generated_assets(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_asset_library_workspace_id ON public.asset_library(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_user_social_connections_workspace_id ON public.user_social_connections(workspace_id);
+
+-- 4. Every existing user gets a personal workspace holding the rows they own
+DO $$
+DECLARE
+  profile RECORD;
+  personal_workspace_id UUID;
+BEGIN
+  FOR profile IN SELECT p.id, p.display_name FROM public.profiles p LOOP
+    INSERT INTO public.client_configs (client_id, client_name, created_by)
+    VALUES (profile.id::text, COALESCE(profile.display_name, 'My') || '''s Workspace', profile.id)
+    ON CONFLICT (client_id) DO NOTHING
+    RETURNING id INTO personal_workspace_id;
+
+    IF personal_workspace_id IS NULL THEN
+      SELECT id INTO personal_workspace_id FROM public.client_configs WHERE client_id = profile.id::text;
+    END IF;
+
+    INSERT INTO public.workspace_members (client_config_id, user_id, role)
+    VALUES (personal_workspace_id, profile.id, 'owner')
+    ON CONFLICT (client_config_id, user_id) DO NOTHING;
+
+    INSERT INTO public.client_template_assignments (client_config_id, template_id, template_name)
+    SELECT personal_workspace_id, cta.template_id, cta.template_name
+    FROM public.client_template_assignments cta
+    JOIN public.client_configs cc ON cc.id = cta.client_config_id
+    WHERE cc.client_id = 'default'
+      AND cta.is_active = true
+      AND NOT EXISTS (
+        SELECT 1 FROM public.client_template_assignments existing
+        WHERE existing.client_config_id = personal_workspace_id
+          AND existing.template_id = cta.template_id
+      );
+
+    UPDATE public.inventory SET workspace_id = personal_workspace_id
+      WHERE owner_id = profile.id AND workspace_id IS NULL;
+    UPDATE public.generated_assets SET workspace_id = personal_workspace_id
+      WHERE owner_id = profile.id AND workspace_id IS NULL;
+    UPDATE public.asset_library SET workspace_id = personal_workspace_id
+      WHERE owner_id = profile.id AND workspace_id IS NULL;
+    UPDATE public.user_social_connections SET workspace_id = personal_workspace_id
+      WHERE user_id = profile.id AND workspace_id IS NULL;
+  END LOOP;
+END;
+$$;
+
+-- SKUs are unique within a workspace rather than per owner, since members
+-- share one inventory. Each owner's rows went to their own workspace above,
+-- so existing SKUs already satisfy this.
+ALTER TABLE public.inventory DROP CONSTRAINT IF EXISTS inventory_owner_sku_key;
+ALTER TABLE public.inventory ADD CONSTRAINT inventory_workspace_sku_key UNIQUE (workspace_id, sku);
+
+-- New users get the same personal workspace when their profile is created
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  display_name TEXT := COALESCE(NEW.raw_user_meta_data ->> 'display_name', split_part(NEW.email, '@', 1));
+  personal_workspace_id UUID;
+BEGIN
+  INSERT INTO public.profiles (id, display_name)
+  VALUES (NEW.id, display_name)
+  ON CONFLICT (id) DO NOTHING;
+
+  INSERT INTO public.client_configs (client_id, client_name, created_by)
+  VALUES (NEW.id::text, display_name || '''s Workspace', NEW.id)
+  RETURNING id INTO personal_workspace_id;
+
+  INSERT INTO public.workspace_members (client_config_id, user_id, role)
+  VALUES (personal_workspace_id, NEW.id, 'owner');
+
+  INSERT INTO public.client_template_assignments (client_config_id, template_id, template_name)
+  SELECT personal_workspace_id, cta.template_id, cta.template_name
+  FROM public.client_template_assignments cta
+  JOIN public.client_configs cc ON cc.id = cta.client_config_id
+  WHERE cc.client_id = 'default' AND cta.is_active = true;
+
+  RETURN NEW;
+END;
+$$;
+
+-- A connected account now belongs to the workspace, not to the person who connected it
+ALTER TABLE public.user_social_connections DROP CONSTRAINT IF EXISTS user_social_connections_user_id_platform_key;
+ALTER TABLE public.user_social_connections
+  ADD CONSTRAINT user_social_connections_workspace_platform_key UNIQUE (workspace_id, platform);
+
+-- 5. Policies: members read, owners and editors write
+DROP POLICY IF EXISTS "Allow read access to client configs" ON public.client_configs;
+
+CREATE POLICY "Members can view their workspaces"
+  ON public.client_configs
+  FOR SELECT
+  USING (public.has_workspace_role(id) OR client_id = 'default');
+
+CREATE POLICY "Owners can update their workspaces"
+  ON public.client_configs
+  FOR UPDATE
+  USING (public.has_workspace_role(id, ARRAY['owner']));
+
+CREATE POLICY "Owners can delete their workspaces"
+  ON public.client_configs
+  FOR DELETE
+  USING (public.has_workspace_role(id, ARRAY['owner']) AND client_id <> 'default');
+
+CREATE POLICY "Members can view workspace members"
+  ON public.workspace_members
+  FOR SELECT
+  USING (public.has_workspace_role(client_config_id));
+
+CREATE POLICY "Owners can manage workspace members"
+  ON public.workspace_members
+  FOR ALL
+  USING (public.has_workspace_role(client_config_id, ARRAY['owner']))
+  WITH CHECK (public.has_workspace_role(client_config_id, ARRAY['owner']));
+
+DROP POLICY IF EXISTS "Allow read access to template assignments" ON public.client_template_assignments;
+
+CREATE POLICY "Members can view template assignments"
+  ON public.client_template_assignments
+  FOR SELECT
+  USING (
+    public.has_workspace_role(client_config_id)
+    OR client_config_id IN (SELECT id FROM public.client_configs WHERE client_id = 'default')
+  );
+
+CREATE POLICY "Owners can manage template assignments"
+  ON public.client_template_assignments
+  FOR ALL
+  USING (public.has_workspace_role(client_config_id, ARRAY['owner']))
+  WITH CHECK (public.has_workspace_role(client_config_id, ARRAY['owner']));
+
+DROP POLICY IF EXISTS "Owners can manage their inventory" ON public.inventory;
+
+CREATE POLICY "Members can view workspace inventory"
+  ON public.inventory
+  FOR SELECT
+  USING (public.has_workspace_role(workspace_id));
+
+CREATE POLICY "Editors can manage workspace inventory"
+  ON public.inventory
+  FOR ALL
+  USING (public.has_workspace_role(workspace_id, ARRAY['owner', 'editor']))
+  WITH CHECK (public.has_workspace_role(workspace_id, ARRAY['owner', 'editor']));
+
+DROP POLICY IF EXISTS "Owners can manage their generated assets" ON public.generated_assets;
+
+CREATE POLICY "Members can view workspace generated assets"
+  ON public.generated_assets
+  FOR SELECT
+  USING (public.has_workspace_role(workspace_id));
+
+CREATE POLICY "Editors can manage workspace generated assets"
+  ON public.generated_assets
+  FOR ALL
+  USING (public.has_workspace_role(workspace_id, ARRAY['owner', 'editor']))
+  WITH CHECK (public.has_workspace_role(workspace_id, ARRAY['owner', 'editor']));
+
+DROP POLICY IF EXISTS "Owners can manage their library assets" ON public.asset_library;
+
+CREATE POLICY "Members can view workspace library assets"
+  ON public.asset_library
+  FOR SELECT
+  USING (public.has_workspace_role(workspace_id));
+
+CREATE POLICY "Editors can manage workspace library assets"
+  ON public.asset_library
+  FOR ALL
+  USING (public.has_workspace_role(workspace_id, ARRAY['owner', 'editor']))
+  WITH CHECK (public.has_workspace_role(workspace_id, ARRAY['owner', 'editor']));
+
+DROP POLICY IF EXISTS "Users can manage their own social connections" ON public.user_social_connections;
+
+CREATE POLICY "Members can view workspace social connections"
+  ON public.user_social_connections
+  FOR SELECT
+  USING (public.has_workspace_role(workspace_id));
+
+CREATE POLICY "Editors can manage workspace social connections"
+  ON public.user_social_connections
+  FOR ALL
+  USING (public.has_workspace_role(workspace_id, ARRAY['owner', 'editor']))
+  WITH CHECK (public.has_workspace_role(workspace_id, ARRAY['owner', 'editor']));
+
+-- Members see which accounts are connected, never the credentials: the token
+-- columns can't be read through the API at all, only by edge functions using
+-- the service role key
+REVOKE SELECT ON public.user_social_connections FROM anon, authenticated;
+GRANT SELECT (
+  id, user_id, workspace_id, platform, platform_user_id, platform_username, platform_display_name,
+  token_expires_at, scope, metadata, is_active, connected_at, updated_at
+) ON public.user_social_connections TO authenticated;
@@ -0,0 +1,77 @@
+-- Queue for asynchronous Runway generations.
+-- runwayml-generate submits the task and returns the job id straight away;
+-- runwayml-worker (run by pg_cron every minute) polls Runway and advances
+-- each job until it succeeds or fails. Clients follow progress via Realtime.
+
+CREATE TABLE IF NOT EXISTS public.generation_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES public.client_configs(id) ON DELETE CASCADE,
+  owner_id UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  provider TEXT NOT NULL DEFAULT 'runway',
+  job_type TEXT NOT NULL CHECK (job_type IN ('image', 'video')),
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+  progress NUMERIC NOT NULL DEFAULT 0 CHECK (progress >= 0 AND progress <= 1),
+  request JSONB NOT NULL DEFAULT '{}',
+  provider_task_id TEXT,
+  inventory_id UUID REFERENCES public.inventory(id) ON DELETE SET NULL,
+  generated_asset_id UUID REFERENCES public.generated_assets(id) ON DELETE SET NULL,
+  result_url TEXT,
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  -- Failed tries at saving a finished task's output
+  store_attempts INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_workspace_id ON public.generation_jobs(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_active ON public.generation_jobs(status, updated_at)
+  WHERE status IN ('queued', 'running');
+
+ALTER TABLE public.generation_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Jobs are created and advanced by edge functions with the service role;
+-- workspace members only need to read them.
+CREATE POLICY "Members can view workspace generation jobs"
+  ON public.generation_jobs
+  FOR SELECT
+  USING (public.has_workspace_role(workspace_id));
+
+CREATE TRIGGER update_generation_jobs_updated_at
+  BEFORE UPDATE ON public.generation_jobs
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Generations can target every channel the generator offers, not only the
+-- four generated_assets started with
+ALTER TABLE public.generated_assets DROP CONSTRAINT IF EXISTS generated_assets_channel_check;
+ALTER TABLE public.generated_assets
+  ADD CONSTRAINT generated_assets_channel_check
+  CHECK (channel IN ('youtube', 'facebook', 'instagram', 'tiktok', 'google-ads', 'email', 'sms', 'linkedin', 'twitter', 'pinterest'));
+
+-- Stream job updates to subscribed clients
+ALTER TABLE public.generation_jobs REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.generation_jobs;
+
+-- Advance queued jobs every minute. The project URL and service role key are
+-- read from Vault secrets named 'project_url' and 'service_role_key'.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.unschedule('runwayml-worker')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'runwayml-worker');
+
+SELECT cron.schedule(
+  'runwayml-worker',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/runwayml-worker',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,90 @@
+-- Bulk generation campaigns.
+-- A campaign is a product selection (explicit ids or an inventory filter)
+-- crossed with a set of channel/asset type/format combinations. Every
+-- combination becomes a campaign_items row that campaign-worker dispatches
+-- server-side, so large drops no longer depend on a browser tab staying open.
+
+CREATE TABLE IF NOT EXISTS public.campaigns (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES public.client_configs(id) ON DELETE CASCADE,
+  owner_id UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  name TEXT NOT NULL,
+  instruction TEXT,
+  product_filter JSONB,
+  combinations JSONB NOT NULL DEFAULT '[]',
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed')),
+  total_items INTEGER NOT NULL DEFAULT 0,
+  report JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE IF NOT EXISTS public.campaign_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  campaign_id UUID NOT NULL REFERENCES public.campaigns(id) ON DELETE CASCADE,
+  workspace_id UUID NOT NULL REFERENCES public.client_configs(id) ON DELETE CASCADE,
+  inventory_id UUID NOT NULL REFERENCES public.inventory(id) ON DELETE CASCADE,
+  channel TEXT NOT NULL,
+  asset_type TEXT NOT NULL CHECK (asset_type IN ('image', 'video', 'content', 'ad')),
+  format TEXT NOT NULL,
+  specification TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'succeeded', 'failed')),
+  generation_job_id UUID REFERENCES public.generation_jobs(id) ON DELETE SET NULL,
+  generated_asset_id UUID REFERENCES public.generated_assets(id) ON DELETE SET NULL,
+  result_url TEXT,
+  content TEXT,
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (campaign_id, inventory_id, channel, asset_type, format)
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaigns_workspace_id ON public.campaigns(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_campaign_items_campaign_id ON public.campaign_items(campaign_id);
+CREATE INDEX IF NOT EXISTS idx_campaign_items_open ON public.campaign_items(status, created_at)
+  WHERE status IN ('pending', 'running');
+
+ALTER TABLE public.campaigns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.campaign_items ENABLE ROW LEVEL SECURITY;
+
+-- Campaigns are created, dispatched and retried through edge functions with
+-- the service role; workspace members only need to read them.
+CREATE POLICY "Members can view workspace campaigns"
+  ON public.campaigns
+  FOR SELECT
+  USING (public.has_workspace_role(workspace_id));
+
+CREATE POLICY "Members can view workspace campaign items"
+  ON public.campaign_items
+  FOR SELECT
+  USING (public.has_workspace_role(workspace_id));
+
+CREATE TRIGGER update_campaigns_updated_at
+  BEFORE UPDATE ON public.campaigns
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_campaign_items_updated_at
+  BEFORE UPDATE ON public.campaign_items
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Dispatch pending items and roll up finished campaigns every minute
+SELECT cron.unschedule('campaign-worker')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'campaign-worker');
+
+SELECT cron.schedule(
+  'campaign-worker',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/campaign-worker',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
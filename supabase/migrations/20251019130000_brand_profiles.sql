@@ -0,0 +1,39 @@
+-- Brand kit per workspace.
+-- Edge functions that build prompts (openai-generate,
+-- openai-variable-suggestions, runwayml-generate) load this row and fold it
+-- into every prompt, so instructions no longer need to repeat it.
+
+CREATE TABLE IF NOT EXISTS public.brand_profiles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL UNIQUE REFERENCES public.client_configs(id) ON DELETE CASCADE,
+  brand_voice TEXT,
+  benefits TEXT[] NOT NULL DEFAULT '{}',
+  disclaimer TEXT,
+  legal_instructions TEXT,
+  visual_tone TEXT,
+  logo_url TEXT,
+  color_palette TEXT[] NOT NULL DEFAULT '{}',
+  heading_font TEXT,
+  body_font TEXT,
+  banned_words TEXT[] NOT NULL DEFAULT '{}',
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.brand_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view workspace brand profile"
+  ON public.brand_profiles
+  FOR SELECT
+  USING (public.has_workspace_role(workspace_id));
+
+CREATE POLICY "Editors can manage workspace brand profile"
+  ON public.brand_profiles
+  FOR ALL
+  USING (public.has_workspace_role(workspace_id, ARRAY['owner', 'editor']))
+  WITH CHECK (public.has_workspace_role(workspace_id, ARRAY['owner', 'editor']));
+
+CREATE TRIGGER update_brand_profiles_updated_at
+  BEFORE UPDATE ON public.brand_profiles
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,55 @@
+-- Signed, idempotent HeyGen webhooks.
+-- heygen-webhook-register stores the signing secret HeyGen returns for each
+-- endpoint. heygen-webhook verifies every delivery against it and records the
+-- raw event in webhook_events, which dedupes retries and keeps the payload
+-- around so admins can replay it.
+
+CREATE TABLE IF NOT EXISTS public.webhook_endpoints (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  provider TEXT NOT NULL,
+  endpoint_id TEXT NOT NULL,
+  url TEXT NOT NULL,
+  secret TEXT NOT NULL,
+  events TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (provider, endpoint_id)
+);
+
+-- No policies: signing secrets are only readable with the service role key
+ALTER TABLE public.webhook_endpoints ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_webhook_endpoints_updated_at
+  BEFORE UPDATE ON public.webhook_endpoints
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS public.webhook_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  provider TEXT NOT NULL,
+  event_key TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  signature TEXT,
+  status TEXT NOT NULL DEFAULT 'received' CHECK (status IN ('received', 'processed', 'ignored', 'failed')),
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  received_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  processed_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (provider, event_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_events_received_at
+  ON public.webhook_events (received_at DESC);
+
+ALTER TABLE public.webhook_events ENABLE ROW LEVEL SECURITY;
+
+-- Written by heygen-webhook with the service role; admins only read
+CREATE POLICY "Admins can view webhook events"
+  ON public.webhook_events
+  FOR SELECT
+  USING (public.is_admin());
+
+CREATE TRIGGER update_webhook_events_updated_at
+  BEFORE UPDATE ON public.webhook_events
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
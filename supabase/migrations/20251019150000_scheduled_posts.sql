@@ -0,0 +1,67 @@
+-- Scheduled social publishing.
+-- Posts are planned from the content calendar or the upload dialogs and
+-- published by the social-scheduler edge function, which cron runs every
+-- minute. Failed attempts are retried with backoff until max attempts.
+
+CREATE TABLE IF NOT EXISTS public.scheduled_posts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES public.client_configs(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  asset_id UUID REFERENCES public.asset_library(id) ON DELETE SET NULL,
+  asset_url TEXT NOT NULL,
+  asset_type TEXT NOT NULL CHECK (asset_type IN ('image', 'video')),
+  platform TEXT NOT NULL CHECK (platform IN ('instagram', 'youtube')),
+  title TEXT,
+  caption TEXT NOT NULL DEFAULT '',
+  publish_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'publishing', 'published', 'failed', 'cancelled')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  platform_post_id TEXT,
+  platform_url TEXT,
+  published_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_posts_due
+  ON public.scheduled_posts (status, publish_at);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_posts_workspace_publish_at
+  ON public.scheduled_posts (workspace_id, publish_at);
+
+ALTER TABLE public.scheduled_posts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view workspace scheduled posts"
+  ON public.scheduled_posts
+  FOR SELECT
+  USING (public.has_workspace_role(workspace_id));
+
+CREATE POLICY "Editors can manage workspace scheduled posts"
+  ON public.scheduled_posts
+  FOR ALL
+  USING (public.has_workspace_role(workspace_id, ARRAY['owner', 'editor']))
+  WITH CHECK (public.has_workspace_role(workspace_id, ARRAY['owner', 'editor']));
+
+CREATE TRIGGER update_scheduled_posts_updated_at
+  BEFORE UPDATE ON public.scheduled_posts
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+SELECT cron.unschedule('social-scheduler')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'social-scheduler');
+
+SELECT cron.schedule(
+  'social-scheduler',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/social-scheduler',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
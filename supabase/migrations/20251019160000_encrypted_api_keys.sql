@@ -0,0 +1,136 @@
+-- Encrypted provider API keys.
+-- Key material moves into Supabase Vault; api_keys keeps a pointer to the
+-- secret plus the last four characters for masked display. Rows without a
+-- workspace are the platform defaults admins manage; a workspace row
+-- overrides them for that workspace. Edge functions resolve keys through
+-- get_api_key(), which only the service role may call.
+
+ALTER TABLE public.api_keys
+  ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES public.client_configs(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS secret_id UUID,
+  ADD COLUMN IF NOT EXISTS key_hint TEXT,
+  ADD COLUMN IF NOT EXISTS last_validated_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS validation_error TEXT,
+  ADD COLUMN IF NOT EXISTS updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- 1. Move existing plaintext keys into Vault and drop the empty placeholders
+DO $$
+DECLARE
+  key_row RECORD;
+BEGIN
+  FOR key_row IN
+    SELECT id, key_value FROM public.api_keys
+    WHERE secret_id IS NULL AND COALESCE(key_value, '') <> ''
+  LOOP
+    UPDATE public.api_keys
+    SET secret_id = vault.create_secret(key_row.key_value),
+        key_hint = right(key_row.key_value, 4)
+    WHERE id = key_row.id;
+  END LOOP;
+END $$;
+
+DELETE FROM public.api_keys WHERE secret_id IS NULL;
+
+ALTER TABLE public.api_keys DROP COLUMN IF EXISTS key_value;
+ALTER TABLE public.api_keys ALTER COLUMN secret_id SET NOT NULL;
+
+ALTER TABLE public.api_keys DROP CONSTRAINT IF EXISTS api_keys_provider_key;
+ALTER TABLE public.api_keys
+  ADD CONSTRAINT api_keys_workspace_provider_key UNIQUE NULLS NOT DISTINCT (workspace_id, provider);
+ALTER TABLE public.api_keys
+  ADD CONSTRAINT api_keys_provider_check CHECK (provider IN ('openai', 'runwayml', 'heygen'));
+
+DROP TRIGGER IF EXISTS update_api_keys_updated_at ON public.api_keys;
+CREATE TRIGGER update_api_keys_updated_at
+  BEFORE UPDATE ON public.api_keys
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. Clients only read metadata; writes go through update-api-key
+DROP POLICY IF EXISTS "Admins can manage api keys" ON public.api_keys;
+
+CREATE POLICY "Admins can view api keys"
+  ON public.api_keys
+  FOR SELECT
+  USING (public.is_admin());
+
+CREATE POLICY "Owners can view workspace api keys"
+  ON public.api_keys
+  FOR SELECT
+  USING (workspace_id IS NOT NULL AND public.has_workspace_role(workspace_id, ARRAY['owner']));
+
+-- 3. Vault access for the service role
+CREATE OR REPLACE FUNCTION public.set_api_key(p_workspace_id UUID, p_provider TEXT, p_key TEXT, p_updated_by UUID)
+RETURNS public.api_keys
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, vault
+AS $$
+DECLARE
+  existing public.api_keys;
+  result public.api_keys;
+BEGIN
+  SELECT * INTO existing
+  FROM public.api_keys
+  WHERE workspace_id IS NOT DISTINCT FROM p_workspace_id AND provider = p_provider;
+
+  IF existing.id IS NULL THEN
+    INSERT INTO public.api_keys (workspace_id, provider, secret_id, key_hint, updated_by)
+    VALUES (p_workspace_id, p_provider, vault.create_secret(p_key), right(p_key, 4), p_updated_by)
+    RETURNING * INTO result;
+  ELSE
+    PERFORM vault.update_secret(existing.secret_id, p_key);
+    UPDATE public.api_keys
+    SET key_hint = right(p_key, 4),
+        updated_by = p_updated_by,
+        last_validated_at = NULL,
+        validation_error = NULL
+    WHERE id = existing.id
+    RETURNING * INTO result;
+  END IF;
+
+  RETURN result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.delete_api_key(p_workspace_id UUID, p_provider TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, vault
+AS $$
+DECLARE
+  removed_secret UUID;
+BEGIN
+  DELETE FROM public.api_keys
+  WHERE workspace_id IS NOT DISTINCT FROM p_workspace_id AND provider = p_provider
+  RETURNING secret_id INTO removed_secret;
+
+  IF removed_secret IS NOT NULL THEN
+    DELETE FROM vault.secrets WHERE id = removed_secret;
+  END IF;
+END;
+$$;
+
+-- The workspace key wins over the platform default
+CREATE OR REPLACE FUNCTION public.get_api_key(p_workspace_id UUID, p_provider TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, vault
+AS $$
+  SELECT secrets.decrypted_secret
+  FROM public.api_keys keys
+  JOIN vault.decrypted_secrets secrets ON secrets.id = keys.secret_id
+  WHERE keys.provider = p_provider
+    AND (keys.workspace_id = p_workspace_id OR keys.workspace_id IS NULL)
+  ORDER BY keys.workspace_id IS NULL
+  LIMIT 1;
+$$;
+
+REVOKE ALL ON FUNCTION public.set_api_key(UUID, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.delete_api_key(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.get_api_key(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.set_api_key(UUID, TEXT, TEXT, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.delete_api_key(UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_api_key(UUID, TEXT) TO service_role;
@@ -0,0 +1,95 @@
+-- Product feed sources.
+-- A feed source is a merchant feed URL (Google Merchant or Shopify export)
+-- that feed-sync downloads on a schedule. Rows are upserted into inventory
+-- by SKU, products the feed no longer lists are marked inactive, and every
+-- run is kept in feed_sync_runs with its per-row errors.
+
+CREATE TABLE IF NOT EXISTS public.feed_sources (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES public.client_configs(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  name TEXT NOT NULL,
+  url TEXT NOT NULL,
+  format TEXT NOT NULL DEFAULT 'csv' CHECK (format IN ('csv', 'json')),
+  -- Inventory field -> feed column; unmapped fields fall back to the
+  -- Google Shopping column names the importer already understands
+  field_mapping JSONB NOT NULL DEFAULT '{}',
+  schedule TEXT NOT NULL DEFAULT 'daily' CHECK (schedule IN ('manual', 'hourly', 'daily', 'weekly')),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  next_sync_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  last_synced_at TIMESTAMP WITH TIME ZONE,
+  last_status TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.feed_sync_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  feed_source_id UUID NOT NULL REFERENCES public.feed_sources(id) ON DELETE CASCADE,
+  workspace_id UUID NOT NULL REFERENCES public.client_configs(id) ON DELETE CASCADE,
+  triggered_by TEXT NOT NULL DEFAULT 'schedule' CHECK (triggered_by IN ('schedule', 'manual')),
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'partial', 'failed')),
+  rows_total INTEGER NOT NULL DEFAULT 0,
+  rows_created INTEGER NOT NULL DEFAULT 0,
+  rows_updated INTEGER NOT NULL DEFAULT 0,
+  rows_deactivated INTEGER NOT NULL DEFAULT 0,
+  rows_failed INTEGER NOT NULL DEFAULT 0,
+  -- [{ row, sku, error }] for rows that could not be imported
+  row_errors JSONB NOT NULL DEFAULT '[]',
+  error TEXT,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Products remember which feed last wrote them, so a sync only retires its own
+ALTER TABLE public.inventory
+  ADD COLUMN IF NOT EXISTS feed_source_id UUID REFERENCES public.feed_sources(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_feed_sources_workspace_id ON public.feed_sources(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_feed_sources_due ON public.feed_sources(next_sync_at)
+  WHERE is_active AND schedule <> 'manual';
+CREATE INDEX IF NOT EXISTS idx_feed_sync_runs_feed_source_id ON public.feed_sync_runs(feed_source_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_inventory_feed_source_id ON public.inventory(feed_source_id);
+
+ALTER TABLE public.feed_sources ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.feed_sync_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view workspace feed sources"
+  ON public.feed_sources
+  FOR SELECT
+  USING (public.has_workspace_role(workspace_id));
+
+CREATE POLICY "Editors can manage workspace feed sources"
+  ON public.feed_sources
+  FOR ALL
+  USING (public.has_workspace_role(workspace_id, ARRAY['owner', 'editor']))
+  WITH CHECK (public.has_workspace_role(workspace_id, ARRAY['owner', 'editor']));
+
+-- Runs are written by feed-sync with the service role
+CREATE POLICY "Members can view workspace feed sync runs"
+  ON public.feed_sync_runs
+  FOR SELECT
+  USING (public.has_workspace_role(workspace_id));
+
+CREATE TRIGGER update_feed_sources_updated_at
+  BEFORE UPDATE ON public.feed_sources
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Pick up due feeds every fifteen minutes
+SELECT cron.unschedule('feed-sync')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'feed-sync');
+
+SELECT cron.schedule(
+  'feed-sync',
+  '*/15 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/feed-sync',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
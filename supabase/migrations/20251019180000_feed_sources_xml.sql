@@ -0,0 +1,7 @@
+-- Google Shopping RSS feeds.
+-- feed-sync can now read RSS 2.0 / Atom product feeds with g: namespaced
+-- elements, alongside CSV and JSON.
+
+ALTER TABLE public.feed_sources DROP CONSTRAINT IF EXISTS feed_sources_format_check;
+ALTER TABLE public.feed_sources
+  ADD CONSTRAINT feed_sources_format_check CHECK (format IN ('csv', 'json', 'xml'));
@@ -0,0 +1,7 @@
+-- Facebook Page publishing.
+-- social-scheduler can now publish images and videos to the workspace's
+-- selected Facebook Page through facebook-post.
+
+ALTER TABLE public.scheduled_posts DROP CONSTRAINT IF EXISTS scheduled_posts_platform_check;
+ALTER TABLE public.scheduled_posts
+  ADD CONSTRAINT scheduled_posts_platform_check CHECK (platform IN ('instagram', 'youtube', 'facebook'));
@@ -0,0 +1,63 @@
+-- TikTok publishing.
+-- tiktok-post uploads a video through the Content Posting API, either as a
+-- direct post or to the creator's drafts inbox. TikTok processes the upload
+-- asynchronously, so each publish is tracked here and cron polls TikTok
+-- until it reaches a final status.
+
+CREATE TABLE IF NOT EXISTS public.tiktok_publishes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES public.client_configs(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  asset_id UUID REFERENCES public.asset_library(id) ON DELETE SET NULL,
+  video_url TEXT NOT NULL,
+  publish_id TEXT NOT NULL,
+  mode TEXT NOT NULL CHECK (mode IN ('direct', 'draft')),
+  caption TEXT NOT NULL DEFAULT '',
+  privacy_level TEXT,
+  disable_duet BOOLEAN NOT NULL DEFAULT false,
+  disable_stitch BOOLEAN NOT NULL DEFAULT false,
+  disable_comment BOOLEAN NOT NULL DEFAULT false,
+  status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'sent_to_inbox', 'published', 'failed')),
+  fail_reason TEXT,
+  post_id TEXT,
+  post_url TEXT,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tiktok_publishes_processing
+  ON public.tiktok_publishes (status, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_tiktok_publishes_asset
+  ON public.tiktok_publishes (asset_id, created_at DESC);
+
+ALTER TABLE public.tiktok_publishes ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by tiktok-post with the service role
+CREATE POLICY "Members can view workspace tiktok publishes"
+  ON public.tiktok_publishes
+  FOR SELECT
+  USING (public.has_workspace_role(workspace_id));
+
+CREATE TRIGGER update_tiktok_publishes_updated_at
+  BEFORE UPDATE ON public.tiktok_publishes
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+SELECT cron.unschedule('tiktok-publish-status')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'tiktok-publish-status');
+
+SELECT cron.schedule(
+  'tiktok-publish-status',
+  '*/2 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/tiktok-post',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{"action": "sync_pending"}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,101 @@
+-- Unified publishing.
+-- The publish edge function posts to every connected network through one
+-- provider per platform and records each attempt here with the same shape:
+-- status, the network's id and URL for the post, and any error. Networks
+-- that process uploads asynchronously (TikTok) keep a tracking id, and cron
+-- polls them until they reach a final status. Replaces tiktok_publishes.
+
+CREATE TABLE IF NOT EXISTS public.publications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES public.client_configs(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  platform TEXT NOT NULL,
+  asset_id UUID REFERENCES public.asset_library(id) ON DELETE SET NULL,
+  scheduled_post_id UUID REFERENCES public.scheduled_posts(id) ON DELETE SET NULL,
+  media JSONB NOT NULL DEFAULT '[]'::jsonb,
+  text TEXT NOT NULL DEFAULT '',
+  title TEXT,
+  -- Platform-specific settings, e.g. Pinterest board or TikTok privacy level
+  options JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL CHECK (status IN ('processing', 'sent_to_inbox', 'published', 'failed')),
+  external_id TEXT,
+  tracking_id TEXT,
+  url TEXT,
+  error TEXT,
+  published_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_publications_processing
+  ON public.publications (status, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_publications_asset
+  ON public.publications (asset_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_publications_workspace
+  ON public.publications (workspace_id, created_at DESC);
+
+ALTER TABLE public.publications ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by the publish function with the service role
+CREATE POLICY "Members can view workspace publications"
+  ON public.publications
+  FOR SELECT
+  USING (public.has_workspace_role(workspace_id));
+
+CREATE TRIGGER update_publications_updated_at
+  BEFORE UPDATE ON public.publications
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Carry TikTok history over before dropping its table
+INSERT INTO public.publications (
+  workspace_id, created_by, platform, asset_id, media, text, options, status,
+  external_id, tracking_id, url, error, published_at, created_at, updated_at
+)
+SELECT
+  workspace_id,
+  created_by,
+  'tiktok',
+  asset_id,
+  jsonb_build_array(jsonb_build_object('url', video_url, 'type', 'video')),
+  caption,
+  jsonb_strip_nulls(jsonb_build_object(
+    'mode', mode,
+    'privacyLevel', privacy_level,
+    'disableDuet', disable_duet,
+    'disableStitch', disable_stitch,
+    'disableComment', disable_comment
+  )),
+  status,
+  post_id,
+  publish_id,
+  post_url,
+  fail_reason,
+  CASE WHEN status = 'published' THEN completed_at END,
+  created_at,
+  updated_at
+FROM public.tiktok_publishes;
+
+SELECT cron.unschedule('tiktok-publish-status')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'tiktok-publish-status');
+
+DROP TABLE IF EXISTS public.tiktok_publishes;
+
+SELECT cron.unschedule('publication-status')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'publication-status');
+
+SELECT cron.schedule(
+  'publication-status',
+  '*/2 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/publish',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{"action": "sync_pending"}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,73 @@
+-- Publication performance.
+-- Each publication is linked to the product its asset was generated for, and
+-- cron has the publish function pull engagement numbers from the networks.
+-- Every pull is kept as a snapshot in publication_metrics; the latest one is
+-- copied onto the publication so performance panels can read it directly.
+
+ALTER TABLE public.publications
+  ADD COLUMN IF NOT EXISTS inventory_id UUID REFERENCES public.inventory(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS metrics JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS metrics_synced_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_publications_inventory
+  ON public.publications (inventory_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_publications_metrics_sync
+  ON public.publications (status, metrics_synced_at NULLS FIRST);
+
+-- Link existing publications to their products through the generated asset.
+-- generated_assets.inventory_id is TEXT, so legacy values that aren't the id
+-- of an existing product are skipped
+UPDATE public.publications p
+SET inventory_id = ga.inventory_id::uuid
+FROM public.asset_library al
+JOIN public.generated_assets ga ON ga.id = al.original_asset_id
+WHERE p.asset_id = al.id
+  AND p.inventory_id IS NULL
+  AND ga.inventory_id ~* '^[0-9a-f-]{36}$'
+  AND EXISTS (SELECT 1 FROM public.inventory inv WHERE inv.id::text = lower(ga.inventory_id));
+
+CREATE TABLE IF NOT EXISTS public.publication_metrics (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  publication_id UUID NOT NULL REFERENCES public.publications(id) ON DELETE CASCADE,
+  workspace_id UUID NOT NULL REFERENCES public.client_configs(id) ON DELETE CASCADE,
+  captured_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  views BIGINT,
+  impressions BIGINT,
+  reach BIGINT,
+  likes BIGINT,
+  comments BIGINT,
+  shares BIGINT,
+  saves BIGINT,
+  -- The network's response, for metrics without a column of their own
+  raw JSONB NOT NULL DEFAULT '{}'::jsonb
+);
+
+CREATE INDEX IF NOT EXISTS idx_publication_metrics_publication
+  ON public.publication_metrics (publication_id, captured_at DESC);
+
+ALTER TABLE public.publication_metrics ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by the publish function with the service role
+CREATE POLICY "Members can view workspace publication metrics"
+  ON public.publication_metrics
+  FOR SELECT
+  USING (public.has_workspace_role(workspace_id));
+
+SELECT cron.unschedule('publication-metrics')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'publication-metrics');
+
+SELECT cron.schedule(
+  'publication-metrics',
+  '15 */6 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/publish',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{"action": "sync_metrics"}'::jsonb
+  );
+  $$
+);
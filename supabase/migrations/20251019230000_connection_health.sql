@@ -0,0 +1,51 @@
+-- Connection health.
+-- Cron has the publish function renew access tokens ahead of expiry. When a
+-- token can't be renewed the connection is flagged so the workspace is asked
+-- to reconnect, instead of scheduled posts failing overnight.
+
+ALTER TABLE public.user_social_connections
+  ADD COLUMN IF NOT EXISTS health_status TEXT NOT NULL DEFAULT 'healthy'
+    CHECK (health_status IN ('healthy', 'needs_reconnect')),
+  ADD COLUMN IF NOT EXISTS health_error TEXT,
+  ADD COLUMN IF NOT EXISTS health_checked_at TIMESTAMP WITH TIME ZONE;
+
+-- Members only have column-level read access to connections
+GRANT SELECT (health_status, health_error, health_checked_at)
+  ON public.user_social_connections TO authenticated;
+
+-- A new access token, from a refresh or from reconnecting, clears the flag
+CREATE OR REPLACE FUNCTION public.reset_connection_health()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.access_token IS DISTINCT FROM OLD.access_token THEN
+    NEW.health_status := 'healthy';
+    NEW.health_error := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reset_user_social_connections_health ON public.user_social_connections;
+CREATE TRIGGER reset_user_social_connections_health
+  BEFORE UPDATE ON public.user_social_connections
+  FOR EACH ROW EXECUTE FUNCTION public.reset_connection_health();
+
+SELECT cron.unschedule('connection-refresh')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'connection-refresh');
+
+SELECT cron.schedule(
+  'connection-refresh',
+  '*/30 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/publish',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{"action": "refresh_connections"}'::jsonb
+  );
+  $$
+);
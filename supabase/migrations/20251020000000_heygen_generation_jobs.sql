@@ -0,0 +1,68 @@
+-- HeyGen jobs.
+-- HeyGen videos were tracked by a "Callback: feedgen_<template>_<product>_<ts>"
+-- string written into asset_library.description and matched back with regexes.
+-- They are now generation_jobs rows like Runway tasks: provider_task_id holds
+-- HeyGen's video_id, callback_id the id sent with the request, and the job
+-- links the template, product, generated asset and library entry it produced.
+
+ALTER TABLE public.generation_jobs
+  ADD COLUMN IF NOT EXISTS callback_id TEXT,
+  ADD COLUMN IF NOT EXISTS template_id TEXT,
+  ADD COLUMN IF NOT EXISTS asset_library_id UUID REFERENCES public.asset_library(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_generation_jobs_callback_id
+  ON public.generation_jobs (callback_id)
+  WHERE callback_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_generation_jobs_provider_task
+  ON public.generation_jobs (provider, provider_task_id)
+  WHERE provider_task_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_asset_library_id
+  ON public.generation_jobs (asset_library_id);
+
+-- One last pass over the old descriptions to turn them into jobs. HeyGen's
+-- video_id was never stored, so renders still in flight can't be polled;
+-- they are marked failed, and the webhook still finds them by callback ID
+-- if HeyGen reports them finished after all.
+INSERT INTO public.generation_jobs (
+  workspace_id, owner_id, provider, job_type, status, callback_id, template_id,
+  inventory_id, generated_asset_id, asset_library_id, result_url, error, created_at, completed_at
+)
+SELECT
+  al.workspace_id,
+  al.owner_id,
+  'heygen',
+  'video',
+  CASE
+    WHEN al.asset_url IN ('processing', 'pending', 'failed') THEN 'failed'
+    ELSE 'succeeded'
+  END,
+  substring(al.description FROM 'Callback: (feedgen_[^ |]+)'),
+  substring(al.description FROM 'Template: ([^ |]+)'),
+  -- generated_assets.inventory_id is TEXT; legacy values that aren't a product id are dropped
+  CASE
+    WHEN ga.inventory_id ~* '^[0-9a-f-]{36}$'
+      AND EXISTS (SELECT 1 FROM public.inventory inv WHERE inv.id::text = lower(ga.inventory_id))
+    THEN ga.inventory_id::uuid
+  END,
+  ga.id,
+  al.id,
+  CASE WHEN al.asset_url NOT IN ('processing', 'pending', 'failed') THEN al.asset_url END,
+  CASE WHEN al.asset_url IN ('processing', 'pending') THEN 'Started before HeyGen jobs were tracked; check the video in HeyGen' END,
+  al.created_at,
+  CASE WHEN al.asset_url IN ('processing', 'pending') THEN now() ELSE al.updated_at END
+FROM public.asset_library al
+LEFT JOIN public.generated_assets ga ON ga.id = al.original_asset_id
+WHERE al.source_system = 'heygen'
+  AND al.workspace_id IS NOT NULL
+  AND al.description ~ 'Callback: feedgen_'
+ON CONFLICT DO NOTHING;
+
+UPDATE public.asset_library al
+SET asset_url = 'failed'
+FROM public.generation_jobs job
+WHERE job.asset_library_id = al.id
+  AND job.provider = 'heygen'
+  AND job.status = 'failed'
+  AND al.asset_url IN ('processing', 'pending');
@@ -0,0 +1,33 @@
+-- Template variable schema.
+-- Variable types were guessed from names ("image" or "url" in the name) and
+-- every text field got a 100 character limit. Admins now define each
+-- variable's type, limit, required flag, default and description here, and
+-- the same schema is validated in the editor and again by heygen-direct.
+
+ALTER TABLE public.template_fallback_variables
+  ADD COLUMN IF NOT EXISTS variable_type TEXT NOT NULL DEFAULT 'text'
+    CHECK (variable_type IN ('text', 'image', 'video', 'audio', 'color', 'number')),
+  ADD COLUMN IF NOT EXISTS char_limit INTEGER CHECK (char_limit IS NULL OR char_limit > 0),
+  ADD COLUMN IF NOT EXISTS is_required BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS default_value TEXT,
+  ADD COLUMN IF NOT EXISTS description TEXT,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT now();
+
+-- Nobody has chosen types or required flags for existing rows yet, so they
+-- stay optional text until an admin describes them; limits are opt-in
+UPDATE public.template_fallback_variables SET is_required = false;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_template_fallback_variables_template_variable
+  ON public.template_fallback_variables (template_id, variable_name);
+
+DROP TRIGGER IF EXISTS update_template_fallback_variables_updated_at ON public.template_fallback_variables;
+CREATE TRIGGER update_template_fallback_variables_updated_at
+  BEFORE UPDATE ON public.template_fallback_variables
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP POLICY IF EXISTS "Admins can manage fallback variables" ON public.template_fallback_variables;
+CREATE POLICY "Admins can manage fallback variables"
+  ON public.template_fallback_variables
+  FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
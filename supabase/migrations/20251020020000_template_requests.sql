@@ -0,0 +1,162 @@
+-- Template requests.
+-- Custom template requests and the brand onboarding questionnaire used to be
+-- handed back to the templates tab and dropped. Requests are now stored per
+-- workspace and worked through an admin queue; marking one ready assigns the
+-- HeyGen template to the workspace and notifies whoever asked for it.
+-- Onboarding answers are saved into the workspace brand profile.
+
+CREATE TABLE IF NOT EXISTS public.template_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES public.client_configs(id) ON DELETE CASCADE,
+  requested_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  template_name TEXT NOT NULL,
+  category TEXT,
+  duration TEXT,
+  description TEXT NOT NULL,
+  requirements TEXT,
+  urgency TEXT NOT NULL DEFAULT 'normal' CHECK (urgency IN ('low', 'normal', 'high', 'urgent')),
+  status TEXT NOT NULL DEFAULT 'submitted' CHECK (status IN ('submitted', 'in_design', 'ready', 'rejected')),
+  admin_notes TEXT,
+  heygen_template_id TEXT,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT template_requests_ready_has_template
+    CHECK (status <> 'ready' OR heygen_template_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_template_requests_workspace_id ON public.template_requests(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_template_requests_open ON public.template_requests(status, created_at)
+  WHERE status IN ('submitted', 'in_design');
+
+ALTER TABLE public.template_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view workspace template requests"
+  ON public.template_requests
+  FOR SELECT
+  USING (public.has_workspace_role(workspace_id));
+
+CREATE POLICY "Editors can submit template requests"
+  ON public.template_requests
+  FOR INSERT
+  WITH CHECK (
+    public.has_workspace_role(workspace_id, ARRAY['owner', 'editor'])
+    AND requested_by = auth.uid()
+    AND status = 'submitted'
+  );
+
+CREATE POLICY "Admins can manage template requests"
+  ON public.template_requests
+  FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+-- The queue shows which workspace each request came from
+DROP POLICY IF EXISTS "Admins can view all workspaces" ON public.client_configs;
+CREATE POLICY "Admins can view all workspaces"
+  ON public.client_configs
+  FOR SELECT
+  USING (public.is_admin());
+
+CREATE TRIGGER update_template_requests_updated_at
+  BEFORE UPDATE ON public.template_requests
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- In-app notifications, written by triggers and edge functions
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  workspace_id UUID REFERENCES public.client_configs(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT,
+  -- Main view to open when the notification is clicked
+  link_tab TEXT,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON public.notifications(user_id, created_at DESC);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their notifications"
+  ON public.notifications
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can mark their notifications read"
+  ON public.notifications
+  FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+ALTER TABLE public.notifications REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+
+-- Status changes made from the admin queue: a ready request is assigned to
+-- its workspace, and the requester hears about every step
+CREATE OR REPLACE FUNCTION public.handle_template_request_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'ready' THEN
+    INSERT INTO public.client_template_assignments (client_config_id, template_id, template_name)
+    SELECT NEW.workspace_id, NEW.heygen_template_id, NEW.template_name
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.client_template_assignments existing
+      WHERE existing.client_config_id = NEW.workspace_id
+        AND existing.template_id = NEW.heygen_template_id
+    );
+
+    UPDATE public.client_template_assignments
+    SET is_active = true
+    WHERE client_config_id = NEW.workspace_id
+      AND template_id = NEW.heygen_template_id;
+  END IF;
+
+  IF NEW.requested_by IS NOT NULL THEN
+    INSERT INTO public.notifications (user_id, workspace_id, kind, title, body, link_tab)
+    VALUES (
+      NEW.requested_by,
+      NEW.workspace_id,
+      'template_request',
+      CASE NEW.status
+        WHEN 'in_design' THEN 'Template in design: ' || NEW.template_name
+        WHEN 'ready' THEN 'Template ready: ' || NEW.template_name
+        WHEN 'rejected' THEN 'Template request declined: ' || NEW.template_name
+        ELSE 'Template request updated: ' || NEW.template_name
+      END,
+      COALESCE(NEW.admin_notes, CASE NEW.status
+        WHEN 'in_design' THEN 'Our creative team has started on your template.'
+        WHEN 'ready' THEN 'The template is now available in Video Templates.'
+        ELSE NULL
+      END),
+      'templates'
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS template_request_status_changed ON public.template_requests;
+CREATE TRIGGER template_request_status_changed
+  AFTER UPDATE OF status ON public.template_requests
+  FOR EACH ROW EXECUTE FUNCTION public.handle_template_request_status();
+
+-- Onboarding answers that have no brand kit field yet
+ALTER TABLE public.brand_profiles
+  ADD COLUMN IF NOT EXISTS brand_name TEXT,
+  ADD COLUMN IF NOT EXISTS industry TEXT,
+  ADD COLUMN IF NOT EXISTS target_audience TEXT,
+  ADD COLUMN IF NOT EXISTS key_messages TEXT,
+  ADD COLUMN IF NOT EXISTS content_types TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS onboarded_at TIMESTAMP WITH TIME ZONE;
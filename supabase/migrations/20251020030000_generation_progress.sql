@@ -0,0 +1,40 @@
+-- Real generation progress.
+-- Lists used to animate made-up progress for anything still processing. Jobs
+-- now carry what the provider last reported: stage is the provider's own
+-- status (Runway task status, HeyGen video status, or 'webhook_received'),
+-- progress is Runway's reported fraction or a HeyGen stage estimate, and
+-- eta_at is when the worker expects the job to finish. Clients already
+-- follow generation_jobs over Realtime.
+
+ALTER TABLE public.generation_jobs
+  ADD COLUMN IF NOT EXISTS stage TEXT,
+  ADD COLUMN IF NOT EXISTS started_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS eta_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE public.generation_jobs
+SET started_at = created_at
+WHERE started_at IS NULL
+  AND status IN ('running', 'succeeded', 'failed');
+
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_generated_asset_id
+  ON public.generation_jobs (generated_asset_id);
+
+-- HeyGen only reports status when asked (or once, by webhook), so running
+-- HeyGen jobs are polled every minute the same way Runway jobs are
+SELECT cron.unschedule('heygen-progress')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'heygen-progress');
+
+SELECT cron.schedule(
+  'heygen-progress',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/heygen-status-check',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{"action": "poll"}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,221 @@
+-- Usage metering and plan quotas.
+-- Every generation edge function records what it asked a provider to do in
+-- usage_events before submitting, through record_usage(), which refuses once
+-- the workspace has used its plan's monthly quota or spending cap. Plans are
+-- assigned per workspace in workspace_subscriptions; workspaces without an
+-- active subscription are on the free plan.
+
+-- 1. Plans
+CREATE TABLE IF NOT EXISTS public.plans (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  price_cents INTEGER NOT NULL DEFAULT 0,
+  -- Generations per billing period; NULL means unlimited
+  text_quota INTEGER,
+  image_quota INTEGER,
+  video_quota INTEGER,
+  -- Estimated provider spend per billing period; NULL means uncapped
+  cost_cap_usd NUMERIC(10, 2),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.plans (id, name, price_cents, text_quota, image_quota, video_quota, cost_cap_usd, sort_order)
+VALUES
+  ('free', 'Free', 0, 50, 10, 3, 5, 0),
+  ('starter', 'Starter', 1900, 500, 100, 25, 40, 1),
+  ('professional', 'Professional', 4900, 2000, 400, 100, 150, 2),
+  ('enterprise', 'Enterprise', 19900, NULL, NULL, NULL, 1000, 3)
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE public.plans ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view plans" ON public.plans;
+CREATE POLICY "Anyone can view plans"
+  ON public.plans
+  FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage plans" ON public.plans;
+CREATE POLICY "Admins can manage plans"
+  ON public.plans
+  FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+DROP TRIGGER IF EXISTS update_plans_updated_at ON public.plans;
+CREATE TRIGGER update_plans_updated_at
+  BEFORE UPDATE ON public.plans
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. Workspace plan assignment (kept off client_configs, which owners can update)
+CREATE TABLE IF NOT EXISTS public.workspace_subscriptions (
+  workspace_id UUID PRIMARY KEY REFERENCES public.client_configs(id) ON DELETE CASCADE,
+  plan_id TEXT NOT NULL REFERENCES public.plans(id),
+  status TEXT NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'trialing', 'past_due', 'canceled')),
+  current_period_start TIMESTAMP WITH TIME ZONE,
+  current_period_end TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Workspaces created before plans existed keep the plan the billing page showed them
+INSERT INTO public.workspace_subscriptions (workspace_id, plan_id)
+SELECT id, 'professional'
+FROM public.client_configs
+ON CONFLICT (workspace_id) DO NOTHING;
+
+ALTER TABLE public.workspace_subscriptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view their subscription" ON public.workspace_subscriptions;
+CREATE POLICY "Members can view their subscription"
+  ON public.workspace_subscriptions
+  FOR SELECT
+  USING (public.has_workspace_role(workspace_id));
+
+DROP POLICY IF EXISTS "Admins can manage subscriptions" ON public.workspace_subscriptions;
+CREATE POLICY "Admins can manage subscriptions"
+  ON public.workspace_subscriptions
+  FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+DROP TRIGGER IF EXISTS update_workspace_subscriptions_updated_at ON public.workspace_subscriptions;
+CREATE TRIGGER update_workspace_subscriptions_updated_at
+  BEFORE UPDATE ON public.workspace_subscriptions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 3. Usage ledger, written only by edge functions (service role)
+CREATE TABLE IF NOT EXISTS public.usage_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES public.client_configs(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  provider TEXT NOT NULL CHECK (provider IN ('openai', 'runway', 'heygen')),
+  usage_type TEXT NOT NULL CHECK (usage_type IN ('text', 'image', 'video')),
+  -- Provider billing units, e.g. tokens, images or video seconds
+  units NUMERIC NOT NULL DEFAULT 1,
+  unit TEXT NOT NULL,
+  estimated_cost_usd NUMERIC(10, 4) NOT NULL DEFAULT 0,
+  generation_job_id UUID REFERENCES public.generation_jobs(id) ON DELETE SET NULL,
+  metadata JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_usage_events_workspace_created
+  ON public.usage_events (workspace_id, created_at DESC);
+
+ALTER TABLE public.usage_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view workspace usage" ON public.usage_events;
+CREATE POLICY "Members can view workspace usage"
+  ON public.usage_events
+  FOR SELECT
+  USING (public.has_workspace_role(workspace_id) OR public.is_admin());
+
+ALTER TABLE public.usage_events REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.usage_events;
+
+-- 4. Usage for the current billing period, one row per generation type.
+-- Runs with the caller's rights, so members only ever see their own workspaces.
+CREATE OR REPLACE FUNCTION public.get_workspace_usage(p_workspace_id UUID)
+RETURNS TABLE (
+  usage_type TEXT,
+  used BIGINT,
+  quota INTEGER,
+  estimated_cost_usd NUMERIC,
+  period_start TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH current_plan AS (
+    SELECT plans.*,
+      CASE WHEN subscription.current_period_end > now()
+        THEN subscription.current_period_start
+        ELSE date_trunc('month', now())
+      END AS period_start
+    FROM public.plans plans
+    LEFT JOIN public.workspace_subscriptions subscription ON subscription.workspace_id = p_workspace_id
+    WHERE plans.id = CASE WHEN subscription.status IN ('active', 'trialing') THEN subscription.plan_id ELSE 'free' END
+  )
+  SELECT kinds.usage_type,
+    COUNT(events.id) AS used,
+    CASE kinds.usage_type
+      WHEN 'text' THEN current_plan.text_quota
+      WHEN 'image' THEN current_plan.image_quota
+      ELSE current_plan.video_quota
+    END AS quota,
+    COALESCE(SUM(events.estimated_cost_usd), 0) AS estimated_cost_usd,
+    current_plan.period_start
+  FROM current_plan
+  CROSS JOIN (VALUES ('text'), ('image'), ('video')) AS kinds(usage_type)
+  LEFT JOIN public.usage_events events
+    ON events.workspace_id = p_workspace_id
+    AND events.usage_type = kinds.usage_type
+    AND events.created_at >= current_plan.period_start
+  GROUP BY kinds.usage_type, current_plan.text_quota, current_plan.image_quota,
+    current_plan.video_quota, current_plan.period_start;
+$$;
+
+-- 5. Check the quota and record the usage in one step. Edge functions call this
+-- before submitting to a provider and delete the row if the submission fails.
+CREATE OR REPLACE FUNCTION public.record_usage(
+  p_workspace_id UUID,
+  p_user_id UUID,
+  p_provider TEXT,
+  p_usage_type TEXT,
+  p_units NUMERIC,
+  p_unit TEXT,
+  p_estimated_cost_usd NUMERIC,
+  p_metadata JSONB DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  plan public.plans;
+  usage RECORD;
+  spent NUMERIC;
+  event_id UUID;
+BEGIN
+  -- Concurrent requests for one workspace must not both take the last generation
+  PERFORM pg_advisory_xact_lock(hashtext('usage:' || p_workspace_id::text));
+
+  SELECT * INTO usage
+  FROM public.get_workspace_usage(p_workspace_id) current_usage
+  WHERE current_usage.usage_type = p_usage_type;
+
+  SELECT plans.* INTO plan
+  FROM public.plans plans
+  LEFT JOIN public.workspace_subscriptions subscription ON subscription.workspace_id = p_workspace_id
+  WHERE plans.id = CASE WHEN subscription.status IN ('active', 'trialing') THEN subscription.plan_id ELSE 'free' END;
+
+  IF usage.quota IS NOT NULL AND usage.used >= usage.quota THEN
+    RAISE EXCEPTION 'Monthly % generation limit reached (% of %) on the % plan. Upgrade to generate more.',
+      p_usage_type, usage.used, usage.quota, plan.name;
+  END IF;
+
+  SELECT COALESCE(SUM(estimated_cost_usd), 0) INTO spent
+  FROM public.usage_events
+  WHERE workspace_id = p_workspace_id AND created_at >= usage.period_start;
+
+  IF plan.cost_cap_usd IS NOT NULL AND spent + p_estimated_cost_usd > plan.cost_cap_usd THEN
+    RAISE EXCEPTION 'Monthly spending cap of $% reached on the % plan. Upgrade to generate more.',
+      plan.cost_cap_usd, plan.name;
+  END IF;
+
+  INSERT INTO public.usage_events (workspace_id, user_id, provider, usage_type, units, unit, estimated_cost_usd, metadata)
+  VALUES (p_workspace_id, p_user_id, p_provider, p_usage_type, p_units, p_unit, p_estimated_cost_usd, p_metadata)
+  RETURNING id INTO event_id;
+
+  RETURN event_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_usage(UUID, UUID, TEXT, TEXT, NUMERIC, TEXT, NUMERIC, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_usage(UUID, UUID, TEXT, TEXT, NUMERIC, TEXT, NUMERIC, JSONB) TO service_role;
@@ -0,0 +1,73 @@
+-- Stripe subscription billing.
+-- stripe-billing opens Checkout and Customer Portal sessions; stripe-webhook
+-- keeps workspace_subscriptions and invoices in step with Stripe. Stripe
+-- deliveries are stored in webhook_events (provider 'stripe', keyed by the
+-- Stripe event ID) so retries are handled once and admins can replay them.
+
+-- 1. Which Stripe price sells each plan
+ALTER TABLE public.plans
+  ADD COLUMN IF NOT EXISTS stripe_price_id TEXT UNIQUE;
+
+-- 2. One Stripe customer per workspace
+CREATE TABLE IF NOT EXISTS public.billing_customers (
+  workspace_id UUID PRIMARY KEY REFERENCES public.client_configs(id) ON DELETE CASCADE,
+  stripe_customer_id TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.billing_customers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view billing customers" ON public.billing_customers;
+CREATE POLICY "Admins can view billing customers"
+  ON public.billing_customers
+  FOR SELECT
+  USING (public.is_admin());
+
+-- 3. Subscription state mirrored from Stripe. stripe_synced_at is the creation
+-- time of the last event applied, so late deliveries cannot undo newer ones.
+ALTER TABLE public.workspace_subscriptions
+  ADD COLUMN IF NOT EXISTS stripe_subscription_id TEXT UNIQUE,
+  ADD COLUMN IF NOT EXISTS cancel_at_period_end BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS stripe_synced_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.workspace_subscriptions REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.workspace_subscriptions;
+
+-- 4. Invoices
+CREATE TABLE IF NOT EXISTS public.invoices (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES public.client_configs(id) ON DELETE CASCADE,
+  stripe_invoice_id TEXT NOT NULL UNIQUE,
+  number TEXT,
+  status TEXT NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'usd',
+  -- Amounts in the currency's smallest unit, as Stripe reports them
+  amount_due INTEGER NOT NULL DEFAULT 0,
+  amount_paid INTEGER NOT NULL DEFAULT 0,
+  hosted_invoice_url TEXT,
+  invoice_pdf TEXT,
+  period_start TIMESTAMP WITH TIME ZONE,
+  period_end TIMESTAMP WITH TIME ZONE,
+  issued_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoices_workspace_issued
+  ON public.invoices (workspace_id, issued_at DESC);
+
+ALTER TABLE public.invoices ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Owners can view workspace invoices" ON public.invoices;
+CREATE POLICY "Owners can view workspace invoices"
+  ON public.invoices
+  FOR SELECT
+  USING (public.has_workspace_role(workspace_id, ARRAY['owner']) OR public.is_admin());
+
+DROP TRIGGER IF EXISTS update_invoices_updated_at ON public.invoices;
+CREATE TRIGGER update_invoices_updated_at
+  BEFORE UPDATE ON public.invoices
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.invoices REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.invoices;
@@ -0,0 +1,220 @@
+-- Asset review.
+-- generated_assets.approved was never checked, and HeyGen used it to mean
+-- "render finished". Generated assets now carry a review status
+-- (draft -> in_review -> approved / rejected, or changes_requested when a
+-- reviewer sends it back for regeneration). approved mirrors that status.
+-- Workspaces that turn on require_approval can only publish approved assets.
+-- Status changes go through the asset-review edge function, which records
+-- each decision in the asset's comment thread.
+
+ALTER TABLE public.client_configs
+  ADD COLUMN IF NOT EXISTS require_approval BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.generated_assets
+  ADD COLUMN IF NOT EXISTS review_status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (review_status IN ('draft', 'in_review', 'approved', 'rejected', 'changes_requested')),
+  ADD COLUMN IF NOT EXISTS submitted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP WITH TIME ZONE,
+  -- The asset a requested change was regenerated from
+  ADD COLUMN IF NOT EXISTS regenerated_from UUID REFERENCES public.generated_assets(id) ON DELETE SET NULL;
+
+-- Nothing has been reviewed yet; the old flag only tracked HeyGen renders
+UPDATE public.generated_assets SET approved = false WHERE approved;
+
+CREATE INDEX IF NOT EXISTS idx_generated_assets_review
+  ON public.generated_assets(workspace_id, review_status, created_at DESC);
+
+-- Members edit their generated assets directly, so the review columns are
+-- guarded here: only service-role callers (the asset-review function and the
+-- generation workers) may set them. Once approved, the file itself is fixed
+-- for everyone, since approval is what lets it be published.
+CREATE OR REPLACE FUNCTION public.guard_generated_asset_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.review_status = 'approved'
+    AND (NEW.url IS DISTINCT FROM OLD.url OR NEW.asset_type IS DISTINCT FROM OLD.asset_type) THEN
+    RAISE EXCEPTION 'Approved assets cannot be replaced; generate a new version instead';
+  END IF;
+
+  IF auth.uid() IS NOT NULL THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.review_status := 'draft';
+      NEW.submitted_at := NULL;
+      NEW.reviewed_by := NULL;
+      NEW.reviewed_at := NULL;
+    ELSIF NEW.review_status IS DISTINCT FROM OLD.review_status
+      OR NEW.reviewed_by IS DISTINCT FROM OLD.reviewed_by
+      OR NEW.reviewed_at IS DISTINCT FROM OLD.reviewed_at THEN
+      RAISE EXCEPTION 'Review status can only be changed through the review workflow';
+    END IF;
+  END IF;
+
+  NEW.approved := NEW.review_status = 'approved';
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_generated_asset_review ON public.generated_assets;
+CREATE TRIGGER guard_generated_asset_review
+  BEFORE INSERT OR UPDATE ON public.generated_assets
+  FOR EACH ROW EXECUTE FUNCTION public.guard_generated_asset_review();
+
+-- Library entries of an approved asset are published on its approval, so
+-- they can't be pointed at another file or another asset afterwards, and
+-- members can only add them with the approved file
+CREATE OR REPLACE FUNCTION public.guard_library_asset_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  approved_url TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF auth.uid() IS NOT NULL THEN
+      SELECT url INTO approved_url
+      FROM public.generated_assets
+      WHERE id = NEW.original_asset_id AND review_status = 'approved';
+
+      IF approved_url IS NOT NULL AND NEW.asset_url IS DISTINCT FROM approved_url THEN
+        RAISE EXCEPTION 'Library entries of approved assets must use the approved file';
+      END IF;
+    END IF;
+  ELSIF (NEW.asset_url IS DISTINCT FROM OLD.asset_url
+      OR NEW.asset_type IS DISTINCT FROM OLD.asset_type
+      OR NEW.original_asset_id IS DISTINCT FROM OLD.original_asset_id)
+    AND EXISTS (
+      SELECT 1
+      FROM public.generated_assets
+      WHERE id IN (OLD.original_asset_id, NEW.original_asset_id)
+        AND review_status = 'approved'
+    ) THEN
+    RAISE EXCEPTION 'Approved assets cannot be replaced; generate a new version instead';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_library_asset_review ON public.asset_library;
+CREATE TRIGGER guard_library_asset_review
+  BEFORE INSERT OR UPDATE ON public.asset_library
+  FOR EACH ROW EXECUTE FUNCTION public.guard_library_asset_review();
+
+ALTER TABLE public.generated_assets REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.generated_assets;
+
+-- Reviewer comments plus a row for every status change, oldest first
+CREATE TABLE IF NOT EXISTS public.asset_review_comments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  generated_asset_id UUID NOT NULL REFERENCES public.generated_assets(id) ON DELETE CASCADE,
+  workspace_id UUID NOT NULL REFERENCES public.client_configs(id) ON DELETE CASCADE,
+  author_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  kind TEXT NOT NULL DEFAULT 'comment'
+    CHECK (kind IN ('comment', 'submitted', 'withdrawn', 'approved', 'rejected', 'changes_requested')),
+  body TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_asset_review_comments_asset
+  ON public.asset_review_comments(generated_asset_id, created_at);
+
+ALTER TABLE public.asset_review_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view asset review comments"
+  ON public.asset_review_comments
+  FOR SELECT
+  USING (public.has_workspace_role(workspace_id));
+
+ALTER TABLE public.asset_review_comments REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.asset_review_comments;
+
+-- Whether an asset may be published from the workspace. Accepts either the
+-- library entry or the generated asset behind it.
+CREATE OR REPLACE FUNCTION public.can_publish_asset(
+  p_workspace_id UUID,
+  p_library_asset_id UUID DEFAULT NULL,
+  p_generated_asset_id UUID DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT NOT COALESCE((SELECT require_approval FROM public.client_configs WHERE id = p_workspace_id), false)
+    OR EXISTS (
+      SELECT 1
+      FROM public.generated_assets generated
+      WHERE generated.workspace_id = p_workspace_id
+        AND generated.review_status = 'approved'
+        AND (
+          generated.id = p_generated_asset_id
+          OR generated.id = (
+            SELECT library.original_asset_id
+            FROM public.asset_library library
+            WHERE library.id = p_library_asset_id
+          )
+        )
+    );
+$$;
+
+-- Posts scheduled straight from a generation have no library entry
+ALTER TABLE public.scheduled_posts
+  ADD COLUMN IF NOT EXISTS generated_asset_id UUID REFERENCES public.generated_assets(id) ON DELETE SET NULL;
+
+-- Submissions go to the workspace owners; decisions go back to whoever
+-- generated the asset
+CREATE OR REPLACE FUNCTION public.handle_asset_review_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  asset_label TEXT := initcap(NEW.asset_type) || ' for ' || NEW.channel;
+BEGIN
+  IF NEW.review_status IS NOT DISTINCT FROM OLD.review_status OR NEW.workspace_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.review_status = 'in_review' THEN
+    INSERT INTO public.notifications (user_id, workspace_id, kind, title, body, link_tab)
+    SELECT member.user_id, NEW.workspace_id, 'asset_review', 'Ready for review: ' || asset_label, NEW.instruction, 'library'
+    FROM public.workspace_members member
+    WHERE member.client_config_id = NEW.workspace_id
+      AND member.role = 'owner'
+      AND member.user_id IS DISTINCT FROM NEW.owner_id;
+  ELSIF NEW.review_status IN ('approved', 'rejected', 'changes_requested') AND NEW.owner_id IS NOT NULL THEN
+    INSERT INTO public.notifications (user_id, workspace_id, kind, title, body, link_tab)
+    VALUES (
+      NEW.owner_id,
+      NEW.workspace_id,
+      'asset_review',
+      CASE NEW.review_status
+        WHEN 'approved' THEN 'Approved: ' || asset_label
+        WHEN 'rejected' THEN 'Rejected: ' || asset_label
+        ELSE 'Changes requested: ' || asset_label
+      END,
+      (
+        SELECT comment.body
+        FROM public.asset_review_comments comment
+        WHERE comment.generated_asset_id = NEW.id
+        ORDER BY comment.created_at DESC
+        LIMIT 1
+      ),
+      'library'
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS asset_review_status_changed ON public.generated_assets;
+CREATE TRIGGER asset_review_status_changed
+  AFTER UPDATE OF review_status ON public.generated_assets
+  FOR EACH ROW EXECUTE FUNCTION public.handle_asset_review_status();
@@ -0,0 +1,14 @@
+-- Scheduling on every publishing network.
+-- social-scheduler hands posts to the publish function, so it can schedule
+-- for any network the publish function has a provider for. Networks that
+-- need their own settings (a Pinterest board, TikTok privacy, an X thread)
+-- keep them with the post until it goes out.
+
+ALTER TABLE public.scheduled_posts
+  ADD COLUMN IF NOT EXISTS link TEXT,
+  ADD COLUMN IF NOT EXISTS options JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE public.scheduled_posts DROP CONSTRAINT IF EXISTS scheduled_posts_platform_check;
+ALTER TABLE public.scheduled_posts
+  ADD CONSTRAINT scheduled_posts_platform_check
+  CHECK (platform IN ('youtube', 'instagram', 'facebook', 'tiktok', 'pinterest', 'twitter', 'linkedin'));